@@ -1,6 +1,7 @@
 // db/index.ts
-import { neon, neonConfig } from "@neondatabase/serverless";
+import { neon, neonConfig, Pool } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
+import { drizzle as drizzleWs } from "drizzle-orm/neon-serverless";
 import { env } from "cloudflare:workers";
 import ws from "ws";
 import * as schema from "./schema";
@@ -10,3 +11,21 @@ neonConfig.poolQueryViaFetch = true;
 
 const sql = neon(env.DATABASE_URL || "");
 export const db = drizzle(sql, { schema });
+
+const transactionDb = (pool: Pool) => drizzleWs(pool, { schema });
+
+export type DbTransaction = Parameters<Parameters<ReturnType<typeof transactionDb>["transaction"]>[0]>[0];
+
+/**
+ * Run `fn` in an interactive transaction. neon-http sends each statement as its own request and
+ * can't hold a transaction (or a row lock) open, so transactions get a WebSocket pool of their own,
+ * closed afterwards since Workers can't reuse a socket across requests.
+ */
+export async function withTransaction<T>(fn: (tx: DbTransaction) => Promise<T>): Promise<T> {
+    const pool = new Pool({ connectionString: env.DATABASE_URL || "" });
+    try {
+        return await transactionDb(pool).transaction(fn);
+    } finally {
+        await pool.end();
+    }
+}
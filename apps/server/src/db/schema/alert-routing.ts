@@ -0,0 +1,111 @@
+﻿// db/schema/alert-routing.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    integer,
+    uuid,
+    boolean,
+    index,
+    check
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import { athleteAlerts } from "./analytics";
+import {
+    alertRoutingStrategyEnum,
+    alertRoutingTriggerEnum,
+    alertTypeEnum,
+    riskLevelEnum,
+    userRoleEnum
+} from "@/db/schema/enums";
+
+// NEW: Per-box alert routing rules, evaluated in priority order (first match wins)
+export const alertRoutingRules = pgTable("alert_routing_rules", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    name: text("name").notNull(),
+    priority: integer("priority").notNull(), // Lower runs first
+
+    // Match conditions, null matches any
+    alertType: alertTypeEnum("alert_type"),
+    minSeverity: riskLevelEnum("min_severity"),
+
+    strategy: alertRoutingStrategyEnum("strategy").notNull(),
+    targetRole: userRoleEnum("target_role"), // Required for "role", narrows round_robin/least_loaded
+
+    // Round-robin position
+    lastAssignedCoachId: uuid("last_assigned_coach_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+
+    isActive: boolean("is_active").default(true).notNull(),
+    createdByMembershipId: uuid("created_by_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxActivePriorityIdx: index("alert_routing_rules_box_active_priority_idx").on(
+        table.boxId, table.isActive, table.priority
+    ),
+
+    // Constraints
+    roleTargetRequired: check(
+        "alert_routing_rules_role_target_required",
+        sql`${table.strategy} <> 'role' OR ${table.targetRole} IS NOT NULL`
+    ),
+    targetRoleIsCoach: check(
+        "alert_routing_rules_target_role_is_coach",
+        sql`${table.targetRole} IS NULL OR ${table.targetRole} <> 'athlete'`
+    ),
+}));
+
+// NEW: Every assignment (and reassignment) of an alert, with why it went where it did
+export const alertRoutingDecisions = pgTable("alert_routing_decisions", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    alertId: uuid("alert_id").references(() => athleteAlerts.id, { onDelete: "cascade" }).notNull(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    ruleId: uuid("rule_id").references(() => alertRoutingRules.id, { onDelete: "set null" }),
+
+    trigger: alertRoutingTriggerEnum("trigger").notNull(),
+    strategy: alertRoutingStrategyEnum("strategy"), // Null for manual assignment
+    assignedCoachId: uuid("assigned_coach_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+    previousCoachId: uuid("previous_coach_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+    isFallback: boolean("is_fallback").default(false).notNull(), // Escalated to a head coach/owner
+    reason: text("reason").notNull(),
+
+    decidedAt: timestamp("decided_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    alertIdx: index("alert_routing_decisions_alert_idx").on(table.alertId, table.decidedAt),
+
+    // CRITICAL: Composite indexes for common queries
+    boxCoachDecidedIdx: index("alert_routing_decisions_box_coach_decided_idx").on(
+        table.boxId, table.assignedCoachId, table.decidedAt
+    ),
+}));
+
+// Relations
+export const alertRoutingRulesRelations = relations(alertRoutingRules, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [alertRoutingRules.boxId],
+        references: [boxes.id],
+        relationName: "box_alert_routing_rules"
+    }),
+    decisions: many(alertRoutingDecisions, { relationName: "rule_routing_decisions" }),
+}));
+
+export const alertRoutingDecisionsRelations = relations(alertRoutingDecisions, ({ one }) => ({
+    alert: one(athleteAlerts, {
+        fields: [alertRoutingDecisions.alertId],
+        references: [athleteAlerts.id],
+        relationName: "alert_routing_decisions"
+    }),
+    rule: one(alertRoutingRules, {
+        fields: [alertRoutingDecisions.ruleId],
+        references: [alertRoutingRules.id],
+        relationName: "rule_routing_decisions"
+    }),
+    assignedCoach: one(boxMemberships, {
+        fields: [alertRoutingDecisions.assignedCoachId],
+        references: [boxMemberships.id],
+        relationName: "coach_routing_decisions"
+    }),
+}));
@@ -16,6 +16,7 @@ import {
 import { relations, sql } from "drizzle-orm";
 import { boxes, boxMemberships } from "./core";
 import {alertStatusEnum, alertTypeEnum, riskLevelEnum, userRoleEnum} from "@/db/schema/enums";
+import type { RiskExplanation } from "./types";
 
 // CORE ANALYTICS TABLE: Athlete retention risk scores
 export const athleteRiskScores = pgTable("athlete_risk_scores", {
@@ -48,6 +49,14 @@ export const athleteRiskScores = pgTable("athlete_risk_scores", {
     // Prediction factors
     factors: json("factors"), // Contributing risk factors and their weights
 
+    // NEW: Coach-facing explanation - top factors, their evidence and the change since the last score
+    explanation: json("explanation").$type<RiskExplanation>(),
+
+    // NEW: Which registered churn model produced this score
+    modelName: text("model_name").default("heuristic").notNull(),
+    modelVersion: text("model_version").default("1.0.0").notNull(),
+    scoringConfigVersion: integer("scoring_config_version"), // riskScoringConfigs.version, null for the built-in defaults
+
     // Metadata - consistent timestamp naming
     calculatedAt: timestamp("calculated_at", { withTimezone: true }).defaultNow().notNull(),
     validUntil: timestamp("valid_until", { withTimezone: true }).notNull(), // Score expiry
@@ -1101,6 +1110,12 @@ export const financialImpactAnalytics = pgTable("financial_impact_analytics", {
     avgCustomerLifetimeValue: decimal("avg_customer_lifetime_value", { precision: 10, scale: 2 }),
     clvImprovementFromProgram: decimal("clv_improvement_from_program", { precision: 10, scale: 2 }),
 
+    // NEW: Churn exposure and what interventions kept
+    churnedMembers: integer("churned_members"), // Churn retention events in the period
+    revenueAtRisk: decimal("revenue_at_risk", { precision: 10, scale: 2 }), // Monthly dues weighted by each athlete's churn probability
+    revenueSavedByInterventions: decimal("revenue_saved_by_interventions", { precision: 10, scale: 2 }),
+    membersRetainedByInterventions: integer("members_retained_by_interventions"),
+
     calculatedAt: timestamp("calculated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
     boxPeriodIdx: index("financial_impact_analytics_box_period_idx").on(table.boxId, table.periodStart),
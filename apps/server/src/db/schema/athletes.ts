@@ -15,12 +15,17 @@ import {
 } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 import { boxes, boxMemberships } from "./core";
+import { classInstances, classReservations } from "./schedule";
+import { programmedWorkouts } from "./programming";
 import {
     badgeTypeEnum,
     benchmarkCategoryEnum,
     bodyPartEnum,
     movementCategoryEnum,
-    videoProcessingStatusEnum
+    relativeScoringEnum,
+    scoreSortDirectionEnum,
+    videoProcessingStatusEnum,
+    workoutScoringTypeEnum
 } from "@/db/schema/enums";
 
 // Movement types for PR tracking - enhanced with skill/lift flags
@@ -37,7 +42,7 @@ export const movements = pgTable("movements", {
     isLift: boolean("is_lift").default(false).notNull(), // Pure strength movements
 
     // Measurement - enhanced with validation
-    unit: text("unit").notNull(), // "lbs", "kg", "seconds", "reps"
+    unit: text("unit").notNull(), // "kg" (all loads), "seconds", "reps"
     isTimeBased: boolean("is_time_based").default(false).notNull(),
 
     // Metadata
@@ -78,8 +83,8 @@ export const athletePrs = pgTable("athlete_prs", {
     movementId: uuid("movement_id").references(() => movements.id, { onDelete: "cascade" }).notNull(),
 
     // PR Data - consistent naming with benchmarks
-    value: decimal("value", { precision: 8, scale: 2 }).notNull(),
-    unit: text("unit").notNull(),
+    value: decimal("value", { precision: 10, scale: 3 }).notNull(), // Loads in kg (see units.ts)
+    unit: text("unit").notNull(), // "kg" for loads, otherwise the movement's unit
     reps: integer("reps"), // For strength movements
 
     // Context
@@ -201,14 +206,21 @@ export const athleteBenchmarks = pgTable("athlete_benchmarks", {
     benchmarkId: uuid("benchmark_id").references(() => benchmarkWods.id, { onDelete: "cascade" }).notNull(),
 
     // Result Data - consistent naming with PRs (using "value" instead of "result")
-    value: decimal("value", { precision: 10, scale: 3 }).notNull(), // Time in seconds or rounds/reps
-    valueType: text("value_type").notNull(), // "time", "rounds_reps", "weight" (renamed for consistency)
+    value: decimal("value", { precision: 10, scale: 3 }).notNull(), // Canonical score value (see workout-score.ts)
+    valueType: text("value_type").notNull(), // "time", "rounds_reps", "weight", "reps", "calories", "distance"
+    unit: text("unit"), // "kg" for weight results (stored in kg), null otherwise
+    rawScore: text("raw_score"), // Score as entered, e.g. "4:32", "12+7", "CAP+15"
+    sortDirection: scoreSortDirectionEnum("sort_direction").default("desc").notNull(),
+    tiebreakSeconds: integer("tiebreak_seconds"),
+    isCapped: boolean("is_capped").default(false).notNull(),
     scaled: boolean("scaled").default(false).notNull(),
     scalingNotes: text("scaling_notes"),
 
     // Context
     notes: text("notes"),
     coachNotes: text("coach_notes"),
+    // NEW: Programmed workout reference (preferred over the free-text name)
+    programmedWorkoutId: uuid("programmed_workout_id").references(() => programmedWorkouts.id, { onDelete: "set null" }),
 
     // Metadata - consistent naming
     achievedAt: timestamp("achieved_at", { withTimezone: true }).defaultNow().notNull(), // Renamed for consistency
@@ -223,6 +235,7 @@ export const athleteBenchmarks = pgTable("athlete_benchmarks", {
     ),
     publicIdIdx: index("athlete_benchmarks_public_id_idx").on(table.publicId),
     achievedAtIdx: index("athlete_benchmarks_achieved_at_idx").on(table.achievedAt),
+    programmedWorkoutIdx: index("athlete_benchmarks_programmed_workout_idx").on(table.programmedWorkoutId),
 
     // CRITICAL: Composite indexes for common queries
     boxMembershipAchievedIdx: index("athlete_benchmarks_box_membership_achieved_idx").on(
@@ -368,6 +381,13 @@ export const wodFeedback = pgTable("wod_feedback", {
     // Time and results
     workoutDurationMinutes: integer("workout_duration_minutes"), // Renamed for clarity
     result: text("result"), // Free text for workout result
+    // NEW: Normalized score parsed from the free-text result (see workout-score.ts)
+    scoreType: workoutScoringTypeEnum("score_type"),
+    scoreValue: decimal("score_value", { precision: 12, scale: 3 }), // Canonical sortable value
+    scoreSortDirection: scoreSortDirectionEnum("score_sort_direction"),
+    scoreTiebreakSeconds: integer("score_tiebreak_seconds"),
+    scoreIsCapped: boolean("score_is_capped").default(false).notNull(),
+    scoreUnit: text("score_unit"), // Unit a load was logged in ("kg" / "lbs")
 
     // Notes
     notes: text("notes"),
@@ -376,6 +396,8 @@ export const wodFeedback = pgTable("wod_feedback", {
     // Reference - consistent naming
     wodName: text("wod_name").notNull(),
     wodDate: timestamp("wod_date", { withTimezone: true }).defaultNow().notNull(),
+    // NEW: Programmed workout reference (preferred over the free-text name)
+    programmedWorkoutId: uuid("programmed_workout_id").references(() => programmedWorkouts.id, { onDelete: "set null" }),
 
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
@@ -385,6 +407,7 @@ export const wodFeedback = pgTable("wod_feedback", {
         table.boxId, table.membershipId, table.wodDate
     ),
     wodDateIdx: index("wod_feedback_wod_date_idx").on(table.wodDate),
+    programmedWorkoutIdx: index("wod_feedback_programmed_workout_idx").on(table.programmedWorkoutId),
 
     // Constraints
     rpeRange: check(
@@ -449,11 +472,24 @@ export const wodAttendance = pgTable("wod_attendance", {
     scaled: boolean("scaled").default(false), // Whether workout was scaled
     rx: boolean("rx").default(false), // Whether performed as prescribed
     score: text("score"), // Workout result (time, rounds, weight, etc.)
+    // NEW: Normalized score parsed from the free-text result (see workout-score.ts)
+    scoreType: workoutScoringTypeEnum("score_type"),
+    scoreValue: decimal("score_value", { precision: 12, scale: 3 }), // Canonical sortable value
+    scoreSortDirection: scoreSortDirectionEnum("score_sort_direction"),
+    scoreTiebreakSeconds: integer("score_tiebreak_seconds"),
+    scoreIsCapped: boolean("score_is_capped").default(false).notNull(),
+    scoreUnit: text("score_unit"), // Unit a load was logged in ("kg" / "lbs")
     notes: text("notes"), // Coach or athlete notes about the session
 
     // Coach information - FIXED: Added proper foreign key constraint
     coachMembershipId: uuid("coach_membership_id").references(() => boxMemberships.id),
 
+    // NEW: Schedule linkage - set when attendance is derived from a class reservation
+    classInstanceId: uuid("class_instance_id").references(() => classInstances.id, { onDelete: "set null" }),
+    reservationId: uuid("reservation_id").references(() => classReservations.id, { onDelete: "set null" }),
+    // NEW: Programmed workout reference (preferred over the free-text name)
+    programmedWorkoutId: uuid("programmed_workout_id").references(() => programmedWorkouts.id, { onDelete: "set null" }),
+
     // Timestamps
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
@@ -468,6 +504,11 @@ export const wodAttendance = pgTable("wod_attendance", {
     statusIdx: index("wod_attendance_status_idx").on(table.status),
     // Enhanced indexes
     checkedInAtIdx: index("wod_attendance_checked_in_at_idx").on(table.checkedInAt),
+    classInstanceIdx: index("wod_attendance_class_instance_idx").on(table.classInstanceId),
+    programmedWorkoutIdx: index("wod_attendance_programmed_workout_idx").on(table.programmedWorkoutId),
+
+    // A reservation produces at most one attendance row
+    reservationUnique: unique("wod_attendance_reservation_unique").on(table.reservationId),
 
     // Constraints
     wodAttendanceDurationPositive: check(
@@ -520,6 +561,8 @@ export const leaderboards = pgTable("leaderboards", {
     name: text("name").notNull(),
     type: text("type").notNull(), // "benchmark", "pr", "streak", "custom"
     category: text("category"), // "rx", "scaled", "all"
+    sortDirection: scoreSortDirectionEnum("sort_direction").default("desc").notNull(), // "asc" for timed workouts
+    relativeScoring: relativeScoringEnum("relative_scoring").default("none").notNull(), // Bodyweight-adjusted scoring (pr boards only)
 
     // Filtering criteria - FIXED: Added proper foreign key constraints
     movementId: uuid("movement_id").references(() => movements.id, { onDelete: "set null" }),
@@ -532,6 +575,7 @@ export const leaderboards = pgTable("leaderboards", {
     // Settings
     isActive: boolean("is_active").default(true).notNull(),
     maxEntries: integer("max_entries").default(10).notNull(), // Top N athletes
+    lastComputedAt: timestamp("last_computed_at", { withTimezone: true }), // Last automatic recompute (pr/benchmark/streak)
 
     // Metadata - FIXED: Should reference box_memberships, not user directly
     createdByMembershipId: uuid("created_by_membership_id").references(() => boxMemberships.id).notNull(),
@@ -559,8 +603,14 @@ export const leaderboardEntries = pgTable("leaderboard_entries", {
     membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
 
     // Entry data
-    value: decimal("value", { precision: 10, scale: 3 }).notNull(),
-    rank: integer("rank").notNull(),
+    value: decimal("value", { precision: 10, scale: 3 }).notNull(), // Canonical score value
+    tiebreakSeconds: integer("tiebreak_seconds"),
+    rank: integer("rank").notNull(), // Unique position on the board
+    displayRank: integer("display_rank"), // Shared by tied entries (1, 1, 3), falls back to rank when null
+    scaled: boolean("scaled").default(false).notNull(), // Scaled results rank behind Rx on combined boards
+    division: text("division").default("all").notNull(), // "all", "male", "female", "40_44", "female_40_44"...
+    rawValue: decimal("raw_value", { precision: 10, scale: 3 }), // Lift before bodyweight adjustment
+    bodyweightKg: decimal("bodyweight_kg", { precision: 6, scale: 2 }), // Bodyweight used for relative scoring
 
     // References to source records - FIXED: Added proper foreign key constraints
     prId: uuid("pr_id").references(() => athletePrs.id, { onDelete: "set null" }),
@@ -573,7 +623,7 @@ export const leaderboardEntries = pgTable("leaderboard_entries", {
 }, (table) => ({
     // OPTIMIZED: Essential indexes only
     leaderboardRankIdx: index("leaderboard_entries_leaderboard_rank_idx").on(
-        table.leaderboardId, table.rank
+        table.leaderboardId, table.division, table.rank
     ),
     leaderboardMembershipIdx: index("leaderboard_entries_leaderboard_membership_idx").on(
         table.leaderboardId, table.membershipId
@@ -589,8 +639,10 @@ export const leaderboardEntries = pgTable("leaderboard_entries", {
         "leaderboard_entries_value_positive",
         sql`${table.value} > 0`
     ),
-    // Unique constraint for leaderboard position
-    leaderboardRankUnique: unique("leaderboard_entries_leaderboard_rank_unique").on(table.leaderboardId, table.rank),
+    // Unique constraint for leaderboard position within a division
+    leaderboardRankUnique: unique("leaderboard_entries_leaderboard_division_rank_unique").on(
+        table.leaderboardId, table.division, table.rank
+    ),
 }));
 
 // Relations - Enhanced with proper naming and relationship clarification
@@ -662,6 +714,11 @@ export const athleteBenchmarksRelations = relations(athleteBenchmarks, ({ one, m
         references: [benchmarkWods.id],
         relationName: "benchmark_results"
     }),
+    programmedWorkout: one(programmedWorkouts, {
+        fields: [athleteBenchmarks.programmedWorkoutId],
+        references: [programmedWorkouts.id],
+        relationName: "programmed_workout_benchmarks"
+    }),
     leaderboardEntries: many(leaderboardEntries, { relationName: "benchmark_leaderboard_entries" }),
 }));
 
@@ -707,6 +764,11 @@ export const wodFeedbackRelations = relations(wodFeedback, ({ one, many }) => ({
         references: [boxMemberships.id],
         relationName: "membership_wod_feedback"
     }),
+    programmedWorkout: one(programmedWorkouts, {
+        fields: [wodFeedback.programmedWorkoutId],
+        references: [programmedWorkouts.id],
+        relationName: "programmed_workout_feedback"
+    }),
     painEntries: many(wodPainEntries, { relationName: "wod_pain_entries" }),
 }));
 
@@ -734,6 +796,21 @@ export const wodAttendanceRelations = relations(wodAttendance, ({ one }) => ({
         references: [boxMemberships.id],
         relationName: "coach_wod_attendance"
     }),
+    classInstance: one(classInstances, {
+        fields: [wodAttendance.classInstanceId],
+        references: [classInstances.id],
+        relationName: "class_instance_wod_attendance"
+    }),
+    reservation: one(classReservations, {
+        fields: [wodAttendance.reservationId],
+        references: [classReservations.id],
+        relationName: "reservation_wod_attendance"
+    }),
+    programmedWorkout: one(programmedWorkouts, {
+        fields: [wodAttendance.programmedWorkoutId],
+        references: [programmedWorkouts.id],
+        relationName: "programmed_workout_attendance"
+    }),
 }));
 
 export const athleteBadgesRelations = relations(athleteBadges, ({ one }) => ({
@@ -0,0 +1,211 @@
+﻿// db/schema/challenges.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    integer,
+    uuid,
+    date,
+    index,
+    check,
+    unique
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import { challengeCategoryEnum, challengeStatusEnum, competitionFormatEnum } from "@/db/schema/enums";
+
+// NEW: Nutrition and habit challenges (e.g. a 30-day "whole food" challenge)
+export const boxChallenges = pgTable("box_challenges", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+
+    // Challenge details
+    name: text("name").notNull(),
+    description: text("description"),
+    category: challengeCategoryEnum("category").default("nutrition").notNull(),
+    format: competitionFormatEnum("format").default("individual").notNull(),
+    teamSize: integer("team_size"), // Required for team challenges
+    status: challengeStatusEnum("status").default("draft").notNull(),
+
+    // Box-local dates, both inclusive
+    startDate: date("start_date").notNull(),
+    endDate: date("end_date").notNull(),
+
+    // Share of the available points a participant needs for the challenge to count as completed
+    completionThresholdPercent: integer("completion_threshold_percent").default(80).notNull(),
+
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdByMembershipId: uuid("created_by_membership_id").references(() => boxMemberships.id).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxStatusIdx: index("box_challenges_box_status_idx").on(table.boxId, table.status),
+    boxStartDateIdx: index("box_challenges_box_start_date_idx").on(table.boxId, table.startDate),
+
+    // Constraints
+    datesValid: check(
+        "box_challenges_dates_valid",
+        sql`${table.endDate} >= ${table.startDate}`
+    ),
+    teamSizeRange: check(
+        "box_challenges_team_size_range",
+        sql`${table.teamSize} >= 2 AND ${table.teamSize} <= 20`
+    ),
+    completionThresholdRange: check(
+        "box_challenges_completion_threshold_range",
+        sql`${table.completionThresholdPercent} >= 1 AND ${table.completionThresholdPercent} <= 100`
+    ),
+}));
+
+// NEW: The daily checklist, each habit worth its points once per day
+export const challengeHabits = pgTable("challenge_habits", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    challengeId: uuid("challenge_id").references(() => boxChallenges.id, { onDelete: "cascade" }).notNull(),
+    position: integer("position").notNull(),
+
+    name: text("name").notNull(),
+    description: text("description"),
+    points: integer("points").default(1).notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    challengePositionUnique: unique("challenge_habits_challenge_position_unique").on(
+        table.challengeId, table.position
+    ),
+
+    // Constraints
+    pointsRange: check(
+        "challenge_habits_points_range",
+        sql`${table.points} >= 1 AND ${table.points} <= 100`
+    ),
+}));
+
+// NEW: Teams for team-format challenges
+export const challengeTeams = pgTable("challenge_teams", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    challengeId: uuid("challenge_id").references(() => boxChallenges.id, { onDelete: "cascade" }).notNull(),
+    name: text("name").notNull(),
+    captainMembershipId: uuid("captain_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    challengeNameUnique: unique("challenge_teams_challenge_name_unique").on(table.challengeId, table.name),
+}));
+
+// NEW: Athletes taking part (individually, or as members of a team)
+export const challengeParticipants = pgTable("challenge_participants", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    challengeId: uuid("challenge_id").references(() => boxChallenges.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+    teamId: uuid("team_id").references(() => challengeTeams.id, { onDelete: "set null" }),
+
+    joinedAt: timestamp("joined_at", { withTimezone: true }).defaultNow().notNull(),
+    withdrawnAt: timestamp("withdrawn_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }), // Set when the threshold was reached at close
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    teamIdx: index("challenge_participants_team_idx").on(table.teamId),
+    membershipIdx: index("challenge_participants_membership_idx").on(table.membershipId),
+
+    challengeMembershipUnique: unique("challenge_participants_challenge_membership_unique").on(
+        table.challengeId, table.membershipId
+    ),
+}));
+
+// NEW: Daily habit check-offs
+export const challengeHabitLogs = pgTable("challenge_habit_logs", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    challengeId: uuid("challenge_id").references(() => boxChallenges.id, { onDelete: "cascade" }).notNull(),
+    habitId: uuid("habit_id").references(() => challengeHabits.id, { onDelete: "cascade" }).notNull(),
+    participantId: uuid("participant_id").references(() => challengeParticipants.id, { onDelete: "cascade" }).notNull(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+
+    logDate: date("log_date").notNull(), // Box-local day the habit was done
+    points: integer("points").notNull(), // Habit points at the time of logging
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    challengeDateIdx: index("challenge_habit_logs_challenge_date_idx").on(table.challengeId, table.logDate),
+    boxMembershipDateIdx: index("challenge_habit_logs_box_membership_date_idx").on(
+        table.boxId, table.membershipId, table.logDate
+    ),
+
+    habitParticipantDateUnique: unique("challenge_habit_logs_habit_participant_date_unique").on(
+        table.habitId, table.participantId, table.logDate
+    ),
+}));
+
+// Relations
+export const boxChallengesRelations = relations(boxChallenges, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [boxChallenges.boxId],
+        references: [boxes.id],
+        relationName: "box_challenges"
+    }),
+    createdBy: one(boxMemberships, {
+        fields: [boxChallenges.createdByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "created_challenges"
+    }),
+    habits: many(challengeHabits, { relationName: "challenge_habits" }),
+    teams: many(challengeTeams, { relationName: "challenge_teams" }),
+    participants: many(challengeParticipants, { relationName: "challenge_participants" }),
+}));
+
+export const challengeHabitsRelations = relations(challengeHabits, ({ one, many }) => ({
+    challenge: one(boxChallenges, {
+        fields: [challengeHabits.challengeId],
+        references: [boxChallenges.id],
+        relationName: "challenge_habits"
+    }),
+    logs: many(challengeHabitLogs, { relationName: "challenge_habit_logs" }),
+}));
+
+export const challengeTeamsRelations = relations(challengeTeams, ({ one, many }) => ({
+    challenge: one(boxChallenges, {
+        fields: [challengeTeams.challengeId],
+        references: [boxChallenges.id],
+        relationName: "challenge_teams"
+    }),
+    captain: one(boxMemberships, {
+        fields: [challengeTeams.captainMembershipId],
+        references: [boxMemberships.id],
+        relationName: "captained_challenge_teams"
+    }),
+    members: many(challengeParticipants, { relationName: "challenge_team_members" }),
+}));
+
+export const challengeParticipantsRelations = relations(challengeParticipants, ({ one, many }) => ({
+    challenge: one(boxChallenges, {
+        fields: [challengeParticipants.challengeId],
+        references: [boxChallenges.id],
+        relationName: "challenge_participants"
+    }),
+    membership: one(boxMemberships, {
+        fields: [challengeParticipants.membershipId],
+        references: [boxMemberships.id],
+        relationName: "membership_challenge_participations"
+    }),
+    team: one(challengeTeams, {
+        fields: [challengeParticipants.teamId],
+        references: [challengeTeams.id],
+        relationName: "challenge_team_members"
+    }),
+    logs: many(challengeHabitLogs, { relationName: "participant_habit_logs" }),
+}));
+
+export const challengeHabitLogsRelations = relations(challengeHabitLogs, ({ one }) => ({
+    habit: one(challengeHabits, {
+        fields: [challengeHabitLogs.habitId],
+        references: [challengeHabits.id],
+        relationName: "challenge_habit_logs"
+    }),
+    participant: one(challengeParticipants, {
+        fields: [challengeHabitLogs.participantId],
+        references: [challengeParticipants.id],
+        relationName: "participant_habit_logs"
+    }),
+}));
@@ -0,0 +1,171 @@
+﻿// db/schema/churn-models.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    integer,
+    uuid,
+    decimal,
+    boolean,
+    json,
+    index,
+    uniqueIndex,
+    check
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import { churnModelStatusEnum, riskMissingDataStrategyEnum } from "@/db/schema/enums";
+
+// NEW: Churn model versions registered per box. The strategy behind modelName lives in
+// code; parameters hold what a version learned (or was configured with).
+export const churnModelVersions = pgTable("churn_model_versions", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    modelName: text("model_name").notNull(), // "heuristic", "logistic_regression"
+    modelVersion: text("model_version").notNull(), // "1.0.0"
+    status: churnModelStatusEnum("status").default("shadow").notNull(),
+
+    parameters: json("parameters"), // Weights/coefficients, null for models without any
+
+    // Training provenance (null for untrained models)
+    trainingSamples: integer("training_samples"),
+    trainingChurned: integer("training_churned"),
+    trainedThrough: timestamp("trained_through", { withTimezone: true }), // Latest snapshot used for training
+
+    activatedAt: timestamp("activated_at", { withTimezone: true }),
+    retiredAt: timestamp("retired_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    boxModelVersionUnique: uniqueIndex("churn_model_versions_box_model_version_unique").on(
+        table.boxId, table.modelName, table.modelVersion
+    ),
+    boxStatusIdx: index("churn_model_versions_box_status_idx").on(table.boxId, table.status),
+
+    // One active model per box
+    activeUnique: uniqueIndex("churn_model_versions_active_unique")
+        .on(table.boxId)
+        .where(sql`status = 'active'`),
+
+    // Constraints
+    trainingCountsValid: check(
+        "churn_model_versions_training_counts_valid",
+        sql`${table.trainingChurned} IS NULL OR (${table.trainingChurned} >= 0 AND ${table.trainingChurned} <= ${table.trainingSamples})`
+    ),
+}));
+
+// NEW: Live predictions from every active and shadow model, for side-by-side comparison
+export const churnModelPredictions = pgTable("churn_model_predictions", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+    modelVersionId: uuid("model_version_id").references(() => churnModelVersions.id, { onDelete: "cascade" }),
+
+    // Denormalized so the built-in default (which has no version row) is recorded too
+    modelName: text("model_name").notNull(),
+    modelVersion: text("model_version").notNull(),
+
+    overallRiskScore: decimal("overall_risk_score", { precision: 5, scale: 2 }).notNull(),
+    churnProbability: decimal("churn_probability", { precision: 5, scale: 4 }).notNull(),
+
+    predictedAt: timestamp("predicted_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxModelPredictedIdx: index("churn_model_predictions_box_model_predicted_idx").on(
+        table.boxId, table.modelName, table.modelVersion, table.predictedAt
+    ),
+    membershipPredictedIdx: index("churn_model_predictions_membership_predicted_idx").on(
+        table.membershipId, table.predictedAt
+    ),
+
+    // Constraints
+    churnProbabilityRange: check(
+        "churn_model_predictions_probability_range",
+        sql`${table.churnProbability} >= 0 AND ${table.churnProbability} <= 1`
+    ),
+}));
+
+// NEW: Per-box risk scoring configuration. Append-only: every edit is a new version, and
+// athleteRiskScores records the version that produced it.
+export const riskScoringConfigs = pgTable("risk_scoring_configs", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    version: integer("version").notNull(),
+
+    // Component weights, normalized over the enabled components when scoring
+    attendanceWeight: decimal("attendance_weight", { precision: 4, scale: 3 }).default("0.300").notNull(),
+    wellnessWeight: decimal("wellness_weight", { precision: 4, scale: 3 }).default("0.250").notNull(),
+    performanceWeight: decimal("performance_weight", { precision: 4, scale: 3 }).default("0.200").notNull(),
+    engagementWeight: decimal("engagement_weight", { precision: 4, scale: 3 }).default("0.250").notNull(),
+
+    attendanceEnabled: boolean("attendance_enabled").default(true).notNull(),
+    wellnessEnabled: boolean("wellness_enabled").default(true).notNull(),
+    performanceEnabled: boolean("performance_enabled").default(true).notNull(),
+    engagementEnabled: boolean("engagement_enabled").default(true).notNull(),
+
+    // Risk level cut-offs on the 0-100 risk score
+    mediumThreshold: decimal("medium_threshold", { precision: 5, scale: 2 }).default("25").notNull(),
+    highThreshold: decimal("high_threshold", { precision: 5, scale: 2 }).default("50").notNull(),
+    criticalThreshold: decimal("critical_threshold", { precision: 5, scale: 2 }).default("75").notNull(),
+
+    // How a component the athlete has no data for (e.g. no wellness check-ins) is scored
+    missingDataStrategy: riskMissingDataStrategyEnum("missing_data_strategy").default("neutral").notNull(),
+
+    notes: text("notes"),
+    createdByMembershipId: uuid("created_by_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    boxVersionUnique: uniqueIndex("risk_scoring_configs_box_version_unique").on(table.boxId, table.version),
+
+    // Constraints
+    weightsValid: check(
+        "risk_scoring_configs_weights_valid",
+        sql`${table.attendanceWeight} >= 0 AND ${table.wellnessWeight} >= 0 AND ${table.performanceWeight} >= 0 AND ${table.engagementWeight} >= 0`
+    ),
+    thresholdsOrdered: check(
+        "risk_scoring_configs_thresholds_ordered",
+        sql`${table.mediumThreshold} > 0 AND ${table.mediumThreshold} < ${table.highThreshold} AND ${table.highThreshold} < ${table.criticalThreshold} AND ${table.criticalThreshold} <= 100`
+    ),
+    versionPositive: check("risk_scoring_configs_version_positive", sql`${table.version} > 0`),
+}));
+
+// Relations
+export const churnModelVersionsRelations = relations(churnModelVersions, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [churnModelVersions.boxId],
+        references: [boxes.id],
+        relationName: "box_churn_model_versions"
+    }),
+    predictions: many(churnModelPredictions, { relationName: "model_version_predictions" }),
+}));
+
+export const churnModelPredictionsRelations = relations(churnModelPredictions, ({ one }) => ({
+    box: one(boxes, {
+        fields: [churnModelPredictions.boxId],
+        references: [boxes.id],
+        relationName: "box_churn_model_predictions"
+    }),
+    membership: one(boxMemberships, {
+        fields: [churnModelPredictions.membershipId],
+        references: [boxMemberships.id],
+        relationName: "membership_churn_model_predictions"
+    }),
+    modelVersion: one(churnModelVersions, {
+        fields: [churnModelPredictions.modelVersionId],
+        references: [churnModelVersions.id],
+        relationName: "model_version_predictions"
+    }),
+}));
+
+export const riskScoringConfigsRelations = relations(riskScoringConfigs, ({ one }) => ({
+    box: one(boxes, {
+        fields: [riskScoringConfigs.boxId],
+        references: [boxes.id],
+        relationName: "box_risk_scoring_configs"
+    }),
+    createdBy: one(boxMemberships, {
+        fields: [riskScoringConfigs.createdByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "created_risk_scoring_configs"
+    }),
+}));
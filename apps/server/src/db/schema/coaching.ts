@@ -0,0 +1,119 @@
+﻿// db/schema/coaching.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    uuid,
+    date,
+    index,
+    uniqueIndex,
+    check
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import { coachAssignmentRoleEnum } from "@/db/schema/enums";
+
+// NEW: Explicit coach-athlete assignments with effective dates
+export const coachAthleteAssignments = pgTable("coach_athlete_assignments", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    coachMembershipId: uuid("coach_membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+    athleteMembershipId: uuid("athlete_membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+    role: coachAssignmentRoleEnum("role").default("primary").notNull(),
+
+    // Box-local dates, both inclusive. An open-ended assignment has no effectiveTo.
+    effectiveFrom: date("effective_from").notNull(),
+    effectiveTo: date("effective_to"),
+
+    notes: text("notes"),
+    assignedByMembershipId: uuid("assigned_by_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+    endedByMembershipId: uuid("ended_by_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxCoachIdx: index("coach_athlete_assignments_box_coach_idx").on(table.boxId, table.coachMembershipId),
+    boxAthleteIdx: index("coach_athlete_assignments_box_athlete_idx").on(table.boxId, table.athleteMembershipId),
+
+    // An athlete has at most one open-ended primary coach
+    openPrimaryUnique: uniqueIndex("coach_athlete_assignments_open_primary_unique")
+        .on(table.athleteMembershipId)
+        .where(sql`role = 'primary' AND effective_to IS NULL`),
+
+    // Constraints
+    datesValid: check(
+        "coach_athlete_assignments_dates_valid",
+        sql`${table.effectiveTo} IS NULL OR ${table.effectiveTo} >= ${table.effectiveFrom}`
+    ),
+    notSelfAssigned: check(
+        "coach_athlete_assignments_not_self_assigned",
+        sql`${table.coachMembershipId} <> ${table.athleteMembershipId}`
+    ),
+}));
+
+// NEW: Coach leave (holidays, illness). Coaches on leave don't receive alerts.
+export const coachLeavePeriods = pgTable("coach_leave_periods", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    coachMembershipId: uuid("coach_membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+
+    // Box-local dates, both inclusive
+    startDate: date("start_date").notNull(),
+    endDate: date("end_date").notNull(),
+    reason: text("reason"),
+
+    createdByMembershipId: uuid("created_by_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    boxDatesIdx: index("coach_leave_periods_box_dates_idx").on(table.boxId, table.startDate, table.endDate),
+    coachIdx: index("coach_leave_periods_coach_idx").on(table.coachMembershipId),
+
+    // Constraints
+    datesValid: check(
+        "coach_leave_periods_dates_valid",
+        sql`${table.endDate} >= ${table.startDate}`
+    ),
+}));
+
+// Relations
+export const coachAthleteAssignmentsRelations = relations(coachAthleteAssignments, ({ one }) => ({
+    box: one(boxes, {
+        fields: [coachAthleteAssignments.boxId],
+        references: [boxes.id],
+        relationName: "box_coach_assignments"
+    }),
+    coach: one(boxMemberships, {
+        fields: [coachAthleteAssignments.coachMembershipId],
+        references: [boxMemberships.id],
+        relationName: "coach_assignments"
+    }),
+    athlete: one(boxMemberships, {
+        fields: [coachAthleteAssignments.athleteMembershipId],
+        references: [boxMemberships.id],
+        relationName: "athlete_coach_assignments"
+    }),
+    assignedBy: one(boxMemberships, {
+        fields: [coachAthleteAssignments.assignedByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "created_coach_assignments"
+    }),
+    endedBy: one(boxMemberships, {
+        fields: [coachAthleteAssignments.endedByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "ended_coach_assignments"
+    }),
+}));
+
+export const coachLeavePeriodsRelations = relations(coachLeavePeriods, ({ one }) => ({
+    box: one(boxes, {
+        fields: [coachLeavePeriods.boxId],
+        references: [boxes.id],
+        relationName: "box_coach_leave"
+    }),
+    coach: one(boxMemberships, {
+        fields: [coachLeavePeriods.coachMembershipId],
+        references: [boxMemberships.id],
+        relationName: "coach_leave_periods"
+    }),
+}));
@@ -0,0 +1,270 @@
+﻿// db/schema/competitions.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    boolean,
+    integer,
+    decimal,
+    uuid,
+    index,
+    check,
+    unique
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import { athleteBenchmarks, benchmarkWods } from "./athletes";
+import {
+    competitionFormatEnum,
+    competitionScoreStatusEnum,
+    competitionStatusEnum,
+    scoreSortDirectionEnum
+} from "@/db/schema/enums";
+
+// NEW: In-house competitions (e.g. the box "Intramural Open")
+export const competitions = pgTable("competitions", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+
+    // Competition details
+    name: text("name").notNull(),
+    description: text("description"),
+    format: competitionFormatEnum("format").default("individual").notNull(),
+    teamSize: integer("team_size"), // Required for team competitions
+    status: competitionStatusEnum("status").default("draft").notNull(),
+
+    // Dates
+    registrationClosesAt: timestamp("registration_closes_at", { withTimezone: true }),
+    startsAt: timestamp("starts_at", { withTimezone: true }).notNull(),
+    endsAt: timestamp("ends_at", { withTimezone: true }).notNull(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+
+    createdByMembershipId: uuid("created_by_membership_id").references(() => boxMemberships.id).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxStatusIdx: index("competitions_box_status_idx").on(table.boxId, table.status),
+    boxStartsAtIdx: index("competitions_box_starts_at_idx").on(table.boxId, table.startsAt),
+
+    // Constraints
+    datesValid: check(
+        "competitions_dates_valid",
+        sql`${table.endsAt} > ${table.startsAt}`
+    ),
+    teamSizeRange: check(
+        "competitions_team_size_range",
+        sql`${table.teamSize} >= 2 AND ${table.teamSize} <= 10`
+    ),
+}));
+
+// NEW: Scored events, defined by an Open benchmark WOD
+export const competitionEvents = pgTable("competition_events", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    competitionId: uuid("competition_id").references(() => competitions.id, { onDelete: "cascade" }).notNull(),
+    benchmarkId: uuid("benchmark_id").references(() => benchmarkWods.id, { onDelete: "restrict" }).notNull(),
+    position: integer("position").notNull(), // Event number (23.1, 23.2...)
+
+    name: text("name").notNull(), // Defaults to the benchmark name
+    timeCapSeconds: integer("time_cap_seconds"),
+    sortDirection: scoreSortDirectionEnum("sort_direction").default("desc").notNull(),
+
+    // Submission window
+    opensAt: timestamp("opens_at", { withTimezone: true }),
+    closesAt: timestamp("closes_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    competitionPositionIdx: index("competition_events_competition_position_idx").on(table.competitionId, table.position),
+
+    competitionPositionUnique: unique("competition_events_competition_position_unique").on(
+        table.competitionId, table.position
+    ),
+
+    // Constraints
+    positionPositive: check(
+        "competition_events_position_positive",
+        sql`${table.position} >= 1`
+    ),
+    timeCapPositive: check(
+        "competition_events_time_cap_positive",
+        sql`${table.timeCapSeconds} > 0`
+    ),
+}));
+
+// NEW: Teams for team-format competitions
+export const competitionTeams = pgTable("competition_teams", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    competitionId: uuid("competition_id").references(() => competitions.id, { onDelete: "cascade" }).notNull(),
+    name: text("name").notNull(),
+    captainMembershipId: uuid("captain_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    competitionIdx: index("competition_teams_competition_idx").on(table.competitionId),
+
+    competitionNameUnique: unique("competition_teams_competition_name_unique").on(
+        table.competitionId, table.name
+    ),
+}));
+
+// NEW: Athlete registrations (individual entrants, or members of a team)
+export const competitionRegistrations = pgTable("competition_registrations", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    competitionId: uuid("competition_id").references(() => competitions.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+    teamId: uuid("team_id").references(() => competitionTeams.id, { onDelete: "set null" }),
+
+    scaled: boolean("scaled").default(false).notNull(), // Scaled entrants place behind Rx
+
+    registeredAt: timestamp("registered_at", { withTimezone: true }).defaultNow().notNull(),
+    withdrawnAt: timestamp("withdrawn_at", { withTimezone: true }),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    competitionIdx: index("competition_registrations_competition_idx").on(table.competitionId),
+    teamIdx: index("competition_registrations_team_idx").on(table.teamId),
+    membershipIdx: index("competition_registrations_membership_idx").on(table.membershipId),
+
+    competitionMembershipUnique: unique("competition_registrations_competition_membership_unique").on(
+        table.competitionId, table.membershipId
+    ),
+}));
+
+// NEW: Event scores, submitted by athletes and validated by judges (coach memberships)
+export const competitionScores = pgTable("competition_scores", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    eventId: uuid("event_id").references(() => competitionEvents.id, { onDelete: "cascade" }).notNull(),
+
+    // Exactly one of these: individual registration or team
+    registrationId: uuid("registration_id").references(() => competitionRegistrations.id, { onDelete: "cascade" }),
+    teamId: uuid("team_id").references(() => competitionTeams.id, { onDelete: "cascade" }),
+
+    // Score (see workout-score.ts)
+    rawScore: text("raw_score").notNull(),
+    value: decimal("value", { precision: 12, scale: 3 }).notNull(),
+    tiebreakSeconds: integer("tiebreak_seconds"),
+    isCapped: boolean("is_capped").default(false).notNull(),
+    scaled: boolean("scaled").default(false).notNull(),
+
+    // Judging
+    status: competitionScoreStatusEnum("status").default("pending").notNull(),
+    submittedByMembershipId: uuid("submitted_by_membership_id").references(() => boxMemberships.id).notNull(),
+    judgedByMembershipId: uuid("judged_by_membership_id").references(() => boxMemberships.id),
+    judgedAt: timestamp("judged_at", { withTimezone: true }),
+    judgeNotes: text("judge_notes"),
+
+    // Individual results are also logged as a benchmark result once validated
+    athleteBenchmarkId: uuid("athlete_benchmark_id").references(() => athleteBenchmarks.id, { onDelete: "set null" }),
+
+    submittedAt: timestamp("submitted_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    eventStatusIdx: index("competition_scores_event_status_idx").on(table.eventId, table.status),
+
+    eventRegistrationUnique: unique("competition_scores_event_registration_unique").on(
+        table.eventId, table.registrationId
+    ),
+    eventTeamUnique: unique("competition_scores_event_team_unique").on(table.eventId, table.teamId),
+
+    // Constraints
+    singleEntrant: check(
+        "competition_scores_single_entrant",
+        sql`(${table.registrationId} IS NULL) <> (${table.teamId} IS NULL)`
+    ),
+}));
+
+// Relations
+export const competitionsRelations = relations(competitions, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [competitions.boxId],
+        references: [boxes.id],
+        relationName: "box_competitions"
+    }),
+    createdBy: one(boxMemberships, {
+        fields: [competitions.createdByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "created_competitions"
+    }),
+    events: many(competitionEvents, { relationName: "competition_events" }),
+    teams: many(competitionTeams, { relationName: "competition_teams" }),
+    registrations: many(competitionRegistrations, { relationName: "competition_registrations" }),
+}));
+
+export const competitionEventsRelations = relations(competitionEvents, ({ one, many }) => ({
+    competition: one(competitions, {
+        fields: [competitionEvents.competitionId],
+        references: [competitions.id],
+        relationName: "competition_events"
+    }),
+    benchmark: one(benchmarkWods, {
+        fields: [competitionEvents.benchmarkId],
+        references: [benchmarkWods.id],
+        relationName: "benchmark_competition_events"
+    }),
+    scores: many(competitionScores, { relationName: "competition_event_scores" }),
+}));
+
+export const competitionTeamsRelations = relations(competitionTeams, ({ one, many }) => ({
+    competition: one(competitions, {
+        fields: [competitionTeams.competitionId],
+        references: [competitions.id],
+        relationName: "competition_teams"
+    }),
+    captain: one(boxMemberships, {
+        fields: [competitionTeams.captainMembershipId],
+        references: [boxMemberships.id],
+        relationName: "captained_competition_teams"
+    }),
+    members: many(competitionRegistrations, { relationName: "competition_team_members" }),
+    scores: many(competitionScores, { relationName: "competition_team_scores" }),
+}));
+
+export const competitionRegistrationsRelations = relations(competitionRegistrations, ({ one, many }) => ({
+    competition: one(competitions, {
+        fields: [competitionRegistrations.competitionId],
+        references: [competitions.id],
+        relationName: "competition_registrations"
+    }),
+    membership: one(boxMemberships, {
+        fields: [competitionRegistrations.membershipId],
+        references: [boxMemberships.id],
+        relationName: "membership_competition_registrations"
+    }),
+    team: one(competitionTeams, {
+        fields: [competitionRegistrations.teamId],
+        references: [competitionTeams.id],
+        relationName: "competition_team_members"
+    }),
+    scores: many(competitionScores, { relationName: "competition_registration_scores" }),
+}));
+
+export const competitionScoresRelations = relations(competitionScores, ({ one }) => ({
+    event: one(competitionEvents, {
+        fields: [competitionScores.eventId],
+        references: [competitionEvents.id],
+        relationName: "competition_event_scores"
+    }),
+    registration: one(competitionRegistrations, {
+        fields: [competitionScores.registrationId],
+        references: [competitionRegistrations.id],
+        relationName: "competition_registration_scores"
+    }),
+    team: one(competitionTeams, {
+        fields: [competitionScores.teamId],
+        references: [competitionTeams.id],
+        relationName: "competition_team_scores"
+    }),
+    judgedBy: one(boxMemberships, {
+        fields: [competitionScores.judgedByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "judged_competition_scores"
+    }),
+    athleteBenchmark: one(athleteBenchmarks, {
+        fields: [competitionScores.athleteBenchmarkId],
+        references: [athleteBenchmarks.id],
+        relationName: "competition_score_benchmark"
+    }),
+}));
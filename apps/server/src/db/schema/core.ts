@@ -9,18 +9,21 @@ import {
     index,
     unique,
     json,
-    check
+    check,
+    decimal
 } from "drizzle-orm/pg-core";
 import {relations, sql} from "drizzle-orm";
 import { user } from "@/db/schema/auth";
 import {demoAchievements, demoDataSnapshots, demoGuidedFlows, demoPersonas, demoSessions} from "@/db/schema/demo";
 import {
     approvalStatusEnum,
+    athleteSexEnum,
     boxStatusEnum,
     inviteStatusEnum,
     subscriptionStatusEnum,
     subscriptionTierEnum,
-    userRoleEnum
+    userRoleEnum,
+    weightUnitEnum
 } from "@/db/schema/enums";
 
 // Core tenant/organization table - Enhanced with payment workflow support
@@ -92,6 +95,16 @@ export const boxes = pgTable("boxes", {
     // ENHANCED: Settings with payment-related config
     settings: json("settings"), // Can include notification preferences, etc.
 
+    // NEW: Loading settings for percentage-based training
+    defaultWeightUnit: weightUnitEnum("default_weight_unit").default("lbs").notNull(), // For athletes without a preference
+    loadIncrementKg: decimal("load_increment_kg", { precision: 5, scale: 2 }).default("2.50").notNull(), // Smallest jump the box's plates allow
+    loadIncrementLbs: decimal("load_increment_lbs", { precision: 5, scale: 2 }).default("5.00").notNull(),
+
+    // NEW: Box-provided pricing for financial impact analytics, null until the owner sets it
+    monthlyMembershipPrice: decimal("monthly_membership_price", { precision: 8, scale: 2 }), // Average monthly dues per athlete
+    interventionCost: decimal("intervention_cost", { precision: 8, scale: 2 }), // Coach time per retention intervention
+    memberAcquisitionCost: decimal("member_acquisition_cost", { precision: 8, scale: 2 }), // Marketing/onboarding spend per new member
+
     // Onboarding settings
     requireApproval: boolean("require_approval").default(true).notNull(),
     allowPublicSignup: boolean("allow_public_signup").default(true).notNull(),
@@ -133,6 +146,14 @@ export const boxes = pgTable("boxes", {
         "boxes_coach_limit_positive",
         sql`${table.currentCoachLimit} > 0`
     ),
+    loadIncrementsPositive: check(
+        "boxes_load_increments_positive",
+        sql`${table.loadIncrementKg} > 0 AND ${table.loadIncrementLbs} > 0`
+    ),
+    pricingPositive: check(
+        "boxes_pricing_positive",
+        sql`${table.monthlyMembershipPrice} >= 0 AND ${table.interventionCost} >= 0 AND ${table.memberAcquisitionCost} >= 0`
+    ),
     overagePositive: check(
         "boxes_overage_positive",
         sql`${table.currentAthleteOverage} >= 0 AND ${table.currentCoachOverage} >= 0`
@@ -158,6 +179,9 @@ export const boxMemberships = pgTable("box_memberships", {
     medicalNotes: text("medical_notes"),
     goals: text("goals"),
 
+    // Coach-specific fields
+    caseloadLimit: integer("caseload_limit"), // Max primary athletes, null = no limit
+
     // Engagement tracking - Enhanced with constraints
     checkinStreak: integer("checkin_streak").default(0).notNull(),
     longestCheckinStreak: integer("longest_checkin_streak").default(0).notNull(),
@@ -198,6 +222,10 @@ export const boxMemberships = pgTable("box_memberships", {
         "total_checkins_positive",
         sql`${table.totalCheckins} >= 0`
     ),
+    caseloadLimitPositive: check(
+        "caseload_limit_positive",
+        sql`${table.caseloadLimit} > 0`
+    ),
 }));
 
 // User profiles - Enhanced
@@ -208,7 +236,9 @@ export const userProfiles = pgTable("user_profiles", {
     fitnessLevel: text("fitness_level"), // beginner, intermediate, advanced
     preferredWorkoutTypes: text("preferred_workout_types"), // strength, conditioning, etc.
     yearsOfExperience: integer("years_of_experience"),
-    dateOfBirth: timestamp("date_of_birth", { withTimezone: true }), // Optional for age-based analytics
+    dateOfBirth: timestamp("date_of_birth", { withTimezone: true }), // Optional for age-based analytics and masters divisions
+    sex: athleteSexEnum("sex"), // Optional, used for leaderboard divisions
+    preferredWeightUnit: weightUnitEnum("preferred_weight_unit"), // Falls back to the box default
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
@@ -219,6 +249,25 @@ export const userProfiles = pgTable("user_profiles", {
     ),
 }));
 
+// NEW: Bodyweight history for bodyweight-relative leaderboard scoring
+export const userBodyweightLogs = pgTable("user_bodyweight_logs", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id").references(() => user.id, { onDelete: "cascade" }).notNull(),
+    weight: decimal("weight", { precision: 6, scale: 2 }).notNull(),
+    unit: text("unit").default("kg").notNull(), // Stored in kg, converted to the preferred unit on read
+    recordedAt: timestamp("recorded_at", { withTimezone: true }).defaultNow().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    userRecordedAtIdx: index("user_bodyweight_logs_user_recorded_at_idx").on(table.userId, table.recordedAt),
+
+    // Constraints
+    weightPositive: check(
+        "user_bodyweight_logs_weight_positive",
+        sql`${table.weight} > 0`
+    ),
+}));
+
 // Onboarding: Invite system for coaches/athletes - Enhanced
 export const boxInvites = pgTable("box_invites", {
     id: uuid("id").defaultRandom().primaryKey(),
@@ -380,3 +429,11 @@ export const userProfilesRelations = relations(userProfiles, ({ one }) => ({
         relationName: "user_profile"
     }),
 }));
+
+export const userBodyweightLogsRelations = relations(userBodyweightLogs, ({ one }) => ({
+    user: one(user, {
+        fields: [userBodyweightLogs.userId],
+        references: [user.id],
+        relationName: "user_bodyweight_logs"
+    }),
+}));
@@ -67,7 +67,8 @@ export const alertTypeEnum = pgEnum("alert_type", [
     'pr_celebration',
     'benchmark_improvement',
     'intervention_needed',
-    'feedback_request'
+    'feedback_request',
+    'attendance_policy_violation'
 ]);
 
 export const alertStatusEnum = pgEnum("alert_status", [
@@ -104,7 +105,9 @@ export const badgeTypeEnum = pgEnum("badge_type", [
     "benchmark_completion",
     "attendance",
     "consistency",
-    "community"
+    "community",
+    "competition",
+    "challenge"
 ]);
 
 // Video processing status enum for consistency
@@ -156,5 +159,179 @@ export const shareTypeEnum = pgEnum("share_type", [
     "pr_celebration",
     "progress_update",
     "technique_showcase",
-    "milestone_achievement"
+    "milestone_achievement",
+    "competition_result"
+]);
+
+// Class scheduling enums
+export const classTypeEnum = pgEnum("class_type", [
+    "wod",
+    "strength",
+    "olympic_lifting",
+    "gymnastics",
+    "endurance",
+    "open_gym",
+    "foundations",
+    "specialty"
+]);
+
+export const classInstanceStatusEnum = pgEnum("class_instance_status", [
+    "scheduled",
+    "cancelled",
+    "completed"
+]);
+
+export const reservationStatusEnum = pgEnum("reservation_status", [
+    "reserved",
+    "waitlisted",
+    "cancelled",
+    "late_cancel",
+    "attended",
+    "no_show"
+]);
+
+// Workout programming enums
+export const programmedWorkoutStatusEnum = pgEnum("programmed_workout_status", [
+    "draft",
+    "published",
+    "archived"
+]);
+
+export const workoutPartTypeEnum = pgEnum("workout_part_type", [
+    "warmup",
+    "strength",
+    "skill",
+    "metcon",
+    "accessory",
+    "cooldown"
+]);
+
+export const workoutScoringTypeEnum = pgEnum("workout_scoring_type", [
+    "time", // For time - lower is better
+    "rounds_reps", // AMRAP rounds + reps - higher is better
+    "load", // Heaviest load - higher is better
+    "reps", // Max reps - higher is better
+    "calories", // Max calories - higher is better
+    "distance", // Max distance - higher is better
+    "none" // Not scored
+]);
+
+export const scoreSortDirectionEnum = pgEnum("score_sort_direction", [
+    "asc", // Lower is better (for time)
+    "desc" // Higher is better
+]);
+
+// Intramural competition enums
+export const competitionStatusEnum = pgEnum("competition_status", [
+    "draft",
+    "registration_open",
+    "in_progress",
+    "completed",
+    "cancelled"
+]);
+
+export const competitionFormatEnum = pgEnum("competition_format", [
+    "individual",
+    "team"
+]);
+
+export const competitionScoreStatusEnum = pgEnum("competition_score_status", [
+    "pending", // Submitted, waiting for a judge
+    "validated",
+    "rejected"
+]);
+
+export const weightUnitEnum = pgEnum("weight_unit", [
+    "kg",
+    "lbs"
+]);
+
+export const athleteSexEnum = pgEnum("athlete_sex", [
+    "male",
+    "female"
+]);
+
+export const relativeScoringEnum = pgEnum("relative_scoring", [
+    "none", // Absolute value
+    "bodyweight_ratio", // Load / bodyweight
+    "sinclair", // Sinclair-adjusted load (Olympic lifts)
+    "wilks" // Wilks-adjusted load (powerlifts)
+]);
+
+// Injury case management enums
+export const injuryStatusEnum = pgEnum("injury_status", [
+    "active", // Not training the affected area
+    "modified_training", // Following the return-to-training plan
+    "cleared" // Back to full training
+]);
+
+// Wearable / fitness-file import enums
+export const wearableFileFormatEnum = pgEnum("wearable_file_format", [
+    "fit", // Garmin/ANT FIT (activity, monitoring and sleep files)
+    "gpx", // GPX tracks with heart rate extensions
+    "csv" // Sleep/HRV app exports
+]);
+
+export const wearableImportStatusEnum = pgEnum("wearable_import_status", [
+    "processed",
+    "failed"
+]);
+
+// Box-defined wellness questionnaire enums
+export const wellnessQuestionTypeEnum = pgEnum("wellness_question_type", [
+    "scale", // Integer between scaleMin and scaleMax
+    "choice", // One of the question's options
+    "boolean", // Yes/no
+    "text" // Free text
+]);
+
+// Nutrition/habit challenge enums
+export const challengeStatusEnum = pgEnum("challenge_status", [
+    "draft",
+    "active", // Open to join, habits can be logged between startDate and endDate
+    "completed",
+    "cancelled"
+]);
+
+export const challengeCategoryEnum = pgEnum("challenge_category", [
+    "nutrition",
+    "hydration",
+    "sleep",
+    "mobility",
+    "mindset",
+    "other"
+]);
+
+// Coach-athlete assignment enums
+export const coachAssignmentRoleEnum = pgEnum("coach_assignment_role", [
+    "primary", // Owns the athlete's alerts and follow-ups, counts toward the coach's caseload
+    "secondary"
+]);
+
+// Alert routing enums
+export const alertRoutingStrategyEnum = pgEnum("alert_routing_strategy", [
+    "assigned_coach", // The athlete's primary coach, then a secondary coach
+    "role", // Least-loaded coach holding the rule's target role
+    "round_robin",
+    "least_loaded" // Fewest open alerts
+]);
+
+export const alertRoutingTriggerEnum = pgEnum("alert_routing_trigger", [
+    "alert_created",
+    "assignee_unavailable", // Previous assignee left, was deactivated or went on leave
+    "manual"
+]);
+
+// Churn model registry enums
+export const churnModelStatusEnum = pgEnum("churn_model_status", [
+    "active", // Writes athleteRiskScores
+    "shadow", // Scored alongside the active model, predictions only
+    "retired"
+]);
+
+// Risk scoring configuration enums
+export const riskMissingDataStrategyEnum = pgEnum("risk_missing_data_strategy", [
+    "neutral", // Score the component as 50
+    "exclude", // Drop the component and reweight the rest
+    "penalize" // Score the component as 0
 ]);
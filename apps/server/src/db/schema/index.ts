@@ -2,6 +2,16 @@
 export * from "./auth";
 export * from "./core";
 export * from "./athletes";
+export * from "./schedule";
+export * from "./programming";
+export * from "./competitions";
+export * from "./injuries";
+export * from "./wearables";
+export * from "./wellness-questionnaires";
+export * from "./challenges";
+export * from "./coaching";
+export * from "./alert-routing";
+export * from "./churn-models";
 export * from "./analytics";
 export * from "./billing";
 export * from "./videos";
@@ -12,6 +22,16 @@ export * from "./notifications";
 import * as auth from "./auth";
 import * as core from "./core";
 import * as athletes from "./athletes";
+import * as schedule from "./schedule";
+import * as programming from "./programming";
+import * as competitions from "./competitions";
+import * as injuries from "./injuries";
+import * as wearables from "./wearables";
+import * as wellnessQuestionnaires from "./wellness-questionnaires";
+import * as challenges from "./challenges";
+import * as coaching from "./coaching";
+import * as alertRouting from "./alert-routing";
+import * as churnModels from "./churn-models";
 import * as analytics from "./analytics";
 import * as billing from "./billing";
 import * as videos from "./videos";
@@ -22,6 +42,16 @@ export const schema = {
     ...auth,
     ...core,
     ...athletes,
+    ...schedule,
+    ...programming,
+    ...competitions,
+    ...injuries,
+    ...wearables,
+    ...wellnessQuestionnaires,
+    ...challenges,
+    ...coaching,
+    ...alertRouting,
+    ...churnModels,
     ...analytics,
     ...billing,
     ...videos,
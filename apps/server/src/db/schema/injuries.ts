@@ -0,0 +1,139 @@
+﻿// db/schema/injuries.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    integer,
+    uuid,
+    date,
+    index,
+    check,
+    unique
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import { movements } from "./athletes";
+import { bodyPartEnum, injuryStatusEnum } from "@/db/schema/enums";
+
+// NEW: Ongoing injury cases (pain entries are per check-in, this tracks the injury itself)
+export const athleteInjuries = pgTable("athlete_injuries", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+
+    // Injury details
+    bodyPart: bodyPartEnum("body_part").notNull(),
+    onsetDate: date("onset_date").notNull(),
+    description: text("description"),
+    severity: integer("severity"), // 1-10 at the time of reporting
+    status: injuryStatusEnum("status").default("active").notNull(),
+
+    // Ownership - the coach who owns the return-to-training plan
+    reportedByMembershipId: uuid("reported_by_membership_id").references(() => boxMemberships.id).notNull(),
+    coachMembershipId: uuid("coach_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+
+    // Resolution
+    clearedAt: timestamp("cleared_at", { withTimezone: true }),
+    clearedByMembershipId: uuid("cleared_by_membership_id").references(() => boxMemberships.id),
+    notes: text("notes"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxMembershipStatusIdx: index("athlete_injuries_box_membership_status_idx").on(
+        table.boxId, table.membershipId, table.status
+    ),
+    boxStatusIdx: index("athlete_injuries_box_status_idx").on(table.boxId, table.status),
+    coachIdx: index("athlete_injuries_coach_idx").on(table.coachMembershipId),
+
+    // Constraints
+    severityRange: check(
+        "athlete_injuries_severity_range",
+        sql`${table.severity} >= 1 AND ${table.severity} <= 10`
+    ),
+}));
+
+// NEW: Movements an athlete shouldn't do (or should modify) while the injury is open
+export const athleteInjuryRestrictions = pgTable("athlete_injury_restrictions", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    injuryId: uuid("injury_id").references(() => athleteInjuries.id, { onDelete: "cascade" }).notNull(),
+    movementId: uuid("movement_id").references(() => movements.id, { onDelete: "cascade" }).notNull(),
+    notes: text("notes"), // Substitution or modification, e.g. "Ring rows instead"
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    injuryIdx: index("athlete_injury_restrictions_injury_idx").on(table.injuryId),
+    injuryMovementUnique: unique("athlete_injury_restrictions_injury_movement_unique").on(table.injuryId, table.movementId),
+}));
+
+// NEW: Coach-owned return-to-training plan check-points
+export const athleteInjuryCheckpoints = pgTable("athlete_injury_checkpoints", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    injuryId: uuid("injury_id").references(() => athleteInjuries.id, { onDelete: "cascade" }).notNull(),
+    position: integer("position").notNull(),
+
+    title: text("title").notNull(), // e.g. "Pain-free full range of motion"
+    description: text("description"),
+    targetDate: date("target_date"),
+
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    completedByMembershipId: uuid("completed_by_membership_id").references(() => boxMemberships.id),
+    notes: text("notes"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    injuryPositionIdx: index("athlete_injury_checkpoints_injury_position_idx").on(table.injuryId, table.position),
+}));
+
+// Relations
+export const athleteInjuriesRelations = relations(athleteInjuries, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [athleteInjuries.boxId],
+        references: [boxes.id],
+        relationName: "box_athlete_injuries"
+    }),
+    membership: one(boxMemberships, {
+        fields: [athleteInjuries.membershipId],
+        references: [boxMemberships.id],
+        relationName: "membership_injuries"
+    }),
+    reportedBy: one(boxMemberships, {
+        fields: [athleteInjuries.reportedByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "reported_injuries"
+    }),
+    coach: one(boxMemberships, {
+        fields: [athleteInjuries.coachMembershipId],
+        references: [boxMemberships.id],
+        relationName: "coached_injuries"
+    }),
+    restrictions: many(athleteInjuryRestrictions, { relationName: "injury_restrictions" }),
+    checkpoints: many(athleteInjuryCheckpoints, { relationName: "injury_checkpoints" }),
+}));
+
+export const athleteInjuryRestrictionsRelations = relations(athleteInjuryRestrictions, ({ one }) => ({
+    injury: one(athleteInjuries, {
+        fields: [athleteInjuryRestrictions.injuryId],
+        references: [athleteInjuries.id],
+        relationName: "injury_restrictions"
+    }),
+    movement: one(movements, {
+        fields: [athleteInjuryRestrictions.movementId],
+        references: [movements.id],
+        relationName: "movement_injury_restrictions"
+    }),
+}));
+
+export const athleteInjuryCheckpointsRelations = relations(athleteInjuryCheckpoints, ({ one }) => ({
+    injury: one(athleteInjuries, {
+        fields: [athleteInjuryCheckpoints.injuryId],
+        references: [athleteInjuries.id],
+        relationName: "injury_checkpoints"
+    }),
+    completedBy: one(boxMemberships, {
+        fields: [athleteInjuryCheckpoints.completedByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "completed_injury_checkpoints"
+    }),
+}));
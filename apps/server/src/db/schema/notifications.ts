@@ -76,6 +76,7 @@ export const notificationTypeEnum = pgEnum("notification_type", [
     "community_recognition",
     "progress_report_weekly",
     "goal_approaching",
+    "class_waitlist_promoted",
 
     // System & Admin
     "system_alert",
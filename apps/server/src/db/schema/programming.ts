@@ -0,0 +1,179 @@
+﻿// db/schema/programming.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    integer,
+    decimal,
+    uuid,
+    index,
+    date,
+    check,
+    unique
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import { athleteBenchmarks, benchmarkWods, movements, wodAttendance, wodFeedback } from "./athletes";
+import {
+    programmedWorkoutStatusEnum,
+    workoutPartTypeEnum,
+    workoutScoringTypeEnum
+} from "@/db/schema/enums";
+
+// NEW: Daily programmed workouts published by a box
+export const programmedWorkouts = pgTable("programmed_workouts", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+
+    // Programming details
+    workoutDate: date("workout_date").notNull(), // Local calendar date in the box timezone
+    track: text("track").default("main").notNull(), // e.g. "main", "performance", "foundations"
+    title: text("title").notNull(),
+    description: text("description"),
+    coachNotes: text("coach_notes"), // Visible to coaches only
+
+    // Publishing
+    status: programmedWorkoutStatusEnum("status").default("draft").notNull(),
+    publishedAt: timestamp("published_at", { withTimezone: true }),
+
+    createdByMembershipId: uuid("created_by_membership_id").references(() => boxMemberships.id).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxDateIdx: index("programmed_workouts_box_date_idx").on(table.boxId, table.workoutDate),
+    boxStatusIdx: index("programmed_workouts_box_status_idx").on(table.boxId, table.status),
+
+    // One workout per track per day
+    boxDateTrackUnique: unique("programmed_workouts_box_date_track_unique").on(
+        table.boxId, table.workoutDate, table.track
+    ),
+}));
+
+// NEW: Ordered parts of a programmed workout (strength, metcon, skill...)
+export const programmedWorkoutParts = pgTable("programmed_workout_parts", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    workoutId: uuid("workout_id").references(() => programmedWorkouts.id, { onDelete: "cascade" }).notNull(),
+    position: integer("position").notNull(), // 1-based order within the workout
+
+    partType: workoutPartTypeEnum("part_type").notNull(),
+    title: text("title").notNull(), // e.g. "A. Back Squat", "B. Fran"
+    description: text("description"),
+
+    // Scoring
+    scoringType: workoutScoringTypeEnum("scoring_type").default("none").notNull(),
+    timeCapSeconds: integer("time_cap_seconds"),
+    rounds: integer("rounds"), // Prescribed rounds, if any
+    benchmarkId: uuid("benchmark_id").references(() => benchmarkWods.id, { onDelete: "set null" }), // Part is a benchmark WOD
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    workoutPositionIdx: index("programmed_workout_parts_workout_position_idx").on(table.workoutId, table.position),
+    benchmarkIdx: index("programmed_workout_parts_benchmark_idx").on(table.benchmarkId),
+
+    workoutPositionUnique: unique("programmed_workout_parts_workout_position_unique").on(
+        table.workoutId, table.position
+    ),
+
+    // Constraints
+    positionPositive: check(
+        "programmed_workout_parts_position_positive",
+        sql`${table.position} >= 1`
+    ),
+    timeCapPositive: check(
+        "programmed_workout_parts_time_cap_positive",
+        sql`${table.timeCapSeconds} > 0`
+    ),
+    roundsPositive: check(
+        "programmed_workout_parts_rounds_positive",
+        sql`${table.rounds} >= 1`
+    ),
+}));
+
+// NEW: Movements prescribed within a workout part
+export const programmedWorkoutMovements = pgTable("programmed_workout_movements", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    partId: uuid("part_id").references(() => programmedWorkoutParts.id, { onDelete: "cascade" }).notNull(),
+    movementId: uuid("movement_id").references(() => movements.id, { onDelete: "restrict" }).notNull(),
+    position: integer("position").notNull(),
+
+    // Prescription (Rx)
+    prescribedReps: integer("prescribed_reps"),
+    prescribedSets: integer("prescribed_sets"),
+    prescribedLoad: decimal("prescribed_load", { precision: 8, scale: 2 }),
+    prescribedPercentage: decimal("prescribed_percentage", { precision: 5, scale: 2 }), // % of 1RM
+    prescribedCalories: integer("prescribed_calories"),
+    prescribedDistance: decimal("prescribed_distance", { precision: 8, scale: 2 }),
+    unit: text("unit"), // "lbs", "kg", "m", "cal"...
+
+    // Scaled option
+    scaledLoad: decimal("scaled_load", { precision: 8, scale: 2 }),
+    scaledNotes: text("scaled_notes"),
+
+    notes: text("notes"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    partPositionIdx: index("programmed_workout_movements_part_position_idx").on(table.partId, table.position),
+    movementIdx: index("programmed_workout_movements_movement_idx").on(table.movementId),
+
+    partPositionUnique: unique("programmed_workout_movements_part_position_unique").on(
+        table.partId, table.position
+    ),
+
+    // Constraints
+    positionPositive: check(
+        "programmed_workout_movements_position_positive",
+        sql`${table.position} >= 1`
+    ),
+    percentageRange: check(
+        "programmed_workout_movements_percentage_range",
+        sql`${table.prescribedPercentage} > 0 AND ${table.prescribedPercentage} <= 150`
+    ),
+}));
+
+// Relations
+export const programmedWorkoutsRelations = relations(programmedWorkouts, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [programmedWorkouts.boxId],
+        references: [boxes.id],
+        relationName: "box_programmed_workouts"
+    }),
+    createdBy: one(boxMemberships, {
+        fields: [programmedWorkouts.createdByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "created_programmed_workouts"
+    }),
+    parts: many(programmedWorkoutParts, { relationName: "programmed_workout_parts" }),
+    feedback: many(wodFeedback, { relationName: "programmed_workout_feedback" }),
+    attendance: many(wodAttendance, { relationName: "programmed_workout_attendance" }),
+    benchmarkResults: many(athleteBenchmarks, { relationName: "programmed_workout_benchmarks" }),
+}));
+
+export const programmedWorkoutPartsRelations = relations(programmedWorkoutParts, ({ one, many }) => ({
+    workout: one(programmedWorkouts, {
+        fields: [programmedWorkoutParts.workoutId],
+        references: [programmedWorkouts.id],
+        relationName: "programmed_workout_parts"
+    }),
+    benchmark: one(benchmarkWods, {
+        fields: [programmedWorkoutParts.benchmarkId],
+        references: [benchmarkWods.id],
+        relationName: "benchmark_programmed_parts"
+    }),
+    movements: many(programmedWorkoutMovements, { relationName: "programmed_part_movements" }),
+}));
+
+export const programmedWorkoutMovementsRelations = relations(programmedWorkoutMovements, ({ one }) => ({
+    part: one(programmedWorkoutParts, {
+        fields: [programmedWorkoutMovements.partId],
+        references: [programmedWorkoutParts.id],
+        relationName: "programmed_part_movements"
+    }),
+    movement: one(movements, {
+        fields: [programmedWorkoutMovements.movementId],
+        references: [movements.id],
+        relationName: "movement_programmed_movements"
+    }),
+}));
@@ -0,0 +1,215 @@
+﻿// db/schema/schedule.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    boolean,
+    integer,
+    uuid,
+    index,
+    date,
+    time,
+    check,
+    unique
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import {
+    classInstanceStatusEnum,
+    classTypeEnum,
+    reservationStatusEnum
+} from "@/db/schema/enums";
+
+// NEW: Recurring class templates (weekly time slots per box)
+export const classTemplates = pgTable("class_templates", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+
+    // Class details
+    name: text("name").notNull(),
+    classType: classTypeEnum("class_type").default("wod").notNull(),
+    description: text("description"),
+
+    // Time slot - interpreted in the box timezone
+    dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+    startTime: time("start_time").notNull(), // "HH:MM" local time
+    durationMinutes: integer("duration_minutes").default(60).notNull(),
+
+    // Capacity and staffing
+    capacity: integer("capacity").default(16).notNull(),
+    coachMembershipId: uuid("coach_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+
+    // Reservation policy - overrides the box late-cancel window when set
+    cancelWindowMinutes: integer("cancel_window_minutes"),
+
+    // Validity
+    isActive: boolean("is_active").default(true).notNull(),
+    effectiveFrom: date("effective_from"),
+    effectiveUntil: date("effective_until"),
+
+    createdByMembershipId: uuid("created_by_membership_id").references(() => boxMemberships.id).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // OPTIMIZED: Essential indexes only
+    boxActiveIdx: index("class_templates_box_active_idx").on(table.boxId, table.isActive),
+    boxDayIdx: index("class_templates_box_day_idx").on(table.boxId, table.dayOfWeek),
+    coachIdx: index("class_templates_coach_idx").on(table.coachMembershipId),
+
+    // Constraints
+    dayOfWeekRange: check(
+        "class_templates_day_of_week_range",
+        sql`${table.dayOfWeek} >= 0 AND ${table.dayOfWeek} <= 6`
+    ),
+    durationPositive: check(
+        "class_templates_duration_positive",
+        sql`${table.durationMinutes} > 0`
+    ),
+    capacityPositive: check(
+        "class_templates_capacity_positive",
+        sql`${table.capacity} >= 1`
+    ),
+    cancelWindowPositive: check(
+        "class_templates_cancel_window_positive",
+        sql`${table.cancelWindowMinutes} >= 0`
+    ),
+}));
+
+// NEW: Concrete class occurrences generated from templates (or created ad hoc)
+export const classInstances = pgTable("class_instances", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    templateId: uuid("template_id").references(() => classTemplates.id, { onDelete: "set null" }),
+
+    // Snapshot of template details so later template edits don't rewrite history
+    name: text("name").notNull(),
+    classType: classTypeEnum("class_type").default("wod").notNull(),
+    startsAt: timestamp("starts_at", { withTimezone: true }).notNull(),
+    endsAt: timestamp("ends_at", { withTimezone: true }).notNull(),
+    classDate: date("class_date").notNull(), // Local calendar date in the box timezone
+
+    capacity: integer("capacity").notNull(),
+    cancelWindowMinutes: integer("cancel_window_minutes"), // Overrides the box late-cancel window when set
+    coachMembershipId: uuid("coach_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+
+    // Lifecycle
+    status: classInstanceStatusEnum("status").default("scheduled").notNull(),
+    cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+    cancellationReason: text("cancellation_reason"),
+    attendanceFinalizedAt: timestamp("attendance_finalized_at", { withTimezone: true }), // When reservations were converted to attendance
+    notes: text("notes"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxStartsAtIdx: index("class_instances_box_starts_at_idx").on(table.boxId, table.startsAt),
+    boxDateIdx: index("class_instances_box_date_idx").on(table.boxId, table.classDate),
+    statusIdx: index("class_instances_status_idx").on(table.status),
+    coachIdx: index("class_instances_coach_idx").on(table.coachMembershipId),
+
+    // A template only generates one instance per start time
+    templateStartsAtUnique: unique("class_instances_template_starts_at_unique").on(table.templateId, table.startsAt),
+
+    // Constraints
+    capacityPositive: check(
+        "class_instances_capacity_positive",
+        sql`${table.capacity} >= 1`
+    ),
+    validTimeRange: check(
+        "class_instances_valid_time_range",
+        sql`${table.endsAt} > ${table.startsAt}`
+    ),
+}));
+
+// NEW: Athlete reservations for class instances
+export const classReservations = pgTable("class_reservations", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    classInstanceId: uuid("class_instance_id").references(() => classInstances.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+
+    status: reservationStatusEnum("status").default("reserved").notNull(),
+    isWalkIn: boolean("is_walk_in").default(false).notNull(), // Checked in without a prior reservation
+
+    reservedAt: timestamp("reserved_at", { withTimezone: true }).defaultNow().notNull(), // Also orders the waitlist
+    promotedAt: timestamp("promoted_at", { withTimezone: true }), // When a waitlisted athlete got a spot
+    cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+    checkedInAt: timestamp("checked_in_at", { withTimezone: true }),
+    checkedInByMembershipId: uuid("checked_in_by_membership_id").references(() => boxMemberships.id),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    instanceStatusIdx: index("class_reservations_instance_status_idx").on(table.classInstanceId, table.status),
+    boxMembershipIdx: index("class_reservations_box_membership_idx").on(table.boxId, table.membershipId),
+    reservedAtIdx: index("class_reservations_reserved_at_idx").on(table.reservedAt),
+
+    // One reservation per athlete per class
+    instanceMembershipUnique: unique("class_reservations_instance_membership_unique").on(
+        table.classInstanceId, table.membershipId
+    ),
+}));
+
+// Relations
+export const classTemplatesRelations = relations(classTemplates, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [classTemplates.boxId],
+        references: [boxes.id],
+        relationName: "box_class_templates"
+    }),
+    coach: one(boxMemberships, {
+        fields: [classTemplates.coachMembershipId],
+        references: [boxMemberships.id],
+        relationName: "coach_class_templates"
+    }),
+    createdBy: one(boxMemberships, {
+        fields: [classTemplates.createdByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "created_class_templates"
+    }),
+    instances: many(classInstances, { relationName: "template_class_instances" }),
+}));
+
+export const classInstancesRelations = relations(classInstances, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [classInstances.boxId],
+        references: [boxes.id],
+        relationName: "box_class_instances"
+    }),
+    template: one(classTemplates, {
+        fields: [classInstances.templateId],
+        references: [classTemplates.id],
+        relationName: "template_class_instances"
+    }),
+    coach: one(boxMemberships, {
+        fields: [classInstances.coachMembershipId],
+        references: [boxMemberships.id],
+        relationName: "coach_class_instances"
+    }),
+    reservations: many(classReservations, { relationName: "class_instance_reservations" }),
+}));
+
+export const classReservationsRelations = relations(classReservations, ({ one }) => ({
+    box: one(boxes, {
+        fields: [classReservations.boxId],
+        references: [boxes.id],
+        relationName: "box_class_reservations"
+    }),
+    classInstance: one(classInstances, {
+        fields: [classReservations.classInstanceId],
+        references: [classInstances.id],
+        relationName: "class_instance_reservations"
+    }),
+    membership: one(boxMemberships, {
+        fields: [classReservations.membershipId],
+        references: [boxMemberships.id],
+        relationName: "membership_class_reservations"
+    }),
+    checkedInBy: one(boxMemberships, {
+        fields: [classReservations.checkedInByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "checked_in_class_reservations"
+    }),
+}));
@@ -0,0 +1,40 @@
+﻿// db/schema/types.ts - Shapes of the JSON stored in schema columns
+import type { riskLevelEnum } from "./enums";
+
+type RiskLevel = (typeof riskLevelEnum.enumValues)[number];
+
+export type RiskFactorSeverity = 'minor' | 'moderate' | 'severe';
+export type RiskScoreDirection = 'first_score' | 'increased' | 'decreased' | 'unchanged';
+
+export interface RiskExplanationFactor {
+    factorType: string;
+    severity: RiskFactorSeverity;
+    contribution: number; // Risk points this factor adds
+    share: number; // Fraction of all factor contributions, 0-1
+    description: string;
+    evidence: string; // Raw numbers behind the factor, e.g. "3 classes attended in last 30 days vs 11 in the previous 30"
+}
+
+export interface RiskScoreChange {
+    direction: RiskScoreDirection;
+    previousScore: number | null;
+    previousRiskLevel: RiskLevel | null;
+    previousCalculatedAt: string | null;
+    scoreDelta: number | null;
+    riskLevelChanged: boolean;
+    newFactors: string[];
+    resolvedFactors: string[];
+}
+
+/**
+ * Stored on athleteRiskScores.explanation. Dates are ISO strings since this lives in JSON.
+ */
+export interface RiskExplanation {
+    summary: string;
+    topFactors: RiskExplanationFactor[];
+    factorCount: number;
+    change: RiskScoreChange;
+    modelName: string;
+    modelVersion: string;
+    generatedAt: string;
+}
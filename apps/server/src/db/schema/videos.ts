@@ -15,6 +15,7 @@ import {
 import { relations, sql } from "drizzle-orm";
 import { boxes, boxMemberships } from "./core";
 import {athletePrs} from "@/db/schema/athletes";
+import { competitions } from "./competitions";
 import {feedbackTypeEnum, shareTypeEnum, socialPlatformEnum} from "@/db/schema/enums";
 
 // Coach feedback on PR videos - core to the strategy
@@ -99,6 +100,28 @@ export const videoSocialShares = pgTable("video_social_shares", {
     )
 }));
 
+// NEW: Box feed posts that aren't PR videos (competition results...)
+export const boxFeedPosts = pgTable("box_feed_posts", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }), // Featured athlete, if any
+
+    shareType: shareTypeEnum("share_type").notNull(),
+    title: text("title").notNull(),
+    caption: text("caption"),
+    isAutoGenerated: boolean("is_auto_generated").default(true).notNull(),
+
+    // Source
+    competitionId: uuid("competition_id").references(() => competitions.id, { onDelete: "cascade" }),
+
+    postedAt: timestamp("posted_at", { withTimezone: true }).defaultNow().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxPostedAtIdx: index("box_feed_posts_box_posted_at_idx").on(table.boxId, table.postedAt),
+    competitionIdx: index("box_feed_posts_competition_idx").on(table.competitionId),
+}));
+
 // Video celebration events - for tracking PR celebrations and confetti triggers
 export const videoCelebrationEvents = pgTable("video_celebration_events", {
     id: uuid("id").defaultRandom().primaryKey(),
@@ -391,6 +414,24 @@ export const videoSocialSharesRelations = relations(videoSocialShares, ({ one })
     })
 }));
 
+export const boxFeedPostsRelations = relations(boxFeedPosts, ({ one }) => ({
+    box: one(boxes, {
+        fields: [boxFeedPosts.boxId],
+        references: [boxes.id],
+        relationName: "box_feed_posts"
+    }),
+    membership: one(boxMemberships, {
+        fields: [boxFeedPosts.membershipId],
+        references: [boxMemberships.id],
+        relationName: "membership_feed_posts"
+    }),
+    competition: one(competitions, {
+        fields: [boxFeedPosts.competitionId],
+        references: [competitions.id],
+        relationName: "competition_feed_posts"
+    }),
+}));
+
 export const videoCelebrationEventsRelations = relations(videoCelebrationEvents, ({ one }) => ({
     pr: one(athletePrs, {
         fields: [videoCelebrationEvents.prId],
@@ -0,0 +1,110 @@
+﻿// db/schema/wearables.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    integer,
+    uuid,
+    date,
+    decimal,
+    index,
+    check,
+    unique
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import { wearableFileFormatEnum, wearableImportStatusEnum } from "@/db/schema/enums";
+
+// NEW: Uploaded device exports (FIT, GPX, CSV) and what came out of them
+export const athleteWearableImports = pgTable("athlete_wearable_imports", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+
+    fileName: text("file_name").notNull(),
+    format: wearableFileFormatEnum("format").notNull(),
+    status: wearableImportStatusEnum("status").notNull(),
+    nightsImported: integer("nights_imported").default(0).notNull(),
+    firstNight: date("first_night"),
+    lastNight: date("last_night"),
+    errorMessage: text("error_message"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    boxMembershipCreatedIdx: index("athlete_wearable_imports_box_membership_created_idx").on(
+        table.boxId, table.membershipId, table.createdAt
+    ),
+}));
+
+// NEW: Objective nightly metrics, one row per athlete per (box-local) night
+export const athleteWearableMetrics = pgTable("athlete_wearable_metrics", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+
+    metricDate: date("metric_date").notNull(), // The day the athlete woke up
+    sleepDurationMinutes: integer("sleep_duration_minutes"),
+    restingHeartRate: integer("resting_heart_rate"), // bpm
+    hrvMs: decimal("hrv_ms", { precision: 6, scale: 2 }), // RMSSD in milliseconds
+
+    source: wearableFileFormatEnum("source").notNull(), // Format of the most recent import
+    importId: uuid("import_id").references(() => athleteWearableImports.id, { onDelete: "set null" }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxMembershipDateIdx: index("athlete_wearable_metrics_box_membership_date_idx").on(
+        table.boxId, table.membershipId, table.metricDate
+    ),
+    membershipDateUnique: unique("athlete_wearable_metrics_membership_date_unique").on(
+        table.membershipId, table.metricDate
+    ),
+
+    // Constraints
+    sleepDurationRange: check(
+        "athlete_wearable_metrics_sleep_duration_range",
+        sql`${table.sleepDurationMinutes} >= 0 AND ${table.sleepDurationMinutes} <= 1440`
+    ),
+    restingHeartRateRange: check(
+        "athlete_wearable_metrics_resting_hr_range",
+        sql`${table.restingHeartRate} >= 20 AND ${table.restingHeartRate} <= 150`
+    ),
+    hrvRange: check(
+        "athlete_wearable_metrics_hrv_range",
+        sql`${table.hrvMs} > 0 AND ${table.hrvMs} <= 500`
+    ),
+}));
+
+// Relations
+export const athleteWearableImportsRelations = relations(athleteWearableImports, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [athleteWearableImports.boxId],
+        references: [boxes.id],
+        relationName: "box_wearable_imports"
+    }),
+    membership: one(boxMemberships, {
+        fields: [athleteWearableImports.membershipId],
+        references: [boxMemberships.id],
+        relationName: "membership_wearable_imports"
+    }),
+    metrics: many(athleteWearableMetrics, { relationName: "import_wearable_metrics" }),
+}));
+
+export const athleteWearableMetricsRelations = relations(athleteWearableMetrics, ({ one }) => ({
+    box: one(boxes, {
+        fields: [athleteWearableMetrics.boxId],
+        references: [boxes.id],
+        relationName: "box_wearable_metrics"
+    }),
+    membership: one(boxMemberships, {
+        fields: [athleteWearableMetrics.membershipId],
+        references: [boxMemberships.id],
+        relationName: "membership_wearable_metrics"
+    }),
+    import: one(athleteWearableImports, {
+        fields: [athleteWearableMetrics.importId],
+        references: [athleteWearableImports.id],
+        relationName: "import_wearable_metrics"
+    }),
+}));
@@ -0,0 +1,145 @@
+﻿// db/schema/wellness-questionnaires.ts
+import {
+    pgTable,
+    text,
+    timestamp,
+    integer,
+    uuid,
+    boolean,
+    decimal,
+    json,
+    index,
+    check,
+    unique,
+    uniqueIndex
+} from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { boxes, boxMemberships } from "./core";
+import { athleteWellnessCheckins } from "./athletes";
+import { wellnessQuestionTypeEnum } from "@/db/schema/enums";
+
+// NEW: Box-defined questionnaire versions, asked on top of the standard check-in fields.
+// Versions are never edited once published, so answers always match the question asked.
+export const boxWellnessQuestionnaires = pgTable("box_wellness_questionnaires", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    version: integer("version").notNull(),
+    name: text("name").notNull(),
+    isActive: boolean("is_active").default(false).notNull(), // At most one active version per box
+    createdByMembershipId: uuid("created_by_membership_id").references(() => boxMemberships.id, { onDelete: "set null" }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    retiredAt: timestamp("retired_at", { withTimezone: true }),
+}, (table) => ({
+    boxActiveIdx: index("box_wellness_questionnaires_box_active_idx").on(table.boxId, table.isActive),
+    boxVersionUnique: unique("box_wellness_questionnaires_box_version_unique").on(table.boxId, table.version),
+
+    // A box has at most one active version
+    boxActiveUnique: uniqueIndex("box_wellness_questionnaires_box_active_unique")
+        .on(table.boxId)
+        .where(sql`is_active`),
+}));
+
+// NEW: Typed questions belonging to a questionnaire version
+export const boxWellnessQuestions = pgTable("box_wellness_questions", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    questionnaireId: uuid("questionnaire_id").references(() => boxWellnessQuestionnaires.id, { onDelete: "cascade" }).notNull(),
+
+    // Stable across versions so analytics can follow a question through edits
+    key: text("key").notNull(),
+    prompt: text("prompt").notNull(),
+    helpText: text("help_text"),
+    type: wellnessQuestionTypeEnum("type").notNull(),
+    isRequired: boolean("is_required").default(false).notNull(),
+    position: integer("position").notNull(),
+
+    // Type-specific settings
+    scaleMin: integer("scale_min"),
+    scaleMax: integer("scale_max"),
+    scaleMinLabel: text("scale_min_label"),
+    scaleMaxLabel: text("scale_max_label"),
+    options: json("options").$type<string[]>(), // Choice questions only
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    questionnairePositionIdx: index("box_wellness_questions_questionnaire_position_idx").on(
+        table.questionnaireId, table.position
+    ),
+    questionnaireKeyUnique: unique("box_wellness_questions_questionnaire_key_unique").on(
+        table.questionnaireId, table.key
+    ),
+
+    // Constraints
+    scaleRange: check(
+        "box_wellness_questions_scale_range",
+        sql`${table.type} <> 'scale' OR (${table.scaleMin} IS NOT NULL AND ${table.scaleMax} IS NOT NULL AND ${table.scaleMin} < ${table.scaleMax})`
+    ),
+}));
+
+// NEW: Answers to custom questions, one per question per check-in
+export const athleteWellnessAnswers = pgTable("athlete_wellness_answers", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    checkinId: uuid("checkin_id").references(() => athleteWellnessCheckins.id, { onDelete: "cascade" }).notNull(),
+    questionId: uuid("question_id").references(() => boxWellnessQuestions.id, { onDelete: "cascade" }).notNull(),
+    boxId: uuid("box_id").references(() => boxes.id, { onDelete: "cascade" }).notNull(),
+    membershipId: uuid("membership_id").references(() => boxMemberships.id, { onDelete: "cascade" }).notNull(),
+    questionKey: text("question_key").notNull(), // Denormalized for analytics across versions
+
+    // Exactly one is set, depending on the question type
+    numericValue: decimal("numeric_value", { precision: 8, scale: 2 }), // scale
+    booleanValue: boolean("boolean_value"), // boolean
+    textValue: text("text_value"), // choice, text
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+    // CRITICAL: Composite indexes for common queries
+    boxQuestionKeyCreatedIdx: index("athlete_wellness_answers_box_question_key_created_idx").on(
+        table.boxId, table.questionKey, table.createdAt
+    ),
+    checkinIdx: index("athlete_wellness_answers_checkin_idx").on(table.checkinId),
+    checkinQuestionUnique: unique("athlete_wellness_answers_checkin_question_unique").on(
+        table.checkinId, table.questionId
+    ),
+}));
+
+// Relations
+export const boxWellnessQuestionnairesRelations = relations(boxWellnessQuestionnaires, ({ one, many }) => ({
+    box: one(boxes, {
+        fields: [boxWellnessQuestionnaires.boxId],
+        references: [boxes.id],
+        relationName: "box_wellness_questionnaires"
+    }),
+    createdBy: one(boxMemberships, {
+        fields: [boxWellnessQuestionnaires.createdByMembershipId],
+        references: [boxMemberships.id],
+        relationName: "questionnaire_created_by"
+    }),
+    questions: many(boxWellnessQuestions, { relationName: "questionnaire_questions" }),
+}));
+
+export const boxWellnessQuestionsRelations = relations(boxWellnessQuestions, ({ one, many }) => ({
+    questionnaire: one(boxWellnessQuestionnaires, {
+        fields: [boxWellnessQuestions.questionnaireId],
+        references: [boxWellnessQuestionnaires.id],
+        relationName: "questionnaire_questions"
+    }),
+    answers: many(athleteWellnessAnswers, { relationName: "question_answers" }),
+}));
+
+export const athleteWellnessAnswersRelations = relations(athleteWellnessAnswers, ({ one }) => ({
+    checkin: one(athleteWellnessCheckins, {
+        fields: [athleteWellnessAnswers.checkinId],
+        references: [athleteWellnessCheckins.id],
+        relationName: "checkin_wellness_answers"
+    }),
+    question: one(boxWellnessQuestions, {
+        fields: [athleteWellnessAnswers.questionId],
+        references: [boxWellnessQuestions.id],
+        relationName: "question_answers"
+    }),
+    membership: one(boxMemberships, {
+        fields: [athleteWellnessAnswers.membershipId],
+        references: [boxMemberships.id],
+        relationName: "membership_wellness_answers"
+    }),
+}));
@@ -0,0 +1,52 @@
+﻿// lib/coach-assignments.ts - Coach assignment lookups shared by permissions and services
+import { db } from "@/db";
+import { coachAthleteAssignments } from "@/db/schema";
+import { and, eq, gte, isNull, lte, or } from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone } from "@/lib/dates";
+
+/**
+ * Condition for assignments in effect on a local date (effectiveTo is inclusive)
+ */
+export function coachAssignmentActiveOn(localDate: string) {
+    return and(
+        lte(coachAthleteAssignments.effectiveFrom, localDate),
+        or(
+            isNull(coachAthleteAssignments.effectiveTo),
+            gte(coachAthleteAssignments.effectiveTo, localDate)
+        )
+    );
+}
+
+/**
+ * Whether the box has ever assigned a coach. Until it has, coach access and coach
+ * metrics keep inferring coaches from interventions and alerts.
+ */
+export async function boxHasCoachAssignments(boxId: string) {
+    const [assignment] = await db
+        .select({ id: coachAthleteAssignments.id })
+        .from(coachAthleteAssignments)
+        .where(eq(coachAthleteAssignments.boxId, boxId))
+        .limit(1);
+
+    return !!assignment;
+}
+
+/**
+ * Whether a coach is currently assigned (primary or secondary) to an athlete
+ */
+export async function hasActiveCoachAssignment(boxId: string, coachMembershipId: string, athleteMembershipId: string) {
+    const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+
+    const [assignment] = await db
+        .select({ id: coachAthleteAssignments.id })
+        .from(coachAthleteAssignments)
+        .where(and(
+            eq(coachAthleteAssignments.boxId, boxId),
+            eq(coachAthleteAssignments.coachMembershipId, coachMembershipId),
+            eq(coachAthleteAssignments.athleteMembershipId, athleteMembershipId),
+            coachAssignmentActiveOn(today)
+        ))
+        .limit(1);
+
+    return !!assignment;
+}
@@ -1,6 +1,7 @@
 ﻿// lib/cron/scheduler.ts
 import { BillingService } from "@/lib/services/billing-service";
 import { PolarService } from "@/lib/services/polar-service";
+import { BoxScheduleService } from "@/lib/services/box/box-schedule-service";
 import { db } from "@/db";
 import { boxes, subscriptions, gracePeriods, billingEvents } from "@/db/schema";
 import { eq, and, lte, gte, or } from "drizzle-orm";
@@ -50,9 +51,24 @@ export class CronScheduler {
                     await this.processDailySyncCheck();
                     break;
 
-                case "*/15 * * * *": // Retry failed billing events
-                    await this.retryFailedBillingEvents();
+                case "*/15 * * * *": { // Retry failed billing events + class no-show enforcement
+                    // Independent jobs: a failed billing retry must not hold up no-show enforcement
+                    let failure: unknown = null;
+                    try {
+                        await this.retryFailedBillingEvents();
+                    } catch (error) {
+                        failure = error;
+                    }
+                    try {
+                        await this.processClassNoShows();
+                    } catch (error) {
+                        failure ??= error;
+                    }
+                    if (failure) {
+                        throw failure;
+                    }
                     break;
+                }
 
                 default:
                     console.warn(`Unknown cron pattern: ${cronPattern}`);
@@ -452,6 +468,37 @@ export class CronScheduler {
         }
     }
 
+    /**
+     * Mark unclaimed class reservations as no-shows once the box grace period has passed
+     * Runs every 15 minutes
+     */
+    private static async processClassNoShows(): Promise<void> {
+        console.log("Processing class no-show enforcement");
+
+        try {
+            const activeBoxes = await db.query.boxes.findMany({
+                where: eq(boxes.status, "active"),
+                columns: { id: true }
+            });
+
+            let totalNoShows = 0;
+            for (const box of activeBoxes) {
+                try {
+                    const { noShows } = await BoxScheduleService.enforceNoShows(box.id);
+                    totalNoShows += noShows;
+                } catch (error) {
+                    console.error(`No-show enforcement failed for box ${box.id}:`, error);
+                }
+            }
+
+            console.log(`Class no-show enforcement completed: ${totalNoShows} no-shows recorded`);
+
+        } catch (error) {
+            console.error("Failed to process class no-shows:", error);
+            throw error;
+        }
+    }
+
     /**
      * Health check for all cron services
      */
@@ -0,0 +1,199 @@
+﻿// lib/dates.ts - Timezone-aware calendar days and periods
+import { db } from "@/db";
+import { boxes, notificationPreferences } from "@/db/schema";
+import { and, eq, isNull, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+
+/**
+ * Day boundaries follow the box's timezone (boxes.timezone), or the user's
+ * (notificationPreferences.timezone) for per-user rules, never the server clock.
+ * Workers run in UTC, so `setHours(0, 0, 0, 0)` puts a 7pm check-in in California
+ * on the next day. Calendar dates are passed around as YYYY-MM-DD strings, the same
+ * shape Postgres `date` columns (classDate, workoutDate, attendanceDate) use.
+ */
+export const DEFAULT_TIMEZONE = "America/New_York"; // Matches the boxes.timezone default
+
+export type CalendarPeriod = "daily" | "weekly" | "monthly";
+
+export interface LocalRange {
+    startDate: string; // First local date in the range
+    endDate: string; // Last local date in the range (inclusive)
+    start: Date; // Start of startDate in the timezone
+    end: Date; // Start of the day after endDate (exclusive)
+    days: number;
+}
+
+/**
+ * Format an instant as YYYY-MM-DD in the given timezone
+ */
+export function formatLocalDate(date: Date, timeZone: string): string {
+    return new Intl.DateTimeFormat("en-CA", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+    }).format(date);
+}
+
+/**
+ * Hour of the day (0-23) in the given timezone
+ */
+export function getLocalHour(date: Date, timeZone: string): number {
+    const hour = new Intl.DateTimeFormat("en-US", { timeZone, hourCycle: "h23", hour: "2-digit" }).format(date);
+    return Number(hour);
+}
+
+export function addDays(localDate: string, days: number): string {
+    const date = new Date(`${localDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split("T")[0];
+}
+
+/**
+ * Whole days from one local date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/**
+ * Day of the week for a local date (0 = Sunday)
+ */
+export function getLocalDayOfWeek(localDate: string): number {
+    return new Date(`${localDate}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Convert a wall-clock date and time in a timezone to a UTC instant (DST aware)
+ */
+export function zonedTimeToUtc(localDate: string, localTime: string, timeZone: string): Date {
+    const [year, month, day] = localDate.split("-").map(Number);
+    const [hours, minutes, seconds = 0] = localTime.split(":").map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+    const offset = getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+    const candidate = wallClock - offset;
+    const correctedOffset = getTimeZoneOffsetMs(new Date(candidate), timeZone);
+
+    return new Date(wallClock - correctedOffset);
+}
+
+export function startOfLocalDay(localDate: string, timeZone: string): Date {
+    return zonedTimeToUtc(localDate, "00:00", timeZone);
+}
+
+/**
+ * Local dates `from`-`to` (inclusive) as instants, for timestamp range queries
+ */
+export function getLocalRange(from: string, to: string, timeZone: string): LocalRange {
+    return {
+        startDate: from,
+        endDate: to,
+        start: startOfLocalDay(from, timeZone),
+        end: startOfLocalDay(addDays(to, 1), timeZone),
+        days: daysBetween(from, to) + 1,
+    };
+}
+
+/**
+ * The local day containing `date`
+ */
+export function getLocalDayRange(date: Date, timeZone: string): LocalRange {
+    const localDate = formatLocalDate(date, timeZone);
+    return getLocalRange(localDate, localDate, timeZone);
+}
+
+/**
+ * The calendar day, week (Sunday-Saturday) or month containing `referenceDate`
+ */
+export function getPeriodRange(period: CalendarPeriod, timeZone: string, referenceDate: Date = new Date()): LocalRange {
+    const localDate = formatLocalDate(referenceDate, timeZone);
+
+    switch (period) {
+        case "daily":
+            return getLocalRange(localDate, localDate, timeZone);
+        case "weekly": {
+            const weekStart = addDays(localDate, -getLocalDayOfWeek(localDate));
+            return getLocalRange(weekStart, addDays(weekStart, 6), timeZone);
+        }
+        case "monthly": {
+            const monthStart = `${localDate.slice(0, 7)}-01`;
+            const nextMonth = new Date(`${monthStart}T00:00:00Z`);
+            nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+            return getLocalRange(monthStart, addDays(nextMonth.toISOString().split("T")[0], -1), timeZone);
+        }
+    }
+}
+
+/**
+ * SQL expression for the local calendar date of a timestamp column.
+ * The timezone is inlined rather than bound so the same expression can be repeated
+ * in SELECT and GROUP BY (Postgres compares them by text, parameter numbers included).
+ */
+export function localDateSql(column: AnyColumn | SQL, timeZone: string): SQL<string> {
+    return sql<string>`(${column} AT TIME ZONE ${timeZoneLiteral(timeZone)})::date`;
+}
+
+/**
+ * SQL expression for the first local date of the day, week (Monday, Postgres' DATE_TRUNC)
+ * or month containing a timestamp column
+ */
+export function localPeriodSql(period: CalendarPeriod, column: AnyColumn | SQL, timeZone: string): SQL<string> {
+    if (period === "daily") return localDateSql(column, timeZone);
+
+    const unit = period === "weekly" ? "week" : "month";
+    return sql<string>`DATE_TRUNC('${sql.raw(unit)}', ${column} AT TIME ZONE ${timeZoneLiteral(timeZone)})::date`;
+}
+
+export async function getBoxTimezone(boxId: string): Promise<string> {
+    const [box] = await db
+        .select({ timezone: boxes.timezone })
+        .from(boxes)
+        .where(eq(boxes.id, boxId))
+        .limit(1);
+
+    return box?.timezone ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * A user's timezone from their notification preferences (box-specific first), falling
+ * back to the box's timezone
+ */
+export async function getUserTimezone(userId: string, boxId?: string | null): Promise<string> {
+    const preferences = await db
+        .select({ boxId: notificationPreferences.boxId, timezone: notificationPreferences.timezone })
+        .from(notificationPreferences)
+        .where(and(
+            eq(notificationPreferences.userId, userId),
+            boxId
+                ? or(eq(notificationPreferences.boxId, boxId), isNull(notificationPreferences.boxId))
+                : isNull(notificationPreferences.boxId)
+        ));
+
+    const preference = preferences.find(p => p.boxId === boxId) ?? preferences[0];
+    if (preference) return preference.timezone;
+
+    return boxId ? getBoxTimezone(boxId) : DEFAULT_TIMEZONE;
+}
+
+function timeZoneLiteral(timeZone: string): SQL {
+    return sql.raw(`'${timeZone.replace(/'/g, "''")}'`);
+}
+
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    }).formatToParts(date);
+
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+        Number(parts.find(part => part.type === type)?.value ?? 0);
+
+    const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+    return asUtc - date.getTime();
+}
@@ -70,6 +70,17 @@ export class ExternalServiceError extends BoxLoyalError {
     }
 }
 
+// Postgres unique_violation, optionally on a specific constraint. Drizzle wraps driver errors,
+// so the Postgres fields may sit on the cause.
+export function isUniqueViolation(error: unknown, constraint?: string): boolean {
+    const pgError = (error instanceof Error && error.cause ? error.cause : error) as {
+        code?: string;
+        constraint?: string;
+    } | null;
+
+    return pgError?.code === "23505" && (!constraint || pgError.constraint === constraint);
+}
+
 // Convert BoxLoyalError to TRPCError
 export function toTRPCError(error: BoxLoyalError): TRPCError {
     const trpcCodeMap: Record<string, TRPCError["code"]> = {
@@ -1,8 +1,9 @@
 ﻿// lib/permissions.ts
 import { TRPCError } from "@trpc/server";
-import { eq, and } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
 import { db } from "@/db";
-import {boxMemberships, boxes, athleteInterventions, athleteAlerts} from "@/db/schema";
+import {boxMemberships, boxes, athleteAlerts, athleteInterventions} from "@/db/schema";
+import { boxHasCoachAssignments, hasActiveCoachAssignment } from "@/lib/coach-assignments";
 import type { Context } from "./context";
 
 // Platform-level roles (separate from tenant roles)
@@ -70,60 +71,61 @@ export async function canAccessAthleteData(ctx: Context, boxId: string, athleteM
         return true;
     }
 
-    // Coaches can access athletes they're assigned to or have intervened with
+    // Coaches can access athletes they're assigned to, or whose alerts they've been routed
     if (userMembership.role === 'coach') {
-        // Check if coach is assigned to this athlete through interventions
-        const interventionAssignment = await db
-            .select()
-            .from(athleteInterventions)
-            .where(and(
-                eq(athleteInterventions.boxId, boxId),
-                eq(athleteInterventions.coachId, userMembership.id),
-                eq(athleteInterventions.membershipId, athleteMembershipId)
-            ))
-            .limit(1);
-
-        // Check if coach is assigned to this athlete through alerts
-        const alertAssignment = await db
-            .select()
-            .from(athleteAlerts)
-            .where(and(
-                eq(athleteAlerts.boxId, boxId),
-                eq(athleteAlerts.assignedCoachId, userMembership.id),
-                eq(athleteAlerts.membershipId, athleteMembershipId)
-            ))
-            .limit(1);
-
-        return interventionAssignment.length > 0 || alertAssignment.length > 0;
+        return isCoachForAthlete(boxId, userMembership.id, athleteMembershipId);
     }
 
     // Athletes can only access their own data
     return userMembership.id === athleteMembershipId;
 }
 
-// Helper function to check if a coach is assigned to an athlete
+// Helper function to check if a coach is currently assigned to an athlete
 export async function checkCoachAssignment(coachMembershipId: string, athleteMembershipId: string) {
-    // Check interventions
-    const interventionAssignment = await db
-        .select()
-        .from(athleteInterventions)
-        .where(and(
-            eq(athleteInterventions.coachId, coachMembershipId),
-            eq(athleteInterventions.membershipId, athleteMembershipId)
-        ))
+    const [athlete] = await db
+        .select({ boxId: boxMemberships.boxId })
+        .from(boxMemberships)
+        .where(eq(boxMemberships.id, athleteMembershipId))
         .limit(1);
 
-    // Check alerts
+    if (!athlete) return false;
+
+    return isCoachForAthlete(athlete.boxId, coachMembershipId, athleteMembershipId);
+}
+
+// A coach's athletes: current assignments plus athletes whose open (active or acknowledged)
+// alerts were routed to them. Boxes that haven't assigned coaches yet keep the earlier
+// inference from interventions, so coaches don't lose access before assignments are set up.
+async function isCoachForAthlete(boxId: string, coachMembershipId: string, athleteMembershipId: string) {
+    if (await hasActiveCoachAssignment(boxId, coachMembershipId, athleteMembershipId)) {
+        return true;
+    }
+
     const alertAssignment = await db
-        .select()
+        .select({ id: athleteAlerts.id })
         .from(athleteAlerts)
         .where(and(
+            eq(athleteAlerts.boxId, boxId),
             eq(athleteAlerts.assignedCoachId, coachMembershipId),
-            eq(athleteAlerts.membershipId, athleteMembershipId)
+            eq(athleteAlerts.membershipId, athleteMembershipId),
+            inArray(athleteAlerts.status, ['active', 'acknowledged'])
+        ))
+        .limit(1);
+
+    if (alertAssignment.length > 0) return true;
+    if (await boxHasCoachAssignments(boxId)) return false;
+
+    const interventionAssignment = await db
+        .select({ id: athleteInterventions.id })
+        .from(athleteInterventions)
+        .where(and(
+            eq(athleteInterventions.boxId, boxId),
+            eq(athleteInterventions.coachId, coachMembershipId),
+            eq(athleteInterventions.membershipId, athleteMembershipId)
         ))
         .limit(1);
 
-    return interventionAssignment.length > 0 || alertAssignment.length > 0;
+    return interventionAssignment.length > 0;
 }
 
 export async function requireBoxRole(
@@ -3,7 +3,10 @@ import {
     updateBoxCurrentCounts,
     cleanupExpiredRiskScores,
     recalculateAllRiskScoresForBox,
+    processChurnModelBacktest,
+    processFinancialImpactAnalytics,
     processAthleteAlertsForBox,
+    processTrainingLoadAlertsForBox,
     processBoxAnalyticsSnapshot,
     processAlertEffectiveness,
     processAutoEscalations,
@@ -35,9 +38,10 @@ export async function runFullAnalyticsPipeline(boxId: string) {
         console.log(`[Analytics Pipeline] Step 2: Recalculating risk scores`);
         const riskResults = await recalculateAllRiskScoresForBox(boxId);
 
-        // Step 3: Process alerts based on updated risk scores
+        // Step 3: Process alerts based on updated risk scores and training load
         console.log(`[Analytics Pipeline] Step 3: Processing alerts`);
         const alertResults = await processAthleteAlertsForBox(boxId);
+        const trainingLoadAlertResults = await processTrainingLoadAlertsForBox(boxId);
 
         // Step 4: Process auto-escalations for alerts
         console.log(`[Analytics Pipeline] Step 4: Processing auto-escalations`);
@@ -93,9 +97,15 @@ export async function runFullAnalyticsPipeline(boxId: string) {
                 updated: alertResults.alertsUpdated,
                 totalActive: alertResults.totalActiveAlerts
             },
+            trainingLoadAlerts: {
+                generated: trainingLoadAlertResults.alertsGenerated,
+                updated: trainingLoadAlertResults.alertsUpdated,
+                resolved: trainingLoadAlertResults.alertsResolved
+            },
             escalations: {
                 created: escalationResults.escalationsCreated,
-                evaluated: escalationResults.alertsEvaluated
+                evaluated: escalationResults.alertsEvaluated,
+                rerouted: escalationResults.alertsRerouted
             },
             snapshots: {
                 successful: successfulSnapshots,
@@ -128,9 +138,10 @@ export async function runQuickAnalyticsUpdate(boxId: string) {
         const startTime = Date.now();
 
         // Only update counts and process high-priority alerts and escalations
-        const [countResults, alertResults, escalationResults] = await Promise.all([
+        const [countResults, alertResults, trainingLoadAlertResults, escalationResults] = await Promise.all([
             updateBoxCurrentCounts(boxId),
             processAthleteAlertsForBox(boxId), // This uses existing risk scores
+            processTrainingLoadAlertsForBox(boxId),
             processAutoEscalations(boxId)
         ]);
 
@@ -146,9 +157,15 @@ export async function runQuickAnalyticsUpdate(boxId: string) {
                 updated: alertResults.alertsUpdated,
                 totalActive: alertResults.totalActiveAlerts
             },
+            trainingLoadAlerts: {
+                generated: trainingLoadAlertResults.alertsGenerated,
+                updated: trainingLoadAlertResults.alertsUpdated,
+                resolved: trainingLoadAlertResults.alertsResolved
+            },
             escalations: {
                 created: escalationResults.escalationsCreated,
-                evaluated: escalationResults.alertsEvaluated
+                evaluated: escalationResults.alertsEvaluated,
+                rerouted: escalationResults.alertsRerouted
             },
             completedAt: new Date()
         };
@@ -167,7 +184,7 @@ export async function runQuickAnalyticsUpdate(boxId: string) {
  */
 export async function runSpecificAnalyticsModule(
     boxId: string,
-    module: 'alert-effectiveness' | 'segment-analytics' | 'coach-performance' | 'cohort-analytics' | 'intervention-suggestions' | 'intervention-outcomes' | 'milestones' | 'retention-events' | 'risk-factor-analytics' | 'wellness-correlations',
+    module: 'alert-effectiveness' | 'segment-analytics' | 'coach-performance' | 'cohort-analytics' | 'intervention-suggestions' | 'intervention-outcomes' | 'milestones' | 'retention-events' | 'risk-factor-analytics' | 'wellness-correlations' | 'churn-backtest' | 'financial-impact',
     options?: any
 ) {
     try {
@@ -206,6 +223,12 @@ export async function runSpecificAnalyticsModule(
             case 'wellness-correlations':
                 result = await processWellnessPerformanceCorrelations(boxId, options?.lookbackDays || 90);
                 break;
+            case 'churn-backtest':
+                result = await processChurnModelBacktest(boxId, options);
+                break;
+            case 'financial-impact':
+                result = await processFinancialImpactAnalytics(boxId, options?.month);
+                break;
             default:
                 throw new Error(`Unknown analytics module: ${module}`);
         }
@@ -5,6 +5,12 @@ import { EngagementAnalyticsService } from './engagement-analytics-service';
 import { WellnessAnalyticsService } from './wellness-analytics-service';
 import { RetentionAnalyticsService } from './retention-analytics-service';
 import { BoxAnalyticsService } from './box-analytics-service';
+import { ChurnModelService } from './churn-model-service';
+import { RiskScoringConfigService } from './risk-scoring-config-service';
+import { RetentionForecastService } from './retention-forecast-service';
+import { FinancialImpactService } from './financial-impact-service';
+import { BoxWellnessQuestionnaireService } from '@/lib/services/box/box-wellness-questionnaire-service';
+import { formatLocalDate, getBoxTimezone } from '@/lib/dates';
 
 // Re-export types for backward compatibility
 export type { RiskLevel, AlertSeverity } from './risk-analytics-service';
@@ -70,6 +76,27 @@ export class AnalyticsService {
     static getAthleteMilestones = RetentionAnalyticsService.getAthleteMilestones.bind(RetentionAnalyticsService);
     static calculateMemberLTV = RetentionAnalyticsService.calculateMemberLTV.bind(RetentionAnalyticsService);
 
+    // Churn Model Methods
+    static listChurnModels = ChurnModelService.listModels.bind(ChurnModelService);
+    static getChurnModelPerformance = ChurnModelService.getModelPerformance.bind(ChurnModelService);
+    static setChurnModelStatus = ChurnModelService.setModelStatus.bind(ChurnModelService);
+    static runChurnModelBacktest = ChurnModelService.runBacktest.bind(ChurnModelService);
+
+    // Risk Scoring Configuration Methods
+    static getRiskScoringConfig = RiskScoringConfigService.getConfig.bind(RiskScoringConfigService);
+    static getRiskScoringConfigHistory = RiskScoringConfigService.getConfigHistory.bind(RiskScoringConfigService);
+    static updateRiskScoringConfig = RiskScoringConfigService.updateConfig.bind(RiskScoringConfigService);
+    static previewRiskScoringConfig = RiskScoringConfigService.previewConfig.bind(RiskScoringConfigService);
+
+    // Retention Forecast Methods
+    static getRetentionCurves = RetentionForecastService.getRetentionCurves.bind(RetentionForecastService);
+    static getMemberTenureForecasts = RetentionForecastService.getMemberTenureForecasts.bind(RetentionForecastService);
+    static getActiveMemberProjection = RetentionForecastService.getActiveMemberProjection.bind(RetentionForecastService);
+
+    // Financial Impact Methods
+    static getFinancialImpact = FinancialImpactService.getFinancialImpact.bind(FinancialImpactService);
+    static recalculateFinancialImpact = FinancialImpactService.recalculate.bind(FinancialImpactService);
+
     // Box Analytics Methods
     static getBoxAnalytics = BoxAnalyticsService.getBoxAnalytics.bind(BoxAnalyticsService);
     static getBoxAnalyticsSnapshots = BoxAnalyticsService.getBoxAnalyticsSnapshots.bind(BoxAnalyticsService);
@@ -303,6 +330,14 @@ export class AnalyticsService {
             }
         } = options;
 
+        // Wellness check-ins, standard fields plus the box's custom questionnaire answers
+        const timezone = await getBoxTimezone(boxId);
+        const wellnessRange = {
+            from: formatLocalDate(dateRange.start, timezone),
+            to: formatLocalDate(dateRange.end, timezone),
+            includePersonalData
+        };
+
         // This would compile data from various services for export
         // Implementation would depend on specific export requirements
         const exportData = {
@@ -312,8 +347,10 @@ export class AnalyticsService {
                 dateRange,
                 includePersonalData
             },
-            // Data would be aggregated from various services here
-            // This is a placeholder for the actual implementation
+            wellness: format === 'csv'
+                ? await BoxWellnessQuestionnaireService.exportWellnessResponsesCsv(boxId, wellnessRange)
+                : await BoxWellnessQuestionnaireService.exportWellnessResponses(boxId, wellnessRange),
+            // Other data would be aggregated from various services here
         };
 
         return exportData;
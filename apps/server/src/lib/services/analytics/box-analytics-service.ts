@@ -14,6 +14,7 @@ import {
     mvBoxHealthDashboard
 } from "@/db/schema/views";
 import { eq, desc, and, gte, count, sql, avg, sum, lte, inArray } from "drizzle-orm";
+import { addDays, formatLocalDate, getBoxTimezone, localPeriodSql, startOfLocalDay } from "@/lib/dates";
 
 export type AnalyticsPeriod = "daily" | "weekly" | "monthly";
 
@@ -563,28 +564,19 @@ export class BoxAnalyticsService {
         } = {}
     ) {
         const { period = 'weekly', days = 90, metrics = ['checkins', 'prs', 'wellness'] } = options;
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - days);
+        const timezone = await getBoxTimezone(boxId);
+        const startDate = startOfLocalDay(addDays(formatLocalDate(new Date(), timezone), -days), timezone);
 
-        let dateGrouping: string;
-        switch (period) {
-            case 'daily':
-                dateGrouping = `DATE(created_at)`;
-                break;
-            case 'weekly':
-                dateGrouping = `DATE_TRUNC('week', created_at)`;
-                break;
-            case 'monthly':
-                dateGrouping = `DATE_TRUNC('month', created_at)`;
-                break;
-        }
+        // Buckets follow the box's calendar, not UTC
+        const checkinPeriod = localPeriodSql(period, athleteWellnessCheckins.checkinDate, timezone);
+        const prPeriod = localPeriodSql(period, athletePrs.achievedAt, timezone);
 
         const trends: any = {};
 
         if (metrics.includes('checkins')) {
             trends.checkins = await db
                 .select({
-                    period: sql<Date>`${sql.raw(dateGrouping.replace('created_at', `${athleteWellnessCheckins.checkinDate}`))}`,
+                    period: checkinPeriod,
                     count: count()
                 })
                 .from(athleteWellnessCheckins)
@@ -592,14 +584,14 @@ export class BoxAnalyticsService {
                     eq(athleteWellnessCheckins.boxId, boxId),
                     gte(athleteWellnessCheckins.checkinDate, startDate)
                 ))
-                .groupBy(sql.raw(dateGrouping.replace('created_at', `${athleteWellnessCheckins.checkinDate}`)))
-                .orderBy(sql.raw(dateGrouping.replace('created_at', `${athleteWellnessCheckins.checkinDate}`)));
+                .groupBy(checkinPeriod)
+                .orderBy(checkinPeriod);
         }
 
         if (metrics.includes('prs')) {
             trends.prs = await db
                 .select({
-                    period: sql<Date>`${sql.raw(dateGrouping.replace('created_at', `${athletePrs.achievedAt}`))}`,
+                    period: prPeriod,
                     count: count()
                 })
                 .from(athletePrs)
@@ -607,14 +599,14 @@ export class BoxAnalyticsService {
                     eq(athletePrs.boxId, boxId),
                     gte(athletePrs.achievedAt, startDate)
                 ))
-                .groupBy(sql.raw(dateGrouping.replace('created_at', `${athletePrs.achievedAt}`)))
-                .orderBy(sql.raw(dateGrouping.replace('created_at', `${athletePrs.achievedAt}`)));
+                .groupBy(prPeriod)
+                .orderBy(prPeriod);
         }
 
         if (metrics.includes('wellness')) {
             trends.wellness = await db
                 .select({
-                    period: sql<Date>`${sql.raw(dateGrouping.replace('created_at', `${athleteWellnessCheckins.checkinDate}`))}`,
+                    period: checkinPeriod,
                     avgEnergy: avg(athleteWellnessCheckins.energyLevel),
                     avgStress: avg(athleteWellnessCheckins.stressLevel),
                     avgReadiness: avg(athleteWellnessCheckins.workoutReadiness)
@@ -624,8 +616,8 @@ export class BoxAnalyticsService {
                     eq(athleteWellnessCheckins.boxId, boxId),
                     gte(athleteWellnessCheckins.checkinDate, startDate)
                 ))
-                .groupBy(sql.raw(dateGrouping.replace('created_at', `${athleteWellnessCheckins.checkinDate}`)))
-                .orderBy(sql.raw(dateGrouping.replace('created_at', `${athleteWellnessCheckins.checkinDate}`)));
+                .groupBy(checkinPeriod)
+                .orderBy(checkinPeriod);
         }
 
         return trends;
@@ -1,12 +1,22 @@
 ﻿// src/lib/services/analytics/calculations/alert-calculations.ts
 import { db } from "@/db";
 import {
-    boxMemberships,
     athleteRiskScores,
     athleteAlerts
 } from "@/db/schema";
 import { eq, and, sql } from "drizzle-orm";
 import {alertStatusEnum, alertTypeEnum, riskLevelEnum} from "@/db/schema/enums";
+import {
+    AthleteTrainingLoadService,
+    type AthleteTrainingLoadSummary
+} from "@/lib/services/athlete/athlete-training-load-service";
+import { ACWR_SAFE_BAND, type AcwrZone } from "@/lib/services/athlete/training-load";
+import {
+    loadAlertRoutingContext,
+    recordRoutingDecision,
+    routeAlert,
+    type AlertRoutingDecision
+} from "./alert-routing-calculations";
 
 type AlertTypeEnum = typeof alertTypeEnum.enumValues[number];
 type RiskLevelEnum = typeof riskLevelEnum.enumValues[number];
@@ -155,9 +165,43 @@ const ALERT_CONFIGURATIONS: Record<string, AlertConfiguration> = {
             'Recognize their previous consistency'
         ],
         followUpDays: 7
+    },
+
+    // Training load alerts - ACWR outside the 0.8-1.3 safe band
+    'acwr_spike': {
+        type: 'injury_risk',
+        priority: 1,
+        title: 'Training Load Spike',
+        description: 'Athlete\'s acute:chronic workload ratio is {acwr} (safe band {min}-{max}). Load jumped well above what they are conditioned for.',
+        actions: [
+            'Reduce intensity or volume for the next few sessions',
+            'Check in about soreness, pain and sleep',
+            'Review recent extra sessions or open gym work',
+            'Build load back up gradually (no more than ~10% per week)'
+        ],
+        escalationThreshold: 2,
+        followUpDays: 3
+    },
+    'acwr_underload': {
+        type: 'injury_risk',
+        priority: 3,
+        title: 'Training Load Drop',
+        description: 'Athlete\'s acute:chronic workload ratio is {acwr} (safe band {min}-{max}). A sudden return to full load after a dip raises injury risk.',
+        actions: [
+            'Ask whether illness, travel or an injury caused the drop',
+            'Plan a graded return rather than jumping back to full intensity',
+            'Offer scaled options for the first sessions back'
+        ],
+        followUpDays: 7
     }
 };
 
+const TRAINING_LOAD_ALERT_CATEGORIES: Partial<Record<AcwrZone, { category: string; severity: RiskLevelEnum }>> = {
+    danger: { category: 'acwr_spike', severity: 'high' },
+    caution: { category: 'acwr_spike', severity: 'medium' },
+    undertraining: { category: 'acwr_underload', severity: 'low' }
+};
+
 /**
  * Determines alert priority based on risk factors and trends
  */
@@ -353,18 +397,8 @@ export async function processAthleteAlertsForBox(boxId: string) {
 
         console.log(`[Alerts] Found ${latestRiskScores.rows.length} risk scores for box ${boxId}`);
 
-        // Get available coaches for alert assignment
-        const availableCoaches = await db.select({
-            id: boxMemberships.id,
-            displayName: boxMemberships.displayName,
-            role: boxMemberships.role
-        })
-            .from(boxMemberships)
-            .where(and(
-                eq(boxMemberships.boxId, boxId),
-                eq(boxMemberships.isActive, true),
-                sql`${boxMemberships.role} IN ('coach', 'head_coach', 'owner')`
-            ));
+        // Routing rules, coaches and their current alert load for assignment
+        const routingContext = await loadAlertRoutingContext(boxId);
 
         // Get existing active alerts to avoid duplicates
         const existingAlerts = await db.select({
@@ -387,6 +421,7 @@ export async function processAthleteAlertsForBox(boxId: string) {
 
         // Process risk scores and generate alerts
         const generatedAlerts: GeneratedAlertData[] = [];
+        const routingDecisions = new Map<GeneratedAlertData, AlertRoutingDecision>();
         const alertsToUpdate: Array<{alert: GeneratedAlertData, existingAlert: any}> = [];
         const alertsToDismiss: string[] = [];
 
@@ -411,8 +446,10 @@ export async function processAthleteAlertsForBox(boxId: string) {
                         alertsToUpdate.push({ alert: alertData, existingAlert });
                     }
                 } else {
-                    // Assign coach using round-robin or workload-based assignment
-                    alertData.assignedCoachId = assignCoachToAlert(availableCoaches, alertData);
+                    // Assign a coach using the box's routing rules
+                    const decision = routeAlert(routingContext, alertData);
+                    alertData.assignedCoachId = decision.coachId;
+                    routingDecisions.set(alertData, decision);
                     generatedAlerts.push(alertData);
                 }
             }
@@ -443,18 +480,25 @@ export async function processAthleteAlertsForBox(boxId: string) {
                         assignedCoachId: alert.assignedCoachId,
                         createdAt: alert.createdAt,
                         updatedAt: alert.updatedAt,
-                    })
+                    }).returning({ id: athleteAlerts.id })
                 );
 
                 const results = await Promise.allSettled(insertPromises);
                 alertsGenerated += results.filter(r => r.status === 'fulfilled').length;
 
-                // Log any failures
-                results.forEach((result, index) => {
+                // Record routing decisions and log any failures
+                for (const [index, result] of results.entries()) {
                     if (result.status === 'rejected') {
                         console.error(`[Alerts] Failed to insert alert for ${batch[index].membershipId}:`, result.reason);
+                        continue;
                     }
-                });
+
+                    const decision = routingDecisions.get(batch[index]);
+                    if (decision) {
+                        await recordRoutingDecision(boxId, result.value[0].id, decision, 'alert_created')
+                            .catch(error => console.error(`[Alerts] Failed to record routing for alert ${result.value[0].id}:`, error));
+                    }
+                }
 
                 if (i + batchSize < generatedAlerts.length) {
                     await new Promise(resolve => setTimeout(resolve, 50));
@@ -501,21 +545,165 @@ export async function processAthleteAlertsForBox(boxId: string) {
 }
 
 /**
- * Simple round-robin coach assignment strategy
- * TODO: Enhance with workload balancing and coach specializations
+ * Injury risk alert for an athlete whose ACWR has left the safe band, null when it is inside
+ * the band or there isn't enough history for a chronic baseline
  */
-function assignCoachToAlert(coaches: any[], alert: GeneratedAlertData): string | null {
-    if (coaches.length === 0) return null;
+export function generateTrainingLoadAlert(boxId: string, load: AthleteTrainingLoadSummary): GeneratedAlertData | null {
+    const match = TRAINING_LOAD_ALERT_CATEGORIES[load.zone];
+    if (!match || load.acwr === null) {
+        return null;
+    }
 
-    // Prefer head coaches for high-priority alerts
-    const headCoaches = coaches.filter(c => c.role === 'head_coach' || c.role === 'owner');
-    const regularCoaches = coaches.filter(c => c.role === 'coach');
+    const config = ALERT_CONFIGURATIONS[match.category];
+    const description = config.description
+        .replace('{acwr}', load.acwr.toFixed(2))
+        .replace('{min}', ACWR_SAFE_BAND.min.toString())
+        .replace('{max}', ACWR_SAFE_BAND.max.toString());
 
-    if (alert.severity === 'critical' && headCoaches.length > 0) {
-        return headCoaches[Math.floor(Math.random() * headCoaches.length)].id;
-    }
+    const now = new Date();
 
-    // Round-robin assignment for now
-    const allCoaches = [...headCoaches, ...regularCoaches];
-    return allCoaches[Math.floor(Math.random() * allCoaches.length)].id;
+    return {
+        boxId,
+        membershipId: load.membershipId,
+        alertType: config.type,
+        severity: match.severity,
+        title: config.title,
+        description,
+        triggerData: {
+            alertCategory: match.category,
+            priority: config.priority,
+            trainingLoad: {
+                acwr: load.acwr,
+                zone: load.zone,
+                acuteLoad: load.acuteLoad,
+                chronicLoad: load.chronicLoad,
+                monotony: load.monotony,
+                strain: load.strain,
+                sessionsLast7Days: load.sessionsLast7Days,
+                asOf: load.asOf
+            },
+            calculatedAt: now
+        },
+        suggestedActions: {
+            immediate: config.actions,
+            followUp: {
+                scheduledDays: config.followUpDays || 7,
+                escalationThreshold: config.escalationThreshold || 7
+            },
+            metrics_to_monitor: [
+                'Acute:chronic workload ratio',
+                'Session RPE and duration',
+                'Soreness and pain reports'
+            ]
+        },
+        status: 'active',
+        assignedCoachId: null,
+        createdAt: now,
+        updatedAt: now
+    };
+}
+
+/**
+ * Raise, update and resolve injury_risk alerts from session RPE training load (ACWR)
+ */
+export async function processTrainingLoadAlertsForBox(boxId: string) {
+    try {
+        console.log(`[Alerts] Starting training load alert processing for box ${boxId}`);
+
+        const [trainingLoads, routingContext, existingAlerts] = await Promise.all([
+            AthleteTrainingLoadService.getBoxTrainingLoads(boxId),
+            loadAlertRoutingContext(boxId),
+            db.select({
+                id: athleteAlerts.id,
+                membershipId: athleteAlerts.membershipId,
+                severity: athleteAlerts.severity
+            })
+                .from(athleteAlerts)
+                .where(and(
+                    eq(athleteAlerts.boxId, boxId),
+                    eq(athleteAlerts.alertType, 'injury_risk'),
+                    eq(athleteAlerts.status, 'active'),
+                    sql`${athleteAlerts.triggerData}->>'alertCategory' IN ('acwr_spike', 'acwr_underload')`
+                ))
+        ]);
+
+        const existingAlertMap = new Map(existingAlerts.map(alert => [alert.membershipId, alert]));
+        const loadsByMembership = new Map(trainingLoads.map(load => [load.membershipId, load]));
+
+        let alertsGenerated = 0;
+        let alertsUpdated = 0;
+        let alertsResolved = 0;
+
+        for (const load of trainingLoads) {
+            const alertData = generateTrainingLoadAlert(boxId, load);
+            if (!alertData) continue;
+
+            const existingAlert = existingAlertMap.get(load.membershipId);
+
+            try {
+                if (existingAlert) {
+                    await db.update(athleteAlerts)
+                        .set({
+                            severity: alertData.severity,
+                            title: alertData.title,
+                            description: alertData.description,
+                            triggerData: alertData.triggerData,
+                            suggestedActions: alertData.suggestedActions,
+                            updatedAt: new Date()
+                        })
+                        .where(eq(athleteAlerts.id, existingAlert.id));
+                    alertsUpdated++;
+                } else {
+                    const followUpAt = new Date();
+                    followUpAt.setDate(followUpAt.getDate() + alertData.suggestedActions.followUp.scheduledDays);
+
+                    const decision = routeAlert(routingContext, alertData);
+                    alertData.assignedCoachId = decision.coachId;
+
+                    const [inserted] = await db.insert(athleteAlerts)
+                        .values({ ...alertData, followUpAt })
+                        .returning({ id: athleteAlerts.id });
+                    await recordRoutingDecision(boxId, inserted.id, decision, 'alert_created');
+                    alertsGenerated++;
+                }
+            } catch (error) {
+                console.error(`[Alerts] Failed to save training load alert for ${load.membershipId}:`, error);
+            }
+        }
+
+        // Back inside the safe band (or no longer training): the risk has passed
+        for (const existingAlert of existingAlerts) {
+            const load = loadsByMembership.get(existingAlert.membershipId);
+            if (load && TRAINING_LOAD_ALERT_CATEGORIES[load.zone]) continue;
+
+            try {
+                await db.update(athleteAlerts)
+                    .set({
+                        status: 'resolved',
+                        resolvedAt: new Date(),
+                        resolutionNotes: load
+                            ? `Training load back in the safe band (ACWR ${load.acwr?.toFixed(2) ?? 'n/a'})`
+                            : 'No training load logged in the last 28 days',
+                        updatedAt: new Date()
+                    })
+                    .where(eq(athleteAlerts.id, existingAlert.id));
+                alertsResolved++;
+            } catch (error) {
+                console.error(`[Alerts] Failed to resolve training load alert ${existingAlert.id}:`, error);
+            }
+        }
+
+        console.log(`[Alerts] Completed training load alerts for box ${boxId}. Generated: ${alertsGenerated}, Updated: ${alertsUpdated}, Resolved: ${alertsResolved}`);
+
+        return {
+            boxId,
+            athletesEvaluated: trainingLoads.length,
+            alertsGenerated,
+            alertsUpdated,
+            alertsResolved
+        };
+    } catch (error) {
+        console.error(`[Alerts] Error processing training load alerts for box ${boxId}:`, error);
+        throw error;
+    }
 }
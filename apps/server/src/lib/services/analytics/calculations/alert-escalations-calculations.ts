@@ -2,13 +2,16 @@
 import { db } from "@/db";
 import {
     alertEscalations,
+    alertRoutingDecisions,
     athleteAlerts,
     boxMemberships,
     athleteRiskScores,
     athleteInterventions, wodAttendance
 } from "@/db/schema";
-import { eq, and, gte, lte, count, sql, desc, asc } from "drizzle-orm";
+import { eq, and, gte, lte, count, sql, desc, asc, inArray } from "drizzle-orm";
 import { riskLevelEnum } from "@/db/schema/enums";
+import { addDays, formatLocalDate, getBoxTimezone } from "@/lib/dates";
+import { rerouteUnavailableAlerts } from "./alert-routing-calculations";
 
 type RiskLevelEnum = typeof riskLevelEnum.enumValues[number];
 export interface EscalationAnalysis {
@@ -63,14 +66,23 @@ const ESCALATION_RULES = {
 };
 
 /**
- * Auto-escalate alerts based on predefined rules
+ * Auto-escalate alerts based on predefined rules, and hand alerts whose coach is
+ * inactive or on leave to someone who can act on them
  */
 export async function processAutoEscalations(boxId: string): Promise<{
     escalationsCreated: number;
     alertsEvaluated: number;
+    alertsRerouted: number;
 }> {
     console.log(`[Escalations] Processing auto-escalations for box ${boxId}`);
 
+    let alertsRerouted = 0;
+    try {
+        alertsRerouted = await rerouteUnavailableAlerts(boxId);
+    } catch (error) {
+        console.error(`[Escalations] Error rerouting alerts for box ${boxId}:`, error);
+    }
+
     // Get all active alerts that haven't been escalated in the last 24 hours
     const activeAlerts = await db.select({
         id: athleteAlerts.id,
@@ -136,7 +148,8 @@ export async function processAutoEscalations(boxId: string): Promise<{
 
     return {
         escalationsCreated,
-        alertsEvaluated
+        alertsEvaluated,
+        alertsRerouted
     };
 }
 
@@ -719,6 +732,12 @@ export async function getCoachEscalationMetrics(
     avgTimeToHandleEscalation: number | null;
     escalationSuccessRate: number | null;
     mostCommonEscalationReasons: string[];
+    alertsRouted: number;
+    fallbackAssignments: number;
+    alertsRespondedTo: number;
+    alertsReassignedAway: number;
+    avgResponseTimeHours: number | null;
+    medianResponseTimeHours: number | null;
 }> {
     const periodStart = new Date();
     periodStart.setDate(periodStart.getDate() - lookbackDays);
@@ -803,7 +822,101 @@ export async function getCoachEscalationMetrics(
         escalationsReceived,
         avgTimeToHandleEscalation: avgTimeToHandleEscalation ? Math.round(avgTimeToHandleEscalation * 100) / 100 : null,
         escalationSuccessRate: escalationSuccessRate ? Math.round(escalationSuccessRate * 100) / 100 : null,
-        mostCommonEscalationReasons
+        mostCommonEscalationReasons,
+        ...await getCoachResponseMetrics(coachMembershipId, boxId, periodStart)
+    };
+}
+
+/**
+ * Response time per routing decision: from the alert being routed to the coach until they
+ * acknowledged it, resolved it or logged an intervention for it. Alerts moved to someone
+ * else before the coach responded count as reassigned, not as responses.
+ */
+async function getCoachResponseMetrics(coachMembershipId: string, boxId: string, periodStart: Date) {
+    const decisions = await db.select({
+        alertId: alertRoutingDecisions.alertId,
+        decidedAt: alertRoutingDecisions.decidedAt,
+        isFallback: alertRoutingDecisions.isFallback,
+        acknowledgedAt: athleteAlerts.acknowledgedAt,
+        acknowledgedById: athleteAlerts.acknowledgedById,
+        resolvedAt: athleteAlerts.resolvedAt,
+        resolvedById: athleteAlerts.resolvedById
+    })
+        .from(alertRoutingDecisions)
+        .innerJoin(athleteAlerts, eq(alertRoutingDecisions.alertId, athleteAlerts.id))
+        .where(and(
+            eq(alertRoutingDecisions.boxId, boxId),
+            eq(alertRoutingDecisions.assignedCoachId, coachMembershipId),
+            gte(alertRoutingDecisions.decidedAt, periodStart)
+        ));
+
+    const alertIds = [...new Set(decisions.map(decision => decision.alertId))];
+
+    const [laterDecisions, interventions] = alertIds.length === 0 ? [[], []] : await Promise.all([
+        db.select({
+            alertId: alertRoutingDecisions.alertId,
+            decidedAt: alertRoutingDecisions.decidedAt
+        })
+            .from(alertRoutingDecisions)
+            .where(and(
+                inArray(alertRoutingDecisions.alertId, alertIds),
+                gte(alertRoutingDecisions.decidedAt, periodStart)
+            )),
+        db.select({
+            alertId: athleteInterventions.alertId,
+            interventionDate: athleteInterventions.interventionDate
+        })
+            .from(athleteInterventions)
+            .where(and(
+                inArray(athleteInterventions.alertId, alertIds),
+                eq(athleteInterventions.coachId, coachMembershipId)
+            ))
+    ]);
+
+    const responseHours: number[] = [];
+    let alertsReassignedAway = 0;
+
+    for (const decision of decisions) {
+        const decidedAt = decision.decidedAt.getTime();
+        const nextDecisionAt = laterDecisions
+            .filter(later => later.alertId === decision.alertId && later.decidedAt.getTime() > decidedAt)
+            .reduce<number | null>((earliest, later) =>
+                earliest === null ? later.decidedAt.getTime() : Math.min(earliest, later.decidedAt.getTime()), null);
+
+        const responses = [
+            decision.acknowledgedById === coachMembershipId ? decision.acknowledgedAt : null,
+            decision.resolvedById === coachMembershipId ? decision.resolvedAt : null,
+            ...interventions
+                .filter(intervention => intervention.alertId === decision.alertId)
+                .map(intervention => intervention.interventionDate)
+        ]
+            .filter((date): date is Date => date !== null && date.getTime() >= decidedAt)
+            .map(date => date.getTime());
+
+        const respondedAt = responses.length > 0 ? Math.min(...responses) : null;
+
+        if (respondedAt !== null && (nextDecisionAt === null || respondedAt <= nextDecisionAt)) {
+            responseHours.push((respondedAt - decidedAt) / (1000 * 60 * 60));
+        } else if (nextDecisionAt !== null) {
+            alertsReassignedAway++;
+        }
+    }
+
+    const sortedHours = [...responseHours].sort((a, b) => a - b);
+    const middle = Math.floor(sortedHours.length / 2);
+    const medianResponseTimeHours = sortedHours.length === 0 ? null
+        : sortedHours.length % 2 === 1 ? sortedHours[middle]
+            : (sortedHours[middle - 1] + sortedHours[middle]) / 2;
+
+    return {
+        alertsRouted: decisions.length,
+        fallbackAssignments: decisions.filter(decision => decision.isFallback).length,
+        alertsRespondedTo: responseHours.length,
+        alertsReassignedAway,
+        avgResponseTimeHours: responseHours.length > 0
+            ? Math.round(responseHours.reduce((sum, hours) => sum + hours, 0) / responseHours.length * 100) / 100
+            : null,
+        medianResponseTimeHours: medianResponseTimeHours !== null ? Math.round(medianResponseTimeHours * 100) / 100 : null
     };
 }
 
@@ -883,17 +996,16 @@ export async function getBoxEscalationSummary(
         ? escalationTimes.reduce((sum, time) => sum + time, 0) / escalationTimes.length
         : null;
 
-    // Generate daily escalation trends
+    // Generate daily escalation trends (box-local days)
+    const timezone = await getBoxTimezone(boxId);
+    const firstDay = formatLocalDate(periodStart, timezone);
     const escalationTrends: { [day: string]: number } = {};
     for (let i = 0; i < lookbackDays; i++) {
-        const date = new Date(periodStart);
-        date.setDate(date.getDate() + i);
-        const dayKey = date.toISOString().split('T')[0];
-        escalationTrends[dayKey] = 0;
+        escalationTrends[addDays(firstDay, i)] = 0;
     }
 
     escalations.forEach(escalation => {
-        const dayKey = escalation.escalatedAt.toISOString().split('T')[0];
+        const dayKey = formatLocalDate(escalation.escalatedAt, timezone);
         if (escalationTrends.hasOwnProperty(dayKey)) {
             escalationTrends[dayKey]++;
         }
@@ -0,0 +1,375 @@
+﻿// src/lib/services/analytics/calculations/alert-routing-calculations.ts
+import { db } from "@/db";
+import {
+    alertRoutingDecisions,
+    alertRoutingRules,
+    athleteAlerts,
+    boxMemberships,
+    coachLeavePeriods
+} from "@/db/schema";
+import { eq, and, asc, count, gte, inArray, lte, sql } from "drizzle-orm";
+import { riskLevelEnum } from "@/db/schema/enums";
+import type {
+    alertRoutingStrategyEnum,
+    alertRoutingTriggerEnum,
+    alertTypeEnum,
+    userRoleEnum
+} from "@/db/schema/enums";
+import { formatLocalDate, getBoxTimezone } from "@/lib/dates";
+import { BoxCoachAssignmentService } from "@/lib/services/box/box-coach-assignment-service";
+import type { CoachAssignmentRole } from "@/lib/services/box/types";
+
+type AlertRoutingStrategy = typeof alertRoutingStrategyEnum.enumValues[number];
+type AlertRoutingTrigger = typeof alertRoutingTriggerEnum.enumValues[number];
+type AlertTypeEnum = typeof alertTypeEnum.enumValues[number];
+type RiskLevelEnum = typeof riskLevelEnum.enumValues[number];
+type UserRoleEnum = typeof userRoleEnum.enumValues[number];
+
+export interface AlertRoutingDecision {
+    coachId: string | null;
+    ruleId: string | null;
+    strategy: AlertRoutingStrategy | null;
+    isFallback: boolean;
+    reason: string;
+}
+
+interface RoutingRule {
+    id: string | null; // null for the built-in defaults
+    name: string;
+    alertType: AlertTypeEnum | null;
+    minSeverity: RiskLevelEnum | null;
+    strategy: AlertRoutingStrategy;
+    targetRole: UserRoleEnum | null;
+    lastAssignedCoachId: string | null;
+}
+
+interface RoutingCoach {
+    id: string;
+    displayName: string;
+    role: UserRoleEnum;
+    isActive: boolean;
+    onLeave: boolean;
+}
+
+/**
+ * Everything routing needs for one box, loaded once per batch of alerts. Open alert
+ * counts and round-robin positions are updated in place as alerts are routed.
+ */
+export interface AlertRoutingContext {
+    boxId: string;
+    rules: RoutingRule[];
+    coaches: Map<string, RoutingCoach>;
+    assignedCoaches: Map<string, Array<{ coachId: string; role: CoachAssignmentRole }>>; // Primary first
+    openAlerts: Map<string, number>;
+}
+
+// Used when a box hasn't configured any rules: the athlete's coach, otherwise whoever has the fewest open alerts
+const DEFAULT_ROUTING_RULES: RoutingRule[] = [
+    { id: null, name: 'Assigned coach', alertType: null, minSeverity: null, strategy: 'assigned_coach', targetRole: null, lastAssignedCoachId: null },
+    { id: null, name: 'Least loaded', alertType: null, minSeverity: null, strategy: 'least_loaded', targetRole: null, lastAssignedCoachId: null },
+];
+
+// Who an alert escalates to when its assignee is unavailable or no rule applies
+const FALLBACK_ROLES: UserRoleEnum[] = ['head_coach', 'owner'];
+
+/**
+ * Load rules, coaches (with leave), coach assignments and open alert counts for a box
+ */
+export async function loadAlertRoutingContext(boxId: string): Promise<AlertRoutingContext> {
+    const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+
+    const [rules, members, onLeave, assignments, openAlerts] = await Promise.all([
+        db.select()
+            .from(alertRoutingRules)
+            .where(and(
+                eq(alertRoutingRules.boxId, boxId),
+                eq(alertRoutingRules.isActive, true)
+            ))
+            .orderBy(asc(alertRoutingRules.priority), asc(alertRoutingRules.createdAt)),
+        db.select({
+            id: boxMemberships.id,
+            displayName: boxMemberships.displayName,
+            role: boxMemberships.role,
+            isActive: boxMemberships.isActive
+        })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.boxId, boxId),
+                inArray(boxMemberships.role, ['owner', 'head_coach', 'coach'])
+            )),
+        db.selectDistinct({ coachMembershipId: coachLeavePeriods.coachMembershipId })
+            .from(coachLeavePeriods)
+            .where(and(
+                eq(coachLeavePeriods.boxId, boxId),
+                lte(coachLeavePeriods.startDate, today),
+                gte(coachLeavePeriods.endDate, today)
+            )),
+        BoxCoachAssignmentService.getActiveAssignments(boxId, today),
+        db.select({
+            coachId: athleteAlerts.assignedCoachId,
+            openCount: count()
+        })
+            .from(athleteAlerts)
+            .where(and(
+                eq(athleteAlerts.boxId, boxId),
+                inArray(athleteAlerts.status, ['active', 'acknowledged']),
+                sql`${athleteAlerts.assignedCoachId} IS NOT NULL`
+            ))
+            .groupBy(athleteAlerts.assignedCoachId)
+    ]);
+
+    const leaveIds = new Set(onLeave.map(leave => leave.coachMembershipId));
+
+    const assignedCoaches: AlertRoutingContext['assignedCoaches'] = new Map();
+    for (const assignment of assignments) {
+        const coaches = assignedCoaches.get(assignment.athleteMembershipId) ?? [];
+        const entry = { coachId: assignment.coachMembershipId, role: assignment.role };
+        if (assignment.role === 'primary') {
+            coaches.unshift(entry);
+        } else {
+            coaches.push(entry);
+        }
+        assignedCoaches.set(assignment.athleteMembershipId, coaches);
+    }
+
+    return {
+        boxId,
+        rules: rules.length > 0 ? rules : DEFAULT_ROUTING_RULES.map(rule => ({ ...rule })),
+        coaches: new Map(members.map(member => [member.id, {
+            ...member,
+            onLeave: leaveIds.has(member.id)
+        }])),
+        assignedCoaches,
+        openAlerts: new Map(openAlerts
+            .filter(row => row.coachId !== null)
+            .map(row => [row.coachId as string, row.openCount]))
+    };
+}
+
+/**
+ * Decide who should handle an alert. Matching rules run in priority order and the first
+ * one that finds an available coach wins. When the athlete's assigned coach is inactive
+ * or on leave, or no rule finds anyone, the alert escalates to a head coach, then an owner.
+ */
+export function routeAlert(
+    context: AlertRoutingContext,
+    alert: { membershipId: string; alertType: AlertTypeEnum; severity: RiskLevelEnum },
+    excludeCoachId?: string | null
+): AlertRoutingDecision {
+    const isAvailable = (coachId: string) => {
+        const coach = context.coaches.get(coachId);
+        return !!coach && coach.isActive && !coach.onLeave && coachId !== excludeCoachId;
+    };
+    const available = [...context.coaches.values()]
+        .filter(coach => isAvailable(coach.id))
+        .sort((a, b) => a.displayName.localeCompare(b.displayName) || a.id.localeCompare(b.id));
+
+    let unavailableReason: string | null = null;
+
+    for (const rule of context.rules) {
+        if (rule.alertType && rule.alertType !== alert.alertType) continue;
+        if (rule.minSeverity && severityRank(alert.severity) < severityRank(rule.minSeverity)) continue;
+
+        const candidates = rule.targetRole
+            ? available.filter(coach => coach.role === rule.targetRole)
+            : available;
+
+        let coachId: string | null = null;
+        let reason = '';
+
+        switch (rule.strategy) {
+            case 'assigned_coach': {
+                const assigned = context.assignedCoaches.get(alert.membershipId) ?? [];
+                if (assigned.length === 0) continue;
+
+                const coach = assigned.find(entry => isAvailable(entry.coachId));
+                if (!coach) {
+                    unavailableReason = describeUnavailable(context, assigned[0].coachId);
+                    break;
+                }
+
+                coachId = coach.coachId;
+                reason = coach === assigned[0]
+                    ? `Athlete's ${coach.role} coach`
+                    : `Athlete's ${coach.role} coach (${describeUnavailable(context, assigned[0].coachId)})`;
+                break;
+            }
+            case 'role':
+            case 'least_loaded': {
+                const coach = leastLoaded(context, candidates);
+                if (!coach) continue;
+
+                coachId = coach.id;
+                reason = `Fewest open alerts${rule.targetRole ? ` among ${rule.targetRole.replace('_', ' ')}s` : ''} (${context.openAlerts.get(coach.id) ?? 0})`;
+                break;
+            }
+            case 'round_robin': {
+                if (candidates.length === 0) continue;
+
+                const lastIndex = candidates.findIndex(coach => coach.id === rule.lastAssignedCoachId);
+                const coach = candidates[(lastIndex + 1) % candidates.length];
+                rule.lastAssignedCoachId = coach.id;
+
+                coachId = coach.id;
+                reason = 'Next coach in rotation';
+                break;
+            }
+        }
+
+        if (!coachId) break; // Assigned coach unavailable: escalate
+
+        context.openAlerts.set(coachId, (context.openAlerts.get(coachId) ?? 0) + 1);
+        return {
+            coachId,
+            ruleId: rule.id,
+            strategy: rule.strategy,
+            isFallback: false,
+            reason: `${rule.name}: ${reason}`
+        };
+    }
+
+    for (const role of FALLBACK_ROLES) {
+        const coach = leastLoaded(context, available.filter(candidate => candidate.role === role));
+        if (!coach) continue;
+
+        context.openAlerts.set(coach.id, (context.openAlerts.get(coach.id) ?? 0) + 1);
+        return {
+            coachId: coach.id,
+            ruleId: null,
+            strategy: null,
+            isFallback: true,
+            reason: `Escalated to ${role.replace('_', ' ')}: ${unavailableReason ?? 'no routing rule found an available coach'}`
+        };
+    }
+
+    return {
+        coachId: null,
+        ruleId: null,
+        strategy: null,
+        isFallback: true,
+        reason: 'No available coach, head coach or owner'
+    };
+}
+
+/**
+ * Store a routing decision, moving the rule's round-robin position along with it
+ */
+export async function recordRoutingDecision(
+    boxId: string,
+    alertId: string,
+    decision: AlertRoutingDecision,
+    trigger: AlertRoutingTrigger,
+    previousCoachId: string | null = null
+) {
+    await db.insert(alertRoutingDecisions).values({
+        alertId,
+        boxId,
+        ruleId: decision.ruleId,
+        trigger,
+        strategy: decision.strategy,
+        assignedCoachId: decision.coachId,
+        previousCoachId,
+        isFallback: decision.isFallback,
+        reason: decision.reason
+    });
+
+    if (decision.strategy === 'round_robin' && decision.ruleId && decision.coachId) {
+        await db.update(alertRoutingRules)
+            .set({ lastAssignedCoachId: decision.coachId, updatedAt: new Date() })
+            .where(eq(alertRoutingRules.id, decision.ruleId));
+    }
+}
+
+/**
+ * Route a single new alert, save the assignee on it and record the decision
+ */
+export async function routeNewAlert(
+    boxId: string,
+    alert: { id: string; membershipId: string; alertType: AlertTypeEnum; severity: RiskLevelEnum }
+): Promise<AlertRoutingDecision> {
+    const context = await loadAlertRoutingContext(boxId);
+    const decision = routeAlert(context, alert);
+
+    await db.update(athleteAlerts)
+        .set({ assignedCoachId: decision.coachId, updatedAt: new Date() })
+        .where(eq(athleteAlerts.id, alert.id));
+    await recordRoutingDecision(boxId, alert.id, decision, 'alert_created');
+
+    return decision;
+}
+
+/**
+ * Reassign open alerts whose assignee has left, been deactivated or gone on leave
+ */
+export async function rerouteUnavailableAlerts(boxId: string): Promise<number> {
+    const context = await loadAlertRoutingContext(boxId);
+
+    const openAlerts = await db.select({
+        id: athleteAlerts.id,
+        membershipId: athleteAlerts.membershipId,
+        alertType: athleteAlerts.alertType,
+        severity: athleteAlerts.severity,
+        assignedCoachId: athleteAlerts.assignedCoachId
+    })
+        .from(athleteAlerts)
+        .where(and(
+            eq(athleteAlerts.boxId, boxId),
+            inArray(athleteAlerts.status, ['active', 'acknowledged']),
+            sql`${athleteAlerts.assignedCoachId} IS NOT NULL`
+        ));
+
+    let rerouted = 0;
+    for (const alert of openAlerts) {
+        const coach = context.coaches.get(alert.assignedCoachId as string);
+        if (coach?.isActive && !coach.onLeave) continue;
+
+        try {
+            const decision = routeAlert(context, alert, alert.assignedCoachId);
+            if (decision.coachId === null) continue;
+
+            const previousCount = context.openAlerts.get(alert.assignedCoachId as string) ?? 0;
+            context.openAlerts.set(alert.assignedCoachId as string, Math.max(0, previousCount - 1));
+
+            await db.update(athleteAlerts)
+                .set({ assignedCoachId: decision.coachId, updatedAt: new Date() })
+                .where(eq(athleteAlerts.id, alert.id));
+            const unavailable = describeUnavailable(context, alert.assignedCoachId as string);
+            await recordRoutingDecision(boxId, alert.id, {
+                ...decision,
+                reason: decision.reason.includes(unavailable) ? decision.reason : `${unavailable}. ${decision.reason}`
+            }, 'assignee_unavailable', alert.assignedCoachId);
+
+            rerouted++;
+        } catch (error) {
+            console.error(`[Alerts] Failed to reroute alert ${alert.id}:`, error);
+        }
+    }
+
+    if (rerouted > 0) {
+        console.log(`[Alerts] Rerouted ${rerouted} alerts from unavailable coaches in box ${boxId}`);
+    }
+
+    return rerouted;
+}
+
+function leastLoaded(context: AlertRoutingContext, candidates: RoutingCoach[]): RoutingCoach | null {
+    let best: RoutingCoach | null = null;
+    for (const coach of candidates) {
+        if (!best || (context.openAlerts.get(coach.id) ?? 0) < (context.openAlerts.get(best.id) ?? 0)) {
+            best = coach;
+        }
+    }
+    return best;
+}
+
+function describeUnavailable(context: AlertRoutingContext, coachId: string): string {
+    const coach = context.coaches.get(coachId);
+    if (!coach) return 'Assigned coach is no longer a coach at this box';
+    if (!coach.isActive) return `${coach.displayName} is inactive`;
+    if (coach.onLeave) return `${coach.displayName} is on leave`;
+    return `${coach.displayName} is unavailable`;
+}
+
+function severityRank(severity: RiskLevelEnum): number {
+    return riskLevelEnum.enumValues.indexOf(severity);
+}
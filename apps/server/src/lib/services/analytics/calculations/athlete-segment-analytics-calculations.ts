@@ -10,6 +10,7 @@ import {
     athleteBenchmarks
 } from "@/db/schema";
 import { eq, and, gte, lte, count, sql, avg } from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone } from "@/lib/dates";
 
 export interface SegmentCriteria {
     type: 'demographic' | 'behavioral' | 'risk' | 'engagement' | 'performance';
@@ -70,6 +71,7 @@ async function getAthleteProfiles(
     periodStart: Date,
     periodEnd: Date
 ): Promise<AthleteProfile[]> {
+    const timezone = await getBoxTimezone(boxId);
     // Get all athletes in the box
     const athletes = await db
         .select({
@@ -113,8 +115,8 @@ async function getAthleteProfiles(
             .from(wodAttendance)
             .where(and(
                 eq(wodAttendance.membershipId, athlete.membershipId),
-                gte(wodAttendance.attendanceDate, sql`${periodStart}::date`),
-                lte(wodAttendance.attendanceDate, sql`${periodEnd}::date`)
+                gte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodStart, timezone)}::date`),
+                lte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodEnd, timezone)}::date`)
             ));
 
         const attendanceRate = attendance[0]?.total > 0
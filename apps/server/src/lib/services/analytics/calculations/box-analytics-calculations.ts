@@ -10,6 +10,7 @@ import {
     wodAttendance,
 } from "@/db/schema";
 import { eq, and, gte, count, sql, avg, lte } from "drizzle-orm";
+import { getBoxTimezone, getPeriodRange } from "@/lib/dates";
 
 export type AnalyticsPeriod = "daily" | "weekly" | "monthly";
 
@@ -51,52 +52,11 @@ export async function calculateBoxAnalyticsSnapshot(
     period: AnalyticsPeriod,
     referenceDate: Date = new Date()
 ): Promise<BoxAnalyticsSnapshotData> {
-    // Calculate period boundaries
-    let periodStart = new Date(referenceDate);
-    let periodEnd = new Date(referenceDate);
-    let daysInPeriod: number;
-
-    switch (period) {
-        case "daily":
-            periodStart.setHours(0, 0, 0, 0);
-            periodEnd.setHours(23, 59, 59, 999);
-            daysInPeriod = 1;
-            break;
-        case "weekly":
-            const dayOfWeek = periodStart.getDay();
-            periodStart.setDate(periodStart.getDate() - dayOfWeek);
-            periodStart.setHours(0, 0, 0, 0);
-            periodEnd.setDate(periodStart.getDate() + 6);
-            periodEnd.setHours(23, 59, 59, 999);
-            daysInPeriod = 7;
-            break;
-        case "monthly":
-        default:
-            periodStart.setDate(1);
-            periodStart.setHours(0, 0, 0, 0);
-            periodEnd.setMonth(periodEnd.getMonth() + 1);
-            periodEnd.setDate(0);
-            periodEnd.setHours(23, 59, 59, 999);
-            daysInPeriod = new Date(periodStart.getFullYear(), periodStart.getMonth() + 1, 0).getDate();
-            break;
-    }
-
-    // Get previous period for comparison
-    const prevPeriodEnd = new Date(periodStart);
-    prevPeriodEnd.setDate(prevPeriodEnd.getDate() - 1);
-    const prevPeriodStart = new Date(prevPeriodEnd);
-
-    switch (period) {
-        case "daily":
-            prevPeriodStart.setDate(prevPeriodStart.getDate() - 1);
-            break;
-        case "weekly":
-            prevPeriodStart.setDate(prevPeriodStart.getDate() - 7);
-            break;
-        case "monthly":
-            prevPeriodStart.setMonth(prevPeriodStart.getMonth() - 1);
-            break;
-    }
+    // Calculate period boundaries on the box's calendar
+    const timezone = await getBoxTimezone(boxId);
+    const range = getPeriodRange(period, timezone, referenceDate);
+    const periodStart = range.start;
+    const periodEnd = new Date(range.end.getTime() - 1);
 
     // Fetch comprehensive analytics data
     const [
@@ -171,8 +131,8 @@ export async function calculateBoxAnalyticsSnapshot(
             .from(wodAttendance)
             .where(and(
                 eq(wodAttendance.boxId, boxId),
-                gte(wodAttendance.attendanceDate, sql`${periodStart}::date`),
-                lte(wodAttendance.attendanceDate, sql`${periodEnd}::date`)
+                gte(wodAttendance.attendanceDate, sql`${range.startDate}::date`),
+                lte(wodAttendance.attendanceDate, sql`${range.endDate}::date`)
             )),
 
         // Performance Metrics
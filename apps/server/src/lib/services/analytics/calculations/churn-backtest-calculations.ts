@@ -0,0 +1,423 @@
+﻿// src/lib/services/analytics/calculations/churn-backtest-calculations.ts
+import { db, withTransaction } from "@/db";
+import {
+    boxes,
+    boxMemberships,
+    churnModelVersions,
+    modelPerformanceMetrics,
+    retentionEvents,
+    athleteInterventions
+} from "@/db/schema";
+import { eq, and, gt, lte, count, desc, isNull, or } from "drizzle-orm";
+import { extractChurnFeatures } from "./risk-score-calculations";
+import {
+    CHURN_MODELS,
+    loadBoxChurnModels,
+    predictChurn,
+    type ChurnFeatures,
+    type ChurnTrainingSample,
+    type ResolvedChurnModel
+} from "./churn-model-calculations";
+import { loadRiskScoringConfig } from "./risk-scoring-config-calculations";
+
+export interface ChurnBacktestOptions {
+    horizonDays?: number; // An athlete counts as churned if they leave within this many days of a snapshot
+    snapshots?: number; // Points in history to replay
+    snapshotIntervalDays?: number;
+    threshold?: number; // churnProbability at or above which a prediction counts as "will churn"
+    lookbackDays?: number; // Feature window, as for live risk scores
+}
+
+interface BacktestSample extends ChurnTrainingSample {
+    membershipId: string;
+    asOf: Date;
+    intervened: boolean; // A coach intervened within the horizon
+}
+
+interface ConfusionMatrix {
+    truePositives: number;
+    trueNegatives: number;
+    falsePositives: number;
+    falseNegatives: number;
+}
+
+const BATCH_SIZE = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Component features compared between training and evaluation snapshots for drift
+const DRIFT_FEATURES = ['attendanceScore', 'wellnessScore', 'performanceScore', 'engagementScore'] as const;
+
+/**
+ * Replay the box's history to see how each churn model would have done.
+ *
+ * Snapshots are taken every snapshotIntervalDays, the newest one horizonDays ago so every
+ * label is final. At each snapshot the athletes who were members are scored from the data
+ * available then, and labelled as churned if they left (boxMemberships.leftAt, or a "churn"
+ * retention event) within the horizon. The older half of the snapshots trains a fresh
+ * logistic regression, registered as a shadow model; the newer half evaluates it next to
+ * the box's active and shadow models, scored under the box's current risk scoring
+ * configuration. Results go to modelPerformanceMetrics.
+ */
+export async function processChurnModelBacktest(boxId: string, options: ChurnBacktestOptions = {}) {
+    const horizonDays = options.horizonDays ?? 60;
+    const snapshots = options.snapshots ?? 6;
+    const snapshotIntervalDays = options.snapshotIntervalDays ?? 30;
+    const threshold = options.threshold ?? 0.5;
+    const lookbackDays = options.lookbackDays ?? 30;
+
+    try {
+        console.log(`[Analytics] Starting churn model backtest for box ${boxId}`);
+
+        // Oldest first
+        const now = Date.now();
+        const cutoffs = Array.from({ length: snapshots }, (_, i) =>
+            new Date(now - (horizonDays + (snapshots - 1 - i) * snapshotIntervalDays) * DAY_MS)
+        );
+
+        const samples = await collectBacktestSamples(boxId, cutoffs, horizonDays, lookbackDays);
+
+        const trainingCutoffCount = Math.floor(cutoffs.length / 2);
+        const firstEvaluationCutoff = cutoffs[trainingCutoffCount];
+        const trainingSamples = samples.filter(sample => sample.asOf < firstEvaluationCutoff);
+        const evaluationSamples = samples.filter(sample => sample.asOf >= firstEvaluationCutoff);
+
+        if (evaluationSamples.length === 0) {
+            console.log(`[Analytics] No athletes to evaluate for box ${boxId}, skipping backtest`);
+            return { boxId, samples: 0, modelsEvaluated: 0, trainedModel: null, completedAt: new Date() };
+        }
+
+        const [registered, config] = await Promise.all([
+            loadBoxChurnModels(boxId),
+            loadRiskScoringConfig(boxId)
+        ]);
+        const models = [registered.active, ...registered.shadows];
+
+        const trainedModel = await trainLogisticRegression(boxId, trainingSamples, cutoffs[trainingCutoffCount - 1]);
+        if (trainedModel) {
+            models.push(trainedModel);
+        }
+
+        const evaluationPeriodStart = firstEvaluationCutoff;
+        const evaluationPeriodEnd = new Date(cutoffs[cutoffs.length - 1].getTime() + horizonDays * DAY_MS);
+        const featureDrift = trainingSamples.length > 0
+            ? calculateFeatureDrift(trainingSamples, evaluationSamples)
+            : null;
+
+        const results = [];
+        for (const model of models) {
+            const scored = [];
+            for (const sample of evaluationSamples) {
+                try {
+                    scored.push({ sample, probability: predictChurn(model, sample.features, config).churnProbability });
+                } catch (error) {
+                    console.warn(`[Analytics] ${model.name}@${model.version} could not score athlete ${sample.membershipId}:`, error);
+                }
+            }
+            if (scored.length === 0) continue;
+
+            const matrix = calculateConfusionMatrix(scored.map(({ sample, probability }) => ({
+                churned: sample.churned,
+                predicted: probability >= threshold
+            })));
+            const auc = calculateAuc(scored.map(({ sample, probability }) => ({ churned: sample.churned, probability })));
+            const metrics = summarizeConfusionMatrix(matrix);
+
+            const flagged = scored.filter(({ probability }) => probability >= threshold);
+            const interventionsTriggered = flagged.filter(({ sample }) => sample.intervened).length;
+
+            const [previous] = await db.select({ auc: modelPerformanceMetrics.auc })
+                .from(modelPerformanceMetrics)
+                .where(and(
+                    eq(modelPerformanceMetrics.boxId, boxId),
+                    eq(modelPerformanceMetrics.modelName, model.name),
+                    eq(modelPerformanceMetrics.modelVersion, model.version)
+                ))
+                .orderBy(desc(modelPerformanceMetrics.calculatedAt))
+                .limit(1);
+
+            const performanceDrift = auc !== null && previous?.auc != null
+                ? auc - Number(previous.auc)
+                : null;
+
+            await db.insert(modelPerformanceMetrics).values({
+                boxId,
+                modelName: model.name,
+                modelVersion: model.version,
+                evaluationPeriodStart,
+                evaluationPeriodEnd,
+                accuracy: toDecimal(metrics.accuracy),
+                precision: toDecimal(metrics.precision),
+                recall: toDecimal(metrics.recall),
+                f1Score: toDecimal(metrics.f1Score),
+                auc: toDecimal(auc),
+                ...matrix,
+                predictionsGenerated: scored.length,
+                alertsTriggered: flagged.length,
+                interventionsTriggered,
+                churnsPrevented: null,
+                falseAlertRate: flagged.length > 0 ? toDecimal(matrix.falsePositives / flagged.length) : null,
+                featureDrift,
+                performanceDrift: toDecimal(performanceDrift)
+            });
+
+            results.push({
+                modelName: model.name,
+                modelVersion: model.version,
+                status: model.status,
+                predictions: scored.length,
+                ...matrix,
+                ...metrics,
+                auc
+            });
+        }
+
+        console.log(`[Analytics] Completed churn model backtest for box ${boxId}: ${evaluationSamples.length} evaluation samples, ${results.length} models`);
+
+        return {
+            boxId,
+            samples: samples.length,
+            trainingSamples: trainingSamples.length,
+            evaluationSamples: evaluationSamples.length,
+            churnRate: evaluationSamples.filter(sample => sample.churned).length / evaluationSamples.length,
+            modelsEvaluated: results.length,
+            trainedModel: trainedModel ? { modelName: trainedModel.name, modelVersion: trainedModel.version } : null,
+            results,
+            completedAt: new Date()
+        };
+    } catch (error) {
+        console.error(`[Analytics] Error running churn model backtest for box ${boxId}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Features and churn labels for every athlete who was a member at each cutoff
+ */
+async function collectBacktestSamples(
+    boxId: string,
+    cutoffs: Date[],
+    horizonDays: number,
+    lookbackDays: number
+): Promise<BacktestSample[]> {
+    const firstCutoff = cutoffs[0];
+    const lastCutoff = cutoffs[cutoffs.length - 1];
+
+    const [athletes, churnEvents, interventions] = await Promise.all([
+        db.select({
+            id: boxMemberships.id,
+            joinedAt: boxMemberships.joinedAt,
+            leftAt: boxMemberships.leftAt
+        })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.boxId, boxId),
+                eq(boxMemberships.role, 'athlete'),
+                lte(boxMemberships.joinedAt, lastCutoff),
+                or(isNull(boxMemberships.leftAt), gt(boxMemberships.leftAt, firstCutoff))
+            )),
+
+        db.select({
+            membershipId: retentionEvents.membershipId,
+            eventDate: retentionEvents.eventDate
+        })
+            .from(retentionEvents)
+            .where(and(
+                eq(retentionEvents.boxId, boxId),
+                eq(retentionEvents.eventType, 'churn'),
+                gt(retentionEvents.eventDate, firstCutoff)
+            )),
+
+        db.select({
+            membershipId: athleteInterventions.membershipId,
+            interventionDate: athleteInterventions.interventionDate
+        })
+            .from(athleteInterventions)
+            .where(and(
+                eq(athleteInterventions.boxId, boxId),
+                gt(athleteInterventions.interventionDate, firstCutoff)
+            ))
+    ]);
+
+    const within = (date: Date, asOf: Date) =>
+        date > asOf && date.getTime() <= asOf.getTime() + horizonDays * DAY_MS;
+
+    const candidates = cutoffs.flatMap(asOf => athletes
+        .filter(athlete => athlete.joinedAt <= asOf && (!athlete.leftAt || athlete.leftAt > asOf))
+        .map(athlete => ({
+            membershipId: athlete.id,
+            asOf,
+            churned: (!!athlete.leftAt && within(athlete.leftAt, asOf)) ||
+                churnEvents.some(event => event.membershipId === athlete.id && within(event.eventDate, asOf)),
+            intervened: interventions.some(intervention =>
+                intervention.membershipId === athlete.id && within(intervention.interventionDate, asOf))
+        }))
+    );
+
+    const samples: BacktestSample[] = [];
+    for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+        const batch = candidates.slice(i, i + BATCH_SIZE);
+
+        const batchResults = await Promise.allSettled(
+            batch.map(candidate => extractChurnFeatures(candidate.membershipId, boxId, lookbackDays, candidate.asOf))
+        );
+
+        batchResults.forEach((result, index) => {
+            if (result.status === 'fulfilled') {
+                samples.push({ ...batch[index], features: result.value });
+            } else {
+                console.warn(`[Analytics] Could not replay features for athlete ${batch[index].membershipId}:`, result.reason);
+            }
+        });
+    }
+
+    return samples;
+}
+
+/**
+ * Train a logistic regression on the training snapshots and register it as a shadow
+ * model, retiring the shadow the previous backtest trained (shadows that were once
+ * active are kept). Returns null when there isn't enough churn history to learn from.
+ */
+async function trainLogisticRegression(
+    boxId: string,
+    samples: ChurnTrainingSample[],
+    trainedThrough: Date | undefined
+): Promise<ResolvedChurnModel | null> {
+    const model = CHURN_MODELS.logistic_regression;
+    if (!model.train || !trainedThrough) return null;
+
+    let parameters: unknown;
+    try {
+        parameters = model.train(samples);
+    } catch (error) {
+        console.log(`[Analytics] Skipping logistic regression training for box ${boxId}: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+    }
+
+    const version = await withTransaction(async (tx) => {
+        // The next version number comes from a count, so concurrent trainings for the box
+        // (the monthly job and an owner's manual run) take turns on the box row
+        await tx.select({ id: boxes.id })
+            .from(boxes)
+            .where(eq(boxes.id, boxId))
+            .for('update');
+
+        const [existing] = await tx.select({ count: count() })
+            .from(churnModelVersions)
+            .where(and(
+                eq(churnModelVersions.boxId, boxId),
+                eq(churnModelVersions.modelName, model.name)
+            ));
+
+        const now = new Date();
+        await tx.update(churnModelVersions)
+            .set({ status: 'retired', retiredAt: now, updatedAt: now })
+            .where(and(
+                eq(churnModelVersions.boxId, boxId),
+                eq(churnModelVersions.modelName, model.name),
+                eq(churnModelVersions.status, 'shadow'),
+                isNull(churnModelVersions.activatedAt)
+            ));
+
+        const [inserted] = await tx.insert(churnModelVersions)
+            .values({
+                boxId,
+                modelName: model.name,
+                modelVersion: `${existing.count + 1}.0.0`,
+                status: 'shadow',
+                parameters,
+                trainingSamples: samples.length,
+                trainingChurned: samples.filter(sample => sample.churned).length,
+                trainedThrough
+            })
+            .returning();
+
+        return inserted;
+    });
+
+    return {
+        versionId: version.id,
+        name: version.modelName,
+        version: version.modelVersion,
+        status: 'shadow',
+        model,
+        parameters
+    };
+}
+
+function calculateConfusionMatrix(predictions: Array<{ churned: boolean; predicted: boolean }>): ConfusionMatrix {
+    const matrix = { truePositives: 0, trueNegatives: 0, falsePositives: 0, falseNegatives: 0 };
+
+    for (const { churned, predicted } of predictions) {
+        if (predicted && churned) matrix.truePositives++;
+        else if (predicted) matrix.falsePositives++;
+        else if (churned) matrix.falseNegatives++;
+        else matrix.trueNegatives++;
+    }
+
+    return matrix;
+}
+
+function summarizeConfusionMatrix(matrix: ConfusionMatrix) {
+    const total = matrix.truePositives + matrix.trueNegatives + matrix.falsePositives + matrix.falseNegatives;
+    const predictedPositive = matrix.truePositives + matrix.falsePositives;
+    const actualPositive = matrix.truePositives + matrix.falseNegatives;
+
+    const accuracy = total > 0 ? (matrix.truePositives + matrix.trueNegatives) / total : null;
+    const precision = predictedPositive > 0 ? matrix.truePositives / predictedPositive : null;
+    const recall = actualPositive > 0 ? matrix.truePositives / actualPositive : null;
+    const f1Score = precision !== null && recall !== null && precision + recall > 0
+        ? 2 * precision * recall / (precision + recall)
+        : null;
+
+    return { accuracy, precision, recall, f1Score };
+}
+
+/**
+ * Area under the ROC curve: the chance a churned athlete was scored above a retained one
+ * (ties count half). Null unless both outcomes are present.
+ */
+function calculateAuc(predictions: Array<{ churned: boolean; probability: number }>): number | null {
+    const sorted = [...predictions].sort((a, b) => a.probability - b.probability);
+    const positives = sorted.filter(prediction => prediction.churned).length;
+    const negatives = sorted.length - positives;
+    if (positives === 0 || negatives === 0) return null;
+
+    // Mann-Whitney U with average ranks for tied scores
+    let positiveRankSum = 0;
+    let i = 0;
+    while (i < sorted.length) {
+        let j = i;
+        while (j + 1 < sorted.length && sorted[j + 1].probability === sorted[i].probability) j++;
+
+        const averageRank = (i + j) / 2 + 1;
+        for (let k = i; k <= j; k++) {
+            if (sorted[k].churned) positiveRankSum += averageRank;
+        }
+        i = j + 1;
+    }
+
+    return (positiveRankSum - positives * (positives + 1) / 2) / (positives * negatives);
+}
+
+/**
+ * Mean component scores in training vs evaluation snapshots
+ */
+function calculateFeatureDrift(training: BacktestSample[], evaluation: BacktestSample[]) {
+    const mean = (samples: BacktestSample[], feature: keyof ChurnFeatures) =>
+        samples.reduce((sum, sample) => sum + Number(sample.features[feature]), 0) / samples.length;
+
+    return Object.fromEntries(DRIFT_FEATURES.map(feature => {
+        const trainingMean = mean(training, feature);
+        const evaluationMean = mean(evaluation, feature);
+        return [feature, {
+            training: Math.round(trainingMean * 100) / 100,
+            evaluation: Math.round(evaluationMean * 100) / 100,
+            change: Math.round((evaluationMean - trainingMean) * 100) / 100
+        }];
+    }));
+}
+
+function toDecimal(value: number | null): string | null {
+    return value === null ? null : value.toFixed(4);
+}
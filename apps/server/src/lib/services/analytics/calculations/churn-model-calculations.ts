@@ -0,0 +1,307 @@
+﻿// src/lib/services/analytics/calculations/churn-model-calculations.ts
+import { db } from "@/db";
+import { churnModelPredictions, churnModelVersions } from "@/db/schema";
+import { eq, and, inArray, desc } from "drizzle-orm";
+import {
+    calculateWeightedHealthScore,
+    type RiskComponent,
+    type RiskScoringConfig
+} from "./risk-scoring-config-calculations";
+import { fitLogisticRegression, predictLogisticRegression, round } from "./logistic-regression-calculations";
+
+/**
+ * What a churn model sees about an athlete at a point in time. Component scores are
+ * 0-100 (higher is healthier), trends are % change against the previous period.
+ */
+export interface ChurnFeatures {
+    attendanceScore: number;
+    wellnessScore: number;
+    performanceScore: number;
+    engagementScore: number;
+    attendanceTrend: number;
+    performanceTrend: number;
+    engagementTrend: number;
+    wellnessTrend: number;
+    daysSinceLastVisit: number | null;
+    daysSinceLastCheckin: number | null;
+    daysSinceLastPr: number | null;
+    missingComponents: RiskComponent[]; // Components scored from a default because the athlete has no data
+    factors: {
+        attendanceRate: number;
+        noShowRate: number;
+        lateCancelRate: number;
+        checkinFrequency: number;
+        habitDayFrequency: number;
+        engagedDayFrequency: number;
+        avgWellnessScore: number;
+        recentPerformance: number;
+        membershipAge: number;
+    };
+}
+
+export interface ChurnPrediction {
+    overallRiskScore: number; // 0-100
+    churnProbability: number; // 0-1
+}
+
+export interface ChurnTrainingSample {
+    features: ChurnFeatures;
+    churned: boolean;
+}
+
+/**
+ * A scoring strategy. Versions of it are registered per box in churnModelVersions, each
+ * with its own parameters (e.g. coefficients learned by train()). The box's risk scoring
+ * configuration is passed to every prediction for strategies that use it.
+ */
+export interface ChurnModel {
+    name: string;
+    description: string;
+    predict(features: ChurnFeatures, parameters: unknown, config: RiskScoringConfig): ChurnPrediction;
+    train?(samples: ChurnTrainingSample[]): unknown;
+}
+
+/**
+ * A model version ready to score. versionId is null for the built-in default, which a box
+ * uses until it registers a model of its own.
+ */
+export interface ResolvedChurnModel {
+    versionId: string | null;
+    name: string;
+    version: string;
+    status: 'active' | 'shadow';
+    model: ChurnModel;
+    parameters: unknown;
+}
+
+export interface LogisticRegressionParameters {
+    featureNames: string[];
+    coefficients: number[];
+    intercept: number;
+    means: number[]; // Standardization learned from the training set
+    stds: number[];
+}
+
+// The heuristic caps its probability so a low score never reads as certain churn
+const MAX_HEURISTIC_PROBABILITY = 0.95;
+
+// Logistic regression needs enough of both outcomes to learn anything
+export const MIN_TRAINING_SAMPLES = 30;
+export const MIN_TRAINING_CHURNED = 5;
+
+const TRAINING_ITERATIONS = 500;
+const MAX_CLASS_WEIGHT = 10;
+
+const heuristicModel: ChurnModel = {
+    name: 'heuristic',
+    description: 'Component scores weighted by the box\'s risk scoring configuration, inverted into a 0-100 risk score',
+    predict(features, _parameters, config) {
+        const weightedScore = calculateWeightedHealthScore({
+            attendance: features.attendanceScore,
+            wellness: features.wellnessScore,
+            performance: features.performanceScore,
+            engagement: features.engagementScore
+        }, features.missingComponents, config);
+
+        // Risk score is inverted (100 - weighted score)
+        const overallRiskScore = clamp(100 - weightedScore, 0, 100);
+
+        return {
+            overallRiskScore,
+            churnProbability: Math.min(overallRiskScore / 100, MAX_HEURISTIC_PROBABILITY)
+        };
+    }
+};
+
+const logisticRegressionModel: ChurnModel = {
+    name: 'logistic_regression',
+    description: 'Logistic regression trained on the box\'s own churn history',
+    predict(features, parameters) {
+        const params = parameters as LogisticRegressionParameters | null;
+        if (!params?.coefficients) {
+            throw new Error('Logistic regression model has not been trained');
+        }
+
+        const probability = predictLogisticRegression(params, toModelInputs(features));
+
+        return {
+            overallRiskScore: probability * 100,
+            churnProbability: probability
+        };
+    },
+    train(samples): LogisticRegressionParameters {
+        const churned = samples.filter(sample => sample.churned).length;
+        if (samples.length < MIN_TRAINING_SAMPLES || churned < MIN_TRAINING_CHURNED || samples.length - churned < MIN_TRAINING_CHURNED) {
+            throw new Error(`Not enough history to train: ${samples.length} samples, ${churned} churned`);
+        }
+
+        // Churn is the minority class, so weight it up rather than learn "nobody leaves"
+        const fit = fitLogisticRegression(
+            samples.map(sample => toModelInputs(sample.features)),
+            samples.map(sample => sample.churned ? 1 : 0),
+            {
+                iterations: TRAINING_ITERATIONS,
+                positiveWeight: Math.min((samples.length - churned) / churned, MAX_CLASS_WEIGHT)
+            }
+        );
+
+        return { featureNames: [...MODEL_INPUT_NAMES], ...fit };
+    }
+};
+
+/**
+ * Every scoring strategy a box can register a version of
+ */
+export const CHURN_MODELS: Record<string, ChurnModel> = {
+    [heuristicModel.name]: heuristicModel,
+    [logisticRegressionModel.name]: logisticRegressionModel
+};
+
+export const DEFAULT_CHURN_MODEL: ResolvedChurnModel = {
+    versionId: null,
+    name: heuristicModel.name,
+    version: '1.0.0',
+    status: 'active',
+    model: heuristicModel,
+    parameters: null
+};
+
+export function getChurnModel(name: string): ChurnModel {
+    const model = CHURN_MODELS[name];
+    if (!model) {
+        throw new Error(`Unknown churn model: ${name}`);
+    }
+    return model;
+}
+
+/**
+ * The box's active model (the built-in heuristic when none is registered) and its shadow models
+ */
+export async function loadBoxChurnModels(boxId: string): Promise<{
+    active: ResolvedChurnModel;
+    shadows: ResolvedChurnModel[];
+}> {
+    const versions = await db.select()
+        .from(churnModelVersions)
+        .where(and(
+            eq(churnModelVersions.boxId, boxId),
+            inArray(churnModelVersions.status, ['active', 'shadow'])
+        ))
+        .orderBy(desc(churnModelVersions.createdAt));
+
+    let active = DEFAULT_CHURN_MODEL;
+    const shadows: ResolvedChurnModel[] = [];
+
+    for (const version of versions) {
+        const model = CHURN_MODELS[version.modelName];
+        if (!model) {
+            console.warn(`[Analytics] Skipping churn model ${version.modelName}@${version.modelVersion} for box ${boxId}: no such strategy`);
+            continue;
+        }
+
+        const resolved: ResolvedChurnModel = {
+            versionId: version.id,
+            name: version.modelName,
+            version: version.modelVersion,
+            status: version.status === 'active' ? 'active' : 'shadow',
+            model,
+            parameters: version.parameters
+        };
+
+        if (resolved.status === 'active') {
+            active = resolved;
+        } else {
+            shadows.push(resolved);
+        }
+    }
+
+    return { active, shadows };
+}
+
+/**
+ * Score features with a model version, rounded the way risk scores are stored
+ */
+export function predictChurn(
+    model: ResolvedChurnModel,
+    features: ChurnFeatures,
+    config: RiskScoringConfig
+): ChurnPrediction {
+    const prediction = model.model.predict(features, model.parameters, config);
+
+    return {
+        overallRiskScore: round(clamp(prediction.overallRiskScore, 0, 100), 2),
+        churnProbability: round(clamp(prediction.churnProbability, 0, 1), 4)
+    };
+}
+
+/**
+ * Record the active and every shadow model's prediction for an athlete. A shadow model
+ * that fails to score is logged and skipped so it can never block the active model.
+ */
+export async function recordChurnPredictions(
+    boxId: string,
+    membershipId: string,
+    features: ChurnFeatures,
+    models: { active: ResolvedChurnModel; shadows: ResolvedChurnModel[] },
+    activePrediction: ChurnPrediction,
+    config: RiskScoringConfig
+) {
+    const rows = [{ model: models.active, prediction: activePrediction }];
+
+    for (const shadow of models.shadows) {
+        try {
+            rows.push({ model: shadow, prediction: predictChurn(shadow, features, config) });
+        } catch (error) {
+            console.warn(`[Analytics] Shadow model ${shadow.name}@${shadow.version} failed for athlete ${membershipId}:`, error);
+        }
+    }
+
+    await db.insert(churnModelPredictions).values(rows.map(({ model, prediction }) => ({
+        boxId,
+        membershipId,
+        modelVersionId: model.versionId,
+        modelName: model.name,
+        modelVersion: model.version,
+        overallRiskScore: prediction.overallRiskScore.toString(),
+        churnProbability: prediction.churnProbability.toString()
+    })));
+}
+
+const MODEL_INPUT_NAMES = [
+    'attendanceScore',
+    'wellnessScore',
+    'performanceScore',
+    'engagementScore',
+    'attendanceTrend',
+    'engagementTrend',
+    'visitRecency',
+    'noShowRate',
+    'lateCancelRate',
+    'tenure'
+] as const;
+
+// Days without a visit (or tenure in days) past which more makes no difference
+const RECENCY_CAP_DAYS = 60;
+const TENURE_CAP_DAYS = 730;
+
+/**
+ * Features as a numeric vector in MODEL_INPUT_NAMES order, roughly on a 0-1 scale
+ */
+function toModelInputs(features: ChurnFeatures): number[] {
+    return [
+        features.attendanceScore / 100,
+        features.wellnessScore / 100,
+        features.performanceScore / 100,
+        features.engagementScore / 100,
+        clamp(features.attendanceTrend, -100, 100) / 100,
+        clamp(features.engagementTrend, -100, 100) / 100,
+        Math.min(features.daysSinceLastVisit ?? RECENCY_CAP_DAYS, RECENCY_CAP_DAYS) / RECENCY_CAP_DAYS,
+        features.factors.noShowRate,
+        features.factors.lateCancelRate,
+        Math.min(features.factors.membershipAge, TENURE_CAP_DAYS) / TENURE_CAP_DAYS
+    ];
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+}
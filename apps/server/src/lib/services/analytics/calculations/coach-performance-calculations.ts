@@ -11,6 +11,10 @@ import {
     wodAttendance
 } from "@/db/schema";
 import { eq, and, gte, lte, count, sql } from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone, startOfLocalDay } from "@/lib/dates";
+import { BoxCoachAssignmentService } from "@/lib/services/box/box-coach-assignment-service";
+import { boxHasCoachAssignments } from "@/lib/coach-assignments";
+import type { CoachAssignmentRole } from "@/lib/services/box/types";
 
 export interface CoachPerformanceMetricsData {
     boxId: string;
@@ -38,16 +42,51 @@ export interface CoachPerformanceMetricsData {
 interface CoachAssignment {
     coachMembershipId: string;
     athleteMembershipId: string;
+    role: CoachAssignmentRole;
     assignedAt: Date;
     isActive: boolean;
 }
 
 /**
- * Get coach assignments (for now, we'll infer from intervention history and alert assignments)
- * In a full implementation, you'd have a dedicated coach-athlete assignment table
+ * Coach-athlete assignments in effect at any point in the period. An athlete who moved
+ * coaches mid-period counts for both; a coach holding both roles over the period counts
+ * the athlete once, as primary.
  */
 async function getCoachAssignments(boxId: string, periodStart: Date, periodEnd: Date): Promise<CoachAssignment[]> {
-    // Get coaches who have conducted interventions or been assigned alerts in the period
+    if (!(await boxHasCoachAssignments(boxId))) {
+        return inferCoachAssignments(boxId, periodStart, periodEnd);
+    }
+
+    const timezone = await getBoxTimezone(boxId);
+    const assignments = await BoxCoachAssignmentService.getAssignmentsInPeriod(
+        boxId,
+        formatLocalDate(periodStart, timezone),
+        formatLocalDate(periodEnd, timezone)
+    );
+
+    const assignmentMap = new Map<string, CoachAssignment>();
+    for (const assignment of assignments) {
+        const key = `${assignment.coachMembershipId}-${assignment.athleteMembershipId}`;
+        const existing = assignmentMap.get(key);
+        if (existing?.role === 'primary') continue;
+
+        assignmentMap.set(key, {
+            coachMembershipId: assignment.coachMembershipId,
+            athleteMembershipId: assignment.athleteMembershipId,
+            role: assignment.role,
+            assignedAt: startOfLocalDay(assignment.effectiveFrom, timezone),
+            isActive: assignment.effectiveTo === null
+        });
+    }
+
+    return Array.from(assignmentMap.values());
+}
+
+/**
+ * For boxes that haven't assigned coaches yet: coaches who ran interventions for, or were
+ * routed alerts about, an athlete during the period
+ */
+async function inferCoachAssignments(boxId: string, periodStart: Date, periodEnd: Date): Promise<CoachAssignment[]> {
     const coachInteractionData = await db
         .select({
             coachMembershipId: athleteInterventions.coachId,
@@ -65,47 +104,46 @@ async function getCoachAssignments(boxId: string, periodStart: Date, periodEnd:
         ))
         .groupBy(athleteInterventions.coachId, athleteInterventions.membershipId);
 
-    // Also get alert assignments (assuming coaches are assigned to handle specific athletes' alerts)
     const alertAssignments = await db
         .select({
-            coachMembershipId: athleteAlerts.assignedCoachId, // Changed from assignedToId
+            coachMembershipId: athleteAlerts.assignedCoachId,
             athleteMembershipId: athleteAlerts.membershipId,
-            lastAlert: sql<Date>`MAX(${athleteAlerts.createdAt})` // Using createdAt instead of triggeredAt
+            lastAlert: sql<Date>`MAX(${athleteAlerts.createdAt})`
         })
         .from(athleteAlerts)
         .where(and(
             eq(athleteAlerts.boxId, boxId),
             gte(athleteAlerts.createdAt, periodStart),
             lte(athleteAlerts.createdAt, periodEnd),
-            sql`${athleteAlerts.assignedCoachId} IS NOT NULL` // Changed from assignedToId
+            sql`${athleteAlerts.assignedCoachId} IS NOT NULL`
         ))
-        .groupBy(athleteAlerts.assignedCoachId, athleteAlerts.membershipId); // Changed from assignedToId
+        .groupBy(athleteAlerts.assignedCoachId, athleteAlerts.membershipId);
 
-    // Combine and deduplicate assignments
     const assignmentMap = new Map<string, CoachAssignment>();
 
-    coachInteractionData.forEach(item => {
-        const key = `${item.coachMembershipId}-${item.athleteMembershipId}`;
-        assignmentMap.set(key, {
+    for (const item of coachInteractionData) {
+        assignmentMap.set(`${item.coachMembershipId}-${item.athleteMembershipId}`, {
             coachMembershipId: item.coachMembershipId,
             athleteMembershipId: item.athleteMembershipId,
+            role: 'primary',
             assignedAt: item.lastInteraction,
             isActive: true
         });
-    });
+    }
 
-    alertAssignments.forEach(item => {
-        if (!item.coachMembershipId) return;
+    for (const item of alertAssignments) {
+        if (!item.coachMembershipId) continue;
         const key = `${item.coachMembershipId}-${item.athleteMembershipId}`;
         if (!assignmentMap.has(key)) {
             assignmentMap.set(key, {
                 coachMembershipId: item.coachMembershipId,
                 athleteMembershipId: item.athleteMembershipId,
+                role: 'primary',
                 assignedAt: item.lastAlert,
                 isActive: true
             });
         }
-    });
+    }
 
     return Array.from(assignmentMap.values());
 }
@@ -230,6 +268,7 @@ async function calculateAttendanceImpact(
     periodEnd: Date
 ): Promise<number | null> {
     if (athleteMembershipIds.length === 0) return null;
+    const timezone = await getBoxTimezone(boxId);
 
     // Calculate average attendance rate for assigned athletes
     const attendanceData = await db
@@ -242,8 +281,8 @@ async function calculateAttendanceImpact(
         .where(and(
             eq(wodAttendance.boxId, boxId),
             sql`${wodAttendance.membershipId} = ANY(${athleteMembershipIds})`,
-            gte(wodAttendance.attendanceDate, sql`${periodStart}::date`),
-            lte(wodAttendance.attendanceDate, sql`${periodEnd}::date`)
+            gte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodStart, timezone)}::date`),
+            lte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodEnd, timezone)}::date`)
         ))
         .groupBy(wodAttendance.membershipId);
 
@@ -8,6 +8,7 @@ import {
     engagementPatternAnalytics,
 } from "@/db/schema";
 import { eq, and, gte, lte, count, avg, sql } from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone } from "@/lib/dates";
 
 export type PatternType = "weekly" | "monthly" | "seasonal" | "lifecycle";
 
@@ -62,6 +63,7 @@ async function getMemberEngagementData(
     periodStart: Date,
     periodEnd: Date
 ): Promise<MemberEngagementData[]> {
+    const timezone = await getBoxTimezone(boxId);
     // Get all active members in the period
     const members = await db
         .select({
@@ -91,8 +93,8 @@ async function getMemberEngagementData(
             .where(and(
                 eq(wodAttendance.boxId, boxId),
                 eq(wodAttendance.membershipId, member.membershipId),
-                gte(wodAttendance.attendanceDate, sql`${periodStart}::date`),
-                lte(wodAttendance.attendanceDate, sql`${periodEnd}::date`)
+                gte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodStart, timezone)}::date`),
+                lte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodEnd, timezone)}::date`)
             ))
             .groupBy(sql`EXTRACT(WEEK FROM ${wodAttendance.attendanceDate})`, sql`EXTRACT(MONTH FROM ${wodAttendance.attendanceDate})`);
 
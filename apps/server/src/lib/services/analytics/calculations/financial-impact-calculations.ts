@@ -0,0 +1,370 @@
+﻿// src/lib/services/analytics/calculations/financial-impact-calculations.ts
+import { db } from "@/db";
+import {
+    athleteInterventions,
+    athleteRiskScores,
+    boxes,
+    boxMemberships,
+    financialImpactAnalytics,
+    interventionOutcomes,
+    retentionEvents
+} from "@/db/schema";
+import { and, count, desc, eq, gt, gte, isNull, lte, or } from "drizzle-orm";
+import { getBoxTimezone, getPeriodRange, startOfLocalDay } from "@/lib/dates";
+import {
+    calculateExpectedRemainingMonths,
+    calculateKaplanMeier,
+    loadSurvivalSubjects
+} from "./survival-analysis-calculations";
+
+export interface FinancialImpactData {
+    boxId: string;
+    periodStart: Date;
+    periodEnd: Date;
+    totalRevenue: number;
+    revenueFromNewMembers: number;
+    revenueFromRetainedMembers: number;
+    lostRevenueFromChurn: number;
+    churnedMembers: number;
+    revenueAtRisk: number;
+    revenueSavedByInterventions: number;
+    membersRetainedByInterventions: number;
+    estimatedInterventionCosts: number | null;
+    customerAcquisitionCosts: number | null;
+    retentionProgramCosts: number | null;
+    interventionRoi: number | null;
+    retentionProgramRoi: number | null;
+    costPerRetainedMember: number | null;
+    avgCustomerLifetimeValue: number;
+    clvImprovementFromProgram: number | null;
+    calculatedAt: Date;
+}
+
+interface BoxPricing {
+    monthlyMembershipPrice: number;
+    interventionCost: number | null;
+    memberAcquisitionCost: number | null;
+}
+
+// Lifetime is the restricted mean of the box's retention curve over this many months
+const CLV_HORIZON_MONTHS = 60;
+
+// Largest value the decimal(8,2) ROI/cost columns hold
+const MAX_SMALL_DECIMAL = 999999.99;
+
+/**
+ * The box's own pricing, or null when the owner hasn't set a membership price
+ */
+async function getBoxPricing(boxId: string): Promise<BoxPricing | null> {
+    const [box] = await db.select({
+        monthlyMembershipPrice: boxes.monthlyMembershipPrice,
+        interventionCost: boxes.interventionCost,
+        memberAcquisitionCost: boxes.memberAcquisitionCost
+    })
+        .from(boxes)
+        .where(eq(boxes.id, boxId))
+        .limit(1);
+
+    if (!box?.monthlyMembershipPrice) return null;
+
+    return {
+        monthlyMembershipPrice: Number(box.monthlyMembershipPrice),
+        interventionCost: box.interventionCost !== null ? Number(box.interventionCost) : null,
+        memberAcquisitionCost: box.memberAcquisitionCost !== null ? Number(box.memberAcquisitionCost) : null
+    };
+}
+
+/**
+ * Dues collected in the period, prorated by the days each athlete was a member
+ */
+async function calculatePeriodRevenue(
+    boxId: string,
+    periodStart: Date,
+    periodEnd: Date,
+    monthlyPrice: number
+) {
+    const members = await db.select({
+        joinedAt: boxMemberships.joinedAt,
+        leftAt: boxMemberships.leftAt,
+        isActive: boxMemberships.isActive
+    })
+        .from(boxMemberships)
+        .where(and(
+            eq(boxMemberships.boxId, boxId),
+            eq(boxMemberships.role, 'athlete'),
+            lte(boxMemberships.joinedAt, periodEnd),
+            or(isNull(boxMemberships.leftAt), gte(boxMemberships.leftAt, periodStart))
+        ));
+
+    const periodMs = periodEnd.getTime() - periodStart.getTime();
+    let revenueFromNewMembers = 0;
+    let revenueFromRetainedMembers = 0;
+    let newMembers = 0;
+    let activeAtPeriodEnd = 0;
+
+    for (const member of members) {
+        // Inactive without a leftAt has no known end date, so it isn't billed
+        if (!member.isActive && !member.leftAt) continue;
+
+        const start = Math.max(member.joinedAt.getTime(), periodStart.getTime());
+        const end = Math.min(member.leftAt?.getTime() ?? periodEnd.getTime(), periodEnd.getTime());
+        if (end <= start) continue;
+
+        const revenue = monthlyPrice * (end - start) / periodMs;
+
+        if (member.joinedAt >= periodStart) {
+            revenueFromNewMembers += revenue;
+            newMembers++;
+        } else {
+            revenueFromRetainedMembers += revenue;
+        }
+
+        if (!member.leftAt || member.leftAt > periodEnd) activeAtPeriodEnd++;
+    }
+
+    return { revenueFromNewMembers, revenueFromRetainedMembers, newMembers, activeAtPeriodEnd };
+}
+
+/**
+ * Expected monthly dues lost if each athlete who was a member at `asOf` churns with the
+ * probability from their latest risk score still valid then
+ */
+async function calculateRevenueAtRisk(boxId: string, monthlyPrice: number, asOf: Date): Promise<number> {
+    const scores = await db.select({
+        membershipId: athleteRiskScores.membershipId,
+        churnProbability: athleteRiskScores.churnProbability
+    })
+        .from(athleteRiskScores)
+        .innerJoin(boxMemberships, eq(athleteRiskScores.membershipId, boxMemberships.id))
+        .where(and(
+            eq(athleteRiskScores.boxId, boxId),
+            lte(boxMemberships.joinedAt, asOf),
+            or(isNull(boxMemberships.leftAt), gt(boxMemberships.leftAt, asOf)),
+            lte(athleteRiskScores.calculatedAt, asOf),
+            gte(athleteRiskScores.validUntil, asOf)
+        ))
+        .orderBy(desc(athleteRiskScores.calculatedAt));
+
+    // Newest first, so the first score seen per athlete is the one in effect
+    const latest = new Map<string, number>();
+    for (const score of scores) {
+        if (!latest.has(score.membershipId)) {
+            latest.set(score.membershipId, Number(score.churnProbability ?? 0));
+        }
+    }
+
+    return [...latest.values()].reduce((sum, probability) => sum + probability * monthlyPrice, 0);
+}
+
+/**
+ * Revenue kept by interventions whose outcomes were measured in the period. A positive
+ * outcome for an athlete still with the box is credited with its drop in churn risk
+ * (risk points out of 100) times the box's average lifetime value.
+ */
+async function calculateInterventionSavings(
+    boxId: string,
+    periodStart: Date,
+    periodEnd: Date,
+    lifetimeValue: number
+) {
+    const outcomes = await db.select({
+        interventionId: interventionOutcomes.interventionId,
+        membershipId: interventionOutcomes.membershipId,
+        riskScoreChange: interventionOutcomes.riskScoreChange,
+        overallEffectiveness: interventionOutcomes.overallEffectiveness,
+        isActive: boxMemberships.isActive,
+        leftAt: boxMemberships.leftAt
+    })
+        .from(interventionOutcomes)
+        .innerJoin(boxMemberships, eq(interventionOutcomes.membershipId, boxMemberships.id))
+        .where(and(
+            eq(interventionOutcomes.boxId, boxId),
+            gte(interventionOutcomes.measuredAt, periodStart),
+            lte(interventionOutcomes.measuredAt, periodEnd)
+        ));
+
+    let revenueSaved = 0;
+    const retainedMembers = new Set<string>();
+
+    for (const outcome of outcomes) {
+        const retained = outcome.isActive || (outcome.leftAt !== null && outcome.leftAt > periodEnd);
+        if (outcome.overallEffectiveness !== 'positive' || !retained) continue;
+
+        // riskScoreChange is pre minus post, so positive means risk went down
+        const riskReduction = Math.min(Math.max(Number(outcome.riskScoreChange ?? 0), 0), 100) / 100;
+        revenueSaved += riskReduction * lifetimeValue;
+        retainedMembers.add(outcome.membershipId);
+    }
+
+    return {
+        revenueSaved,
+        membersRetained: retainedMembers.size,
+        measuredInterventions: new Set(outcomes.map(outcome => outcome.interventionId)).size
+    };
+}
+
+/**
+ * Financial impact of retention for one period, or null when the box has no pricing
+ */
+export async function calculateFinancialImpact(
+    boxId: string,
+    periodStart: Date,
+    periodEnd: Date
+): Promise<FinancialImpactData | null> {
+    const pricing = await getBoxPricing(boxId);
+    if (!pricing) return null;
+
+    const price = pricing.monthlyMembershipPrice;
+
+    // Point-in-time figures (revenue at risk, lifetime value) are taken at the end of the
+    // period, or now while it's still running, so recalculating a past month gives the same answer
+    const asOf = new Date(Math.min(periodEnd.getTime(), Date.now()));
+
+    const [revenue, churnEvents, interventionsLogged, subjects, revenueAtRisk] = await Promise.all([
+        calculatePeriodRevenue(boxId, periodStart, periodEnd, price),
+        db.select({ count: count() })
+            .from(retentionEvents)
+            .where(and(
+                eq(retentionEvents.boxId, boxId),
+                eq(retentionEvents.eventType, 'churn'),
+                gte(retentionEvents.eventDate, periodStart),
+                lte(retentionEvents.eventDate, periodEnd)
+            )),
+        db.select({ count: count() })
+            .from(athleteInterventions)
+            .where(and(
+                eq(athleteInterventions.boxId, boxId),
+                gte(athleteInterventions.interventionDate, periodStart),
+                lte(athleteInterventions.interventionDate, periodEnd)
+            )),
+        loadSurvivalSubjects(boxId, asOf),
+        calculateRevenueAtRisk(boxId, price, asOf)
+    ]);
+
+    const retentionCurve = calculateKaplanMeier(subjects, CLV_HORIZON_MONTHS);
+    const lifetimeMonths = calculateExpectedRemainingMonths(retentionCurve.points.map(point => point.survival));
+    const avgCustomerLifetimeValue = price * lifetimeMonths;
+
+    const savings = await calculateInterventionSavings(boxId, periodStart, periodEnd, avgCustomerLifetimeValue);
+
+    const churnedMembers = churnEvents[0]?.count ?? 0;
+    const interventionCost = pricing.interventionCost;
+
+    // ROI is judged on the interventions whose outcomes landed this period; the program
+    // cost is everything coaches spent on interventions during it
+    const estimatedInterventionCosts = interventionCost !== null ? savings.measuredInterventions * interventionCost : null;
+    const retentionProgramCosts = interventionCost !== null ? (interventionsLogged[0]?.count ?? 0) * interventionCost : null;
+
+    return {
+        boxId,
+        periodStart,
+        periodEnd,
+        totalRevenue: revenue.revenueFromNewMembers + revenue.revenueFromRetainedMembers,
+        revenueFromNewMembers: revenue.revenueFromNewMembers,
+        revenueFromRetainedMembers: revenue.revenueFromRetainedMembers,
+        lostRevenueFromChurn: churnedMembers * price,
+        churnedMembers,
+        revenueAtRisk,
+        revenueSavedByInterventions: savings.revenueSaved,
+        membersRetainedByInterventions: savings.membersRetained,
+        estimatedInterventionCosts,
+        customerAcquisitionCosts: pricing.memberAcquisitionCost !== null
+            ? revenue.newMembers * pricing.memberAcquisitionCost
+            : null,
+        retentionProgramCosts,
+        interventionRoi: calculateRoi(savings.revenueSaved, estimatedInterventionCosts),
+        retentionProgramRoi: calculateRoi(savings.revenueSaved, retentionProgramCosts),
+        costPerRetainedMember: retentionProgramCosts !== null && savings.membersRetained > 0
+            ? retentionProgramCosts / savings.membersRetained
+            : null,
+        avgCustomerLifetimeValue,
+        // Savings spread over the membership: how much the program adds to the average CLV
+        clvImprovementFromProgram: revenue.activeAtPeriodEnd > 0
+            ? savings.revenueSaved / revenue.activeAtPeriodEnd
+            : null,
+        calculatedAt: new Date()
+    };
+}
+
+/**
+ * Calculate and store financial impact for a calendar month given as YYYY-MM
+ * (the last complete month by default)
+ */
+export async function processFinancialImpactAnalytics(boxId: string, month?: string) {
+    try {
+        // Months follow the box's calendar; the default reference is the last instant of the previous month
+        const timezone = await getBoxTimezone(boxId);
+        const reference = month
+            ? startOfLocalDay(`${month}-01`, timezone)
+            : new Date(getPeriodRange('monthly', timezone).start.getTime() - 1);
+        const { start: periodStart, end, startDate } = getPeriodRange('monthly', timezone, reference);
+        const periodEnd = new Date(end.getTime() - 1);
+
+        console.log(`[Analytics] Processing financial impact for box ${boxId}, ${startDate}`);
+
+        const impact = await calculateFinancialImpact(boxId, periodStart, periodEnd);
+
+        if (!impact) {
+            console.log(`[Analytics] Skipping financial impact for box ${boxId}: no membership price set`);
+            return { boxId, periodStart, periodEnd, skipped: true, impact: null };
+        }
+
+        const values = {
+            totalRevenue: toMoney(impact.totalRevenue),
+            revenueFromNewMembers: toMoney(impact.revenueFromNewMembers),
+            revenueFromRetainedMembers: toMoney(impact.revenueFromRetainedMembers),
+            lostRevenueFromChurn: toMoney(impact.lostRevenueFromChurn),
+            churnedMembers: impact.churnedMembers,
+            revenueAtRisk: toMoney(impact.revenueAtRisk),
+            revenueSavedByInterventions: toMoney(impact.revenueSavedByInterventions),
+            membersRetainedByInterventions: impact.membersRetainedByInterventions,
+            estimatedInterventionCosts: toSmallMoney(impact.estimatedInterventionCosts),
+            customerAcquisitionCosts: toSmallMoney(impact.customerAcquisitionCosts),
+            retentionProgramCosts: toSmallMoney(impact.retentionProgramCosts),
+            interventionRoi: toSmallMoney(impact.interventionRoi),
+            retentionProgramRoi: toSmallMoney(impact.retentionProgramRoi),
+            costPerRetainedMember: toSmallMoney(impact.costPerRetainedMember),
+            avgCustomerLifetimeValue: toMoney(impact.avgCustomerLifetimeValue),
+            clvImprovementFromProgram: impact.clvImprovementFromProgram !== null
+                ? toMoney(impact.clvImprovementFromProgram)
+                : null,
+            periodEnd: impact.periodEnd,
+            calculatedAt: impact.calculatedAt
+        };
+
+        await db.insert(financialImpactAnalytics)
+            .values({
+                boxId,
+                periodStart: impact.periodStart,
+                ...values
+            })
+            .onConflictDoUpdate({
+                target: [financialImpactAnalytics.boxId, financialImpactAnalytics.periodStart],
+                set: values
+            });
+
+        console.log(`[Analytics] Financial impact for box ${boxId}: revenue ${values.totalRevenue}, at risk ${values.revenueAtRisk}, saved ${values.revenueSavedByInterventions}`);
+
+        return { boxId, periodStart, periodEnd, skipped: false, impact };
+    } catch (error) {
+        console.error(`[Analytics] Error processing financial impact for box ${boxId}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Return on cost as a percentage, null without a cost to measure against
+ */
+function calculateRoi(returns: number, cost: number | null): number | null {
+    if (cost === null || cost <= 0) return null;
+    return ((returns - cost) / cost) * 100;
+}
+
+function toMoney(value: number): string {
+    return (Math.round(value * 100) / 100).toFixed(2);
+}
+
+function toSmallMoney(value: number | null): string | null {
+    if (value === null) return null;
+    return toMoney(Math.min(Math.max(value, -MAX_SMALL_DECIMAL), MAX_SMALL_DECIMAL));
+}
@@ -1,7 +1,8 @@
 ﻿// src/lib/services/analytics/calculations/index.ts
 export { updateBoxCurrentCounts } from './box-count-calculations';
 export { cleanupExpiredRiskScores, recalculateAllRiskScoresForBox } from './risk-score-calculations';
-export { processAthleteAlertsForBox } from './alert-calculations';
+export { processChurnModelBacktest } from './churn-backtest-calculations';
+export { processAthleteAlertsForBox, processTrainingLoadAlertsForBox } from './alert-calculations';
 export { processAlertEffectiveness } from './alert-effectiveness-calculations';
 export { processAutoEscalations } from './alert-escalations-calculations';
 export { processBoxAnalyticsSnapshot } from './box-analytics-calculations';
@@ -16,3 +17,4 @@ export { getBoxRiskFactorAnalytics } from './risk-factor-history-calculations';
 export { processWellnessPerformanceCorrelations } from './wellness-performance-calculations';
 export { processSeasonalAnalytics } from './seasonal-analytics-calculations';
 export { processEngagementPatternAnalytics } from './engagement-pattern-analytics-calculations';
+export { processFinancialImpactAnalytics } from './financial-impact-calculations';
@@ -11,6 +11,7 @@ import {
     interventionOutcomes
 } from "@/db/schema";
 import { eq, and, gte, lte, count, sql, avg } from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone } from "@/lib/dates";
 
 export interface InterventionOutcomeData {
     interventionId: string;
@@ -57,6 +58,7 @@ async function getPreInterventionMetrics(
     interventionDate: Date,
     lookbackDays: number = 30
 ): Promise<PreInterventionMetrics> {
+    const timezone = await getBoxTimezone(boxId);
     const preStart = new Date(interventionDate);
     preStart.setDate(preStart.getDate() - lookbackDays);
     const preEnd = new Date(interventionDate);
@@ -85,8 +87,8 @@ async function getPreInterventionMetrics(
         .where(and(
             eq(wodAttendance.membershipId, membershipId),
             eq(wodAttendance.boxId, boxId),
-            gte(wodAttendance.attendanceDate, sql`${preStart}::date`),
-            lte(wodAttendance.attendanceDate, sql`${preEnd}::date`)
+            gte(wodAttendance.attendanceDate, sql`${formatLocalDate(preStart, timezone)}::date`),
+            lte(wodAttendance.attendanceDate, sql`${formatLocalDate(preEnd, timezone)}::date`)
         ));
 
     const attendanceRate = attendance[0]?.total > 0
@@ -170,6 +172,7 @@ async function getPostInterventionMetrics(
     interventionDate: Date,
     measurementPeriodDays: number = 30
 ): Promise<PostInterventionMetrics> {
+    const timezone = await getBoxTimezone(boxId);
     const postStart = new Date(interventionDate);
     postStart.setDate(postStart.getDate() + 1); // Day after intervention
     const postEnd = new Date(interventionDate);
@@ -199,8 +202,8 @@ async function getPostInterventionMetrics(
         .where(and(
             eq(wodAttendance.membershipId, membershipId),
             eq(wodAttendance.boxId, boxId),
-            gte(wodAttendance.attendanceDate, sql`${postStart}::date`),
-            lte(wodAttendance.attendanceDate, sql`${postEnd}::date`)
+            gte(wodAttendance.attendanceDate, sql`${formatLocalDate(postStart, timezone)}::date`),
+            lte(wodAttendance.attendanceDate, sql`${formatLocalDate(postEnd, timezone)}::date`)
         ));
 
     const attendanceRate = attendance[0]?.total > 0
@@ -0,0 +1,100 @@
+﻿// src/lib/services/analytics/calculations/logistic-regression-calculations.ts
+
+const LEARNING_RATE = 0.1;
+const L2_PENALTY = 0.01;
+
+/**
+ * Coefficients learned on standardized inputs, plus the standardization to apply before predicting
+ */
+export interface LogisticRegressionFit {
+    coefficients: number[];
+    intercept: number;
+    means: number[];
+    stds: number[];
+}
+
+export interface LogisticRegressionOptions {
+    iterations: number;
+    // Weight on positive labels, for rare outcomes the fit would otherwise learn to never predict
+    positiveWeight?: number;
+}
+
+/**
+ * Fit a logistic regression by gradient descent with an L2 penalty. Inputs are standardized
+ * first; labels are 1 or 0 and both must occur. The intercept is corrected for positiveWeight,
+ * so predictions stay calibrated probabilities.
+ */
+export function fitLogisticRegression(
+    inputs: number[][],
+    labels: number[],
+    options: LogisticRegressionOptions
+): LogisticRegressionFit {
+    const featureCount = inputs[0]?.length ?? 0;
+    const positiveWeight = options.positiveWeight ?? 1;
+    const positives = labels.filter(label => label === 1).length;
+
+    const means = Array.from({ length: featureCount }, (_, j) => inputs.reduce((sum, row) => sum + row[j], 0) / inputs.length);
+    const stds = Array.from({ length: featureCount }, (_, j) => {
+        const variance = inputs.reduce((sum, row) => sum + (row[j] - means[j]) ** 2, 0) / inputs.length;
+        return Math.sqrt(variance) || 1;
+    });
+    const standardized = inputs.map(row => standardize(row, means, stds));
+
+    const coefficients = new Array<number>(featureCount).fill(0);
+    let intercept = Math.log(positives / (inputs.length - positives));
+
+    for (let iteration = 0; iteration < options.iterations; iteration++) {
+        const gradient = new Array<number>(featureCount).fill(0);
+        let interceptGradient = 0;
+        let totalWeight = 0;
+
+        for (let i = 0; i < standardized.length; i++) {
+            const weight = labels[i] === 1 ? positiveWeight : 1;
+            const error = (sigmoid(intercept + dot(coefficients, standardized[i])) - labels[i]) * weight;
+            for (let j = 0; j < featureCount; j++) {
+                gradient[j] += error * standardized[i][j];
+            }
+            interceptGradient += error;
+            totalWeight += weight;
+        }
+
+        for (let j = 0; j < featureCount; j++) {
+            coefficients[j] -= LEARNING_RATE * (gradient[j] / totalWeight + L2_PENALTY * coefficients[j]);
+        }
+        intercept -= LEARNING_RATE * (interceptGradient / totalWeight);
+    }
+
+    // Weighting positives by w inflates the learned odds by w; take it back out of the intercept
+    intercept -= Math.log(positiveWeight);
+
+    return {
+        coefficients: coefficients.map(value => round(value, 6)),
+        intercept: round(intercept, 6),
+        means: means.map(value => round(value, 6)),
+        stds: stds.map(value => round(value, 6))
+    };
+}
+
+/**
+ * Probability of a positive label for raw (unstandardized) inputs
+ */
+export function predictLogisticRegression(fit: LogisticRegressionFit, inputs: number[]): number {
+    return sigmoid(fit.intercept + dot(fit.coefficients, standardize(inputs, fit.means, fit.stds)));
+}
+
+export function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+function standardize(inputs: number[], means: number[], stds: number[]): number[] {
+    return inputs.map((value, j) => (value - means[j]) / (stds[j] || 1));
+}
+
+function sigmoid(value: number): number {
+    return 1 / (1 + Math.exp(-value));
+}
+
+function dot(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
@@ -11,6 +11,8 @@ import {
     benchmarkWods
 } from "@/db/schema";
 import {eq, and, gte, count, sql, desc, lt} from "drizzle-orm";
+import { benchmarkTypeToScoringType, formatScoreValue } from "@/lib/services/athlete/workout-score";
+import { daysBetween, formatLocalDate, getBoxTimezone } from "@/lib/dates";
 
 export interface MilestoneData {
     membershipId: string;
@@ -45,6 +47,9 @@ export async function detectNewMilestones(
 
     console.log(`[Milestones] Detecting milestones for box ${boxId} since ${cutoffDate.toISOString()}`);
 
+    // Attendance dates are the box's calendar days
+    const timezone = await getBoxTimezone(boxId);
+
     const detectedMilestones: MilestoneData[] = [];
 
     // Get all active athletes
@@ -75,11 +80,11 @@ export async function detectNewMilestones(
             detectedMilestones.push(...benchmarkMilestones);
 
             // 3. Attendance Milestones
-            const attendanceMilestones = await detectAttendanceMilestones(athlete, cutoffDate, lookbackDays);
+            const attendanceMilestones = await detectAttendanceMilestones(athlete, cutoffDate, lookbackDays, timezone);
             detectedMilestones.push(...attendanceMilestones);
 
             // 4. Consistency Milestones
-            const consistencyMilestones = await detectConsistencyMilestones(athlete, cutoffDate);
+            const consistencyMilestones = await detectConsistencyMilestones(athlete, cutoffDate, timezone);
             detectedMilestones.push(...consistencyMilestones);
 
             // 5. Community Milestones
@@ -248,6 +253,9 @@ async function detectBenchmarkMilestones(
             benchmarkId: athleteBenchmarks.benchmarkId,
             value: athleteBenchmarks.value,
             valueType: athleteBenchmarks.valueType,
+            rawScore: athleteBenchmarks.rawScore,
+            sortDirection: athleteBenchmarks.sortDirection,
+            isCapped: athleteBenchmarks.isCapped,
             achievedAt: athleteBenchmarks.achievedAt,
             benchmarkName: benchmarkWods.name,
             benchmarkCategory: benchmarkWods.category
@@ -265,6 +273,8 @@ async function detectBenchmarkMilestones(
         const previousResults = await db
             .select({
                 value: athleteBenchmarks.value,
+                rawScore: athleteBenchmarks.rawScore,
+                isCapped: athleteBenchmarks.isCapped,
                 achievedAt: athleteBenchmarks.achievedAt
             })
             .from(athleteBenchmarks)
@@ -283,20 +293,18 @@ async function detectBenchmarkMilestones(
         let improvementPercent: number | undefined;
         let isSignificantImprovement = false;
 
-        if (previousValue && benchmark.valueType === 'time') {
+        if (previousValue && benchmark.sortDirection === 'asc') {
             // For time-based benchmarks, lower is better
             improvementPercent = ((previousValue - currentValue) / previousValue) * 100;
             isSignificantImprovement = improvementPercent >= 2; // 2% time improvement
-        } else if (previousValue && benchmark.valueType !== 'time') {
-            // For reps/rounds, higher is better
+        } else if (previousValue) {
+            // For reps/rounds/load, higher is better
             improvementPercent = ((currentValue - previousValue) / previousValue) * 100;
             isSignificantImprovement = improvementPercent >= 5; // 5% improvement
         }
 
         if (isFirstAttempt || isSignificantImprovement) {
-            const timeDisplay = benchmark.valueType === 'time'
-                ? formatTime(currentValue)
-                : `${currentValue} ${benchmark.valueType === 'rounds_reps' ? 'rounds+reps' : 'reps'}`;
+            const timeDisplay = formatBenchmarkValue(benchmark.valueType, currentValue, benchmark.rawScore, benchmark.isCapped);
 
             const milestone: MilestoneData = {
                 membershipId: athlete.membershipId,
@@ -312,7 +320,9 @@ async function detectBenchmarkMilestones(
                     }`,
                 category: benchmark.benchmarkCategory,
                 value: timeDisplay,
-                previousValue: previousValue ? (benchmark.valueType === 'time' ? formatTime(previousValue) : previousValue.toString()) : undefined,
+                previousValue: previousValue
+                    ? formatBenchmarkValue(benchmark.valueType, previousValue, previousResults[0].rawScore, previousResults[0].isCapped)
+                    : undefined,
                 improvementPercent: improvementPercent ? Math.round(improvementPercent * 100) / 100 : undefined,
                 achievedAt: benchmark.achievedAt
             };
@@ -330,7 +340,8 @@ async function detectBenchmarkMilestones(
 async function detectAttendanceMilestones(
     athlete: { membershipId: string; athleteName: string; joinedAt: Date },
     cutoffDate: Date,
-    lookbackDays: number
+    lookbackDays: number,
+    timezone: string
 ): Promise<MilestoneData[]> {
     const milestones: MilestoneData[] = [];
 
@@ -354,7 +365,7 @@ async function detectAttendanceMilestones(
             const lookbackCutoff = new Date();
             lookbackCutoff.setDate(lookbackCutoff.getDate() - lookbackDays);
 
-            const lookbackCutoffStr = lookbackCutoff.toISOString().split("T")[0];
+            const lookbackCutoffStr = formatLocalDate(lookbackCutoff, timezone);
 
             const recentAttendanceForMilestone = await db
                 .select({ count: count() })
@@ -392,7 +403,8 @@ async function detectAttendanceMilestones(
  */
 async function detectConsistencyMilestones(
     athlete: { membershipId: string; athleteName: string; joinedAt: Date },
-    cutoffDate: Date
+    cutoffDate: Date,
+    timezone: string
 ): Promise<MilestoneData[]> {
     const milestones: MilestoneData[] = [];
 
@@ -441,15 +453,16 @@ async function detectConsistencyMilestones(
         .where(and(
             eq(wodAttendance.membershipId, athlete.membershipId),
             eq(wodAttendance.status, 'attended'),
-            gte(wodAttendance.attendanceDate, sql`${fourWeeksAgo}::date`)
+            gte(wodAttendance.attendanceDate, sql`${formatLocalDate(fourWeeksAgo, timezone)}::date`)
         ))
         .groupBy(wodAttendance.attendanceDate)
         .orderBy(desc(wodAttendance.attendanceDate));
 
     // Calculate weekly attendance
     const weeklyAttendance = new Array(4).fill(0);
+    const today = formatLocalDate(new Date(), timezone);
     recentAttendance.forEach(({ attendanceDate }) => {
-        const daysAgo = Math.floor((new Date().getTime() - new Date(attendanceDate).getTime()) / (1000 * 60 * 60 * 24));
+        const daysAgo = daysBetween(attendanceDate, today);
         const weekIndex = Math.floor(daysAgo / 7);
         if (weekIndex < 4) {
             weeklyAttendance[weekIndex]++;
@@ -553,20 +566,13 @@ async function detectCommunityMilestones(
 }
 
 /**
- * Format time in seconds to readable format
+ * Format a benchmark result, preferring the score as the athlete entered it
  */
-function formatTime(seconds: number): string {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = Math.floor(seconds % 60);
-    const milliseconds = Math.floor((seconds % 1) * 100);
-
-    if (minutes > 0) {
-        return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-    } else {
-        return milliseconds > 0
-            ? `${remainingSeconds}.${milliseconds.toString().padStart(2, '0')}`
-            : `${remainingSeconds}s`;
-    }
+function formatBenchmarkValue(valueType: string, value: number, rawScore: string | null, isCapped: boolean): string {
+    if (rawScore) return rawScore;
+
+    const scoreType = benchmarkTypeToScoringType(valueType);
+    return scoreType ? formatScoreValue(scoreType, value, { isCapped }) : value.toString();
 }
 
 /**
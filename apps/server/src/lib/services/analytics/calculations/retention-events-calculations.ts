@@ -7,6 +7,7 @@ import {
     wodAttendance
 } from "@/db/schema";
 import { eq, and, gte, lte, count, sql } from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone } from "@/lib/dates";
 
 export interface RetentionEventData {
     boxId: string;
@@ -39,6 +40,7 @@ async function getAthleteActivityData(
     boxId: string,
     lookbackDays: number = 30
 ): Promise<AthleteActivityData[]> {
+    const timezone = await getBoxTimezone(boxId);
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - lookbackDays);
 
@@ -87,7 +89,7 @@ async function getAthleteActivityData(
             .from(wodAttendance)
             .where(and(
                 eq(wodAttendance.membershipId, athlete.membershipId),
-                gte(wodAttendance.attendanceDate, sql`${cutoffDate}::date`)
+                gte(wodAttendance.attendanceDate, sql`${formatLocalDate(cutoffDate, timezone)}::date`)
             ));
 
         const recentAttendanceRate = recentAttendance[0]?.total > 0
@@ -128,6 +130,7 @@ export async function detectRetentionEvents(
     boxId: string,
     lookbackDays: number = 7
 ): Promise<RetentionEventData[]> {
+    const timezone = await getBoxTimezone(boxId);
     const activityData = await getAthleteActivityData(boxId, 30);
     const events: RetentionEventData[] = [];
     const now = new Date();
@@ -270,8 +273,8 @@ export async function detectRetentionEvents(
                     .from(wodAttendance)
                     .where(and(
                         eq(wodAttendance.membershipId, athlete.membershipId),
-                        lte(wodAttendance.attendanceDate, sql`${twoWeeksAgo}::date`),
-                        gte(wodAttendance.attendanceDate, sql`(${twoWeeksAgo}::date - interval '30 days')`)
+                        lte(wodAttendance.attendanceDate, sql`${formatLocalDate(twoWeeksAgo, timezone)}::date`),
+                        gte(wodAttendance.attendanceDate, sql`(${formatLocalDate(twoWeeksAgo, timezone)}::date - interval '30 days')`)
                     ));
 
                 const olderAttendanceRate = olderAttendance[0]?.total > 0
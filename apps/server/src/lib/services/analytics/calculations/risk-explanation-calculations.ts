@@ -0,0 +1,203 @@
+﻿// src/lib/services/analytics/calculations/risk-explanation-calculations.ts
+import { db } from "@/db";
+import { athleteRiskScores, riskFactorHistory } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { calculateRiskFactors, type RiskFactorData } from "./risk-factor-history-calculations";
+import type { AthleteRiskScoreData } from "./risk-score-calculations";
+import type { RiskLevel } from "./risk-scoring-config-calculations";
+import type {
+    RiskExplanation,
+    RiskExplanationFactor,
+    RiskFactorSeverity,
+    RiskScoreChange,
+    RiskScoreDirection
+} from "@/db/schema/types";
+
+export interface PreviousRiskScore {
+    id: string;
+    overallRiskScore: number;
+    riskLevel: RiskLevel;
+    calculatedAt: Date;
+}
+
+const MAX_EXPLAINED_FACTORS = 3;
+
+// Score moves smaller than this are reported as unchanged
+const SCORE_CHANGE_TOLERANCE = 1;
+
+/**
+ * The athlete's current stored risk score, read before it gets overwritten
+ */
+export async function getPreviousRiskScore(membershipId: string): Promise<PreviousRiskScore | null> {
+    const [previous] = await db.select({
+        id: athleteRiskScores.id,
+        overallRiskScore: athleteRiskScores.overallRiskScore,
+        riskLevel: athleteRiskScores.riskLevel,
+        calculatedAt: athleteRiskScores.calculatedAt
+    })
+        .from(athleteRiskScores)
+        .where(eq(athleteRiskScores.membershipId, membershipId))
+        .limit(1);
+
+    if (!previous) return null;
+
+    return {
+        ...previous,
+        overallRiskScore: Number(previous.overallRiskScore)
+    };
+}
+
+/**
+ * Record the risk factors behind a stored score and attach the explanation built from them
+ */
+export async function explainRiskScore(
+    riskScoreId: string,
+    riskScore: AthleteRiskScoreData,
+    previous: PreviousRiskScore | null
+): Promise<RiskExplanation> {
+    const [factors, previousFactorTypes] = await Promise.all([
+        calculateRiskFactors(riskScoreId, riskScore.membershipId, riskScore.boxId, riskScore.calculatedAt),
+        previous ? getFactorTypesAt(previous.id, previous.calculatedAt) : Promise.resolve([])
+    ]);
+
+    const explanation = buildRiskExplanation(riskScore, factors, previous, previousFactorTypes);
+
+    await db.update(athleteRiskScores)
+        .set({ explanation })
+        .where(eq(athleteRiskScores.id, riskScoreId));
+
+    return explanation;
+}
+
+/**
+ * Rank factors by the risk they add and compare against the previous score
+ */
+export function buildRiskExplanation(
+    riskScore: AthleteRiskScoreData,
+    factors: RiskFactorData[],
+    previous: PreviousRiskScore | null,
+    previousFactorTypes: string[]
+): RiskExplanation {
+    const ranked = factors
+        .map(factor => ({ factor, contribution: Math.abs(factor.contribution) }))
+        .sort((a, b) => b.contribution - a.contribution);
+    const totalContribution = ranked.reduce((sum, f) => sum + f.contribution, 0);
+
+    const topFactors = ranked.slice(0, MAX_EXPLAINED_FACTORS).map(({ factor, contribution }) => ({
+        factorType: factor.factorType,
+        severity: (factor.metadata?.severity ?? 'minor') as RiskFactorSeverity,
+        contribution: Math.round(contribution * 100) / 100,
+        share: totalContribution > 0 ? Math.round((contribution / totalContribution) * 100) / 100 : 0,
+        description: factor.description,
+        evidence: describeEvidence(factor)
+    }));
+
+    const currentFactorTypes = factors.map(f => f.factorType);
+    const change = describeChange(riskScore, previous, previousFactorTypes, currentFactorTypes);
+
+    return {
+        summary: summarize(riskScore, topFactors, change),
+        topFactors,
+        factorCount: factors.length,
+        change,
+        modelName: riskScore.modelName,
+        modelVersion: riskScore.modelVersion,
+        generatedAt: riskScore.calculatedAt.toISOString()
+    };
+}
+
+/**
+ * Factor types recorded for a score calculation (factors share the score's calculatedAt)
+ */
+async function getFactorTypesAt(riskScoreId: string, calculatedAt: Date): Promise<string[]> {
+    const rows = await db.select({ factorType: riskFactorHistory.factorType })
+        .from(riskFactorHistory)
+        .where(and(
+            eq(riskFactorHistory.riskScoreId, riskScoreId),
+            eq(riskFactorHistory.createdAt, calculatedAt)
+        ));
+
+    return rows.map(row => row.factorType);
+}
+
+function describeChange(
+    riskScore: AthleteRiskScoreData,
+    previous: PreviousRiskScore | null,
+    previousFactorTypes: string[],
+    currentFactorTypes: string[]
+): RiskScoreChange {
+    if (!previous) {
+        return {
+            direction: 'first_score',
+            previousScore: null,
+            previousRiskLevel: null,
+            previousCalculatedAt: null,
+            scoreDelta: null,
+            riskLevelChanged: false,
+            newFactors: currentFactorTypes,
+            resolvedFactors: []
+        };
+    }
+
+    const scoreDelta = Math.round((riskScore.overallRiskScore - previous.overallRiskScore) * 100) / 100;
+
+    let direction: RiskScoreDirection = 'unchanged';
+    if (scoreDelta >= SCORE_CHANGE_TOLERANCE) direction = 'increased';
+    else if (scoreDelta <= -SCORE_CHANGE_TOLERANCE) direction = 'decreased';
+
+    return {
+        direction,
+        previousScore: previous.overallRiskScore,
+        previousRiskLevel: previous.riskLevel,
+        previousCalculatedAt: previous.calculatedAt.toISOString(),
+        scoreDelta,
+        riskLevelChanged: previous.riskLevel !== riskScore.riskLevel,
+        newFactors: currentFactorTypes.filter(type => !previousFactorTypes.includes(type)),
+        resolvedFactors: previousFactorTypes.filter(type => !currentFactorTypes.includes(type))
+    };
+}
+
+/**
+ * The raw numbers behind a factor, from the metadata calculateRiskFactors records
+ */
+function describeEvidence(factor: RiskFactorData): string {
+    const metadata = factor.metadata ?? {};
+
+    switch (factor.factorType) {
+        case 'attendance_decline':
+            return `${metadata.currentAttended} classes attended in last 30 days vs ${metadata.previousAttended} in the previous 30`;
+        case 'wellness_deterioration':
+            return `Wellness averaged ${Number(metadata.currentScore).toFixed(1)}/10 in last 30 days vs ${Number(metadata.previousScore).toFixed(1)}/10 in the previous 30`;
+        case 'performance_stagnation':
+            if (metadata.daysSinceLastAchievement === null) return 'No PRs or benchmark results recorded';
+            return `Last ${metadata.lastAchievementType === 'pr' ? 'PR' : 'benchmark result'} ${metadata.daysSinceLastAchievement} days ago (${String(metadata.lastAchievementDate).slice(0, 10)})`;
+        case 'engagement_drop':
+            return `${metadata.currentCheckins} wellness check-ins in last 30 days vs ${metadata.previousCheckins} in the previous 30`;
+        case 'checkin_inconsistency':
+            if (metadata.daysSinceLastCheckin === null) return 'No wellness check-ins recorded';
+            return `Last wellness check-in ${metadata.daysSinceLastCheckin} days ago`;
+        default:
+            return factor.description;
+    }
+}
+
+function summarize(
+    riskScore: AthleteRiskScoreData,
+    topFactors: RiskExplanationFactor[],
+    change: RiskScoreChange
+): string {
+    let summary = `${riskScore.riskLevel} risk (${riskScore.overallRiskScore.toFixed(0)}/100)`;
+
+    if (change.scoreDelta !== null && change.direction !== 'unchanged') {
+        summary += `, ${change.scoreDelta > 0 ? 'up' : 'down'} ${Math.abs(change.scoreDelta).toFixed(0)} since the last score`;
+    } else if (change.direction === 'unchanged') {
+        summary += ', unchanged since the last score';
+    }
+
+    if (topFactors.length === 0) {
+        return `${summary}. No declining factors detected.`;
+    }
+
+    const drivers = topFactors.map(f => f.factorType.replace(/_/g, ' ')).join(', ');
+    return `${summary}. Main drivers: ${drivers}.`;
+}
@@ -10,6 +10,7 @@ import {
 } from "@/db/schema";
 import {eq, and, gte, lte, count, sql, avg, desc, lt} from "drizzle-orm";
 import { riskLevelEnum } from "@/db/schema/enums";
+import { formatLocalDate, getBoxTimezone } from "@/lib/dates";
 
 type RiskLevelEnum = typeof riskLevelEnum.enumValues[number];
 
@@ -105,6 +106,7 @@ async function calculateAttendanceDeclineFactor(
     boxId: string,
     currentDate: Date
 ): Promise<PartialRiskFactorData | null> {
+    const timezone = await getBoxTimezone(boxId);
     const thirtyDaysAgo = new Date(currentDate);
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
@@ -121,8 +123,8 @@ async function calculateAttendanceDeclineFactor(
             .where(and(
                 eq(wodAttendance.membershipId, membershipId),
                 eq(wodAttendance.boxId, boxId),
-                gte(wodAttendance.attendanceDate, sql`${thirtyDaysAgo}::date`),
-                lte(wodAttendance.attendanceDate, sql`${currentDate}::date`)
+                gte(wodAttendance.attendanceDate, sql`${formatLocalDate(thirtyDaysAgo, timezone)}::date`),
+                lte(wodAttendance.attendanceDate, sql`${formatLocalDate(currentDate, timezone)}::date`)
             )),
 
         db.select({
@@ -133,8 +135,8 @@ async function calculateAttendanceDeclineFactor(
             .where(and(
                 eq(wodAttendance.membershipId, membershipId),
                 eq(wodAttendance.boxId, boxId),
-                gte(wodAttendance.attendanceDate, sql`${sixtyDaysAgo}::date`),
-                lt(wodAttendance.attendanceDate, sql`${thirtyDaysAgo}::date`)
+                gte(wodAttendance.attendanceDate, sql`${formatLocalDate(sixtyDaysAgo, timezone)}::date`),
+                lt(wodAttendance.attendanceDate, sql`${formatLocalDate(thirtyDaysAgo, timezone)}::date`)
             ))
     ]);
 
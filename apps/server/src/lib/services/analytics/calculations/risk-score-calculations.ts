@@ -6,9 +6,24 @@ import {
     athletePrs,
     athleteBenchmarks,
     athleteRiskScores,
+    challengeHabitLogs,
     wodAttendance,
 } from "@/db/schema";
 import { eq, and, gte, count, sql, avg, lte, desc } from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone, localDateSql } from "@/lib/dates";
+import {
+    loadBoxChurnModels,
+    predictChurn,
+    recordChurnPredictions,
+    type ChurnFeatures,
+    type ResolvedChurnModel
+} from "./churn-model-calculations";
+import {
+    getRiskLevel,
+    loadRiskScoringConfig,
+    type RiskScoringConfig
+} from "./risk-scoring-config-calculations";
+import { explainRiskScore, getPreviousRiskScore } from "./risk-explanation-calculations";
 
 export interface AthleteRiskScoreData {
     boxId: string;
@@ -28,24 +43,51 @@ export interface AthleteRiskScoreData {
     daysSinceLastCheckin: number | null;
     daysSinceLastPr: number | null;
     factors: any;
+    modelName: string;
+    modelVersion: string;
+    scoringConfigVersion: number | null;
     calculatedAt: Date;
     validUntil: Date;
 }
 
 /**
- * Calculate comprehensive athlete risk score using actual data
+ * Calculate comprehensive athlete risk score using actual data, scored by the box's
+ * active churn model (unless a model is passed in) under its risk scoring configuration
  */
 export async function calculateAthleteRiskScore(
     membershipId: string,
     boxId: string,
-    lookbackDays: number = 30
+    lookbackDays: number = 30,
+    model?: ResolvedChurnModel
 ): Promise<AthleteRiskScoreData> {
-    const startDate = new Date();
+    const [features, scoringModel, config] = await Promise.all([
+        extractChurnFeatures(membershipId, boxId, lookbackDays),
+        model ?? loadBoxChurnModels(boxId).then(models => models.active),
+        loadRiskScoringConfig(boxId)
+    ]);
+
+    return buildRiskScoreData(boxId, membershipId, features, scoringModel, config);
+}
+
+/**
+ * An athlete's churn model features as they stood at `asOf`. Only data recorded up to
+ * that moment is read, so past dates can be replayed for backtesting.
+ */
+export async function extractChurnFeatures(
+    membershipId: string,
+    boxId: string,
+    lookbackDays = 30,
+    asOf: Date = new Date()
+): Promise<ChurnFeatures> {
+    const timezone = await getBoxTimezone(boxId);
+    const asOfDay = formatLocalDate(asOf, timezone);
+
+    const startDate = new Date(asOf);
     startDate.setDate(startDate.getDate() - lookbackDays);
 
-    const prevStartDate = new Date();
+    const prevStartDate = new Date(asOf);
     prevStartDate.setDate(prevStartDate.getDate() - (lookbackDays * 2));
-    const prevEndDate = new Date();
+    const prevEndDate = new Date(asOf);
     prevEndDate.setDate(prevEndDate.getDate() - lookbackDays);
 
     // Fetch comprehensive athlete data
@@ -57,7 +99,8 @@ export async function calculateAthleteRiskScore(
         previousAttendance,
         currentPerformance,
         previousPerformance,
-        recentActivity
+        recentActivity,
+        engagementDays
     ] = await Promise.all([
         // Get membership info
         db.select()
@@ -76,7 +119,8 @@ export async function calculateAthleteRiskScore(
             .from(athleteWellnessCheckins)
             .where(and(
                 eq(athleteWellnessCheckins.membershipId, membershipId),
-                gte(athleteWellnessCheckins.checkinDate, startDate)
+                gte(athleteWellnessCheckins.checkinDate, startDate),
+                lte(athleteWellnessCheckins.checkinDate, asOf)
             )),
 
         // Previous period wellness
@@ -94,27 +138,30 @@ export async function calculateAthleteRiskScore(
                 lte(athleteWellnessCheckins.checkinDate, prevEndDate)
             )),
 
-        // Current period attendance
+        // Current period attendance (booked classes; excused absences don't count against the athlete)
         db.select({
             attended: sql<number>`COUNT(CASE WHEN ${wodAttendance.status} = 'attended' THEN 1 END)`,
-            total: count()
+            noShows: sql<number>`COUNT(CASE WHEN ${wodAttendance.status} = 'no_show' THEN 1 END)`,
+            lateCancels: sql<number>`COUNT(CASE WHEN ${wodAttendance.status} = 'late_cancel' THEN 1 END)`,
+            total: sql<number>`COUNT(CASE WHEN ${wodAttendance.status} != 'excused' THEN 1 END)`
         })
             .from(wodAttendance)
             .where(and(
                 eq(wodAttendance.membershipId, membershipId),
-                gte(wodAttendance.attendanceDate, sql`${startDate}::date`)
+                gte(wodAttendance.attendanceDate, sql`${formatLocalDate(startDate, timezone)}::date`),
+                lte(wodAttendance.attendanceDate, sql`${asOfDay}::date`)
             )),
 
         // Previous period attendance
         db.select({
             attended: sql<number>`COUNT(CASE WHEN ${wodAttendance.status} = 'attended' THEN 1 END)`,
-            total: count()
+            total: sql<number>`COUNT(CASE WHEN ${wodAttendance.status} != 'excused' THEN 1 END)`
         })
             .from(wodAttendance)
             .where(and(
                 eq(wodAttendance.membershipId, membershipId),
-                gte(wodAttendance.attendanceDate, sql`${prevStartDate}::date`),
-                lte(wodAttendance.attendanceDate, sql`${prevEndDate}::date`)
+                gte(wodAttendance.attendanceDate, sql`${formatLocalDate(prevStartDate, timezone)}::date`),
+                lte(wodAttendance.attendanceDate, sql`${formatLocalDate(prevEndDate, timezone)}::date`)
             )),
 
         // Current period performance
@@ -123,13 +170,15 @@ export async function calculateAthleteRiskScore(
                 .from(athletePrs)
                 .where(and(
                     eq(athletePrs.membershipId, membershipId),
-                    gte(athletePrs.achievedAt, startDate)
+                    gte(athletePrs.achievedAt, startDate),
+                    lte(athletePrs.achievedAt, asOf)
                 )),
             db.select({ count: count() })
                 .from(athleteBenchmarks)
                 .where(and(
                     eq(athleteBenchmarks.membershipId, membershipId),
-                    gte(athleteBenchmarks.achievedAt, startDate)
+                    gte(athleteBenchmarks.achievedAt, startDate),
+                    lte(athleteBenchmarks.achievedAt, asOf)
                 ))
         ]),
 
@@ -157,14 +206,39 @@ export async function calculateAthleteRiskScore(
                 .from(wodAttendance)
                 .where(and(
                     eq(wodAttendance.membershipId, membershipId),
-                    eq(wodAttendance.status, 'attended')
+                    eq(wodAttendance.status, 'attended'),
+                    lte(wodAttendance.attendanceDate, sql`${asOfDay}::date`)
                 )),
             db.select({ lastDate: sql<Date>`MAX(${athleteWellnessCheckins.checkinDate})` })
                 .from(athleteWellnessCheckins)
-                .where(eq(athleteWellnessCheckins.membershipId, membershipId)),
+                .where(and(
+                    eq(athleteWellnessCheckins.membershipId, membershipId),
+                    lte(athleteWellnessCheckins.checkinDate, asOf)
+                )),
             db.select({ lastDate: sql<Date>`MAX(${athletePrs.achievedAt})` })
                 .from(athletePrs)
-                .where(eq(athletePrs.membershipId, membershipId))
+                .where(and(
+                    eq(athletePrs.membershipId, membershipId),
+                    lte(athletePrs.achievedAt, asOf)
+                ))
+        ]),
+
+        // Days with a wellness check-in or a challenge habit check-off, across both periods
+        Promise.all([
+            db.selectDistinct({ day: localDateSql(athleteWellnessCheckins.checkinDate, timezone) })
+                .from(athleteWellnessCheckins)
+                .where(and(
+                    eq(athleteWellnessCheckins.membershipId, membershipId),
+                    gte(athleteWellnessCheckins.checkinDate, prevStartDate),
+                    lte(athleteWellnessCheckins.checkinDate, asOf)
+                )),
+            db.selectDistinct({ day: challengeHabitLogs.logDate })
+                .from(challengeHabitLogs)
+                .where(and(
+                    eq(challengeHabitLogs.membershipId, membershipId),
+                    gte(challengeHabitLogs.logDate, formatLocalDate(prevStartDate, timezone)),
+                    lte(challengeHabitLogs.logDate, asOfDay)
+                ))
         ])
     ]);
 
@@ -175,8 +249,9 @@ export async function calculateAthleteRiskScore(
     // Calculate component scores (0-100 scale)
 
     // 1. Attendance Score
-    const currentAttendanceRate = currentAttendance[0].total > 0
-        ? currentAttendance[0].attended / currentAttendance[0].total
+    const currentAttendanceTotal = Number(currentAttendance[0].total);
+    const currentAttendanceRate = currentAttendanceTotal > 0
+        ? Number(currentAttendance[0].attended) / currentAttendanceTotal
         : 0;
     const attendanceScore = Math.min(currentAttendanceRate * 100, 100);
 
@@ -195,14 +270,24 @@ export async function calculateAthleteRiskScore(
     const [currentPrs, currentBenchmarks] = currentPerformance;
     const performanceScore = Math.min((currentPrs[0].count * 15) + (currentBenchmarks[0].count * 10), 100);
 
-    // 4. Engagement Score (checkin frequency)
-    const expectedCheckins = lookbackDays; // Ideally daily checkins
+    // 4. Engagement Score (days with a checkin or habit check-off)
+    const [checkinDays, habitDays] = engagementDays;
+    const currentStartDay = formatLocalDate(startDate, timezone);
+    const engagedDays = new Set<string>();
+    const prevEngagedDays = new Set<string>();
+    for (const { day } of [...checkinDays, ...habitDays]) {
+        (day >= currentStartDay ? engagedDays : prevEngagedDays).add(day);
+    }
+    const currentHabitDays = habitDays.filter(({ day }) => day >= currentStartDay).length;
+
+    const expectedEngagedDays = lookbackDays; // Ideally daily
     const actualCheckins = currentWellnessData.checkinCount;
-    const engagementScore = Math.min((actualCheckins / expectedCheckins) * 100, 100);
+    const engagementScore = Math.min((engagedDays.size / expectedEngagedDays) * 100, 100);
 
     // Calculate trends
-    const prevAttendanceRate = previousAttendance[0].total > 0
-        ? previousAttendance[0].attended / previousAttendance[0].total
+    const prevAttendanceTotal = Number(previousAttendance[0].total);
+    const prevAttendanceRate = prevAttendanceTotal > 0
+        ? Number(previousAttendance[0].attended) / prevAttendanceTotal
         : currentAttendanceRate;
     const attendanceTrend = ((currentAttendanceRate - prevAttendanceRate) / Math.max(prevAttendanceRate, 0.01)) * 100;
 
@@ -213,9 +298,8 @@ export async function calculateAthleteRiskScore(
         ? ((currentPerformanceCount - prevPerformanceCount) / prevPerformanceCount) * 100
         : 0;
 
-    const prevCheckinCount = previousWellness[0].checkinCount;
-    const engagementTrend = prevCheckinCount > 0
-        ? ((actualCheckins - prevCheckinCount) / prevCheckinCount) * 100
+    const engagementTrend = prevEngagedDays.size > 0
+        ? ((engagedDays.size - prevEngagedDays.size) / prevEngagedDays.size) * 100
         : 0;
 
     // Calculate wellness trend (simplified)
@@ -225,56 +309,62 @@ export async function calculateAthleteRiskScore(
         : wellnessScore;
     const wellnessTrend = ((wellnessScore - prevWellnessScore) / Math.max(prevWellnessScore, 1)) * 100;
 
-    // Calculate overall risk score (inverted - lower component scores = higher risk)
-    const componentWeights = {
-        attendance: 0.3,
-        wellness: 0.25,
-        performance: 0.2,
-        engagement: 0.25
-    };
-
-    const weightedScore =
-        (attendanceScore * componentWeights.attendance) +
-        (wellnessScore * componentWeights.wellness) +
-        (performanceScore * componentWeights.performance) +
-        (engagementScore * componentWeights.engagement);
-
-    // Risk score is inverted (100 - weighted score)
-    const overallRiskScore = 100 - weightedScore;
-
-    // Determine risk level
-    let riskLevel: 'low' | 'medium' | 'high' | 'critical' = 'low';
-    if (overallRiskScore >= 75) riskLevel = 'critical';
-    else if (overallRiskScore >= 50) riskLevel = 'high';
-    else if (overallRiskScore >= 25) riskLevel = 'medium';
-
-    // Calculate churn probability (simplified model)
-    const churnProbability = Math.min(overallRiskScore / 100, 0.95);
-
     // Calculate days since last activity
     const [lastVisit, lastCheckin, lastPr] = recentActivity;
-    const now = new Date();
-
     const daysSinceLastVisit = lastVisit[0].lastDate
-        ? Math.floor((now.getTime() - new Date(lastVisit[0].lastDate).getTime()) / (1000 * 60 * 60 * 24))
+        ? Math.floor((asOf.getTime() - new Date(lastVisit[0].lastDate).getTime()) / (1000 * 60 * 60 * 24))
         : null;
 
     const daysSinceLastCheckin = lastCheckin[0].lastDate
-        ? Math.floor((now.getTime() - new Date(lastCheckin[0].lastDate).getTime()) / (1000 * 60 * 60 * 24))
+        ? Math.floor((asOf.getTime() - new Date(lastCheckin[0].lastDate).getTime()) / (1000 * 60 * 60 * 24))
         : null;
 
     const daysSinceLastPr = lastPr[0].lastDate
-        ? Math.floor((now.getTime() - new Date(lastPr[0].lastDate).getTime()) / (1000 * 60 * 60 * 24))
+        ? Math.floor((asOf.getTime() - new Date(lastPr[0].lastDate).getTime()) / (1000 * 60 * 60 * 24))
         : null;
 
     // Factors for explainability
     const factors = {
         attendanceRate: currentAttendanceRate,
+        noShowRate: currentAttendanceTotal > 0 ? Number(currentAttendance[0].noShows) / currentAttendanceTotal : 0,
+        lateCancelRate: currentAttendanceTotal > 0 ? Number(currentAttendance[0].lateCancels) / currentAttendanceTotal : 0,
         checkinFrequency: actualCheckins / lookbackDays,
+        habitDayFrequency: currentHabitDays / lookbackDays,
+        engagedDayFrequency: engagedDays.size / lookbackDays,
         avgWellnessScore: wellnessScore / 100,
         recentPerformance: currentPerformanceCount,
-        membershipAge: Math.floor((now.getTime() - membership[0].joinedAt.getTime()) / (1000 * 60 * 60 * 24))
+        membershipAge: Math.floor((asOf.getTime() - membership[0].joinedAt.getTime()) / (1000 * 60 * 60 * 24))
+    };
+
+    return {
+        attendanceScore,
+        wellnessScore,
+        performanceScore,
+        engagementScore,
+        attendanceTrend,
+        performanceTrend,
+        engagementTrend,
+        wellnessTrend,
+        daysSinceLastVisit,
+        daysSinceLastCheckin,
+        daysSinceLastPr,
+        missingComponents: currentWellnessData.checkinCount > 0 ? [] : ['wellness'],
+        factors
     };
+}
+
+/**
+ * Turn features and a model's prediction into a storable risk score
+ */
+export function buildRiskScoreData(
+    boxId: string,
+    membershipId: string,
+    features: ChurnFeatures,
+    model: ResolvedChurnModel,
+    config: RiskScoringConfig
+): AthleteRiskScoreData {
+    const { overallRiskScore, churnProbability } = predictChurn(model, features, config);
+    const riskLevel = getRiskLevel(overallRiskScore, config.thresholds);
 
     const validUntil = new Date();
     validUntil.setDate(validUntil.getDate() + 7); // Risk scores valid for 1 week
@@ -282,31 +372,36 @@ export async function calculateAthleteRiskScore(
     return {
         boxId,
         membershipId,
-        overallRiskScore: Math.round(overallRiskScore * 100) / 100,
+        overallRiskScore,
         riskLevel,
-        churnProbability: Math.round(churnProbability * 10000) / 10000,
-        attendanceScore: Math.round(attendanceScore * 100) / 100,
-        performanceScore: Math.round(performanceScore * 100) / 100,
-        engagementScore: Math.round(engagementScore * 100) / 100,
-        wellnessScore: Math.round(wellnessScore * 100) / 100,
-        attendanceTrend: Math.round(attendanceTrend * 100) / 100,
-        performanceTrend: Math.round(performanceTrend * 100) / 100,
-        engagementTrend: Math.round(engagementTrend * 100) / 100,
-        wellnessTrend: Math.round(wellnessTrend * 100) / 100,
-        daysSinceLastVisit,
-        daysSinceLastCheckin,
-        daysSinceLastPr,
-        factors,
+        churnProbability,
+        attendanceScore: Math.round(features.attendanceScore * 100) / 100,
+        performanceScore: Math.round(features.performanceScore * 100) / 100,
+        engagementScore: Math.round(features.engagementScore * 100) / 100,
+        wellnessScore: Math.round(features.wellnessScore * 100) / 100,
+        attendanceTrend: Math.round(features.attendanceTrend * 100) / 100,
+        performanceTrend: Math.round(features.performanceTrend * 100) / 100,
+        engagementTrend: Math.round(features.engagementTrend * 100) / 100,
+        wellnessTrend: Math.round(features.wellnessTrend * 100) / 100,
+        daysSinceLastVisit: features.daysSinceLastVisit,
+        daysSinceLastCheckin: features.daysSinceLastCheckin,
+        daysSinceLastPr: features.daysSinceLastPr,
+        factors: features.factors,
+        modelName: model.name,
+        modelVersion: model.version,
+        scoringConfigVersion: config.version,
         calculatedAt: new Date(),
         validUntil
     };
 }
 
 /**
- * Upsert risk score to database
+ * Upsert risk score to database, then record its risk factors and explanation
  */
 export async function upsertAthleteRiskScore(riskScoreData: AthleteRiskScoreData) {
-    await db.insert(athleteRiskScores).values({
+    const previous = await getPreviousRiskScore(riskScoreData.membershipId);
+
+    const [stored] = await db.insert(athleteRiskScores).values({
         ...riskScoreData,
         // Convert numbers to strings for decimal fields
         overallRiskScore: riskScoreData.overallRiskScore.toString(),
@@ -338,11 +433,22 @@ export async function upsertAthleteRiskScore(riskScoreData: AthleteRiskScoreData
                 daysSinceLastCheckin: riskScoreData.daysSinceLastCheckin,
                 daysSinceLastPr: riskScoreData.daysSinceLastPr,
                 factors: riskScoreData.factors,
+                modelName: riskScoreData.modelName,
+                modelVersion: riskScoreData.modelVersion,
+                scoringConfigVersion: riskScoreData.scoringConfigVersion,
                 calculatedAt: riskScoreData.calculatedAt,
                 validUntil: riskScoreData.validUntil,
+                explanation: null, // Rebuilt below, never left describing the previous score
                 updatedAt: new Date()
             }
-        });
+        })
+        .returning({ id: athleteRiskScores.id });
+
+    try {
+        await explainRiskScore(stored.id, riskScoreData, previous);
+    } catch (error) {
+        console.error(`[Analytics] Error explaining risk score for athlete ${riskScoreData.membershipId}:`, error);
+    }
 }
 
 /**
@@ -367,6 +473,12 @@ export async function recalculateAllRiskScoresForBox(boxId: string) {
 
         console.log(`[Analytics] Found ${athletes.length} active athletes for box ${boxId}`);
 
+        // Shadow models score the same features alongside the active one
+        const [models, config] = await Promise.all([
+            loadBoxChurnModels(boxId),
+            loadRiskScoringConfig(boxId)
+        ]);
+
         // Process each athlete in batches to avoid overwhelming the database
         const batchSize = 10;
         const results = [];
@@ -377,8 +489,10 @@ export async function recalculateAllRiskScoresForBox(boxId: string) {
             const batchResults = await Promise.allSettled(
                 batch.map(async ({ id: membershipId, displayName }) => {
                     try {
-                        const riskScore = await calculateAthleteRiskScore(membershipId, boxId);
+                        const features = await extractChurnFeatures(membershipId, boxId);
+                        const riskScore = buildRiskScoreData(boxId, membershipId, features, models.active, config);
                         await upsertAthleteRiskScore(riskScore);
+                        await recordChurnPredictions(boxId, membershipId, features, models, riskScore, config);
                         console.log(`[Analytics] Updated risk score for athlete ${displayName} (${membershipId}): ${riskScore.riskLevel} (${riskScore.overallRiskScore})`);
                         return { membershipId, displayName, success: true, riskLevel: riskScore.riskLevel };
                     } catch (err) {
@@ -0,0 +1,148 @@
+﻿// src/lib/services/analytics/calculations/risk-scoring-config-calculations.ts
+import { db } from "@/db";
+import { riskScoringConfigs } from "@/db/schema";
+import type { riskMissingDataStrategyEnum } from "@/db/schema/enums";
+import { eq, desc } from "drizzle-orm";
+
+export type RiskComponent = 'attendance' | 'wellness' | 'performance' | 'engagement';
+export type MissingDataStrategy = typeof riskMissingDataStrategyEnum.enumValues[number];
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export const RISK_COMPONENTS: RiskComponent[] = ['attendance', 'wellness', 'performance', 'engagement'];
+
+/**
+ * How a box turns component scores into a risk score and level. version is null for the
+ * built-in defaults, used until the box saves a configuration of its own.
+ */
+export interface RiskScoringConfig {
+    version: number | null;
+    weights: Record<RiskComponent, number>;
+    enabled: Record<RiskComponent, boolean>;
+    thresholds: {
+        medium: number;
+        high: number;
+        critical: number;
+    };
+    missingDataStrategy: MissingDataStrategy;
+}
+
+export const DEFAULT_RISK_SCORING_CONFIG: RiskScoringConfig = {
+    version: null,
+    weights: {
+        attendance: 0.3,
+        wellness: 0.25,
+        performance: 0.2,
+        engagement: 0.25
+    },
+    enabled: {
+        attendance: true,
+        wellness: true,
+        performance: true,
+        engagement: true
+    },
+    thresholds: {
+        medium: 25,
+        high: 50,
+        critical: 75
+    },
+    missingDataStrategy: 'neutral'
+};
+
+// What "neutral" scores a component the athlete has no data for
+export const NEUTRAL_COMPONENT_SCORE = 50;
+
+/**
+ * The box's latest scoring configuration, or the built-in defaults
+ */
+export async function loadRiskScoringConfig(boxId: string): Promise<RiskScoringConfig> {
+    const [row] = await db.select()
+        .from(riskScoringConfigs)
+        .where(eq(riskScoringConfigs.boxId, boxId))
+        .orderBy(desc(riskScoringConfigs.version))
+        .limit(1);
+
+    return row ? toRiskScoringConfig(row) : DEFAULT_RISK_SCORING_CONFIG;
+}
+
+export function toRiskScoringConfig(row: typeof riskScoringConfigs.$inferSelect): RiskScoringConfig {
+    return {
+        version: row.version,
+        weights: {
+            attendance: Number(row.attendanceWeight),
+            wellness: Number(row.wellnessWeight),
+            performance: Number(row.performanceWeight),
+            engagement: Number(row.engagementWeight)
+        },
+        enabled: {
+            attendance: row.attendanceEnabled,
+            wellness: row.wellnessEnabled,
+            performance: row.performanceEnabled,
+            engagement: row.engagementEnabled
+        },
+        thresholds: {
+            medium: Number(row.mediumThreshold),
+            high: Number(row.highThreshold),
+            critical: Number(row.criticalThreshold)
+        },
+        missingDataStrategy: row.missingDataStrategy
+    };
+}
+
+/**
+ * Weighted 0-100 health score over the enabled components. Weights are normalized over
+ * the components that count, so disabling or excluding one doesn't drag the score down.
+ */
+export function calculateWeightedHealthScore(
+    componentScores: Record<RiskComponent, number>,
+    missingComponents: RiskComponent[],
+    config: RiskScoringConfig
+): number {
+    let weightedTotal = 0;
+    let weightTotal = 0;
+
+    for (const component of RISK_COMPONENTS) {
+        const weight = config.weights[component];
+        if (!config.enabled[component] || weight <= 0) continue;
+
+        let score = componentScores[component];
+        if (missingComponents.includes(component)) {
+            if (config.missingDataStrategy === 'exclude') continue;
+            score = config.missingDataStrategy === 'penalize' ? 0 : NEUTRAL_COMPONENT_SCORE;
+        }
+
+        weightedTotal += score * weight;
+        weightTotal += weight;
+    }
+
+    return weightTotal > 0 ? weightedTotal / weightTotal : NEUTRAL_COMPONENT_SCORE;
+}
+
+export function getRiskLevel(riskScore: number, thresholds: RiskScoringConfig['thresholds']): RiskLevel {
+    if (riskScore >= thresholds.critical) return 'critical';
+    if (riskScore >= thresholds.high) return 'high';
+    if (riskScore >= thresholds.medium) return 'medium';
+    return 'low';
+}
+
+/**
+ * Why a configuration can't be used, or null when it's valid
+ */
+export function validateRiskScoringConfig(config: RiskScoringConfig): string | null {
+    for (const component of RISK_COMPONENTS) {
+        const weight = config.weights[component];
+        if (!Number.isFinite(weight) || weight < 0 || weight > 1) {
+            return `The ${component} weight must be between 0 and 1`;
+        }
+    }
+
+    if (!RISK_COMPONENTS.some(component => config.enabled[component] && config.weights[component] > 0)) {
+        return 'At least one component must be enabled with a weight above 0';
+    }
+
+    const { medium, high, critical } = config.thresholds;
+    if (!(medium > 0 && medium < high && high < critical && critical <= 100)) {
+        return 'Thresholds must satisfy 0 < medium < high < critical <= 100';
+    }
+
+    return null;
+}
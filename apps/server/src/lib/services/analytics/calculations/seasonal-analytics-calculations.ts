@@ -7,6 +7,7 @@ import {
     seasonalAnalytics,
 } from "@/db/schema";
 import { eq, and, gte, lte, count, avg, sql } from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone, localDateSql } from "@/lib/dates";
 
 export type TemporalType = "monthly" | "quarterly" | "seasonal" | "holiday";
 
@@ -125,6 +126,7 @@ async function calculateBaselineMetrics(
     baselineCheckinRate: number;
     baselineChurnRate: number;
 }> {
+    const timezone = await getBoxTimezone(boxId);
     const oneYearAgo = new Date(referenceDate);
     oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
 
@@ -150,13 +152,13 @@ async function calculateBaselineMetrics(
         .from(wodAttendance)
         .where(and(
             eq(wodAttendance.boxId, boxId),
-            gte(wodAttendance.attendanceDate, sql`${oneYearAgo}::date`)
+            gte(wodAttendance.attendanceDate, sql`${formatLocalDate(oneYearAgo, timezone)}::date`)
         ));
 
     // Get average checkin rate
     const checkinData = await db
         .select({
-            totalDays: sql<number>`COUNT(DISTINCT DATE(${athleteWellnessCheckins.checkinDate}))`,
+            totalDays: sql<number>`COUNT(DISTINCT ${localDateSql(athleteWellnessCheckins.checkinDate, timezone)})`,
             totalMembers: sql<number>`COUNT(DISTINCT ${athleteWellnessCheckins.membershipId})`,
             totalCheckins: count()
         })
@@ -218,6 +220,7 @@ async function calculatePeriodMetrics(
     avgStressLevel: number | null;
     avgMotivation: number | null;
 }> {
+    const timezone = await getBoxTimezone(boxId);
     // Get athlete count for the period
     const athleteCountData = await db
         .select({
@@ -241,8 +244,8 @@ async function calculatePeriodMetrics(
         .from(wodAttendance)
         .where(and(
             eq(wodAttendance.boxId, boxId),
-            gte(wodAttendance.attendanceDate, sql`${periodStart}::date`),
-            lte(wodAttendance.attendanceDate, sql`${periodEnd}::date`)
+            gte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodStart, timezone)}::date`),
+            lte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodEnd, timezone)}::date`)
         ));
 
     // Get checkin rate for the period
@@ -0,0 +1,407 @@
+﻿// src/lib/services/analytics/calculations/survival-analysis-calculations.ts
+import { db } from "@/db";
+import {
+    athleteWellnessCheckins,
+    boxMemberships,
+    wodAttendance
+} from "@/db/schema";
+import { and, avg, count, eq, lte, sql } from "drizzle-orm";
+import { fitLogisticRegression, predictLogisticRegression, round } from "./logistic-regression-calculations";
+
+/**
+ * Survival analysis over membership tenure. Time is measured in tenure months from
+ * joinedAt; members who left are churn events, everyone still active is censored at today.
+ *
+ * - Kaplan-Meier curves describe observed retention, overall or per cohort/segment
+ * - A discrete-time hazard model (logistic regression over member-months) turns last
+ *   month's attendance, wellness and tenure into a monthly churn probability, which
+ *   compounds into per-member survival forecasts
+ */
+export type SurvivalGrouping = 'cohort' | 'onboarding_attendance' | 'onboarding_wellness';
+
+export interface MonthlyActivity {
+    attended: number;
+    checkins: number;
+    wellnessScore: number | null; // 0-1, null without check-ins
+}
+
+export interface SurvivalSubject {
+    membershipId: string;
+    displayName: string;
+    joinedAt: Date;
+    durationMonths: number; // Until leftAt for churned members, until now for active ones
+    churned: boolean;
+    activity: Map<number, MonthlyActivity>; // Keyed by tenure month
+}
+
+export interface SurvivalCurvePoint {
+    month: number;
+    survival: number;
+    lower: number; // 95% confidence band (Greenwood)
+    upper: number;
+    atRisk: number;
+    churned: number; // Churn events during the month ending here
+    censored: number;
+}
+
+export interface SurvivalCurve {
+    subjects: number;
+    churned: number;
+    medianSurvivalMonths: number | null;
+    points: SurvivalCurvePoint[];
+}
+
+export interface HazardCovariates {
+    attendedLastMonth: number;
+    wellnessScore: number | null;
+    tenureMonths: number;
+}
+
+export interface HazardModel {
+    method: 'hazard_model' | 'constant_hazard';
+    featureNames: string[];
+    coefficients: number[];
+    intercept: number;
+    means: number[];
+    stds: number[];
+    trainingMemberMonths: number;
+    trainingChurnEvents: number;
+}
+
+export const MONTH_DAYS = 30.4375;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Below this much history the hazard model falls back to a constant monthly churn rate
+export const MIN_HAZARD_MEMBER_MONTHS = 100;
+export const MIN_HAZARD_EVENTS = 10;
+
+const HAZARD_FEATURE_NAMES = ['attendedLastMonth', 'wellnessScore', 'wellnessMissing', 'logTenureMonths'];
+const MAX_MONTHLY_CLASSES = 30;
+const TRAINING_ITERATIONS = 300;
+const MIN_CONSTANT_HAZARD = 0.0001;
+const Z_95 = 1.96;
+
+/**
+ * Every athlete who has been a member of the box, with their activity per tenure month.
+ * With `asOf`, the box as it stood then: later joiners are left out and anyone who left
+ * afterwards is still a member, censored at that date.
+ */
+export async function loadSurvivalSubjects(boxId: string, asOf?: Date): Promise<SurvivalSubject[]> {
+    const monthDays = sql.raw(String(MONTH_DAYS));
+    const attendanceTenureMonth = sql<number>`FLOOR((${wodAttendance.attendanceDate} - ${boxMemberships.joinedAt}::date) / ${monthDays})::int`;
+    const checkinTenureMonth = sql<number>`FLOOR(EXTRACT(EPOCH FROM (${athleteWellnessCheckins.checkinDate} - ${boxMemberships.joinedAt})) / 86400 / ${monthDays})::int`;
+
+    const [members, attendance, wellness] = await Promise.all([
+        db.select({
+            membershipId: boxMemberships.id,
+            displayName: boxMemberships.displayName,
+            joinedAt: boxMemberships.joinedAt,
+            leftAt: boxMemberships.leftAt,
+            isActive: boxMemberships.isActive
+        })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.boxId, boxId),
+                eq(boxMemberships.role, 'athlete'),
+                asOf ? lte(boxMemberships.joinedAt, asOf) : undefined
+            )),
+
+        db.select({
+            membershipId: wodAttendance.membershipId,
+            tenureMonth: attendanceTenureMonth,
+            attended: count()
+        })
+            .from(wodAttendance)
+            .innerJoin(boxMemberships, eq(wodAttendance.membershipId, boxMemberships.id))
+            .where(and(
+                eq(wodAttendance.boxId, boxId),
+                eq(wodAttendance.status, 'attended'),
+                asOf ? lte(wodAttendance.attendanceDate, asOf.toISOString().slice(0, 10)) : undefined
+            ))
+            .groupBy(wodAttendance.membershipId, attendanceTenureMonth),
+
+        db.select({
+            membershipId: athleteWellnessCheckins.membershipId,
+            tenureMonth: checkinTenureMonth,
+            checkins: count(),
+            // Higher is better on every axis, so stress is inverted
+            wellnessScore: avg(sql`(${athleteWellnessCheckins.energyLevel} + ${athleteWellnessCheckins.sleepQuality} + ${athleteWellnessCheckins.motivationLevel} + (10 - ${athleteWellnessCheckins.stressLevel})) / 40.0`)
+        })
+            .from(athleteWellnessCheckins)
+            .innerJoin(boxMemberships, eq(athleteWellnessCheckins.membershipId, boxMemberships.id))
+            .where(and(
+                eq(athleteWellnessCheckins.boxId, boxId),
+                asOf ? lte(athleteWellnessCheckins.checkinDate, asOf) : undefined
+            ))
+            .groupBy(athleteWellnessCheckins.membershipId, checkinTenureMonth)
+    ]);
+
+    const activityByMember = new Map<string, Map<number, MonthlyActivity>>();
+    const getActivity = (membershipId: string, tenureMonth: number) => {
+        let months = activityByMember.get(membershipId);
+        if (!months) {
+            months = new Map();
+            activityByMember.set(membershipId, months);
+        }
+        let activity = months.get(tenureMonth);
+        if (!activity) {
+            activity = { attended: 0, checkins: 0, wellnessScore: null };
+            months.set(tenureMonth, activity);
+        }
+        return activity;
+    };
+
+    for (const row of attendance) {
+        getActivity(row.membershipId, Number(row.tenureMonth)).attended = Number(row.attended);
+    }
+    for (const row of wellness) {
+        const activity = getActivity(row.membershipId, Number(row.tenureMonth));
+        activity.checkins = Number(row.checkins);
+        activity.wellnessScore = row.wellnessScore !== null ? Number(row.wellnessScore) : null;
+    }
+
+    const now = asOf?.getTime() ?? Date.now();
+
+    return members
+        // Inactive without a leftAt has no known exit date, so it can't be placed on the curve
+        .filter(member => member.isActive || member.leftAt)
+        .map(member => {
+            const churned = !member.isActive && member.leftAt !== null && member.leftAt.getTime() <= now;
+            const end = churned && member.leftAt ? member.leftAt.getTime() : now;
+
+            return {
+                membershipId: member.membershipId,
+                displayName: member.displayName,
+                joinedAt: member.joinedAt,
+                durationMonths: Math.max(0, (end - member.joinedAt.getTime()) / DAY_MS / MONTH_DAYS),
+                churned,
+                activity: activityByMember.get(member.membershipId) ?? new Map()
+            };
+        });
+}
+
+/**
+ * Group key for a subject, or null when the subject doesn't belong in any group yet
+ */
+export function getSurvivalGroup(subject: SurvivalSubject, grouping: SurvivalGrouping): string | null {
+    if (grouping === 'cohort') {
+        return `${subject.joinedAt.getUTCFullYear()}-${(subject.joinedAt.getUTCMonth() + 1).toString().padStart(2, '0')}`;
+    }
+
+    // Onboarding segments describe the first month, so members still in it aren't classified
+    if (!subject.churned && subject.durationMonths < 1) return null;
+
+    const firstMonth = subject.activity.get(0);
+
+    if (grouping === 'onboarding_attendance') {
+        const attended = firstMonth?.attended ?? 0;
+        if (attended >= 8) return 'high';
+        if (attended >= 4) return 'moderate';
+        return 'low';
+    }
+
+    const checkins = firstMonth?.checkins ?? 0;
+    if (checkins >= 4) return 'regular';
+    if (checkins > 0) return 'occasional';
+    return 'none';
+}
+
+/**
+ * Kaplan-Meier survival estimate, sampled at whole tenure months
+ */
+export function calculateKaplanMeier(
+    subjects: Array<{ durationMonths: number; churned: boolean }>,
+    horizonMonths: number
+): SurvivalCurve {
+    const sorted = [...subjects].sort((a, b) => a.durationMonths - b.durationMonths);
+    const steps: Array<{ time: number; survival: number; greenwood: number }> = [];
+
+    let atRisk = sorted.length;
+    let survival = 1;
+    let greenwood = 0;
+    let index = 0;
+
+    while (index < sorted.length) {
+        const time = sorted[index].durationMonths;
+        let events = 0;
+        let removed = 0;
+
+        while (index < sorted.length && sorted[index].durationMonths === time) {
+            if (sorted[index].churned) events++;
+            removed++;
+            index++;
+        }
+
+        if (events > 0) {
+            survival *= 1 - events / atRisk;
+            if (atRisk > events) greenwood += events / (atRisk * (atRisk - events));
+            steps.push({ time, survival, greenwood });
+        }
+
+        atRisk -= removed;
+    }
+
+    const points: SurvivalCurvePoint[] = [];
+    for (let month = 0; month <= horizonMonths; month++) {
+        const step = steps.filter(s => s.time <= month).pop();
+        const value = step?.survival ?? 1;
+        const margin = Z_95 * value * Math.sqrt(step?.greenwood ?? 0);
+        const inMonth = sorted.filter(s => s.durationMonths > month - 1 && s.durationMonths <= month);
+
+        points.push({
+            month,
+            survival: round(value, 4),
+            lower: round(Math.max(0, value - margin), 4),
+            upper: round(Math.min(1, value + margin), 4),
+            atRisk: sorted.filter(s => s.durationMonths >= month).length,
+            churned: month > 0 ? inMonth.filter(s => s.churned).length : 0,
+            censored: month > 0 ? inMonth.filter(s => !s.churned).length : 0
+        });
+    }
+
+    const median = steps.find(s => s.survival <= 0.5);
+
+    return {
+        subjects: subjects.length,
+        churned: subjects.filter(s => s.churned).length,
+        medianSurvivalMonths: median ? round(median.time, 1) : null,
+        points
+    };
+}
+
+/**
+ * Fit the monthly churn hazard. Each complete tenure month (from month 1) is a sample whose
+ * covariates come from the month before it, so the drop-off that comes with leaving isn't
+ * used to predict the leaving.
+ */
+export function fitHazardModel(subjects: SurvivalSubject[]): HazardModel {
+    const inputs: number[][] = [];
+    const labels: number[] = [];
+
+    for (const subject of subjects) {
+        const lastMonth = Math.floor(subject.durationMonths);
+
+        for (let month = 1; month <= lastMonth; month++) {
+            // The month in progress for an active member hasn't been survived yet
+            if (month === lastMonth && !subject.churned) break;
+
+            inputs.push(toHazardInputs(getMonthCovariates(subject, month)));
+            labels.push(month === lastMonth && subject.churned ? 1 : 0);
+        }
+    }
+
+    const events = labels.filter(label => label === 1).length;
+
+    if (inputs.length < MIN_HAZARD_MEMBER_MONTHS || events < MIN_HAZARD_EVENTS) {
+        return fitConstantHazard(subjects, inputs.length, events);
+    }
+
+    // Unweighted, unlike the churn classifier: the hazard has to stay a calibrated probability
+    const fit = fitLogisticRegression(inputs, labels, { iterations: TRAINING_ITERATIONS });
+
+    return {
+        method: 'hazard_model',
+        featureNames: [...HAZARD_FEATURE_NAMES],
+        ...fit,
+        trainingMemberMonths: inputs.length,
+        trainingChurnEvents: events
+    };
+}
+
+/**
+ * Probability of churning during a month with the given covariates
+ */
+export function predictMonthlyHazard(model: HazardModel, covariates: HazardCovariates): number {
+    return predictLogisticRegression(model, toHazardInputs(covariates));
+}
+
+/**
+ * Survival probability 0..horizonMonths months from now, holding the member's recent
+ * attendance and wellness steady while their tenure grows
+ */
+export function forecastMemberSurvival(
+    model: HazardModel,
+    covariates: HazardCovariates,
+    horizonMonths: number
+): number[] {
+    const survival = [1];
+
+    for (let month = 1; month <= horizonMonths; month++) {
+        const hazard = predictMonthlyHazard(model, {
+            ...covariates,
+            tenureMonths: covariates.tenureMonths + month - 1
+        });
+        survival.push(survival[month - 1] * (1 - hazard));
+    }
+
+    return survival;
+}
+
+/**
+ * Expected months of membership left within the horizon (restricted mean survival time)
+ */
+export function calculateExpectedRemainingMonths(survival: number[]): number {
+    let total = 0;
+    for (let month = 1; month < survival.length; month++) {
+        total += (survival[month - 1] + survival[month]) / 2;
+    }
+    return total;
+}
+
+/**
+ * Covariates for an active member as of today: their last complete month, or the
+ * first month so far scaled up to a full month for brand new members
+ */
+export function getCurrentCovariates(subject: SurvivalSubject): HazardCovariates {
+    const currentMonth = Math.floor(subject.durationMonths);
+    if (currentMonth >= 1) return getMonthCovariates(subject, currentMonth);
+
+    const firstMonth = subject.activity.get(0);
+    const elapsedDays = Math.max(subject.durationMonths * MONTH_DAYS, 7);
+
+    return {
+        attendedLastMonth: (firstMonth?.attended ?? 0) * MONTH_DAYS / elapsedDays,
+        wellnessScore: firstMonth?.wellnessScore ?? null,
+        tenureMonths: 0
+    };
+}
+
+function getMonthCovariates(subject: SurvivalSubject, month: number): HazardCovariates {
+    const previous = subject.activity.get(month - 1);
+
+    return {
+        attendedLastMonth: previous?.attended ?? 0,
+        wellnessScore: previous?.wellnessScore ?? null,
+        tenureMonths: month
+    };
+}
+
+/**
+ * Fallback when there isn't enough churn history: one monthly hazard for everyone,
+ * events over total months at risk
+ */
+function fitConstantHazard(subjects: SurvivalSubject[], memberMonths: number, events: number): HazardModel {
+    const exposure = subjects.reduce((sum, subject) => sum + subject.durationMonths, 0);
+    const churned = subjects.filter(subject => subject.churned).length;
+    const hazard = Math.min(Math.max(exposure > 0 ? churned / exposure : 0, MIN_CONSTANT_HAZARD), 0.99);
+
+    return {
+        method: 'constant_hazard',
+        featureNames: [...HAZARD_FEATURE_NAMES],
+        coefficients: HAZARD_FEATURE_NAMES.map(() => 0),
+        intercept: round(Math.log(hazard / (1 - hazard)), 6),
+        means: HAZARD_FEATURE_NAMES.map(() => 0),
+        stds: HAZARD_FEATURE_NAMES.map(() => 1),
+        trainingMemberMonths: memberMonths,
+        trainingChurnEvents: events
+    };
+}
+
+function toHazardInputs(covariates: HazardCovariates): number[] {
+    return [
+        Math.min(covariates.attendedLastMonth, MAX_MONTHLY_CLASSES),
+        covariates.wellnessScore ?? 0,
+        covariates.wellnessScore === null ? 1 : 0,
+        Math.log1p(covariates.tenureMonths)
+    ];
+}
@@ -3,12 +3,16 @@ import { db } from "@/db";
 import {
     boxMemberships,
     athleteWellnessCheckins,
+    athleteWearableMetrics,
     athletePrs,
     athleteBenchmarks,
     wellnessPerformanceCorrelations,
     wodAttendance
 } from "@/db/schema";
-import { eq, and, gte, lte, sql, avg, count } from "drizzle-orm";
+import { eq, and, gte, lte, sql, avg, count, isNotNull } from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone } from "@/lib/dates";
+import { compareWorkoutScores, type ScoreSortDirection } from "@/lib/services/athlete/workout-score";
+import { toKilograms } from "@/lib/services/athlete/units";
 
 export interface WellnessPerformanceCorrelationData {
     boxId: string;
@@ -25,14 +29,19 @@ export interface WellnessPerformanceCorrelationData {
     version: string;
 }
 
+// Self-reports are null without enough check-ins, wearable metrics without enough imported nights
 interface WellnessData {
     membershipId: string;
-    avgEnergy: number;
-    avgSleep: number;
-    avgStress: number;
-    avgReadiness: number;
-    avgMotivation: number;
+    avgEnergy: number | null;
+    avgSleep: number | null;
+    avgStress: number | null;
+    avgReadiness: number | null;
+    avgMotivation: number | null;
+    avgSleepDuration: number | null;
+    avgRestingHr: number | null;
+    avgHrv: number | null;
     checkinCount: number;
+    wearableNights: number;
 }
 
 interface PerformanceData {
@@ -41,6 +50,7 @@ interface PerformanceData {
     benchmarkCount: number;
     attendanceRate: number;
     avgWorkoutDuration: number;
+    avgWorkoutPercentile: number | null; // Null without a ranked workout score in the period
     performanceScore: number;
 }
 
@@ -98,10 +108,13 @@ function calculateSpearmanCorrelation(x: number[], y: number[]): { correlation:
 }
 
 /**
- * Get wellness data for athletes in a box within a period
+ * Get wellness data for athletes in a box within a period: self-reported check-ins and
+ * objective metrics imported from wearables
  */
 async function getWellnessData(boxId: string, periodStart: Date, periodEnd: Date): Promise<WellnessData[]> {
-    const results = await db
+    const timezone = await getBoxTimezone(boxId);
+
+    const checkinResults = await db
         .select({
             membershipId: athleteWellnessCheckins.membershipId,
             avgEnergy: avg(athleteWellnessCheckins.energyLevel),
@@ -123,21 +136,75 @@ async function getWellnessData(boxId: string, periodStart: Date, periodEnd: Date
         .groupBy(athleteWellnessCheckins.membershipId)
         .having(sql`COUNT(*) >= 5`); // Minimum 5 check-ins for meaningful data
 
-    return results.map(r => ({
-        membershipId: r.membershipId,
-        avgEnergy: Number(r.avgEnergy || 0),
-        avgSleep: Number(r.avgSleep || 0),
-        avgStress: Number(r.avgStress || 0),
-        avgReadiness: Number(r.avgReadiness || 0),
-        avgMotivation: Number(r.avgMotivation || 0),
-        checkinCount: r.checkinCount
-    }));
+    const wearableResults = await db
+        .select({
+            membershipId: athleteWearableMetrics.membershipId,
+            avgSleepDuration: avg(athleteWearableMetrics.sleepDurationMinutes),
+            avgRestingHr: avg(athleteWearableMetrics.restingHeartRate),
+            avgHrv: avg(athleteWearableMetrics.hrvMs),
+            nightCount: count()
+        })
+        .from(athleteWearableMetrics)
+        .innerJoin(boxMemberships, eq(athleteWearableMetrics.membershipId, boxMemberships.id))
+        .where(and(
+            eq(athleteWearableMetrics.boxId, boxId),
+            eq(boxMemberships.role, 'athlete'),
+            eq(boxMemberships.isActive, true),
+            gte(athleteWearableMetrics.metricDate, formatLocalDate(periodStart, timezone)),
+            lte(athleteWearableMetrics.metricDate, formatLocalDate(periodEnd, timezone))
+        ))
+        .groupBy(athleteWearableMetrics.membershipId)
+        .having(sql`COUNT(*) >= 5`); // Minimum 5 nights for meaningful data
+
+    const wellnessMap = new Map<string, WellnessData>();
+    const getEntry = (membershipId: string): WellnessData => {
+        let entry = wellnessMap.get(membershipId);
+        if (!entry) {
+            entry = {
+                membershipId,
+                avgEnergy: null,
+                avgSleep: null,
+                avgStress: null,
+                avgReadiness: null,
+                avgMotivation: null,
+                avgSleepDuration: null,
+                avgRestingHr: null,
+                avgHrv: null,
+                checkinCount: 0,
+                wearableNights: 0
+            };
+            wellnessMap.set(membershipId, entry);
+        }
+        return entry;
+    };
+    const toAverage = (value: string | null) => value !== null ? Number(value) : null;
+
+    checkinResults.forEach(r => {
+        const entry = getEntry(r.membershipId);
+        entry.avgEnergy = toAverage(r.avgEnergy);
+        entry.avgSleep = toAverage(r.avgSleep);
+        entry.avgStress = toAverage(r.avgStress);
+        entry.avgReadiness = toAverage(r.avgReadiness);
+        entry.avgMotivation = toAverage(r.avgMotivation);
+        entry.checkinCount = r.checkinCount;
+    });
+
+    wearableResults.forEach(r => {
+        const entry = getEntry(r.membershipId);
+        entry.avgSleepDuration = toAverage(r.avgSleepDuration);
+        entry.avgRestingHr = toAverage(r.avgRestingHr);
+        entry.avgHrv = toAverage(r.avgHrv);
+        entry.wearableNights = r.nightCount;
+    });
+
+    return Array.from(wellnessMap.values());
 }
 
 /**
  * Get performance data for athletes in a box within a period
  */
 async function getPerformanceData(boxId: string, periodStart: Date, periodEnd: Date): Promise<PerformanceData[]> {
+    const timezone = await getBoxTimezone(boxId);
     // Get PR counts
     const prData = await db
         .select({
@@ -177,8 +244,8 @@ async function getPerformanceData(boxId: string, periodStart: Date, periodEnd: D
         .from(wodAttendance)
         .where(and(
             eq(wodAttendance.boxId, boxId),
-            gte(wodAttendance.attendanceDate, sql`${periodStart}::date`),
-            lte(wodAttendance.attendanceDate, sql`${periodEnd}::date`)
+            gte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodStart, timezone)}::date`),
+            lte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodEnd, timezone)}::date`)
         ))
         .groupBy(wodAttendance.membershipId);
 
@@ -193,6 +260,7 @@ async function getPerformanceData(boxId: string, periodStart: Date, periodEnd: D
             benchmarkCount: 0,
             attendanceRate: 0,
             avgWorkoutDuration: 0,
+            avgWorkoutPercentile: null,
             performanceScore: 0
         });
     });
@@ -209,6 +277,7 @@ async function getPerformanceData(boxId: string, periodStart: Date, periodEnd: D
                 benchmarkCount: benchmark.benchmarkCount,
                 attendanceRate: 0,
                 avgWorkoutDuration: 0,
+                avgWorkoutPercentile: null,
                 performanceScore: 0
             });
         }
@@ -231,11 +300,21 @@ async function getPerformanceData(boxId: string, periodStart: Date, periodEnd: D
                 benchmarkCount: 0,
                 attendanceRate,
                 avgWorkoutDuration: Number(attendance.avgDuration || 0),
+                avgWorkoutPercentile: null,
                 performanceScore: 0
             });
         }
     });
 
+    // Add workout score standings (every ranked athlete has attendance in the period)
+    const percentiles = await getWorkoutScorePercentiles(boxId, periodStart, periodEnd, timezone);
+    percentiles.forEach((percentile, membershipId) => {
+        const existing = performanceMap.get(membershipId);
+        if (existing) {
+            existing.avgWorkoutPercentile = percentile;
+        }
+    });
+
     // Calculate performance scores
     Array.from(performanceMap.values()).forEach(perf => {
         perf.performanceScore = (perf.prCount * 10) + (perf.benchmarkCount * 5) + (perf.attendanceRate * 0.5);
@@ -246,6 +325,77 @@ async function getPerformanceData(boxId: string, periodStart: Date, periodEnd: D
     );
 }
 
+/**
+ * Average standing of each athlete among the box's normalized scores for the same programmed
+ * workout: 100 beat everyone else that day, 0 beat no one. Workouts scored by a single athlete
+ * don't rank anyone.
+ */
+async function getWorkoutScorePercentiles(
+    boxId: string,
+    periodStart: Date,
+    periodEnd: Date,
+    timezone: string
+): Promise<Map<string, number>> {
+    const scores = await db
+        .select({
+            membershipId: wodAttendance.membershipId,
+            programmedWorkoutId: wodAttendance.programmedWorkoutId,
+            scoreType: wodAttendance.scoreType,
+            scoreValue: wodAttendance.scoreValue,
+            scoreSortDirection: wodAttendance.scoreSortDirection,
+            scoreTiebreakSeconds: wodAttendance.scoreTiebreakSeconds,
+            scoreUnit: wodAttendance.scoreUnit
+        })
+        .from(wodAttendance)
+        .where(and(
+            eq(wodAttendance.boxId, boxId),
+            eq(wodAttendance.status, 'attended'),
+            isNotNull(wodAttendance.programmedWorkoutId),
+            isNotNull(wodAttendance.scoreValue),
+            gte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodStart, timezone)}::date`),
+            lte(wodAttendance.attendanceDate, sql`${formatLocalDate(periodEnd, timezone)}::date`)
+        ));
+
+    // Only results of the same type on the same workout are comparable
+    const workouts = new Map<string, Array<{
+        membershipId: string;
+        value: number;
+        sortDirection: ScoreSortDirection;
+        tiebreakSeconds: number | null;
+    }>>();
+    scores.forEach(score => {
+        if (!score.scoreSortDirection) return;
+
+        const key = `${score.programmedWorkoutId}:${score.scoreType}`;
+        const value = Number(score.scoreValue);
+        const entries = workouts.get(key) ?? [];
+        entries.push({
+            membershipId: score.membershipId,
+            value: score.scoreType === 'load' ? toKilograms(value, score.scoreUnit) : value,
+            sortDirection: score.scoreSortDirection,
+            tiebreakSeconds: score.scoreTiebreakSeconds
+        });
+        workouts.set(key, entries);
+    });
+
+    const standings = new Map<string, number[]>();
+    workouts.forEach(entries => {
+        if (entries.length < 2) return;
+
+        entries.forEach(entry => {
+            const beaten = entries.filter(other => compareWorkoutScores(entry, other) < 0).length;
+            const athleteStandings = standings.get(entry.membershipId) ?? [];
+            athleteStandings.push((beaten / (entries.length - 1)) * 100);
+            standings.set(entry.membershipId, athleteStandings);
+        });
+    });
+
+    return new Map(Array.from(standings.entries()).map(([membershipId, values]) => [
+        membershipId,
+        values.reduce((sum, value) => sum + value, 0) / values.length
+    ]));
+}
+
 /**
  * Calculate wellness-performance correlations for a box
  */
@@ -277,27 +427,38 @@ export async function calculateWellnessPerformanceCorrelations(
 
     const correlations: WellnessPerformanceCorrelationData[] = [];
 
-    // Define wellness and performance metrics to correlate
+    // Define wellness and performance metrics to correlate (self-reported, then wearable)
     const wellnessMetrics = [
         { key: 'avgEnergy', name: 'avg_energy_level' },
         { key: 'avgSleep', name: 'avg_sleep_quality' },
         { key: 'avgStress', name: 'avg_stress_level' },
         { key: 'avgReadiness', name: 'avg_workout_readiness' },
-        { key: 'avgMotivation', name: 'avg_motivation_level' }
+        { key: 'avgMotivation', name: 'avg_motivation_level' },
+        { key: 'avgSleepDuration', name: 'avg_sleep_duration_minutes' },
+        { key: 'avgRestingHr', name: 'avg_resting_heart_rate' },
+        { key: 'avgHrv', name: 'avg_hrv_ms' }
     ];
 
     const performanceMetrics = [
         { key: 'prCount', name: 'pr_count' },
         { key: 'benchmarkCount', name: 'benchmark_count' },
         { key: 'attendanceRate', name: 'attendance_rate' },
+        { key: 'avgWorkoutPercentile', name: 'avg_workout_score_percentile' },
         { key: 'performanceScore', name: 'performance_score' }
     ];
 
     // Calculate correlations for each wellness-performance pair
     for (const wellnessMetric of wellnessMetrics) {
         for (const performanceMetric of performanceMetrics) {
-            const wellnessValues = combinedData.map(item => item.wellness[wellnessMetric.key as keyof WellnessData] as number);
-            const performanceValues = combinedData.map(item => item.performance![performanceMetric.key as keyof PerformanceData] as number);
+            // Only athletes who have both metrics (e.g. wearable metrics need imported nights)
+            const metricData = combinedData.filter(item =>
+                item.wellness[wellnessMetric.key as keyof WellnessData] !== null
+                && item.performance?.[performanceMetric.key as keyof PerformanceData] !== null
+            );
+            if (metricData.length < 10) continue;
+
+            const wellnessValues = metricData.map(item => item.wellness[wellnessMetric.key as keyof WellnessData] as number);
+            const performanceValues = metricData.map(item => item.performance![performanceMetric.key as keyof PerformanceData] as number);
 
             // Skip if no variation in data
             const wellnessVariance = wellnessValues.reduce((acc, val, _, arr) => acc + Math.pow(val - arr.reduce((a, b) => a + b) / arr.length, 2), 0);
@@ -315,7 +476,7 @@ export async function calculateWellnessPerformanceCorrelations(
                     correlationType: 'pearson',
                     correlationValue: Math.round(pearson.correlation * 1000) / 1000,
                     pValue: pearson.pValue ? Math.round(pearson.pValue * 100000) / 100000 : null,
-                    sampleSize: combinedData.length,
+                    sampleSize: metricData.length,
                     periodStart,
                     periodEnd,
                     significance: getSignificance(pearson.correlation, pearson.pValue),
@@ -334,7 +495,7 @@ export async function calculateWellnessPerformanceCorrelations(
                     correlationType: 'spearman',
                     correlationValue: Math.round(spearman.correlation * 1000) / 1000,
                     pValue: spearman.pValue ? Math.round(spearman.pValue * 100000) / 100000 : null,
-                    sampleSize: combinedData.length,
+                    sampleSize: metricData.length,
                     periodStart,
                     periodEnd,
                     significance: getSignificance(spearman.correlation, spearman.pValue),
@@ -0,0 +1,174 @@
+﻿// lib/services/analytics/churn-model-service.ts
+import { db, withTransaction, type DbTransaction } from "@/db";
+import { churnModelVersions, modelPerformanceMetrics } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { ConflictError, ResourceNotFoundError, ValidationError, isUniqueViolation } from "@/lib/errors";
+import {
+    CHURN_MODELS,
+    DEFAULT_CHURN_MODEL
+} from "./calculations/churn-model-calculations";
+import {
+    processChurnModelBacktest,
+    type ChurnBacktestOptions
+} from "./calculations/churn-backtest-calculations";
+
+export type ChurnModelStatus = "active" | "shadow" | "retired";
+
+export class ChurnModelService {
+    /**
+     * A box's registered churn model versions, newest first, and the built-in model it
+     * scores with while none of them is active
+     */
+    static async listModels(boxId: string) {
+        const versions = await db
+            .select({
+                id: churnModelVersions.id,
+                modelName: churnModelVersions.modelName,
+                modelVersion: churnModelVersions.modelVersion,
+                status: churnModelVersions.status,
+                trainingSamples: churnModelVersions.trainingSamples,
+                trainingChurned: churnModelVersions.trainingChurned,
+                trainedThrough: churnModelVersions.trainedThrough,
+                activatedAt: churnModelVersions.activatedAt,
+                retiredAt: churnModelVersions.retiredAt,
+                createdAt: churnModelVersions.createdAt,
+            })
+            .from(churnModelVersions)
+            .where(eq(churnModelVersions.boxId, boxId))
+            .orderBy(desc(churnModelVersions.createdAt));
+
+        const hasActive = versions.some(version => version.status === "active");
+
+        return {
+            defaultModel: hasActive ? null : {
+                modelName: DEFAULT_CHURN_MODEL.name,
+                modelVersion: DEFAULT_CHURN_MODEL.version,
+                description: DEFAULT_CHURN_MODEL.model.description,
+            },
+            versions: versions.map(version => ({
+                ...version,
+                description: CHURN_MODELS[version.modelName]?.description ?? null,
+            })),
+        };
+    }
+
+    /**
+     * Backtest results, newest first
+     */
+    static async getModelPerformance(
+        boxId: string,
+        options: { modelName?: string; modelVersion?: string; limit?: number } = {}
+    ) {
+        return db
+            .select()
+            .from(modelPerformanceMetrics)
+            .where(and(
+                eq(modelPerformanceMetrics.boxId, boxId),
+                options.modelName ? eq(modelPerformanceMetrics.modelName, options.modelName) : undefined,
+                options.modelVersion ? eq(modelPerformanceMetrics.modelVersion, options.modelVersion) : undefined
+            ))
+            .orderBy(desc(modelPerformanceMetrics.calculatedAt))
+            .limit(options.limit ?? 50);
+    }
+
+    /**
+     * Promote a model version to active, run it in shadow, or retire it.
+     *
+     * Promoting demotes the current active model to shadow so the two keep being compared.
+     * The active model can't be demoted or retired directly - promote its replacement.
+     */
+    static async setModelStatus(boxId: string, versionId: string, status: ChurnModelStatus) {
+        // Demoting the current active model and promoting its replacement happen together, so a
+        // failure can't leave the box without an active model
+        return withTransaction(async (tx) => {
+            const [version] = await tx
+                .select()
+                .from(churnModelVersions)
+                .where(and(
+                    eq(churnModelVersions.id, versionId),
+                    eq(churnModelVersions.boxId, boxId)
+                ))
+                .limit(1)
+                .for("update");
+
+            if (!version) {
+                throw new ResourceNotFoundError("Churn model version");
+            }
+            if (version.status === status) {
+                return version;
+            }
+            if (version.status === "active") {
+                throw new ValidationError("Promote another model before demoting the active one");
+            }
+            if (!CHURN_MODELS[version.modelName]) {
+                throw new ValidationError(`Unknown churn model: ${version.modelName}`);
+            }
+
+            const now = new Date();
+
+            if (status === "active") {
+                const [currentActive] = await tx
+                    .select({ id: churnModelVersions.id })
+                    .from(churnModelVersions)
+                    .where(and(
+                        eq(churnModelVersions.boxId, boxId),
+                        eq(churnModelVersions.status, "active")
+                    ))
+                    .limit(1)
+                    .for("update");
+
+                if (currentActive) {
+                    await tx
+                        .update(churnModelVersions)
+                        .set({ status: "shadow", updatedAt: now })
+                        .where(eq(churnModelVersions.id, currentActive.id));
+                } else {
+                    await this.registerDefaultModel(tx, boxId);
+                }
+            }
+
+            const [updated] = await tx
+                .update(churnModelVersions)
+                .set({
+                    status,
+                    activatedAt: status === "active" ? now : version.activatedAt,
+                    retiredAt: status === "retired" ? now : null,
+                    updatedAt: now,
+                })
+                .where(eq(churnModelVersions.id, versionId))
+                .returning();
+
+            return updated;
+        }).catch((error) => {
+            // Lost a race with another promotion in a box that had no active model
+            if (isUniqueViolation(error, "churn_model_versions_active_unique")) {
+                throw new ConflictError("Another churn model was just promoted, please retry");
+            }
+            throw error;
+        });
+    }
+
+    /**
+     * Replay the box's history against its models and record the results
+     */
+    static async runBacktest(boxId: string, options: ChurnBacktestOptions = {}) {
+        return processChurnModelBacktest(boxId, options);
+    }
+
+    /**
+     * Register the built-in heuristic as a shadow model when another model first takes
+     * over, so the box keeps a baseline to compare against
+     */
+    private static async registerDefaultModel(tx: DbTransaction, boxId: string) {
+        await tx
+            .insert(churnModelVersions)
+            .values({
+                boxId,
+                modelName: DEFAULT_CHURN_MODEL.name,
+                modelVersion: DEFAULT_CHURN_MODEL.version,
+                status: "shadow",
+                parameters: DEFAULT_CHURN_MODEL.parameters,
+            })
+            .onConflictDoNothing();
+    }
+}
@@ -12,6 +12,7 @@ import {
     mvAthleteProgress
 } from "@/db/schema/views";
 import { eq, desc, and, gte, count, sql } from "drizzle-orm";
+import { addDays, formatLocalDate, getBoxTimezone, localPeriodSql, startOfLocalDay } from "@/lib/dates";
 
 export interface EngagementMetrics {
     score: number;
@@ -287,23 +288,11 @@ export class EngagementAnalyticsService {
         } = {}
     ) {
         const { membershipId, days = 90, granularity = 'weekly' } = options;
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - days);
+        const timezone = await getBoxTimezone(boxId);
+        const startDate = startOfLocalDay(addDays(formatLocalDate(new Date(), timezone), -days), timezone);
 
-        let dateGrouping: string;
-        switch (granularity) {
-            case 'daily':
-                dateGrouping = `DATE(${athleteWellnessCheckins.checkinDate})`;
-                break;
-            case 'weekly':
-                dateGrouping = `DATE_TRUNC('week', ${athleteWellnessCheckins.checkinDate})`;
-                break;
-            case 'monthly':
-                dateGrouping = `DATE_TRUNC('month', ${athleteWellnessCheckins.checkinDate})`;
-                break;
-            default:
-                dateGrouping = `DATE_TRUNC('week', ${athleteWellnessCheckins.checkinDate})`;
-        }
+        // Buckets follow the box's calendar, not UTC
+        const dateGrouping = localPeriodSql(granularity, athleteWellnessCheckins.checkinDate, timezone);
 
         // This is a simplified version - in a real implementation, you might want to
         // aggregate data from multiple sources (checkins, PRs, attendance, etc.)
@@ -318,13 +307,13 @@ export class EngagementAnalyticsService {
 
         const trendData = await db
             .select({
-                period: sql`${dateGrouping}`.as('period'),
+                period: sql<string>`${dateGrouping}`.as('period'),
                 engagementScore: sql<number>`COUNT(*)`.as('engagement_score')
             })
             .from(athleteWellnessCheckins)
             .where(and(...conditions))
-            .groupBy(sql`${dateGrouping}`)
-            .orderBy(sql`${dateGrouping}`);
+            .groupBy(dateGrouping)
+            .orderBy(dateGrouping);
 
         return trendData.map(item => ({
             period: item.period,
@@ -0,0 +1,37 @@
+﻿// lib/services/analytics/financial-impact-service.ts
+import { db } from "@/db";
+import { financialImpactAnalytics } from "@/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { processFinancialImpactAnalytics } from "./calculations/financial-impact-calculations";
+
+export class FinancialImpactService {
+    /**
+     * Monthly financial impact records, newest first
+     */
+    static async getFinancialImpact(boxId: string, months = 12) {
+        return db
+            .select()
+            .from(financialImpactAnalytics)
+            .where(eq(financialImpactAnalytics.boxId, boxId))
+            .orderBy(desc(financialImpactAnalytics.periodStart))
+            .limit(months);
+    }
+
+    /**
+     * Recalculate one month, YYYY-MM (the last complete month by default). Boxes without a
+     * membership price are skipped rather than valued at a made-up price.
+     */
+    static async recalculate(boxId: string, month?: string) {
+        const result = await processFinancialImpactAnalytics(boxId, month);
+
+        if (result.skipped) {
+            throw new TRPCError({
+                code: "PRECONDITION_FAILED",
+                message: "Set a monthly membership price for the box before calculating financial impact"
+            });
+        }
+
+        return result.impact;
+    }
+}
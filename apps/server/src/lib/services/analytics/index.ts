@@ -7,6 +7,10 @@ export { EngagementAnalyticsService } from './engagement-analytics-service';
 export { WellnessAnalyticsService } from './wellness-analytics-service';
 export { RetentionAnalyticsService } from './retention-analytics-service';
 export { BoxAnalyticsService } from './box-analytics-service';
+export { ChurnModelService } from './churn-model-service';
+export { RiskScoringConfigService } from './risk-scoring-config-service';
+export { RetentionForecastService } from './retention-forecast-service';
+export { FinancialImpactService } from './financial-impact-service';
 
 // Main unified service export
 export { AnalyticsService } from './analytics-service';
@@ -14,7 +18,10 @@ export { AnalyticsService } from './analytics-service';
 // Type exports from individual services
 export type {
     RiskLevel,
-    AlertSeverity
+    AlertSeverity,
+    RiskExplanation,
+    RiskExplanationFactor,
+    RiskScoreChange
 } from './risk-analytics-service';
 
 export type {
@@ -47,3 +54,12 @@ export type {
     BillingAnalytics,
     BillingHistory
 } from './box-analytics-service';
+
+export type { ChurnModelStatus } from './churn-model-service';
+
+export type {
+    RiskScoringConfigInput,
+    RiskScorePreview
+} from './risk-scoring-config-service';
+
+export type { SurvivalGrouping } from './retention-forecast-service';
@@ -0,0 +1,187 @@
+﻿// lib/services/analytics/retention-forecast-service.ts
+import {
+    calculateExpectedRemainingMonths,
+    calculateKaplanMeier,
+    fitHazardModel,
+    forecastMemberSurvival,
+    getCurrentCovariates,
+    getSurvivalGroup,
+    loadSurvivalSubjects,
+    predictMonthlyHazard,
+    type HazardModel,
+    type SurvivalCurve,
+    type SurvivalGrouping
+} from "./calculations/survival-analysis-calculations";
+
+export type { SurvivalGrouping };
+
+export const PROJECTION_HORIZONS = [3, 6, 12] as const;
+
+// Months of joins averaged into the expected intake of new members
+const JOIN_RATE_MONTHS = 6;
+
+const Z_95 = 1.96;
+
+export class RetentionForecastService {
+    /**
+     * Kaplan-Meier retention curves for the whole box and per cohort or onboarding segment.
+     * Groups smaller than minGroupSize are left out rather than drawn as noise.
+     */
+    static async getRetentionCurves(
+        boxId: string,
+        options: {
+            groupBy?: SurvivalGrouping;
+            horizonMonths?: number;
+            minGroupSize?: number;
+        } = {}
+    ) {
+        const { groupBy = "cohort", horizonMonths = 12, minGroupSize = 5 } = options;
+
+        const subjects = await loadSurvivalSubjects(boxId);
+
+        const grouped = new Map<string, typeof subjects>();
+        for (const subject of subjects) {
+            const key = getSurvivalGroup(subject, groupBy);
+            if (key === null) continue;
+
+            const group = grouped.get(key) ?? [];
+            group.push(subject);
+            grouped.set(key, group);
+        }
+
+        const groups: Array<SurvivalCurve & { key: string }> = [];
+        let excludedGroups = 0;
+
+        for (const [key, members] of grouped) {
+            if (members.length < minGroupSize) {
+                excludedGroups++;
+                continue;
+            }
+            groups.push({ key, ...calculateKaplanMeier(members, horizonMonths) });
+        }
+
+        groups.sort((a, b) => a.key.localeCompare(b.key));
+
+        return {
+            groupBy,
+            horizonMonths,
+            overall: calculateKaplanMeier(subjects, horizonMonths),
+            groups,
+            excludedGroups,
+        };
+    }
+
+    /**
+     * Expected remaining tenure for every active athlete from the box's hazard model,
+     * shortest first
+     */
+    static async getMemberTenureForecasts(
+        boxId: string,
+        options: {
+            horizonMonths?: number;
+            limit?: number;
+        } = {}
+    ) {
+        const { horizonMonths = 24, limit = 50 } = options;
+
+        const subjects = await loadSurvivalSubjects(boxId);
+        const model = fitHazardModel(subjects);
+
+        const members = subjects
+            .filter(subject => !subject.churned)
+            .map(subject => {
+                const covariates = getCurrentCovariates(subject);
+                const survival = forecastMemberSurvival(model, covariates, Math.max(horizonMonths, 12));
+
+                return {
+                    membershipId: subject.membershipId,
+                    displayName: subject.displayName,
+                    tenureMonths: Math.round(subject.durationMonths * 10) / 10,
+                    monthlyChurnProbability: Math.round(predictMonthlyHazard(model, covariates) * 10000) / 10000,
+                    expectedRemainingMonths: Math.round(calculateExpectedRemainingMonths(survival.slice(0, horizonMonths + 1)) * 10) / 10,
+                    survivalProbability: {
+                        months3: Math.round(survival[3] * 10000) / 10000,
+                        months6: Math.round(survival[6] * 10000) / 10000,
+                        months12: Math.round(survival[12] * 10000) / 10000,
+                    },
+                    covariates: {
+                        attendedLastMonth: Math.round(covariates.attendedLastMonth * 10) / 10,
+                        wellnessScore: covariates.wellnessScore !== null
+                            ? Math.round(covariates.wellnessScore * 1000) / 1000
+                            : null,
+                    },
+                };
+            })
+            .sort((a, b) => a.expectedRemainingMonths - b.expectedRemainingMonths);
+
+        return {
+            horizonMonths,
+            model: RetentionForecastService.describeModel(model),
+            totalMembers: members.length,
+            members: members.slice(0, limit),
+        };
+    }
+
+    /**
+     * Projected active members in 3, 6 and 12 months: today's athletes who are expected to
+     * stay, plus expected new members at the recent join rate retained along the box's
+     * observed curve
+     */
+    static async getActiveMemberProjection(boxId: string) {
+        const subjects = await loadSurvivalSubjects(boxId);
+        const model = fitHazardModel(subjects);
+        const maxHorizon = Math.max(...PROJECTION_HORIZONS);
+
+        const active = subjects.filter(subject => !subject.churned);
+        const survivalByMember = active.map(subject =>
+            forecastMemberSurvival(model, getCurrentCovariates(subject), maxHorizon)
+        );
+
+        const newMemberCurve = calculateKaplanMeier(subjects, maxHorizon).points;
+
+        const joinWindowStart = new Date();
+        joinWindowStart.setMonth(joinWindowStart.getMonth() - JOIN_RATE_MONTHS);
+        const recentJoins = subjects.filter(subject => subject.joinedAt >= joinWindowStart).length;
+        const monthlyJoinRate = recentJoins / JOIN_RATE_MONTHS;
+
+        const projections = PROJECTION_HORIZONS.map(months => {
+            const retained = survivalByMember.reduce((sum, survival) => sum + survival[months], 0);
+            const variance = survivalByMember.reduce((sum, survival) => sum + survival[months] * (1 - survival[months]), 0);
+
+            // Someone joining in month t has been a member for (months - t) months by the horizon
+            let newMemberSurvival = 0;
+            for (let joinMonth = 1; joinMonth <= months; joinMonth++) {
+                newMemberSurvival += newMemberCurve[months - joinMonth].survival;
+            }
+            const expectedNewMembers = monthlyJoinRate * newMemberSurvival;
+            const margin = Z_95 * Math.sqrt(variance);
+
+            return {
+                months,
+                retainedMembers: Math.round(retained * 10) / 10,
+                expectedNewMembers: Math.round(expectedNewMembers * 10) / 10,
+                projectedActiveMembers: Math.round((retained + expectedNewMembers) * 10) / 10,
+                lower: Math.round(Math.max(0, retained - margin + expectedNewMembers) * 10) / 10,
+                upper: Math.round((retained + margin + expectedNewMembers) * 10) / 10,
+            };
+        });
+
+        return {
+            currentActiveMembers: active.length,
+            monthlyJoinRate: Math.round(monthlyJoinRate * 10) / 10,
+            model: RetentionForecastService.describeModel(model),
+            projections,
+        };
+    }
+
+    private static describeModel(model: HazardModel) {
+        return {
+            method: model.method,
+            trainingMemberMonths: model.trainingMemberMonths,
+            trainingChurnEvents: model.trainingChurnEvents,
+            coefficients: model.method === "hazard_model"
+                ? Object.fromEntries(model.featureNames.map((name, i) => [name, model.coefficients[i]]))
+                : null,
+        };
+    }
+}
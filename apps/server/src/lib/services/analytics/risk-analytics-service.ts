@@ -13,8 +13,15 @@ import {
 import {
     vwAthleteRiskOverview
 } from "@/db/schema/views";
-import { eq, desc, and, gte, count, sql, avg } from "drizzle-orm";
+import { eq, desc, and, gte, count, sql, avg, getViewSelectedFields } from "drizzle-orm";
 import type { RiskIndicators } from "@/lib/services/athlete/athlete-service";
+import { formatLocalDate, getBoxTimezone } from "@/lib/dates";
+
+export type {
+    RiskExplanation,
+    RiskExplanationFactor,
+    RiskScoreChange
+} from "@/db/schema/types";
 
 export type RiskLevel = "low" | "medium" | "high" | "critical";
 export type AlertSeverity = "low" | "medium" | "high" | "critical";
@@ -31,6 +38,7 @@ export class RiskAnalyticsService {
             includeRecommendations?: boolean;
         } = {}
     ): Promise<RiskIndicators> {
+        const timezone = await getBoxTimezone(boxId);
         const { lookbackDays = 30, includeRecommendations = true } = options;
 
         const startDate = new Date();
@@ -76,7 +84,7 @@ export class RiskAnalyticsService {
                 .from(wodAttendance)
                 .where(and(
                     eq(wodAttendance.membershipId, athleteId),
-                    gte(wodAttendance.attendanceDate, sql`${startDate}::date`)
+                    gte(wodAttendance.attendanceDate, sql`${formatLocalDate(startDate, timezone)}::date`)
                 )),
 
             db.select({
@@ -215,7 +223,8 @@ export class RiskAnalyticsService {
     }
 
     /**
-     * Get athletes at risk of churning (core SaaS dashboard feature)
+     * Get athletes at risk of churning (core SaaS dashboard feature), each with the
+     * explanation stored alongside their score
      */
     static async getAtRiskAthletes(
         boxId: string,
@@ -247,15 +256,19 @@ export class RiskAnalyticsService {
         }
 
         return db
-            .select()
+            .select({
+                ...getViewSelectedFields(vwAthleteRiskOverview),
+                explanation: athleteRiskScores.explanation
+            })
             .from(vwAthleteRiskOverview)
+            .leftJoin(athleteRiskScores, eq(vwAthleteRiskOverview.riskScoreId, athleteRiskScores.id))
             .where(and(...conditions))
             .orderBy(desc(vwAthleteRiskOverview.overallRiskScore))
             .limit(limit);
     }
 
     /**
-     * Get athlete risk score history
+     * Get athlete risk score history, including each score's explanation
      */
     static async getAthleteRiskHistory(
         boxId: string,
@@ -0,0 +1,206 @@
+﻿// lib/services/analytics/risk-scoring-config-service.ts
+import { db } from "@/db";
+import { boxMemberships, riskScoringConfigs } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { ValidationError } from "@/lib/errors";
+import {
+    RISK_COMPONENTS,
+    getRiskLevel,
+    loadRiskScoringConfig,
+    toRiskScoringConfig,
+    validateRiskScoringConfig,
+    type MissingDataStrategy,
+    type RiskComponent,
+    type RiskLevel,
+    type RiskScoringConfig
+} from "./calculations/risk-scoring-config-calculations";
+import { loadBoxChurnModels, predictChurn } from "./calculations/churn-model-calculations";
+import { extractChurnFeatures } from "./calculations/risk-score-calculations";
+
+/**
+ * Changes to a box's scoring configuration. Anything left out keeps its current value.
+ */
+export interface RiskScoringConfigInput {
+    weights?: Partial<Record<RiskComponent, number>>;
+    enabled?: Partial<Record<RiskComponent, boolean>>;
+    thresholds?: Partial<RiskScoringConfig["thresholds"]>;
+    missingDataStrategy?: MissingDataStrategy;
+    notes?: string;
+}
+
+export interface RiskScorePreview {
+    membershipId: string;
+    displayName: string;
+    current: { riskScore: number; riskLevel: RiskLevel };
+    proposed: { riskScore: number; riskLevel: RiskLevel };
+    change: number;
+}
+
+const PREVIEW_BATCH_SIZE = 10;
+
+export class RiskScoringConfigService {
+    /**
+     * The box's current scoring configuration (the built-in defaults until one is saved)
+     */
+    static async getConfig(boxId: string) {
+        const config = await loadRiskScoringConfig(boxId);
+
+        return {
+            ...config,
+            isDefault: config.version === null,
+        };
+    }
+
+    /**
+     * Every saved version, newest first
+     */
+    static async getConfigHistory(boxId: string) {
+        const rows = await db
+            .select({
+                config: riskScoringConfigs,
+                createdByName: boxMemberships.displayName,
+            })
+            .from(riskScoringConfigs)
+            .leftJoin(boxMemberships, eq(riskScoringConfigs.createdByMembershipId, boxMemberships.id))
+            .where(eq(riskScoringConfigs.boxId, boxId))
+            .orderBy(desc(riskScoringConfigs.version));
+
+        return rows.map(({ config, createdByName }) => ({
+            ...toRiskScoringConfig(config),
+            notes: config.notes,
+            createdByMembershipId: config.createdByMembershipId,
+            createdByName,
+            createdAt: config.createdAt,
+        }));
+    }
+
+    /**
+     * Save changes as a new configuration version. Scores pick it up at their next
+     * recalculation.
+     */
+    static async updateConfig(boxId: string, membershipId: string, input: RiskScoringConfigInput) {
+        const current = await loadRiskScoringConfig(boxId);
+        const proposed = this.mergeConfig(current, input);
+
+        const [saved] = await db
+            .insert(riskScoringConfigs)
+            .values({
+                boxId,
+                version: (current.version ?? 0) + 1,
+                attendanceWeight: proposed.weights.attendance.toFixed(3),
+                wellnessWeight: proposed.weights.wellness.toFixed(3),
+                performanceWeight: proposed.weights.performance.toFixed(3),
+                engagementWeight: proposed.weights.engagement.toFixed(3),
+                attendanceEnabled: proposed.enabled.attendance,
+                wellnessEnabled: proposed.enabled.wellness,
+                performanceEnabled: proposed.enabled.performance,
+                engagementEnabled: proposed.enabled.engagement,
+                mediumThreshold: proposed.thresholds.medium.toFixed(2),
+                highThreshold: proposed.thresholds.high.toFixed(2),
+                criticalThreshold: proposed.thresholds.critical.toFixed(2),
+                missingDataStrategy: proposed.missingDataStrategy,
+                notes: input.notes,
+                createdByMembershipId: membershipId,
+            })
+            .returning();
+
+        return toRiskScoringConfig(saved);
+    }
+
+    /**
+     * Re-score the active roster under the current and the proposed configuration
+     * without saving anything
+     */
+    static async previewConfig(boxId: string, input: RiskScoringConfigInput) {
+        const [current, models] = await Promise.all([
+            loadRiskScoringConfig(boxId),
+            loadBoxChurnModels(boxId),
+        ]);
+        const proposed = this.mergeConfig(current, input);
+
+        const athletes = await db
+            .select({ id: boxMemberships.id, displayName: boxMemberships.displayName })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.boxId, boxId),
+                eq(boxMemberships.role, "athlete"),
+                eq(boxMemberships.isActive, true)
+            ));
+
+        const previews: RiskScorePreview[] = [];
+        let failed = 0;
+
+        for (let i = 0; i < athletes.length; i += PREVIEW_BATCH_SIZE) {
+            const batch = athletes.slice(i, i + PREVIEW_BATCH_SIZE);
+            const results = await Promise.allSettled(
+                batch.map(athlete => extractChurnFeatures(athlete.id, boxId))
+            );
+
+            results.forEach((result, index) => {
+                if (result.status === "rejected") {
+                    failed++;
+                    return;
+                }
+
+                const before = predictChurn(models.active, result.value, current).overallRiskScore;
+                const after = predictChurn(models.active, result.value, proposed).overallRiskScore;
+
+                previews.push({
+                    membershipId: batch[index].id,
+                    displayName: batch[index].displayName,
+                    current: { riskScore: before, riskLevel: getRiskLevel(before, current.thresholds) },
+                    proposed: { riskScore: after, riskLevel: getRiskLevel(after, proposed.thresholds) },
+                    change: Math.round((after - before) * 100) / 100,
+                });
+            });
+        }
+
+        const levels: RiskLevel[] = ["low", "medium", "high", "critical"];
+        const distribution = (side: "current" | "proposed") => Object.fromEntries(
+            levels.map(level => [level, previews.filter(preview => preview[side].riskLevel === level).length])
+        ) as Record<RiskLevel, number>;
+
+        return {
+            model: { name: models.active.name, version: models.active.version },
+            current,
+            proposed,
+            summary: {
+                athletesScored: previews.length,
+                failed,
+                levelChanges: previews.filter(preview => preview.current.riskLevel !== preview.proposed.riskLevel).length,
+                avgChange: previews.length > 0
+                    ? Math.round(previews.reduce((sum, preview) => sum + preview.change, 0) / previews.length * 100) / 100
+                    : 0,
+                currentDistribution: distribution("current"),
+                proposedDistribution: distribution("proposed"),
+            },
+            athletes: previews.sort((a, b) => Math.abs(b.change) - Math.abs(a.change)),
+        };
+    }
+
+    private static mergeConfig(current: RiskScoringConfig, input: RiskScoringConfigInput): RiskScoringConfig {
+        const merged: RiskScoringConfig = {
+            version: current.version,
+            weights: { ...current.weights },
+            enabled: { ...current.enabled },
+            thresholds: {
+                medium: input.thresholds?.medium ?? current.thresholds.medium,
+                high: input.thresholds?.high ?? current.thresholds.high,
+                critical: input.thresholds?.critical ?? current.thresholds.critical,
+            },
+            missingDataStrategy: input.missingDataStrategy ?? current.missingDataStrategy,
+        };
+
+        for (const component of RISK_COMPONENTS) {
+            merged.weights[component] = input.weights?.[component] ?? merged.weights[component];
+            merged.enabled[component] = input.enabled?.[component] ?? merged.enabled[component];
+        }
+
+        const error = validateRiskScoringConfig(merged);
+        if (error) {
+            throw new ValidationError(error);
+        }
+
+        return merged;
+    }
+}
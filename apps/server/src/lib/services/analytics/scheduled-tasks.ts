@@ -9,6 +9,9 @@ import {
     updateBoxCurrentCounts,
     type AnalyticsPeriod
 } from "./analytics-calculations";
+import { processChurnModelBacktest, processFinancialImpactAnalytics } from "./calculations";
+import { BoxScheduleService } from "@/lib/services/box/box-schedule-service";
+import { AthleteLeaderboardService } from "@/lib/services/athlete/athlete-leaderboard-service";
 
 interface TaskResult {
     boxId: string;
@@ -53,16 +56,24 @@ export async function runDailyAnalyticsTasks(env: any): Promise<void> {
                 const countMetrics = await updateBoxCurrentCounts(boxId);
                 console.log(`[Scheduled Task] Updated counts for box ${boxName}: ${countMetrics.athleteCount} athletes, ${countMetrics.coachCount} coaches`);
 
-                // 2. Calculate and store daily analytics snapshot
+                // 2. Derive attendance from finished classes before the snapshot reads it
+                const scheduleMetrics = await BoxScheduleService.finalizeEndedClasses(boxId);
+                const generated = await BoxScheduleService.generateClassInstances(boxId);
+                console.log(`[Scheduled Task] Finalized ${scheduleMetrics.classesFinalized} classes and generated ${generated.created} upcoming classes for box ${boxName}`);
+
+                // 3. Calculate and store daily analytics snapshot
                 await processBoxAnalyticsSnapshot(boxId, "daily");
 
+                // 4. Refresh streak leaderboards (streaks change without new results being logged)
+                const leaderboardMetrics = await AthleteLeaderboardService.refreshStreakLeaderboards(boxId);
+
                 const boxDuration = Date.now() - boxStartTime;
                 console.log(`[Scheduled Task] Completed daily analytics for box ${boxName} in ${boxDuration}ms`);
 
                 results.push({
                     boxId,
                     success: true,
-                    metrics: { ...countMetrics, processingTime: boxDuration }
+                    metrics: { ...countMetrics, ...scheduleMetrics, ...leaderboardMetrics, processingTime: boxDuration }
                 });
 
             } catch (error) {
@@ -77,7 +88,7 @@ export async function runDailyAnalyticsTasks(env: any): Promise<void> {
             }
         }
 
-        // 3. Cleanup expired risk scores (global task)
+        // 5. Cleanup expired risk scores (global task)
         try {
             await cleanupExpiredRiskScores();
             console.log("[Scheduled Task] Completed expired risk score cleanup");
@@ -216,19 +227,50 @@ export async function runMonthlyAnalyticsTasks(env: any): Promise<void> {
                 await processBoxAnalyticsSnapshot(boxId, "monthly");
                 console.log(`[Scheduled Task] Completed monthly snapshot for box ${boxName}`);
 
-                // 2. Additional monthly tasks can be added here:
+                // The remaining steps are independent, so one failing doesn't skip the others
+                const stepErrors: string[] = [];
+
+                // 2. Replay history against the box's churn models and retrain the box's logistic regression
+                let churnModelsEvaluated = 0;
+                try {
+                    const backtest = await processChurnModelBacktest(boxId);
+                    churnModelsEvaluated = backtest.modelsEvaluated;
+                    console.log(`[Scheduled Task] Backtested ${backtest.modelsEvaluated} churn models for box ${boxName}`);
+                } catch (error) {
+                    console.error(`[Scheduled Task] Error backtesting churn models for box ${boxName}:`, error);
+                    stepErrors.push(`Churn model backtest: ${error instanceof Error ? error.message : String(error)}`);
+                }
+
+                // 3. Revenue, churn losses and intervention savings for the month that just ended
+                let financialImpactCalculated = false;
+                try {
+                    const financialImpact = await processFinancialImpactAnalytics(boxId);
+                    financialImpactCalculated = !financialImpact.skipped;
+                    if (financialImpactCalculated) {
+                        console.log(`[Scheduled Task] Completed financial impact for box ${boxName}`);
+                    }
+                } catch (error) {
+                    console.error(`[Scheduled Task] Error calculating financial impact for box ${boxName}:`, error);
+                    stepErrors.push(`Financial impact: ${error instanceof Error ? error.message : String(error)}`);
+                }
+
+                // 4. Additional monthly tasks can be added here:
                 // - Cohort analysis
                 // - Subscription health metrics
                 // - Long-term trend analysis
-                // - Revenue analytics
 
                 const boxDuration = Date.now() - boxStartTime;
                 console.log(`[Scheduled Task] Completed monthly analytics for box ${boxName} in ${boxDuration}ms`);
 
                 results.push({
                     boxId,
-                    success: true,
-                    metrics: { processingTime: boxDuration }
+                    success: stepErrors.length === 0,
+                    error: stepErrors.length > 0 ? stepErrors.join("; ") : undefined,
+                    metrics: {
+                        churnModelsEvaluated,
+                        financialImpactCalculated,
+                        processingTime: boxDuration
+                    }
                 });
 
             } catch (error) {
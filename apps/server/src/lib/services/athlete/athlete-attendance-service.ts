@@ -1,19 +1,24 @@
 // lib/services/athlete-attendance-service.ts
-import { db } from "@/db";
-import {wodAttendance} from "@/db/schema";
-import {sql} from "drizzle-orm";
+import { db, withTransaction } from "@/db";
+import {classInstances, classReservations, wodAttendance} from "@/db/schema";
+import {and, desc, eq, gte, ne, sql} from "drizzle-orm";
+import { BoxProgrammingService } from "@/lib/services/box/box-programming-service";
+import { fromScoreColumns, parseWorkoutScore, toScoreColumns } from "@/lib/services/athlete/workout-score";
+import { addDays, formatLocalDate, getBoxTimezone } from "@/lib/dates";
 
 export class AthleteAttendanceService {
     /**
-     * Track WOD attendance
+     * Track WOD attendance. When a class is scheduled at `wodTime` the athlete's reservation for it
+     * is updated to match, so finalizing the class doesn't record the session a second time.
      */
     static async recordAttendance(
         boxId: string,
         athleteId: string,
         attendanceData: {
-            wodName: string;
+            programmedWorkoutId?: string;
+            wodName?: string;
             wodTime: Date;
-            attendanceDate: Date;
+            attendanceDate: string; // Box-local YYYY-MM-DD
             status: 'attended' | 'no_show' | 'late_cancel' | 'excused';
             checkedInAt?: Date;
             durationMinutes?: number;
@@ -24,25 +29,159 @@ export class AthleteAttendanceService {
             coachMembershipId?: string;
         }
     ) {
-        const [attendance] = await db
-            .insert(wodAttendance)
-            .values({
-                boxId,
-                membershipId: athleteId,
-                wodName: attendanceData.wodName,
-                wodTime: sql`${attendanceData.wodTime.toISOString()}::timestamp with time zone`,
-                attendanceDate: sql`${attendanceData.attendanceDate.toISOString().split('T')[0]}::date`,
-                status: attendanceData.status,
-                checkedInAt: attendanceData.checkedInAt ? sql`${attendanceData.checkedInAt.toISOString()}::timestamp with time zone` : null,
-                durationMinutes: attendanceData.durationMinutes,
-                scaled: attendanceData.scaled || false,
-                rx: attendanceData.rx || false,
-                score: attendanceData.score,
-                notes: attendanceData.notes,
-                coachMembershipId: attendanceData.coachMembershipId,
+        const workout = await BoxProgrammingService.resolveWorkoutReference(boxId, {
+            programmedWorkoutId: attendanceData.programmedWorkoutId,
+            wodName: attendanceData.wodName,
+        });
+        const score = attendanceData.score
+            ? parseWorkoutScore(attendanceData.score, {
+                scoringType: workout.scoring?.scoringType,
+                timeCapSeconds: workout.scoring?.timeCapSeconds,
             })
-            .returning();
+            : null;
 
-        return attendance;
+        const values = {
+            boxId,
+            membershipId: athleteId,
+            wodName: workout.wodName,
+            programmedWorkoutId: workout.programmedWorkoutId,
+            wodTime: sql`${attendanceData.wodTime.toISOString()}::timestamp with time zone`,
+            attendanceDate: attendanceData.attendanceDate,
+            status: attendanceData.status,
+            checkedInAt: attendanceData.checkedInAt ? sql`${attendanceData.checkedInAt.toISOString()}::timestamp with time zone` : null,
+            durationMinutes: attendanceData.durationMinutes,
+            scaled: attendanceData.scaled || false,
+            rx: attendanceData.rx || false,
+            score: attendanceData.score,
+            ...toScoreColumns(score),
+            notes: attendanceData.notes,
+            coachMembershipId: attendanceData.coachMembershipId,
+        };
+
+        return withTransaction(async (tx) => {
+            // A scheduled class at this time already counts the athlete through its reservation at finalize,
+            // so the manual record goes on that reservation instead of standing next to it
+            const [scheduled] = await tx
+                .select({
+                    classInstanceId: classInstances.id,
+                    reservationId: classReservations.id,
+                })
+                .from(classInstances)
+                .leftJoin(classReservations, and(
+                    eq(classReservations.classInstanceId, classInstances.id),
+                    eq(classReservations.membershipId, athleteId)
+                ))
+                .where(and(
+                    eq(classInstances.boxId, boxId),
+                    eq(classInstances.startsAt, attendanceData.wodTime),
+                    ne(classInstances.status, "cancelled")
+                ))
+                .orderBy(sql`${classReservations.id} IS NULL`)
+                .limit(1);
+
+            if (!scheduled) {
+                const [attendance] = await tx
+                    .insert(wodAttendance)
+                    .values(values)
+                    .returning();
+
+                return attendance;
+            }
+
+            const now = new Date();
+            // An excused absence carries no penalty, like a cancellation in time
+            const reservationStatus = attendanceData.status === 'excused' ? 'cancelled' : attendanceData.status;
+            const checkIn = attendanceData.status === 'attended'
+                ? { checkedInAt: attendanceData.checkedInAt ?? now, checkedInByMembershipId: attendanceData.coachMembershipId }
+                : { checkedInAt: null, checkedInByMembershipId: null };
+
+            const [reservation] = scheduled.reservationId
+                ? await tx
+                    .update(classReservations)
+                    .set({
+                        status: reservationStatus,
+                        ...checkIn,
+                        cancelledAt: reservationStatus === 'cancelled' || reservationStatus === 'late_cancel' ? now : null,
+                        updatedAt: now,
+                    })
+                    .where(eq(classReservations.id, scheduled.reservationId))
+                    .returning({ id: classReservations.id })
+                : await tx
+                    .insert(classReservations)
+                    .values({
+                        boxId,
+                        classInstanceId: scheduled.classInstanceId,
+                        membershipId: athleteId,
+                        status: reservationStatus,
+                        isWalkIn: attendanceData.status === 'attended',
+                        reservedAt: now,
+                        ...checkIn,
+                        cancelledAt: reservationStatus === 'cancelled' || reservationStatus === 'late_cancel' ? now : null,
+                    })
+                    .returning({ id: classReservations.id });
+
+            const [attendance] = await tx
+                .insert(wodAttendance)
+                .values({
+                    ...values,
+                    classInstanceId: scheduled.classInstanceId,
+                    reservationId: reservation.id,
+                })
+                .onConflictDoUpdate({
+                    target: wodAttendance.reservationId,
+                    set: {
+                        ...values,
+                        updatedAt: now,
+                    }
+                })
+                .returning();
+
+            return attendance;
+        });
+    }
+
+    /**
+     * Attendance history for the last `days` box-local days, newest first, with the
+     * normalized score and a summary over the returned sessions
+     */
+    static async getAttendanceHistory(
+        boxId: string,
+        athleteId: string,
+        options: {
+            days: number;
+            status?: 'attended' | 'no_show' | 'late_cancel' | 'excused';
+            limit: number;
+        }
+    ) {
+        const timezone = await getBoxTimezone(boxId);
+        const dateFrom = addDays(formatLocalDate(new Date(), timezone), -options.days);
+
+        const rows = await db
+            .select()
+            .from(wodAttendance)
+            .where(
+                and(
+                    eq(wodAttendance.boxId, boxId),
+                    eq(wodAttendance.membershipId, athleteId),
+                    gte(wodAttendance.attendanceDate, dateFrom),
+                    options.status ? eq(wodAttendance.status, options.status) : undefined
+                )
+            )
+            .orderBy(desc(wodAttendance.attendanceDate), desc(wodAttendance.wodTime))
+            .limit(options.limit);
+
+        const attendance = rows.map(row => ({ ...row, parsedScore: fromScoreColumns(row) }));
+        const attendedSessions = rows.filter(row => row.status === 'attended').length;
+
+        return {
+            attendance,
+            summary: {
+                totalSessions: rows.length,
+                attendedSessions,
+                attendanceRate: rows.length > 0 ? Math.round((attendedSessions / rows.length) * 100) : 0,
+                noShows: rows.filter(row => row.status === 'no_show').length,
+                lateCancellations: rows.filter(row => row.status === 'late_cancel').length,
+            }
+        };
     }
 }
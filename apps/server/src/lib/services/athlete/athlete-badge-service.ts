@@ -1,7 +1,8 @@
 // lib/services/athlete-badge-service.ts - Enhanced for Video Strategy Gamification
 import { athleteBadges, athletePrs, boxMemberships } from "@/db/schema";
 import { and, desc, eq, count, gte, sql } from "drizzle-orm";
-import { db } from "@/db";
+import { db, type DbTransaction } from "@/db";
+import { getBoxTimezone, localPeriodSql } from "@/lib/dates";
 
 export interface BadgeWithProgress {
     badge?: typeof athleteBadges.$inferSelect;
@@ -90,10 +91,14 @@ export class AthleteBadgeService {
             achievedValue?: string;
             tier?: number;
             isAutoAwarded?: boolean;
-        }
+            uniquePerAchievedValue?: boolean; // e.g. one badge per challenge rather than one per tier
+        },
+        tx?: DbTransaction // Award as part of the caller's transaction
     ) {
+        const executor = tx ?? db;
+
         // Check if badge already exists for this tier
-        const existingBadge = await db
+        const existingBadge = await executor
             .select()
             .from(athleteBadges)
             .where(
@@ -101,7 +106,10 @@ export class AthleteBadgeService {
                     eq(athleteBadges.boxId, boxId),
                     eq(athleteBadges.membershipId, athleteId),
                     eq(athleteBadges.badgeType, badgeData.badgeType as any),
-                    eq(athleteBadges.tier, badgeData.tier || 1)
+                    eq(athleteBadges.tier, badgeData.tier || 1),
+                    badgeData.uniquePerAchievedValue && badgeData.achievedValue
+                        ? eq(athleteBadges.achievedValue, badgeData.achievedValue)
+                        : undefined
                 )
             )
             .limit(1);
@@ -110,7 +118,7 @@ export class AthleteBadgeService {
             return existingBadge[0]; // Badge already awarded
         }
 
-        const [badge] = await db
+        const [badge] = await executor
             .insert(athleteBadges)
             .values({
                 boxId,
@@ -268,10 +276,11 @@ export class AthleteBadgeService {
      * Calculate video consistency streak
      */
     private static async calculateVideoStreak(boxId: string, athleteId: string) {
-        // Get video PRs grouped by month
+        // Get video PRs grouped by month (box-local)
+        const month = localPeriodSql("monthly", athletePrs.achievedAt, await getBoxTimezone(boxId));
         const monthlyVideoPrs = await db
             .select({
-                month: sql<string>`DATE_TRUNC('month', ${athletePrs.achievedAt})`,
+                month,
                 count: count()
             })
             .from(athletePrs)
@@ -280,8 +289,8 @@ export class AthleteBadgeService {
                 eq(athletePrs.membershipId, athleteId),
                 sql`${athletePrs.gumletAssetId} IS NOT NULL`
             ))
-            .groupBy(sql`DATE_TRUNC('month', ${athletePrs.achievedAt})`)
-            .orderBy(desc(sql`DATE_TRUNC('month', ${athletePrs.achievedAt})`));
+            .groupBy(month)
+            .orderBy(desc(month));
 
         if (monthlyVideoPrs.length === 0) {
             return { currentStreak: 0, longestStreak: 0 };
@@ -296,8 +305,8 @@ export class AthleteBadgeService {
             const recordMonth = new Date(record.month);
 
             if (lastMonth) {
-                const monthDiff = (lastMonth.getFullYear() - recordMonth.getFullYear()) * 12 +
-                    (lastMonth.getMonth() - recordMonth.getMonth());
+                const monthDiff = (lastMonth.getUTCFullYear() - recordMonth.getUTCFullYear()) * 12 +
+                    (lastMonth.getUTCMonth() - recordMonth.getUTCMonth());
 
                 if (monthDiff === 1) {
                     tempStreak++;
@@ -1,46 +1,158 @@
 // lib/services/athlete-benchmark-service.ts
 import { db } from "@/db";
 import { athleteBenchmarks, benchmarkWods } from "@/db/schema";
-import { eq, and, desc, gte } from "drizzle-orm";
+import { eq, and, asc, desc, gte } from "drizzle-orm";
+import { BoxProgrammingService } from "@/lib/services/box/box-programming-service";
+import { AthleteLeaderboardService } from "./athlete-leaderboard-service";
+import { AthleteCoreService } from "./athlete-core-service";
+import { CANONICAL_WEIGHT_UNIT, toCanonicalLoad, toDisplayLoad, type WeightUnit } from "./units";
+import {
+    benchmarkTypeToScoringType,
+    compareWorkoutScores,
+    formatScoreValue,
+    normalizeNumericScore,
+    parseWorkoutScore,
+    type ParsedWorkoutScore
+} from "@/lib/services/athlete/workout-score";
+
+type BenchmarkResultInput =
+    | { score: string; timeCapSeconds?: number }
+    | { value: number; valueType: "time" | "rounds_reps" | "weight" };
+
+interface BenchmarkResultOptions {
+    scaled?: boolean;
+    scalingNotes?: string;
+    notes?: string;
+    coachNotes?: string;
+    achievedAt?: Date;
+    programmedWorkoutId?: string; // Workout the benchmark was performed in
+}
 
 export class AthleteBenchmarkService {
     /**
-     * Log benchmark result with consistent naming
+     * Log benchmark result. Scores are normalized against the benchmark's scoring type:
+     * either free text ("4:32", "12+7", "CAP+15") or an already canonical numeric value.
      */
     static async logBenchmarkResult(
         boxId: string,
         athleteId: string,
         benchmarkId: string,
-        value: number,
-        valueType: "time" | "rounds_reps" | "weight",
-        options: {
-            scaled?: boolean;
-            scalingNotes?: string;
-            notes?: string;
-            coachNotes?: string;
-            achievedAt?: Date;
-        } = {}
+        result: BenchmarkResultInput,
+        options: BenchmarkResultOptions = {}
     ) {
-        const publicId = crypto.randomUUID();
+        const { values, display } = await AthleteBenchmarkService.prepareBenchmarkResult(
+            boxId,
+            athleteId,
+            benchmarkId,
+            result,
+            options
+        );
 
         const [benchmarkResult] = await db
             .insert(athleteBenchmarks)
-            .values({
+            .values(values)
+            .returning();
+
+        await AthleteBenchmarkService.refreshBenchmarkLeaderboards(benchmarkResult);
+
+        return { ...benchmarkResult, display };
+    }
+
+    /**
+     * Validate and normalize a benchmark result into the row to insert, for callers that write it
+     * in their own transaction (then call refreshBenchmarkLeaderboards once it's committed)
+     */
+    static async prepareBenchmarkResult(
+        boxId: string,
+        athleteId: string,
+        benchmarkId: string,
+        result: BenchmarkResultInput,
+        options: BenchmarkResultOptions = {}
+    ): Promise<{ values: typeof athleteBenchmarks.$inferInsert; display: string }> {
+        const [benchmark] = await db
+            .select({ type: benchmarkWods.type })
+            .from(benchmarkWods)
+            .where(eq(benchmarkWods.id, benchmarkId))
+            .limit(1);
+
+        if (!benchmark) {
+            throw new Error("Benchmark not found");
+        }
+
+        const expectedType = benchmarkTypeToScoringType(benchmark.type);
+
+        let score: ParsedWorkoutScore | null;
+        if ("score" in result) {
+            score = parseWorkoutScore(result.score, {
+                scoringType: expectedType,
+                timeCapSeconds: result.timeCapSeconds,
+            });
+        } else {
+            const scoreType = result.valueType === "weight" ? "load" : result.valueType;
+            score = !expectedType || expectedType === scoreType
+                ? normalizeNumericScore(result.value, scoreType)
+                : null;
+        }
+
+        if (!score) {
+            throw new Error("Score doesn't match the benchmark scoring type");
+        }
+
+        // Loads are stored in kg; unitless loads are taken to be in the athlete's unit
+        const storedValue = score.scoreType === "load"
+            ? toCanonicalLoad(score.value, score.unit ?? await AthleteCoreService.getMembershipWeightUnit(athleteId)).value
+            : score.value;
+
+        if (options.programmedWorkoutId) {
+            await BoxProgrammingService.resolveWorkoutReference(boxId, {
+                programmedWorkoutId: options.programmedWorkoutId,
+            });
+        }
+
+        return {
+            values: {
                 boxId,
                 membershipId: athleteId,
                 benchmarkId,
-                value: value.toString(),
-                valueType,
+                value: storedValue.toString(),
+                unit: score.scoreType === "load" ? CANONICAL_WEIGHT_UNIT : null,
+                valueType: score.scoreType === "load" ? "weight" : score.scoreType,
+                rawScore: "score" in result ? result.score.trim() : null,
+                sortDirection: score.sortDirection,
+                tiebreakSeconds: score.tiebreakSeconds,
+                isCapped: score.isCapped,
                 scaled: options.scaled || false,
                 scalingNotes: options.scalingNotes,
                 notes: options.notes,
                 coachNotes: options.coachNotes,
                 achievedAt: options.achievedAt || new Date(),
-                publicId,
-            })
-            .returning();
+                programmedWorkoutId: options.programmedWorkoutId,
+                publicId: crypto.randomUUID(),
+            },
+            display: score.display,
+        };
+    }
 
-        return benchmarkResult;
+    /**
+     * Update the box's benchmark leaderboards with a saved result
+     */
+    static async refreshBenchmarkLeaderboards(benchmarkResult: typeof athleteBenchmarks.$inferSelect) {
+        // The result is already saved, so a failed refresh must not fail the request
+        try {
+            await AthleteLeaderboardService.refreshLeaderboardsForResult(
+                benchmarkResult.boxId,
+                { type: "benchmark", benchmarkId: benchmarkResult.benchmarkId },
+                {
+                    membershipId: benchmarkResult.membershipId,
+                    value: Number(benchmarkResult.value),
+                    tiebreakSeconds: benchmarkResult.tiebreakSeconds,
+                    scaled: benchmarkResult.scaled,
+                    achievedAt: benchmarkResult.achievedAt,
+                }
+            );
+        } catch (error) {
+            console.error("[Leaderboards] Failed to refresh benchmark leaderboards:", error);
+        }
     }
 
     /**
@@ -50,12 +162,13 @@ export class AthleteBenchmarkService {
         boxId: string,
         athleteId: string,
         days: number = 30,
-        limit: number = 10
+        limit: number = 10,
+        unit: WeightUnit = CANONICAL_WEIGHT_UNIT
     ) {
         const dateFrom = new Date();
         dateFrom.setDate(dateFrom.getDate() - days);
 
-        return db
+        const results = await db
             .select({
                 benchmark: athleteBenchmarks,
                 benchmarkWod: benchmarkWods,
@@ -71,5 +184,90 @@ export class AthleteBenchmarkService {
             )
             .orderBy(desc(athleteBenchmarks.achievedAt))
             .limit(limit);
+
+        return results.map(result => ({
+            ...result,
+            benchmark: AthleteBenchmarkService.toDisplayUnit(result.benchmark, unit),
+            display: AthleteBenchmarkService.formatBenchmarkScore(result.benchmark, unit),
+        }));
+    }
+
+    /**
+     * Get every attempt at a benchmark with the best result and change since the previous attempt.
+     * Improvement respects the score's sort direction, so a faster time is a positive change.
+     */
+    static async getBenchmarkHistory(boxId: string, athleteId: string, benchmarkId: string) {
+        const attempts = await db
+            .select()
+            .from(athleteBenchmarks)
+            .where(and(
+                eq(athleteBenchmarks.boxId, boxId),
+                eq(athleteBenchmarks.membershipId, athleteId),
+                eq(athleteBenchmarks.benchmarkId, benchmarkId)
+            ))
+            .orderBy(asc(athleteBenchmarks.achievedAt));
+
+        const scored = attempts.map(attempt => ({
+            attempt,
+            score: {
+                value: Number(attempt.value),
+                sortDirection: attempt.sortDirection,
+                tiebreakSeconds: attempt.tiebreakSeconds,
+            },
+        }));
+
+        const history = scored.map(({ attempt, score }, index) => {
+            const previous = index > 0 ? scored[index - 1].score : null;
+            const improvementPercent = previous && previous.value > 0
+                ? ((score.sortDirection === "asc" ? previous.value - score.value : score.value - previous.value)
+                    / previous.value) * 100
+                : null;
+
+            return {
+                ...attempt,
+                display: AthleteBenchmarkService.formatBenchmarkScore(attempt),
+                improvementPercent: improvementPercent !== null ? Math.round(improvementPercent * 10) / 10 : null,
+            };
+        });
+
+        const best = scored.length > 0
+            ? [...scored].sort((a, b) => compareWorkoutScores(a.score, b.score))[0].attempt
+            : null;
+
+        return {
+            attempts: history,
+            best: best ? { ...best, display: AthleteBenchmarkService.formatBenchmarkScore(best) } : null,
+            totalAttempts: attempts.length,
+        };
+    }
+
+    /**
+     * Display text for a stored benchmark result, preferring what the athlete entered
+     */
+    static formatBenchmarkScore(
+        result: typeof athleteBenchmarks.$inferSelect,
+        unit: WeightUnit = CANONICAL_WEIGHT_UNIT
+    ): string {
+        if (result.rawScore) {
+            return result.rawScore;
+        }
+
+        const scoreType = benchmarkTypeToScoringType(result.valueType);
+        if (scoreType === "load") {
+            return formatScoreValue(scoreType, toDisplayLoad(result.value, CANONICAL_WEIGHT_UNIT, unit).value, { unit });
+        }
+
+        return scoreType
+            ? formatScoreValue(scoreType, Number(result.value), { isCapped: result.isCapped })
+            : result.value;
+    }
+
+    /**
+     * Load results converted from kg to the viewer's unit; other score types are unchanged
+     */
+    static toDisplayUnit(result: typeof athleteBenchmarks.$inferSelect, unit: WeightUnit) {
+        if (benchmarkTypeToScoringType(result.valueType) !== "load") return result;
+
+        return { ...result, value: toDisplayLoad(result.value, CANONICAL_WEIGHT_UNIT, unit).value.toString() };
     }
 }
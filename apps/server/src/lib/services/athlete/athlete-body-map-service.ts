@@ -0,0 +1,411 @@
+﻿// lib/services/athlete/athlete-body-map-service.ts
+import { db } from "@/db";
+import {
+    athletePainEntries,
+    athleteSorenessEntries,
+    athleteWellnessCheckins,
+    boxMemberships,
+    movements,
+    programmedWorkoutMovements,
+    programmedWorkoutParts,
+    wodAttendance,
+    wodFeedback,
+    wodPainEntries
+} from "@/db/schema";
+import { and, count, eq, gte, inArray, isNotNull, ne, or, sql, type AnyColumn } from "drizzle-orm";
+import { addDays, formatLocalDate, getBoxTimezone, localDateSql, startOfLocalDay } from "@/lib/dates";
+import {
+    BODY_PART_VIEWS,
+    detectPainPatterns,
+    HEAVY_PERCENTAGE,
+    HEAVY_SESSION_RPE,
+    type BodyPart,
+    type BodyView,
+    type HeavyDay,
+    type MovementCategory,
+    type PainDay,
+    type PainPattern
+} from "./body-map";
+
+export type BodyReportType = "soreness" | "pain" | "both";
+
+export interface BodyPartSeriesPoint {
+    date: string; // Box-local YYYY-MM-DD, only days with reports
+    reports: number;
+    avgSeverity: number;
+    maxSeverity: number;
+}
+
+export interface BodyPartHeat {
+    bodyPart: BodyPart;
+    views: BodyView[];
+    reports: number;
+    athletesAffected: number;
+    avgSeverity: number;
+    maxSeverity: number;
+    intensity: number; // 0-1, relative to the most affected body part
+    series: BodyPartSeriesPoint[];
+}
+
+export type BodyHeatmapCell = Omit<BodyPartHeat, "views" | "series">;
+
+export interface AthletePainPattern extends PainPattern {
+    membershipId: string;
+    displayName: string;
+}
+
+type AggregatedRow = {
+    bodyPart: BodyPart;
+    date: string;
+    reports: number;
+    totalSeverity: number;
+    maxSeverity: number;
+    athleteIds: string[];
+};
+
+// Patterns only look at categories that are loaded and repeatable
+const PATTERN_CATEGORIES: MovementCategory[] = ["squat", "deadlift", "press", "olympic", "gymnastics"];
+
+export class AthleteBodyMapService {
+    /**
+     * Soreness/pain per body part over the last `days`, aggregated in SQL per box-local day,
+     * for one athlete or the whole box, laid out for a front/back body heatmap
+     */
+    static async getBodyPartHeatmap(
+        boxId: string,
+        options: {
+            athleteId?: string;
+            days?: number;
+            type?: BodyReportType;
+        } = {}
+    ) {
+        const days = options.days ?? 30;
+        const type = options.type ?? "both";
+        const timezone = await getBoxTimezone(boxId);
+        const to = formatLocalDate(new Date(), timezone);
+        const from = addDays(to, -(days - 1));
+        const since = startOfLocalDay(from, timezone);
+
+        const checkinFilter = and(
+            eq(athleteWellnessCheckins.boxId, boxId),
+            options.athleteId ? eq(athleteWellnessCheckins.membershipId, options.athleteId) : undefined,
+            gte(athleteWellnessCheckins.checkinDate, since)
+        );
+        const checkinDate = localDateSql(athleteWellnessCheckins.checkinDate, timezone);
+
+        const [soreness, checkinPain, wodPain] = await Promise.all([
+            type === "pain" ? [] : db
+                .select({
+                    bodyPart: athleteSorenessEntries.bodyPart,
+                    date: checkinDate,
+                    ...AthleteBodyMapService.severityAggregates(athleteSorenessEntries.severity, athleteWellnessCheckins.membershipId),
+                })
+                .from(athleteSorenessEntries)
+                .innerJoin(athleteWellnessCheckins, eq(athleteSorenessEntries.checkinId, athleteWellnessCheckins.id))
+                .where(checkinFilter)
+                .groupBy(athleteSorenessEntries.bodyPart, checkinDate),
+            type === "soreness" ? [] : db
+                .select({
+                    bodyPart: athletePainEntries.bodyPart,
+                    date: checkinDate,
+                    ...AthleteBodyMapService.severityAggregates(athletePainEntries.severity, athleteWellnessCheckins.membershipId),
+                })
+                .from(athletePainEntries)
+                .innerJoin(athleteWellnessCheckins, eq(athletePainEntries.checkinId, athleteWellnessCheckins.id))
+                .where(checkinFilter)
+                .groupBy(athletePainEntries.bodyPart, checkinDate),
+            type === "soreness" ? [] : AthleteBodyMapService.aggregateWodPain(boxId, timezone, since, options.athleteId),
+        ]);
+
+        const bodyParts = AthleteBodyMapService.buildHeat([...soreness, ...checkinPain, ...wodPain]);
+
+        const totalReports = bodyParts.reduce((total, part) => total + part.reports, 0);
+        const heatmap: Record<BodyView, BodyHeatmapCell[]> = { front: [], back: [] };
+        for (const part of bodyParts) {
+            for (const view of part.views) {
+                heatmap[view].push({
+                    bodyPart: part.bodyPart,
+                    reports: part.reports,
+                    athletesAffected: part.athletesAffected,
+                    avgSeverity: part.avgSeverity,
+                    maxSeverity: part.maxSeverity,
+                    intensity: part.intensity,
+                });
+            }
+        }
+
+        return {
+            scope: options.athleteId ? "athlete" as const : "box" as const,
+            type,
+            from,
+            to,
+            bodyParts,
+            heatmap,
+            summary: {
+                totalReports,
+                uniqueBodyParts: bodyParts.length,
+                mostAffectedBodyPart: bodyParts[0]?.bodyPart ?? null,
+            },
+        };
+    }
+
+    /**
+     * Recurring pain that follows heavy days for a movement category, per athlete
+     * (or across every athlete in the box), strongest pattern first
+     */
+    static async getPainPatterns(
+        boxId: string,
+        options: {
+            athleteId?: string;
+            days?: number;
+        } = {}
+    ): Promise<AthletePainPattern[]> {
+        const days = options.days ?? 60;
+        const timezone = await getBoxTimezone(boxId);
+        const to = formatLocalDate(new Date(), timezone);
+        const from = addDays(to, -(days - 1));
+        const since = startOfLocalDay(from, timezone);
+
+        const [heavyDays, painDays] = await Promise.all([
+            AthleteBodyMapService.getHeavyDays(boxId, timezone, from, since, options.athleteId),
+            AthleteBodyMapService.getPainDays(boxId, timezone, since, options.athleteId),
+        ]);
+
+        const athleteIds = [...painDays.keys()].filter(id => heavyDays.has(id));
+        if (athleteIds.length === 0) return [];
+
+        const members = await db
+            .select({ id: boxMemberships.id, displayName: boxMemberships.displayName })
+            .from(boxMemberships)
+            .where(and(eq(boxMemberships.boxId, boxId), inArray(boxMemberships.id, athleteIds)));
+
+        const patterns: AthletePainPattern[] = [];
+        for (const member of members) {
+            const detected = detectPainPatterns(
+                heavyDays.get(member.id) ?? [],
+                painDays.get(member.id) ?? [],
+                from,
+                to
+            );
+            patterns.push(...detected.map(pattern => ({
+                ...pattern,
+                membershipId: member.id,
+                displayName: member.displayName,
+            })));
+        }
+
+        return patterns.sort((a, b) => b.lift - a.lift || b.occurrences - a.occurrences);
+    }
+
+    private static severityAggregates(severity: AnyColumn, membershipId: AnyColumn) {
+        return {
+            reports: count(),
+            totalSeverity: sql<number>`SUM(${severity})`,
+            maxSeverity: sql<number>`MAX(${severity})`,
+            athleteIds: sql<string[]>`ARRAY_AGG(DISTINCT ${membershipId})`,
+        };
+    }
+
+    private static async aggregateWodPain(boxId: string, timezone: string, since: Date, athleteId?: string) {
+        const wodDate = localDateSql(wodFeedback.wodDate, timezone);
+
+        return db
+            .select({
+                bodyPart: wodPainEntries.bodyPart,
+                date: wodDate,
+                ...AthleteBodyMapService.severityAggregates(wodPainEntries.severity, wodFeedback.membershipId),
+            })
+            .from(wodPainEntries)
+            .innerJoin(wodFeedback, eq(wodPainEntries.feedbackId, wodFeedback.id))
+            .where(and(
+                eq(wodFeedback.boxId, boxId),
+                athleteId ? eq(wodFeedback.membershipId, athleteId) : undefined,
+                gte(wodFeedback.wodDate, since)
+            ))
+            .groupBy(wodPainEntries.bodyPart, wodDate);
+    }
+
+    /**
+     * Merge per-source daily rows into one entry per body part, most affected first
+     */
+    private static buildHeat(rows: AggregatedRow[]): BodyPartHeat[] {
+        const parts = new Map<BodyPart, {
+            totalSeverity: number;
+            reports: number;
+            maxSeverity: number;
+            athletes: Set<string>;
+            days: Map<string, { reports: number; totalSeverity: number; maxSeverity: number }>;
+        }>();
+
+        for (const row of rows) {
+            const reports = Number(row.reports);
+            const totalSeverity = Number(row.totalSeverity);
+            const maxSeverity = Number(row.maxSeverity);
+
+            let part = parts.get(row.bodyPart);
+            if (!part) {
+                part = { totalSeverity: 0, reports: 0, maxSeverity: 0, athletes: new Set(), days: new Map() };
+                parts.set(row.bodyPart, part);
+            }
+            part.reports += reports;
+            part.totalSeverity += totalSeverity;
+            part.maxSeverity = Math.max(part.maxSeverity, maxSeverity);
+            for (const id of row.athleteIds) part.athletes.add(id);
+
+            const day = part.days.get(row.date) ?? { reports: 0, totalSeverity: 0, maxSeverity: 0 };
+            day.reports += reports;
+            day.totalSeverity += totalSeverity;
+            day.maxSeverity = Math.max(day.maxSeverity, maxSeverity);
+            part.days.set(row.date, day);
+        }
+
+        const maxLoad = Math.max(0, ...[...parts.values()].map(part => part.totalSeverity));
+
+        return [...parts.entries()]
+            .map(([bodyPart, part]) => ({
+                bodyPart,
+                views: BODY_PART_VIEWS[bodyPart],
+                reports: part.reports,
+                athletesAffected: part.athletes.size,
+                avgSeverity: Math.round(part.totalSeverity / part.reports * 10) / 10,
+                maxSeverity: part.maxSeverity,
+                intensity: maxLoad > 0 ? Math.round(part.totalSeverity / maxLoad * 100) / 100 : 0,
+                series: [...part.days.entries()]
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([date, day]) => ({
+                        date,
+                        reports: day.reports,
+                        avgSeverity: Math.round(day.totalSeverity / day.reports * 10) / 10,
+                        maxSeverity: day.maxSeverity,
+                    })),
+            }))
+            .sort((a, b) => b.intensity - a.intensity || b.reports - a.reports);
+    }
+
+    /**
+     * Heavy days per athlete and movement category: a programmed workout they logged or
+     * attended with the movement at HEAVY_PERCENTAGE+ of 1RM, or rated HEAVY_SESSION_RPE+
+     */
+    private static async getHeavyDays(
+        boxId: string,
+        timezone: string,
+        from: string,
+        since: Date,
+        athleteId?: string
+    ): Promise<Map<string, HeavyDay[]>> {
+        const feedbackDate = localDateSql(wodFeedback.wodDate, timezone);
+        const heavyMovement = sql`${programmedWorkoutMovements.prescribedPercentage} >= ${HEAVY_PERCENTAGE}`;
+
+        const [feedbackRows, attendanceRows] = await Promise.all([
+            db
+                .select({
+                    membershipId: wodFeedback.membershipId,
+                    date: feedbackDate,
+                    category: movements.category,
+                    movementName: movements.name,
+                })
+                .from(wodFeedback)
+                .innerJoin(programmedWorkoutParts, eq(programmedWorkoutParts.workoutId, wodFeedback.programmedWorkoutId))
+                .innerJoin(programmedWorkoutMovements, eq(programmedWorkoutMovements.partId, programmedWorkoutParts.id))
+                .innerJoin(movements, eq(programmedWorkoutMovements.movementId, movements.id))
+                .where(and(
+                    eq(wodFeedback.boxId, boxId),
+                    athleteId ? eq(wodFeedback.membershipId, athleteId) : undefined,
+                    gte(wodFeedback.wodDate, since),
+                    inArray(movements.category, PATTERN_CATEGORIES),
+                    or(heavyMovement, gte(wodFeedback.rpe, HEAVY_SESSION_RPE))
+                ))
+                .groupBy(wodFeedback.membershipId, feedbackDate, movements.category, movements.name),
+            db
+                .select({
+                    membershipId: wodAttendance.membershipId,
+                    date: wodAttendance.attendanceDate,
+                    category: movements.category,
+                    movementName: movements.name,
+                })
+                .from(wodAttendance)
+                .innerJoin(programmedWorkoutParts, eq(programmedWorkoutParts.workoutId, wodAttendance.programmedWorkoutId))
+                .innerJoin(programmedWorkoutMovements, eq(programmedWorkoutMovements.partId, programmedWorkoutParts.id))
+                .innerJoin(movements, eq(programmedWorkoutMovements.movementId, movements.id))
+                .where(and(
+                    eq(wodAttendance.boxId, boxId),
+                    athleteId ? eq(wodAttendance.membershipId, athleteId) : undefined,
+                    eq(wodAttendance.status, "attended"),
+                    isNotNull(wodAttendance.programmedWorkoutId),
+                    gte(wodAttendance.attendanceDate, sql`${from}::date`),
+                    inArray(movements.category, PATTERN_CATEGORIES),
+                    heavyMovement
+                ))
+                .groupBy(wodAttendance.membershipId, wodAttendance.attendanceDate, movements.category, movements.name),
+        ]);
+
+        const heavyDays = new Map<string, Map<string, HeavyDay>>();
+        for (const row of [...feedbackRows, ...attendanceRows]) {
+            const days = heavyDays.get(row.membershipId) ?? new Map<string, HeavyDay>();
+            const key = `${row.date}:${row.category}`;
+            const day = days.get(key) ?? { date: row.date, category: row.category, movements: [] };
+            if (!day.movements.includes(row.movementName)) day.movements.push(row.movementName);
+            days.set(key, day);
+            heavyDays.set(row.membershipId, days);
+        }
+
+        return new Map([...heavyDays.entries()].map(([id, days]) => [id, [...days.values()]]));
+    }
+
+    /**
+     * Worst pain per athlete, body part and box-local day from check-ins and WOD feedback
+     */
+    private static async getPainDays(
+        boxId: string,
+        timezone: string,
+        since: Date,
+        athleteId?: string
+    ): Promise<Map<string, PainDay[]>> {
+        const checkinDate = localDateSql(athleteWellnessCheckins.checkinDate, timezone);
+        const wodDate = localDateSql(wodFeedback.wodDate, timezone);
+
+        const [checkinPain, wodPain] = await Promise.all([
+            db
+                .select({
+                    membershipId: athleteWellnessCheckins.membershipId,
+                    bodyPart: athletePainEntries.bodyPart,
+                    date: checkinDate,
+                    maxSeverity: sql<number>`MAX(${athletePainEntries.severity})`,
+                })
+                .from(athletePainEntries)
+                .innerJoin(athleteWellnessCheckins, eq(athletePainEntries.checkinId, athleteWellnessCheckins.id))
+                .where(and(
+                    eq(athleteWellnessCheckins.boxId, boxId),
+                    athleteId ? eq(athleteWellnessCheckins.membershipId, athleteId) : undefined,
+                    gte(athleteWellnessCheckins.checkinDate, since),
+                    ne(athletePainEntries.severity, 0)
+                ))
+                .groupBy(athleteWellnessCheckins.membershipId, athletePainEntries.bodyPart, checkinDate),
+            db
+                .select({
+                    membershipId: wodFeedback.membershipId,
+                    bodyPart: wodPainEntries.bodyPart,
+                    date: wodDate,
+                    maxSeverity: sql<number>`MAX(${wodPainEntries.severity})`,
+                })
+                .from(wodPainEntries)
+                .innerJoin(wodFeedback, eq(wodPainEntries.feedbackId, wodFeedback.id))
+                .where(and(
+                    eq(wodFeedback.boxId, boxId),
+                    athleteId ? eq(wodFeedback.membershipId, athleteId) : undefined,
+                    gte(wodFeedback.wodDate, since),
+                    ne(wodPainEntries.severity, 0)
+                ))
+                .groupBy(wodFeedback.membershipId, wodPainEntries.bodyPart, wodDate),
+        ]);
+
+        const painDays = new Map<string, PainDay[]>();
+        for (const row of [...checkinPain, ...wodPain]) {
+            const days = painDays.get(row.membershipId) ?? [];
+            days.push({ date: row.date, bodyPart: row.bodyPart, maxSeverity: Number(row.maxSeverity) });
+            painDays.set(row.membershipId, days);
+        }
+
+        return painDays;
+    }
+}
@@ -5,13 +5,19 @@ import {
     athletePrs,
     athleteWellnessCheckins,
     benchmarkWods,
+    boxes,
     boxMemberships,
     movements,
+    userBodyweightLogs,
+    userProfiles,
     wodAttendance,
     wodFeedback
 } from "@/db/schema";
 import { db } from "@/db";
-import { and, avg, count, eq, gte, lte, sql } from "drizzle-orm";
+import { and, avg, count, desc, eq, gte, lt, sql } from "drizzle-orm";
+import { addDays, formatLocalDate, getBoxTimezone, getLocalRange } from "@/lib/dates";
+import type { AthleteSex } from "@/lib/services/athlete/leaderboard-divisions";
+import { CANONICAL_WEIGHT_UNIT, toCanonicalLoad, toDisplayLoad, type WeightUnit } from "@/lib/services/athlete/units";
 
 export interface AthleteProfileData {
     profile: typeof boxMemberships.$inferSelect;
@@ -39,11 +45,18 @@ export interface AthleteProfileData {
 
 // Import interfaces for service dependencies
 interface IAthletePRService {
-    getRecentPRs(boxId: string, athleteId: string, days: number, limit: number): Promise<any>;
+    getRecentPRs(
+        boxId: string,
+        athleteId: string,
+        days: number,
+        limit: number,
+        includeVideoData?: boolean,
+        unit?: WeightUnit
+    ): Promise<any>;
 }
 
 interface IAthleteBenchmarkService {
-    getRecentBenchmarks(boxId: string, athleteId: string, days: number, limit: number): Promise<any>;
+    getRecentBenchmarks(boxId: string, athleteId: string, days: number, limit: number, unit?: WeightUnit): Promise<any>;
 }
 
 interface IAthleteWellnessService {
@@ -69,6 +82,7 @@ export class AthleteCoreService {
             includeStats?: boolean;
             days?: number;
             limit?: number;
+            unit?: WeightUnit; // Unit loads are returned in
         } = {},
         // Service dependencies
         services: {
@@ -85,7 +99,8 @@ export class AthleteCoreService {
             includeBadges = true,
             includeStats = true,
             days = 30,
-            limit = 10
+            limit = 10,
+            unit
         } = options;
 
         // Get target athlete membership
@@ -130,11 +145,11 @@ export class AthleteCoreService {
         const promises: Promise<any>[] = [];
 
         if (includePrs) {
-            promises.push(services.prService.getRecentPRs(boxId, athleteId, days, limit));
+            promises.push(services.prService.getRecentPRs(boxId, athleteId, days, limit, true, unit));
         }
 
         if (includeBenchmarks) {
-            promises.push(services.benchmarkService.getRecentBenchmarks(boxId, athleteId, days, limit));
+            promises.push(services.benchmarkService.getRecentBenchmarks(boxId, athleteId, days, limit, unit));
         }
 
         if (includeRecentActivity) {
@@ -183,6 +198,7 @@ export class AthleteCoreService {
      * Get athlete performance and engagement stats
      */
     static async getAthleteStats(boxId: string, athleteId: string, days: number = 30) {
+        const timezone = await getBoxTimezone(boxId);
         const startDate = new Date();
         startDate.setDate(startDate.getDate() - days);
 
@@ -234,7 +250,7 @@ export class AthleteCoreService {
                 .where(and(
                     eq(wodAttendance.boxId, boxId),
                     eq(wodAttendance.membershipId, athleteId),
-                    gte(wodAttendance.attendanceDate, sql`${startDate}::date`),
+                    gte(wodAttendance.attendanceDate, sql`${formatLocalDate(startDate, timezone)}::date`),
                     eq(wodAttendance.status, 'attended')
                 )),
 
@@ -290,20 +306,19 @@ export class AthleteCoreService {
             throw new Error("Membership not found");
         }
 
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const yesterday = new Date(today);
-        yesterday.setDate(yesterday.getDate() - 1);
+        const timezone = await getBoxTimezone(membership[0].boxId);
+        const yesterday = addDays(formatLocalDate(new Date(), timezone), -1);
+        const yesterdayRange = getLocalRange(yesterday, yesterday, timezone);
 
-        // Check if there was a check-in yesterday to continue streak
+        // Check if there was a check-in yesterday (box-local) to continue streak
         const yesterdayCheckin = await db
             .select()
             .from(athleteWellnessCheckins)
             .where(
                 and(
                     eq(athleteWellnessCheckins.membershipId, membershipId),
-                    gte(athleteWellnessCheckins.checkinDate, yesterday),
-                    lte(athleteWellnessCheckins.checkinDate, today)
+                    gte(athleteWellnessCheckins.checkinDate, yesterdayRange.start),
+                    lt(athleteWellnessCheckins.checkinDate, yesterdayRange.end)
                 )
             )
             .limit(1);
@@ -329,4 +344,124 @@ export class AthleteCoreService {
             totalCheckins: (currentMembership.totalCheckins || 0) + 1,
         };
     }
+
+    /**
+     * Update the profile fields used for leaderboard divisions
+     */
+    static async updateDivisionProfile(
+        userId: string,
+        updates: {
+            sex?: AthleteSex | null;
+            dateOfBirth?: Date | null;
+        }
+    ) {
+        const [profile] = await db
+            .insert(userProfiles)
+            .values({ userId, ...updates })
+            .onConflictDoUpdate({
+                target: userProfiles.userId,
+                set: { ...updates, updatedAt: new Date() },
+            })
+            .returning();
+
+        return profile;
+    }
+
+    /**
+     * Unit a user sees loads in: their own preference, falling back to the box default
+     */
+    static async getPreferredWeightUnit(userId: string, boxId: string): Promise<WeightUnit> {
+        const [row] = await db
+            .select({
+                defaultWeightUnit: boxes.defaultWeightUnit,
+                preferredWeightUnit: userProfiles.preferredWeightUnit,
+            })
+            .from(boxes)
+            .leftJoin(userProfiles, eq(userProfiles.userId, userId))
+            .where(eq(boxes.id, boxId))
+            .limit(1);
+
+        return row?.preferredWeightUnit ?? row?.defaultWeightUnit ?? CANONICAL_WEIGHT_UNIT;
+    }
+
+    /**
+     * Unit an athlete's own unitless entries are assumed to be in
+     */
+    static async getMembershipWeightUnit(membershipId: string): Promise<WeightUnit> {
+        const [membership] = await db
+            .select({ userId: boxMemberships.userId, boxId: boxMemberships.boxId })
+            .from(boxMemberships)
+            .where(eq(boxMemberships.id, membershipId))
+            .limit(1);
+
+        return membership
+            ? AthleteCoreService.getPreferredWeightUnit(membership.userId, membership.boxId)
+            : CANONICAL_WEIGHT_UNIT;
+    }
+
+    /**
+     * Set the unit loads are shown in (PRs, benchmarks, leaderboards, percentage calculator)
+     */
+    static async updateUnitPreference(userId: string, preferredWeightUnit: WeightUnit | null) {
+        const [profile] = await db
+            .insert(userProfiles)
+            .values({ userId, preferredWeightUnit })
+            .onConflictDoUpdate({
+                target: userProfiles.userId,
+                set: { preferredWeightUnit, updatedAt: new Date() },
+            })
+            .returning();
+
+        return profile;
+    }
+
+    /**
+     * Record a bodyweight measurement (used for bodyweight-relative leaderboards)
+     */
+    static async logBodyweight(
+        userId: string,
+        data: {
+            weight: number;
+            unit: "kg" | "lbs";
+            recordedAt?: Date;
+        }
+    ) {
+        const stored = toCanonicalLoad(data.weight, data.unit);
+
+        const [log] = await db
+            .insert(userBodyweightLogs)
+            .values({
+                userId,
+                weight: stored.value.toString(),
+                unit: stored.unit,
+                recordedAt: data.recordedAt || new Date(),
+            })
+            .returning();
+
+        return { ...log, weight: data.weight.toString(), unit: data.unit };
+    }
+
+    /**
+     * Get bodyweight history in the user's preferred unit, most recent first
+     */
+    static async getBodyweightHistory(userId: string, limit = 50) {
+        const [profile] = await db
+            .select({ preferredWeightUnit: userProfiles.preferredWeightUnit })
+            .from(userProfiles)
+            .where(eq(userProfiles.userId, userId))
+            .limit(1);
+        const unit = profile?.preferredWeightUnit ?? CANONICAL_WEIGHT_UNIT;
+
+        const logs = await db
+            .select()
+            .from(userBodyweightLogs)
+            .where(eq(userBodyweightLogs.userId, userId))
+            .orderBy(desc(userBodyweightLogs.recordedAt))
+            .limit(limit);
+
+        return logs.map(log => {
+            const display = toDisplayLoad(log.weight, log.unit, unit);
+            return { ...log, weight: display.value.toString(), unit: display.unit };
+        });
+    }
 }
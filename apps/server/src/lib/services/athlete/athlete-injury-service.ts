@@ -0,0 +1,498 @@
+﻿// lib/services/athlete/athlete-injury-service.ts
+import { db, withTransaction, type DbTransaction } from "@/db";
+import {
+    athleteInjuries,
+    athleteInjuryCheckpoints,
+    athleteInjuryRestrictions,
+    athletePainEntries,
+    athleteWellnessCheckins,
+    boxMemberships,
+    movements,
+    wodFeedback,
+    wodPainEntries
+} from "@/db/schema";
+import type { bodyPartEnum, injuryStatusEnum } from "@/db/schema/enums";
+import { and, asc, desc, eq, gte, inArray, ne } from "drizzle-orm";
+import { addDays, formatLocalDate, getBoxTimezone, startOfLocalDay } from "@/lib/dates";
+
+export type BodyPart = typeof bodyPartEnum.enumValues[number];
+export type InjuryStatus = typeof injuryStatusEnum.enumValues[number];
+
+export interface InjuryData {
+    bodyPart: BodyPart;
+    onsetDate: string; // YYYY-MM-DD
+    description?: string;
+    severity?: number;
+    notes?: string;
+}
+
+export interface InjuryRestrictionInput {
+    movementId: string;
+    notes?: string;
+}
+
+export interface InjuryCheckpointInput {
+    title: string;
+    description?: string;
+    targetDate?: string;
+}
+
+export interface MovementRestriction {
+    injuryId: string;
+    bodyPart: BodyPart;
+    status: InjuryStatus;
+    notes: string | null;
+}
+
+export interface InjurySuggestion {
+    membershipId: string;
+    bodyPart: BodyPart;
+    painReports: number;
+    daysReported: number;
+    maxSeverity: number;
+    lastReportedAt: Date;
+}
+
+// Pain at the same body part on this many separate days within the window suggests an injury case
+export const RECURRENT_PAIN_WINDOW_DAYS = 21;
+export const RECURRENT_PAIN_MIN_DAYS = 3;
+
+export class AthleteInjuryService {
+    /**
+     * Open an injury case for an athlete. Only one open case per body part.
+     */
+    static async openInjury(
+        boxId: string,
+        athleteId: string,
+        reportedByMembershipId: string,
+        data: InjuryData,
+        restrictions: InjuryRestrictionInput[] = []
+    ) {
+        await AthleteInjuryService.assertBoxMember(boxId, athleteId, "Athlete not found");
+        await AthleteInjuryService.assertNoOpenCase(boxId, athleteId, data.bodyPart);
+        await AthleteInjuryService.assertMovementsExist(restrictions);
+
+        const injury = await withTransaction(async (tx) => {
+            const [created] = await tx
+                .insert(athleteInjuries)
+                .values({
+                    boxId,
+                    membershipId: athleteId,
+                    reportedByMembershipId,
+                    bodyPart: data.bodyPart,
+                    onsetDate: data.onsetDate,
+                    description: data.description,
+                    severity: data.severity,
+                    notes: data.notes,
+                })
+                .returning();
+
+            await AthleteInjuryService.insertRestrictions(tx, created.id, restrictions);
+            return created;
+        });
+
+        return AthleteInjuryService.getInjury(boxId, injury.id);
+    }
+
+    /**
+     * Get an injury with its restricted movements and return-to-training plan
+     */
+    static async getInjury(boxId: string, injuryId: string) {
+        const injury = await db.query.athleteInjuries.findFirst({
+            where: and(
+                eq(athleteInjuries.id, injuryId),
+                eq(athleteInjuries.boxId, boxId)
+            ),
+            with: {
+                restrictions: {
+                    with: {
+                        movement: true,
+                    },
+                },
+                checkpoints: {
+                    orderBy: asc(athleteInjuryCheckpoints.position),
+                },
+            },
+        });
+
+        if (!injury) {
+            throw new Error("Injury not found");
+        }
+
+        return injury;
+    }
+
+    /**
+     * Injuries in a box, optionally for one athlete and/or by status, newest first
+     */
+    static async listInjuries(
+        boxId: string,
+        options: { athleteId?: string; statuses?: InjuryStatus[] } = {}
+    ) {
+        return db.query.athleteInjuries.findMany({
+            where: and(
+                eq(athleteInjuries.boxId, boxId),
+                options.athleteId ? eq(athleteInjuries.membershipId, options.athleteId) : undefined,
+                options.statuses?.length ? inArray(athleteInjuries.status, options.statuses) : undefined
+            ),
+            with: {
+                membership: {
+                    columns: { id: true, displayName: true, publicId: true },
+                },
+                restrictions: {
+                    with: {
+                        movement: true,
+                    },
+                },
+                checkpoints: {
+                    orderBy: asc(athleteInjuryCheckpoints.position),
+                },
+            },
+            orderBy: desc(athleteInjuries.onsetDate),
+        });
+    }
+
+    /**
+     * Update injury details. Moving an open case to another body part can't collide
+     * with a case already open there.
+     */
+    static async updateInjury(
+        boxId: string,
+        injuryId: string,
+        updates: Partial<InjuryData> & { coachMembershipId?: string | null }
+    ) {
+        const injury = await AthleteInjuryService.getInjury(boxId, injuryId);
+
+        if (updates.bodyPart && updates.bodyPart !== injury.bodyPart && injury.status !== "cleared") {
+            await AthleteInjuryService.assertNoOpenCase(boxId, injury.membershipId, updates.bodyPart, injuryId);
+        }
+        if (updates.coachMembershipId) {
+            await AthleteInjuryService.assertBoxMember(boxId, updates.coachMembershipId, "Coach not found");
+        }
+
+        await db
+            .update(athleteInjuries)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(athleteInjuries.id, injuryId));
+
+        return AthleteInjuryService.getInjury(boxId, injuryId);
+    }
+
+    /**
+     * Move an injury through active -> modified training -> cleared. Reopening a
+     * cleared injury resets the clearance.
+     */
+    static async updateStatus(
+        boxId: string,
+        injuryId: string,
+        membershipId: string,
+        status: InjuryStatus,
+        notes?: string
+    ) {
+        const injury = await AthleteInjuryService.getInjury(boxId, injuryId);
+
+        if (injury.status === status) {
+            return injury;
+        }
+        if (injury.status === "cleared") {
+            await AthleteInjuryService.assertNoOpenCase(boxId, injury.membershipId, injury.bodyPart, injuryId);
+        }
+
+        await db
+            .update(athleteInjuries)
+            .set({
+                status,
+                clearedAt: status === "cleared" ? new Date() : null,
+                clearedByMembershipId: status === "cleared" ? membershipId : null,
+                notes: notes ?? injury.notes,
+                updatedAt: new Date(),
+            })
+            .where(eq(athleteInjuries.id, injuryId));
+
+        return AthleteInjuryService.getInjury(boxId, injuryId);
+    }
+
+    /**
+     * Replace the movements restricted by an injury
+     */
+    static async setRestrictions(boxId: string, injuryId: string, restrictions: InjuryRestrictionInput[]) {
+        await AthleteInjuryService.getInjury(boxId, injuryId);
+        await AthleteInjuryService.assertMovementsExist(restrictions);
+
+        await withTransaction(async (tx) => {
+            await tx
+                .delete(athleteInjuryRestrictions)
+                .where(eq(athleteInjuryRestrictions.injuryId, injuryId));
+
+            await AthleteInjuryService.insertRestrictions(tx, injuryId, restrictions);
+        });
+
+        return AthleteInjuryService.getInjury(boxId, injuryId);
+    }
+
+    /**
+     * Replace the return-to-training plan. The coach setting the plan owns the case.
+     */
+    static async setReturnPlan(
+        boxId: string,
+        injuryId: string,
+        coachMembershipId: string,
+        checkpoints: InjuryCheckpointInput[]
+    ) {
+        await AthleteInjuryService.getInjury(boxId, injuryId);
+
+        await withTransaction(async (tx) => {
+            await tx
+                .delete(athleteInjuryCheckpoints)
+                .where(eq(athleteInjuryCheckpoints.injuryId, injuryId));
+
+            if (checkpoints.length > 0) {
+                await tx.insert(athleteInjuryCheckpoints).values(
+                    checkpoints.map((checkpoint, index) => ({
+                        injuryId,
+                        position: index + 1,
+                        title: checkpoint.title,
+                        description: checkpoint.description,
+                        targetDate: checkpoint.targetDate,
+                    }))
+                );
+            }
+
+            await tx
+                .update(athleteInjuries)
+                .set({ coachMembershipId, updatedAt: new Date() })
+                .where(eq(athleteInjuries.id, injuryId));
+        });
+
+        return AthleteInjuryService.getInjury(boxId, injuryId);
+    }
+
+    /**
+     * Mark a return-to-training check-point as reached (or not reached)
+     */
+    static async completeCheckpoint(
+        boxId: string,
+        checkpointId: string,
+        membershipId: string,
+        options: { completed?: boolean; notes?: string } = {}
+    ) {
+        const [checkpoint] = await db
+            .select({ id: athleteInjuryCheckpoints.id, injuryId: athleteInjuryCheckpoints.injuryId })
+            .from(athleteInjuryCheckpoints)
+            .innerJoin(athleteInjuries, eq(athleteInjuryCheckpoints.injuryId, athleteInjuries.id))
+            .where(and(
+                eq(athleteInjuryCheckpoints.id, checkpointId),
+                eq(athleteInjuries.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!checkpoint) {
+            throw new Error("Checkpoint not found");
+        }
+
+        const completed = options.completed ?? true;
+
+        await db
+            .update(athleteInjuryCheckpoints)
+            .set({
+                completedAt: completed ? new Date() : null,
+                completedByMembershipId: completed ? membershipId : null,
+                notes: options.notes,
+                updatedAt: new Date(),
+            })
+            .where(eq(athleteInjuryCheckpoints.id, checkpointId));
+
+        return AthleteInjuryService.getInjury(boxId, checkpoint.injuryId);
+    }
+
+    /**
+     * Movements restricted by the athlete's open (not cleared) injuries
+     */
+    static async getActiveRestrictions(boxId: string, athleteId: string): Promise<Map<string, MovementRestriction>> {
+        const rows = await db
+            .select({
+                movementId: athleteInjuryRestrictions.movementId,
+                injuryId: athleteInjuries.id,
+                bodyPart: athleteInjuries.bodyPart,
+                status: athleteInjuries.status,
+                notes: athleteInjuryRestrictions.notes,
+            })
+            .from(athleteInjuryRestrictions)
+            .innerJoin(athleteInjuries, eq(athleteInjuryRestrictions.injuryId, athleteInjuries.id))
+            .where(and(
+                eq(athleteInjuries.boxId, boxId),
+                eq(athleteInjuries.membershipId, athleteId),
+                ne(athleteInjuries.status, "cleared")
+            ));
+
+        return new Map(rows.map(({ movementId, ...restriction }) => [movementId, restriction]));
+    }
+
+    /**
+     * Flag movements in programmed workouts that the athlete's open injuries restrict
+     */
+    static async flagRestrictedMovements<W extends { parts: Array<{ movements: Array<{ movementId: string }> }> }>(
+        boxId: string,
+        athleteId: string,
+        workouts: W[]
+    ) {
+        const restrictions = await AthleteInjuryService.getActiveRestrictions(boxId, athleteId);
+
+        return workouts.map(workout => {
+            const parts = workout.parts.map(part => ({
+                ...part,
+                movements: part.movements.map(movement => ({
+                    ...movement,
+                    restriction: restrictions.get(movement.movementId) ?? null,
+                })),
+            }));
+
+            return {
+                ...workout,
+                parts,
+                hasRestrictedMovements: parts.some(part => part.movements.some(m => m.restriction !== null)),
+            };
+        });
+    }
+
+    /**
+     * Body parts where pain keeps coming back (check-ins and WOD feedback) without an
+     * open injury case, for one athlete or the whole box
+     */
+    static async getInjurySuggestions(boxId: string, athleteId?: string): Promise<InjurySuggestion[]> {
+        const timezone = await getBoxTimezone(boxId);
+        const since = startOfLocalDay(addDays(formatLocalDate(new Date(), timezone), -RECURRENT_PAIN_WINDOW_DAYS), timezone);
+
+        const [checkinPain, wodPain, openInjuries] = await Promise.all([
+            db
+                .select({
+                    membershipId: athleteWellnessCheckins.membershipId,
+                    bodyPart: athletePainEntries.bodyPart,
+                    severity: athletePainEntries.severity,
+                    reportedAt: athleteWellnessCheckins.checkinDate,
+                })
+                .from(athletePainEntries)
+                .innerJoin(athleteWellnessCheckins, eq(athletePainEntries.checkinId, athleteWellnessCheckins.id))
+                .where(and(
+                    eq(athleteWellnessCheckins.boxId, boxId),
+                    athleteId ? eq(athleteWellnessCheckins.membershipId, athleteId) : undefined,
+                    gte(athleteWellnessCheckins.checkinDate, since)
+                )),
+            db
+                .select({
+                    membershipId: wodFeedback.membershipId,
+                    bodyPart: wodPainEntries.bodyPart,
+                    severity: wodPainEntries.severity,
+                    reportedAt: wodFeedback.wodDate,
+                })
+                .from(wodPainEntries)
+                .innerJoin(wodFeedback, eq(wodPainEntries.feedbackId, wodFeedback.id))
+                .where(and(
+                    eq(wodFeedback.boxId, boxId),
+                    athleteId ? eq(wodFeedback.membershipId, athleteId) : undefined,
+                    gte(wodFeedback.wodDate, since)
+                )),
+            db
+                .select({ membershipId: athleteInjuries.membershipId, bodyPart: athleteInjuries.bodyPart })
+                .from(athleteInjuries)
+                .where(and(
+                    eq(athleteInjuries.boxId, boxId),
+                    athleteId ? eq(athleteInjuries.membershipId, athleteId) : undefined,
+                    ne(athleteInjuries.status, "cleared")
+                )),
+        ]);
+
+        const covered = new Set(openInjuries.map(i => `${i.membershipId}:${i.bodyPart}`));
+        const groups = new Map<string, InjurySuggestion & { days: Set<string> }>();
+
+        for (const report of [...checkinPain, ...wodPain]) {
+            if (report.severity <= 0) continue;
+
+            const key = `${report.membershipId}:${report.bodyPart}`;
+            if (covered.has(key)) continue;
+
+            let group = groups.get(key);
+            if (!group) {
+                group = {
+                    membershipId: report.membershipId,
+                    bodyPart: report.bodyPart,
+                    painReports: 0,
+                    daysReported: 0,
+                    maxSeverity: 0,
+                    lastReportedAt: report.reportedAt,
+                    days: new Set(),
+                };
+                groups.set(key, group);
+            }
+
+            group.painReports++;
+            group.days.add(formatLocalDate(report.reportedAt, timezone));
+            group.maxSeverity = Math.max(group.maxSeverity, report.severity);
+            if (report.reportedAt > group.lastReportedAt) group.lastReportedAt = report.reportedAt;
+        }
+
+        return [...groups.values()]
+            .filter(group => group.days.size >= RECURRENT_PAIN_MIN_DAYS)
+            .map(({ days, ...suggestion }) => ({ ...suggestion, daysReported: days.size }))
+            .sort((a, b) => b.daysReported - a.daysReported || b.maxSeverity - a.maxSeverity);
+    }
+
+    private static async assertBoxMember(boxId: string, membershipId: string, notFoundMessage: string) {
+        const [membership] = await db
+            .select({ id: boxMemberships.id })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.id, membershipId),
+                eq(boxMemberships.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!membership) {
+            throw new Error(notFoundMessage);
+        }
+    }
+
+    /**
+     * One open (not cleared) case per athlete and body part
+     */
+    private static async assertNoOpenCase(boxId: string, athleteId: string, bodyPart: BodyPart, excludeInjuryId?: string) {
+        const [openCase] = await db
+            .select({ id: athleteInjuries.id })
+            .from(athleteInjuries)
+            .where(and(
+                eq(athleteInjuries.boxId, boxId),
+                eq(athleteInjuries.membershipId, athleteId),
+                eq(athleteInjuries.bodyPart, bodyPart),
+                ne(athleteInjuries.status, "cleared"),
+                excludeInjuryId ? ne(athleteInjuries.id, excludeInjuryId) : undefined
+            ))
+            .limit(1);
+
+        if (openCase) {
+            throw new Error("An open injury already exists for this body part");
+        }
+    }
+
+    private static async assertMovementsExist(restrictions: InjuryRestrictionInput[]) {
+        if (restrictions.length === 0) return;
+
+        const movementIds = [...new Set(restrictions.map(r => r.movementId))];
+        const found = await db
+            .select({ id: movements.id })
+            .from(movements)
+            .where(inArray(movements.id, movementIds));
+
+        if (found.length !== movementIds.length) {
+            throw new Error("Movement not found");
+        }
+    }
+
+    private static async insertRestrictions(tx: DbTransaction, injuryId: string, restrictions: InjuryRestrictionInput[]) {
+        if (restrictions.length === 0) return;
+
+        await tx
+            .insert(athleteInjuryRestrictions)
+            .values(restrictions.map(r => ({ injuryId, movementId: r.movementId, notes: r.notes })))
+            .onConflictDoNothing();
+    }
+}
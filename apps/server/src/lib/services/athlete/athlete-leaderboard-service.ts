@@ -1,7 +1,70 @@
 // lib/services/athlete/athlete-leaderboard-service.ts
-import {boxMemberships, leaderboardEntries, leaderboards} from "@/db/schema";
-import {db} from "@/db";
-import {and, desc, eq, sql} from "drizzle-orm";
+import {
+    athleteBenchmarks,
+    athletePrs,
+    benchmarkWods,
+    boxMemberships,
+    leaderboardEntries,
+    leaderboards,
+    userBodyweightLogs,
+    userProfiles
+} from "@/db/schema";
+import {db, withTransaction} from "@/db";
+import {and, asc, desc, eq, gt, gte, inArray, isNull, lte, or, sql} from "drizzle-orm";
+import {
+    benchmarkTypeToScoringType,
+    compareWorkoutScores,
+    getScoreSortDirection,
+    type ScoreSortDirection
+} from "@/lib/services/athlete/workout-score";
+import {
+    ALL_DIVISION,
+    formatDivisionLabel,
+    getAthleteDivisions,
+    getDivisionKey,
+    getRelativeScore,
+    type AthleteSex,
+    type LeaderboardDivision,
+    type RelativeScoring
+} from "@/lib/services/athlete/leaderboard-divisions";
+import { CANONICAL_WEIGHT_UNIT, toDisplayLoad, toKilograms, type WeightUnit } from "@/lib/services/athlete/units";
+import { AthleteLeaderboardNotificationService } from "@/lib/services/notifications/athlete/athlete-leaderboard-notification-service";
+
+const AUTOMATIC_LEADERBOARD_TYPES = ["pr", "benchmark", "streak"];
+
+interface LeaderboardCandidate {
+    membershipId: string;
+    userId: string;
+    sex: AthleteSex | null;
+    dateOfBirth: Date | null;
+    value: number;
+    unit: string | null;
+    tiebreakSeconds: number | null;
+    scaled: boolean;
+    achievedAt: Date;
+    rawValue: number | null;
+    bodyweightKg: number | null;
+    prId: string | null;
+    benchmarkId: string | null;
+}
+
+interface RankedLeaderboardEntry extends LeaderboardCandidate {
+    division: string;
+    divisionLevel: number; // Index in the athlete's divisions, higher is more specific
+    rank: number;
+    displayRank: number;
+}
+
+interface LeaderboardChange {
+    entryId: string;
+    membershipId: string;
+    divisionLevel: number;
+    previousRank: number | null; // null for new entries
+}
+
+type LeaderboardSource =
+    | { type: "pr"; movementId: string }
+    | { type: "benchmark"; benchmarkId: string };
 
 export class AthleteLeaderboardService {
     /**
@@ -20,8 +83,16 @@ export class AthleteLeaderboardService {
             periodEnd?: Date;
             isActive?: boolean;
             maxEntries?: number;
+            relativeScoring?: RelativeScoring;
         }
     ) {
+        const relativeScoring = leaderboardData.relativeScoring ?? "none";
+        if (relativeScoring !== "none" && leaderboardData.type !== "pr") {
+            throw new Error("Bodyweight-relative scoring is only available for PR leaderboards");
+        }
+
+        const sortDirection = await AthleteLeaderboardService.resolveSortDirection(leaderboardData.benchmarkId);
+
         const [leaderboard] = await db
             .insert(leaderboards)
             .values({
@@ -30,6 +101,8 @@ export class AthleteLeaderboardService {
                 name: leaderboardData.name,
                 type: leaderboardData.type,
                 category: leaderboardData.category,
+                sortDirection,
+                relativeScoring,
                 movementId: leaderboardData.movementId,
                 benchmarkId: leaderboardData.benchmarkId,
                 periodStart: leaderboardData.periodStart ? sql`${leaderboardData.periodStart.toISOString()}::timestamp with time zone` : null,
@@ -39,11 +112,227 @@ export class AthleteLeaderboardService {
             })
             .returning();
 
+        if (AUTOMATIC_LEADERBOARD_TYPES.includes(leaderboard.type)) {
+            await AthleteLeaderboardService.recomputeLeaderboard(leaderboard.id);
+        }
+
         return leaderboard;
     }
 
     /**
-     * Add an entry to a leaderboard
+     * Rebuild a pr, benchmark or streak leaderboard from the underlying results.
+     * Each athlete's best result within the period counts once and is ranked in every
+     * division they belong to (all, sex, age group, sex + age group). Ties share a
+     * displayRank while rank stays a unique position within the division. Existing
+     * entries are updated in place so rank changes can be reported against them.
+     */
+    static async recomputeLeaderboard(leaderboardId: string, options: { notify?: boolean } = {}) {
+        const [leaderboard] = await db
+            .select()
+            .from(leaderboards)
+            .where(eq(leaderboards.id, leaderboardId))
+            .limit(1);
+
+        if (!leaderboard) {
+            throw new Error("Leaderboard not found");
+        }
+        if (!AUTOMATIC_LEADERBOARD_TYPES.includes(leaderboard.type)) {
+            throw new Error("Only pr, benchmark and streak leaderboards are computed automatically");
+        }
+
+        let candidates = await AthleteLeaderboardService.getCandidates(leaderboard);
+        if (leaderboard.type === "pr" && leaderboard.relativeScoring !== "none") {
+            candidates = await AthleteLeaderboardService.applyRelativeScoring(candidates, leaderboard.relativeScoring);
+        }
+        const ranked = AthleteLeaderboardService.rankCandidates(candidates, leaderboard);
+
+        // Entries are deleted, parked and reassigned in one transaction so a failure
+        // part way never leaves the board half ranked
+        const now = new Date();
+        const { changes, removedIds } = await withTransaction(async (tx) => {
+            // Serializes concurrent recomputes of the same board
+            await tx
+                .select({ id: leaderboards.id })
+                .from(leaderboards)
+                .where(eq(leaderboards.id, leaderboardId))
+                .for("update");
+
+            const existing = await tx
+                .select()
+                .from(leaderboardEntries)
+                .where(eq(leaderboardEntries.leaderboardId, leaderboardId));
+
+            // Automatic boards hold one entry per athlete and division; extra manual entries are dropped
+            const entryKey = (entry: { division: string; membershipId: string }) => `${entry.division}:${entry.membershipId}`;
+            const existingByKey = new Map<string, typeof leaderboardEntries.$inferSelect>();
+            for (const entry of existing) {
+                if (!existingByKey.has(entryKey(entry))) {
+                    existingByKey.set(entryKey(entry), entry);
+                }
+            }
+
+            const rankedKeys = new Set(ranked.map(entryKey));
+            const removedIds = existing
+                .filter(entry => !rankedKeys.has(entryKey(entry)) || existingByKey.get(entryKey(entry)) !== entry)
+                .map(entry => entry.id);
+
+            if (removedIds.length > 0) {
+                await tx.delete(leaderboardEntries).where(inArray(leaderboardEntries.id, removedIds));
+            }
+
+            // Park the remaining entries above every final rank so reassigning them
+            // never collides on leaderboard_entries_leaderboard_division_rank_unique
+            if (existing.length > removedIds.length) {
+                const rankShift = Math.max(...existing.map(entry => entry.rank), ranked.length);
+                await tx
+                    .update(leaderboardEntries)
+                    .set({ rank: sql`${leaderboardEntries.rank} + ${rankShift}` })
+                    .where(eq(leaderboardEntries.leaderboardId, leaderboardId));
+            }
+
+            const changes: LeaderboardChange[] = [];
+
+            for (const entry of ranked) {
+                const values = {
+                    value: entry.value.toString(),
+                    tiebreakSeconds: entry.tiebreakSeconds,
+                    rank: entry.rank,
+                    displayRank: entry.displayRank,
+                    scaled: entry.scaled,
+                    rawValue: entry.rawValue?.toString() ?? null,
+                    bodyweightKg: entry.bodyweightKg?.toString() ?? null,
+                    prId: entry.prId,
+                    benchmarkId: entry.benchmarkId,
+                    achievedAt: entry.achievedAt,
+                };
+                const previous = existingByKey.get(entryKey(entry));
+
+                if (previous) {
+                    await tx
+                        .update(leaderboardEntries)
+                        .set({ ...values, updatedAt: now })
+                        .where(eq(leaderboardEntries.id, previous.id));
+
+                    if (previous.rank !== entry.rank) {
+                        changes.push({
+                            entryId: previous.id,
+                            membershipId: entry.membershipId,
+                            divisionLevel: entry.divisionLevel,
+                            previousRank: previous.rank,
+                        });
+                    }
+                } else {
+                    const [inserted] = await tx
+                        .insert(leaderboardEntries)
+                        .values({ leaderboardId, membershipId: entry.membershipId, division: entry.division, ...values })
+                        .returning({ id: leaderboardEntries.id });
+
+                    changes.push({
+                        entryId: inserted.id,
+                        membershipId: entry.membershipId,
+                        divisionLevel: entry.divisionLevel,
+                        previousRank: null,
+                    });
+                }
+            }
+
+            await tx
+                .update(leaderboards)
+                .set({ lastComputedAt: now, updatedAt: now })
+                .where(eq(leaderboards.id, leaderboardId));
+
+            return { changes, removedIds };
+        });
+
+        if (options.notify) {
+            await AthleteLeaderboardService.notifyChanges(changes);
+        }
+
+        return {
+            leaderboardId,
+            entries: ranked.length,
+            divisions: new Set(ranked.map(entry => entry.division)).size,
+            added: changes.filter(change => change.previousRank === null).length,
+            moved: changes.filter(change => change.previousRank !== null).length,
+            removed: removedIds.length,
+        };
+    }
+
+    /**
+     * Recompute the boards a newly logged PR or benchmark result can affect.
+     * Boards that are full and that the result can't break into are skipped.
+     */
+    static async refreshLeaderboardsForResult(
+        boxId: string,
+        source: LeaderboardSource,
+        result: {
+            membershipId: string;
+            value: number;
+            tiebreakSeconds?: number | null;
+            scaled?: boolean;
+            achievedAt: Date;
+        }
+    ) {
+        const boards = await db
+            .select()
+            .from(leaderboards)
+            .where(and(
+                eq(leaderboards.boxId, boxId),
+                eq(leaderboards.isActive, true),
+                eq(leaderboards.type, source.type),
+                source.type === "pr"
+                    ? eq(leaderboards.movementId, source.movementId)
+                    : eq(leaderboards.benchmarkId, source.benchmarkId),
+                or(isNull(leaderboards.periodStart), lte(leaderboards.periodStart, result.achievedAt)),
+                or(isNull(leaderboards.periodEnd), gte(leaderboards.periodEnd, result.achievedAt))
+            ));
+
+        const scaled = result.scaled ?? false;
+        let refreshed = 0;
+
+        for (const board of boards) {
+            if ((board.category === "rx" && scaled) || (board.category === "scaled" && !scaled)) {
+                continue;
+            }
+
+            const canPlace = await AthleteLeaderboardService.canPlaceOnBoard(board, {
+                membershipId: result.membershipId,
+                value: result.value,
+                tiebreakSeconds: result.tiebreakSeconds ?? null,
+                scaled,
+            });
+            if (!canPlace) continue;
+
+            await AthleteLeaderboardService.recomputeLeaderboard(board.id, { notify: true });
+            refreshed++;
+        }
+
+        return { leaderboardsRefreshed: refreshed };
+    }
+
+    /**
+     * Recompute every active streak leaderboard for a box (run daily, streaks change without new results)
+     */
+    static async refreshStreakLeaderboards(boxId: string) {
+        const boards = await db
+            .select({ id: leaderboards.id })
+            .from(leaderboards)
+            .where(and(
+                eq(leaderboards.boxId, boxId),
+                eq(leaderboards.isActive, true),
+                eq(leaderboards.type, "streak")
+            ));
+
+        for (const { id } of boards) {
+            await AthleteLeaderboardService.recomputeLeaderboard(id);
+        }
+
+        return { streakLeaderboardsRefreshed: boards.length };
+    }
+
+    /**
+     * Add an entry to a custom leaderboard. Entries for a benchmark result take the
+     * result's normalized score rather than the submitted value.
      */
     static async addLeaderboardEntry(
         leaderboardId: string,
@@ -56,12 +345,34 @@ export class AthleteLeaderboardService {
             achievedAt: Date;
         }
     ) {
+        await AthleteLeaderboardService.assertManualLeaderboard(leaderboardId);
+
+        let value = entryData.value.toString();
+        let tiebreakSeconds: number | null = null;
+
+        if (entryData.benchmarkId) {
+            const [result] = await db
+                .select({
+                    value: athleteBenchmarks.value,
+                    tiebreakSeconds: athleteBenchmarks.tiebreakSeconds,
+                })
+                .from(athleteBenchmarks)
+                .where(eq(athleteBenchmarks.id, entryData.benchmarkId))
+                .limit(1);
+
+            if (result) {
+                value = result.value;
+                tiebreakSeconds = result.tiebreakSeconds;
+            }
+        }
+
         const [entry] = await db
             .insert(leaderboardEntries)
             .values({
                 leaderboardId,
                 membershipId,
-                value: entryData.value.toString(),
+                value,
+                tiebreakSeconds,
                 rank: entryData.rank,
                 prId: entryData.prId,
                 benchmarkId: entryData.benchmarkId,
@@ -73,20 +384,81 @@ export class AthleteLeaderboardService {
     }
 
     /**
-     * Get leaderboard with entries
+     * Get leaderboard with the entries of one division (everyone by default)
      */
-    static async getLeaderboard(leaderboardId: string) {
+    static async getLeaderboard(leaderboardId: string, division?: LeaderboardDivision) {
         const leaderboard = await db
             .select()
             .from(leaderboards)
             .where(eq(leaderboards.id, leaderboardId))
-            .leftJoin(leaderboardEntries, eq(leaderboardEntries.leaderboardId, leaderboards.id))
+            .leftJoin(leaderboardEntries, and(
+                eq(leaderboardEntries.leaderboardId, leaderboards.id),
+                eq(leaderboardEntries.division, getDivisionKey(division))
+            ))
             .leftJoin(boxMemberships, eq(leaderboardEntries.membershipId, boxMemberships.id))
             .orderBy(leaderboardEntries.rank);
 
         return leaderboard;
     }
 
+    /**
+     * Show a leaderboard's loads in the viewer's unit. Entries are stored in kg, so ranks
+     * never depend on the unit; only lift values (PR boards, load-scored benchmarks and the
+     * raw lift on relative boards) are converted.
+     */
+    static async toDisplayUnit(
+        rows: Awaited<ReturnType<typeof AthleteLeaderboardService.getLeaderboard>>,
+        unit: WeightUnit
+    ) {
+        const leaderboard = rows[0]?.leaderboards;
+        if (!leaderboard) return rows.map(row => ({ ...row, unit: null }));
+
+        let isLoadBoard = leaderboard.type === "pr";
+        if (leaderboard.type === "benchmark" && leaderboard.benchmarkId) {
+            const [benchmark] = await db
+                .select({ type: benchmarkWods.type })
+                .from(benchmarkWods)
+                .where(eq(benchmarkWods.id, leaderboard.benchmarkId))
+                .limit(1);
+            isLoadBoard = !!benchmark && benchmarkTypeToScoringType(benchmark.type) === "load";
+        }
+        if (!isLoadBoard) return rows.map(row => ({ ...row, unit: null }));
+
+        const isRelative = leaderboard.relativeScoring !== "none";
+        return rows.map(row => {
+            const entry = row.leaderboard_entries;
+            if (!entry) return { ...row, unit };
+
+            const toUnit = (value: string) => toDisplayLoad(value, CANONICAL_WEIGHT_UNIT, unit).value.toString();
+            return {
+                ...row,
+                leaderboard_entries: {
+                    ...entry,
+                    value: isRelative ? entry.value : toUnit(entry.value),
+                    rawValue: entry.rawValue !== null ? toUnit(entry.rawValue) : null,
+                },
+                unit,
+            };
+        });
+    }
+
+    /**
+     * Divisions that currently have entries on a leaderboard
+     */
+    static async getLeaderboardDivisions(leaderboardId: string) {
+        const divisions = await db
+            .select({
+                division: leaderboardEntries.division,
+                entries: sql<number>`count(*)::int`,
+            })
+            .from(leaderboardEntries)
+            .where(eq(leaderboardEntries.leaderboardId, leaderboardId))
+            .groupBy(leaderboardEntries.division)
+            .orderBy(asc(leaderboardEntries.division));
+
+        return divisions.map(row => ({ ...row, label: formatDivisionLabel(row.division) }));
+    }
+
     /**
      * Get all active leaderboards for a box
      */
@@ -109,6 +481,16 @@ export class AthleteLeaderboardService {
      * Update leaderboard entry rank
      */
     static async updateLeaderboardEntryRank(entryId: string, newRank: number) {
+        const [current] = await db
+            .select({ leaderboardId: leaderboardEntries.leaderboardId })
+            .from(leaderboardEntries)
+            .where(eq(leaderboardEntries.id, entryId))
+            .limit(1);
+
+        if (current) {
+            await AthleteLeaderboardService.assertManualLeaderboard(current.leaderboardId);
+        }
+
         const [updatedEntry] = await db
             .update(leaderboardEntries)
             .set({ rank: newRank })
@@ -130,6 +512,374 @@ export class AthleteLeaderboardService {
         return removedEntry;
     }
 
+    /**
+     * Best-result candidates for a board, filtered by period and rx/scaled category
+     */
+    private static async getCandidates(
+        leaderboard: typeof leaderboards.$inferSelect
+    ): Promise<LeaderboardCandidate[]> {
+        const athlete = {
+            userId: boxMemberships.userId,
+            sex: userProfiles.sex,
+            dateOfBirth: userProfiles.dateOfBirth,
+        };
+
+        if (leaderboard.type === "streak") {
+            const athletes = await db
+                .select({
+                    ...athlete,
+                    membershipId: boxMemberships.id,
+                    checkinStreak: boxMemberships.checkinStreak,
+                    lastCheckinDate: boxMemberships.lastCheckinDate,
+                    joinedAt: boxMemberships.joinedAt,
+                })
+                .from(boxMemberships)
+                .leftJoin(userProfiles, eq(boxMemberships.userId, userProfiles.userId))
+                .where(and(
+                    eq(boxMemberships.boxId, leaderboard.boxId),
+                    eq(boxMemberships.isActive, true),
+                    gt(boxMemberships.checkinStreak, 0)
+                ));
+
+            return athletes.map(row => ({
+                membershipId: row.membershipId,
+                userId: row.userId,
+                sex: row.sex,
+                dateOfBirth: row.dateOfBirth,
+                value: row.checkinStreak,
+                unit: null,
+                tiebreakSeconds: null,
+                scaled: false,
+                achievedAt: row.lastCheckinDate ?? row.joinedAt,
+                rawValue: null,
+                bodyweightKg: null,
+                prId: null,
+                benchmarkId: null,
+            }));
+        }
+
+        if (leaderboard.type === "pr") {
+            if (!leaderboard.movementId) return [];
+
+            // PR boards rank 1RMs; a logged 5RM is not comparable to another athlete's single
+            const conditions = [
+                eq(athletePrs.boxId, leaderboard.boxId),
+                eq(athletePrs.movementId, leaderboard.movementId),
+                or(isNull(athletePrs.reps), eq(athletePrs.reps, 1)),
+                eq(boxMemberships.isActive, true),
+            ];
+            if (leaderboard.periodStart) conditions.push(gte(athletePrs.achievedAt, leaderboard.periodStart));
+            if (leaderboard.periodEnd) conditions.push(lte(athletePrs.achievedAt, leaderboard.periodEnd));
+
+            const prs = await db
+                .select({
+                    ...athlete,
+                    id: athletePrs.id,
+                    membershipId: athletePrs.membershipId,
+                    value: athletePrs.value,
+                    unit: athletePrs.unit,
+                    achievedAt: athletePrs.achievedAt,
+                })
+                .from(athletePrs)
+                .innerJoin(boxMemberships, eq(athletePrs.membershipId, boxMemberships.id))
+                .leftJoin(userProfiles, eq(boxMemberships.userId, userProfiles.userId))
+                .where(and(...conditions));
+
+            return prs.map(pr => ({
+                membershipId: pr.membershipId,
+                userId: pr.userId,
+                sex: pr.sex,
+                dateOfBirth: pr.dateOfBirth,
+                value: Number(pr.value),
+                unit: pr.unit,
+                tiebreakSeconds: null,
+                scaled: false,
+                achievedAt: pr.achievedAt,
+                rawValue: null,
+                bodyweightKg: null,
+                prId: pr.id,
+                benchmarkId: null,
+            }));
+        }
+
+        if (!leaderboard.benchmarkId) return [];
+
+        const conditions = [
+            eq(athleteBenchmarks.boxId, leaderboard.boxId),
+            eq(athleteBenchmarks.benchmarkId, leaderboard.benchmarkId),
+            eq(boxMemberships.isActive, true),
+        ];
+        if (leaderboard.periodStart) conditions.push(gte(athleteBenchmarks.achievedAt, leaderboard.periodStart));
+        if (leaderboard.periodEnd) conditions.push(lte(athleteBenchmarks.achievedAt, leaderboard.periodEnd));
+        if (leaderboard.category === "rx") conditions.push(eq(athleteBenchmarks.scaled, false));
+        if (leaderboard.category === "scaled") conditions.push(eq(athleteBenchmarks.scaled, true));
+
+        const results = await db
+            .select({
+                ...athlete,
+                id: athleteBenchmarks.id,
+                membershipId: athleteBenchmarks.membershipId,
+                value: athleteBenchmarks.value,
+                tiebreakSeconds: athleteBenchmarks.tiebreakSeconds,
+                scaled: athleteBenchmarks.scaled,
+                achievedAt: athleteBenchmarks.achievedAt,
+            })
+            .from(athleteBenchmarks)
+            .innerJoin(boxMemberships, eq(athleteBenchmarks.membershipId, boxMemberships.id))
+            .leftJoin(userProfiles, eq(boxMemberships.userId, userProfiles.userId))
+            .where(and(...conditions));
+
+        return results.map(result => ({
+            membershipId: result.membershipId,
+            userId: result.userId,
+            sex: result.sex,
+            dateOfBirth: result.dateOfBirth,
+            value: Number(result.value),
+            unit: null,
+            tiebreakSeconds: result.tiebreakSeconds,
+            scaled: result.scaled,
+            achievedAt: result.achievedAt,
+            rawValue: null,
+            bodyweightKg: null,
+            prId: null,
+            benchmarkId: result.id,
+        }));
+    }
+
+    /**
+     * Replace lift values with bodyweight-adjusted scores. Uses the latest bodyweight logged
+     * on or before the lift (or the first one after it); athletes without a usable
+     * bodyweight, or without a sex for Sinclair/Wilks, can't be ranked.
+     */
+    private static async applyRelativeScoring(
+        candidates: LeaderboardCandidate[],
+        scoring: RelativeScoring
+    ): Promise<LeaderboardCandidate[]> {
+        const userIds = [...new Set(candidates.map(candidate => candidate.userId))];
+        if (userIds.length === 0) return [];
+
+        const logs = await db
+            .select({
+                userId: userBodyweightLogs.userId,
+                weight: userBodyweightLogs.weight,
+                unit: userBodyweightLogs.unit,
+                recordedAt: userBodyweightLogs.recordedAt,
+            })
+            .from(userBodyweightLogs)
+            .where(inArray(userBodyweightLogs.userId, userIds))
+            .orderBy(asc(userBodyweightLogs.recordedAt));
+
+        const scored: LeaderboardCandidate[] = [];
+        for (const candidate of candidates) {
+            const userLogs = logs.filter(log => log.userId === candidate.userId);
+            const log = userLogs.filter(entry => entry.recordedAt <= candidate.achievedAt).pop() ?? userLogs[0];
+            if (!log) continue;
+
+            const bodyweightKg = toKilograms(Number(log.weight), log.unit);
+            const liftKg = toKilograms(candidate.value, candidate.unit);
+            const value = getRelativeScore(scoring, liftKg, bodyweightKg, candidate.sex);
+            if (value === null || value <= 0) continue;
+
+            scored.push({
+                ...candidate,
+                value,
+                rawValue: candidate.value,
+                bodyweightKg: Math.round(bodyweightKg * 100) / 100,
+            });
+        }
+
+        return scored;
+    }
+
+    /**
+     * Keep each athlete's best candidate, order them and rank every division separately:
+     * unique ranks plus tie-aware display ranks, capped at maxEntries per division
+     */
+    private static rankCandidates(
+        candidates: LeaderboardCandidate[],
+        leaderboard: typeof leaderboards.$inferSelect
+    ) {
+        const compareScores = (a: LeaderboardCandidate, b: LeaderboardCandidate) =>
+            AthleteLeaderboardService.compareEntries(leaderboard.sortDirection, a, b);
+
+        // Earlier results win exact ties for the unique position
+        const sorted = [...candidates].sort((a, b) =>
+            compareScores(a, b) || a.achievedAt.getTime() - b.achievedAt.getTime()
+        );
+
+        const seen = new Set<string>();
+        const best = sorted.filter(candidate => {
+            if (seen.has(candidate.membershipId)) return false;
+            seen.add(candidate.membershipId);
+            return true;
+        });
+
+        // Divisions are decided by age at the end of the period (CrossFit uses the competition end date)
+        const asOf = leaderboard.periodEnd ?? new Date();
+        const byDivision = new Map<string, Array<{ candidate: LeaderboardCandidate; divisionLevel: number }>>();
+        for (const candidate of best) {
+            const divisions = getAthleteDivisions(candidate, asOf);
+            for (const [divisionLevel, division] of divisions.entries()) {
+                const members = byDivision.get(division) ?? [];
+                members.push({ candidate, divisionLevel });
+                byDivision.set(division, members);
+            }
+        }
+
+        const ranked: RankedLeaderboardEntry[] = [];
+        for (const [division, members] of byDivision) {
+            let previous: RankedLeaderboardEntry | undefined;
+
+            for (const [index, { candidate, divisionLevel }] of members.slice(0, leaderboard.maxEntries).entries()) {
+                const tied = previous !== undefined && compareScores(previous, candidate) === 0;
+                const entry = {
+                    ...candidate,
+                    division,
+                    divisionLevel,
+                    rank: index + 1,
+                    displayRank: tied && previous ? previous.displayRank : index + 1,
+                };
+
+                ranked.push(entry);
+                previous = entry;
+            }
+        }
+
+        return ranked;
+    }
+
+    /**
+     * Rx ranks ahead of scaled, then the score itself (with tiebreak)
+     */
+    private static compareEntries(
+        sortDirection: ScoreSortDirection,
+        a: { value: number; tiebreakSeconds: number | null; scaled: boolean },
+        b: { value: number; tiebreakSeconds: number | null; scaled: boolean }
+    ) {
+        if (a.scaled !== b.scaled) {
+            return a.scaled ? 1 : -1;
+        }
+
+        return compareWorkoutScores(
+            { value: a.value, sortDirection, tiebreakSeconds: a.tiebreakSeconds },
+            { value: b.value, sortDirection, tiebreakSeconds: b.tiebreakSeconds }
+        );
+    }
+
+    /**
+     * Whether a new result could change a board: in any of the athlete's divisions there's
+     * room, the athlete is already on it, or it beats the last entry. Relative boards always
+     * recompute since the adjusted score depends on bodyweight.
+     */
+    private static async canPlaceOnBoard(
+        board: typeof leaderboards.$inferSelect,
+        result: { membershipId: string; value: number; tiebreakSeconds: number | null; scaled: boolean }
+    ) {
+        if (board.relativeScoring !== "none") return true;
+
+        const [athlete] = await db
+            .select({ sex: userProfiles.sex, dateOfBirth: userProfiles.dateOfBirth })
+            .from(boxMemberships)
+            .leftJoin(userProfiles, eq(boxMemberships.userId, userProfiles.userId))
+            .where(eq(boxMemberships.id, result.membershipId))
+            .limit(1);
+
+        const divisions = athlete
+            ? getAthleteDivisions(athlete, board.periodEnd ?? new Date())
+            : [ALL_DIVISION];
+
+        const entries = await db
+            .select({
+                membershipId: leaderboardEntries.membershipId,
+                division: leaderboardEntries.division,
+                value: leaderboardEntries.value,
+                tiebreakSeconds: leaderboardEntries.tiebreakSeconds,
+                scaled: leaderboardEntries.scaled,
+            })
+            .from(leaderboardEntries)
+            .where(and(
+                eq(leaderboardEntries.leaderboardId, board.id),
+                inArray(leaderboardEntries.division, divisions)
+            ))
+            .orderBy(asc(leaderboardEntries.rank));
+
+        return divisions.some(division => {
+            const divisionEntries = entries.filter(entry => entry.division === division);
+
+            if (divisionEntries.length < board.maxEntries) return true;
+            if (divisionEntries.some(entry => entry.membershipId === result.membershipId)) return true;
+
+            const last = divisionEntries[divisionEntries.length - 1];
+            return AthleteLeaderboardService.compareEntries(
+                board.sortDirection,
+                result,
+                { value: Number(last.value), tiebreakSeconds: last.tiebreakSeconds, scaled: last.scaled }
+            ) < 0;
+        });
+    }
+
+    /**
+     * Automatic boards are owned by recomputeLeaderboard; manual edits would be overwritten
+     */
+    private static async assertManualLeaderboard(leaderboardId: string) {
+        const [leaderboard] = await db
+            .select({ type: leaderboards.type })
+            .from(leaderboards)
+            .where(eq(leaderboards.id, leaderboardId))
+            .limit(1);
+
+        if (leaderboard && AUTOMATIC_LEADERBOARD_TYPES.includes(leaderboard.type)) {
+            throw new Error("Entries on pr, benchmark and streak leaderboards are managed automatically");
+        }
+    }
+
+    /**
+     * One notification per athlete, for the most specific division that changed
+     */
+    private static async notifyChanges(changes: LeaderboardChange[]) {
+        const notifications = new AthleteLeaderboardNotificationService();
+
+        const byMember = new Map<string, LeaderboardChange>();
+        for (const change of changes) {
+            const current = byMember.get(change.membershipId);
+            if (!current || change.divisionLevel > current.divisionLevel) {
+                byMember.set(change.membershipId, change);
+            }
+        }
+
+        try {
+            for (const { entryId, previousRank } of byMember.values()) {
+                if (previousRank === null) {
+                    await notifications.sendLeaderboardAdditionNotification(entryId);
+                } else {
+                    await notifications.sendRankChangeNotification(entryId, previousRank);
+                }
+            }
+        } catch (error) {
+            console.error("[Leaderboards] Failed to send leaderboard notifications:", error);
+        }
+    }
+
+    /**
+     * Timed benchmarks rank the lowest score first; everything else ranks the highest first
+     */
+    private static async resolveSortDirection(benchmarkId?: string) {
+        if (benchmarkId) {
+            const [benchmark] = await db
+                .select({ type: benchmarkWods.type })
+                .from(benchmarkWods)
+                .where(eq(benchmarkWods.id, benchmarkId))
+                .limit(1);
+
+            const scoreType = benchmark ? benchmarkTypeToScoringType(benchmark.type) : null;
+            if (scoreType) {
+                return getScoreSortDirection(scoreType);
+            }
+        }
+
+        return "desc" as const;
+    }
+
     /**
      * Deactivate a leaderboard
      */
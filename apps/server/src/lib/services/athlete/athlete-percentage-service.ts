@@ -0,0 +1,216 @@
+﻿// lib/services/athlete/athlete-percentage-service.ts
+import { db } from "@/db";
+import {
+    boxes,
+    boxMemberships,
+    movements,
+    programmedWorkoutMovements,
+    programmedWorkoutParts,
+    programmedWorkouts,
+    userProfiles
+} from "@/db/schema";
+import { and, asc, eq, inArray, isNotNull } from "drizzle-orm";
+import { AthletePRService } from "./athlete-pr-service";
+import { roundToIncrement } from "./one-rep-max";
+import type { WeightUnit } from "./units";
+
+export interface PercentagePrescription {
+    movementId: string;
+    percentage: number;
+    reps?: number | null;
+    sets?: number | null;
+}
+
+export interface PercentageLoad {
+    movementId: string;
+    movementName: string;
+    percentage: number;
+    reps: number | null;
+    sets: number | null;
+    load: number | null; // Rounded to the box's plate increment, null without a 1RM
+    exactLoad: number | null;
+    oneRepMax: number | null;
+    oneRepMaxSource: "actual" | "estimated" | null;
+}
+
+export class AthletePercentageService {
+    /**
+     * Turn percentage prescriptions ("5x3 @ 80%") into loads from the athlete's 1RMs,
+     * rounded to the box's plate increment in the athlete's preferred unit
+     */
+    static async calculatePercentageLoads(
+        boxId: string,
+        athleteId: string,
+        prescriptions: PercentagePrescription[],
+        options: {
+            unit?: WeightUnit;
+            preferEstimated?: boolean;
+        } = {}
+    ) {
+        const settings = await AthletePercentageService.getLoadSettings(boxId, athleteId, options.unit);
+        const loads = await AthletePercentageService.resolveLoads(
+            boxId,
+            athleteId,
+            prescriptions,
+            settings,
+            options.preferEstimated
+        );
+
+        return {
+            unit: settings.unit,
+            increment: settings.increment,
+            loads,
+        };
+    }
+
+    /**
+     * Percentage loads for every prescribed movement in a published programmed workout
+     */
+    static async getWorkoutLoads(
+        boxId: string,
+        athleteId: string,
+        workoutId: string,
+        options: {
+            unit?: WeightUnit;
+            preferEstimated?: boolean;
+        } = {}
+    ) {
+        const [workout] = await db
+            .select({
+                id: programmedWorkouts.id,
+                title: programmedWorkouts.title,
+                workoutDate: programmedWorkouts.workoutDate,
+            })
+            .from(programmedWorkouts)
+            .where(and(
+                eq(programmedWorkouts.id, workoutId),
+                eq(programmedWorkouts.boxId, boxId),
+                eq(programmedWorkouts.status, "published")
+            ))
+            .limit(1);
+
+        if (!workout) {
+            throw new Error("Programmed workout not found");
+        }
+
+        const prescribed = await db
+            .select({
+                partId: programmedWorkoutParts.id,
+                partTitle: programmedWorkoutParts.title,
+                partPosition: programmedWorkoutParts.position,
+                movementId: programmedWorkoutMovements.movementId,
+                percentage: programmedWorkoutMovements.prescribedPercentage,
+                reps: programmedWorkoutMovements.prescribedReps,
+                sets: programmedWorkoutMovements.prescribedSets,
+            })
+            .from(programmedWorkoutMovements)
+            .innerJoin(programmedWorkoutParts, eq(programmedWorkoutMovements.partId, programmedWorkoutParts.id))
+            .where(and(
+                eq(programmedWorkoutParts.workoutId, workoutId),
+                isNotNull(programmedWorkoutMovements.prescribedPercentage)
+            ))
+            .orderBy(asc(programmedWorkoutParts.position), asc(programmedWorkoutMovements.position));
+
+        const settings = await AthletePercentageService.getLoadSettings(boxId, athleteId, options.unit);
+        const loads = await AthletePercentageService.resolveLoads(
+            boxId,
+            athleteId,
+            prescribed.map(row => ({
+                movementId: row.movementId,
+                percentage: Number(row.percentage),
+                reps: row.reps,
+                sets: row.sets,
+            })),
+            settings,
+            options.preferEstimated
+        );
+
+        const parts: Array<{ partId: string; title: string; position: number; loads: PercentageLoad[] }> = [];
+        for (const [index, row] of prescribed.entries()) {
+            let part = parts.find(p => p.partId === row.partId);
+            if (!part) {
+                part = { partId: row.partId, title: row.partTitle, position: row.partPosition, loads: [] };
+                parts.push(part);
+            }
+            part.loads.push(loads[index]);
+        }
+
+        return {
+            workout,
+            unit: settings.unit,
+            increment: settings.increment,
+            parts,
+        };
+    }
+
+    private static async resolveLoads(
+        boxId: string,
+        athleteId: string,
+        prescriptions: PercentagePrescription[],
+        settings: { unit: WeightUnit; increment: number },
+        preferEstimated = false
+    ): Promise<PercentageLoad[]> {
+        const movementIds = [...new Set(prescriptions.map(p => p.movementId))];
+
+        const [oneRepMaxes, movementRows] = await Promise.all([
+            AthletePRService.getOneRepMaxes(boxId, athleteId, movementIds, settings.unit, preferEstimated),
+            movementIds.length === 0 ? [] : db
+                .select({ id: movements.id, name: movements.name })
+                .from(movements)
+                .where(inArray(movements.id, movementIds)),
+        ]);
+
+        if (movementRows.length !== movementIds.length) {
+            throw new Error("Movement not found");
+        }
+
+        return prescriptions.map(prescription => {
+            const oneRepMax = oneRepMaxes.get(prescription.movementId);
+            const exactLoad = oneRepMax ? oneRepMax.value * prescription.percentage / 100 : null;
+
+            return {
+                movementId: prescription.movementId,
+                movementName: movementRows.find(m => m.id === prescription.movementId)?.name ?? "",
+                percentage: prescription.percentage,
+                reps: prescription.reps ?? null,
+                sets: prescription.sets ?? null,
+                load: exactLoad !== null ? roundToIncrement(exactLoad, settings.increment) : null,
+                exactLoad: exactLoad !== null ? Math.round(exactLoad * 100) / 100 : null,
+                oneRepMax: oneRepMax?.value ?? null,
+                oneRepMaxSource: oneRepMax?.source ?? null,
+            };
+        });
+    }
+
+    /**
+     * Unit (explicit, athlete preference, then box default) and the box's plate increment for it
+     */
+    private static async getLoadSettings(boxId: string, athleteId: string, unit?: WeightUnit) {
+        const [row] = await db
+            .select({
+                defaultWeightUnit: boxes.defaultWeightUnit,
+                loadIncrementKg: boxes.loadIncrementKg,
+                loadIncrementLbs: boxes.loadIncrementLbs,
+                preferredWeightUnit: userProfiles.preferredWeightUnit,
+            })
+            .from(boxMemberships)
+            .innerJoin(boxes, eq(boxMemberships.boxId, boxes.id))
+            .leftJoin(userProfiles, eq(userProfiles.userId, boxMemberships.userId))
+            .where(and(
+                eq(boxMemberships.id, athleteId),
+                eq(boxMemberships.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!row) {
+            throw new Error("Athlete not found");
+        }
+
+        const resolvedUnit = unit ?? row.preferredWeightUnit ?? row.defaultWeightUnit;
+
+        return {
+            unit: resolvedUnit,
+            increment: Number(resolvedUnit === "kg" ? row.loadIncrementKg : row.loadIncrementLbs),
+        };
+    }
+}
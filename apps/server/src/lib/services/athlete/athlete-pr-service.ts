@@ -1,9 +1,26 @@
 // lib/services/athlete-pr-service.ts - Enhanced for Video Strategy
 import { db } from "@/db";
 import { athletePrs, movements, videoConsents, videoProcessingEvents, boxMemberships } from "@/db/schema";
-import { eq, and, desc, gte, count, sql } from "drizzle-orm";
+import { eq, and, desc, gte, count, sql, inArray } from "drizzle-orm";
+import { getBoxTimezone, getPeriodRange } from "@/lib/dates";
 import { GumletService } from "../gumlet-service";
 import { AthleteBadgeService } from "./athlete-badge-service";
+import { AthleteLeaderboardService } from "./athlete-leaderboard-service";
+import {
+    MAX_ESTIMATION_REPS,
+    estimateLoadForReps,
+    estimateOneRepMax,
+    type OneRepMaxFormula
+} from "./one-rep-max";
+import {
+    CANONICAL_WEIGHT_UNIT,
+    convertLoad,
+    isLoadUnit,
+    normalizeWeightUnit,
+    toCanonicalLoad,
+    toDisplayLoad,
+    type WeightUnit
+} from "./units";
 
 export interface PRCelebrationData {
     showConfetti: boolean;
@@ -13,7 +30,7 @@ export interface PRCelebrationData {
         description: string;
     }>;
     milestones: Array<{
-        type: 'first_pr' | 'video_verified' | 'weight_milestone' | 'consistency';
+        type: 'first_pr' | 'video_verified' | 'weight_milestone' | 'consistency' | 'estimated_1rm_pr';
         achievement: string;
         value: string;
     }>;
@@ -33,6 +50,36 @@ export interface VideoUploadData {
     gumletMetadata?: any;
 }
 
+export interface EstimatedOneRepMaxResult {
+    value: number;
+    unit: string;
+    previousBest: number | null;
+    isPr: boolean;
+}
+
+export interface RepMaxTableRow {
+    reps: number;
+    actual: {
+        load: number;
+        prId: string;
+        achievedAt: Date;
+    } | null;
+    estimated: number | null;
+}
+
+export interface RepMaxTable {
+    movement: typeof movements.$inferSelect;
+    unit: string;
+    estimatedOneRepMax: number | null;
+    estimatedFrom: {
+        prId: string;
+        load: number;
+        reps: number;
+        achievedAt: Date;
+    } | null;
+    rows: RepMaxTableRow[];
+}
+
 export interface PRWithVideoData {
     pr: typeof athletePrs.$inferSelect;
     movement: typeof movements.$inferSelect;
@@ -70,6 +117,11 @@ export class AthletePRService {
         } = {}
     ) {
         const publicId = crypto.randomUUID();
+        const reps = options.reps ?? 1;
+
+        // Loads are stored in kg; the entered unit is only used for the response and celebrations
+        const enteredUnit = normalizeWeightUnit(unit) ?? unit;
+        const stored = toCanonicalLoad(value, unit);
 
         // Get movement details for celebration context
         const movement = await db
@@ -82,14 +134,27 @@ export class AthletePRService {
             throw new Error("Movement not found");
         }
 
+        // Compare the estimated 1RM against previous lifts before this one is stored
+        const estimate = isLoadUnit(unit) ? estimateOneRepMax(value, reps) : null;
+        let estimatedOneRepMax: EstimatedOneRepMaxResult | null = null;
+        if (estimate !== null) {
+            const previous = await AthletePRService.getBestEstimatedOneRepMax(boxId, athleteId, movementId, unit);
+            estimatedOneRepMax = {
+                value: estimate,
+                unit: enteredUnit,
+                previousBest: previous?.value ?? null,
+                isPr: !previous || estimate > previous.value,
+            };
+        }
+
         const [pr] = await db
             .insert(athletePrs)
             .values({
                 boxId,
                 membershipId: athleteId,
                 movementId,
-                value: value.toString(),
-                unit,
+                value: stored.value.toString(),
+                unit: stored.unit,
                 reps: options.reps,
                 notes: options.notes,
                 coachNotes: options.coachNotes,
@@ -131,25 +196,51 @@ export class AthletePRService {
                 title: 'Video Verified PR',
                 description: 'Uploaded video proof for a personal record',
                 icon: 'video-camera',
-                achievedValue: `${movement[0].name} - ${value}${unit}`,
+                achievedValue: `${movement[0].name} - ${value}${enteredUnit}`,
                 tier: 1
             });
         }
 
+        // Update any PR leaderboards this result can place on. PR boards rank 1RMs only,
+        // and the PR is already saved, so a failed refresh must not fail the request.
+        if (reps === 1) {
+            try {
+                await AthleteLeaderboardService.refreshLeaderboardsForResult(
+                    boxId,
+                    { type: "pr", movementId },
+                    { membershipId: athleteId, value: stored.value, achievedAt: pr.achievedAt }
+                );
+            } catch (error) {
+                console.error("[Leaderboards] Failed to refresh PR leaderboards:", error);
+            }
+        }
+
+        const enteredPr = { ...pr, value: value.toString(), unit: enteredUnit };
+
         // Generate celebration data if requested
         let celebrationData: PRCelebrationData | undefined;
         if (options.triggerCelebration !== false) {
             celebrationData = await this.generateCelebrationData(
                 boxId,
                 athleteId,
-                pr,
+                enteredPr,
                 movement[0],
                 !!options.videoData
             );
+
+            // A heavier triple can beat a previous single without being a heavier single
+            if (estimatedOneRepMax?.isPr && estimatedOneRepMax.previousBest !== null && reps > 1) {
+                celebrationData.milestones.push({
+                    type: 'estimated_1rm_pr',
+                    achievement: 'Estimated 1RM PR!',
+                    value: `${movement[0].name} - ${estimatedOneRepMax.value}${enteredUnit}`
+                });
+            }
         }
 
         return {
-            pr,
+            pr: enteredPr,
+            estimatedOneRepMax,
             celebrationData
         };
     }
@@ -244,14 +335,15 @@ export class AthletePRService {
     }
 
     /**
-     * Get recent PRs with enhanced video and celebration data
+     * Get recent PRs with enhanced video and celebration data. Loads are returned in `unit`.
      */
     static async getRecentPRs(
         boxId: string,
         athleteId: string,
         days: number = 30,
         limit: number = 10,
-        includeVideoData: boolean = true
+        includeVideoData: boolean = true,
+        unit: WeightUnit = CANONICAL_WEIGHT_UNIT
     ): Promise<PRWithVideoData[]> {
         const dateFrom = new Date();
         dateFrom.setDate(dateFrom.getDate() - days);
@@ -276,9 +368,10 @@ export class AthletePRService {
         // Enhance with video data if requested
         const enhancedPrs = await Promise.all(
             prs.map(async ({ pr, movement }) => {
+                const display = toDisplayLoad(pr.value, pr.unit, unit);
                 const prData: PRWithVideoData = {
-                    pr,
-                    movement,
+                    pr: { ...pr, value: display.value.toString(), unit: display.unit },
+                    movement: isLoadUnit(movement.unit) ? { ...movement, unit } : movement,
                     hasVideo: !!pr.gumletAssetId
                 };
 
@@ -302,7 +395,7 @@ export class AthletePRService {
     }
 
     /**
-     * Get video-verified PRs for leaderboards and social features
+     * Get video-verified PRs for leaderboards and social features. Loads are returned in `unit`.
      */
     static async getVideoVerifiedPRs(
         boxId: string,
@@ -311,9 +404,10 @@ export class AthletePRService {
             timeframe?: 'week' | 'month' | 'year' | 'all';
             limit?: number;
             minViews?: number;
+            unit?: WeightUnit;
         } = {}
     ) {
-        const { movementId, timeframe = 'month', limit = 10 } = options;
+        const { movementId, timeframe = 'month', limit = 10, unit = CANONICAL_WEIGHT_UNIT } = options;
 
         let dateFrom: Date | undefined;
         if (timeframe !== 'all') {
@@ -345,7 +439,7 @@ export class AthletePRService {
             conditions.push(gte(athletePrs.achievedAt, dateFrom));
         }
 
-        return db
+        const prs = await db
             .select({
                 pr: athletePrs,
                 movement: movements,
@@ -365,16 +459,26 @@ export class AthletePRService {
             .where(and(...conditions))
             .orderBy(desc(athletePrs.achievedAt))
             .limit(limit);
+
+        return prs.map(({ pr, movement, membership }) => {
+            const display = toDisplayLoad(pr.value, pr.unit, unit);
+            return {
+                pr: { ...pr, value: display.value.toString(), unit: display.unit },
+                movement: isLoadUnit(movement.unit) ? { ...movement, unit } : movement,
+                membership,
+            };
+        });
     }
 
     /**
-     * Get PR timeline for visual progress tracking
+     * Get PR timeline for visual progress tracking. Loads are returned in `unit`.
      */
     static async getPRTimeline(
         boxId: string,
         athleteId: string,
         movementId: string,
-        includeVideos: boolean = true
+        includeVideos: boolean = true,
+        unit: WeightUnit = CANONICAL_WEIGHT_UNIT
     ) {
         const conditions = [
             eq(athletePrs.boxId, boxId),
@@ -396,17 +500,19 @@ export class AthletePRService {
             .where(and(...conditions))
             .orderBy(athletePrs.achievedAt);
 
-        // Calculate progress metrics
+        // Calculate progress metrics in the display unit
+        const values = timeline.map(item => toDisplayLoad(item.pr.value, item.pr.unit, unit));
         const progressMetrics = timeline.map((item, index) => {
-            const currentValue = parseFloat(item.pr.value);
+            const display = values[index];
             const improvement = index > 0 ?
-                currentValue - parseFloat(timeline[index - 1].pr.value) : 0;
+                display.value - values[index - 1].value : 0;
             const percentImprovement = index > 0 ?
-                (improvement / parseFloat(timeline[index - 1].pr.value)) * 100 : 0;
+                (improvement / values[index - 1].value) * 100 : 0;
 
             return {
-                ...item,
-                improvement,
+                pr: { ...item.pr, value: display.value.toString(), unit: display.unit },
+                movement: isLoadUnit(item.movement.unit) ? { ...item.movement, unit } : item.movement,
+                improvement: Math.round(improvement * 100) / 100,
                 percentImprovement: Math.round(percentImprovement * 100) / 100,
                 hasVideo: !!item.pr.gumletAssetId,
                 playbackUrls: item.pr.gumletAssetId ?
@@ -421,9 +527,7 @@ export class AthletePRService {
      * Get monthly video-verified PR stats for gamification
      */
     static async getMonthlyVideoStats(boxId: string, athleteId: string) {
-        const startOfMonth = new Date();
-        startOfMonth.setDate(1);
-        startOfMonth.setHours(0, 0, 0, 0);
+        const { start: startOfMonth } = getPeriodRange("monthly", await getBoxTimezone(boxId));
 
         const [videoVerifiedCount, totalPrCount] = await Promise.all([
             db.select({ count: count() })
@@ -454,4 +558,187 @@ export class AthletePRService {
             canEarnConsistencyBadge: videoVerifiedCount[0].count >= 3 // Threshold for consistency badge
         };
     }
+
+    /**
+     * Rep-max table (1-10 reps) per movement: the best load actually lifted for each rep count
+     * and the load predicted from the athlete's best estimated 1RM
+     */
+    static async getRepMaxTable(
+        boxId: string,
+        athleteId: string,
+        options: {
+            movementId?: string;
+            formula?: OneRepMaxFormula;
+            unit?: WeightUnit;
+        } = {}
+    ): Promise<RepMaxTable[]> {
+        const { movementId, formula = "average", unit = CANONICAL_WEIGHT_UNIT } = options;
+
+        const conditions = [
+            eq(athletePrs.boxId, boxId),
+            eq(athletePrs.membershipId, athleteId)
+        ];
+        if (movementId) {
+            conditions.push(eq(athletePrs.movementId, movementId));
+        }
+
+        const prs = await db
+            .select({
+                pr: athletePrs,
+                movement: movements
+            })
+            .from(athletePrs)
+            .innerJoin(movements, eq(athletePrs.movementId, movements.id))
+            .where(and(...conditions))
+            .orderBy(desc(athletePrs.achievedAt));
+
+        const byMovement = new Map<string, typeof prs>();
+        for (const item of prs) {
+            if (!isLoadUnit(item.pr.unit)) continue;
+
+            const movementPrs = byMovement.get(item.movement.id) ?? [];
+            movementPrs.push(item);
+            byMovement.set(item.movement.id, movementPrs);
+        }
+
+        return [...byMovement.values()].map(movementPrs => {
+            const lifts = movementPrs.map(({ pr }) => ({
+                prId: pr.id,
+                load: Math.round(convertLoad(Number(pr.value), pr.unit, unit) * 100) / 100,
+                reps: pr.reps ?? 1,
+                achievedAt: pr.achievedAt,
+            }));
+
+            let best: (typeof lifts[number] & { estimate: number }) | null = null;
+            for (const lift of lifts) {
+                const estimate = estimateOneRepMax(lift.load, lift.reps, formula);
+                if (estimate !== null && (!best || estimate > best.estimate)) {
+                    best = { ...lift, estimate };
+                }
+            }
+
+            const rows: RepMaxTableRow[] = [];
+            for (let reps = 1; reps <= MAX_ESTIMATION_REPS; reps++) {
+                const actual = lifts
+                    .filter(lift => lift.reps === reps)
+                    .reduce<typeof lifts[number] | null>((top, lift) => !top || lift.load > top.load ? lift : top, null);
+
+                rows.push({
+                    reps,
+                    actual: actual ? { load: actual.load, prId: actual.prId, achievedAt: actual.achievedAt } : null,
+                    estimated: best ? estimateLoadForReps(best.estimate, reps, formula) : null,
+                });
+            }
+
+            return {
+                movement: movementPrs[0].movement,
+                unit,
+                estimatedOneRepMax: best?.estimate ?? null,
+                estimatedFrom: best
+                    ? { prId: best.prId, load: best.load, reps: best.reps, achievedAt: best.achievedAt }
+                    : null,
+                rows,
+            };
+        }).sort((a, b) => a.movement.name.localeCompare(b.movement.name));
+    }
+
+    /**
+     * 1RM per movement in the requested unit: the heaviest logged single, falling back to the
+     * best estimate from multi-rep sets. With `preferEstimated` a higher estimate beats the single.
+     */
+    static async getOneRepMaxes(
+        boxId: string,
+        athleteId: string,
+        movementIds: string[],
+        unit: string,
+        preferEstimated = false
+    ) {
+        const oneRepMaxes = new Map<string, {
+            value: number;
+            source: "actual" | "estimated";
+            prId: string;
+            achievedAt: Date;
+        }>();
+        if (movementIds.length === 0) return oneRepMaxes;
+
+        const prs = await db
+            .select({
+                id: athletePrs.id,
+                movementId: athletePrs.movementId,
+                value: athletePrs.value,
+                unit: athletePrs.unit,
+                reps: athletePrs.reps,
+                achievedAt: athletePrs.achievedAt,
+            })
+            .from(athletePrs)
+            .where(and(
+                eq(athletePrs.boxId, boxId),
+                eq(athletePrs.membershipId, athleteId),
+                inArray(athletePrs.movementId, movementIds)
+            ));
+
+        const actual = new Map<string, { value: number; prId: string; achievedAt: Date }>();
+        const estimated = new Map<string, { value: number; prId: string; achievedAt: Date }>();
+        for (const pr of prs) {
+            if (!isLoadUnit(pr.unit)) continue;
+
+            const load = convertLoad(Number(pr.value), pr.unit, unit);
+            const reps = pr.reps ?? 1;
+            const target = reps === 1 ? actual : estimated;
+            const value = estimateOneRepMax(load, reps);
+
+            if (value !== null && value > (target.get(pr.movementId)?.value ?? 0)) {
+                target.set(pr.movementId, { value, prId: pr.id, achievedAt: pr.achievedAt });
+            }
+        }
+
+        for (const movementId of movementIds) {
+            const single = actual.get(movementId);
+            const estimate = estimated.get(movementId);
+
+            if (single && (!estimate || !preferEstimated || single.value >= estimate.value)) {
+                oneRepMaxes.set(movementId, { ...single, source: "actual" });
+            } else if (estimate) {
+                oneRepMaxes.set(movementId, { ...estimate, source: "estimated" });
+            }
+        }
+
+        return oneRepMaxes;
+    }
+
+    /**
+     * Best estimated 1RM across an athlete's logged lifts for a movement, in the requested unit
+     */
+    private static async getBestEstimatedOneRepMax(
+        boxId: string,
+        athleteId: string,
+        movementId: string,
+        unit: string
+    ): Promise<{ value: number; prId: string } | null> {
+        const prs = await db
+            .select({
+                id: athletePrs.id,
+                value: athletePrs.value,
+                unit: athletePrs.unit,
+                reps: athletePrs.reps,
+            })
+            .from(athletePrs)
+            .where(and(
+                eq(athletePrs.boxId, boxId),
+                eq(athletePrs.membershipId, athleteId),
+                eq(athletePrs.movementId, movementId)
+            ));
+
+        let best: { value: number; prId: string } | null = null;
+        for (const pr of prs) {
+            if (!isLoadUnit(pr.unit)) continue;
+
+            const estimate = estimateOneRepMax(convertLoad(Number(pr.value), pr.unit, unit), pr.reps ?? 1);
+            if (estimate !== null && (!best || estimate > best.value)) {
+                best = { value: estimate, prId: pr.id };
+            }
+        }
+
+        return best;
+    }
 }
@@ -0,0 +1,218 @@
+﻿// lib/services/athlete/athlete-readiness-service.ts
+import { db } from "@/db";
+import {
+    athletePainEntries,
+    athleteSorenessEntries,
+    athleteWellnessCheckins
+} from "@/db/schema";
+import { and, asc, eq, gte, inArray, lt } from "drizzle-orm";
+import { addDays, formatLocalDate, getBoxTimezone, getLocalRange } from "@/lib/dates";
+import {
+    calculateReadiness,
+    READINESS_BASELINE_DAYS,
+    type ReadinessCheckin,
+    type ReadinessScore
+} from "./readiness";
+
+export interface AthleteReadiness extends ReadinessScore {
+    checkinId: string;
+    checkinDate: Date;
+    date: string; // YYYY-MM-DD in the box's timezone
+}
+
+type LocalCheckin = ReadinessCheckin & {
+    id: string;
+    membershipId: string;
+    checkinDate: Date;
+    date: string;
+};
+
+export class AthleteReadinessService {
+    /**
+     * Readiness from the athlete's check-in on `date` (box-local YYYY-MM-DD, default today),
+     * null when they haven't checked in that day
+     */
+    static async getReadiness(
+        boxId: string,
+        athleteId: string,
+        options: { date?: string } = {}
+    ): Promise<AthleteReadiness | null> {
+        const readiness = await AthleteReadinessService.getReadinessForAthletes(boxId, [athleteId], options.date);
+        return readiness.get(athleteId) ?? null;
+    }
+
+    /**
+     * Readiness for several athletes on the same box-local date. Athletes without a
+     * check-in that day are left out of the map.
+     */
+    static async getReadinessForAthletes(
+        boxId: string,
+        athleteIds: string[],
+        date?: string
+    ): Promise<Map<string, AthleteReadiness>> {
+        const readiness = new Map<string, AthleteReadiness>();
+        if (athleteIds.length === 0) return readiness;
+
+        const timezone = await getBoxTimezone(boxId);
+        const targetDate = date ?? formatLocalDate(new Date(), timezone);
+
+        const checkinsByAthlete = await AthleteReadinessService.getLocalCheckins(
+            boxId,
+            athleteIds,
+            addDays(targetDate, -READINESS_BASELINE_DAYS),
+            targetDate,
+            timezone
+        );
+
+        const targets = new Map<string, LocalCheckin>();
+        for (const [athleteId, checkins] of checkinsByAthlete) {
+            const todays = checkins.filter(c => c.date === targetDate);
+            if (todays.length > 0) targets.set(athleteId, todays[todays.length - 1]);
+        }
+
+        const entries = await AthleteReadinessService.getSeverities([...targets.values()].map(c => c.id));
+
+        for (const [athleteId, checkin] of targets) {
+            const baseline = (checkinsByAthlete.get(athleteId) ?? []).filter(c => c.date < targetDate);
+            readiness.set(athleteId, AthleteReadinessService.score(checkin, baseline, entries));
+        }
+
+        return readiness;
+    }
+
+    /**
+     * Daily readiness over the last `days`, each check-in scored against the
+     * baseline that came before it
+     */
+    static async getReadinessTrend(boxId: string, athleteId: string, days = 30) {
+        const timezone = await getBoxTimezone(boxId);
+        const today = formatLocalDate(new Date(), timezone);
+        const from = addDays(today, -(days - 1));
+
+        const checkinsByAthlete = await AthleteReadinessService.getLocalCheckins(
+            boxId,
+            [athleteId],
+            addDays(from, -READINESS_BASELINE_DAYS),
+            today,
+            timezone
+        );
+        const checkins = checkinsByAthlete.get(athleteId) ?? [];
+        const scored = checkins.filter(c => c.date >= from);
+        const entries = await AthleteReadinessService.getSeverities(scored.map(c => c.id));
+
+        const trend = scored.map(checkin => {
+            const baseline = checkins.filter(c =>
+                c.date < checkin.date && c.date >= addDays(checkin.date, -READINESS_BASELINE_DAYS)
+            );
+            return AthleteReadinessService.score(checkin, baseline, entries);
+        });
+
+        return {
+            trend,
+            summary: {
+                days,
+                checkins: trend.length,
+                avgScore: trend.length > 0
+                    ? Math.round(trend.reduce((sum, r) => sum + r.score, 0) / trend.length)
+                    : null,
+                recommendations: {
+                    train_as_programmed: trend.filter(r => r.recommendation === "train_as_programmed").length,
+                    scale: trend.filter(r => r.recommendation === "scale").length,
+                    recover: trend.filter(r => r.recommendation === "recover").length,
+                },
+            },
+        };
+    }
+
+    private static score(
+        checkin: LocalCheckin,
+        baseline: LocalCheckin[],
+        entries: Map<string, { soreness: number[]; pain: number[] }>
+    ): AthleteReadiness {
+        const severities = entries.get(checkin.id) ?? { soreness: [], pain: [] };
+
+        return {
+            checkinId: checkin.id,
+            checkinDate: checkin.checkinDate,
+            date: checkin.date,
+            ...calculateReadiness(checkin, baseline, severities.soreness, severities.pain),
+        };
+    }
+
+    /**
+     * Check-ins between two box-local dates (inclusive), per athlete, oldest first
+     */
+    private static async getLocalCheckins(
+        boxId: string,
+        athleteIds: string[],
+        from: string,
+        to: string,
+        timezone: string
+    ): Promise<Map<string, LocalCheckin[]>> {
+        const range = getLocalRange(from, to, timezone);
+        const rows = await db
+            .select({
+                id: athleteWellnessCheckins.id,
+                membershipId: athleteWellnessCheckins.membershipId,
+                checkinDate: athleteWellnessCheckins.checkinDate,
+                energyLevel: athleteWellnessCheckins.energyLevel,
+                sleepQuality: athleteWellnessCheckins.sleepQuality,
+                stressLevel: athleteWellnessCheckins.stressLevel,
+                motivationLevel: athleteWellnessCheckins.motivationLevel,
+                workoutReadiness: athleteWellnessCheckins.workoutReadiness,
+                hydrationLevel: athleteWellnessCheckins.hydrationLevel,
+                nutritionQuality: athleteWellnessCheckins.nutritionQuality,
+            })
+            .from(athleteWellnessCheckins)
+            .where(and(
+                eq(athleteWellnessCheckins.boxId, boxId),
+                inArray(athleteWellnessCheckins.membershipId, athleteIds),
+                gte(athleteWellnessCheckins.checkinDate, range.start),
+                lt(athleteWellnessCheckins.checkinDate, range.end)
+            ))
+            .orderBy(asc(athleteWellnessCheckins.checkinDate));
+
+        const checkinsByAthlete = new Map<string, LocalCheckin[]>();
+        for (const row of rows) {
+            const date = formatLocalDate(row.checkinDate, timezone);
+            const checkins = checkinsByAthlete.get(row.membershipId) ?? [];
+            checkins.push({ ...row, date });
+            checkinsByAthlete.set(row.membershipId, checkins);
+        }
+
+        return checkinsByAthlete;
+    }
+
+    /**
+     * Soreness and pain severities per check-in
+     */
+    private static async getSeverities(checkinIds: string[]) {
+        const severities = new Map<string, { soreness: number[]; pain: number[] }>();
+        if (checkinIds.length === 0) return severities;
+
+        const [soreness, pain] = await Promise.all([
+            db
+                .select({ checkinId: athleteSorenessEntries.checkinId, severity: athleteSorenessEntries.severity })
+                .from(athleteSorenessEntries)
+                .where(inArray(athleteSorenessEntries.checkinId, checkinIds)),
+            db
+                .select({ checkinId: athletePainEntries.checkinId, severity: athletePainEntries.severity })
+                .from(athletePainEntries)
+                .where(inArray(athletePainEntries.checkinId, checkinIds)),
+        ]);
+
+        const forCheckin = (checkinId: string) => {
+            let entry = severities.get(checkinId);
+            if (!entry) {
+                entry = { soreness: [], pain: [] };
+                severities.set(checkinId, entry);
+            }
+            return entry;
+        };
+
+        for (const row of soreness) forCheckin(row.checkinId).soreness.push(row.severity);
+        for (const row of pain) forCheckin(row.checkinId).pain.push(row.severity);
+
+        return severities;
+    }
+}
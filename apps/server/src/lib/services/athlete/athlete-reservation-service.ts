@@ -0,0 +1,304 @@
+﻿// lib/services/athlete/athlete-reservation-service.ts
+import { db, withTransaction } from "@/db";
+import { boxMemberships, classInstances, classReservations, wodAttendance } from "@/db/schema";
+import { and, asc, eq, gte, inArray, sql } from "drizzle-orm";
+import { BoxScheduleService } from "@/lib/services/box/box-schedule-service";
+
+export class AthleteReservationService {
+    /**
+     * Reserve a spot in a scheduled class. When the class is full the athlete joins the waitlist.
+     */
+    static async reserveClass(boxId: string, athleteId: string, classInstanceId: string) {
+        const instance = await AthleteReservationService.getReservableInstance(boxId, classInstanceId);
+
+        if (instance.startsAt <= new Date()) {
+            throw new Error("Class has already started");
+        }
+
+        return withTransaction(async (tx) => {
+            // Lock the class so concurrent bookings count the remaining spots one at a time
+            await tx
+                .select({ id: classInstances.id })
+                .from(classInstances)
+                .where(eq(classInstances.id, classInstanceId))
+                .for("update");
+
+            const [existing] = await tx
+                .select()
+                .from(classReservations)
+                .where(and(
+                    eq(classReservations.classInstanceId, classInstanceId),
+                    eq(classReservations.membershipId, athleteId)
+                ))
+                .limit(1);
+
+            if (existing && existing.status === "reserved") {
+                throw new Error("You already have a reservation for this class");
+            }
+            if (existing && existing.status === "waitlisted") {
+                throw new Error("You are already on the waitlist for this class");
+            }
+            if (existing && existing.status === "attended") {
+                throw new Error("You have already checked in to this class");
+            }
+            // Late cancels and no-shows stay on the record, only a plain cancellation can be re-booked
+            if (existing && existing.status !== "cancelled") {
+                throw new Error("This class can't be booked again");
+            }
+
+            const [counts] = await tx
+                .select({
+                    reservedCount: sql<number>`COUNT(CASE WHEN ${classReservations.status} IN ('reserved', 'attended') THEN 1 END)`,
+                    waitlistCount: sql<number>`COUNT(CASE WHEN ${classReservations.status} = 'waitlisted' THEN 1 END)`,
+                })
+                .from(classReservations)
+                .where(eq(classReservations.classInstanceId, classInstanceId));
+
+            let status: "reserved" | "waitlisted" = "reserved";
+            if (Number(counts.reservedCount) >= instance.capacity) {
+                const policy = await BoxScheduleService.getSchedulingPolicy(boxId);
+                if (!policy.waitlistEnabled || Number(counts.waitlistCount) >= policy.maxWaitlistSize) {
+                    throw new Error("Class is full");
+                }
+                status = "waitlisted";
+            }
+
+            const now = new Date();
+
+            // Re-booking after a cancellation reuses the existing row (one reservation per athlete per class)
+            if (existing) {
+                const [reservation] = await tx
+                    .update(classReservations)
+                    .set({
+                        status,
+                        reservedAt: now,
+                        cancelledAt: null,
+                        promotedAt: null,
+                        updatedAt: now,
+                    })
+                    .where(eq(classReservations.id, existing.id))
+                    .returning();
+
+                return reservation;
+            }
+
+            const [reservation] = await tx
+                .insert(classReservations)
+                .values({
+                    boxId,
+                    classInstanceId,
+                    membershipId: athleteId,
+                    status,
+                    reservedAt: now,
+                })
+                .returning();
+
+            return reservation;
+        });
+    }
+
+    /**
+     * Cancel a reservation or leave the waitlist. Cancelling inside the late-cancel window records
+     * a late cancel in wodAttendance; any freed spot is offered to the waitlist.
+     */
+    static async cancelReservation(boxId: string, athleteId: string, classInstanceId: string) {
+        const instance = await AthleteReservationService.getReservableInstance(boxId, classInstanceId);
+
+        const [reservation] = await db
+            .select()
+            .from(classReservations)
+            .where(and(
+                eq(classReservations.classInstanceId, classInstanceId),
+                eq(classReservations.membershipId, athleteId),
+                inArray(classReservations.status, ["reserved", "waitlisted"])
+            ))
+            .limit(1);
+
+        if (!reservation) {
+            throw new Error("Reservation not found");
+        }
+
+        const now = new Date();
+        if (instance.startsAt <= now) {
+            throw new Error("Class has already started");
+        }
+
+        const policy = await BoxScheduleService.getSchedulingPolicy(boxId);
+        const lateCancelOpensAt = new Date(
+            instance.startsAt.getTime() - BoxScheduleService.getLateCancelWindowMinutes(instance, policy) * 60 * 1000
+        );
+        // A spot handed over from the waitlist inside the window wasn't the athlete's choice to take
+        const promotedLate = reservation.promotedAt !== null && reservation.promotedAt >= lateCancelOpensAt;
+        const isLateCancel = reservation.status === "reserved"
+            && now > lateCancelOpensAt
+            && !promotedLate;
+
+        const [cancelled] = await db
+            .update(classReservations)
+            .set({
+                status: isLateCancel ? "late_cancel" : "cancelled",
+                cancelledAt: now,
+                updatedAt: now,
+            })
+            .where(eq(classReservations.id, reservation.id))
+            .returning();
+
+        if (isLateCancel) {
+            await BoxScheduleService.recordPolicyViolation(boxId, cancelled.id);
+        }
+
+        const promoted = reservation.status === "reserved"
+            ? await BoxScheduleService.promoteFromWaitlist(boxId, classInstanceId)
+            : [];
+
+        return {
+            reservation: cancelled,
+            isLateCancel,
+            promotedCount: promoted.length,
+        };
+    }
+
+    /**
+     * Check an athlete into a class. Athletes without a reservation are recorded as walk-ins.
+     * Self check-in closes after the box no-show grace period; coaches can still check athletes in
+     * (which also clears a no-show recorded for them).
+     */
+    static async checkInToClass(
+        boxId: string,
+        athleteId: string,
+        classInstanceId: string,
+        checkedInByMembershipId: string
+    ) {
+        const instance = await AthleteReservationService.getReservableInstance(boxId, classInstanceId);
+
+        // Coaches pass the athlete's id, so make sure it is a member of this box
+        const [athlete] = await db
+            .select({ id: boxMemberships.id })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.id, athleteId),
+                eq(boxMemberships.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!athlete) {
+            throw new Error("Athlete not found");
+        }
+
+        const now = new Date();
+        const checkInOpensAt = new Date(instance.startsAt.getTime() - 60 * 60 * 1000);
+        if (now < checkInOpensAt || now > instance.endsAt) {
+            throw new Error("Check-in is only open from one hour before class until it ends");
+        }
+
+        if (checkedInByMembershipId === athleteId) {
+            const policy = await BoxScheduleService.getSchedulingPolicy(boxId);
+            const selfCheckInClosesAt = new Date(instance.startsAt.getTime() + policy.noShowGraceMinutes * 60 * 1000);
+            if (now > selfCheckInClosesAt) {
+                throw new Error("Self check-in has closed for this class, ask your coach to check you in");
+            }
+        }
+
+        const [existing] = await db
+            .select()
+            .from(classReservations)
+            .where(and(
+                eq(classReservations.classInstanceId, classInstanceId),
+                eq(classReservations.membershipId, athleteId)
+            ))
+            .limit(1);
+
+        if (existing?.status === "attended") {
+            return existing;
+        }
+
+        if (existing?.status === "waitlisted" && checkedInByMembershipId === athleteId) {
+            throw new Error("You are still on the waitlist for this class");
+        }
+
+        if (existing) {
+            const [reservation] = await db
+                .update(classReservations)
+                .set({
+                    status: "attended",
+                    checkedInAt: now,
+                    checkedInByMembershipId,
+                    updatedAt: now,
+                })
+                .where(eq(classReservations.id, existing.id))
+                .returning();
+
+            // A no-show may already have been written to attendance by policy enforcement
+            if (existing.status === "no_show") {
+                await db
+                    .update(wodAttendance)
+                    .set({
+                        status: "attended",
+                        checkedInAt: now,
+                        updatedAt: now,
+                    })
+                    .where(eq(wodAttendance.reservationId, existing.id));
+            }
+
+            return reservation;
+        }
+
+        const [reservation] = await db
+            .insert(classReservations)
+            .values({
+                boxId,
+                classInstanceId,
+                membershipId: athleteId,
+                status: "attended",
+                isWalkIn: true,
+                reservedAt: now,
+                checkedInAt: now,
+                checkedInByMembershipId,
+            })
+            .returning();
+
+        return reservation;
+    }
+
+    /**
+     * Get an athlete's upcoming reservations, including waitlist entries
+     */
+    static async getUpcomingReservations(boxId: string, athleteId: string, limit = 20) {
+        return db
+            .select({
+                reservation: classReservations,
+                classInstance: classInstances,
+            })
+            .from(classReservations)
+            .innerJoin(classInstances, eq(classReservations.classInstanceId, classInstances.id))
+            .where(and(
+                eq(classReservations.boxId, boxId),
+                eq(classReservations.membershipId, athleteId),
+                inArray(classReservations.status, ["reserved", "waitlisted"]),
+                gte(classInstances.startsAt, new Date())
+            ))
+            .orderBy(asc(classInstances.startsAt))
+            .limit(limit);
+    }
+
+    private static async getReservableInstance(boxId: string, classInstanceId: string) {
+        const [instance] = await db
+            .select()
+            .from(classInstances)
+            .where(and(
+                eq(classInstances.id, classInstanceId),
+                eq(classInstances.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!instance) {
+            throw new Error("Class not found");
+        }
+
+        if (instance.status !== "scheduled") {
+            throw new Error("Class is not open for reservations");
+        }
+
+        return instance;
+    }
+}
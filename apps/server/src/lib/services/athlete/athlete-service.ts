@@ -16,6 +16,14 @@ import { AthleteBadgeService } from "./athlete-badge-service";
 import { AthleteVideoService } from "./athlete-video-service";
 import { AthleteAttendanceService } from "./athlete-attendance-service";
 import { AthleteLeaderboardService } from "./athlete-leaderboard-service";
+import { AthleteReservationService } from "./athlete-reservation-service";
+import { AthletePercentageService } from "./athlete-percentage-service";
+import { AthleteTrainingLoadService } from "./athlete-training-load-service";
+import { AthleteReadinessService } from "./athlete-readiness-service";
+import { AthleteInjuryService } from "./athlete-injury-service";
+import { AthleteBodyMapService } from "./athlete-body-map-service";
+import { AthleteWearableService } from "./athlete-wearable-service";
+import type { WeightUnit } from "./units";
 
 export interface AthleteProfileData {
     profile: typeof boxMemberships.$inferSelect;
@@ -69,6 +77,11 @@ export class AthleteService {
     static getAthleteProfile = AthleteCoreService.getAthleteProfile;
     static getAthleteStats = AthleteCoreService.getAthleteStats;
     static updateCheckinStreak = AthleteCoreService.updateCheckinStreak;
+    static updateDivisionProfile = AthleteCoreService.updateDivisionProfile;
+    static logBodyweight = AthleteCoreService.logBodyweight;
+    static getPreferredWeightUnit = AthleteCoreService.getPreferredWeightUnit;
+    static updateUnitPreference = AthleteCoreService.updateUnitPreference;
+    static getBodyweightHistory = AthleteCoreService.getBodyweightHistory;
 
     // PR service methods (Updated with new methods)
     static logPr = AthletePRService.logPr;
@@ -76,15 +89,53 @@ export class AthleteService {
     static getVideoVerifiedPRs = AthletePRService.getVideoVerifiedPRs;
     static getPRTimeline = AthletePRService.getPRTimeline;
     static getMonthlyVideoStats = AthletePRService.getMonthlyVideoStats;
+    static getRepMaxTable = AthletePRService.getRepMaxTable;
+    static getOneRepMaxes = AthletePRService.getOneRepMaxes;
+
+    // Percentage calculator methods
+    static calculatePercentageLoads = AthletePercentageService.calculatePercentageLoads;
+    static getWorkoutLoads = AthletePercentageService.getWorkoutLoads;
 
     // Benchmark service methods
     static logBenchmarkResult = AthleteBenchmarkService.logBenchmarkResult;
     static getRecentBenchmarks = AthleteBenchmarkService.getRecentBenchmarks;
+    static getBenchmarkHistory = AthleteBenchmarkService.getBenchmarkHistory;
 
     // Wellness service methods
     static getWellnessCheckins = AthleteWellnessService.getWellnessCheckins;
     static submitWellnessCheckin = AthleteWellnessService.submitWellnessCheckin;
     static submitWodFeedback = AthleteWellnessService.submitWodFeedback;
+    static getWodFeedback = AthleteWellnessService.getWodFeedback;
+
+    // Training load methods
+    static getTrainingLoad = AthleteTrainingLoadService.getTrainingLoad;
+    static getBoxTrainingLoads = AthleteTrainingLoadService.getBoxTrainingLoads;
+
+    // Readiness methods
+    static getReadiness = AthleteReadinessService.getReadiness;
+    static getReadinessTrend = AthleteReadinessService.getReadinessTrend;
+
+    // Injury case methods
+    static openInjury = AthleteInjuryService.openInjury;
+    static getInjury = AthleteInjuryService.getInjury;
+    static listInjuries = AthleteInjuryService.listInjuries;
+    static updateInjury = AthleteInjuryService.updateInjury;
+    static updateInjuryStatus = AthleteInjuryService.updateStatus;
+    static setInjuryRestrictions = AthleteInjuryService.setRestrictions;
+    static setInjuryReturnPlan = AthleteInjuryService.setReturnPlan;
+    static completeInjuryCheckpoint = AthleteInjuryService.completeCheckpoint;
+    static getActiveRestrictions = AthleteInjuryService.getActiveRestrictions;
+    static flagRestrictedMovements = AthleteInjuryService.flagRestrictedMovements;
+    static getInjurySuggestions = AthleteInjuryService.getInjurySuggestions;
+
+    // Body map methods
+    static getBodyPartHeatmap = AthleteBodyMapService.getBodyPartHeatmap;
+    static getPainPatterns = AthleteBodyMapService.getPainPatterns;
+
+    // Wearable import methods
+    static importWearableFile = AthleteWearableService.importFile;
+    static getWearableMetrics = AthleteWearableService.getWearableMetrics;
+    static getWearableImports = AthleteWearableService.getImports;
 
     // Badge service methods (Updated with new methods)
     static getAthleteBadges = AthleteBadgeService.getAthleteBadges;
@@ -113,15 +164,25 @@ export class AthleteService {
 
     // Attendance service methods
     static recordAttendance = AthleteAttendanceService.recordAttendance;
+    static getAttendanceHistory = AthleteAttendanceService.getAttendanceHistory;
+
+    // Reservation service methods
+    static reserveClass = AthleteReservationService.reserveClass;
+    static cancelReservation = AthleteReservationService.cancelReservation;
+    static checkInToClass = AthleteReservationService.checkInToClass;
+    static getUpcomingReservations = AthleteReservationService.getUpcomingReservations;
 
     // Leaderboard service methods
     static createLeaderboard = AthleteLeaderboardService.createLeaderboard;
     static addLeaderboardEntry = AthleteLeaderboardService.addLeaderboardEntry;
     static getLeaderboard = AthleteLeaderboardService.getLeaderboard;
+    static getLeaderboardDivisions = AthleteLeaderboardService.getLeaderboardDivisions;
+    static toLeaderboardDisplayUnit = AthleteLeaderboardService.toDisplayUnit;
     static getBoxLeaderboards = AthleteLeaderboardService.getBoxLeaderboards;
     static updateLeaderboardEntryRank = AthleteLeaderboardService.updateLeaderboardEntryRank;
     static removeLeaderboardEntry = AthleteLeaderboardService.removeLeaderboardEntry;
     static deactivateLeaderboard = AthleteLeaderboardService.deactivateLeaderboard;
+    static recomputeLeaderboard = AthleteLeaderboardService.recomputeLeaderboard;
 
     /**
      * Get comprehensive athlete profile with recent activity and analytics
@@ -138,6 +199,7 @@ export class AthleteService {
             includeStats?: boolean;
             days?: number;
             limit?: number;
+            unit?: WeightUnit;
         } = {}
     ): Promise<AthleteProfileData | null> {
         return AthleteCoreService.getAthleteProfile(
@@ -0,0 +1,139 @@
+﻿// lib/services/athlete/athlete-training-load-service.ts
+import { db } from "@/db";
+import { boxMemberships, wodFeedback } from "@/db/schema";
+import { and, eq, gte, isNotNull } from "drizzle-orm";
+import { addDays, formatLocalDate, getBoxTimezone, startOfLocalDay } from "@/lib/dates";
+import {
+    calculateTrainingLoadMetrics,
+    CHRONIC_WINDOW_DAYS,
+    fillDailyLoads,
+    sessionLoad,
+    type AcwrZone,
+    type DailyTrainingLoad,
+    type TrainingLoadMetrics
+} from "./training-load";
+
+export interface AthleteTrainingLoadSummary extends TrainingLoadMetrics {
+    membershipId: string;
+    displayName: string;
+}
+
+type DailyLoadMap = Map<string, { load: number; sessions: number }>;
+
+export class AthleteTrainingLoadService {
+    /**
+     * Daily session RPE load with acute/chronic load, ACWR, monotony and strain as of today.
+     * Sessions count when WOD feedback has both an RPE and a duration.
+     */
+    static async getTrainingLoad(
+        boxId: string,
+        athleteId: string,
+        options: { days?: number } = {}
+    ): Promise<{ metrics: TrainingLoadMetrics; dailyLoads: DailyTrainingLoad[] }> {
+        const days = options.days ?? CHRONIC_WINDOW_DAYS;
+        const timezone = await getBoxTimezone(boxId);
+        const today = formatLocalDate(new Date(), timezone);
+        const from = addDays(today, -(Math.max(days, CHRONIC_WINDOW_DAYS) - 1));
+
+        const loadsByAthlete = await AthleteTrainingLoadService.getDailyLoads(boxId, from, timezone, athleteId);
+        const loads = loadsByAthlete.get(athleteId) ?? new Map();
+        const dailyLoads = fillDailyLoads(loads, from, today);
+
+        return {
+            metrics: calculateTrainingLoadMetrics(dailyLoads, today, AthleteTrainingLoadService.firstSessionDate(loads)),
+            dailyLoads: dailyLoads.slice(-days),
+        };
+    }
+
+    /**
+     * Current training load for every active member who logged a session in the last
+     * 28 days, highest ACWR first, for the coach overview and injury risk alerts
+     */
+    static async getBoxTrainingLoads(
+        boxId: string,
+        options: { zones?: AcwrZone[] } = {}
+    ): Promise<AthleteTrainingLoadSummary[]> {
+        const timezone = await getBoxTimezone(boxId);
+        const today = formatLocalDate(new Date(), timezone);
+        const from = addDays(today, -(CHRONIC_WINDOW_DAYS - 1));
+
+        const [loadsByAthlete, members] = await Promise.all([
+            AthleteTrainingLoadService.getDailyLoads(boxId, from, timezone),
+            db
+                .select({ id: boxMemberships.id, displayName: boxMemberships.displayName })
+                .from(boxMemberships)
+                .where(and(
+                    eq(boxMemberships.boxId, boxId),
+                    eq(boxMemberships.isActive, true)
+                )),
+        ]);
+
+        const summaries: AthleteTrainingLoadSummary[] = [];
+        for (const member of members) {
+            const loads = loadsByAthlete.get(member.id);
+            if (!loads) continue;
+
+            const metrics = calculateTrainingLoadMetrics(
+                fillDailyLoads(loads, from, today),
+                today,
+                AthleteTrainingLoadService.firstSessionDate(loads)
+            );
+            if (options.zones && !options.zones.includes(metrics.zone)) continue;
+
+            summaries.push({ membershipId: member.id, displayName: member.displayName, ...metrics });
+        }
+
+        return summaries.sort((a, b) => (b.acwr ?? -1) - (a.acwr ?? -1));
+    }
+
+    /**
+     * Session loads summed per athlete per local day from `from` onwards
+     */
+    private static async getDailyLoads(
+        boxId: string,
+        from: string,
+        timezone: string,
+        athleteId?: string
+    ): Promise<Map<string, DailyLoadMap>> {
+        const since = startOfLocalDay(from, timezone);
+
+        const sessions = await db
+            .select({
+                membershipId: wodFeedback.membershipId,
+                rpe: wodFeedback.rpe,
+                durationMinutes: wodFeedback.workoutDurationMinutes,
+                wodDate: wodFeedback.wodDate,
+            })
+            .from(wodFeedback)
+            .where(and(
+                eq(wodFeedback.boxId, boxId),
+                athleteId ? eq(wodFeedback.membershipId, athleteId) : undefined,
+                isNotNull(wodFeedback.workoutDurationMinutes),
+                gte(wodFeedback.wodDate, since)
+            ));
+
+        const loadsByAthlete = new Map<string, DailyLoadMap>();
+        for (const session of sessions) {
+            const date = formatLocalDate(session.wodDate, timezone);
+            if (session.durationMinutes === null) continue;
+
+            let loads = loadsByAthlete.get(session.membershipId);
+            if (!loads) {
+                loads = new Map();
+                loadsByAthlete.set(session.membershipId, loads);
+            }
+
+            const day = loads.get(date) ?? { load: 0, sessions: 0 };
+            day.load += sessionLoad(session.rpe, session.durationMinutes);
+            day.sessions++;
+            loads.set(date, day);
+        }
+
+        return loadsByAthlete;
+    }
+
+    private static firstSessionDate(loads: DailyLoadMap): string | null {
+        const dates = [...loads.keys()].sort();
+        return dates[0] ?? null;
+    }
+}
@@ -8,7 +8,8 @@ import {
     gumletWebhookEvents,
     boxMemberships,
     prCoachFeedback,
-    videoSocialShares
+    videoSocialShares,
+    boxFeedPosts
 } from "@/db/schema";
 import { eq, and, desc, sql, count, gte } from "drizzle-orm";
 import { GumletService } from "../gumlet-service";
@@ -411,6 +412,8 @@ export class AthleteVideoService {
                 ]);
 
                 return {
+                    type: "pr_video" as const,
+                    postedAt: item.share.sharedAt,
                     ...item,
                     playbackUrls: GumletService.getPlaybackUrls(
                         item.pr.gumletAssetId!,
@@ -424,7 +427,33 @@ export class AthleteVideoService {
             })
         );
 
-        return enhancedFeedItems;
+        // Auto-generated and written posts (e.g. competition results)
+        const posts = await db
+            .select({
+                post: boxFeedPosts,
+                athlete: {
+                    displayName: boxMemberships.displayName,
+                    publicId: boxMemberships.publicId
+                }
+            })
+            .from(boxFeedPosts)
+            .leftJoin(boxMemberships, eq(boxFeedPosts.membershipId, boxMemberships.id))
+            .where(and(
+                eq(boxFeedPosts.boxId, boxId),
+                gte(boxFeedPosts.postedAt, dateFrom)
+            ))
+            .orderBy(desc(boxFeedPosts.postedAt))
+            .limit(limit);
+
+        const postItems = posts.map(item => ({
+            type: "post" as const,
+            postedAt: item.post.postedAt,
+            ...item
+        }));
+
+        return [...enhancedFeedItems, ...postItems]
+            .sort((a, b) => b.postedAt.getTime() - a.postedAt.getTime())
+            .slice(0, limit);
     }
 
     /**
@@ -0,0 +1,172 @@
+﻿// lib/services/athlete/athlete-wearable-service.ts
+import { db } from "@/db";
+import { athleteWearableImports, athleteWearableMetrics, boxMemberships } from "@/db/schema";
+import { and, asc, desc, eq, gte, sql } from "drizzle-orm";
+import { addDays, formatLocalDate, getBoxTimezone } from "@/lib/dates";
+import {
+    detectWearableFormat,
+    MAX_WEARABLE_FILE_BYTES,
+    parseWearableFile,
+    type NightlyWearableMetrics,
+    type WearableFileFormat
+} from "./wearable-import";
+
+export class AthleteWearableService {
+    /**
+     * Import a FIT, GPX or sleep/HRV CSV export and store one row of objective metrics per
+     * night. Nights that already exist are updated, keeping values the new file doesn't have.
+     */
+    static async importFile(
+        boxId: string,
+        athleteId: string,
+        file: {
+            fileName: string;
+            content: string; // base64
+            format?: WearableFileFormat;
+        }
+    ) {
+        const [membership] = await db
+            .select({ id: boxMemberships.id })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.id, athleteId),
+                eq(boxMemberships.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!membership) {
+            throw new Error("Athlete not found");
+        }
+
+        const content = Buffer.from(file.content, "base64");
+        if (content.length === 0) {
+            throw new Error("File is empty");
+        }
+        if (content.length > MAX_WEARABLE_FILE_BYTES) {
+            throw new Error("File is too large");
+        }
+
+        const format = file.format ?? detectWearableFormat(file.fileName, content);
+        if (!format) {
+            throw new Error("Unsupported file type, expected a FIT, GPX or CSV export");
+        }
+
+        const timezone = await getBoxTimezone(boxId);
+
+        let nights: NightlyWearableMetrics[];
+        try {
+            nights = parseWearableFile(content, format, timezone);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            await AthleteWearableService.recordImport(boxId, athleteId, file.fileName, format, [], message);
+            throw new Error(`Could not read file: ${message}`);
+        }
+
+        if (nights.length === 0) {
+            const message = "No sleep, resting heart rate or HRV data found in file";
+            await AthleteWearableService.recordImport(boxId, athleteId, file.fileName, format, [], message);
+            throw new Error(message);
+        }
+
+        const wearableImport = await AthleteWearableService.recordImport(boxId, athleteId, file.fileName, format, nights);
+
+        await db
+            .insert(athleteWearableMetrics)
+            .values(nights.map(night => ({
+                boxId,
+                membershipId: athleteId,
+                metricDate: night.date,
+                sleepDurationMinutes: night.sleepDurationMinutes,
+                restingHeartRate: night.restingHeartRate,
+                hrvMs: night.hrvMs?.toString() ?? null,
+                source: format,
+                importId: wearableImport.id,
+            })))
+            .onConflictDoUpdate({
+                target: [athleteWearableMetrics.membershipId, athleteWearableMetrics.metricDate],
+                set: {
+                    sleepDurationMinutes: sql`COALESCE(excluded.sleep_duration_minutes, ${athleteWearableMetrics.sleepDurationMinutes})`,
+                    restingHeartRate: sql`COALESCE(excluded.resting_heart_rate, ${athleteWearableMetrics.restingHeartRate})`,
+                    hrvMs: sql`COALESCE(excluded.hrv_ms, ${athleteWearableMetrics.hrvMs})`,
+                    source: sql`excluded.source`,
+                    importId: sql`excluded.import_id`,
+                    updatedAt: new Date(),
+                },
+            });
+
+        return {
+            import: wearableImport,
+            nights,
+        };
+    }
+
+    /**
+     * Nightly objective metrics for the last `days` box-local days, oldest first
+     */
+    static async getWearableMetrics(boxId: string, athleteId: string, days = 30) {
+        const timezone = await getBoxTimezone(boxId);
+        const from = addDays(formatLocalDate(new Date(), timezone), -days);
+
+        const metrics = await db
+            .select({
+                date: athleteWearableMetrics.metricDate,
+                sleepDurationMinutes: athleteWearableMetrics.sleepDurationMinutes,
+                restingHeartRate: athleteWearableMetrics.restingHeartRate,
+                hrvMs: athleteWearableMetrics.hrvMs,
+                source: athleteWearableMetrics.source,
+            })
+            .from(athleteWearableMetrics)
+            .where(and(
+                eq(athleteWearableMetrics.boxId, boxId),
+                eq(athleteWearableMetrics.membershipId, athleteId),
+                gte(athleteWearableMetrics.metricDate, from)
+            ))
+            .orderBy(asc(athleteWearableMetrics.metricDate));
+
+        return metrics.map(metric => ({
+            ...metric,
+            hrvMs: metric.hrvMs !== null ? Number(metric.hrvMs) : null,
+        }));
+    }
+
+    /**
+     * Recent imports for an athlete, including failed ones so the athlete can see why
+     */
+    static async getImports(boxId: string, athleteId: string, limit = 20) {
+        return db
+            .select()
+            .from(athleteWearableImports)
+            .where(and(
+                eq(athleteWearableImports.boxId, boxId),
+                eq(athleteWearableImports.membershipId, athleteId)
+            ))
+            .orderBy(desc(athleteWearableImports.createdAt))
+            .limit(limit);
+    }
+
+    private static async recordImport(
+        boxId: string,
+        athleteId: string,
+        fileName: string,
+        format: WearableFileFormat,
+        nights: NightlyWearableMetrics[],
+        errorMessage?: string
+    ) {
+        const [wearableImport] = await db
+            .insert(athleteWearableImports)
+            .values({
+                boxId,
+                membershipId: athleteId,
+                fileName,
+                format,
+                status: errorMessage ? "failed" : "processed",
+                nightsImported: nights.length,
+                firstNight: nights[0]?.date ?? null,
+                lastNight: nights[nights.length - 1]?.date ?? null,
+                errorMessage: errorMessage ?? null,
+            })
+            .returning();
+
+        return wearableImport;
+    }
+}
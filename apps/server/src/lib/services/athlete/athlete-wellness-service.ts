@@ -2,12 +2,26 @@
 import { db } from "@/db";
 import {
     athleteWellnessCheckins,
+    athleteWellnessAnswers,
+    athleteWearableMetrics,
+    boxWellnessQuestionnaires,
+    boxWellnessQuestions,
     athleteSorenessEntries,
     athletePainEntries,
     wodFeedback,
     wodPainEntries
 } from "@/db/schema";
-import {eq, and, gte, lte, desc} from "drizzle-orm";
+import {eq, and, gte, lt, desc, asc, inArray} from "drizzle-orm";
+import { formatLocalDate, getBoxTimezone, getLocalDayRange } from "@/lib/dates";
+import { BoxProgrammingService } from "@/lib/services/box/box-programming-service";
+import { fromScoreColumns, parseWorkoutScore, toScoreColumns } from "@/lib/services/athlete/workout-score";
+import {
+    fromStoredAnswer,
+    toStoredAnswer,
+    type StoredWellnessAnswer,
+    type WellnessAnswerValue,
+    type WellnessQuestionDefinition
+} from "@/lib/services/athlete/wellness-questions";
 
 export interface WellnessCheckinData {
     energyLevel: number;
@@ -31,6 +45,11 @@ export interface WellnessCheckinData {
         painType?: string;
         notes?: string;
     }>;
+    // Answers to the box's active custom questionnaire
+    answers?: Array<{
+        questionId: string;
+        value: WellnessAnswerValue;
+    }>;
 }
 
 export interface WodFeedbackData {
@@ -46,7 +65,8 @@ export interface WodFeedbackData {
     result?: string;
     notes?: string;
     coachNotes?: string;
-    wodName: string;
+    programmedWorkoutId?: string;
+    wodName?: string;
     painEntries?: Array<{
         bodyPart: string;
         severity: number;
@@ -57,7 +77,9 @@ export interface WodFeedbackData {
 
 export class AthleteWellnessService {
     /**
-     * Get wellness check-ins with normalized soreness and pain data
+     * Get wellness check-ins with normalized soreness and pain data and custom question
+     * answers, plus the objective sleep/resting HR/HRV imported from a wearable for the
+     * same night
      */
     static async getWellnessCheckins(
         boxId: string,
@@ -81,9 +103,9 @@ export class AthleteWellnessService {
             .orderBy(desc(athleteWellnessCheckins.checkinDate))
             .limit(limit);
 
-        // Fetch associated soreness and pain entries for each checkin
+        // Fetch associated soreness and pain entries and custom answers for each checkin
         for (const checkin of checkins) {
-            const [sorenessEntries, painEntries] = await Promise.all([
+            const [sorenessEntries, painEntries, answers] = await Promise.all([
                 db
                     .select()
                     .from(athleteSorenessEntries)
@@ -91,11 +113,55 @@ export class AthleteWellnessService {
                 db
                     .select()
                     .from(athletePainEntries)
-                    .where(eq(athletePainEntries.checkinId, checkin.id))
+                    .where(eq(athletePainEntries.checkinId, checkin.id)),
+                db
+                    .select({
+                        questionId: boxWellnessQuestions.id,
+                        key: boxWellnessQuestions.key,
+                        prompt: boxWellnessQuestions.prompt,
+                        type: boxWellnessQuestions.type,
+                        numericValue: athleteWellnessAnswers.numericValue,
+                        booleanValue: athleteWellnessAnswers.booleanValue,
+                        textValue: athleteWellnessAnswers.textValue,
+                    })
+                    .from(athleteWellnessAnswers)
+                    .innerJoin(boxWellnessQuestions, eq(athleteWellnessAnswers.questionId, boxWellnessQuestions.id))
+                    .where(eq(athleteWellnessAnswers.checkinId, checkin.id))
+                    .orderBy(asc(boxWellnessQuestions.position))
             ]);
 
             (checkin as any).sorenessEntries = sorenessEntries;
             (checkin as any).painEntries = painEntries;
+            Object.assign(checkin, {
+                answers: answers.map(answer => ({
+                    questionId: answer.questionId,
+                    key: answer.key,
+                    prompt: answer.prompt,
+                    type: answer.type,
+                    value: fromStoredAnswer(answer.type, answer),
+                })),
+            });
+        }
+
+        if (checkins.length > 0) {
+            const timezone = await getBoxTimezone(boxId);
+            const checkinDates = checkins.map(checkin => formatLocalDate(checkin.checkinDate, timezone));
+
+            const wearableMetrics = await db
+                .select()
+                .from(athleteWearableMetrics)
+                .where(
+                    and(
+                        eq(athleteWearableMetrics.membershipId, athleteId),
+                        inArray(athleteWearableMetrics.metricDate, checkinDates)
+                    )
+                );
+
+            for (const [index, checkin] of checkins.entries()) {
+                Object.assign(checkin, {
+                    wearableMetrics: wearableMetrics.find(m => m.metricDate === checkinDates[index]) ?? null,
+                });
+            }
         }
 
         return checkins;
@@ -109,11 +175,8 @@ export class AthleteWellnessService {
         athleteId: string,
         data: WellnessCheckinData
     ) {
-        // Check if already checked in today
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
+        // Check if already checked in today (the box's day, not the server's)
+        const today = getLocalDayRange(new Date(), await getBoxTimezone(boxId));
 
         const existingCheckin = await db
             .select()
@@ -122,8 +185,8 @@ export class AthleteWellnessService {
                 and(
                     eq(athleteWellnessCheckins.boxId, boxId),
                     eq(athleteWellnessCheckins.membershipId, athleteId),
-                    gte(athleteWellnessCheckins.checkinDate, today),
-                    lte(athleteWellnessCheckins.checkinDate, tomorrow)
+                    gte(athleteWellnessCheckins.checkinDate, today.start),
+                    lt(athleteWellnessCheckins.checkinDate, today.end)
                 )
             )
             .limit(1);
@@ -132,6 +195,9 @@ export class AthleteWellnessService {
             throw new Error("You have already checked in today");
         }
 
+        // Validate custom answers before anything is written
+        const answers = await AthleteWellnessService.validateAnswers(boxId, data.answers ?? []);
+
         // Create the wellness checkin
         const [checkin] = await db
             .insert(athleteWellnessCheckins)
@@ -177,9 +243,66 @@ export class AthleteWellnessService {
             await db.insert(athletePainEntries).values(painValues);
         }
 
+        if (answers.length > 0) {
+            await db.insert(athleteWellnessAnswers).values(answers.map(answer => ({
+                checkinId: checkin.id,
+                questionId: answer.question.id,
+                boxId,
+                membershipId: athleteId,
+                questionKey: answer.question.key,
+                ...answer.stored,
+            })));
+        }
+
         return checkin;
     }
 
+    /**
+     * Match answers to the box's active questionnaire: every answer must belong to it,
+     * fit its question's type, and every required question must be answered
+     */
+    private static async validateAnswers(
+        boxId: string,
+        answers: NonNullable<WellnessCheckinData["answers"]>
+    ): Promise<Array<{ question: WellnessQuestionDefinition; stored: StoredWellnessAnswer }>> {
+        const questions = await db
+            .select({
+                id: boxWellnessQuestions.id,
+                key: boxWellnessQuestions.key,
+                prompt: boxWellnessQuestions.prompt,
+                type: boxWellnessQuestions.type,
+                isRequired: boxWellnessQuestions.isRequired,
+                scaleMin: boxWellnessQuestions.scaleMin,
+                scaleMax: boxWellnessQuestions.scaleMax,
+                options: boxWellnessQuestions.options,
+            })
+            .from(boxWellnessQuestions)
+            .innerJoin(boxWellnessQuestionnaires, eq(boxWellnessQuestions.questionnaireId, boxWellnessQuestionnaires.id))
+            .where(and(
+                eq(boxWellnessQuestionnaires.boxId, boxId),
+                eq(boxWellnessQuestionnaires.isActive, true)
+            ));
+
+        const validated = answers.map(answer => {
+            const question = questions.find(q => q.id === answer.questionId);
+            if (!question) {
+                throw new Error("Question is not part of the current questionnaire");
+            }
+            return { question, stored: toStoredAnswer(question, answer.value) };
+        });
+
+        if (new Set(answers.map(answer => answer.questionId)).size !== answers.length) {
+            throw new Error("Each question can only be answered once");
+        }
+
+        const missing = questions.filter(q => q.isRequired && !answers.some(answer => answer.questionId === q.id));
+        if (missing.length > 0) {
+            throw new Error(`Please answer: ${missing.map(q => q.prompt).join(", ")}`);
+        }
+
+        return validated;
+    }
+
     /**
      * Submit comprehensive WOD feedback with normalized pain tracking
      */
@@ -188,6 +311,17 @@ export class AthleteWellnessService {
         athleteId: string,
         data: WodFeedbackData
     ) {
+        const workout = await BoxProgrammingService.resolveWorkoutReference(boxId, {
+            programmedWorkoutId: data.programmedWorkoutId,
+            wodName: data.wodName,
+        });
+        const score = data.result
+            ? parseWorkoutScore(data.result, {
+                scoringType: workout.scoring?.scoringType,
+                timeCapSeconds: workout.scoring?.timeCapSeconds,
+            })
+            : null;
+
         const [feedback] = await db
             .insert(wodFeedback)
             .values({
@@ -203,9 +337,11 @@ export class AthleteWellnessService {
                 scalingDetails: data.scalingDetails,
                 workoutDurationMinutes: data.workoutDurationMinutes,
                 result: data.result,
+                ...toScoreColumns(score),
                 notes: data.notes,
                 coachNotes: data.coachNotes,
-                wodName: data.wodName,
+                wodName: workout.wodName,
+                programmedWorkoutId: workout.programmedWorkoutId,
                 wodDate: new Date(),
             })
             .returning();
@@ -225,4 +361,66 @@ export class AthleteWellnessService {
 
         return feedback;
     }
+
+    /**
+     * WOD feedback history, newest first, with the normalized score, optional pain
+     * entries and averages over the returned feedback
+     */
+    static async getWodFeedback(
+        boxId: string,
+        athleteId: string,
+        options: {
+            days: number;
+            limit: number;
+            includePainData: boolean;
+            includeAnalytics: boolean;
+        }
+    ) {
+        const dateFrom = new Date();
+        dateFrom.setDate(dateFrom.getDate() - options.days);
+
+        const rows = await db
+            .select()
+            .from(wodFeedback)
+            .where(
+                and(
+                    eq(wodFeedback.boxId, boxId),
+                    eq(wodFeedback.membershipId, athleteId),
+                    gte(wodFeedback.wodDate, dateFrom)
+                )
+            )
+            .orderBy(desc(wodFeedback.wodDate))
+            .limit(options.limit);
+
+        const painEntries = options.includePainData && rows.length > 0
+            ? await db
+                .select()
+                .from(wodPainEntries)
+                .where(inArray(wodPainEntries.feedbackId, rows.map(row => row.id)))
+            : [];
+
+        const feedback = rows.map(row => ({
+            ...row,
+            parsedScore: fromScoreColumns(row),
+            painEntries: options.includePainData
+                ? painEntries.filter(entry => entry.feedbackId === row.id)
+                : undefined,
+        }));
+
+        const average = (values: number[]) =>
+            values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10 : 0;
+        const enjoymentRatings = rows.flatMap(row => row.enjoymentRating !== null ? [row.enjoymentRating] : []);
+
+        return {
+            feedback,
+            analytics: options.includeAnalytics ? {
+                avgRpe: average(rows.map(row => row.rpe)),
+                avgDifficulty: average(rows.map(row => row.difficultyRating)),
+                avgEnjoyment: average(enjoymentRatings),
+                completionRate: rows.length > 0
+                    ? Math.round((rows.filter(row => row.completed).length / rows.length) * 100)
+                    : 0,
+            } : undefined
+        };
+    }
 }
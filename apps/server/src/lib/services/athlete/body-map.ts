@@ -0,0 +1,158 @@
+﻿// lib/services/athlete/body-map.ts
+import { addDays, daysBetween } from "@/lib/dates";
+import type { bodyPartEnum, movementCategoryEnum } from "@/db/schema/enums";
+
+/**
+ * Body-part heatmap layout and pain pattern detection.
+ *
+ * Every bodyPart sits on the front view, the back view or both, so a front/back body
+ * diagram can be coloured straight from the aggregated rows. Intensity is relative: the
+ * most-reported area in the window is 1 and everything else is scaled against it.
+ *
+ * Patterns look for pain in a body part that keeps showing up PATTERN_LAG_DAYS after
+ * heavy days for a movement category ("knee pain 1-2 days after heavy squat days"). A
+ * pattern needs MIN_PATTERN_OCCURRENCES hits and has to beat the athlete's background
+ * pain rate by PATTERN_MIN_LIFT, so someone whose knees hurt every day isn't flagged for
+ * every category they train.
+ */
+export type BodyPart = typeof bodyPartEnum.enumValues[number];
+export type MovementCategory = typeof movementCategoryEnum.enumValues[number];
+export type BodyView = "front" | "back";
+
+export const BODY_PART_VIEWS: Record<BodyPart, BodyView[]> = {
+    neck: ["back"],
+    shoulders: ["front", "back"],
+    chest: ["front"],
+    upper_back: ["back"],
+    lower_back: ["back"],
+    abs: ["front"],
+    biceps: ["front"],
+    triceps: ["back"],
+    forearms: ["front", "back"],
+    glutes: ["back"],
+    quads: ["front"],
+    hamstrings: ["back"],
+    calves: ["back"],
+    ankles: ["front", "back"],
+    knees: ["front"],
+    hips: ["front"],
+    wrists: ["front", "back"],
+};
+
+export const HEAVY_PERCENTAGE = 80; // Prescribed % of 1RM that makes a session heavy for that movement
+export const HEAVY_SESSION_RPE = 8; // Or a session the athlete rated this hard
+export const PATTERN_LAG_DAYS = { min: 1, max: 2 };
+export const MIN_PATTERN_OCCURRENCES = 3;
+export const PATTERN_MIN_HIT_RATE = 0.5;
+export const PATTERN_MIN_LIFT = 1.5;
+
+export interface HeavyDay {
+    date: string; // Local YYYY-MM-DD
+    category: MovementCategory;
+    movements: string[];
+}
+
+export interface PainDay {
+    date: string; // Local YYYY-MM-DD
+    bodyPart: BodyPart;
+    maxSeverity: number;
+}
+
+export interface PainPattern {
+    bodyPart: BodyPart;
+    category: MovementCategory;
+    movements: string[];
+    heavyDays: number;
+    occurrences: number; // Heavy days followed by pain within the lag window
+    hitRate: number;
+    baselineRate: number; // Chance of pain in any lag-window-sized stretch
+    lift: number;
+    avgLagDays: number;
+    avgSeverity: number;
+    lastOccurrence: string;
+    description: string;
+}
+
+/**
+ * Patterns for one athlete between `from` and `to` (inclusive local dates)
+ */
+export function detectPainPatterns(
+    heavyDays: HeavyDay[],
+    painDays: PainDay[],
+    from: string,
+    to: string
+): PainPattern[] {
+    const windowDays = Math.max(1, daysBetween(from, to) + 1);
+    const lagWindow = PATTERN_LAG_DAYS.max - PATTERN_LAG_DAYS.min + 1;
+
+    const painByPart = new Map<BodyPart, Map<string, number>>();
+    for (const day of painDays) {
+        const days = painByPart.get(day.bodyPart) ?? new Map<string, number>();
+        days.set(day.date, Math.max(days.get(day.date) ?? 0, day.maxSeverity));
+        painByPart.set(day.bodyPart, days);
+    }
+
+    const heavyByCategory = new Map<MovementCategory, HeavyDay[]>();
+    for (const day of heavyDays) {
+        const days = heavyByCategory.get(day.category) ?? [];
+        days.push(day);
+        heavyByCategory.set(day.category, days);
+    }
+
+    const patterns: PainPattern[] = [];
+    for (const [bodyPart, painDates] of painByPart) {
+        const dailyPainRate = painDates.size / windowDays;
+        const baselineRate = 1 - (1 - dailyPainRate) ** lagWindow;
+
+        for (const [category, days] of heavyByCategory) {
+            // Heavy days too close to the end of the window can't show a lagged response yet
+            const observable = days.filter(day => addDays(day.date, PATTERN_LAG_DAYS.max) <= to);
+            if (observable.length < MIN_PATTERN_OCCURRENCES) continue;
+
+            const hits: Array<{ date: string; lag: number; severity: number }> = [];
+            for (const day of observable) {
+                for (let lag = PATTERN_LAG_DAYS.min; lag <= PATTERN_LAG_DAYS.max; lag++) {
+                    const severity = painDates.get(addDays(day.date, lag));
+                    if (severity !== undefined) {
+                        hits.push({ date: day.date, lag, severity });
+                        break;
+                    }
+                }
+            }
+
+            const hitRate = hits.length / observable.length;
+            const lift = baselineRate > 0 ? hitRate / baselineRate : 0;
+            if (hits.length < MIN_PATTERN_OCCURRENCES || hitRate < PATTERN_MIN_HIT_RATE || lift < PATTERN_MIN_LIFT) {
+                continue;
+            }
+
+            const hitDates = hits.map(hit => hit.date).sort();
+            const avgLagDays = round(hits.reduce((total, hit) => total + hit.lag, 0) / hits.length);
+            patterns.push({
+                bodyPart,
+                category,
+                movements: [...new Set(observable.flatMap(day => day.movements))].sort(),
+                heavyDays: observable.length,
+                occurrences: hits.length,
+                hitRate: round(hitRate),
+                baselineRate: round(baselineRate),
+                lift: round(lift),
+                avgLagDays,
+                avgSeverity: round(hits.reduce((total, hit) => total + hit.severity, 0) / hits.length),
+                lastOccurrence: hitDates[hitDates.length - 1],
+                description: `${formatBodyPart(bodyPart)} pain appears ${PATTERN_LAG_DAYS.min}-${PATTERN_LAG_DAYS.max} days after heavy ${category} days (${hits.length} of ${observable.length})`,
+            });
+        }
+    }
+
+    return patterns.sort((a, b) => b.lift - a.lift || b.occurrences - a.occurrences);
+}
+
+export function formatBodyPart(bodyPart: BodyPart): string {
+    const label = bodyPart.replace(/_/g, " ");
+    return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
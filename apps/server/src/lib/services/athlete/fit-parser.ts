@@ -0,0 +1,260 @@
+﻿// lib/services/athlete/fit-parser.ts
+
+/**
+ * Minimal decoder for the Garmin/ANT FIT binary format.
+ *
+ * A FIT file is a header, a stream of records and a CRC. Definition records describe the
+ * layout of a local message type (global message number, field numbers, sizes, base types,
+ * byte order) and data records are decoded against the latest definition for their local
+ * type. Only what the wearable import needs is handled: normal and compressed-timestamp
+ * headers, developer fields are skipped rather than decoded, and 64-bit fields come back
+ * as null. Profile scaling (e.g. ms/1000) is left to the caller, which knows its messages.
+ */
+export type FitFieldValue = number | string | number[] | null;
+
+export interface FitMessage {
+    globalMessageNumber: number;
+    timestamp: Date | null; // From field 253 or a compressed timestamp header
+    fields: Map<number, FitFieldValue>;
+}
+
+interface FitFieldDefinition {
+    fieldNumber: number;
+    size: number;
+    baseType: number;
+}
+
+interface FitDefinition {
+    globalMessageNumber: number;
+    littleEndian: boolean;
+    fields: FitFieldDefinition[];
+    developerDataSize: number;
+}
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET = 631065600;
+const TIMESTAMP_FIELD = 253;
+
+// Indexed by base type number (low 5 bits of the base type byte)
+const BASE_TYPE_SIZES = [1, 1, 1, 2, 2, 4, 4, 1, 4, 8, 1, 2, 4, 1, 8, 8, 8];
+const BASE_TYPE_INVALID: Array<number | null> = [
+    0xFF, // enum
+    0x7F, // sint8
+    0xFF, // uint8
+    0x7FFF, // sint16
+    0xFFFF, // uint16
+    0x7FFFFFFF, // sint32
+    0xFFFFFFFF, // uint32
+    null, // string
+    null, // float32 (checked on the raw bits)
+    null, // float64 (checked on the raw bits)
+    0, // uint8z
+    0, // uint16z
+    0, // uint32z
+    0xFF, // byte
+    null, // sint64
+    null, // uint64
+    null, // uint64z
+];
+
+/**
+ * True when the bytes start with a FIT file header
+ */
+export function isFitFile(data: Uint8Array): boolean {
+    if (data.length < 12) return false;
+    const headerSize = data[0];
+    return (headerSize === 12 || headerSize === 14) &&
+        String.fromCharCode(data[8], data[9], data[10], data[11]) === ".FIT";
+}
+
+/**
+ * Decode every data message in a FIT file (chained files included), in file order
+ */
+export function parseFitFile(data: Uint8Array): FitMessage[] {
+    if (!isFitFile(data)) {
+        throw new Error("Invalid FIT file: missing .FIT header");
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const messages: FitMessage[] = [];
+    let fileStart = 0;
+
+    while (fileStart < data.length && isFitFile(data.subarray(fileStart))) {
+        const headerSize = data[fileStart];
+        const dataSize = view.getUint32(fileStart + 4, true);
+        const recordsEnd = fileStart + headerSize + dataSize;
+
+        if (recordsEnd > data.length) {
+            throw new Error("Invalid FIT file: truncated data");
+        }
+
+        decodeRecords(view, fileStart + headerSize, recordsEnd, messages);
+        fileStart = recordsEnd + 2; // Skip the file CRC
+    }
+
+    return messages;
+}
+
+function decodeRecords(view: DataView, start: number, end: number, messages: FitMessage[]) {
+    const definitions = new Map<number, FitDefinition>();
+    let lastTimestamp: number | null = null;
+    let offset = start;
+
+    while (offset < end) {
+        const header = view.getUint8(offset);
+        offset += 1;
+
+        let localType: number;
+        let timeOffset: number | null = null;
+
+        if (header & 0x80) {
+            // Compressed timestamp header: always a data message
+            localType = (header >> 5) & 0x03;
+            timeOffset = header & 0x1F;
+        } else {
+            localType = header & 0x0F;
+
+            if (header & 0x40) {
+                offset = readDefinition(view, offset, (header & 0x20) !== 0, localType, definitions);
+                continue;
+            }
+        }
+
+        const definition = definitions.get(localType);
+        if (!definition) {
+            throw new Error(`Invalid FIT file: data message for undefined local type ${localType}`);
+        }
+
+        const fields = new Map<number, FitFieldValue>();
+        for (const field of definition.fields) {
+            if (offset + field.size > end) {
+                throw new Error("Invalid FIT file: truncated record");
+            }
+            fields.set(field.fieldNumber, readField(view, offset, field, definition.littleEndian));
+            offset += field.size;
+        }
+        offset += definition.developerDataSize;
+
+        let timestamp: number | null = null;
+        const timestampValue = fields.get(TIMESTAMP_FIELD);
+        if (typeof timestampValue === "number") {
+            timestamp = timestampValue;
+            lastTimestamp = timestampValue;
+        } else if (timeOffset !== null && lastTimestamp !== null) {
+            // The offset replaces the low 5 bits of the last timestamp, rolling over when smaller
+            const lastOffset: number = lastTimestamp % 0x20;
+            timestamp = lastTimestamp - lastOffset + timeOffset;
+            if (timeOffset < lastOffset) timestamp += 0x20;
+            lastTimestamp = timestamp;
+        }
+
+        messages.push({
+            globalMessageNumber: definition.globalMessageNumber,
+            timestamp: timestamp !== null ? new Date((timestamp + FIT_EPOCH_OFFSET) * 1000) : null,
+            fields,
+        });
+    }
+}
+
+function readDefinition(
+    view: DataView,
+    start: number,
+    hasDeveloperData: boolean,
+    localType: number,
+    definitions: Map<number, FitDefinition>
+): number {
+    let offset = start + 1; // Reserved byte
+    const littleEndian = view.getUint8(offset) === 0;
+    const globalMessageNumber = view.getUint16(offset + 1, littleEndian);
+    const fieldCount = view.getUint8(offset + 3);
+    offset += 4;
+
+    const fields: FitFieldDefinition[] = [];
+    for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+            fieldNumber: view.getUint8(offset),
+            size: view.getUint8(offset + 1),
+            baseType: view.getUint8(offset + 2) & 0x1F,
+        });
+        offset += 3;
+    }
+
+    let developerDataSize = 0;
+    if (hasDeveloperData) {
+        const developerFieldCount = view.getUint8(offset);
+        offset += 1;
+        for (let i = 0; i < developerFieldCount; i++) {
+            developerDataSize += view.getUint8(offset + 1);
+            offset += 3;
+        }
+    }
+
+    definitions.set(localType, { globalMessageNumber, littleEndian, fields, developerDataSize });
+    return offset;
+}
+
+function readField(view: DataView, offset: number, field: FitFieldDefinition, littleEndian: boolean): FitFieldValue {
+    if (field.baseType === 7) {
+        let text = "";
+        for (let i = 0; i < field.size; i++) {
+            const code = view.getUint8(offset + i);
+            if (code === 0) break;
+            text += String.fromCharCode(code);
+        }
+        return text || null;
+    }
+
+    const baseSize = BASE_TYPE_SIZES[field.baseType];
+    if (baseSize === undefined || field.size % baseSize !== 0) return null;
+
+    const count = field.size / baseSize;
+    if (count === 1) {
+        return readValue(view, offset, field.baseType, littleEndian);
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const value = readValue(view, offset + i * baseSize, field.baseType, littleEndian);
+        if (value !== null) values.push(value);
+    }
+    return values;
+}
+
+function readValue(view: DataView, offset: number, baseType: number, littleEndian: boolean): number | null {
+    let value: number;
+
+    switch (baseType) {
+        case 1:
+            value = view.getInt8(offset);
+            break;
+        case 3:
+            value = view.getInt16(offset, littleEndian);
+            break;
+        case 4:
+        case 11:
+            value = view.getUint16(offset, littleEndian);
+            break;
+        case 5:
+            value = view.getInt32(offset, littleEndian);
+            break;
+        case 6:
+        case 12:
+            value = view.getUint32(offset, littleEndian);
+            break;
+        case 8:
+            if (view.getUint32(offset, littleEndian) === 0xFFFFFFFF) return null;
+            return view.getFloat32(offset, littleEndian);
+        case 9:
+            if (view.getUint32(offset, littleEndian) === 0xFFFFFFFF &&
+                view.getUint32(offset + 4, littleEndian) === 0xFFFFFFFF) return null;
+            return view.getFloat64(offset, littleEndian);
+        case 14:
+        case 15:
+        case 16:
+            return null;
+        default:
+            value = view.getUint8(offset);
+    }
+
+    return value === BASE_TYPE_INVALID[baseType] ? null : value;
+}
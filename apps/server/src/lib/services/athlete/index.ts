@@ -7,6 +7,13 @@ import { AthleteBadgeService } from './athlete-badge-service';
 import { AthleteLeaderboardService } from './athlete-leaderboard-service';
 import { AthleteVideoService } from './athlete-video-service';
 import { AthleteAttendanceService } from './athlete-attendance-service';
+import { AthleteReservationService } from './athlete-reservation-service';
+import { AthletePercentageService } from './athlete-percentage-service';
+import { AthleteTrainingLoadService } from './athlete-training-load-service';
+import { AthleteReadinessService } from './athlete-readiness-service';
+import { AthleteInjuryService } from './athlete-injury-service';
+import { AthleteBodyMapService } from './athlete-body-map-service';
+import { AthleteWearableService } from './athlete-wearable-service';
 
 // Create a service registry with all dependencies
 export const athleteServices = {
@@ -18,7 +25,14 @@ export const athleteServices = {
     leaderboardService: AthleteLeaderboardService,
     videoService: AthleteVideoService,
     attendanceService: AthleteAttendanceService,
+    reservationService: AthleteReservationService,
+    percentageService: AthletePercentageService,
+    trainingLoadService: AthleteTrainingLoadService,
+    readinessService: AthleteReadinessService,
+    injuryService: AthleteInjuryService,
+    bodyMapService: AthleteBodyMapService,
+    wearableService: AthleteWearableService,
 };
 
 // Re-export for convenience
-export { AthleteCoreService, AthletePRService, AthleteBenchmarkService, AthleteWellnessService, AthleteBadgeService, AthleteLeaderboardService, AthleteVideoService, AthleteAttendanceService };
+export { AthleteCoreService, AthletePRService, AthleteBenchmarkService, AthleteWellnessService, AthleteBadgeService, AthleteLeaderboardService, AthleteVideoService, AthleteAttendanceService, AthleteReservationService, AthletePercentageService, AthleteTrainingLoadService, AthleteReadinessService, AthleteInjuryService, AthleteBodyMapService, AthleteWearableService };
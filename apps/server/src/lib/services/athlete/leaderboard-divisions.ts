@@ -0,0 +1,148 @@
+﻿// lib/services/athlete/leaderboard-divisions.ts
+import type { athleteSexEnum, relativeScoringEnum } from "@/db/schema/enums";
+
+export type AthleteSex = typeof athleteSexEnum.enumValues[number];
+export type RelativeScoring = typeof relativeScoringEnum.enumValues[number];
+
+/**
+ * CrossFit-style age groups. Athletes between 18 and 34 only compete in the open
+ * (sex-only) division; teens and masters also get their own age group.
+ */
+export const AGE_GROUPS = [
+    { key: "14_15", minAge: 14, maxAge: 15 },
+    { key: "16_17", minAge: 16, maxAge: 17 },
+    { key: "35_39", minAge: 35, maxAge: 39 },
+    { key: "40_44", minAge: 40, maxAge: 44 },
+    { key: "45_49", minAge: 45, maxAge: 49 },
+    { key: "50_54", minAge: 50, maxAge: 54 },
+    { key: "55_59", minAge: 55, maxAge: 59 },
+    { key: "60_64", minAge: 60, maxAge: 64 },
+    { key: "65_plus", minAge: 65, maxAge: null },
+] as const;
+
+export type AgeGroup = typeof AGE_GROUPS[number]["key"];
+
+export const AGE_GROUP_KEYS = AGE_GROUPS.map(group => group.key) as [AgeGroup, ...AgeGroup[]];
+
+export interface LeaderboardDivision {
+    sex?: AthleteSex;
+    ageGroup?: AgeGroup;
+}
+
+export const ALL_DIVISION = "all";
+
+// Wilks (original) polynomial coefficients, bodyweight in kg
+const WILKS_COEFFICIENTS: Record<AthleteSex, number[]> = {
+    male: [-216.0475144, 16.2606339, -0.002388645, -0.00113732, 7.01863e-6, -1.291e-8],
+    female: [594.31747775582, -27.23842536447, 0.82112226871, -0.00930733913, 4.731582e-5, -9.054e-8],
+};
+const WILKS_BODYWEIGHT_RANGE: Record<AthleteSex, [number, number]> = {
+    male: [40, 201.9],
+    female: [26.51, 154.53],
+};
+
+// Sinclair coefficients for the 2021-2024 Olympic cycle
+const SINCLAIR_COEFFICIENTS: Record<AthleteSex, { a: number; b: number }> = {
+    male: { a: 0.722762521, b: 193.609 },
+    female: { a: 0.787004341, b: 153.757 },
+};
+
+/**
+ * Age in whole years on a given date
+ */
+export function getAgeOnDate(dateOfBirth: Date, asOf: Date): number {
+    let age = asOf.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+    const birthdayPassed =
+        asOf.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+        (asOf.getUTCMonth() === dateOfBirth.getUTCMonth() && asOf.getUTCDate() >= dateOfBirth.getUTCDate());
+
+    if (!birthdayPassed) age--;
+    return age;
+}
+
+export function getAgeGroup(age: number): AgeGroup | null {
+    const group = AGE_GROUPS.find(g => age >= g.minAge && (g.maxAge === null || age <= g.maxAge));
+    return group?.key ?? null;
+}
+
+/**
+ * Storage key for a division filter: "all", "female", "40_44" or "female_40_44"
+ */
+export function getDivisionKey(division?: LeaderboardDivision | null): string {
+    const parts = [division?.sex, division?.ageGroup].filter(Boolean);
+    return parts.length > 0 ? parts.join("_") : ALL_DIVISION;
+}
+
+/**
+ * Every division an athlete ranks in. Missing profile fields just mean fewer divisions.
+ */
+export function getAthleteDivisions(
+    athlete: { sex: AthleteSex | null; dateOfBirth: Date | null },
+    asOf: Date
+): string[] {
+    const ageGroup = athlete.dateOfBirth ? getAgeGroup(getAgeOnDate(athlete.dateOfBirth, asOf)) : null;
+    const divisions = [ALL_DIVISION];
+
+    if (athlete.sex) divisions.push(getDivisionKey({ sex: athlete.sex }));
+    if (ageGroup) divisions.push(getDivisionKey({ ageGroup }));
+    if (athlete.sex && ageGroup) divisions.push(getDivisionKey({ sex: athlete.sex, ageGroup }));
+
+    return divisions;
+}
+
+/**
+ * Human readable division name, e.g. "Women 40-44"
+ */
+export function formatDivisionLabel(divisionKey: string): string {
+    if (divisionKey === ALL_DIVISION) return "All";
+
+    const [first, ...rest] = divisionKey.split("_");
+    const sexLabel = first === "male" ? "Men" : first === "female" ? "Women" : null;
+    const ageKey = sexLabel ? rest.join("_") : divisionKey;
+    const ageLabel = ageKey ? ageKey.replace("_plus", "+").replace("_", "-") : null;
+
+    return [sexLabel, ageLabel].filter(Boolean).join(" ");
+}
+
+/**
+ * Bodyweight-adjusted score for a lift, or null when it can't be computed
+ * (Sinclair and Wilks need the athlete's sex).
+ */
+export function getRelativeScore(
+    scoring: RelativeScoring,
+    loadKg: number,
+    bodyweightKg: number,
+    sex: AthleteSex | null
+): number | null {
+    if (bodyweightKg <= 0) return null;
+
+    switch (scoring) {
+        case "none":
+            return loadKg;
+        case "bodyweight_ratio":
+            return round(loadKg / bodyweightKg);
+        case "sinclair":
+            return sex ? round(loadKg * getSinclairCoefficient(bodyweightKg, sex)) : null;
+        case "wilks":
+            return sex ? round(loadKg * getWilksCoefficient(bodyweightKg, sex)) : null;
+    }
+}
+
+export function getSinclairCoefficient(bodyweightKg: number, sex: AthleteSex): number {
+    const { a, b } = SINCLAIR_COEFFICIENTS[sex];
+    if (bodyweightKg >= b) return 1;
+
+    return 10 ** (a * Math.log10(bodyweightKg / b) ** 2);
+}
+
+export function getWilksCoefficient(bodyweightKg: number, sex: AthleteSex): number {
+    const [min, max] = WILKS_BODYWEIGHT_RANGE[sex];
+    const x = Math.min(Math.max(bodyweightKg, min), max);
+    const denominator = WILKS_COEFFICIENTS[sex].reduce((sum, coefficient, power) => sum + coefficient * x ** power, 0);
+
+    return 500 / denominator;
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,75 @@
+﻿// lib/services/athlete/one-rep-max.ts
+
+/**
+ * One-rep max estimation from a set of `reps` at `load`.
+ *
+ * - epley: load * (1 + reps / 30)
+ * - brzycki: load * 36 / (37 - reps)
+ * - average: mean of both, which evens out Epley running high and Brzycki running low
+ *
+ * Both formulas lose accuracy quickly past ~10 reps, so sets above MAX_ESTIMATION_REPS
+ * don't produce an estimate.
+ */
+export type OneRepMaxFormula = "epley" | "brzycki" | "average";
+
+export const MAX_ESTIMATION_REPS = 10;
+
+/**
+ * Estimated 1RM, or null when the rep count is outside 1-MAX_ESTIMATION_REPS
+ */
+export function estimateOneRepMax(
+    load: number,
+    reps: number,
+    formula: OneRepMaxFormula = "average"
+): number | null {
+    if (load <= 0 || !Number.isInteger(reps) || reps < 1 || reps > MAX_ESTIMATION_REPS) return null;
+    if (reps === 1) return round(load);
+
+    const epley = load * (1 + reps / 30);
+    const brzycki = load * 36 / (37 - reps);
+
+    switch (formula) {
+        case "epley":
+            return round(epley);
+        case "brzycki":
+            return round(brzycki);
+        case "average":
+            return round((epley + brzycki) / 2);
+    }
+}
+
+/**
+ * Load an athlete should manage for `reps` given a 1RM (the inverse of estimateOneRepMax)
+ */
+export function estimateLoadForReps(
+    oneRepMax: number,
+    reps: number,
+    formula: OneRepMaxFormula = "average"
+): number | null {
+    if (oneRepMax <= 0 || !Number.isInteger(reps) || reps < 1 || reps > MAX_ESTIMATION_REPS) return null;
+    if (reps === 1) return round(oneRepMax);
+
+    const epley = oneRepMax / (1 + reps / 30);
+    const brzycki = oneRepMax * (37 - reps) / 36;
+
+    switch (formula) {
+        case "epley":
+            return round(epley);
+        case "brzycki":
+            return round(brzycki);
+        case "average":
+            return round((epley + brzycki) / 2);
+    }
+}
+
+/**
+ * Round a load to the nearest loadable weight, e.g. 2.5kg steps with 1.25kg change plates
+ */
+export function roundToIncrement(load: number, increment: number): number {
+    if (increment <= 0) return round(load);
+    return round(Math.round(load / increment) * increment);
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,170 @@
+﻿// lib/services/athlete/readiness.ts
+
+/**
+ * Composite daily readiness from a wellness check-in.
+ *
+ * Each 1-10 input is compared to the athlete's own rolling baseline (previous check-ins)
+ * as a z-score, so a "6" from someone who usually reports 9 reads as a dip while the same
+ * "6" from someone who usually reports 5 doesn't. Weighted z-scores map onto 0-100 with an
+ * average day for that athlete at 75 and 15 points per standard deviation, then soreness
+ * and pain severity take points off. Until an athlete has MIN_BASELINE_CHECKINS check-ins the
+ * population default (mid-scale) stands in for their baseline.
+ */
+export type ReadinessRecommendation = "train_as_programmed" | "scale" | "recover";
+
+export type ReadinessInput =
+    | "energyLevel"
+    | "sleepQuality"
+    | "stressLevel"
+    | "motivationLevel"
+    | "workoutReadiness"
+    | "hydrationLevel"
+    | "nutritionQuality";
+
+export const READINESS_BASELINE_DAYS = 28;
+export const MIN_BASELINE_CHECKINS = 5;
+
+export const READINESS_THRESHOLDS = { train: 70, scale: 45 };
+
+const READINESS_WEIGHTS: Record<ReadinessInput, { weight: number; inverted?: boolean }> = {
+    sleepQuality: { weight: 0.22 },
+    energyLevel: { weight: 0.2 },
+    workoutReadiness: { weight: 0.2 },
+    stressLevel: { weight: 0.16, inverted: true },
+    motivationLevel: { weight: 0.1 },
+    hydrationLevel: { weight: 0.06 },
+    nutritionQuality: { weight: 0.06 },
+};
+
+const DEFAULT_BASELINE = { mean: 6, sd: 2 };
+const MIN_BASELINE_SD = 0.75; // Keeps a very consistent athlete's single-point dip from reading as -4 SD
+const MAX_Z = 3;
+const BASE_SCORE = 75;
+const POINTS_PER_SD = 15;
+
+export type ReadinessCheckin = Partial<Record<ReadinessInput, number | null>>;
+
+export interface ReadinessComponent {
+    input: ReadinessInput;
+    value: number;
+    baselineMean: number;
+    baselineSd: number;
+    zScore: number;
+}
+
+export interface ReadinessScore {
+    score: number;
+    recommendation: ReadinessRecommendation;
+    components: ReadinessComponent[];
+    soreness: { maxSeverity: number; areas: number; penalty: number };
+    pain: { maxSeverity: number; areas: number; penalty: number };
+    baselineCheckins: number;
+    usesPersonalBaseline: boolean;
+    reasons: string[];
+}
+
+export function calculateReadiness(
+    checkin: ReadinessCheckin,
+    baseline: ReadinessCheckin[],
+    sorenessSeverities: number[],
+    painSeverities: number[]
+): ReadinessScore {
+    const usesPersonalBaseline = baseline.length >= MIN_BASELINE_CHECKINS;
+    const components: ReadinessComponent[] = [];
+
+    let weightedZ = 0;
+    let totalWeight = 0;
+    for (const [input, { weight, inverted }] of Object.entries(READINESS_WEIGHTS) as Array<[ReadinessInput, { weight: number; inverted?: boolean }]>) {
+        const value = checkin[input];
+        if (value === null || value === undefined) continue;
+
+        const { mean, sd } = usesPersonalBaseline
+            ? baselineStats(baseline.map(b => b[input]).filter((v): v is number => v !== null && v !== undefined))
+            : DEFAULT_BASELINE;
+        const rawZ = clamp((value - mean) / sd, -MAX_Z, MAX_Z);
+        const zScore = inverted ? -rawZ : rawZ;
+
+        components.push({ input, value, baselineMean: round(mean), baselineSd: round(sd), zScore: round(zScore) });
+        weightedZ += zScore * weight;
+        totalWeight += weight;
+    }
+
+    const compositeZ = totalWeight > 0 ? weightedZ / totalWeight : 0;
+
+    const soreness = severityPenalty(sorenessSeverities, 1.5, 0.5, 20);
+    const pain = severityPenalty(painSeverities, 3, 1, 35);
+
+    const score = Math.round(clamp(BASE_SCORE + compositeZ * POINTS_PER_SD - soreness.penalty - pain.penalty, 0, 100));
+
+    const reasons: string[] = [];
+    for (const component of components) {
+        if (component.zScore <= -1) {
+            const direction = component.input === "stressLevel" ? "above" : "below";
+            reasons.push(`${describeInput(component.input)} well ${direction} usual (${component.value} vs ${component.baselineMean})`);
+        }
+    }
+    if (soreness.maxSeverity >= 6) reasons.push(`High soreness (${soreness.maxSeverity}/10)`);
+    if (pain.maxSeverity > 0) reasons.push(`Pain reported (${pain.maxSeverity}/10)`);
+
+    return {
+        score,
+        recommendation: recommend(score, pain.maxSeverity),
+        components,
+        soreness,
+        pain,
+        baselineCheckins: baseline.length,
+        usesPersonalBaseline,
+        reasons,
+    };
+}
+
+/**
+ * Pain overrides the score: severe pain always means recover, moderate pain caps at scale
+ */
+function recommend(score: number, maxPainSeverity: number): ReadinessRecommendation {
+    if (maxPainSeverity >= 7 || score < READINESS_THRESHOLDS.scale) return "recover";
+    if (maxPainSeverity >= 4 || score < READINESS_THRESHOLDS.train) return "scale";
+    return "train_as_programmed";
+}
+
+/**
+ * Worst area counts fully, every further area adds a little, capped
+ */
+function severityPenalty(severities: number[], perPoint: number, perExtraArea: number, cap: number) {
+    const reported = severities.filter(s => s > 0);
+    const maxSeverity = reported.length > 0 ? Math.max(...reported) : 0;
+    const penalty = reported.length > 0
+        ? Math.min(cap, maxSeverity * perPoint + (reported.length - 1) * perExtraArea)
+        : 0;
+
+    return { maxSeverity, areas: reported.length, penalty: round(penalty) };
+}
+
+function baselineStats(values: number[]) {
+    if (values.length < MIN_BASELINE_CHECKINS) return DEFAULT_BASELINE;
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+
+    return { mean, sd: Math.max(Math.sqrt(variance), MIN_BASELINE_SD) };
+}
+
+function describeInput(input: ReadinessInput): string {
+    switch (input) {
+        case "energyLevel": return "Energy";
+        case "sleepQuality": return "Sleep";
+        case "stressLevel": return "Stress";
+        case "motivationLevel": return "Motivation";
+        case "workoutReadiness": return "Self-rated readiness";
+        case "hydrationLevel": return "Hydration";
+        case "nutritionQuality": return "Nutrition";
+    }
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,119 @@
+﻿// lib/services/athlete/training-load.ts
+import { addDays, daysBetween } from "@/lib/dates";
+
+/**
+ * Session RPE training load (Foster): RPE (1-10) x session duration in minutes, in
+ * arbitrary units (AU). Daily loads feed the rolling metrics below:
+ *
+ * - acute: load over the last 7 days
+ * - chronic: average weekly load over the last 28 days
+ * - ACWR: acute / chronic. 0.8-1.3 is the "sweet spot"; spikes above 1.5 are associated
+ *   with a sharp rise in injury risk, and sitting below 0.8 leaves athletes under-prepared
+ *   for the next jump in load
+ * - monotony: mean daily load / standard deviation over the last 7 days (> 2 is high)
+ * - strain: acute load x monotony
+ */
+export type AcwrZone = "insufficient_data" | "undertraining" | "optimal" | "caution" | "danger";
+
+export const ACUTE_WINDOW_DAYS = 7;
+export const CHRONIC_WINDOW_DAYS = 28;
+
+// A chronic load built from less history than this is too thin to compare against
+export const MIN_BASELINE_DAYS = 21;
+
+export const ACWR_SAFE_BAND = { min: 0.8, max: 1.3 };
+export const ACWR_DANGER_THRESHOLD = 1.5;
+export const HIGH_MONOTONY_THRESHOLD = 2;
+
+export interface DailyTrainingLoad {
+    date: string; // YYYY-MM-DD in the box's timezone
+    load: number;
+    sessions: number;
+}
+
+export interface TrainingLoadMetrics {
+    asOf: string;
+    acuteLoad: number;
+    chronicLoad: number;
+    acwr: number | null;
+    monotony: number | null;
+    strain: number | null;
+    zone: AcwrZone;
+    daysOfHistory: number;
+    sessionsLast7Days: number;
+}
+
+export function sessionLoad(rpe: number, durationMinutes: number): number {
+    return rpe * durationMinutes;
+}
+
+/**
+ * One entry per day from `from` to `to` inclusive, rest days included as zero load
+ */
+export function fillDailyLoads(
+    loads: Map<string, { load: number; sessions: number }>,
+    from: string,
+    to: string
+): DailyTrainingLoad[] {
+    const days: DailyTrainingLoad[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        const day = loads.get(date);
+        days.push({ date, load: day?.load ?? 0, sessions: day?.sessions ?? 0 });
+    }
+    return days;
+}
+
+/**
+ * Rolling metrics for the day `asOf` from a daily series ending on that day.
+ * `firstSessionDate` is the athlete's first logged session in the series.
+ */
+export function calculateTrainingLoadMetrics(
+    dailyLoads: DailyTrainingLoad[],
+    asOf: string,
+    firstSessionDate: string | null
+): TrainingLoadMetrics {
+    const chronicWindow = dailyLoads.filter(d =>
+        d.date <= asOf && d.date > addDays(asOf, -CHRONIC_WINDOW_DAYS)
+    );
+    const acuteWindow = chronicWindow.filter(d => d.date > addDays(asOf, -ACUTE_WINDOW_DAYS));
+
+    const acuteLoad = sum(acuteWindow.map(d => d.load));
+    const chronicLoad = sum(chronicWindow.map(d => d.load)) / (CHRONIC_WINDOW_DAYS / ACUTE_WINDOW_DAYS);
+
+    const acuteDaily = acuteWindow.map(d => d.load);
+    while (acuteDaily.length < ACUTE_WINDOW_DAYS) acuteDaily.push(0);
+    const mean = sum(acuteDaily) / ACUTE_WINDOW_DAYS;
+    const sd = Math.sqrt(sum(acuteDaily.map(load => (load - mean) ** 2)) / ACUTE_WINDOW_DAYS);
+    const monotony = sd > 0 ? mean / sd : null;
+
+    const daysOfHistory = firstSessionDate ? daysBetween(firstSessionDate, asOf) + 1 : 0;
+    const acwr = chronicLoad > 0 ? acuteLoad / chronicLoad : null;
+
+    return {
+        asOf,
+        acuteLoad: round(acuteLoad),
+        chronicLoad: round(chronicLoad),
+        acwr: acwr !== null ? round(acwr) : null,
+        monotony: monotony !== null ? round(monotony) : null,
+        strain: monotony !== null ? round(acuteLoad * monotony) : null,
+        zone: daysOfHistory >= MIN_BASELINE_DAYS ? classifyAcwr(acwr) : "insufficient_data",
+        daysOfHistory,
+        sessionsLast7Days: sum(acuteWindow.map(d => d.sessions)),
+    };
+}
+
+export function classifyAcwr(acwr: number | null): AcwrZone {
+    if (acwr === null) return "insufficient_data";
+    if (acwr > ACWR_DANGER_THRESHOLD) return "danger";
+    if (acwr > ACWR_SAFE_BAND.max) return "caution";
+    if (acwr < ACWR_SAFE_BAND.min) return "undertraining";
+    return "optimal";
+}
+
+function sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,75 @@
+﻿// lib/services/athlete/units.ts
+import type { weightUnitEnum } from "@/db/schema/enums";
+
+export type WeightUnit = typeof weightUnitEnum.enumValues[number];
+
+/**
+ * Loads are stored in kilograms (athletePrs, load-scored benchmarks, competition scores,
+ * bodyweight logs) so every comparison is like with like. Values are converted from the
+ * entered unit on the way in and to the viewer's preferred unit on the way out.
+ */
+export const CANONICAL_WEIGHT_UNIT: WeightUnit = "kg";
+
+const KG_PER_LB = 0.45359237;
+
+const UNIT_ALIASES: Record<string, WeightUnit> = {
+    kg: "kg",
+    kgs: "kg",
+    lb: "lbs",
+    lbs: "lbs",
+    "#": "lbs",
+};
+
+/**
+ * "kg"/"lbs" for any spelling of a weight unit, null for anything else ("reps", "seconds"...)
+ */
+export function normalizeWeightUnit(unit: string | null | undefined): WeightUnit | null {
+    return UNIT_ALIASES[unit?.trim().toLowerCase() ?? ""] ?? null;
+}
+
+export function isLoadUnit(unit: string | null | undefined): boolean {
+    return normalizeWeightUnit(unit) !== null;
+}
+
+export function toKilograms(value: number, unit: string | null): number {
+    return normalizeWeightUnit(unit) === "lbs" ? value * KG_PER_LB : value;
+}
+
+/**
+ * Convert a load between kg and lbs. Other units are returned unchanged.
+ */
+export function convertLoad(value: number, fromUnit: string, toUnit: string): number {
+    if (!isLoadUnit(fromUnit) || !isLoadUnit(toUnit)) return value;
+
+    return toKilograms(value, fromUnit) / toKilograms(1, toUnit);
+}
+
+/**
+ * Value and unit as stored: loads become kilograms (3 decimals, so a round trip
+ * back to pounds doesn't drift), anything else is kept as entered
+ */
+export function toCanonicalLoad(value: number, unit: string): { value: number; unit: string } {
+    if (!isLoadUnit(unit)) return { value, unit };
+
+    return {
+        value: Math.round(toKilograms(value, unit) * 1000) / 1000,
+        unit: CANONICAL_WEIGHT_UNIT,
+    };
+}
+
+/**
+ * Stored value in the viewer's unit, rounded for display
+ */
+export function toDisplayLoad(
+    value: number | string,
+    unit: string,
+    displayUnit: WeightUnit
+): { value: number; unit: string } {
+    const numeric = Number(value);
+    if (!isLoadUnit(unit)) return { value: numeric, unit };
+
+    return {
+        value: Math.round(convertLoad(numeric, unit, displayUnit) * 100) / 100,
+        unit: displayUnit,
+    };
+}
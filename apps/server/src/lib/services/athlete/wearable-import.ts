@@ -0,0 +1,534 @@
+﻿// lib/services/athlete/wearable-import.ts
+import { formatLocalDate, getLocalHour, addDays } from "@/lib/dates";
+import type { wearableFileFormatEnum } from "@/db/schema/enums";
+import { isFitFile, parseFitFile, type FitMessage } from "./fit-parser";
+
+/**
+ * Turns device exports into one row of objective metrics per night.
+ *
+ * A night belongs to the box-local date the athlete woke up on: sleep that starts before
+ * noon counts for that day, anything from noon onwards for the next one. Files either carry
+ * nightly values directly (FIT daily summaries, sleep/HRV app CSVs) or raw samples (heart
+ * rate, RR intervals, sleep stages) that are summarised here:
+ *
+ * - sleep: time spent in light/deep/REM stages
+ * - resting HR: lowest 5-minute rolling average between 00:00 and 06:00 local time
+ * - HRV: RMSSD of the RR intervals recorded in the same window
+ *
+ * Values reported directly by the device always win over the derived ones.
+ */
+export type WearableFileFormat = typeof wearableFileFormatEnum.enumValues[number];
+
+export interface NightlyWearableMetrics {
+    date: string; // Box-local wake date, YYYY-MM-DD
+    sleepDurationMinutes: number | null;
+    restingHeartRate: number | null;
+    hrvMs: number | null;
+}
+
+export const MAX_WEARABLE_FILE_BYTES = 5 * 1024 * 1024;
+
+const NIGHT_WINDOW_END_HOUR = 6;
+const RESTING_HR_WINDOW_MS = 5 * 60 * 1000;
+const MIN_RESTING_HR_SAMPLES = 3;
+const MIN_RR_INTERVALS = 60;
+const MAX_SLEEP_STAGE_MS = 2 * 60 * 60 * 1000; // Longer gaps are missing data, not sleep
+
+const RESTING_HR_RANGE = { min: 20, max: 150 };
+const HRV_RANGE = { min: 1, max: 500 };
+const RR_INTERVAL_RANGE = { min: 300, max: 2000 };
+
+// FIT global message numbers and fields used by the import
+const FIT_RECORD = 20; // heart_rate = 3
+const FIT_MONITORING = 55; // timestamp_16 = 26, heart_rate = 27
+const FIT_HRV = 78; // time = 0 (RR intervals, 1/1000 s)
+const FIT_MONITORING_HR_DATA = 211; // resting_heart_rate = 0, current_day_resting_heart_rate = 1
+const FIT_SLEEP_LEVEL = 275; // sleep_level = 0
+const FIT_HRV_STATUS_SUMMARY = 370; // last_night_average = 1 (1/128 ms)
+const FIT_ASLEEP_LEVELS = new Set([2, 3, 4]); // light, deep, rem
+
+interface HeartRateSample { at: Date; bpm: number }
+interface RRInterval { at: Date; ms: number }
+interface SleepStage { at: Date; asleep: boolean }
+
+interface WearableReadings {
+    heartRate: HeartRateSample[];
+    rrIntervals: RRInterval[];
+    sleepStages: SleepStage[];
+    reported: NightlyWearableMetrics[]; // Nightly values read straight from the file
+}
+
+/**
+ * Format from the file extension, falling back to sniffing the content
+ */
+export function detectWearableFormat(fileName: string, content: Uint8Array): WearableFileFormat | null {
+    const extension = fileName.split(".").pop()?.toLowerCase();
+    if (extension === "fit" || extension === "gpx" || extension === "csv") return extension;
+
+    if (isFitFile(content)) return "fit";
+
+    const head = new TextDecoder().decode(content.subarray(0, 512)).trimStart();
+    if (head.startsWith("<?xml") || head.startsWith("<gpx")) return "gpx";
+    if (head.split(/\r?\n/)[0]?.match(/[,;\t]/)) return "csv";
+
+    return null;
+}
+
+/**
+ * Parse a FIT, GPX or CSV export into nightly metrics, oldest night first
+ */
+export function parseWearableFile(
+    content: Uint8Array,
+    format: WearableFileFormat,
+    timezone: string
+): NightlyWearableMetrics[] {
+    let readings: WearableReadings;
+
+    switch (format) {
+        case "fit":
+            readings = readFitFile(content, timezone);
+            break;
+        case "gpx":
+            readings = readGpxFile(new TextDecoder().decode(content));
+            break;
+        case "csv":
+            readings = readCsvFile(new TextDecoder().decode(content), timezone);
+            break;
+    }
+
+    return summarizeNights(readings, timezone);
+}
+
+function summarizeNights(readings: WearableReadings, timezone: string): NightlyWearableMetrics[] {
+    const nights = new Map<string, NightlyWearableMetrics>();
+    const getNight = (date: string) => {
+        let night = nights.get(date);
+        if (!night) {
+            night = { date, sleepDurationMinutes: null, restingHeartRate: null, hrvMs: null };
+            nights.set(date, night);
+        }
+        return night;
+    };
+
+    // Derived values first so anything the device reported overwrites them
+    for (const [date, minutes] of sumSleepStages(readings.sleepStages, timezone)) {
+        getNight(date).sleepDurationMinutes = minutes;
+    }
+
+    for (const [date, samples] of groupNightWindow(readings.heartRate, timezone)) {
+        const restingHeartRate = lowestRollingAverage(samples);
+        if (restingHeartRate !== null) getNight(date).restingHeartRate = restingHeartRate;
+    }
+
+    for (const [date, intervals] of groupNightWindow(readings.rrIntervals, timezone)) {
+        const hrvMs = calculateRmssd(intervals.map(interval => interval.ms));
+        if (hrvMs !== null) getNight(date).hrvMs = hrvMs;
+    }
+
+    for (const reported of readings.reported) {
+        const night = getNight(reported.date);
+        night.sleepDurationMinutes = reported.sleepDurationMinutes ?? night.sleepDurationMinutes;
+        night.restingHeartRate = reported.restingHeartRate ?? night.restingHeartRate;
+        night.hrvMs = reported.hrvMs ?? night.hrvMs;
+    }
+
+    return [...nights.values()]
+        .map(night => ({
+            date: night.date,
+            sleepDurationMinutes: night.sleepDurationMinutes !== null
+                ? Math.min(Math.round(night.sleepDurationMinutes), 1440)
+                : null,
+            restingHeartRate: inRange(night.restingHeartRate, RESTING_HR_RANGE) ? Math.round(night.restingHeartRate as number) : null,
+            hrvMs: inRange(night.hrvMs, HRV_RANGE) ? Math.round((night.hrvMs as number) * 100) / 100 : null,
+        }))
+        .filter(night => night.sleepDurationMinutes !== null || night.restingHeartRate !== null || night.hrvMs !== null)
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Wake date for a moment during the night: before noon is that day, after noon the next
+ */
+function getNightDate(at: Date, timezone: string): string {
+    const date = formatLocalDate(at, timezone);
+    return getLocalHour(at, timezone) >= 12 ? addDays(date, 1) : date;
+}
+
+function sumSleepStages(stages: SleepStage[], timezone: string): Map<string, number> {
+    const sorted = [...stages].sort((a, b) => a.at.getTime() - b.at.getTime());
+    const minutesByNight = new Map<string, number>();
+
+    for (let i = 0; i < sorted.length - 1; i++) {
+        if (!sorted[i].asleep) continue;
+
+        const durationMs = Math.min(sorted[i + 1].at.getTime() - sorted[i].at.getTime(), MAX_SLEEP_STAGE_MS);
+        const date = getNightDate(sorted[i].at, timezone);
+        minutesByNight.set(date, (minutesByNight.get(date) ?? 0) + durationMs / 60000);
+    }
+
+    return minutesByNight;
+}
+
+function groupNightWindow<T extends { at: Date }>(samples: T[], timezone: string): Map<string, T[]> {
+    const byNight = new Map<string, T[]>();
+
+    for (const sample of samples) {
+        if (getLocalHour(sample.at, timezone) >= NIGHT_WINDOW_END_HOUR) continue;
+
+        const date = formatLocalDate(sample.at, timezone);
+        const group = byNight.get(date) ?? [];
+        group.push(sample);
+        byNight.set(date, group);
+    }
+
+    return byNight;
+}
+
+function lowestRollingAverage(samples: HeartRateSample[]): number | null {
+    const sorted = [...samples].sort((a, b) => a.at.getTime() - b.at.getTime());
+    let lowest: number | null = null;
+    let windowStart = 0;
+    let windowSum = 0;
+
+    for (let i = 0; i < sorted.length; i++) {
+        windowSum += sorted[i].bpm;
+        while (sorted[i].at.getTime() - sorted[windowStart].at.getTime() >= RESTING_HR_WINDOW_MS) {
+            windowSum -= sorted[windowStart].bpm;
+            windowStart++;
+        }
+
+        const count = i - windowStart + 1;
+        if (count >= MIN_RESTING_HR_SAMPLES) {
+            const average = windowSum / count;
+            if (lowest === null || average < lowest) lowest = average;
+        }
+    }
+
+    return lowest;
+}
+
+/**
+ * RMSSD of RR intervals, dropping physiologically implausible beats and jumps over 20%
+ * between neighbours (missed or extra beats)
+ */
+function calculateRmssd(intervals: number[]): number | null {
+    const clean = intervals.filter(ms => ms >= RR_INTERVAL_RANGE.min && ms <= RR_INTERVAL_RANGE.max);
+    let sumSquares = 0;
+    let differences = 0;
+
+    for (let i = 1; i < clean.length; i++) {
+        const difference = clean[i] - clean[i - 1];
+        if (Math.abs(difference) > clean[i - 1] * 0.2) continue;
+        sumSquares += difference * difference;
+        differences++;
+    }
+
+    return differences >= MIN_RR_INTERVALS ? Math.sqrt(sumSquares / differences) : null;
+}
+
+function inRange(value: number | null, range: { min: number; max: number }): boolean {
+    return value !== null && Number.isFinite(value) && value >= range.min && value <= range.max;
+}
+
+function readFitFile(content: Uint8Array, timezone: string): WearableReadings {
+    const readings: WearableReadings = { heartRate: [], rrIntervals: [], sleepStages: [], reported: [] };
+    let lastTimestamp: Date | null = null;
+
+    for (const message of parseFitFile(content)) {
+        const at = resolveFitTimestamp(message, lastTimestamp);
+        if (message.timestamp) lastTimestamp = message.timestamp;
+
+        switch (message.globalMessageNumber) {
+            case FIT_RECORD:
+            case FIT_MONITORING: {
+                const bpm = message.fields.get(message.globalMessageNumber === FIT_RECORD ? 3 : 27);
+                if (at && typeof bpm === "number" && bpm > 0) readings.heartRate.push({ at, bpm });
+                break;
+            }
+            case FIT_HRV: {
+                // HRV messages carry no timestamp, they follow the record they belong to
+                const times = message.fields.get(0);
+                if (!lastTimestamp || times === null || times === undefined) break;
+
+                let offsetMs = 0;
+                for (const time of Array.isArray(times) ? times : [Number(times)]) {
+                    offsetMs += time;
+                    readings.rrIntervals.push({ at: new Date(lastTimestamp.getTime() + offsetMs), ms: time });
+                }
+                break;
+            }
+            case FIT_MONITORING_HR_DATA: {
+                const resting = message.fields.get(1) ?? message.fields.get(0);
+                if (at && typeof resting === "number") {
+                    readings.reported.push({
+                        date: formatLocalDate(at, timezone),
+                        sleepDurationMinutes: null,
+                        restingHeartRate: resting,
+                        hrvMs: null,
+                    });
+                }
+                break;
+            }
+            case FIT_SLEEP_LEVEL: {
+                const level = message.fields.get(0);
+                if (at && typeof level === "number") {
+                    readings.sleepStages.push({ at, asleep: FIT_ASLEEP_LEVELS.has(level) });
+                }
+                break;
+            }
+            case FIT_HRV_STATUS_SUMMARY: {
+                const lastNightAverage = message.fields.get(1);
+                if (at && typeof lastNightAverage === "number") {
+                    readings.reported.push({
+                        date: formatLocalDate(at, timezone),
+                        sleepDurationMinutes: null,
+                        restingHeartRate: null,
+                        hrvMs: lastNightAverage / 128,
+                    });
+                }
+                break;
+            }
+        }
+    }
+
+    return readings;
+}
+
+/**
+ * Monitoring messages often only carry timestamp_16, the low 16 bits of the timestamp
+ * relative to the last full one
+ */
+function resolveFitTimestamp(message: FitMessage, lastTimestamp: Date | null): Date | null {
+    if (message.timestamp) return message.timestamp;
+
+    const timestamp16 = message.fields.get(26);
+    if (message.globalMessageNumber !== FIT_MONITORING || typeof timestamp16 !== "number" || !lastTimestamp) {
+        return null;
+    }
+
+    const lastSeconds = Math.floor(lastTimestamp.getTime() / 1000);
+    const deltaSeconds = (timestamp16 - (lastSeconds & 0xFFFF)) & 0xFFFF;
+    return new Date((lastSeconds + deltaSeconds) * 1000);
+}
+
+function readGpxFile(content: string): WearableReadings {
+    if (!content.includes("<gpx")) {
+        throw new Error("Invalid GPX file: missing <gpx> element");
+    }
+
+    const readings: WearableReadings = { heartRate: [], rrIntervals: [], sleepStages: [], reported: [] };
+    const pointPattern = /<trkpt\b[^>]*>([\s\S]*?)<\/trkpt>/g;
+
+    for (const point of content.matchAll(pointPattern)) {
+        const time = point[1].match(/<time>([^<]+)<\/time>/)?.[1];
+        const heartRate = point[1].match(/<(?:\w+:)?hr>\s*(\d+(?:\.\d+)?)\s*<\/(?:\w+:)?hr>/)?.[1];
+        if (!time || !heartRate) continue;
+
+        const at = new Date(time.trim());
+        if (!Number.isNaN(at.getTime())) readings.heartRate.push({ at, bpm: Number(heartRate) });
+    }
+
+    return readings;
+}
+
+type CsvColumnKind = "date" | "wake" | "end" | "onset" | "start" | "sleep" | "restingHeartRate" | "hrv";
+
+// Preferred column for the night's date: a plain date, then wake-up, then going to sleep
+const CSV_DATE_COLUMNS: CsvColumnKind[] = ["date", "wake", "end", "onset", "start"];
+
+function readCsvFile(content: string, timezone: string): WearableReadings {
+    const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/).filter(line => line.trim() !== "");
+    if (lines.length < 2) {
+        throw new Error("CSV file has no data rows");
+    }
+
+    const delimiter = [",", ";", "\t"]
+        .map(candidate => ({ candidate, count: lines[0].split(candidate).length }))
+        .sort((a, b) => b.count - a.count)[0].candidate;
+
+    const headers = splitCsvLine(lines[0], delimiter).map(normalizeHeader);
+    const columns = new Map<CsvColumnKind, number>();
+    for (const [index, header] of headers.entries()) {
+        const kind = classifyCsvColumn(header);
+        if (kind && !columns.has(kind)) columns.set(kind, index);
+    }
+
+    const dateKind = CSV_DATE_COLUMNS.find(kind => columns.has(kind));
+    if (!dateKind) {
+        throw new Error("CSV file has no date column");
+    }
+    if (!columns.has("sleep") && !columns.has("restingHeartRate") && !columns.has("hrv")) {
+        throw new Error("CSV file has no sleep, resting heart rate or HRV column");
+    }
+
+    const dateColumn = columns.get(dateKind) as number;
+    const dateFromStart = dateKind === "onset" || dateKind === "start";
+    const sleepColumn = columns.get("sleep");
+    const readings: WearableReadings = { heartRate: [], rrIntervals: [], sleepStages: [], reported: [] };
+
+    for (const line of lines.slice(1)) {
+        const values = splitCsvLine(line, delimiter);
+        const date = parseCsvDate(values[dateColumn], timezone, dateFromStart);
+        if (!date) continue;
+
+        readings.reported.push({
+            date,
+            sleepDurationMinutes: sleepColumn !== undefined
+                ? parseDurationMinutes(values[sleepColumn], headers[sleepColumn])
+                : null,
+            restingHeartRate: parseCsvNumber(values[columns.get("restingHeartRate") ?? -1]),
+            hrvMs: parseCsvNumber(values[columns.get("hrv") ?? -1]),
+        });
+    }
+
+    return { ...readings, reported: mergeReportedNights(readings.reported) };
+}
+
+/**
+ * Apps that export one row per sleep session (naps, split nights) get one night per date:
+ * durations add up, the lowest resting HR and the mean HRV are kept
+ */
+function mergeReportedNights(rows: NightlyWearableMetrics[]): NightlyWearableMetrics[] {
+    const byDate = new Map<string, { night: NightlyWearableMetrics; hrvValues: number[] }>();
+
+    for (const row of rows) {
+        const entry = byDate.get(row.date) ?? {
+            night: { date: row.date, sleepDurationMinutes: null, restingHeartRate: null, hrvMs: null },
+            hrvValues: [],
+        };
+
+        if (row.sleepDurationMinutes !== null) {
+            entry.night.sleepDurationMinutes = (entry.night.sleepDurationMinutes ?? 0) + row.sleepDurationMinutes;
+        }
+        if (row.restingHeartRate !== null &&
+            (entry.night.restingHeartRate === null || row.restingHeartRate < entry.night.restingHeartRate)) {
+            entry.night.restingHeartRate = row.restingHeartRate;
+        }
+        if (row.hrvMs !== null) entry.hrvValues.push(row.hrvMs);
+
+        byDate.set(row.date, entry);
+    }
+
+    return [...byDate.values()].map(({ night, hrvValues }) => ({
+        ...night,
+        hrvMs: hrvValues.length > 0 ? hrvValues.reduce((sum, value) => sum + value, 0) / hrvValues.length : null,
+    }));
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+    const values: string[] = [];
+    let current = "";
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (quoted && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else {
+                quoted = !quoted;
+            }
+        } else if (char === delimiter && !quoted) {
+            values.push(current.trim());
+            current = "";
+        } else {
+            current += char;
+        }
+    }
+    values.push(current.trim());
+
+    return values;
+}
+
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function classifyCsvColumn(header: string): CsvColumnKind | null {
+    const words = new Set(header.split(" "));
+
+    if (/^(date|day|calendar date|summary date|sleep date|night|night of)$/.test(header)) return "date";
+    if (words.has("rhr") || (words.has("resting") && (words.has("hr") || words.has("heart") || words.has("pulse")))) {
+        return "restingHeartRate";
+    }
+    if (words.has("hrv") || words.has("rmssd") || header.includes("heart rate variability")) return "hrv";
+    if (words.has("wake") || words.has("woke")) return "wake";
+    if (words.has("end")) return "end";
+    if (words.has("onset") || words.has("bedtime")) return "onset";
+    if (words.has("start")) return "start";
+
+    const excluded = ["need", "debt", "efficiency", "performance", "latency", "score", "goal", "rem", "deep", "light", "awake", "consistency"];
+    if (excluded.some(word => words.has(word))) return null;
+    if (header === "asleep" ||
+        ((words.has("sleep") || words.has("asleep")) && ["duration", "time", "total", "hours", "minutes", "min"].some(word => words.has(word)))) {
+        return "sleep";
+    }
+
+    return null;
+}
+
+/**
+ * YYYY-MM-DD, YYYY/MM/DD or MM/DD/YYYY with an optional time. Values with an explicit
+ * offset are converted to box time, bare wall-clock values are taken as box-local
+ */
+function parseCsvDate(value: string | undefined, timezone: string, isSleepStart: boolean): string | null {
+    if (!value) return null;
+    const text = value.trim();
+
+    if (/[T\s]\d{1,2}:\d{2}.*(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+        const at = new Date(text);
+        if (Number.isNaN(at.getTime())) return null;
+        return isSleepStart ? getNightDate(at, timezone) : formatLocalDate(at, timezone);
+    }
+
+    const match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s]+(\d{1,2}):(\d{2}))?/) ??
+        text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[\s,]+(\d{1,2}):(\d{2}))?/);
+    if (!match) return null;
+
+    const [year, month, day] = match[1].length === 4
+        ? [match[1], match[2], match[3]]
+        : [match[3], match[1], match[2]];
+    let hour = match[4] !== undefined ? Number(match[4]) : 0;
+    if (/pm\b/i.test(text) && hour < 12) hour += 12;
+    if (/am\b/i.test(text) && hour === 12) hour = 0;
+
+    const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+    return isSleepStart && hour >= 12 ? addDays(date, 1) : date;
+}
+
+/**
+ * Sleep duration in minutes from "7:32", "7h 32m" or a number whose unit comes from the
+ * header, or failing that from its size (up to 24 is hours, over 1440 is seconds)
+ */
+function parseDurationMinutes(value: string | undefined, header: string): number | null {
+    if (!value) return null;
+    const text = value.trim().toLowerCase();
+
+    const clock = text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    if (clock) {
+        return Number(clock[1]) * 60 + Number(clock[2]) + Number(clock[3] ?? 0) / 60;
+    }
+
+    const hoursMinutes = text.match(/^(?:(\d+(?:\.\d+)?)\s*h[a-z]*)?\s*(?:(\d+)\s*m[a-z]*)?$/);
+    if (hoursMinutes && (hoursMinutes[1] || hoursMinutes[2])) {
+        return Number(hoursMinutes[1] ?? 0) * 60 + Number(hoursMinutes[2] ?? 0);
+    }
+
+    const numeric = parseCsvNumber(text);
+    if (numeric === null || numeric < 0) return null;
+
+    const words = header.split(" ");
+    if (words.includes("hours") || words.includes("hrs") || words.includes("h")) return numeric * 60;
+    if (words.includes("seconds") || words.includes("sec") || words.includes("s")) return numeric / 60;
+    if (words.includes("minutes") || words.includes("min") || words.includes("mins")) return numeric;
+
+    if (numeric > 1440) return numeric / 60;
+    if (numeric <= 24) return numeric * 60;
+    return numeric;
+}
+
+function parseCsvNumber(value: string | undefined): number | null {
+    if (!value || value.trim() === "") return null;
+    const numeric = Number(value.trim().replace(",", "."));
+    return Number.isFinite(numeric) ? numeric : null;
+}
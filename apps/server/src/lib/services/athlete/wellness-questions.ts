@@ -0,0 +1,191 @@
+﻿// lib/services/athlete/wellness-questions.ts
+import type { wellnessQuestionTypeEnum } from "@/db/schema/enums";
+
+/**
+ * Box-defined wellness questions on top of the standard check-in.
+ *
+ * The standard fields stay columns on athleteWellnessCheckins and are always asked, since
+ * risk scoring, readiness and the wellness analytics read them directly. A box's active
+ * questionnaire version adds typed questions after them, and answers are stored one row
+ * per question in the column matching the type (scale -> numericValue, boolean ->
+ * booleanValue, choice/text -> textValue). Question keys stay the same across versions
+ * so analytics can follow "caffeine" even after its prompt is reworded.
+ */
+export type WellnessQuestionType = typeof wellnessQuestionTypeEnum.enumValues[number];
+
+export type WellnessAnswerValue = number | boolean | string;
+
+export interface WellnessQuestionInput {
+    key: string;
+    prompt: string;
+    helpText?: string;
+    type: WellnessQuestionType;
+    isRequired?: boolean;
+    scaleMin?: number;
+    scaleMax?: number;
+    scaleMinLabel?: string;
+    scaleMaxLabel?: string;
+    options?: string[];
+}
+
+export interface WellnessQuestionDefinition {
+    id: string;
+    key: string;
+    prompt: string;
+    type: WellnessQuestionType;
+    isRequired: boolean;
+    scaleMin: number | null;
+    scaleMax: number | null;
+    options: string[] | null;
+}
+
+export interface StoredWellnessAnswer {
+    numericValue: string | null;
+    booleanValue: boolean | null;
+    textValue: string | null;
+}
+
+export const MAX_TEXT_ANSWER_LENGTH = 500;
+
+// The hard-coded check-in fields, in the order clients show them
+export const STANDARD_WELLNESS_FIELDS = [
+    { key: "energyLevel", prompt: "Energy level", type: "scale", scaleMin: 1, scaleMax: 10, isRequired: true },
+    { key: "sleepQuality", prompt: "Sleep quality", type: "scale", scaleMin: 1, scaleMax: 10, isRequired: true },
+    { key: "stressLevel", prompt: "Stress level", type: "scale", scaleMin: 1, scaleMax: 10, isRequired: true },
+    { key: "motivationLevel", prompt: "Motivation", type: "scale", scaleMin: 1, scaleMax: 10, isRequired: true },
+    { key: "workoutReadiness", prompt: "Ready to train", type: "scale", scaleMin: 1, scaleMax: 10, isRequired: true },
+    { key: "hydrationLevel", prompt: "Hydration", type: "scale", scaleMin: 1, scaleMax: 10, isRequired: false },
+    { key: "nutritionQuality", prompt: "Nutrition", type: "scale", scaleMin: 1, scaleMax: 10, isRequired: false },
+    { key: "outsideActivity", prompt: "Activity outside the gym", type: "choice", options: ["none", "light", "moderate", "heavy"], isRequired: false },
+    { key: "mood", prompt: "Mood", type: "text", isRequired: false },
+    { key: "notes", prompt: "Notes", type: "text", isRequired: false },
+] as const;
+
+const STANDARD_KEYS: ReadonlySet<string> = new Set(STANDARD_WELLNESS_FIELDS.map(field => field.key));
+
+// Ready-made questions boxes most often add
+export const WELLNESS_QUESTION_TEMPLATES: WellnessQuestionInput[] = [
+    {
+        key: "menstrual_cycle_phase",
+        prompt: "Menstrual cycle phase",
+        helpText: "Optional, only visible to you and your coaches",
+        type: "choice",
+        options: ["menstruation", "follicular", "ovulation", "luteal", "not_tracking"],
+    },
+    {
+        key: "caffeine_servings",
+        prompt: "Caffeinated drinks yesterday",
+        type: "scale",
+        scaleMin: 0,
+        scaleMax: 10,
+    },
+    {
+        key: "alcohol_drinks",
+        prompt: "Alcoholic drinks yesterday",
+        type: "scale",
+        scaleMin: 0,
+        scaleMax: 10,
+    },
+    {
+        key: "sick",
+        prompt: "Feeling ill?",
+        type: "boolean",
+    },
+];
+
+/**
+ * Problems with a questionnaire's question definitions, empty when it can be published.
+ * `publishedTypes` holds the type each key had in earlier versions: analytics follow a
+ * key across versions, so its type can't change.
+ */
+export function validateQuestionDefinitions(
+    questions: WellnessQuestionInput[],
+    publishedTypes: Map<string, WellnessQuestionType> = new Map()
+): string[] {
+    const errors: string[] = [];
+    const keys = new Set<string>();
+
+    for (const question of questions) {
+        if (!/^[a-z][a-z0-9_]{0,49}$/.test(question.key)) {
+            errors.push(`Question key "${question.key}" must be lowercase letters, numbers and underscores`);
+        }
+        if (STANDARD_KEYS.has(question.key)) {
+            errors.push(`"${question.key}" is a standard check-in field`);
+        }
+        if (keys.has(question.key)) {
+            errors.push(`Question key "${question.key}" is used more than once`);
+        }
+        keys.add(question.key);
+
+        const publishedType = publishedTypes.get(question.key);
+        if (publishedType && publishedType !== question.type) {
+            errors.push(`Question key "${question.key}" was published as a ${publishedType} question; use a new key for a ${question.type} question`);
+        }
+
+        if (question.type === "scale") {
+            if (question.scaleMin === undefined || question.scaleMax === undefined || question.scaleMin >= question.scaleMax) {
+                errors.push(`Scale question "${question.key}" needs a scaleMin below its scaleMax`);
+            }
+        }
+        if (question.type === "choice") {
+            const options = question.options ?? [];
+            if (options.length < 2 || new Set(options).size !== options.length) {
+                errors.push(`Choice question "${question.key}" needs at least two distinct options`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Check an answer against its question and map it to the column it's stored in
+ */
+export function toStoredAnswer(question: WellnessQuestionDefinition, value: WellnessAnswerValue): StoredWellnessAnswer {
+    const stored: StoredWellnessAnswer = { numericValue: null, booleanValue: null, textValue: null };
+
+    switch (question.type) {
+        case "scale":
+            if (typeof value !== "number" || !Number.isInteger(value) ||
+                value < (question.scaleMin ?? 0) || value > (question.scaleMax ?? 10)) {
+                throw new Error(`Answer to "${question.prompt}" must be a whole number from ${question.scaleMin} to ${question.scaleMax}`);
+            }
+            stored.numericValue = value.toString();
+            break;
+        case "boolean":
+            if (typeof value !== "boolean") {
+                throw new Error(`Answer to "${question.prompt}" must be yes or no`);
+            }
+            stored.booleanValue = value;
+            break;
+        case "choice":
+            if (typeof value !== "string" || !(question.options ?? []).includes(value)) {
+                throw new Error(`Answer to "${question.prompt}" must be one of its options`);
+            }
+            stored.textValue = value;
+            break;
+        case "text":
+            if (typeof value !== "string" || value.trim() === "" || value.length > MAX_TEXT_ANSWER_LENGTH) {
+                throw new Error(`Answer to "${question.prompt}" must be 1-${MAX_TEXT_ANSWER_LENGTH} characters`);
+            }
+            stored.textValue = value.trim();
+            break;
+    }
+
+    return stored;
+}
+
+/**
+ * Stored answer back to the value the athlete gave
+ */
+export function fromStoredAnswer(type: WellnessQuestionType, stored: StoredWellnessAnswer): WellnessAnswerValue | null {
+    switch (type) {
+        case "scale":
+            return stored.numericValue !== null ? Number(stored.numericValue) : null;
+        case "boolean":
+            return stored.booleanValue;
+        case "choice":
+        case "text":
+            return stored.textValue;
+    }
+}
@@ -0,0 +1,406 @@
+﻿// lib/services/athlete/workout-score.ts
+import type { scoreSortDirectionEnum, workoutScoringTypeEnum } from "@/db/schema/enums";
+
+export type WorkoutScoringType = typeof workoutScoringTypeEnum.enumValues[number];
+export type ScoredWorkoutType = Exclude<WorkoutScoringType, "none">;
+export type ScoreSortDirection = typeof scoreSortDirectionEnum.enumValues[number];
+
+/**
+ * A workout result reduced to a single sortable number plus the details needed to display it.
+ *
+ * Canonical values:
+ * - time: seconds. Capped results are the time cap plus one second per rep remaining,
+ *   so every finisher ranks ahead of every capped athlete.
+ * - rounds_reps: rounds * ROUNDS_REPS_MULTIPLIER + reps
+ * - load: load in the unit it was logged in (heaviest set)
+ * - reps / calories: count
+ * - distance: meters
+ */
+export interface ParsedWorkoutScore {
+    scoreType: ScoredWorkoutType;
+    value: number;
+    sortDirection: ScoreSortDirection;
+    isCapped: boolean;
+    rounds: number | null;
+    reps: number | null;
+    load: number | null;
+    unit: string | null;
+    tiebreakSeconds: number | null;
+    display: string;
+}
+
+export interface ParseScoreOptions {
+    scoringType?: WorkoutScoringType | null; // Expected type, e.g. from the programmed part or benchmark
+    timeCapSeconds?: number | null;
+}
+
+export const ROUNDS_REPS_MULTIPLIER = 1000;
+
+// Used as the cap when a capped result is logged without a known time cap
+const UNKNOWN_TIME_CAP_SECONDS = 24 * 60 * 60;
+
+const CLOCK_PATTERN = /^(?:(\d{1,2}):)?(\d{1,2}):(\d{2}(?:\.\d+)?)$/;
+const TIEBREAK_PATTERN = /\s*[([]?\s*(?:tb|tiebreak|tie-break|tie break)\s*:?\s*((?:\d{1,2}:)?\d{1,2}:\d{2})\s*[)\]]?\s*$/;
+const CAPPED_PATTERN = /^(?:dnf|cap|capped|tc)\s*(?:\+\s*(\d+))?\s*(?:reps?)?$/;
+const ROUNDS_REPS_PATTERN = /^(\d+)\s*(?:rounds?|rds?|r)?\s*\+\s*(\d+)\s*(?:reps?)?$/;
+const ROUNDS_ONLY_PATTERN = /^(\d+)\s*(?:rounds?|rds?)$/;
+const LOAD_PATTERN = /^(\d+(?:\.\d+)?)\s*(kg|kgs|lb|lbs|#)?\s*(?:x\s*(\d+))?$/;
+const CALORIES_PATTERN = /^(\d+)\s*(?:cal|cals|calories)$/;
+const DISTANCE_PATTERN = /^(\d+(?:\.\d+)?)\s*(m|meters?|km|mi|miles?)$/;
+const REPS_PATTERN = /^(\d+)\s*reps?$/;
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+
+const METERS_PER_UNIT: Record<string, number> = {
+    m: 1,
+    meter: 1,
+    meters: 1,
+    km: 1000,
+    mi: 1609.344,
+    mile: 1609.344,
+    miles: 1609.344,
+};
+
+/**
+ * Sort direction for a scoring type: lower is better only for time
+ */
+export function getScoreSortDirection(scoreType: ScoredWorkoutType): ScoreSortDirection {
+    return scoreType === "time" ? "asc" : "desc";
+}
+
+/**
+ * Map a benchmark WOD type ("time", "rounds", "max_weight") or a stored
+ * athleteBenchmarks.valueType to a scoring type
+ */
+export function benchmarkTypeToScoringType(benchmarkType: string): ScoredWorkoutType | null {
+    switch (benchmarkType) {
+        case "time":
+            return "time";
+        case "rounds":
+        case "rounds_reps":
+            return "rounds_reps";
+        case "max_weight":
+        case "weight":
+            return "load";
+        case "reps":
+        case "calories":
+        case "distance":
+            return benchmarkType;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Parse a free-text workout result such as "4:32", "12+7", "225x5", "DNF+15" or
+ * "8:45 (TB 6:10)". Returns null when the text can't be understood or doesn't match
+ * the expected scoring type, so callers can keep the raw text without a normalized score.
+ */
+export function parseWorkoutScore(raw: string, options: ParseScoreOptions = {}): ParsedWorkoutScore | null {
+    const expectedType = options.scoringType && options.scoringType !== "none" ? options.scoringType : null;
+
+    let text = raw.trim().toLowerCase().replace(/\s+/g, " ");
+    if (!text) return null;
+
+    let tiebreakSeconds: number | null = null;
+    const tiebreakMatch = text.match(TIEBREAK_PATTERN);
+    if (tiebreakMatch) {
+        tiebreakSeconds = parseClock(tiebreakMatch[1]);
+        text = text.slice(0, tiebreakMatch.index).trim();
+    }
+
+    const parsed = parseScoreText(text, expectedType, options.timeCapSeconds ?? null);
+    if (!parsed || (expectedType && parsed.scoreType !== expectedType)) {
+        return null;
+    }
+
+    return {
+        ...parsed,
+        tiebreakSeconds,
+        display: tiebreakSeconds !== null
+            ? `${parsed.display} (TB ${formatClock(tiebreakSeconds)})`
+            : parsed.display,
+    };
+}
+
+/**
+ * Build a normalized score from an already numeric value (legacy benchmark logging)
+ */
+export function normalizeNumericScore(
+    value: number,
+    scoreType: ScoredWorkoutType,
+    unit?: string | null
+): ParsedWorkoutScore {
+    const isRoundsReps = scoreType === "rounds_reps";
+
+    return {
+        scoreType,
+        value,
+        sortDirection: getScoreSortDirection(scoreType),
+        isCapped: false,
+        rounds: isRoundsReps ? Math.floor(value / ROUNDS_REPS_MULTIPLIER) : null,
+        reps: isRoundsReps ? value % ROUNDS_REPS_MULTIPLIER : null,
+        load: scoreType === "load" ? value : null,
+        unit: unit ?? null,
+        tiebreakSeconds: null,
+        display: formatScoreValue(scoreType, value, { unit }),
+    };
+}
+
+/**
+ * Column values for tables that store a normalized score next to the raw text
+ * (wodAttendance.score, wodFeedback.result). Unparsed scores clear the columns.
+ */
+export function toScoreColumns(score: ParsedWorkoutScore | null) {
+    return {
+        scoreType: score?.scoreType ?? null,
+        scoreValue: score ? score.value.toString() : null,
+        scoreSortDirection: score?.sortDirection ?? null,
+        scoreTiebreakSeconds: score?.tiebreakSeconds ?? null,
+        scoreIsCapped: score?.isCapped ?? false,
+        scoreUnit: score?.unit ?? null,
+    };
+}
+
+/**
+ * Rebuild a normalized score from the columns written by toScoreColumns.
+ * Capped times display as "CAP" since the cap itself isn't stored.
+ */
+export function fromScoreColumns(row: {
+    scoreType: WorkoutScoringType | null;
+    scoreValue: string | null;
+    scoreSortDirection: ScoreSortDirection | null;
+    scoreTiebreakSeconds: number | null;
+    scoreIsCapped: boolean;
+    scoreUnit: string | null;
+}): ParsedWorkoutScore | null {
+    if (!row.scoreType || row.scoreType === "none" || row.scoreValue === null) {
+        return null;
+    }
+
+    const scoreType = row.scoreType;
+    const value = Number(row.scoreValue);
+    const isRoundsReps = scoreType === "rounds_reps";
+    const display = formatScoreValue(scoreType, value, { isCapped: row.scoreIsCapped, unit: row.scoreUnit });
+
+    return {
+        scoreType,
+        value,
+        sortDirection: row.scoreSortDirection ?? getScoreSortDirection(scoreType),
+        isCapped: row.scoreIsCapped,
+        rounds: isRoundsReps ? Math.floor(value / ROUNDS_REPS_MULTIPLIER) : null,
+        reps: isRoundsReps ? value % ROUNDS_REPS_MULTIPLIER : null,
+        load: scoreType === "load" ? value : null,
+        unit: row.scoreUnit,
+        tiebreakSeconds: row.scoreTiebreakSeconds,
+        display: row.scoreTiebreakSeconds !== null
+            ? `${display} (TB ${formatClock(row.scoreTiebreakSeconds)})`
+            : display,
+    };
+}
+
+/**
+ * Order two scores of the same type: negative when `a` ranks ahead of `b`.
+ * Equal values fall back to the tiebreak time, where faster wins.
+ */
+export function compareWorkoutScores(
+    a: Pick<ParsedWorkoutScore, "value" | "sortDirection" | "tiebreakSeconds">,
+    b: Pick<ParsedWorkoutScore, "value" | "sortDirection" | "tiebreakSeconds">
+): number {
+    if (a.value !== b.value) {
+        return a.sortDirection === "asc" ? a.value - b.value : b.value - a.value;
+    }
+
+    if (a.tiebreakSeconds !== null && b.tiebreakSeconds !== null) {
+        return a.tiebreakSeconds - b.tiebreakSeconds;
+    }
+    if (a.tiebreakSeconds !== null) return -1;
+    if (b.tiebreakSeconds !== null) return 1;
+    return 0;
+}
+
+/**
+ * Format a stored canonical value for display
+ */
+export function formatScoreValue(
+    scoreType: ScoredWorkoutType,
+    value: number,
+    options: { isCapped?: boolean; unit?: string | null } = {}
+): string {
+    switch (scoreType) {
+        case "time":
+            return options.isCapped ? "CAP" : formatClock(value);
+        case "rounds_reps": {
+            const rounds = Math.floor(value / ROUNDS_REPS_MULTIPLIER);
+            const reps = value % ROUNDS_REPS_MULTIPLIER;
+            return reps > 0 ? `${rounds}+${reps}` : `${rounds} rounds`;
+        }
+        case "load":
+            return options.unit ? `${trimNumber(value)} ${options.unit}` : trimNumber(value);
+        case "reps":
+            return `${trimNumber(value)} reps`;
+        case "calories":
+            return `${trimNumber(value)} cal`;
+        case "distance":
+            return `${trimNumber(value)} m`;
+    }
+}
+
+/**
+ * Format seconds as m:ss or h:mm:ss
+ */
+export function formatClock(totalSeconds: number): string {
+    const rounded = Math.round(totalSeconds);
+    const hours = Math.floor(rounded / 3600);
+    const minutes = Math.floor((rounded % 3600) / 60);
+    const seconds = rounded % 60;
+    const ss = seconds.toString().padStart(2, "0");
+
+    return hours > 0
+        ? `${hours}:${minutes.toString().padStart(2, "0")}:${ss}`
+        : `${minutes}:${ss}`;
+}
+
+type ParsedScoreBody = Omit<ParsedWorkoutScore, "tiebreakSeconds">;
+
+function parseScoreText(
+    text: string,
+    expectedType: ScoredWorkoutType | null,
+    timeCapSeconds: number | null
+): ParsedScoreBody | null {
+    const cappedMatch = text.match(CAPPED_PATTERN);
+    if (cappedMatch) {
+        const repsRemaining = cappedMatch[1] ? Number.parseInt(cappedMatch[1], 10) : 0;
+        return {
+            ...emptyScore("time"),
+            value: (timeCapSeconds ?? UNKNOWN_TIME_CAP_SECONDS) + repsRemaining,
+            isCapped: true,
+            reps: repsRemaining,
+            display: repsRemaining > 0 ? `CAP+${repsRemaining}` : "CAP",
+        };
+    }
+
+    if (CLOCK_PATTERN.test(text)) {
+        const seconds = parseClock(text);
+        return { ...emptyScore("time"), value: seconds, display: formatClock(seconds) };
+    }
+
+    const roundsRepsMatch = text.match(ROUNDS_REPS_PATTERN) ?? text.match(ROUNDS_ONLY_PATTERN);
+    if (roundsRepsMatch) {
+        return roundsReps(Number.parseInt(roundsRepsMatch[1], 10), Number.parseInt(roundsRepsMatch[2] ?? "0", 10));
+    }
+
+    const caloriesMatch = text.match(CALORIES_PATTERN);
+    if (caloriesMatch) {
+        return counted("calories", Number.parseInt(caloriesMatch[1], 10));
+    }
+
+    const distanceMatch = text.match(DISTANCE_PATTERN);
+    if (distanceMatch) {
+        return distance(Number.parseFloat(distanceMatch[1]) * METERS_PER_UNIT[distanceMatch[2]]);
+    }
+
+    const repsMatch = text.match(REPS_PATTERN);
+    if (repsMatch) {
+        return counted("reps", Number.parseInt(repsMatch[1], 10));
+    }
+
+    // A bare number only makes sense when we know what was being scored
+    if (NUMBER_PATTERN.test(text)) {
+        const value = Number.parseFloat(text);
+        switch (expectedType) {
+            case "time":
+                return { ...emptyScore("time"), value, display: formatClock(value) };
+            case "rounds_reps":
+                return Number.isInteger(value) ? roundsReps(value, 0) : null;
+            case "load":
+                return load(value, null, null);
+            case "reps":
+            case "calories":
+                return Number.isInteger(value) ? counted(expectedType, value) : null;
+            case "distance":
+                return distance(value);
+            default:
+                return null;
+        }
+    }
+
+    const loadMatch = text.match(LOAD_PATTERN);
+    if (loadMatch) {
+        const unit = loadMatch[2] ? normalizeLoadUnit(loadMatch[2]) : null;
+        const reps = loadMatch[3] ? Number.parseInt(loadMatch[3], 10) : null;
+        return load(Number.parseFloat(loadMatch[1]), unit, reps);
+    }
+
+    return null;
+}
+
+function emptyScore(scoreType: ScoredWorkoutType): ParsedScoreBody {
+    return {
+        scoreType,
+        value: 0,
+        sortDirection: getScoreSortDirection(scoreType),
+        isCapped: false,
+        rounds: null,
+        reps: null,
+        load: null,
+        unit: null,
+        display: "",
+    };
+}
+
+function roundsReps(rounds: number, reps: number): ParsedScoreBody | null {
+    if (reps >= ROUNDS_REPS_MULTIPLIER) return null;
+
+    const value = rounds * ROUNDS_REPS_MULTIPLIER + reps;
+    return {
+        ...emptyScore("rounds_reps"),
+        value,
+        rounds,
+        reps,
+        display: formatScoreValue("rounds_reps", value),
+    };
+}
+
+function load(value: number, unit: string | null, reps: number | null): ParsedScoreBody {
+    const display = formatScoreValue("load", value, { unit });
+    return {
+        ...emptyScore("load"),
+        value,
+        load: value,
+        reps,
+        unit,
+        display: reps !== null ? `${display} x ${reps}` : display,
+    };
+}
+
+function counted(scoreType: "reps" | "calories", value: number): ParsedScoreBody {
+    return {
+        ...emptyScore(scoreType),
+        value,
+        reps: scoreType === "reps" ? value : null,
+        display: formatScoreValue(scoreType, value),
+    };
+}
+
+function distance(meters: number): ParsedScoreBody {
+    const value = Math.round(meters * 1000) / 1000;
+    return {
+        ...emptyScore("distance"),
+        value,
+        unit: "m",
+        display: formatScoreValue("distance", value),
+    };
+}
+
+function parseClock(clock: string): number {
+    const parts = clock.split(":").map(Number.parseFloat);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function normalizeLoadUnit(unit: string): string {
+    return unit.startsWith("kg") ? "kg" : "lbs";
+}
+
+function trimNumber(value: number): string {
+    return Number.isInteger(value) ? value.toString() : value.toFixed(2).replace(/\.?0+$/, "");
+}
@@ -0,0 +1,256 @@
+﻿// lib/services/box/box-alert-routing-service.ts
+import { db } from "@/db";
+import { alertRoutingDecisions, alertRoutingRules, athleteAlerts, boxMemberships } from "@/db/schema";
+import { alias } from "drizzle-orm/pg-core";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { recordRoutingDecision } from "@/lib/services/analytics/calculations/alert-routing-calculations";
+import { getCoachEscalationMetrics } from "@/lib/services/analytics/calculations/alert-escalations-calculations";
+import type { AlertRoutingRuleInput } from "@/lib/services/box/types";
+
+export class BoxAlertRoutingService {
+    /**
+     * A box's routing rules in the order they're evaluated
+     */
+    static async listRules(boxId: string) {
+        return db
+            .select()
+            .from(alertRoutingRules)
+            .where(eq(alertRoutingRules.boxId, boxId))
+            .orderBy(asc(alertRoutingRules.priority), asc(alertRoutingRules.createdAt));
+    }
+
+    /**
+     * Add a rule. Without a priority it runs after the existing rules.
+     */
+    static async createRule(boxId: string, createdByMembershipId: string, data: AlertRoutingRuleInput) {
+        this.validateRule(data);
+
+        let priority = data.priority;
+        if (priority === undefined) {
+            const rules = await this.listRules(boxId);
+            priority = rules.length > 0 ? Math.max(...rules.map(rule => rule.priority)) + 10 : 10;
+        }
+
+        const [rule] = await db
+            .insert(alertRoutingRules)
+            .values({
+                boxId,
+                createdByMembershipId,
+                name: data.name.trim(),
+                priority,
+                alertType: data.alertType ?? null,
+                minSeverity: data.minSeverity ?? null,
+                strategy: data.strategy,
+                targetRole: data.targetRole ?? null,
+                isActive: data.isActive ?? true,
+            })
+            .returning();
+
+        return rule;
+    }
+
+    /**
+     * Update a rule. Changing its strategy or target role restarts its round-robin rotation.
+     */
+    static async updateRule(boxId: string, ruleId: string, updates: Partial<AlertRoutingRuleInput>) {
+        const rule = await this.getRule(boxId, ruleId);
+
+        const merged = {
+            strategy: updates.strategy ?? rule.strategy,
+            targetRole: updates.targetRole !== undefined ? updates.targetRole : rule.targetRole,
+        };
+        this.validateRule(merged);
+
+        const rotationChanged = merged.strategy !== rule.strategy || merged.targetRole !== rule.targetRole;
+
+        const [updated] = await db
+            .update(alertRoutingRules)
+            .set({
+                ...updates,
+                name: updates.name?.trim(),
+                lastAssignedCoachId: rotationChanged ? null : undefined,
+                updatedAt: new Date(),
+            })
+            .where(eq(alertRoutingRules.id, ruleId))
+            .returning();
+
+        return updated;
+    }
+
+    /**
+     * Delete a rule. Past routing decisions keep their reason but lose the rule link.
+     */
+    static async deleteRule(boxId: string, ruleId: string) {
+        await this.getRule(boxId, ruleId);
+        await db.delete(alertRoutingRules).where(eq(alertRoutingRules.id, ruleId));
+
+        return { success: true };
+    }
+
+    /**
+     * Hand an open alert to a specific coach
+     */
+    static async reassignAlert(boxId: string, alertId: string, coachMembershipId: string, reassignedBy: string) {
+        const alert = await this.getOpenAlert(boxId, alertId);
+
+        const [coach] = await db
+            .select({ id: boxMemberships.id, displayName: boxMemberships.displayName })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.id, coachMembershipId),
+                eq(boxMemberships.boxId, boxId),
+                eq(boxMemberships.isActive, true),
+                inArray(boxMemberships.role, ["owner", "head_coach", "coach"])
+            ))
+            .limit(1);
+
+        if (!coach) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Coach not found" });
+        }
+        if (alert.assignedCoachId === coach.id) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: `Alert is already assigned to ${coach.displayName}` });
+        }
+
+        const [reassigner] = await db
+            .select({ displayName: boxMemberships.displayName })
+            .from(boxMemberships)
+            .where(eq(boxMemberships.id, reassignedBy))
+            .limit(1);
+
+        const [updated] = await db
+            .update(athleteAlerts)
+            .set({ assignedCoachId: coach.id, updatedAt: new Date() })
+            .where(eq(athleteAlerts.id, alertId))
+            .returning();
+
+        await recordRoutingDecision(boxId, alertId, {
+            coachId: coach.id,
+            ruleId: null,
+            strategy: null,
+            isFallback: false,
+            reason: `Reassigned by ${reassigner?.displayName ?? "a coach"}`,
+        }, "manual", alert.assignedCoachId);
+
+        return updated;
+    }
+
+    /**
+     * Acknowledge an open alert. This is what stops the assignee's response-time clock.
+     */
+    static async acknowledgeAlert(boxId: string, alertId: string, membershipId: string) {
+        const alert = await this.getOpenAlert(boxId, alertId);
+
+        if (alert.status === "acknowledged") {
+            return alert;
+        }
+
+        const now = new Date();
+        const [updated] = await db
+            .update(athleteAlerts)
+            .set({
+                status: "acknowledged",
+                acknowledgedAt: now,
+                acknowledgedById: membershipId,
+                updatedAt: now,
+            })
+            .where(eq(athleteAlerts.id, alertId))
+            .returning();
+
+        return updated;
+    }
+
+    /**
+     * Routing decisions for one alert, or the box's most recent ones
+     */
+    static async getRoutingHistory(boxId: string, options: { alertId?: string; limit?: number } = {}) {
+        const assignedCoach = alias(boxMemberships, "assigned_coach");
+        const previousCoach = alias(boxMemberships, "previous_coach");
+
+        return db
+            .select({
+                id: alertRoutingDecisions.id,
+                alertId: alertRoutingDecisions.alertId,
+                alertType: athleteAlerts.alertType,
+                severity: athleteAlerts.severity,
+                trigger: alertRoutingDecisions.trigger,
+                strategy: alertRoutingDecisions.strategy,
+                ruleId: alertRoutingDecisions.ruleId,
+                ruleName: alertRoutingRules.name,
+                assignedCoachId: alertRoutingDecisions.assignedCoachId,
+                assignedCoachName: assignedCoach.displayName,
+                previousCoachId: alertRoutingDecisions.previousCoachId,
+                previousCoachName: previousCoach.displayName,
+                isFallback: alertRoutingDecisions.isFallback,
+                reason: alertRoutingDecisions.reason,
+                decidedAt: alertRoutingDecisions.decidedAt,
+            })
+            .from(alertRoutingDecisions)
+            .innerJoin(athleteAlerts, eq(alertRoutingDecisions.alertId, athleteAlerts.id))
+            .leftJoin(alertRoutingRules, eq(alertRoutingDecisions.ruleId, alertRoutingRules.id))
+            .leftJoin(assignedCoach, eq(alertRoutingDecisions.assignedCoachId, assignedCoach.id))
+            .leftJoin(previousCoach, eq(alertRoutingDecisions.previousCoachId, previousCoach.id))
+            .where(and(
+                eq(alertRoutingDecisions.boxId, boxId),
+                options.alertId ? eq(alertRoutingDecisions.alertId, options.alertId) : undefined
+            ))
+            .orderBy(desc(alertRoutingDecisions.decidedAt))
+            .limit(options.limit ?? 100);
+    }
+
+    /**
+     * Routing volume and response times for a coach, alongside their escalation metrics
+     */
+    static async getCoachMetrics(boxId: string, coachMembershipId: string, lookbackDays = 30) {
+        return getCoachEscalationMetrics(coachMembershipId, boxId, lookbackDays);
+    }
+
+    private static async getRule(boxId: string, ruleId: string) {
+        const [rule] = await db
+            .select()
+            .from(alertRoutingRules)
+            .where(and(
+                eq(alertRoutingRules.id, ruleId),
+                eq(alertRoutingRules.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!rule) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Routing rule not found" });
+        }
+
+        return rule;
+    }
+
+    private static async getOpenAlert(boxId: string, alertId: string) {
+        const [alert] = await db
+            .select()
+            .from(athleteAlerts)
+            .where(and(
+                eq(athleteAlerts.id, alertId),
+                eq(athleteAlerts.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!alert) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Alert not found" });
+        }
+        if (alert.status !== "active" && alert.status !== "acknowledged") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Alert is closed" });
+        }
+
+        return alert;
+    }
+
+    private static validateRule(rule: Pick<AlertRoutingRuleInput, "strategy" | "targetRole">) {
+        if (rule.strategy === "role" && !rule.targetRole) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Role-based rules need a target role" });
+        }
+        if (rule.targetRole === "athlete") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Alerts can only be routed to coaches" });
+        }
+        if (rule.strategy === "assigned_coach" && rule.targetRole) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Assigned-coach rules can't target a role" });
+        }
+    }
+}
@@ -0,0 +1,752 @@
+﻿// lib/services/box/box-challenge-service.ts
+import { db, withTransaction, type DbTransaction } from "@/db";
+import {
+    athleteMilestones,
+    boxChallenges,
+    boxMemberships,
+    challengeHabitLogs,
+    challengeHabits,
+    challengeParticipants,
+    challengeTeams
+} from "@/db/schema";
+import { and, asc, count, desc, eq, gte, inArray, isNull, lte, ne } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { AthleteBadgeService } from "@/lib/services/athlete/athlete-badge-service";
+import { addDays, daysBetween, formatLocalDate, getBoxTimezone } from "@/lib/dates";
+import { getActiveEntry, resolveTeam, transitionStatus, type TeamEntryTables } from "@/lib/services/box/team-entries";
+import type {
+    ChallengeCategory,
+    ChallengeHabitInput,
+    ChallengeStanding,
+    ChallengeStatus,
+    CompetitionFormat
+} from "@/lib/services/box/types";
+
+type ChallengeRow = typeof boxChallenges.$inferSelect;
+
+const CHALLENGE_TEAMS: TeamEntryTables<typeof challengeParticipants> = {
+    teams: challengeTeams,
+    teamId: challengeTeams.id,
+    teamEventId: challengeTeams.challengeId,
+    teamName: challengeTeams.name,
+    entries: challengeParticipants,
+    entryEventId: challengeParticipants.challengeId,
+    entryTeamId: challengeParticipants.teamId,
+    entryMembershipId: challengeParticipants.membershipId,
+    entryWithdrawnAt: challengeParticipants.withdrawnAt,
+    notEnteredMessage: "You haven't joined this challenge",
+    createTeam: async (challengeId, name, captainMembershipId) => {
+        const [team] = await db
+            .insert(challengeTeams)
+            .values({ challengeId, name, captainMembershipId })
+            .returning({ id: challengeTeams.id });
+
+        return team.id;
+    },
+};
+
+// How many days back an athlete can still tick off a missed checklist
+export const CHALLENGE_LOG_BACKFILL_DAYS = 3;
+
+export class BoxChallengeService {
+    /**
+     * Create a challenge as a draft with its daily habit checklist
+     */
+    static async createChallenge(
+        boxId: string,
+        createdByMembershipId: string,
+        data: {
+            name: string;
+            description?: string;
+            category: ChallengeCategory;
+            format: CompetitionFormat;
+            teamSize?: number;
+            startDate: string;
+            endDate: string;
+            completionThresholdPercent?: number;
+            habits: ChallengeHabitInput[];
+        }
+    ) {
+        if (data.endDate < data.startDate) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Challenge must end on or after its start date" });
+        }
+        if (data.format === "team" && !data.teamSize) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Team challenges need a team size" });
+        }
+        this.validateHabits(data.habits);
+
+        const challenge = await withTransaction(async (tx) => {
+            const [inserted] = await tx
+                .insert(boxChallenges)
+                .values({
+                    boxId,
+                    createdByMembershipId,
+                    name: data.name.trim(),
+                    description: data.description,
+                    category: data.category,
+                    format: data.format,
+                    teamSize: data.format === "team" ? data.teamSize : null,
+                    startDate: data.startDate,
+                    endDate: data.endDate,
+                    completionThresholdPercent: data.completionThresholdPercent,
+                })
+                .returning();
+
+            await this.insertHabits(tx, inserted.id, data.habits);
+
+            return inserted;
+        });
+
+        return this.getChallenge(boxId, challenge.id);
+    }
+
+    /**
+     * Update a challenge. The checklist can only be replaced while it's still a draft,
+     * so points already earned keep meaning the same thing.
+     */
+    static async updateChallenge(
+        boxId: string,
+        challengeId: string,
+        updates: {
+            name?: string;
+            description?: string | null;
+            startDate?: string;
+            endDate?: string;
+            completionThresholdPercent?: number;
+            habits?: ChallengeHabitInput[];
+        }
+    ) {
+        const { habits, ...fields } = updates;
+        const challenge = await this.getChallengeRow(boxId, challengeId);
+
+        if (challenge.status === "completed" || challenge.status === "cancelled") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Challenge is closed" });
+        }
+        if (challenge.status === "active" && fields.startDate && fields.startDate !== challenge.startDate) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "An active challenge can't change its start date" });
+        }
+
+        const startDate = fields.startDate ?? challenge.startDate;
+        const endDate = fields.endDate ?? challenge.endDate;
+        if (endDate < startDate) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Challenge must end on or after its start date" });
+        }
+
+        if (habits) {
+            if (challenge.status !== "draft") {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: "Habits can't be changed once the challenge has started"
+                });
+            }
+
+            this.validateHabits(habits);
+        }
+
+        await withTransaction(async (tx) => {
+            // Lock the challenge so it can't be published while its checklist is being replaced
+            const [current] = await tx
+                .select({ status: boxChallenges.status })
+                .from(boxChallenges)
+                .where(eq(boxChallenges.id, challengeId))
+                .for("update");
+
+            if (habits) {
+                if (current.status !== "draft") {
+                    throw new TRPCError({
+                        code: "BAD_REQUEST",
+                        message: "Habits can't be changed once the challenge has started"
+                    });
+                }
+
+                await tx.delete(challengeHabits).where(eq(challengeHabits.challengeId, challengeId));
+                await this.insertHabits(tx, challengeId, habits);
+            }
+
+            await tx
+                .update(boxChallenges)
+                .set({
+                    ...fields,
+                    name: fields.name?.trim(),
+                    updatedAt: new Date(),
+                })
+                .where(eq(boxChallenges.id, challengeId));
+        });
+
+        return this.getChallenge(boxId, challengeId);
+    }
+
+    /**
+     * Publish a draft challenge so athletes can join and log habits
+     */
+    static async publishChallenge(boxId: string, challengeId: string) {
+        return this.transition(boxId, challengeId, ["draft"], "active");
+    }
+
+    /**
+     * Cancel a challenge that hasn't completed
+     */
+    static async cancelChallenge(boxId: string, challengeId: string) {
+        return this.transition(boxId, challengeId, ["draft", "active"], "cancelled");
+    }
+
+    /**
+     * Close the challenge: freeze the standings, mark who reached the completion threshold
+     * and record their badges and milestones
+     */
+    static async completeChallenge(boxId: string, challengeId: string) {
+        const challenge = await this.getChallengeRow(boxId, challengeId);
+
+        if (challenge.status !== "active") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Only an active challenge can be completed" });
+        }
+
+        const { standings, participants } = await this.getStandings(boxId, challengeId);
+        const finishers = participants.filter(
+            participant => participant.completionPercent >= challenge.completionThresholdPercent
+        );
+
+        // Achievements are recorded with the status change, so a failure leaves the challenge
+        // active and completing it again retries the whole thing
+        const now = new Date();
+        const completed = await withTransaction(async (tx) => {
+            // Guarded on the status so concurrent requests can't both record achievements
+            const [updated] = await tx
+                .update(boxChallenges)
+                .set({ status: "completed", completedAt: now, updatedAt: now })
+                .where(and(
+                    eq(boxChallenges.id, challengeId),
+                    eq(boxChallenges.status, "active")
+                ))
+                .returning();
+
+            if (!updated) {
+                return null;
+            }
+
+            for (const finisher of finishers) {
+                await tx
+                    .update(challengeParticipants)
+                    .set({ completedAt: now, updatedAt: now })
+                    .where(eq(challengeParticipants.id, finisher.participantId));
+            }
+
+            await this.recordAchievements(tx, boxId, updated, standings, finishers);
+
+            return updated;
+        });
+
+        if (!completed) {
+            // Another request completed it first and recorded the achievements
+            return {
+                challenge: await this.getChallengeRow(boxId, challengeId),
+                standings,
+                finisherCount: finishers.length
+            };
+        }
+
+        return { challenge: completed, standings, finisherCount: finishers.length };
+    }
+
+    /**
+     * Get a challenge with its habits, teams and participant count
+     */
+    static async getChallenge(boxId: string, challengeId: string) {
+        const challenge = await db.query.boxChallenges.findFirst({
+            where: and(
+                eq(boxChallenges.id, challengeId),
+                eq(boxChallenges.boxId, boxId)
+            ),
+            with: {
+                habits: {
+                    orderBy: asc(challengeHabits.position),
+                },
+                teams: {
+                    orderBy: asc(challengeTeams.name),
+                },
+            },
+        });
+
+        if (!challenge) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Challenge not found" });
+        }
+
+        const [{ participantCount }] = await db
+            .select({ participantCount: count() })
+            .from(challengeParticipants)
+            .where(and(
+                eq(challengeParticipants.challengeId, challengeId),
+                isNull(challengeParticipants.withdrawnAt)
+            ));
+
+        return {
+            ...challenge,
+            dailyPoints: challenge.habits.reduce((sum, habit) => sum + habit.points, 0),
+            participantCount,
+        };
+    }
+
+    /**
+     * List a box's challenges, newest first. Athletes don't see drafts.
+     */
+    static async listChallenges(boxId: string, includeDrafts = false) {
+        const conditions = [eq(boxChallenges.boxId, boxId)];
+        if (!includeDrafts) {
+            conditions.push(ne(boxChallenges.status, "draft"));
+        }
+
+        return db
+            .select()
+            .from(boxChallenges)
+            .where(and(...conditions))
+            .orderBy(desc(boxChallenges.startDate));
+    }
+
+    /**
+     * Join a challenge. Team challenges either join an existing team or create a new one
+     * (the athlete becomes captain).
+     */
+    static async join(
+        boxId: string,
+        challengeId: string,
+        membershipId: string,
+        options: {
+            teamId?: string;
+            teamName?: string;
+        } = {}
+    ) {
+        const challenge = await this.getChallengeRow(boxId, challengeId);
+
+        if (challenge.status !== "active") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Challenge is not open" });
+        }
+
+        const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+        if (today > challenge.endDate) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Challenge has ended" });
+        }
+
+        let teamId: string | null = null;
+        if (challenge.format === "team") {
+            teamId = await resolveTeam(CHALLENGE_TEAMS, challenge, membershipId, options);
+        }
+
+        const [participant] = await db
+            .insert(challengeParticipants)
+            .values({
+                challengeId,
+                membershipId,
+                teamId,
+            })
+            .onConflictDoUpdate({
+                target: [challengeParticipants.challengeId, challengeParticipants.membershipId],
+                set: {
+                    teamId,
+                    withdrawnAt: null,
+                    updatedAt: new Date(),
+                },
+            })
+            .returning();
+
+        return participant;
+    }
+
+    /**
+     * Leave a challenge. Logged habits are kept but no longer count.
+     */
+    static async withdraw(boxId: string, challengeId: string, membershipId: string) {
+        await this.getChallengeRow(boxId, challengeId);
+
+        const now = new Date();
+        const [participant] = await db
+            .update(challengeParticipants)
+            .set({ withdrawnAt: now, updatedAt: now })
+            .where(and(
+                eq(challengeParticipants.challengeId, challengeId),
+                eq(challengeParticipants.membershipId, membershipId),
+                isNull(challengeParticipants.withdrawnAt)
+            ))
+            .returning();
+
+        if (!participant) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "You haven't joined this challenge" });
+        }
+
+        return participant;
+    }
+
+    /**
+     * Save an athlete's checklist for a day, replacing whatever was ticked off before.
+     * Defaults to today in the box's timezone; missed days can be filled in for
+     * CHALLENGE_LOG_BACKFILL_DAYS.
+     */
+    static async logHabits(
+        boxId: string,
+        challengeId: string,
+        membershipId: string,
+        data: {
+            date?: string;
+            habitIds: string[];
+        }
+    ) {
+        const challenge = await this.getChallengeRow(boxId, challengeId);
+
+        if (challenge.status !== "active") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Challenge is not active" });
+        }
+
+        const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+        const logDate = data.date ?? today;
+
+        if (logDate < challenge.startDate || logDate > challenge.endDate) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Date is outside the challenge" });
+        }
+        if (logDate > today) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Habits can't be logged ahead of time" });
+        }
+        if (daysBetween(logDate, today) > CHALLENGE_LOG_BACKFILL_DAYS) {
+            throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: `Habits can only be logged up to ${CHALLENGE_LOG_BACKFILL_DAYS} days back`
+            });
+        }
+
+        const participant = await getActiveEntry(CHALLENGE_TEAMS, challengeId, membershipId);
+
+        const habits = await db
+            .select()
+            .from(challengeHabits)
+            .where(eq(challengeHabits.challengeId, challengeId));
+
+        const habitIds = [...new Set(data.habitIds)];
+        const checked = habits.filter(habit => habitIds.includes(habit.id));
+        if (checked.length !== habitIds.length) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Habit is not part of this challenge" });
+        }
+
+        await withTransaction(async (tx) => {
+            // Lock the participant so a double submit replaces the day's checklist one at a time
+            await tx
+                .select({ id: challengeParticipants.id })
+                .from(challengeParticipants)
+                .where(eq(challengeParticipants.id, participant.id))
+                .for("update");
+
+            await tx
+                .delete(challengeHabitLogs)
+                .where(and(
+                    eq(challengeHabitLogs.participantId, participant.id),
+                    eq(challengeHabitLogs.logDate, logDate)
+                ));
+
+            if (checked.length > 0) {
+                await tx.insert(challengeHabitLogs).values(
+                    checked.map(habit => ({
+                        challengeId,
+                        habitId: habit.id,
+                        participantId: participant.id,
+                        boxId,
+                        membershipId,
+                        logDate,
+                        points: habit.points,
+                    }))
+                );
+            }
+        });
+
+        return {
+            date: logDate,
+            habitIds: checked.map(habit => habit.id),
+            points: checked.reduce((sum, habit) => sum + habit.points, 0),
+            possiblePoints: habits.reduce((sum, habit) => sum + habit.points, 0),
+        };
+    }
+
+    /**
+     * An athlete's checklist history and points in a challenge
+     */
+    static async getProgress(boxId: string, challengeId: string, membershipId: string) {
+        const challenge = await this.getChallengeRow(boxId, challengeId);
+        const participant = await getActiveEntry(CHALLENGE_TEAMS, challengeId, membershipId);
+
+        const [habits, logs, timezone] = await Promise.all([
+            db
+                .select()
+                .from(challengeHabits)
+                .where(eq(challengeHabits.challengeId, challengeId))
+                .orderBy(asc(challengeHabits.position)),
+            db
+                .select()
+                .from(challengeHabitLogs)
+                .where(eq(challengeHabitLogs.participantId, participant.id))
+                .orderBy(asc(challengeHabitLogs.logDate)),
+            getBoxTimezone(boxId),
+        ]);
+
+        const days: Array<{ date: string; habitIds: string[]; points: number }> = [];
+        for (const log of logs) {
+            let day = days.find(d => d.date === log.logDate);
+            if (!day) {
+                day = { date: log.logDate, habitIds: [], points: 0 };
+                days.push(day);
+            }
+            day.habitIds.push(log.habitId);
+            day.points += log.points;
+        }
+
+        const dailyPoints = habits.reduce((sum, habit) => sum + habit.points, 0);
+        const possiblePoints = dailyPoints * this.getElapsedDays(challenge, timezone);
+        const totalPoints = days.reduce((sum, day) => sum + day.points, 0);
+
+        return {
+            participant,
+            habits,
+            days,
+            totalPoints,
+            possiblePoints,
+            completionPercent: this.toPercent(totalPoints, possiblePoints),
+            completionThresholdPercent: challenge.completionThresholdPercent,
+        };
+    }
+
+    /**
+     * Points standings. Team scores are the average points per member, so a bigger team
+     * doesn't win just by being bigger.
+     */
+    static async getStandings(boxId: string, challengeId: string) {
+        const challenge = await this.getChallengeRow(boxId, challengeId);
+
+        const [habits, participantRows, timezone] = await Promise.all([
+            db
+                .select({ points: challengeHabits.points })
+                .from(challengeHabits)
+                .where(eq(challengeHabits.challengeId, challengeId)),
+            db
+                .select({
+                    id: challengeParticipants.id,
+                    membershipId: challengeParticipants.membershipId,
+                    teamId: challengeParticipants.teamId,
+                    displayName: boxMemberships.displayName,
+                })
+                .from(challengeParticipants)
+                .innerJoin(boxMemberships, eq(challengeParticipants.membershipId, boxMemberships.id))
+                .where(and(
+                    eq(challengeParticipants.challengeId, challengeId),
+                    isNull(challengeParticipants.withdrawnAt)
+                )),
+            getBoxTimezone(boxId),
+        ]);
+
+        const logs = await db
+            .select({
+                participantId: challengeHabitLogs.participantId,
+                points: challengeHabitLogs.points,
+            })
+            .from(challengeHabitLogs)
+            .where(and(
+                eq(challengeHabitLogs.challengeId, challengeId),
+                gte(challengeHabitLogs.logDate, challenge.startDate),
+                lte(challengeHabitLogs.logDate, challenge.endDate)
+            ));
+
+        const pointsByParticipant = new Map<string, number>();
+        for (const log of logs) {
+            pointsByParticipant.set(log.participantId, (pointsByParticipant.get(log.participantId) ?? 0) + log.points);
+        }
+
+        const possiblePoints = habits.reduce((sum, habit) => sum + habit.points, 0)
+            * this.getElapsedDays(challenge, timezone);
+
+        const participants = participantRows.map(row => {
+            const totalPoints = pointsByParticipant.get(row.id) ?? 0;
+            return {
+                participantId: row.id,
+                membershipId: row.membershipId,
+                teamId: row.teamId,
+                name: row.displayName,
+                totalPoints,
+                completionPercent: this.toPercent(totalPoints, possiblePoints),
+            };
+        });
+
+        let standings: ChallengeStanding[];
+        if (challenge.format === "individual") {
+            standings = participants.map(participant => ({
+                entrantId: participant.participantId,
+                name: participant.name,
+                membershipIds: [participant.membershipId],
+                place: 0,
+                totalPoints: participant.totalPoints,
+                score: participant.totalPoints,
+                completionPercent: participant.completionPercent,
+            }));
+        } else {
+            const teams = await db
+                .select()
+                .from(challengeTeams)
+                .where(eq(challengeTeams.challengeId, challengeId));
+
+            standings = teams
+                .map(team => {
+                    const members = participants.filter(participant => participant.teamId === team.id);
+                    const totalPoints = members.reduce((sum, member) => sum + member.totalPoints, 0);
+                    const score = members.length > 0 ? Math.round(totalPoints / members.length * 10) / 10 : 0;
+
+                    return {
+                        entrantId: team.id,
+                        name: team.name,
+                        membershipIds: members.map(member => member.membershipId),
+                        place: 0,
+                        totalPoints,
+                        score,
+                        completionPercent: this.toPercent(score, possiblePoints),
+                    };
+                })
+                .filter(team => team.membershipIds.length > 0);
+        }
+
+        standings.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+        for (const [index, standing] of standings.entries()) {
+            const previous = standings[index - 1];
+            standing.place = previous && previous.score === standing.score ? previous.place : index + 1;
+        }
+
+        return {
+            challenge,
+            possiblePoints,
+            standings,
+            participants,
+        };
+    }
+
+    private static async getChallengeRow(boxId: string, challengeId: string) {
+        const [challenge] = await db
+            .select()
+            .from(boxChallenges)
+            .where(and(
+                eq(boxChallenges.id, challengeId),
+                eq(boxChallenges.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!challenge) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Challenge not found" });
+        }
+
+        return challenge;
+    }
+
+    private static async transition(
+        boxId: string,
+        challengeId: string,
+        from: ChallengeStatus[],
+        to: ChallengeStatus
+    ) {
+        const challenge = await this.getChallengeRow(boxId, challengeId);
+
+        return transitionStatus("Challenge", challenge, from, to, async () => {
+            const [updated] = await db
+                .update(boxChallenges)
+                .set({ status: to, updatedAt: new Date() })
+                .where(and(
+                    eq(boxChallenges.id, challengeId),
+                    inArray(boxChallenges.status, from)
+                ))
+                .returning();
+
+            return updated;
+        });
+    }
+
+    /**
+     * Finishers get a challenge badge and a milestone; the winning athlete (or every
+     * member of the winning team) also gets a winner badge. Badges are keyed on the
+     * challenge id so a renamed or same-named challenge still earns its own.
+     */
+    private static async recordAchievements(
+        tx: DbTransaction,
+        boxId: string,
+        challenge: ChallengeRow,
+        standings: ChallengeStanding[],
+        finishers: Array<{ membershipId: string; totalPoints: number; completionPercent: number }>
+    ) {
+        for (const finisher of finishers) {
+            await AthleteBadgeService.awardBadge(boxId, finisher.membershipId, {
+                badgeType: "challenge",
+                title: `${challenge.name} Finisher`,
+                description: `Completed ${finisher.completionPercent}% of the daily checklist`,
+                icon: "check-circle",
+                achievedValue: `challenge:${challenge.id}`,
+                tier: 1,
+                isAutoAwarded: true,
+                uniquePerAchievedValue: true,
+            }, tx);
+
+            await tx.insert(athleteMilestones).values({
+                boxId,
+                membershipId: finisher.membershipId,
+                milestoneType: "challenge",
+                title: `Completed ${challenge.name}`,
+                description: `${finisher.totalPoints} points from ${challenge.startDate} to ${challenge.endDate}`,
+                category: challenge.category,
+                value: `${finisher.completionPercent}%`,
+                achievedAt: challenge.completedAt ?? new Date(),
+            });
+        }
+
+        const winners = standings.filter(standing => standing.place === 1 && standing.totalPoints > 0);
+        for (const winner of winners) {
+            for (const membershipId of winner.membershipIds) {
+                await AthleteBadgeService.awardBadge(boxId, membershipId, {
+                    badgeType: "challenge",
+                    title: `${challenge.name} Winner`,
+                    description: `Top score with ${winner.score} points`,
+                    icon: "trophy",
+                    achievedValue: `challenge:${challenge.id}`,
+                    tier: 3,
+                    isAutoAwarded: true,
+                    uniquePerAchievedValue: true,
+                }, tx);
+            }
+        }
+    }
+
+    /**
+     * Days of the challenge that have started so far, up to when it was completed
+     */
+    private static getElapsedDays(challenge: ChallengeRow, timezone: string) {
+        const today = formatLocalDate(challenge.completedAt ?? new Date(), timezone);
+        const lastDay = today > challenge.endDate ? challenge.endDate : today;
+
+        return Math.max(0, daysBetween(challenge.startDate, addDays(lastDay, 1)));
+    }
+
+    private static toPercent(points: number, possiblePoints: number) {
+        if (possiblePoints <= 0) return 0;
+        return Math.min(100, Math.round(points / possiblePoints * 1000) / 10);
+    }
+
+    private static validateHabits(habits: ChallengeHabitInput[]) {
+        if (habits.length === 0) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "A challenge needs at least one habit" });
+        }
+
+        const names = habits.map(habit => habit.name.trim().toLowerCase());
+        if (new Set(names).size !== names.length) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Habit names must be unique" });
+        }
+    }
+
+    private static async insertHabits(tx: DbTransaction, challengeId: string, habits: ChallengeHabitInput[]) {
+        await tx.insert(challengeHabits).values(
+            habits.map((habit, index) => ({
+                challengeId,
+                position: index + 1,
+                name: habit.name.trim(),
+                description: habit.description,
+                points: habit.points,
+            }))
+        );
+    }
+}
@@ -0,0 +1,657 @@
+﻿// lib/services/box/box-coach-assignment-service.ts
+import { db, withTransaction, type DbTransaction } from "@/db";
+import { athleteRiskScores, boxMemberships, coachAthleteAssignments, coachLeavePeriods } from "@/db/schema";
+import { alias } from "drizzle-orm/pg-core";
+import { and, asc, count, desc, eq, gte, inArray, isNull, lte, or } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { isUniqueViolation } from "@/lib/errors";
+import { addDays, formatLocalDate, getBoxTimezone } from "@/lib/dates";
+import { coachAssignmentActiveOn } from "@/lib/coach-assignments";
+import { rerouteUnavailableAlerts } from "@/lib/services/analytics/calculations/alert-routing-calculations";
+import type {
+    BoxRole,
+    CaseloadRebalanceSuggestion,
+    CoachAssignmentRole,
+    CoachCaseload
+} from "@/lib/services/box/types";
+
+const COACH_ROLES: BoxRole[] = ["owner", "head_coach", "coach"];
+const AT_RISK_LEVELS = ["high", "critical"];
+
+// Stop suggesting moves once every coach is within this many at-risk athletes of each other
+const AT_RISK_SPREAD_TOLERANCE = 1;
+const MAX_REBALANCE_SUGGESTIONS = 20;
+
+export class BoxCoachAssignmentService {
+    /**
+     * Assign a coach to an athlete from effectiveFrom (today by default). A new primary
+     * assignment ends the athlete's current primary assignment the day before. Primary
+     * assignments count toward the coach's caseload limit unless overridden.
+     */
+    static async assignCoach(
+        boxId: string,
+        assignedByMembershipId: string,
+        data: {
+            coachMembershipId: string;
+            athleteMembershipId: string;
+            role: CoachAssignmentRole;
+            effectiveFrom?: string;
+            notes?: string;
+            overrideCaseloadLimit?: boolean;
+        }
+    ) {
+        if (data.coachMembershipId === data.athleteMembershipId) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "A coach can't be assigned to themselves" });
+        }
+
+        const [coach, athlete] = await Promise.all([
+            this.getActiveMember(boxId, data.coachMembershipId),
+            this.getActiveMember(boxId, data.athleteMembershipId),
+        ]);
+
+        if (!coach || !COACH_ROLES.includes(coach.role)) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Coach not found" });
+        }
+        if (!athlete || athlete.role !== "athlete") {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Athlete not found" });
+        }
+
+        const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+        const effectiveFrom = data.effectiveFrom ?? today;
+
+        // Close the replaced assignments and insert the new one together, with the athlete's open
+        // assignments locked so concurrent assignments can't both close the same primary coach
+        const assignment = await withTransaction(async (tx) => {
+            const openAssignments = await tx
+                .select()
+                .from(coachAthleteAssignments)
+                .where(and(
+                    eq(coachAthleteAssignments.boxId, boxId),
+                    eq(coachAthleteAssignments.athleteMembershipId, data.athleteMembershipId),
+                    isNull(coachAthleteAssignments.effectiveTo)
+                ))
+                .for("update");
+
+            const sameCoach = openAssignments.find(open => open.coachMembershipId === data.coachMembershipId);
+            if (sameCoach?.role === data.role) {
+                throw new TRPCError({
+                    code: "CONFLICT",
+                    message: `${coach.displayName} is already the ${data.role} coach for ${athlete.displayName}`
+                });
+            }
+
+            if (data.role === "primary" && coach.caseloadLimit && !data.overrideCaseloadLimit) {
+                const primaryCount = await this.countPrimaryAthletes(boxId, data.coachMembershipId, effectiveFrom);
+                if (primaryCount >= coach.caseloadLimit) {
+                    throw new TRPCError({
+                        code: "BAD_REQUEST",
+                        message: `${coach.displayName} is at their caseload limit of ${coach.caseloadLimit} athletes`
+                    });
+                }
+            }
+
+            // The new assignment replaces the coach's other role and, for primary, the current primary coach
+            const replaced = openAssignments.filter(open =>
+                open.id === sameCoach?.id || (data.role === "primary" && open.role === "primary")
+            );
+            for (const open of replaced) {
+                await this.closeAssignment(open, addDays(effectiveFrom, -1), assignedByMembershipId, tx);
+            }
+
+            const [inserted] = await tx
+                .insert(coachAthleteAssignments)
+                .values({
+                    boxId,
+                    coachMembershipId: data.coachMembershipId,
+                    athleteMembershipId: data.athleteMembershipId,
+                    role: data.role,
+                    effectiveFrom,
+                    notes: data.notes,
+                    assignedByMembershipId,
+                })
+                .returning();
+
+            return inserted;
+        }).catch((error) => {
+            // Lost a race with another primary assignment for an athlete who had none open
+            if (isUniqueViolation(error, "coach_athlete_assignments_open_primary_unique")) {
+                throw new TRPCError({
+                    code: "CONFLICT",
+                    message: `${athlete.displayName}'s primary coach just changed, please retry`
+                });
+            }
+            throw error;
+        });
+
+        return assignment;
+    }
+
+    /**
+     * End an assignment on effectiveTo (inclusive, today by default)
+     */
+    static async endAssignment(
+        boxId: string,
+        assignmentId: string,
+        endedByMembershipId: string,
+        effectiveTo?: string
+    ) {
+        const [assignment] = await db
+            .select()
+            .from(coachAthleteAssignments)
+            .where(and(
+                eq(coachAthleteAssignments.id, assignmentId),
+                eq(coachAthleteAssignments.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!assignment) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Assignment not found" });
+        }
+        if (assignment.effectiveTo) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Assignment has already ended" });
+        }
+
+        const endDate = effectiveTo ?? formatLocalDate(new Date(), await getBoxTimezone(boxId));
+        return this.closeAssignment(assignment, endDate, endedByMembershipId);
+    }
+
+    /**
+     * Set (or clear with null) how many primary athletes a coach can take on
+     */
+    static async setCaseloadLimit(boxId: string, coachMembershipId: string, caseloadLimit: number | null) {
+        const coach = await this.getActiveMember(boxId, coachMembershipId);
+        if (!coach || !COACH_ROLES.includes(coach.role)) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Coach not found" });
+        }
+
+        const [updated] = await db
+            .update(boxMemberships)
+            .set({ caseloadLimit, updatedAt: new Date() })
+            .where(eq(boxMemberships.id, coachMembershipId))
+            .returning({
+                id: boxMemberships.id,
+                displayName: boxMemberships.displayName,
+                caseloadLimit: boxMemberships.caseloadLimit,
+            });
+
+        return updated;
+    }
+
+    /**
+     * An athlete's current coaches, primary first
+     */
+    static async getAthleteCoaches(boxId: string, athleteMembershipId: string) {
+        const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+
+        return db
+            .select({
+                assignmentId: coachAthleteAssignments.id,
+                coachMembershipId: coachAthleteAssignments.coachMembershipId,
+                coachName: boxMemberships.displayName,
+                role: coachAthleteAssignments.role,
+                effectiveFrom: coachAthleteAssignments.effectiveFrom,
+                effectiveTo: coachAthleteAssignments.effectiveTo,
+            })
+            .from(coachAthleteAssignments)
+            .innerJoin(boxMemberships, eq(coachAthleteAssignments.coachMembershipId, boxMemberships.id))
+            .where(and(
+                eq(coachAthleteAssignments.boxId, boxId),
+                eq(coachAthleteAssignments.athleteMembershipId, athleteMembershipId),
+                coachAssignmentActiveOn(today)
+            ))
+            .orderBy(asc(coachAthleteAssignments.role), asc(boxMemberships.displayName));
+    }
+
+    /**
+     * A coach's current athletes with their latest risk level, highest risk first
+     */
+    static async getCoachCaseload(boxId: string, coachMembershipId: string) {
+        const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+
+        const athletes = await db
+            .select({
+                assignmentId: coachAthleteAssignments.id,
+                athleteMembershipId: coachAthleteAssignments.athleteMembershipId,
+                athleteName: boxMemberships.displayName,
+                role: coachAthleteAssignments.role,
+                effectiveFrom: coachAthleteAssignments.effectiveFrom,
+                effectiveTo: coachAthleteAssignments.effectiveTo,
+            })
+            .from(coachAthleteAssignments)
+            .innerJoin(boxMemberships, eq(coachAthleteAssignments.athleteMembershipId, boxMemberships.id))
+            .where(and(
+                eq(coachAthleteAssignments.boxId, boxId),
+                eq(coachAthleteAssignments.coachMembershipId, coachMembershipId),
+                eq(boxMemberships.isActive, true),
+                coachAssignmentActiveOn(today)
+            ));
+
+        const risks = await this.getLatestRiskScores(boxId, athletes.map(athlete => athlete.athleteMembershipId));
+
+        return athletes
+            .map(athlete => ({
+                ...athlete,
+                riskLevel: risks.get(athlete.athleteMembershipId)?.riskLevel ?? null,
+                riskScore: risks.get(athlete.athleteMembershipId)?.riskScore ?? null,
+            }))
+            .sort((a, b) => (b.riskScore ?? -1) - (a.riskScore ?? -1));
+    }
+
+    /**
+     * Assignment history for an athlete or a coach (or the whole box), newest first
+     */
+    static async getAssignmentHistory(
+        boxId: string,
+        filters: {
+            athleteMembershipId?: string;
+            coachMembershipId?: string;
+        } = {}
+    ) {
+        const coach = alias(boxMemberships, "coach");
+        const athlete = alias(boxMemberships, "athlete");
+
+        return db
+            .select({
+                id: coachAthleteAssignments.id,
+                coachMembershipId: coachAthleteAssignments.coachMembershipId,
+                coachName: coach.displayName,
+                athleteMembershipId: coachAthleteAssignments.athleteMembershipId,
+                athleteName: athlete.displayName,
+                role: coachAthleteAssignments.role,
+                effectiveFrom: coachAthleteAssignments.effectiveFrom,
+                effectiveTo: coachAthleteAssignments.effectiveTo,
+                notes: coachAthleteAssignments.notes,
+                createdAt: coachAthleteAssignments.createdAt,
+            })
+            .from(coachAthleteAssignments)
+            .innerJoin(coach, eq(coachAthleteAssignments.coachMembershipId, coach.id))
+            .innerJoin(athlete, eq(coachAthleteAssignments.athleteMembershipId, athlete.id))
+            .where(and(
+                eq(coachAthleteAssignments.boxId, boxId),
+                filters.athleteMembershipId
+                    ? eq(coachAthleteAssignments.athleteMembershipId, filters.athleteMembershipId)
+                    : undefined,
+                filters.coachMembershipId
+                    ? eq(coachAthleteAssignments.coachMembershipId, filters.coachMembershipId)
+                    : undefined
+            ))
+            .orderBy(desc(coachAthleteAssignments.effectiveFrom), desc(coachAthleteAssignments.createdAt))
+            .limit(500);
+    }
+
+    /**
+     * Caseload per coach, athletes without a primary coach, and suggested primary coach
+     * changes when at-risk athletes are unevenly spread
+     */
+    static async getCaseloadOverview(boxId: string) {
+        const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+
+        const [members, assignments] = await Promise.all([
+            db
+                .select({
+                    id: boxMemberships.id,
+                    displayName: boxMemberships.displayName,
+                    role: boxMemberships.role,
+                    caseloadLimit: boxMemberships.caseloadLimit,
+                })
+                .from(boxMemberships)
+                .where(and(
+                    eq(boxMemberships.boxId, boxId),
+                    eq(boxMemberships.isActive, true)
+                )),
+            this.getActiveAssignments(boxId, today),
+        ]);
+
+        const athletes = members.filter(member => member.role === "athlete");
+        const risks = await this.getLatestRiskScores(boxId, athletes.map(athlete => athlete.id));
+        const isAtRisk = (athleteId: string) => AT_RISK_LEVELS.includes(risks.get(athleteId)?.riskLevel ?? "");
+
+        const primaryCoachByAthlete = new Map(
+            assignments
+                .filter(assignment => assignment.role === "primary")
+                .map(assignment => [assignment.athleteMembershipId, assignment.coachMembershipId])
+        );
+
+        const coaches: CoachCaseload[] = members
+            .filter(member => COACH_ROLES.includes(member.role))
+            .map(member => {
+                const own = assignments.filter(assignment => assignment.coachMembershipId === member.id);
+                const primary = own.filter(assignment => assignment.role === "primary");
+                const scores = primary
+                    .map(assignment => risks.get(assignment.athleteMembershipId)?.riskScore)
+                    .filter((score): score is number => score !== undefined);
+
+                return {
+                    coachMembershipId: member.id,
+                    coachName: member.displayName,
+                    role: member.role,
+                    caseloadLimit: member.caseloadLimit,
+                    primaryAthletes: primary.length,
+                    secondaryAthletes: own.length - primary.length,
+                    atRiskAthletes: primary.filter(assignment => isAtRisk(assignment.athleteMembershipId)).length,
+                    avgRiskScore: scores.length > 0
+                        ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length * 100) / 100
+                        : null,
+                    utilization: member.caseloadLimit
+                        ? Math.round(primary.length / member.caseloadLimit * 100) / 100
+                        : null,
+                };
+            });
+
+        const unassignedAthletes = athletes
+            .filter(athlete => !primaryCoachByAthlete.has(athlete.id))
+            .map(athlete => ({
+                athleteMembershipId: athlete.id,
+                athleteName: athlete.displayName,
+                riskLevel: risks.get(athlete.id)?.riskLevel ?? null,
+                riskScore: risks.get(athlete.id)?.riskScore ?? null,
+            }));
+
+        const suggestions = this.suggestRebalancing(
+            coaches,
+            athletes
+                .filter(athlete => isAtRisk(athlete.id))
+                .map(athlete => ({
+                    athleteMembershipId: athlete.id,
+                    athleteName: athlete.displayName,
+                    riskLevel: risks.get(athlete.id)?.riskLevel ?? null,
+                    riskScore: risks.get(athlete.id)?.riskScore ?? null,
+                    coachMembershipId: primaryCoachByAthlete.get(athlete.id) ?? null,
+                }))
+        );
+
+        const coachingLoads = coaches
+            .filter(coach => coach.primaryAthletes > 0 || coach.role !== "owner")
+            .map(coach => coach.atRiskAthletes);
+
+        return {
+            coaches,
+            unassignedAthletes,
+            atRiskSpread: coachingLoads.length > 0 ? Math.max(...coachingLoads) - Math.min(...coachingLoads) : 0,
+            isUneven: suggestions.some(suggestion => suggestion.fromCoachMembershipId !== null),
+            suggestions,
+        };
+    }
+
+    /**
+     * Record a coach's leave (box-local dates, inclusive). Leave that covers today hands the
+     * coach's open alerts to someone else straight away rather than at the next escalation run.
+     */
+    static async addLeave(
+        boxId: string,
+        coachMembershipId: string,
+        createdByMembershipId: string,
+        data: { startDate: string; endDate: string; reason?: string }
+    ) {
+        const coach = await this.getActiveMember(boxId, coachMembershipId);
+        if (!coach || !COACH_ROLES.includes(coach.role)) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Coach not found" });
+        }
+        if (data.endDate < data.startDate) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Leave can't end before it starts" });
+        }
+
+        const [leave] = await db
+            .insert(coachLeavePeriods)
+            .values({
+                boxId,
+                coachMembershipId,
+                startDate: data.startDate,
+                endDate: data.endDate,
+                reason: data.reason,
+                createdByMembershipId,
+            })
+            .returning();
+
+        const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+        const alertsRerouted = leave.startDate <= today && leave.endDate >= today
+            ? await rerouteUnavailableAlerts(boxId)
+            : 0;
+
+        return { ...leave, alertsRerouted };
+    }
+
+    /**
+     * Current and upcoming leave, optionally for one coach
+     */
+    static async listLeave(boxId: string, coachMembershipId?: string) {
+        const today = formatLocalDate(new Date(), await getBoxTimezone(boxId));
+
+        return db
+            .select({
+                id: coachLeavePeriods.id,
+                coachMembershipId: coachLeavePeriods.coachMembershipId,
+                coachName: boxMemberships.displayName,
+                startDate: coachLeavePeriods.startDate,
+                endDate: coachLeavePeriods.endDate,
+                reason: coachLeavePeriods.reason,
+                createdAt: coachLeavePeriods.createdAt,
+            })
+            .from(coachLeavePeriods)
+            .innerJoin(boxMemberships, eq(coachLeavePeriods.coachMembershipId, boxMemberships.id))
+            .where(and(
+                eq(coachLeavePeriods.boxId, boxId),
+                gte(coachLeavePeriods.endDate, today),
+                coachMembershipId ? eq(coachLeavePeriods.coachMembershipId, coachMembershipId) : undefined
+            ))
+            .orderBy(asc(coachLeavePeriods.startDate));
+    }
+
+    /**
+     * Remove a leave period. Alerts already rerouted stay with their new coach.
+     */
+    static async deleteLeave(boxId: string, leaveId: string) {
+        const [deleted] = await db
+            .delete(coachLeavePeriods)
+            .where(and(
+                eq(coachLeavePeriods.id, leaveId),
+                eq(coachLeavePeriods.boxId, boxId)
+            ))
+            .returning({ id: coachLeavePeriods.id });
+
+        if (!deleted) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Leave period not found" });
+        }
+
+        return { success: true };
+    }
+
+    /**
+     * Assignments in effect on a box-local date
+     */
+    static async getActiveAssignments(boxId: string, onDate: string) {
+        return db
+            .select()
+            .from(coachAthleteAssignments)
+            .where(and(
+                eq(coachAthleteAssignments.boxId, boxId),
+                coachAssignmentActiveOn(onDate)
+            ));
+    }
+
+    /**
+     * Assignments in effect at any point between two box-local dates (inclusive)
+     */
+    static async getAssignmentsInPeriod(boxId: string, fromDate: string, toDate: string) {
+        return db
+            .select()
+            .from(coachAthleteAssignments)
+            .where(and(
+                eq(coachAthleteAssignments.boxId, boxId),
+                lte(coachAthleteAssignments.effectiveFrom, toDate),
+                or(
+                    isNull(coachAthleteAssignments.effectiveTo),
+                    gte(coachAthleteAssignments.effectiveTo, fromDate)
+                )
+            ));
+    }
+
+    /**
+     * Greedy moves of at-risk athletes from the coach carrying the most to the coach with
+     * the fewest (and room under their caseload limit), plus homes for at-risk athletes
+     * without a primary coach
+     */
+    private static suggestRebalancing(
+        coaches: CoachCaseload[],
+        atRiskAthletes: Array<{
+            athleteMembershipId: string;
+            athleteName: string;
+            riskLevel: string | null;
+            riskScore: number | null;
+            coachMembershipId: string | null;
+        }>
+    ): CaseloadRebalanceSuggestion[] {
+        // Owners only take part if they already carry a caseload
+        const loads = coaches
+            .filter(coach => coach.primaryAthletes > 0 || coach.role !== "owner")
+            .map(coach => ({
+                coachMembershipId: coach.coachMembershipId,
+                coachName: coach.coachName,
+                caseloadLimit: coach.caseloadLimit,
+                primary: coach.primaryAthletes,
+                atRisk: coach.atRiskAthletes,
+            }));
+        if (loads.length === 0) return [];
+
+        const hasCapacity = (load: typeof loads[number]) => !load.caseloadLimit || load.primary < load.caseloadLimit;
+        const lightest = (exclude?: string) => loads
+            .filter(load => load.coachMembershipId !== exclude && hasCapacity(load))
+            .sort((a, b) => a.atRisk - b.atRisk || a.primary - b.primary)[0];
+
+        const suggestions: CaseloadRebalanceSuggestion[] = [];
+        const byRisk = [...atRiskAthletes].sort((a, b) => (b.riskScore ?? 0) - (a.riskScore ?? 0));
+
+        for (const athlete of byRisk.filter(a => !a.coachMembershipId)) {
+            const target = lightest();
+            if (!target || suggestions.length >= MAX_REBALANCE_SUGGESTIONS) break;
+
+            target.primary++;
+            target.atRisk++;
+            suggestions.push({
+                athleteMembershipId: athlete.athleteMembershipId,
+                athleteName: athlete.athleteName,
+                riskLevel: athlete.riskLevel,
+                riskScore: athlete.riskScore,
+                fromCoachMembershipId: null,
+                toCoachMembershipId: target.coachMembershipId,
+                reason: `At-risk athlete without a primary coach; ${target.coachName} has the fewest at-risk athletes`,
+            });
+        }
+
+        const moved = new Set<string>();
+        while (suggestions.length < MAX_REBALANCE_SUGGESTIONS) {
+            const heaviest = [...loads].sort((a, b) => b.atRisk - a.atRisk)[0];
+            const target = lightest(heaviest.coachMembershipId);
+            if (!target || heaviest.atRisk - target.atRisk <= AT_RISK_SPREAD_TOLERANCE) break;
+
+            const athlete = byRisk.find(a =>
+                a.coachMembershipId === heaviest.coachMembershipId && !moved.has(a.athleteMembershipId)
+            );
+            if (!athlete) break;
+
+            moved.add(athlete.athleteMembershipId);
+            heaviest.primary--;
+            heaviest.atRisk--;
+            target.primary++;
+            target.atRisk++;
+            suggestions.push({
+                athleteMembershipId: athlete.athleteMembershipId,
+                athleteName: athlete.athleteName,
+                riskLevel: athlete.riskLevel,
+                riskScore: athlete.riskScore,
+                fromCoachMembershipId: heaviest.coachMembershipId,
+                toCoachMembershipId: target.coachMembershipId,
+                reason: `${heaviest.coachName} has ${heaviest.atRisk + 1} at-risk athletes, ${target.coachName} has ${target.atRisk - 1}`,
+            });
+        }
+
+        return suggestions;
+    }
+
+    /**
+     * Latest risk level and score per athlete
+     */
+    private static async getLatestRiskScores(boxId: string, athleteMembershipIds: string[]) {
+        if (athleteMembershipIds.length === 0) return new Map<string, { riskLevel: string; riskScore: number }>();
+
+        const rows = await db
+            .selectDistinctOn([athleteRiskScores.membershipId], {
+                membershipId: athleteRiskScores.membershipId,
+                riskLevel: athleteRiskScores.riskLevel,
+                overallRiskScore: athleteRiskScores.overallRiskScore,
+            })
+            .from(athleteRiskScores)
+            .where(and(
+                eq(athleteRiskScores.boxId, boxId),
+                inArray(athleteRiskScores.membershipId, athleteMembershipIds)
+            ))
+            .orderBy(athleteRiskScores.membershipId, desc(athleteRiskScores.calculatedAt));
+
+        return new Map<string, { riskLevel: string; riskScore: number }>(
+            rows.map(row => [row.membershipId, { riskLevel: row.riskLevel, riskScore: Number(row.overallRiskScore) }])
+        );
+    }
+
+    private static async countPrimaryAthletes(boxId: string, coachMembershipId: string, onDate: string) {
+        const [{ primaryCount }] = await db
+            .select({ primaryCount: count() })
+            .from(coachAthleteAssignments)
+            .innerJoin(boxMemberships, eq(coachAthleteAssignments.athleteMembershipId, boxMemberships.id))
+            .where(and(
+                eq(coachAthleteAssignments.boxId, boxId),
+                eq(coachAthleteAssignments.coachMembershipId, coachMembershipId),
+                eq(coachAthleteAssignments.role, "primary"),
+                eq(boxMemberships.isActive, true),
+                or(
+                    isNull(coachAthleteAssignments.effectiveTo),
+                    gte(coachAthleteAssignments.effectiveTo, onDate)
+                )
+            ));
+
+        return primaryCount;
+    }
+
+    /**
+     * End an assignment. One that ends before it started never took effect and is removed.
+     */
+    private static async closeAssignment(
+        assignment: typeof coachAthleteAssignments.$inferSelect,
+        effectiveTo: string,
+        endedByMembershipId: string,
+        tx?: DbTransaction // Close as part of the caller's transaction
+    ) {
+        const executor = tx ?? db;
+
+        if (effectiveTo < assignment.effectiveFrom) {
+            await executor.delete(coachAthleteAssignments).where(eq(coachAthleteAssignments.id, assignment.id));
+            return { ...assignment, effectiveTo };
+        }
+
+        const [ended] = await executor
+            .update(coachAthleteAssignments)
+            .set({ effectiveTo, endedByMembershipId, updatedAt: new Date() })
+            .where(eq(coachAthleteAssignments.id, assignment.id))
+            .returning();
+
+        return ended;
+    }
+
+    private static async getActiveMember(boxId: string, membershipId: string) {
+        const [member] = await db
+            .select({
+                id: boxMemberships.id,
+                displayName: boxMemberships.displayName,
+                role: boxMemberships.role,
+                caseloadLimit: boxMemberships.caseloadLimit,
+            })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.id, membershipId),
+                eq(boxMemberships.boxId, boxId),
+                eq(boxMemberships.isActive, true)
+            ))
+            .limit(1);
+
+        return member;
+    }
+}
@@ -0,0 +1,910 @@
+﻿// lib/services/box/box-competition-service.ts
+import { db, withTransaction } from "@/db";
+import {
+    athleteBenchmarks,
+    benchmarkWods,
+    boxFeedPosts,
+    boxMemberships,
+    competitionEvents,
+    competitionRegistrations,
+    competitionScores,
+    competitionTeams,
+    competitions
+} from "@/db/schema";
+import { and, asc, count, desc, eq, inArray, isNull, ne } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import {
+    benchmarkTypeToScoringType,
+    compareWorkoutScores,
+    getScoreSortDirection,
+    parseWorkoutScore
+} from "@/lib/services/athlete/workout-score";
+import { AthleteBadgeService } from "@/lib/services/athlete/athlete-badge-service";
+import { AthleteBenchmarkService } from "@/lib/services/athlete/athlete-benchmark-service";
+import { AthleteCoreService } from "@/lib/services/athlete/athlete-core-service";
+import { toCanonicalLoad } from "@/lib/services/athlete/units";
+import { getActiveEntry, resolveTeam, transitionStatus, type TeamEntryTables } from "@/lib/services/box/team-entries";
+import type {
+    CompetitionEventInput,
+    CompetitionFormat,
+    CompetitionStanding,
+    CompetitionStatus
+} from "@/lib/services/box/types";
+
+type CompetitionScoreRow = typeof competitionScores.$inferSelect;
+
+const COMPETITION_TEAMS: TeamEntryTables<typeof competitionRegistrations> = {
+    teams: competitionTeams,
+    teamId: competitionTeams.id,
+    teamEventId: competitionTeams.competitionId,
+    teamName: competitionTeams.name,
+    entries: competitionRegistrations,
+    entryEventId: competitionRegistrations.competitionId,
+    entryTeamId: competitionRegistrations.teamId,
+    entryMembershipId: competitionRegistrations.membershipId,
+    entryWithdrawnAt: competitionRegistrations.withdrawnAt,
+    notEnteredMessage: "You're not registered for this competition",
+    createTeam: async (competitionId, name, captainMembershipId) => {
+        const [team] = await db
+            .insert(competitionTeams)
+            .values({ competitionId, name, captainMembershipId })
+            .returning({ id: competitionTeams.id });
+
+        return team.id;
+    },
+};
+
+export class BoxCompetitionService {
+    /**
+     * Create a competition as a draft with its ordered events
+     */
+    static async createCompetition(
+        boxId: string,
+        createdByMembershipId: string,
+        data: {
+            name: string;
+            description?: string;
+            format: CompetitionFormat;
+            teamSize?: number;
+            registrationClosesAt?: Date;
+            startsAt: Date;
+            endsAt: Date;
+            events: CompetitionEventInput[];
+        }
+    ) {
+        if (data.endsAt <= data.startsAt) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Competition must end after it starts" });
+        }
+        if (data.format === "team" && !data.teamSize) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Team competitions need a team size" });
+        }
+
+        const benchmarks = await this.validateEvents(data.events);
+
+        const [competition] = await db
+            .insert(competitions)
+            .values({
+                boxId,
+                createdByMembershipId,
+                name: data.name.trim(),
+                description: data.description,
+                format: data.format,
+                teamSize: data.format === "team" ? data.teamSize : null,
+                registrationClosesAt: data.registrationClosesAt,
+                startsAt: data.startsAt,
+                endsAt: data.endsAt,
+            })
+            .returning();
+
+        await this.insertEvents(competition.id, data.events, benchmarks);
+
+        return this.getCompetition(boxId, competition.id);
+    }
+
+    /**
+     * Update a competition. Events can only be replaced before any score is submitted.
+     */
+    static async updateCompetition(
+        boxId: string,
+        competitionId: string,
+        updates: {
+            name?: string;
+            description?: string | null;
+            registrationClosesAt?: Date | null;
+            startsAt?: Date;
+            endsAt?: Date;
+            events?: CompetitionEventInput[];
+        }
+    ) {
+        const { events, ...fields } = updates;
+        const competition = await this.getCompetitionRow(boxId, competitionId);
+
+        if (competition.status === "completed" || competition.status === "cancelled") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Competition is closed" });
+        }
+
+        const startsAt = fields.startsAt ?? competition.startsAt;
+        const endsAt = fields.endsAt ?? competition.endsAt;
+        if (endsAt <= startsAt) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Competition must end after it starts" });
+        }
+
+        if (events) {
+            const [{ scoreCount }] = await db
+                .select({ scoreCount: count() })
+                .from(competitionScores)
+                .innerJoin(competitionEvents, eq(competitionScores.eventId, competitionEvents.id))
+                .where(eq(competitionEvents.competitionId, competitionId));
+
+            if (scoreCount > 0) {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: "Events can't be changed once scores have been submitted"
+                });
+            }
+
+            const benchmarks = await this.validateEvents(events);
+
+            await db.delete(competitionEvents).where(eq(competitionEvents.competitionId, competitionId));
+            await this.insertEvents(competitionId, events, benchmarks);
+        }
+
+        await db
+            .update(competitions)
+            .set({
+                ...fields,
+                name: fields.name?.trim(),
+                updatedAt: new Date(),
+            })
+            .where(eq(competitions.id, competitionId));
+
+        return this.getCompetition(boxId, competitionId);
+    }
+
+    /**
+     * Open registration for a draft competition
+     */
+    static async openRegistration(boxId: string, competitionId: string) {
+        return this.transition(boxId, competitionId, ["draft"], "registration_open");
+    }
+
+    /**
+     * Start the competition so athletes can submit scores
+     */
+    static async startCompetition(boxId: string, competitionId: string) {
+        return this.transition(boxId, competitionId, ["draft", "registration_open"], "in_progress");
+    }
+
+    /**
+     * Cancel a competition that hasn't completed
+     */
+    static async cancelCompetition(boxId: string, competitionId: string) {
+        return this.transition(boxId, competitionId, ["draft", "registration_open", "in_progress"], "cancelled");
+    }
+
+    /**
+     * Close the competition: freeze the standings, award badges and post the podium to the box feed
+     */
+    static async completeCompetition(boxId: string, competitionId: string) {
+        const competition = await this.getCompetitionRow(boxId, competitionId);
+
+        if (competition.status !== "in_progress") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Only a competition in progress can be completed" });
+        }
+
+        const [{ pendingCount }] = await db
+            .select({ pendingCount: count() })
+            .from(competitionScores)
+            .innerJoin(competitionEvents, eq(competitionScores.eventId, competitionEvents.id))
+            .where(and(
+                eq(competitionEvents.competitionId, competitionId),
+                eq(competitionScores.status, "pending")
+            ));
+
+        if (pendingCount > 0) {
+            throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: `${pendingCount} score(s) still need to be judged`
+            });
+        }
+
+        // Guarded on the status so concurrent requests can't both publish results
+        const now = new Date();
+        const [completed] = await db
+            .update(competitions)
+            .set({ status: "completed", completedAt: now, updatedAt: now })
+            .where(and(
+                eq(competitions.id, competitionId),
+                eq(competitions.status, "in_progress")
+            ))
+            .returning();
+
+        const { standings } = await this.getStandings(boxId, competitionId);
+        if (!completed) {
+            // Another request completed it first and published the results
+            return { competition: await this.getCompetitionRow(boxId, competitionId), standings };
+        }
+
+        try {
+            await this.awardCompetitionBadges(boxId, completed, standings);
+            await this.postResultsToFeed(boxId, completed, standings);
+        } catch (error) {
+            console.error(`[Competitions] Failed to publish results for competition ${competitionId}:`, error);
+        }
+
+        return { competition: completed, standings };
+    }
+
+    /**
+     * Get a competition with events, teams and registration count
+     */
+    static async getCompetition(boxId: string, competitionId: string) {
+        const competition = await db.query.competitions.findFirst({
+            where: and(
+                eq(competitions.id, competitionId),
+                eq(competitions.boxId, boxId)
+            ),
+            with: {
+                events: {
+                    orderBy: asc(competitionEvents.position),
+                    with: {
+                        benchmark: true,
+                    },
+                },
+                teams: {
+                    orderBy: asc(competitionTeams.name),
+                },
+            },
+        });
+
+        if (!competition) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Competition not found" });
+        }
+
+        const [{ registrationCount }] = await db
+            .select({ registrationCount: count() })
+            .from(competitionRegistrations)
+            .where(and(
+                eq(competitionRegistrations.competitionId, competitionId),
+                isNull(competitionRegistrations.withdrawnAt)
+            ));
+
+        return { ...competition, registrationCount };
+    }
+
+    /**
+     * List a box's competitions, newest first. Athletes don't see drafts.
+     */
+    static async listCompetitions(boxId: string, includeDrafts = false) {
+        const conditions = [eq(competitions.boxId, boxId)];
+        if (!includeDrafts) {
+            conditions.push(ne(competitions.status, "draft"));
+        }
+
+        return db
+            .select()
+            .from(competitions)
+            .where(and(...conditions))
+            .orderBy(desc(competitions.startsAt));
+    }
+
+    /**
+     * Register an athlete. Team competitions either join an existing team or create
+     * a new one (the athlete becomes captain).
+     */
+    static async register(
+        boxId: string,
+        competitionId: string,
+        membershipId: string,
+        options: {
+            scaled?: boolean;
+            teamId?: string;
+            teamName?: string;
+        } = {}
+    ) {
+        const competition = await this.getCompetitionRow(boxId, competitionId);
+
+        if (competition.status !== "registration_open" && competition.status !== "in_progress") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Registration is not open" });
+        }
+        if (competition.registrationClosesAt && competition.registrationClosesAt < new Date()) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Registration has closed" });
+        }
+
+        let teamId: string | null = null;
+        if (competition.format === "team") {
+            teamId = await resolveTeam(COMPETITION_TEAMS, competition, membershipId, options);
+        }
+
+        const [registration] = await db
+            .insert(competitionRegistrations)
+            .values({
+                competitionId,
+                membershipId,
+                teamId,
+                scaled: options.scaled ?? false,
+            })
+            .onConflictDoUpdate({
+                target: [competitionRegistrations.competitionId, competitionRegistrations.membershipId],
+                set: {
+                    teamId,
+                    scaled: options.scaled ?? false,
+                    withdrawnAt: null,
+                    updatedAt: new Date(),
+                },
+            })
+            .returning();
+
+        return registration;
+    }
+
+    /**
+     * Withdraw from a competition. Submitted scores are kept but no longer count.
+     */
+    static async withdraw(boxId: string, competitionId: string, membershipId: string) {
+        await this.getCompetitionRow(boxId, competitionId);
+
+        const now = new Date();
+        const [registration] = await db
+            .update(competitionRegistrations)
+            .set({ withdrawnAt: now, updatedAt: now })
+            .where(and(
+                eq(competitionRegistrations.competitionId, competitionId),
+                eq(competitionRegistrations.membershipId, membershipId),
+                isNull(competitionRegistrations.withdrawnAt)
+            ))
+            .returning();
+
+        if (!registration) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Registration not found" });
+        }
+
+        return registration;
+    }
+
+    /**
+     * Submit (or resubmit) a score for an event. Team scores can be submitted by any
+     * team member. Validated scores can't be overwritten.
+     */
+    static async submitScore(
+        boxId: string,
+        eventId: string,
+        membershipId: string,
+        score: string
+    ) {
+        const { event, competition, benchmark } = await this.getEventContext(boxId, eventId);
+
+        if (competition.status !== "in_progress") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Competition is not in progress" });
+        }
+
+        const now = new Date();
+        if ((event.opensAt && event.opensAt > now) || (event.closesAt && event.closesAt < now)) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Score submission for this event is closed" });
+        }
+
+        const registration = await getActiveEntry(COMPETITION_TEAMS, competition.id, membershipId);
+        if (competition.format === "team" && !registration.teamId) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Join a team before submitting scores" });
+        }
+
+        const parsed = parseWorkoutScore(score, {
+            scoringType: benchmarkTypeToScoringType(benchmark.type),
+            timeCapSeconds: event.timeCapSeconds,
+        });
+
+        if (!parsed) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Score doesn't match the event scoring type" });
+        }
+
+        // Loads are stored in kg; unitless loads are taken to be in the athlete's unit
+        const value = parsed.scoreType === "load"
+            ? toCanonicalLoad(parsed.value, parsed.unit ?? await AthleteCoreService.getMembershipWeightUnit(membershipId)).value
+            : parsed.value;
+
+        const entrant = competition.format === "team"
+            ? { registrationId: null, teamId: registration.teamId }
+            : { registrationId: registration.id, teamId: null };
+
+        const [existing] = await db
+            .select()
+            .from(competitionScores)
+            .where(and(
+                eq(competitionScores.eventId, eventId),
+                entrant.teamId
+                    ? eq(competitionScores.teamId, entrant.teamId)
+                    : eq(competitionScores.registrationId, registration.id)
+            ))
+            .limit(1);
+
+        if (existing?.status === "validated") {
+            throw new TRPCError({ code: "CONFLICT", message: "This score has already been validated" });
+        }
+
+        const values = {
+            rawScore: score.trim(),
+            value: value.toString(),
+            tiebreakSeconds: parsed.tiebreakSeconds,
+            isCapped: parsed.isCapped,
+            scaled: registration.scaled,
+            status: "pending" as const,
+            submittedByMembershipId: membershipId,
+            judgedByMembershipId: null,
+            judgedAt: null,
+            judgeNotes: null,
+            submittedAt: now,
+            updatedAt: now,
+        };
+
+        if (existing) {
+            const [updated] = await db
+                .update(competitionScores)
+                .set(values)
+                .where(eq(competitionScores.id, existing.id))
+                .returning();
+
+            return { ...updated, display: parsed.display };
+        }
+
+        const [inserted] = await db
+            .insert(competitionScores)
+            .values({ eventId, ...entrant, ...values })
+            .returning();
+
+        return { ...inserted, display: parsed.display };
+    }
+
+    /**
+     * Validate or reject a submitted score. Judges can't judge their own (or their team's) scores.
+     * Validated individual scores are also logged as benchmark results.
+     */
+    static async judgeScore(
+        boxId: string,
+        scoreId: string,
+        judgeMembershipId: string,
+        decision: {
+            status: "validated" | "rejected";
+            notes?: string;
+        }
+    ) {
+        const [score] = await db
+            .select()
+            .from(competitionScores)
+            .where(eq(competitionScores.id, scoreId))
+            .limit(1);
+
+        if (!score) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Score not found" });
+        }
+
+        const { event, competition } = await this.getEventContext(boxId, score.eventId);
+
+        if (competition.status !== "in_progress") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Competition is not in progress" });
+        }
+        if (score.status !== "pending") {
+            throw new TRPCError({ code: "CONFLICT", message: "Score has already been judged" });
+        }
+
+        const entrantMemberIds = await this.getEntrantMembershipIds(score);
+        if (score.submittedByMembershipId === judgeMembershipId || entrantMemberIds.includes(judgeMembershipId)) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "You can't judge your own score" });
+        }
+
+        // Validate the benchmark result before judging, so a bad score can't leave a half-judged row
+        let benchmark: Awaited<ReturnType<typeof AthleteBenchmarkService.prepareBenchmarkResult>> | null = null;
+        if (decision.status === "validated" && score.registrationId) {
+            try {
+                benchmark = await AthleteBenchmarkService.prepareBenchmarkResult(
+                    boxId,
+                    entrantMemberIds[0],
+                    event.benchmarkId,
+                    { score: score.rawScore, timeCapSeconds: event.timeCapSeconds ?? undefined },
+                    {
+                        scaled: score.scaled,
+                        notes: `${competition.name}: ${event.name}`,
+                        achievedAt: score.submittedAt,
+                    }
+                );
+            } catch (error) {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: error instanceof Error ? error.message : "Failed to record benchmark result"
+                });
+            }
+        }
+
+        const now = new Date();
+        const { judged, benchmarkResult } = await withTransaction(async (tx) => {
+            // Only the judge who moves the score out of pending logs its benchmark
+            const [updated] = await tx
+                .update(competitionScores)
+                .set({
+                    status: decision.status,
+                    judgedByMembershipId: judgeMembershipId,
+                    judgedAt: now,
+                    judgeNotes: decision.notes,
+                    updatedAt: now,
+                })
+                .where(and(
+                    eq(competitionScores.id, scoreId),
+                    eq(competitionScores.status, "pending")
+                ))
+                .returning();
+
+            if (!updated) {
+                throw new TRPCError({ code: "CONFLICT", message: "Score has already been judged" });
+            }
+
+            if (!benchmark) {
+                return { judged: updated, benchmarkResult: null };
+            }
+
+            const [inserted] = await tx
+                .insert(athleteBenchmarks)
+                .values(benchmark.values)
+                .returning();
+
+            const [linked] = await tx
+                .update(competitionScores)
+                .set({ athleteBenchmarkId: inserted.id })
+                .where(eq(competitionScores.id, scoreId))
+                .returning();
+
+            return { judged: linked, benchmarkResult: inserted };
+        });
+
+        if (benchmarkResult) {
+            await AthleteBenchmarkService.refreshBenchmarkLeaderboards(benchmarkResult);
+        }
+
+        return judged;
+    }
+
+    /**
+     * Scores waiting for a judge, oldest first
+     */
+    static async getPendingScores(boxId: string, competitionId: string) {
+        await this.getCompetitionRow(boxId, competitionId);
+
+        return db
+            .select({
+                score: competitionScores,
+                event: {
+                    id: competitionEvents.id,
+                    name: competitionEvents.name,
+                    position: competitionEvents.position,
+                },
+                submittedBy: {
+                    id: boxMemberships.id,
+                    displayName: boxMemberships.displayName,
+                },
+            })
+            .from(competitionScores)
+            .innerJoin(competitionEvents, eq(competitionScores.eventId, competitionEvents.id))
+            .innerJoin(boxMemberships, eq(competitionScores.submittedByMembershipId, boxMemberships.id))
+            .where(and(
+                eq(competitionEvents.competitionId, competitionId),
+                eq(competitionScores.status, "pending")
+            ))
+            .orderBy(asc(competitionScores.submittedAt));
+    }
+
+    /**
+     * Points-per-place standings from validated scores. Each event awards points equal to
+     * the place (ties share the place); entrants without a validated score get one more
+     * than the number of scored entrants. Lowest total wins, and Rx places ahead of scaled.
+     */
+    static async getStandings(boxId: string, competitionId: string) {
+        const competition = await this.getCompetitionRow(boxId, competitionId);
+
+        const events = await db
+            .select()
+            .from(competitionEvents)
+            .where(eq(competitionEvents.competitionId, competitionId))
+            .orderBy(asc(competitionEvents.position));
+
+        const entrants = await this.getEntrants(competition);
+        const entrantIds = new Set(entrants.map(entrant => entrant.entrantId));
+
+        const scores = events.length === 0 ? [] : await db
+            .select()
+            .from(competitionScores)
+            .where(and(
+                inArray(competitionScores.eventId, events.map(event => event.id)),
+                eq(competitionScores.status, "validated")
+            ));
+
+        const standings: CompetitionStanding[] = entrants.map(entrant => ({
+            ...entrant,
+            place: 0,
+            totalPoints: 0,
+            events: [],
+        }));
+
+        for (const event of events) {
+            const eventScores = scores
+                .filter(score => score.eventId === event.id)
+                .map(score => ({ score, entrantId: (score.teamId ?? score.registrationId) as string }))
+                .filter(({ entrantId }) => entrantIds.has(entrantId));
+
+            const compare = (a: CompetitionScoreRow, b: CompetitionScoreRow) => {
+                if (a.scaled !== b.scaled) return a.scaled ? 1 : -1;
+                return compareWorkoutScores(
+                    { value: Number(a.value), sortDirection: event.sortDirection, tiebreakSeconds: a.tiebreakSeconds },
+                    { value: Number(b.value), sortDirection: event.sortDirection, tiebreakSeconds: b.tiebreakSeconds }
+                );
+            };
+            eventScores.sort((a, b) => compare(a.score, b.score));
+
+            const places = new Map<string, number>();
+            for (const [index, { score, entrantId }] of eventScores.entries()) {
+                const previous = eventScores[index - 1];
+                const place = previous && compare(previous.score, score) === 0
+                    ? places.get(previous.entrantId) ?? index + 1
+                    : index + 1;
+                places.set(entrantId, place);
+            }
+
+            const missingPoints = eventScores.length + 1;
+            for (const standing of standings) {
+                const place = places.get(standing.entrantId) ?? null;
+                const score = eventScores.find(entry => entry.entrantId === standing.entrantId)?.score;
+                const points = place ?? missingPoints;
+
+                standing.totalPoints += points;
+                standing.events.push({
+                    eventId: event.id,
+                    place,
+                    points,
+                    score: score?.rawScore ?? null,
+                });
+            }
+        }
+
+        const rankOrder = (a: CompetitionStanding, b: CompetitionStanding) => {
+            if (a.scaled !== b.scaled) return a.scaled ? 1 : -1;
+            return a.totalPoints - b.totalPoints;
+        };
+        standings.sort((a, b) => rankOrder(a, b) || a.name.localeCompare(b.name));
+
+        for (const [index, standing] of standings.entries()) {
+            const previous = standings[index - 1];
+            standing.place = previous && rankOrder(previous, standing) === 0 ? previous.place : index + 1;
+        }
+
+        return {
+            competition,
+            events,
+            standings,
+        };
+    }
+
+    private static async getCompetitionRow(boxId: string, competitionId: string) {
+        const [competition] = await db
+            .select()
+            .from(competitions)
+            .where(and(
+                eq(competitions.id, competitionId),
+                eq(competitions.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!competition) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Competition not found" });
+        }
+
+        return competition;
+    }
+
+    private static async getEventContext(boxId: string, eventId: string) {
+        const [row] = await db
+            .select({
+                event: competitionEvents,
+                competition: competitions,
+                benchmark: benchmarkWods,
+            })
+            .from(competitionEvents)
+            .innerJoin(competitions, eq(competitionEvents.competitionId, competitions.id))
+            .innerJoin(benchmarkWods, eq(competitionEvents.benchmarkId, benchmarkWods.id))
+            .where(and(
+                eq(competitionEvents.id, eventId),
+                eq(competitions.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!row) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Competition event not found" });
+        }
+
+        return row;
+    }
+
+    private static async transition(
+        boxId: string,
+        competitionId: string,
+        from: CompetitionStatus[],
+        to: CompetitionStatus
+    ) {
+        const competition = await this.getCompetitionRow(boxId, competitionId);
+
+        return transitionStatus("Competition", competition, from, to, async () => {
+            const [updated] = await db
+                .update(competitions)
+                .set({ status: to, updatedAt: new Date() })
+                .where(and(
+                    eq(competitions.id, competitionId),
+                    inArray(competitions.status, from)
+                ))
+                .returning();
+
+            return updated;
+        });
+    }
+
+    /**
+     * Active entrants: registrations for individual competitions, teams with at least one active member
+     */
+    private static async getEntrants(competition: typeof competitions.$inferSelect) {
+        const registrations = await db
+            .select({
+                id: competitionRegistrations.id,
+                membershipId: competitionRegistrations.membershipId,
+                teamId: competitionRegistrations.teamId,
+                scaled: competitionRegistrations.scaled,
+                displayName: boxMemberships.displayName,
+            })
+            .from(competitionRegistrations)
+            .innerJoin(boxMemberships, eq(competitionRegistrations.membershipId, boxMemberships.id))
+            .where(and(
+                eq(competitionRegistrations.competitionId, competition.id),
+                isNull(competitionRegistrations.withdrawnAt)
+            ));
+
+        if (competition.format === "individual") {
+            return registrations.map(registration => ({
+                entrantId: registration.id,
+                name: registration.displayName,
+                membershipIds: [registration.membershipId],
+                scaled: registration.scaled,
+            }));
+        }
+
+        const teams = await db
+            .select()
+            .from(competitionTeams)
+            .where(eq(competitionTeams.competitionId, competition.id));
+
+        return teams
+            .map(team => {
+                const members = registrations.filter(registration => registration.teamId === team.id);
+                return {
+                    entrantId: team.id,
+                    name: team.name,
+                    membershipIds: members.map(member => member.membershipId),
+                    // A team with any scaled member competes scaled
+                    scaled: members.some(member => member.scaled),
+                };
+            })
+            .filter(team => team.membershipIds.length > 0);
+    }
+
+    private static async getEntrantMembershipIds(score: CompetitionScoreRow) {
+        const registrations = await db
+            .select({ membershipId: competitionRegistrations.membershipId })
+            .from(competitionRegistrations)
+            .where(score.teamId
+                ? eq(competitionRegistrations.teamId, score.teamId)
+                : eq(competitionRegistrations.id, score.registrationId as string));
+
+        return registrations.map(registration => registration.membershipId);
+    }
+
+    private static async awardCompetitionBadges(
+        boxId: string,
+        competition: typeof competitions.$inferSelect,
+        standings: CompetitionStanding[]
+    ) {
+        for (const standing of standings) {
+            const completedEvents = standing.events.filter(event => event.place !== null).length;
+            if (completedEvents === 0) continue;
+
+            // Tier 3: champion, tier 2: podium, tier 1: finished every event
+            const tier = standing.place === 1 && !standing.scaled ? 3
+                : standing.place <= 3 ? 2
+                    : completedEvents === standing.events.length ? 1
+                        : null;
+            if (!tier) continue;
+
+            const title = tier === 3 ? `${competition.name} Champion`
+                : tier === 2 ? `${competition.name} Podium`
+                    : `${competition.name} Finisher`;
+
+            for (const membershipId of standing.membershipIds) {
+                await AthleteBadgeService.awardBadge(boxId, membershipId, {
+                    badgeType: "competition",
+                    title,
+                    description: `Placed #${standing.place}${standing.scaled ? " (Scaled)" : ""} with ${standing.totalPoints} points`,
+                    icon: tier === 1 ? "flag" : "trophy",
+                    // Keyed on the competition so each one earns its own badge, even if renamed
+                    achievedValue: `competition:${competition.id}`,
+                    tier,
+                    isAutoAwarded: true,
+                    uniquePerAchievedValue: true,
+                });
+            }
+        }
+    }
+
+    private static async postResultsToFeed(
+        boxId: string,
+        competition: typeof competitions.$inferSelect,
+        standings: CompetitionStanding[]
+    ) {
+        const podium = standings.filter(standing => !standing.scaled && standing.place <= 3);
+        if (podium.length === 0) return;
+
+        const medals = ["🥇", "🥈", "🥉"];
+        const caption = podium
+            .map(standing => `${medals[standing.place - 1]} ${standing.name} (${standing.totalPoints} pts)`)
+            .join("\n");
+
+        await db.insert(boxFeedPosts).values({
+            boxId,
+            membershipId: competition.format === "individual" ? podium[0].membershipIds[0] : null,
+            shareType: "competition_result",
+            title: `🏆 ${competition.name} results`,
+            caption: `${caption}\n${standings.length} ${competition.format === "team" ? "teams" : "athletes"} competed. #CrossFit #Intramural`,
+            competitionId: competition.id,
+        });
+    }
+
+    /**
+     * Events must use existing Open benchmarks
+     */
+    private static async validateEvents(events: CompetitionEventInput[]) {
+        if (events.length === 0) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "A competition needs at least one event" });
+        }
+
+        const benchmarkIds = [...new Set(events.map(event => event.benchmarkId))];
+        const benchmarks = await db
+            .select()
+            .from(benchmarkWods)
+            .where(inArray(benchmarkWods.id, benchmarkIds));
+
+        if (benchmarks.length !== benchmarkIds.length) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Unknown benchmark in competition events" });
+        }
+        if (benchmarks.some(benchmark => benchmark.category !== "open")) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Competition events must use Open benchmark workouts" });
+        }
+        if (benchmarks.some(benchmark => !benchmarkTypeToScoringType(benchmark.type))) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Benchmark has no supported scoring type" });
+        }
+
+        return benchmarks;
+    }
+
+    private static async insertEvents(
+        competitionId: string,
+        events: CompetitionEventInput[],
+        benchmarks: Array<typeof benchmarkWods.$inferSelect>
+    ) {
+        await db.insert(competitionEvents).values(events.map((event, index) => {
+            const benchmark = benchmarks.find(b => b.id === event.benchmarkId) as typeof benchmarkWods.$inferSelect;
+            const scoringType = benchmarkTypeToScoringType(benchmark.type) ?? "reps";
+
+            return {
+                competitionId,
+                benchmarkId: event.benchmarkId,
+                position: index + 1,
+                name: event.name?.trim() || benchmark.name,
+                timeCapSeconds: event.timeCapSeconds,
+                sortDirection: getScoreSortDirection(scoringType),
+                opensAt: event.opensAt,
+                closesAt: event.closesAt,
+            };
+        }));
+    }
+}
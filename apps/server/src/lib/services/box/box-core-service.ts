@@ -28,11 +28,31 @@ export class BoxCoreService {
         logo: string;
         requireApproval: boolean;
         allowPublicSignup: boolean;
+        defaultWeightUnit: "kg" | "lbs";
+        loadIncrementKg: number;
+        loadIncrementLbs: number;
+        monthlyMembershipPrice: number | null;
+        interventionCost: number | null;
+        memberAcquisitionCost: number | null;
     }>) {
+        const {
+            loadIncrementKg,
+            loadIncrementLbs,
+            monthlyMembershipPrice,
+            interventionCost,
+            memberAcquisitionCost,
+            ...fields
+        } = updates;
+
         const [updated] = await db
             .update(boxes)
             .set({
-                ...updates,
+                ...fields,
+                loadIncrementKg: loadIncrementKg?.toString(),
+                loadIncrementLbs: loadIncrementLbs?.toString(),
+                monthlyMembershipPrice: monthlyMembershipPrice === null ? null : monthlyMembershipPrice?.toString(),
+                interventionCost: interventionCost === null ? null : interventionCost?.toString(),
+                memberAcquisitionCost: memberAcquisitionCost === null ? null : memberAcquisitionCost?.toString(),
                 updatedAt: new Date(),
             })
             .where(eq(boxes.id, boxId))
@@ -0,0 +1,411 @@
+﻿// lib/services/box/box-programming-service.ts
+import { db, withTransaction, type DbTransaction } from "@/db";
+import {
+    benchmarkWods,
+    movements,
+    programmedWorkoutMovements,
+    programmedWorkoutParts,
+    programmedWorkouts
+} from "@/db/schema";
+import { and, asc, desc, eq, gte, inArray, lte, ne } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { isUniqueViolation } from "@/lib/errors";
+import type {
+    ProgrammedWorkoutPartInput,
+    ProgrammedWorkoutStatus,
+    WorkoutScoringType
+} from "@/lib/services/box/types";
+
+export class BoxProgrammingService {
+    /**
+     * Create a programmed workout with its ordered parts and prescribed movements
+     */
+    static async createWorkout(
+        boxId: string,
+        createdByMembershipId: string,
+        data: {
+            workoutDate: string;
+            track?: string;
+            title: string;
+            description?: string;
+            coachNotes?: string;
+            parts: ProgrammedWorkoutPartInput[];
+        }
+    ) {
+        await this.validateParts(data.parts);
+
+        const track = data.track?.trim() || "main";
+
+        const [existing] = await db
+            .select({ id: programmedWorkouts.id })
+            .from(programmedWorkouts)
+            .where(and(
+                eq(programmedWorkouts.boxId, boxId),
+                eq(programmedWorkouts.workoutDate, data.workoutDate),
+                eq(programmedWorkouts.track, track)
+            ))
+            .limit(1);
+
+        if (existing) {
+            throw this.dateTrackConflict();
+        }
+
+        const workout = await withTransaction(async (tx) => {
+            const [inserted] = await tx
+                .insert(programmedWorkouts)
+                .values({
+                    boxId,
+                    createdByMembershipId,
+                    workoutDate: data.workoutDate,
+                    track,
+                    title: data.title.trim(),
+                    description: data.description,
+                    coachNotes: data.coachNotes,
+                })
+                .returning();
+
+            await this.insertParts(tx, inserted.id, data.parts);
+
+            return inserted;
+        }).catch((error) => {
+            // Lost a race with another coach programming the same day
+            throw isUniqueViolation(error, "programmed_workouts_box_date_track_unique") ? this.dateTrackConflict() : error;
+        });
+
+        return this.getWorkout(boxId, workout.id);
+    }
+
+    /**
+     * Update a programmed workout. When parts are provided they replace the existing ones.
+     */
+    static async updateWorkout(
+        boxId: string,
+        workoutId: string,
+        updates: {
+            workoutDate?: string;
+            track?: string;
+            title?: string;
+            description?: string | null;
+            coachNotes?: string | null;
+            parts?: ProgrammedWorkoutPartInput[];
+        }
+    ) {
+        const { parts, ...fields } = updates;
+
+        if (parts) {
+            await this.validateParts(parts);
+        }
+
+        await withTransaction(async (tx) => {
+            const [updated] = await tx
+                .update(programmedWorkouts)
+                .set({
+                    ...fields,
+                    title: fields.title?.trim(),
+                    track: fields.track?.trim() || undefined,
+                    updatedAt: new Date(),
+                })
+                .where(and(
+                    eq(programmedWorkouts.id, workoutId),
+                    eq(programmedWorkouts.boxId, boxId)
+                ))
+                .returning();
+
+            if (!updated) {
+                throw new TRPCError({ code: "NOT_FOUND", message: "Programmed workout not found" });
+            }
+
+            if (parts) {
+                // Movements cascade with their parts
+                await tx
+                    .delete(programmedWorkoutParts)
+                    .where(eq(programmedWorkoutParts.workoutId, workoutId));
+
+                await this.insertParts(tx, workoutId, parts);
+            }
+        }).catch((error) => {
+            throw isUniqueViolation(error, "programmed_workouts_box_date_track_unique") ? this.dateTrackConflict() : error;
+        });
+
+        return this.getWorkout(boxId, workoutId);
+    }
+
+    /**
+     * Publish a workout so athletes can see it and log against it
+     */
+    static async publishWorkout(boxId: string, workoutId: string) {
+        return this.setStatus(boxId, workoutId, "published");
+    }
+
+    /**
+     * Archive a workout. Linked feedback, attendance and results keep their reference.
+     */
+    static async archiveWorkout(boxId: string, workoutId: string) {
+        return this.setStatus(boxId, workoutId, "archived");
+    }
+
+    /**
+     * Get a programmed workout with parts, movements and benchmark details
+     */
+    static async getWorkout(boxId: string, workoutId: string, includeCoachNotes = true) {
+        const workout = await db.query.programmedWorkouts.findFirst({
+            where: and(
+                eq(programmedWorkouts.id, workoutId),
+                eq(programmedWorkouts.boxId, boxId)
+            ),
+            with: {
+                parts: {
+                    orderBy: asc(programmedWorkoutParts.position),
+                    with: {
+                        benchmark: true,
+                        movements: {
+                            orderBy: asc(programmedWorkoutMovements.position),
+                            with: {
+                                movement: true,
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!workout) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Programmed workout not found" });
+        }
+
+        return includeCoachNotes ? workout : { ...workout, coachNotes: null };
+    }
+
+    /**
+     * Get the workouts programmed for a date. Athletes only see published workouts.
+     */
+    static async getWorkoutsForDate(boxId: string, workoutDate: string, includeUnpublished = false) {
+        const conditions = [
+            eq(programmedWorkouts.boxId, boxId),
+            eq(programmedWorkouts.workoutDate, workoutDate),
+        ];
+        if (!includeUnpublished) {
+            conditions.push(eq(programmedWorkouts.status, "published"));
+        }
+
+        const workouts = await db
+            .select({ id: programmedWorkouts.id })
+            .from(programmedWorkouts)
+            .where(and(...conditions))
+            .orderBy(asc(programmedWorkouts.track));
+
+        return Promise.all(workouts.map(({ id }) => this.getWorkout(boxId, id, includeUnpublished)));
+    }
+
+    /**
+     * List programmed workouts in a date range (summary rows, no parts)
+     */
+    static async listWorkouts(
+        boxId: string,
+        options: {
+            startDate: string;
+            endDate: string;
+            track?: string;
+            status?: ProgrammedWorkoutStatus;
+        }
+    ) {
+        const conditions = [
+            eq(programmedWorkouts.boxId, boxId),
+            gte(programmedWorkouts.workoutDate, options.startDate),
+            lte(programmedWorkouts.workoutDate, options.endDate),
+        ];
+        if (options.track) {
+            conditions.push(eq(programmedWorkouts.track, options.track));
+        }
+        if (options.status) {
+            conditions.push(eq(programmedWorkouts.status, options.status));
+        }
+
+        return db
+            .select()
+            .from(programmedWorkouts)
+            .where(and(...conditions))
+            .orderBy(desc(programmedWorkouts.workoutDate), asc(programmedWorkouts.track));
+    }
+
+    /**
+     * Get the published workout for a date on a track, if any
+     */
+    static async getPublishedWorkoutId(boxId: string, workoutDate: string, track = "main") {
+        const [workout] = await db
+            .select({ id: programmedWorkouts.id })
+            .from(programmedWorkouts)
+            .where(and(
+                eq(programmedWorkouts.boxId, boxId),
+                eq(programmedWorkouts.workoutDate, workoutDate),
+                eq(programmedWorkouts.track, track),
+                eq(programmedWorkouts.status, "published")
+            ))
+            .limit(1);
+
+        return workout?.id ?? null;
+    }
+
+    /**
+     * Resolve the workout a feedback, attendance or benchmark entry refers to.
+     * A programmed workout id wins and its title becomes the stored name, so entries
+     * for the same workout always join up. Free-text names are kept for ad hoc workouts.
+     * The scored part (metcon first) tells score parsing what kind of result to expect.
+     */
+    static async resolveWorkoutReference(
+        boxId: string,
+        reference: { programmedWorkoutId?: string; wodName?: string }
+    ): Promise<{
+        programmedWorkoutId: string | null;
+        wodName: string;
+        scoring: { scoringType: WorkoutScoringType; timeCapSeconds: number | null } | null;
+    }> {
+        if (reference.programmedWorkoutId) {
+            const [workout] = await db
+                .select({
+                    id: programmedWorkouts.id,
+                    title: programmedWorkouts.title,
+                    status: programmedWorkouts.status,
+                })
+                .from(programmedWorkouts)
+                .where(and(
+                    eq(programmedWorkouts.id, reference.programmedWorkoutId),
+                    eq(programmedWorkouts.boxId, boxId)
+                ))
+                .limit(1);
+
+            if (!workout || workout.status === "draft") {
+                throw new TRPCError({ code: "NOT_FOUND", message: "Programmed workout not found" });
+            }
+
+            const scoredParts = await db
+                .select({
+                    partType: programmedWorkoutParts.partType,
+                    scoringType: programmedWorkoutParts.scoringType,
+                    timeCapSeconds: programmedWorkoutParts.timeCapSeconds,
+                })
+                .from(programmedWorkoutParts)
+                .where(and(
+                    eq(programmedWorkoutParts.workoutId, workout.id),
+                    ne(programmedWorkoutParts.scoringType, "none")
+                ))
+                .orderBy(asc(programmedWorkoutParts.position));
+
+            const scoredPart = scoredParts.find(part => part.partType === "metcon") ?? scoredParts[0];
+
+            return {
+                programmedWorkoutId: workout.id,
+                wodName: workout.title,
+                scoring: scoredPart
+                    ? { scoringType: scoredPart.scoringType, timeCapSeconds: scoredPart.timeCapSeconds }
+                    : null,
+            };
+        }
+
+        const wodName = reference.wodName?.trim();
+        if (!wodName) {
+            throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: "Either a programmed workout or a workout name is required"
+            });
+        }
+
+        return { programmedWorkoutId: null, wodName, scoring: null };
+    }
+
+    private static async setStatus(boxId: string, workoutId: string, status: ProgrammedWorkoutStatus) {
+        const now = new Date();
+
+        const [updated] = await db
+            .update(programmedWorkouts)
+            .set({
+                status,
+                ...(status === "published" && { publishedAt: now }),
+                updatedAt: now,
+            })
+            .where(and(
+                eq(programmedWorkouts.id, workoutId),
+                eq(programmedWorkouts.boxId, boxId)
+            ))
+            .returning();
+
+        if (!updated) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Programmed workout not found" });
+        }
+
+        return updated;
+    }
+
+    private static dateTrackConflict() {
+        return new TRPCError({
+            code: "CONFLICT",
+            message: "A workout is already programmed for this date and track"
+        });
+    }
+
+    private static async insertParts(tx: DbTransaction, workoutId: string, parts: ProgrammedWorkoutPartInput[]) {
+        for (const [index, part] of parts.entries()) {
+            const [insertedPart] = await tx
+                .insert(programmedWorkoutParts)
+                .values({
+                    workoutId,
+                    position: index + 1,
+                    partType: part.partType,
+                    title: part.title,
+                    description: part.description,
+                    scoringType: part.scoringType ?? "none",
+                    timeCapSeconds: part.timeCapSeconds,
+                    rounds: part.rounds,
+                    benchmarkId: part.benchmarkId,
+                })
+                .returning({ id: programmedWorkoutParts.id });
+
+            const partMovements = part.movements ?? [];
+            if (partMovements.length === 0) continue;
+
+            await tx
+                .insert(programmedWorkoutMovements)
+                .values(partMovements.map((movement, movementIndex) => ({
+                    partId: insertedPart.id,
+                    movementId: movement.movementId,
+                    position: movementIndex + 1,
+                    prescribedReps: movement.prescribedReps,
+                    prescribedSets: movement.prescribedSets,
+                    prescribedLoad: movement.prescribedLoad?.toString(),
+                    prescribedPercentage: movement.prescribedPercentage?.toString(),
+                    prescribedCalories: movement.prescribedCalories,
+                    prescribedDistance: movement.prescribedDistance?.toString(),
+                    unit: movement.unit,
+                    scaledLoad: movement.scaledLoad?.toString(),
+                    scaledNotes: movement.scaledNotes,
+                    notes: movement.notes,
+                })));
+        }
+    }
+
+    private static async validateParts(parts: ProgrammedWorkoutPartInput[]) {
+        const movementIds = [...new Set(parts.flatMap(part => (part.movements ?? []).map(m => m.movementId)))];
+        if (movementIds.length > 0) {
+            const found = await db
+                .select({ id: movements.id })
+                .from(movements)
+                .where(inArray(movements.id, movementIds));
+
+            if (found.length !== movementIds.length) {
+                throw new TRPCError({ code: "BAD_REQUEST", message: "Unknown movement in workout" });
+            }
+        }
+
+        const benchmarkIds = [...new Set(parts.map(part => part.benchmarkId).filter((id): id is string => !!id))];
+        if (benchmarkIds.length > 0) {
+            const found = await db
+                .select({ id: benchmarkWods.id })
+                .from(benchmarkWods)
+                .where(inArray(benchmarkWods.id, benchmarkIds));
+
+            if (found.length !== benchmarkIds.length) {
+                throw new TRPCError({ code: "BAD_REQUEST", message: "Unknown benchmark in workout" });
+            }
+        }
+    }
+}
@@ -0,0 +1,933 @@
+﻿// lib/services/box/box-schedule-service.ts
+import { db } from "@/db";
+import {
+    athleteAlerts,
+    boxes,
+    boxMemberships,
+    classInstances,
+    classReservations,
+    classTemplates,
+    wodAttendance
+} from "@/db/schema";
+import { and, asc, count, eq, gte, inArray, isNull, lte, sql } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { addDays, DEFAULT_TIMEZONE, formatLocalDate, getBoxTimezone, zonedTimeToUtc } from "@/lib/dates";
+import { AthleteAttendanceNotificationService } from "@/lib/services/notifications/athlete";
+import { BoxProgrammingService } from "@/lib/services/box/box-programming-service";
+import { routeNewAlert } from "@/lib/services/analytics/calculations/alert-routing-calculations";
+import { AthleteReadinessService } from "@/lib/services/athlete/athlete-readiness-service";
+import type { BoxSchedulingPolicy, ClassScheduleEntry, ClassType } from "@/lib/services/box/types";
+
+const DEFAULT_SCHEDULING_POLICY: BoxSchedulingPolicy = {
+    lateCancelWindowMinutes: 120,
+    noShowGraceMinutes: 15,
+    waitlistEnabled: true,
+    maxWaitlistSize: 10,
+    violationAlertThreshold: 3,
+    violationLookbackDays: 30,
+};
+
+export class BoxScheduleService {
+    /**
+     * Create a recurring weekly class template
+     */
+    static async createClassTemplate(
+        boxId: string,
+        createdByMembershipId: string,
+        data: {
+            name: string;
+            classType?: ClassType;
+            description?: string;
+            dayOfWeek: number;
+            startTime: string;
+            durationMinutes?: number;
+            capacity?: number;
+            coachMembershipId?: string;
+            cancelWindowMinutes?: number;
+            effectiveFrom?: string;
+            effectiveUntil?: string;
+        }
+    ) {
+        if (data.coachMembershipId) {
+            await this.requireCoachMembership(boxId, data.coachMembershipId);
+        }
+
+        const [template] = await db
+            .insert(classTemplates)
+            .values({
+                boxId,
+                createdByMembershipId,
+                name: data.name,
+                classType: data.classType ?? "wod",
+                description: data.description,
+                dayOfWeek: data.dayOfWeek,
+                startTime: data.startTime,
+                durationMinutes: data.durationMinutes ?? 60,
+                capacity: data.capacity ?? 16,
+                coachMembershipId: data.coachMembershipId,
+                cancelWindowMinutes: data.cancelWindowMinutes,
+                effectiveFrom: data.effectiveFrom,
+                effectiveUntil: data.effectiveUntil,
+            })
+            .returning();
+
+        return template;
+    }
+
+    /**
+     * Update a class template. Only future, not yet generated instances pick up the changes.
+     */
+    static async updateClassTemplate(
+        boxId: string,
+        templateId: string,
+        updates: Partial<{
+            name: string;
+            classType: ClassType;
+            description: string;
+            dayOfWeek: number;
+            startTime: string;
+            durationMinutes: number;
+            capacity: number;
+            coachMembershipId: string | null;
+            cancelWindowMinutes: number | null;
+            effectiveFrom: string | null;
+            effectiveUntil: string | null;
+            isActive: boolean;
+        }>
+    ) {
+        if (updates.coachMembershipId) {
+            await this.requireCoachMembership(boxId, updates.coachMembershipId);
+        }
+
+        const [updated] = await db
+            .update(classTemplates)
+            .set({
+                ...updates,
+                updatedAt: new Date(),
+            })
+            .where(and(
+                eq(classTemplates.id, templateId),
+                eq(classTemplates.boxId, boxId)
+            ))
+            .returning();
+
+        if (!updated) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Class template not found" });
+        }
+
+        return updated;
+    }
+
+    /**
+     * Get class templates for a box ordered by weekday and start time
+     */
+    static async getClassTemplates(boxId: string, includeInactive = false) {
+        const conditions = [eq(classTemplates.boxId, boxId)];
+        if (!includeInactive) {
+            conditions.push(eq(classTemplates.isActive, true));
+        }
+
+        return db
+            .select()
+            .from(classTemplates)
+            .where(and(...conditions))
+            .orderBy(asc(classTemplates.dayOfWeek), asc(classTemplates.startTime));
+    }
+
+    /**
+     * Generate class instances from active templates for the coming days.
+     * Existing instances are left untouched, so this is safe to run repeatedly.
+     */
+    static async generateClassInstances(boxId: string, days = 14) {
+        const box = await this.getBox(boxId);
+        const timeZone = box.timezone || DEFAULT_TIMEZONE;
+
+        const templates = await this.getClassTemplates(boxId);
+        if (templates.length === 0) {
+            return { created: 0, skipped: 0 };
+        }
+
+        const now = new Date();
+        const today = formatLocalDate(now, timeZone);
+        const values: Array<typeof classInstances.$inferInsert> = [];
+
+        for (let offset = 0; offset < days; offset++) {
+            const classDate = addDays(today, offset);
+            const dayOfWeek = new Date(`${classDate}T00:00:00Z`).getUTCDay();
+
+            for (const template of templates) {
+                if (template.dayOfWeek !== dayOfWeek) continue;
+                if (template.effectiveFrom && classDate < template.effectiveFrom) continue;
+                if (template.effectiveUntil && classDate > template.effectiveUntil) continue;
+
+                const startsAt = zonedTimeToUtc(classDate, template.startTime, timeZone);
+                if (startsAt <= now) continue;
+
+                values.push({
+                    boxId,
+                    templateId: template.id,
+                    name: template.name,
+                    classType: template.classType,
+                    startsAt,
+                    endsAt: new Date(startsAt.getTime() + template.durationMinutes * 60 * 1000),
+                    classDate,
+                    capacity: template.capacity,
+                    cancelWindowMinutes: template.cancelWindowMinutes,
+                    coachMembershipId: template.coachMembershipId,
+                });
+            }
+        }
+
+        if (values.length === 0) {
+            return { created: 0, skipped: 0 };
+        }
+
+        const created = await db
+            .insert(classInstances)
+            .values(values)
+            .onConflictDoNothing({ target: [classInstances.templateId, classInstances.startsAt] })
+            .returning({ id: classInstances.id });
+
+        return {
+            created: created.length,
+            skipped: values.length - created.length,
+        };
+    }
+
+    /**
+     * Create a one-off class that is not backed by a template
+     */
+    static async createClassInstance(
+        boxId: string,
+        data: {
+            name: string;
+            classType?: ClassType;
+            startsAt: Date;
+            durationMinutes: number;
+            capacity: number;
+            coachMembershipId?: string;
+            cancelWindowMinutes?: number;
+            notes?: string;
+        }
+    ) {
+        const box = await this.getBox(boxId);
+        if (data.coachMembershipId) {
+            await this.requireCoachMembership(boxId, data.coachMembershipId);
+        }
+
+        const [instance] = await db
+            .insert(classInstances)
+            .values({
+                boxId,
+                name: data.name,
+                classType: data.classType ?? "wod",
+                startsAt: data.startsAt,
+                endsAt: new Date(data.startsAt.getTime() + data.durationMinutes * 60 * 1000),
+                classDate: formatLocalDate(data.startsAt, box.timezone || DEFAULT_TIMEZONE),
+                capacity: data.capacity,
+                cancelWindowMinutes: data.cancelWindowMinutes,
+                coachMembershipId: data.coachMembershipId,
+                notes: data.notes,
+            })
+            .returning();
+
+        return instance;
+    }
+
+    /**
+     * Get scheduled classes in a date range with reservation counts.
+     * When a membership id is passed, that athlete's reservation status is included.
+     */
+    static async getSchedule(
+        boxId: string,
+        options: {
+            startDate: Date;
+            endDate: Date;
+            membershipId?: string;
+            includeCancelled?: boolean;
+        }
+    ): Promise<ClassScheduleEntry[]> {
+        const conditions = [
+            eq(classInstances.boxId, boxId),
+            gte(classInstances.startsAt, options.startDate),
+            lte(classInstances.startsAt, options.endDate),
+        ];
+        if (!options.includeCancelled) {
+            conditions.push(sql`${classInstances.status} != 'cancelled'`);
+        }
+
+        const instances = await db
+            .select({
+                instance: classInstances,
+                coachName: boxMemberships.displayName,
+            })
+            .from(classInstances)
+            .leftJoin(boxMemberships, eq(classInstances.coachMembershipId, boxMemberships.id))
+            .where(and(...conditions))
+            .orderBy(asc(classInstances.startsAt));
+
+        if (instances.length === 0) {
+            return [];
+        }
+
+        const instanceIds = instances.map(({ instance }) => instance.id);
+
+        const [reservationCounts, ownReservations] = await Promise.all([
+            db
+                .select({
+                    classInstanceId: classReservations.classInstanceId,
+                    reserved: sql<number>`COUNT(CASE WHEN ${classReservations.status} IN ('reserved', 'attended') THEN 1 END)`,
+                    waitlisted: sql<number>`COUNT(CASE WHEN ${classReservations.status} = 'waitlisted' THEN 1 END)`,
+                })
+                .from(classReservations)
+                .where(and(
+                    inArray(classReservations.classInstanceId, instanceIds),
+                    inArray(classReservations.status, ["reserved", "attended", "waitlisted"])
+                ))
+                .groupBy(classReservations.classInstanceId),
+
+            options.membershipId
+                ? db
+                    .select({
+                        classInstanceId: classReservations.classInstanceId,
+                        status: classReservations.status,
+                    })
+                    .from(classReservations)
+                    .where(and(
+                        inArray(classReservations.classInstanceId, instanceIds),
+                        eq(classReservations.membershipId, options.membershipId)
+                    ))
+                : Promise.resolve([]),
+        ]);
+
+        const countMap = new Map(reservationCounts.map(r => [r.classInstanceId, r]));
+        const ownMap = new Map(ownReservations.map(r => [r.classInstanceId, r.status]));
+
+        return instances.map(({ instance, coachName }) => {
+            const counts = countMap.get(instance.id);
+            const reservedCount = Number(counts?.reserved ?? 0);
+            return {
+                ...instance,
+                coachName: coachName ?? null,
+                reservedCount,
+                waitlistCount: Number(counts?.waitlisted ?? 0),
+                spotsRemaining: Math.max(instance.capacity - reservedCount, 0),
+                reservationStatus: ownMap.get(instance.id) ?? null,
+            };
+        });
+    }
+
+    /**
+     * Get the roster of reservations for a class
+     */
+    static async getClassRoster(boxId: string, classInstanceId: string) {
+        const instance = await this.getClassInstance(boxId, classInstanceId);
+
+        const reservations = await db
+            .select({
+                reservation: classReservations,
+                athlete: {
+                    id: boxMemberships.id,
+                    displayName: boxMemberships.displayName,
+                    publicId: boxMemberships.publicId,
+                }
+            })
+            .from(classReservations)
+            .innerJoin(boxMemberships, eq(classReservations.membershipId, boxMemberships.id))
+            .where(eq(classReservations.classInstanceId, classInstanceId))
+            .orderBy(asc(classReservations.reservedAt));
+
+        return {
+            instance,
+            reservations,
+            summary: {
+                reserved: reservations.filter(r => r.reservation.status === "reserved").length,
+                waitlisted: reservations.filter(r => r.reservation.status === "waitlisted").length,
+                attended: reservations.filter(r => r.reservation.status === "attended").length,
+                lateCancels: reservations.filter(r => r.reservation.status === "late_cancel").length,
+                noShows: reservations.filter(r => r.reservation.status === "no_show").length,
+            }
+        };
+    }
+
+    /**
+     * Readiness for everyone booked into a class from their check-in on the class date,
+     * lowest first so coaches see who needs scaling before the class starts
+     */
+    static async getClassReadinessRoster(boxId: string, classInstanceId: string) {
+        const instance = await this.getClassInstance(boxId, classInstanceId);
+
+        const athletes = await db
+            .select({
+                id: boxMemberships.id,
+                displayName: boxMemberships.displayName,
+                publicId: boxMemberships.publicId,
+                reservationStatus: classReservations.status,
+            })
+            .from(classReservations)
+            .innerJoin(boxMemberships, eq(classReservations.membershipId, boxMemberships.id))
+            .where(and(
+                eq(classReservations.classInstanceId, classInstanceId),
+                inArray(classReservations.status, ["reserved", "attended"])
+            ))
+            .orderBy(asc(classReservations.reservedAt));
+
+        const readiness = await AthleteReadinessService.getReadinessForAthletes(
+            boxId,
+            athletes.map(a => a.id),
+            instance.classDate
+        );
+
+        const roster = athletes
+            .map(athlete => ({ athlete, readiness: readiness.get(athlete.id) ?? null }))
+            .sort((a, b) => (a.readiness?.score ?? 101) - (b.readiness?.score ?? 101));
+
+        return {
+            instance,
+            roster,
+            summary: {
+                athletes: roster.length,
+                checkedIn: roster.filter(r => r.readiness).length,
+                trainAsProgrammed: roster.filter(r => r.readiness?.recommendation === "train_as_programmed").length,
+                scale: roster.filter(r => r.readiness?.recommendation === "scale").length,
+                recover: roster.filter(r => r.readiness?.recommendation === "recover").length,
+            }
+        };
+    }
+
+    /**
+     * Cancel a class. Reservations are cancelled without counting against athletes.
+     */
+    static async cancelClassInstance(boxId: string, classInstanceId: string, reason?: string) {
+        const instance = await this.getClassInstance(boxId, classInstanceId);
+        if (instance.status !== "scheduled") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Only scheduled classes can be cancelled" });
+        }
+
+        const now = new Date();
+        const [cancelled] = await db
+            .update(classInstances)
+            .set({
+                status: "cancelled",
+                cancelledAt: now,
+                cancellationReason: reason,
+                updatedAt: now,
+            })
+            .where(eq(classInstances.id, classInstanceId))
+            .returning();
+
+        await db
+            .update(classReservations)
+            .set({
+                status: "cancelled",
+                cancelledAt: now,
+                updatedAt: now,
+            })
+            .where(and(
+                eq(classReservations.classInstanceId, classInstanceId),
+                inArray(classReservations.status, ["reserved", "waitlisted"])
+            ));
+
+        return cancelled;
+    }
+
+    /**
+     * Convert a finished class's reservations into wodAttendance rows.
+     * Checked-in reservations become "attended", reservations never checked in become "no_show"
+     * and late cancels are carried over as "late_cancel". Rows written earlier by policy
+     * enforcement are updated to the final reservation status.
+     */
+    static async finalizeClassAttendance(boxId: string, classInstanceId: string) {
+        const instance = await this.getClassInstance(boxId, classInstanceId);
+
+        if (instance.status === "cancelled") {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Cannot finalize attendance for a cancelled class" });
+        }
+        if (instance.endsAt > new Date()) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Class has not finished yet" });
+        }
+
+        const now = new Date();
+
+        // Anyone still holding a reservation after the class ended did not show up
+        const newNoShows = await db
+            .update(classReservations)
+            .set({
+                status: "no_show",
+                updatedAt: now,
+            })
+            .where(and(
+                eq(classReservations.classInstanceId, classInstanceId),
+                eq(classReservations.status, "reserved")
+            ))
+            .returning({ membershipId: classReservations.membershipId });
+
+        // Waitlisted athletes who never got a spot are released without penalty
+        await db
+            .update(classReservations)
+            .set({
+                status: "cancelled",
+                cancelledAt: now,
+                updatedAt: now,
+            })
+            .where(and(
+                eq(classReservations.classInstanceId, classInstanceId),
+                eq(classReservations.status, "waitlisted")
+            ));
+
+        const reservations = await db
+            .select()
+            .from(classReservations)
+            .where(and(
+                eq(classReservations.classInstanceId, classInstanceId),
+                inArray(classReservations.status, ["attended", "no_show", "late_cancel"])
+            ));
+
+        const programmedWorkoutId = await this.getProgrammedWorkoutId(instance);
+        const attendanceRows = reservations.map(reservation =>
+            this.buildAttendanceRow(instance, reservation, programmedWorkoutId)
+        );
+
+        const recorded = attendanceRows.length > 0
+            ? await db
+                .insert(wodAttendance)
+                .values(attendanceRows)
+                .onConflictDoUpdate({
+                    target: wodAttendance.reservationId,
+                    set: {
+                        status: sql`excluded.status`,
+                        checkedInAt: sql`excluded.checked_in_at`,
+                        durationMinutes: sql`excluded.duration_minutes`,
+                        updatedAt: now,
+                    }
+                })
+                .returning({ id: wodAttendance.id })
+            : [];
+
+        await db
+            .update(classInstances)
+            .set({
+                status: "completed",
+                attendanceFinalizedAt: now,
+                updatedAt: now,
+            })
+            .where(eq(classInstances.id, classInstanceId));
+
+        if (newNoShows.length > 0) {
+            const policy = await this.getSchedulingPolicy(boxId);
+            for (const { membershipId } of newNoShows) {
+                await this.checkViolationThreshold(boxId, membershipId, policy);
+            }
+        }
+
+        return {
+            classInstanceId,
+            recorded: recorded.length,
+            attended: reservations.filter(r => r.status === "attended").length,
+            noShows: reservations.filter(r => r.status === "no_show").length,
+            lateCancels: reservations.filter(r => r.status === "late_cancel").length,
+        };
+    }
+
+    /**
+     * Finalize attendance for every finished class in a box that hasn't been processed yet
+     */
+    static async finalizeEndedClasses(boxId: string) {
+        const endedClasses = await db
+            .select({ id: classInstances.id })
+            .from(classInstances)
+            .where(and(
+                eq(classInstances.boxId, boxId),
+                eq(classInstances.status, "scheduled"),
+                isNull(classInstances.attendanceFinalizedAt),
+                lte(classInstances.endsAt, new Date())
+            ))
+            .orderBy(asc(classInstances.startsAt));
+
+        const results = [];
+        for (const { id } of endedClasses) {
+            results.push(await this.finalizeClassAttendance(boxId, id));
+        }
+
+        return {
+            classesFinalized: results.length,
+            attendanceRecorded: results.reduce((sum, r) => sum + r.recorded, 0),
+        };
+    }
+
+    /**
+     * Get the box reservation policy, falling back to defaults for unset values
+     */
+    static async getSchedulingPolicy(boxId: string): Promise<BoxSchedulingPolicy> {
+        const [box] = await db
+            .select({ settings: boxes.settings })
+            .from(boxes)
+            .where(eq(boxes.id, boxId))
+            .limit(1);
+
+        if (!box) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Box not found" });
+        }
+
+        const settings = (box.settings ?? {}) as { scheduling?: Partial<BoxSchedulingPolicy> };
+        return { ...DEFAULT_SCHEDULING_POLICY, ...settings.scheduling };
+    }
+
+    /**
+     * Update the box reservation policy, preserving other keys in boxes.settings
+     */
+    static async updateSchedulingPolicy(boxId: string, updates: Partial<BoxSchedulingPolicy>) {
+        const [box] = await db
+            .select({ settings: boxes.settings })
+            .from(boxes)
+            .where(eq(boxes.id, boxId))
+            .limit(1);
+
+        if (!box) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Box not found" });
+        }
+
+        const settings = (box.settings ?? {}) as Record<string, any>;
+        const scheduling: BoxSchedulingPolicy = {
+            ...DEFAULT_SCHEDULING_POLICY,
+            ...settings.scheduling,
+            ...updates,
+        };
+
+        await db
+            .update(boxes)
+            .set({
+                settings: { ...settings, scheduling },
+                updatedAt: new Date(),
+            })
+            .where(eq(boxes.id, boxId));
+
+        return scheduling;
+    }
+
+    /**
+     * Late-cancel window for a class: the class override if set, otherwise the box policy
+     */
+    static getLateCancelWindowMinutes(
+        instance: Pick<typeof classInstances.$inferSelect, "cancelWindowMinutes">,
+        policy: BoxSchedulingPolicy
+    ): number {
+        return instance.cancelWindowMinutes ?? policy.lateCancelWindowMinutes;
+    }
+
+    /**
+     * Fill open spots in a class from its waitlist (first come, first served) and notify promoted athletes
+     */
+    static async promoteFromWaitlist(boxId: string, classInstanceId: string) {
+        const instance = await this.getClassInstance(boxId, classInstanceId);
+        if (instance.status !== "scheduled" || instance.startsAt <= new Date()) {
+            return [];
+        }
+
+        const [{ takenSpots }] = await db
+            .select({ takenSpots: count() })
+            .from(classReservations)
+            .where(and(
+                eq(classReservations.classInstanceId, classInstanceId),
+                inArray(classReservations.status, ["reserved", "attended"])
+            ));
+
+        const openSpots = instance.capacity - takenSpots;
+        if (openSpots <= 0) {
+            return [];
+        }
+
+        const waitlisted = await db
+            .select({ id: classReservations.id })
+            .from(classReservations)
+            .where(and(
+                eq(classReservations.classInstanceId, classInstanceId),
+                eq(classReservations.status, "waitlisted")
+            ))
+            .orderBy(asc(classReservations.reservedAt))
+            .limit(openSpots);
+
+        const promoted = [];
+        for (const { id } of waitlisted) {
+            const now = new Date();
+            // Guard on status so a concurrent cancel of the waitlist entry isn't overwritten
+            const [reservation] = await db
+                .update(classReservations)
+                .set({
+                    status: "reserved",
+                    promotedAt: now,
+                    updatedAt: now,
+                })
+                .where(and(
+                    eq(classReservations.id, id),
+                    eq(classReservations.status, "waitlisted")
+                ))
+                .returning();
+
+            if (!reservation) continue;
+            promoted.push(reservation);
+
+            try {
+                await new AthleteAttendanceNotificationService().sendWaitlistPromotionNotification(reservation.id);
+            } catch (error) {
+                console.error(`[Schedule] Failed to send waitlist promotion notification for reservation ${reservation.id}:`, error);
+            }
+        }
+
+        return promoted;
+    }
+
+    /**
+     * Write a late cancel or no-show reservation into wodAttendance and check the athlete's violation count
+     */
+    static async recordPolicyViolation(boxId: string, reservationId: string) {
+        const [row] = await db
+            .select({
+                reservation: classReservations,
+                instance: classInstances,
+            })
+            .from(classReservations)
+            .innerJoin(classInstances, eq(classReservations.classInstanceId, classInstances.id))
+            .where(and(
+                eq(classReservations.id, reservationId),
+                eq(classReservations.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!row || (row.reservation.status !== "late_cancel" && row.reservation.status !== "no_show")) {
+            return null;
+        }
+
+        const [attendance] = await db
+            .insert(wodAttendance)
+            .values(this.buildAttendanceRow(
+                row.instance,
+                row.reservation,
+                await this.getProgrammedWorkoutId(row.instance)
+            ))
+            .onConflictDoNothing({ target: wodAttendance.reservationId })
+            .returning();
+
+        await this.checkViolationThreshold(boxId, row.reservation.membershipId);
+
+        return attendance ?? null;
+    }
+
+    /**
+     * Mark reservations that weren't checked in within the no-show grace period as no-shows
+     */
+    static async enforceNoShows(boxId: string) {
+        const policy = await this.getSchedulingPolicy(boxId);
+        const cutoff = new Date(Date.now() - policy.noShowGraceMinutes * 60 * 1000);
+
+        const overdue = await db
+            .select({ id: classReservations.id })
+            .from(classReservations)
+            .innerJoin(classInstances, eq(classReservations.classInstanceId, classInstances.id))
+            .where(and(
+                eq(classReservations.boxId, boxId),
+                eq(classReservations.status, "reserved"),
+                eq(classInstances.status, "scheduled"),
+                lte(classInstances.startsAt, cutoff)
+            ));
+
+        if (overdue.length === 0) {
+            return { noShows: 0 };
+        }
+
+        const noShows = await db
+            .update(classReservations)
+            .set({
+                status: "no_show",
+                updatedAt: new Date(),
+            })
+            .where(and(
+                inArray(classReservations.id, overdue.map(r => r.id)),
+                eq(classReservations.status, "reserved")
+            ))
+            .returning({ id: classReservations.id });
+
+        for (const { id } of noShows) {
+            await this.recordPolicyViolation(boxId, id);
+        }
+
+        return { noShows: noShows.length };
+    }
+
+    /**
+     * Get a class instance scoped to a box
+     */
+    static async getClassInstance(boxId: string, classInstanceId: string) {
+        const [instance] = await db
+            .select()
+            .from(classInstances)
+            .where(and(
+                eq(classInstances.id, classInstanceId),
+                eq(classInstances.boxId, boxId)
+            ))
+            .limit(1);
+
+        if (!instance) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Class not found" });
+        }
+
+        return instance;
+    }
+
+    /**
+     * WOD classes follow the published main-track workout for their date
+     */
+    private static async getProgrammedWorkoutId(instance: typeof classInstances.$inferSelect) {
+        if (instance.classType !== "wod") {
+            return null;
+        }
+
+        return BoxProgrammingService.getPublishedWorkoutId(instance.boxId, instance.classDate);
+    }
+
+    private static buildAttendanceRow(
+        instance: typeof classInstances.$inferSelect,
+        reservation: typeof classReservations.$inferSelect,
+        programmedWorkoutId: string | null
+    ): typeof wodAttendance.$inferInsert {
+        const durationMinutes = Math.round((instance.endsAt.getTime() - instance.startsAt.getTime()) / (60 * 1000));
+
+        return {
+            boxId: instance.boxId,
+            membershipId: reservation.membershipId,
+            wodName: instance.name,
+            wodTime: instance.startsAt,
+            attendanceDate: instance.classDate,
+            status: reservation.status,
+            checkedInAt: reservation.checkedInAt,
+            durationMinutes: reservation.status === "attended" ? durationMinutes : null,
+            coachMembershipId: instance.coachMembershipId,
+            classInstanceId: instance.id,
+            reservationId: reservation.id,
+            programmedWorkoutId,
+        };
+    }
+
+    /**
+     * Raise (or refresh) an attendance policy alert once late cancels and no-shows reach the box threshold
+     */
+    private static async checkViolationThreshold(
+        boxId: string,
+        membershipId: string,
+        policy?: BoxSchedulingPolicy
+    ) {
+        const activePolicy = policy ?? await this.getSchedulingPolicy(boxId);
+        const timeZone = await getBoxTimezone(boxId);
+        const since = addDays(formatLocalDate(new Date(), timeZone), -activePolicy.violationLookbackDays);
+
+        const [violations] = await db
+            .select({
+                lateCancels: sql<number>`COUNT(CASE WHEN ${wodAttendance.status} = 'late_cancel' THEN 1 END)`,
+                noShows: sql<number>`COUNT(CASE WHEN ${wodAttendance.status} = 'no_show' THEN 1 END)`,
+            })
+            .from(wodAttendance)
+            .where(and(
+                eq(wodAttendance.boxId, boxId),
+                eq(wodAttendance.membershipId, membershipId),
+                gte(wodAttendance.attendanceDate, sql`${since}::date`)
+            ));
+
+        const lateCancels = Number(violations.lateCancels);
+        const noShows = Number(violations.noShows);
+        const total = lateCancels + noShows;
+
+        if (total < activePolicy.violationAlertThreshold) {
+            return null;
+        }
+
+        const severity = total >= activePolicy.violationAlertThreshold * 2 ? "high" : "medium";
+        const description = `${total} late cancels or no-shows in the last ${activePolicy.violationLookbackDays} days (${lateCancels} late cancels, ${noShows} no-shows).`;
+        const triggerData = {
+            lateCancels,
+            noShows,
+            threshold: activePolicy.violationAlertThreshold,
+            lookbackDays: activePolicy.violationLookbackDays,
+        };
+
+        const [existing] = await db
+            .select({ id: athleteAlerts.id })
+            .from(athleteAlerts)
+            .where(and(
+                eq(athleteAlerts.boxId, boxId),
+                eq(athleteAlerts.membershipId, membershipId),
+                eq(athleteAlerts.alertType, "attendance_policy_violation"),
+                inArray(athleteAlerts.status, ["active", "acknowledged"])
+            ))
+            .limit(1);
+
+        if (existing) {
+            const [updated] = await db
+                .update(athleteAlerts)
+                .set({
+                    severity,
+                    description,
+                    triggerData,
+                    updatedAt: new Date(),
+                })
+                .where(eq(athleteAlerts.id, existing.id))
+                .returning();
+
+            return updated;
+        }
+
+        const [alert] = await db
+            .insert(athleteAlerts)
+            .values({
+                boxId,
+                membershipId,
+                alertType: "attendance_policy_violation",
+                severity,
+                title: "Repeated Late Cancels / No-Shows",
+                description,
+                triggerData,
+                suggestedActions: [
+                    "Remind the athlete of the box cancellation policy",
+                    "Ask whether their class times still fit their schedule",
+                    "Offer help finding a more reliable class slot",
+                ],
+                status: "active",
+            })
+            .returning();
+
+        // Assign a coach using the box's routing rules
+        const routing = await routeNewAlert(boxId, alert);
+
+        return { ...alert, assignedCoachId: routing.coachId };
+    }
+
+    private static async getBox(boxId: string) {
+        const [box] = await db
+            .select({ id: boxes.id, timezone: boxes.timezone })
+            .from(boxes)
+            .where(eq(boxes.id, boxId))
+            .limit(1);
+
+        if (!box) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Box not found" });
+        }
+
+        return box;
+    }
+
+    private static async requireCoachMembership(boxId: string, membershipId: string) {
+        const [coach] = await db
+            .select({ id: boxMemberships.id })
+            .from(boxMemberships)
+            .where(and(
+                eq(boxMemberships.id, membershipId),
+                eq(boxMemberships.boxId, boxId),
+                eq(boxMemberships.isActive, true),
+                inArray(boxMemberships.role, ["owner", "head_coach", "coach"])
+            ))
+            .limit(1);
+
+        if (!coach) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Assigned coach must be an active coach of this box" });
+        }
+    }
+}
@@ -0,0 +1,402 @@
+﻿// lib/services/box/box-wellness-questionnaire-service.ts
+import { db, withTransaction } from "@/db";
+import {
+    athleteWellnessAnswers,
+    athleteWellnessCheckins,
+    boxMemberships,
+    boxWellnessQuestionnaires,
+    boxWellnessQuestions
+} from "@/db/schema";
+import { and, asc, avg, count, desc, eq, gte, inArray, lt, max, sql } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { getBoxTimezone, getLocalRange, localDateSql, startOfLocalDay, addDays, formatLocalDate } from "@/lib/dates";
+import {
+    fromStoredAnswer,
+    STANDARD_WELLNESS_FIELDS,
+    validateQuestionDefinitions,
+    WELLNESS_QUESTION_TEMPLATES,
+    type WellnessAnswerValue,
+    type WellnessQuestionInput,
+    type WellnessQuestionType
+} from "@/lib/services/athlete/wellness-questions";
+
+type QuestionRow = typeof boxWellnessQuestions.$inferSelect;
+
+export class BoxWellnessQuestionnaireService {
+    /**
+     * What athletes are asked at check-in: the standard fields, then the active version's questions
+     */
+    static async getActiveQuestionnaire(boxId: string) {
+        const [questionnaire] = await db
+            .select()
+            .from(boxWellnessQuestionnaires)
+            .where(and(
+                eq(boxWellnessQuestionnaires.boxId, boxId),
+                eq(boxWellnessQuestionnaires.isActive, true)
+            ))
+            .limit(1);
+
+        const questions = questionnaire
+            ? await db
+                .select()
+                .from(boxWellnessQuestions)
+                .where(eq(boxWellnessQuestions.questionnaireId, questionnaire.id))
+                .orderBy(asc(boxWellnessQuestions.position))
+            : [];
+
+        return {
+            standardFields: STANDARD_WELLNESS_FIELDS,
+            questionnaire: questionnaire ? { ...questionnaire, questions } : null,
+        };
+    }
+
+    /**
+     * Every published version, newest first
+     */
+    static async listQuestionnaires(boxId: string) {
+        return db
+            .select({
+                id: boxWellnessQuestionnaires.id,
+                version: boxWellnessQuestionnaires.version,
+                name: boxWellnessQuestionnaires.name,
+                isActive: boxWellnessQuestionnaires.isActive,
+                createdAt: boxWellnessQuestionnaires.createdAt,
+                retiredAt: boxWellnessQuestionnaires.retiredAt,
+                questionCount: count(boxWellnessQuestions.id),
+            })
+            .from(boxWellnessQuestionnaires)
+            .leftJoin(boxWellnessQuestions, eq(boxWellnessQuestions.questionnaireId, boxWellnessQuestionnaires.id))
+            .where(eq(boxWellnessQuestionnaires.boxId, boxId))
+            .groupBy(boxWellnessQuestionnaires.id)
+            .orderBy(desc(boxWellnessQuestionnaires.version));
+    }
+
+    static getQuestionTemplates() {
+        return WELLNESS_QUESTION_TEMPLATES;
+    }
+
+    /**
+     * Publish a new questionnaire version and make it the active one. Earlier versions
+     * are retired rather than edited so their answers keep pointing at what was asked.
+     */
+    static async publishQuestionnaire(
+        boxId: string,
+        createdByMembershipId: string,
+        data: {
+            name: string;
+            questions: WellnessQuestionInput[];
+        }
+    ) {
+        const errors = validateQuestionDefinitions(data.questions, await this.getPublishedQuestionTypes(boxId));
+        if (errors.length > 0) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: errors.join("; ") });
+        }
+
+        // One transaction, so check-ins never see a half-written version or no version at all
+        await withTransaction(async (tx) => {
+            const [latest] = await tx
+                .select({ version: max(boxWellnessQuestionnaires.version) })
+                .from(boxWellnessQuestionnaires)
+                .where(eq(boxWellnessQuestionnaires.boxId, boxId));
+
+            const [questionnaire] = await tx
+                .insert(boxWellnessQuestionnaires)
+                .values({
+                    boxId,
+                    version: (latest?.version ?? 0) + 1,
+                    name: data.name,
+                    createdByMembershipId,
+                })
+                .returning();
+
+            if (data.questions.length > 0) {
+                await tx.insert(boxWellnessQuestions).values(data.questions.map((question, index) => ({
+                    questionnaireId: questionnaire.id,
+                    key: question.key,
+                    prompt: question.prompt,
+                    helpText: question.helpText,
+                    type: question.type,
+                    isRequired: question.isRequired ?? false,
+                    position: index,
+                    scaleMin: question.type === "scale" ? question.scaleMin : null,
+                    scaleMax: question.type === "scale" ? question.scaleMax : null,
+                    scaleMinLabel: question.type === "scale" ? question.scaleMinLabel : null,
+                    scaleMaxLabel: question.type === "scale" ? question.scaleMaxLabel : null,
+                    options: question.type === "choice" ? question.options : null,
+                })));
+            }
+
+            // Retire first: box_wellness_questionnaires_box_active_unique allows one active version
+            await tx
+                .update(boxWellnessQuestionnaires)
+                .set({ isActive: false, retiredAt: new Date() })
+                .where(and(
+                    eq(boxWellnessQuestionnaires.boxId, boxId),
+                    eq(boxWellnessQuestionnaires.isActive, true)
+                ));
+            await tx
+                .update(boxWellnessQuestionnaires)
+                .set({ isActive: true })
+                .where(eq(boxWellnessQuestionnaires.id, questionnaire.id));
+        });
+
+        return this.getActiveQuestionnaire(boxId);
+    }
+
+    /**
+     * Go back to the standard check-in fields only
+     */
+    static async retireActiveQuestionnaire(boxId: string) {
+        const retired = await db
+            .update(boxWellnessQuestionnaires)
+            .set({ isActive: false, retiredAt: new Date() })
+            .where(and(
+                eq(boxWellnessQuestionnaires.boxId, boxId),
+                eq(boxWellnessQuestionnaires.isActive, true)
+            ))
+            .returning({ id: boxWellnessQuestionnaires.id });
+
+        return { retired: retired.length };
+    }
+
+    /**
+     * Answers to a custom question (by key, across versions) over the last `days`:
+     * daily averages for scales, yes-rate for booleans, option counts for choices and
+     * the latest responses for free text
+     */
+    static async getQuestionAnalytics(boxId: string, questionKey: string, days = 30) {
+        const question = await this.getLatestQuestion(boxId, questionKey);
+        const timezone = await getBoxTimezone(boxId);
+        const since = startOfLocalDay(addDays(formatLocalDate(new Date(), timezone), -days), timezone);
+        const answerDate = localDateSql(athleteWellnessAnswers.createdAt, timezone);
+        const answerFilter = and(
+            eq(athleteWellnessAnswers.boxId, boxId),
+            eq(athleteWellnessAnswers.questionKey, questionKey),
+            gte(athleteWellnessAnswers.createdAt, since)
+        );
+
+        const daily = await db
+            .select({
+                date: answerDate,
+                responses: count(),
+                athletes: sql<number>`COUNT(DISTINCT ${athleteWellnessAnswers.membershipId})::int`,
+                average: avg(athleteWellnessAnswers.numericValue),
+                yesCount: sql<number>`COUNT(*) FILTER (WHERE ${athleteWellnessAnswers.booleanValue})::int`,
+            })
+            .from(athleteWellnessAnswers)
+            .where(answerFilter)
+            .groupBy(answerDate)
+            .orderBy(answerDate);
+
+        const responses = daily.reduce((sum, day) => sum + day.responses, 0);
+        const base = {
+            question: { key: question.key, prompt: question.prompt, type: question.type },
+            days,
+            responses,
+        };
+
+        switch (question.type) {
+            case "scale": {
+                const series = daily.map(day => ({
+                    date: day.date,
+                    responses: day.responses,
+                    average: Math.round(Number(day.average) * 100) / 100,
+                }));
+                const total = daily.reduce((sum, day) => sum + Number(day.average) * day.responses, 0);
+                return {
+                    ...base,
+                    average: responses > 0 ? Math.round(total / responses * 100) / 100 : null,
+                    series,
+                };
+            }
+            case "boolean": {
+                const yes = daily.reduce((sum, day) => sum + day.yesCount, 0);
+                return {
+                    ...base,
+                    yesRate: responses > 0 ? Math.round(yes / responses * 100) : null,
+                    series: daily.map(day => ({
+                        date: day.date,
+                        responses: day.responses,
+                        yesRate: Math.round(day.yesCount / day.responses * 100),
+                    })),
+                };
+            }
+            case "choice": {
+                const distribution = await db
+                    .select({ option: athleteWellnessAnswers.textValue, responses: count() })
+                    .from(athleteWellnessAnswers)
+                    .where(answerFilter)
+                    .groupBy(athleteWellnessAnswers.textValue)
+                    .orderBy(desc(count()));
+
+                return {
+                    ...base,
+                    distribution: distribution.map(row => ({
+                        option: row.option,
+                        responses: row.responses,
+                        share: responses > 0 ? Math.round(row.responses / responses * 100) : 0,
+                    })),
+                    series: daily.map(day => ({ date: day.date, responses: day.responses })),
+                };
+            }
+            case "text": {
+                const latest = await db
+                    .select({
+                        membershipId: athleteWellnessAnswers.membershipId,
+                        displayName: boxMemberships.displayName,
+                        text: athleteWellnessAnswers.textValue,
+                        answeredAt: athleteWellnessAnswers.createdAt,
+                    })
+                    .from(athleteWellnessAnswers)
+                    .innerJoin(boxMemberships, eq(athleteWellnessAnswers.membershipId, boxMemberships.id))
+                    .where(answerFilter)
+                    .orderBy(desc(athleteWellnessAnswers.createdAt))
+                    .limit(20);
+
+                return {
+                    ...base,
+                    latest,
+                    series: daily.map(day => ({ date: day.date, responses: day.responses })),
+                };
+            }
+        }
+    }
+
+    /**
+     * Check-ins between two box-local dates as rows: the standard fields followed by one
+     * column per custom question key. Without personal data athletes are identified by
+     * membership id only.
+     */
+    static async exportWellnessResponses(
+        boxId: string,
+        options: {
+            from: string;
+            to: string;
+            includePersonalData?: boolean;
+        }
+    ) {
+        const timezone = await getBoxTimezone(boxId);
+        const range = getLocalRange(options.from, options.to, timezone);
+
+        const checkins = await db
+            .select({
+                checkin: athleteWellnessCheckins,
+                displayName: boxMemberships.displayName,
+            })
+            .from(athleteWellnessCheckins)
+            .innerJoin(boxMemberships, eq(athleteWellnessCheckins.membershipId, boxMemberships.id))
+            .where(and(
+                eq(athleteWellnessCheckins.boxId, boxId),
+                gte(athleteWellnessCheckins.checkinDate, range.start),
+                lt(athleteWellnessCheckins.checkinDate, range.end)
+            ))
+            .orderBy(asc(athleteWellnessCheckins.checkinDate));
+
+        const checkinIds = checkins.map(row => row.checkin.id);
+        const answers = checkinIds.length === 0 ? [] : await db
+            .select({
+                checkinId: athleteWellnessAnswers.checkinId,
+                questionKey: athleteWellnessAnswers.questionKey,
+                type: boxWellnessQuestions.type,
+                numericValue: athleteWellnessAnswers.numericValue,
+                booleanValue: athleteWellnessAnswers.booleanValue,
+                textValue: athleteWellnessAnswers.textValue,
+            })
+            .from(athleteWellnessAnswers)
+            .innerJoin(boxWellnessQuestions, eq(athleteWellnessAnswers.questionId, boxWellnessQuestions.id))
+            .where(inArray(athleteWellnessAnswers.checkinId, checkinIds));
+
+        const customKeys = [...new Set(answers.map(answer => answer.questionKey))].sort();
+        const answersByCheckin = new Map<string, Map<string, WellnessAnswerValue | null>>();
+        for (const answer of answers) {
+            const values = answersByCheckin.get(answer.checkinId) ?? new Map<string, WellnessAnswerValue | null>();
+            values.set(answer.questionKey, fromStoredAnswer(answer.type, answer));
+            answersByCheckin.set(answer.checkinId, values);
+        }
+
+        const columns = [
+            "date",
+            "membershipId",
+            ...(options.includePersonalData ? ["athlete"] : []),
+            ...STANDARD_WELLNESS_FIELDS
+                .map(field => field.key)
+                .filter(key => options.includePersonalData || (key !== "mood" && key !== "notes")),
+            ...customKeys,
+        ];
+
+        const rows = checkins.map(({ checkin, displayName }) => {
+            const values = answersByCheckin.get(checkin.id);
+            const row: Record<string, WellnessAnswerValue | null> = {
+                date: formatLocalDate(checkin.checkinDate, timezone),
+                membershipId: checkin.membershipId,
+                athlete: displayName,
+            };
+            for (const field of STANDARD_WELLNESS_FIELDS) {
+                row[field.key] = checkin[field.key];
+            }
+            for (const key of customKeys) {
+                row[key] = values?.get(key) ?? null;
+            }
+            return columns.map(column => row[column] ?? null);
+        });
+
+        return {
+            from: range.startDate,
+            to: range.endDate,
+            columns,
+            rows,
+        };
+    }
+
+    /**
+     * Export as CSV text (RFC 4180 quoting)
+     */
+    static async exportWellnessResponsesCsv(
+        boxId: string,
+        options: {
+            from: string;
+            to: string;
+            includePersonalData?: boolean;
+        }
+    ) {
+        const { columns, rows } = await this.exportWellnessResponses(boxId, options);
+        const toCell = (value: WellnessAnswerValue | null) => {
+            const text = value === null ? "" : String(value);
+            return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+
+        return [columns, ...rows].map(row => row.map(toCell).join(",")).join("\n");
+    }
+
+    /**
+     * The type each question key was published with in any earlier version
+     */
+    private static async getPublishedQuestionTypes(boxId: string): Promise<Map<string, WellnessQuestionType>> {
+        const rows = await db
+            .selectDistinct({ key: boxWellnessQuestions.key, type: boxWellnessQuestions.type })
+            .from(boxWellnessQuestions)
+            .innerJoin(boxWellnessQuestionnaires, eq(boxWellnessQuestions.questionnaireId, boxWellnessQuestionnaires.id))
+            .where(eq(boxWellnessQuestionnaires.boxId, boxId));
+
+        return new Map(rows.map(row => [row.key, row.type]));
+    }
+
+    private static async getLatestQuestion(boxId: string, questionKey: string): Promise<QuestionRow> {
+        const [row] = await db
+            .select({ question: boxWellnessQuestions })
+            .from(boxWellnessQuestions)
+            .innerJoin(boxWellnessQuestionnaires, eq(boxWellnessQuestions.questionnaireId, boxWellnessQuestionnaires.id))
+            .where(and(
+                eq(boxWellnessQuestionnaires.boxId, boxId),
+                eq(boxWellnessQuestions.key, questionKey)
+            ))
+            .orderBy(desc(boxWellnessQuestionnaires.version))
+            .limit(1);
+
+        if (!row) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Question not found" });
+        }
+
+        return row.question;
+    }
+}
@@ -5,5 +5,12 @@ export { BoxInviteService } from './box-invite-service';
 export { BoxQrCodeService } from './box-qrcode-service';
 export { BoxApprovalService } from './box-approval-service';
 export { BoxCoachService } from './box-coach-service';
+export { BoxCoachAssignmentService } from './box-coach-assignment-service';
+export { BoxAlertRoutingService } from './box-alert-routing-service';
 export { BoxVideoService } from './box-video-service';
+export { BoxScheduleService } from './box-schedule-service';
+export { BoxProgrammingService } from './box-programming-service';
+export { BoxCompetitionService } from './box-competition-service';
+export { BoxChallengeService } from './box-challenge-service';
+export { BoxWellnessQuestionnaireService } from './box-wellness-questionnaire-service';
 export { BoxService } from './box-service';
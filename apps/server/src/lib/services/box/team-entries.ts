@@ -0,0 +1,138 @@
+﻿// lib/services/box/team-entries.ts - Entries, teams and status changes shared by competitions and challenges
+import { db } from "@/db";
+import { and, count, eq, isNull, ne } from "drizzle-orm";
+import type { AnyPgColumn, PgTable } from "drizzle-orm/pg-core";
+import { TRPCError } from "@trpc/server";
+
+/**
+ * Where an event (a competition or a challenge) keeps its teams and the athletes entered in it.
+ * Column names differ per table (competitionId vs challengeId), so the columns are passed in.
+ */
+export interface TeamEntryTables<TEntries extends PgTable> {
+    teams: PgTable;
+    teamId: AnyPgColumn;
+    teamEventId: AnyPgColumn;
+    teamName: AnyPgColumn;
+    entries: TEntries;
+    entryEventId: AnyPgColumn;
+    entryTeamId: AnyPgColumn;
+    entryMembershipId: AnyPgColumn;
+    entryWithdrawnAt: AnyPgColumn;
+    notEnteredMessage: string;
+    // Insert a team; the event column name differs per table
+    createTeam: (eventId: string, name: string, captainMembershipId: string) => Promise<string>;
+}
+
+/**
+ * An athlete's active (not withdrawn) entry in an event
+ */
+export async function getActiveEntry<TEntries extends PgTable>(
+    tables: TeamEntryTables<TEntries>,
+    eventId: string,
+    membershipId: string
+): Promise<TEntries["$inferSelect"]> {
+    const [entry] = await db
+        .select()
+        .from(tables.entries as PgTable)
+        .where(and(
+            eq(tables.entryEventId, eventId),
+            eq(tables.entryMembershipId, membershipId),
+            isNull(tables.entryWithdrawnAt)
+        ))
+        .limit(1);
+
+    if (!entry) {
+        throw new TRPCError({ code: "FORBIDDEN", message: tables.notEnteredMessage });
+    }
+
+    return entry as TEntries["$inferSelect"];
+}
+
+/**
+ * Team for an athlete entering a team event: join `teamId` if it has room, or create
+ * `teamName` with the athlete as captain
+ */
+export async function resolveTeam<TEntries extends PgTable>(
+    tables: TeamEntryTables<TEntries>,
+    event: { id: string; teamSize: number | null },
+    membershipId: string,
+    options: { teamId?: string; teamName?: string }
+): Promise<string> {
+    if (options.teamId) {
+        const [team] = await db
+            .select({ id: tables.teamId })
+            .from(tables.teams)
+            .where(and(
+                eq(tables.teamId, options.teamId),
+                eq(tables.teamEventId, event.id)
+            ))
+            .limit(1);
+
+        if (!team) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Team not found" });
+        }
+
+        const [{ memberCount }] = await db
+            .select({ memberCount: count() })
+            .from(tables.entries as PgTable)
+            .where(and(
+                eq(tables.entryTeamId, options.teamId),
+                ne(tables.entryMembershipId, membershipId),
+                isNull(tables.entryWithdrawnAt)
+            ));
+
+        if (event.teamSize && memberCount >= event.teamSize) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Team is full" });
+        }
+
+        return options.teamId;
+    }
+
+    const teamName = options.teamName?.trim();
+    if (!teamName) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Choose a team to join or name a new team" });
+    }
+
+    const [existing] = await db
+        .select({ id: tables.teamId })
+        .from(tables.teams)
+        .where(and(
+            eq(tables.teamEventId, event.id),
+            eq(tables.teamName, teamName)
+        ))
+        .limit(1);
+
+    if (existing) {
+        throw new TRPCError({ code: "CONFLICT", message: "A team with this name already exists" });
+    }
+
+    return tables.createTeam(event.id, teamName, membershipId);
+}
+
+/**
+ * Move an event from one of the `from` statuses to `to`. `update` applies the change guarded
+ * on the status still being one of `from`, so a concurrent change surfaces as a CONFLICT
+ * instead of being overwritten.
+ */
+export async function transitionStatus<TStatus extends string, TRow extends { status: TStatus }>(
+    label: string,
+    current: TRow,
+    from: TStatus[],
+    to: TStatus,
+    update: () => Promise<TRow | undefined>
+): Promise<TRow> {
+    if (!from.includes(current.status)) {
+        throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `${label} can't move from ${current.status} to ${to}`
+        });
+    }
+
+    const updated = await update();
+
+    if (!updated) {
+        throw new TRPCError({ code: "CONFLICT", message: `${label} status changed, please retry` });
+    }
+
+    return updated;
+}
@@ -1,4 +1,19 @@
-﻿import {boxes} from "@/db/schema";
+﻿import {boxes, classInstances} from "@/db/schema";
+import {
+    alertRoutingStrategyEnum,
+    alertTypeEnum,
+    challengeCategoryEnum,
+    challengeStatusEnum,
+    classTypeEnum,
+    coachAssignmentRoleEnum,
+    competitionFormatEnum,
+    competitionStatusEnum,
+    programmedWorkoutStatusEnum,
+    reservationStatusEnum,
+    riskLevelEnum,
+    workoutPartTypeEnum,
+    workoutScoringTypeEnum
+} from "@/db/schema/enums";
 
 export type BoxRole = "owner" | "head_coach" | "coach" | "athlete";
 
@@ -102,3 +117,154 @@ export interface InterventionInsight {
     lastInteractionDate: Date | null;
     suggestedActions: string[];
 }
+
+export type ClassType = typeof classTypeEnum.enumValues[number];
+export type ReservationStatus = typeof reservationStatusEnum.enumValues[number];
+export type ClassInstance = typeof classInstances.$inferSelect;
+
+export interface ClassScheduleEntry extends ClassInstance {
+    coachName: string | null;
+    reservedCount: number;
+    waitlistCount: number;
+    spotsRemaining: number;
+    reservationStatus: ReservationStatus | null;
+}
+
+/**
+ * Reservation policy stored under `scheduling` in the boxes.settings JSON
+ */
+export interface BoxSchedulingPolicy {
+    lateCancelWindowMinutes: number; // Cancelling closer than this to class start is a late cancel
+    noShowGraceMinutes: number; // Unclaimed reservations become no-shows this long after class start
+    waitlistEnabled: boolean;
+    maxWaitlistSize: number;
+    violationAlertThreshold: number; // Late cancels + no-shows that raise an athlete alert
+    violationLookbackDays: number;
+}
+
+export type ProgrammedWorkoutStatus = typeof programmedWorkoutStatusEnum.enumValues[number];
+export type WorkoutPartType = typeof workoutPartTypeEnum.enumValues[number];
+export type WorkoutScoringType = typeof workoutScoringTypeEnum.enumValues[number];
+
+export interface ProgrammedMovementInput {
+    movementId: string;
+    prescribedReps?: number;
+    prescribedSets?: number;
+    prescribedLoad?: number;
+    prescribedPercentage?: number; // % of 1RM
+    prescribedCalories?: number;
+    prescribedDistance?: number;
+    unit?: string;
+    scaledLoad?: number;
+    scaledNotes?: string;
+    notes?: string;
+}
+
+/**
+ * One part of a programmed workout. Parts and movements are ordered as given.
+ */
+export interface ProgrammedWorkoutPartInput {
+    partType: WorkoutPartType;
+    title: string;
+    description?: string;
+    scoringType?: WorkoutScoringType;
+    timeCapSeconds?: number;
+    rounds?: number;
+    benchmarkId?: string;
+    movements?: ProgrammedMovementInput[];
+}
+
+export type CompetitionStatus = typeof competitionStatusEnum.enumValues[number];
+export type CompetitionFormat = typeof competitionFormatEnum.enumValues[number];
+
+/**
+ * A competition event. The benchmark must be an Open (category "open") benchmark WOD.
+ */
+export interface CompetitionEventInput {
+    benchmarkId: string;
+    name?: string; // Defaults to the benchmark name
+    timeCapSeconds?: number;
+    opensAt?: Date;
+    closesAt?: Date;
+}
+
+export interface CompetitionStanding {
+    entrantId: string; // Registration id (individual) or team id
+    name: string;
+    membershipIds: string[];
+    scaled: boolean;
+    place: number;
+    totalPoints: number;
+    events: Array<{
+        eventId: string;
+        place: number | null; // null when no validated score
+        points: number;
+        score: string | null;
+    }>;
+}
+
+export type ChallengeStatus = typeof challengeStatusEnum.enumValues[number];
+export type ChallengeCategory = typeof challengeCategoryEnum.enumValues[number];
+
+/**
+ * A habit on a challenge's daily checklist, e.g. "Protein with every meal" for 2 points
+ */
+export interface ChallengeHabitInput {
+    name: string;
+    description?: string;
+    points: number;
+}
+
+export interface ChallengeStanding {
+    entrantId: string; // Participant id (individual) or team id
+    name: string;
+    membershipIds: string[];
+    place: number;
+    totalPoints: number;
+    score: number; // Total points (individual) or average points per member (team)
+    completionPercent: number; // Share of the points available so far
+}
+
+export type CoachAssignmentRole = typeof coachAssignmentRoleEnum.enumValues[number];
+
+export interface CoachCaseload {
+    coachMembershipId: string;
+    coachName: string;
+    role: BoxRole;
+    caseloadLimit: number | null;
+    primaryAthletes: number;
+    secondaryAthletes: number;
+    atRiskAthletes: number; // Primary athletes whose latest risk level is high or critical
+    avgRiskScore: number | null;
+    utilization: number | null; // primaryAthletes / caseloadLimit
+}
+
+/**
+ * A suggested primary coach change. fromCoachMembershipId is null for an athlete who
+ * has no primary coach yet.
+ */
+export interface CaseloadRebalanceSuggestion {
+    athleteMembershipId: string;
+    athleteName: string;
+    riskLevel: string | null;
+    riskScore: number | null;
+    fromCoachMembershipId: string | null;
+    toCoachMembershipId: string;
+    reason: string;
+}
+
+export type AlertRoutingStrategy = typeof alertRoutingStrategyEnum.enumValues[number];
+
+/**
+ * A box's alert routing rule. alertType/minSeverity narrow which alerts it matches (null
+ * matches any); targetRole limits the candidate coaches for every strategy except assigned_coach.
+ */
+export interface AlertRoutingRuleInput {
+    name: string;
+    priority?: number;
+    alertType?: typeof alertTypeEnum.enumValues[number] | null;
+    minSeverity?: typeof riskLevelEnum.enumValues[number] | null;
+    strategy: AlertRoutingStrategy;
+    targetRole?: BoxRole | null;
+    isActive?: boolean;
+}
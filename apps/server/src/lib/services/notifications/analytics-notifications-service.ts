@@ -19,6 +19,7 @@ import {
     mvInterventionEffectiveness
 } from "@/db/schema/views";
 import { eq, and, desc, gte, count, sql, inArray } from "drizzle-orm";
+import { getBoxTimezone, getPeriodRange } from "@/lib/dates";
 
 export interface AnalyticsNotificationContext {
     coach: {
@@ -287,7 +288,7 @@ export class AnalyticsNotificationService {
                 alerts: wellnessData.alerts,
                 overallTrend: trendDirection,
             },
-            deduplicationKey: `wellness_insights_${coachId}_${this.getWeekIdentifier()}`,
+            deduplicationKey: `wellness_insights_${coachId}_${await this.getWeekIdentifier(boxId)}`,
         });
     }
 
@@ -476,7 +477,7 @@ export class AnalyticsNotificationService {
                 recommendations: trendData.recommendations,
                 overallTrend,
             },
-            deduplicationKey: `box_wellness_trends_${ownerId}_${this.getMonthIdentifier()}`,
+            deduplicationKey: `box_wellness_trends_${ownerId}_${await this.getMonthIdentifier(boxId)}`,
         });
     }
 
@@ -785,7 +786,7 @@ export class AnalyticsNotificationService {
                 criticalThreshold: retentionData.criticalThreshold,
                 recommendations: retentionData.recommendations,
             },
-            deduplicationKey: `retention_insights_${ownerId}_${this.getMonthIdentifier()}`,
+            deduplicationKey: `retention_insights_${ownerId}_${await this.getMonthIdentifier(boxId)}`,
         });
     }
 
@@ -965,7 +966,7 @@ export class AnalyticsNotificationService {
                 topAchievements: performanceData.topAchievements,
                 improvementAreas: performanceData.improvementAreas,
             },
-            deduplicationKey: `coach_performance_${coachId}_${this.getMonthIdentifier()}`,
+            deduplicationKey: `coach_performance_${coachId}_${await this.getMonthIdentifier(boxId)}`,
         });
     }
 
@@ -1172,9 +1173,9 @@ export class AnalyticsNotificationService {
                 highlights: digestData.highlights,
                 priorities: digestData.priorities,
                 insights: digestData.insights,
-                weekIdentifier: this.getWeekIdentifier(),
+                weekIdentifier: await this.getWeekIdentifier(boxId),
             },
-            deduplicationKey: `weekly_digest_${recipientId}_${this.getWeekIdentifier()}`,
+            deduplicationKey: `weekly_digest_${recipientId}_${await this.getWeekIdentifier(boxId)}`,
         });
     }
 
@@ -1435,19 +1436,15 @@ export class AnalyticsNotificationService {
     /**
      * Helper method to get week identifier for deduplication
      */
-    private getWeekIdentifier(): string {
-        const now = new Date();
-        const startOfWeek = new Date(now);
-        startOfWeek.setDate(now.getDate() - now.getDay()); // Sunday
-        return startOfWeek.toISOString().split('T')[0];
+    private async getWeekIdentifier(boxId: string): Promise<string> {
+        return getPeriodRange("weekly", await getBoxTimezone(boxId)).startDate; // Sunday, box-local
     }
 
     /**
      * Helper method to get month identifier for deduplication
      */
-    private getMonthIdentifier(): string {
-        const now = new Date();
-        return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+    private async getMonthIdentifier(boxId: string): Promise<string> {
+        return getPeriodRange("monthly", await getBoxTimezone(boxId)).startDate.slice(0, 7);
     }
 
     /**
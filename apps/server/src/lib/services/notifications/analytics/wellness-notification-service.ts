@@ -4,6 +4,7 @@ import {boxes, boxMemberships} from "@/db/schema";
 import type {AnalyticsNotificationContext} from "@/lib/services/notifications/analytics-notifications-service";
 import {db} from "@/db";
 import {and, eq, inArray} from "drizzle-orm";
+import { getBoxTimezone, getPeriodRange } from "@/lib/dates";
 
 export interface WellnessCrisisAlert {
     membershipId: string;
@@ -228,7 +229,7 @@ export class WellnessNotificationService {
                 alerts: wellnessData.alerts,
                 overallTrend: trendDirection,
             },
-            deduplicationKey: `wellness_insights_${coachId}_${this.getWeekIdentifier()}`,
+            deduplicationKey: `wellness_insights_${coachId}_${await this.getWeekIdentifier(boxId)}`,
         });
     }
 
@@ -417,7 +418,7 @@ export class WellnessNotificationService {
                 recommendations: trendData.recommendations,
                 overallTrend,
             },
-            deduplicationKey: `box_wellness_trends_${ownerId}_${this.getMonthIdentifier()}`,
+            deduplicationKey: `box_wellness_trends_${ownerId}_${await this.getMonthIdentifier(boxId)}`,
         });
     }
 
@@ -514,18 +515,14 @@ export class WellnessNotificationService {
     /**
      * Helper method to get month identifier for deduplication
      */
-    private getMonthIdentifier(): string {
-        const now = new Date();
-        return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+    private async getMonthIdentifier(boxId: string): Promise<string> {
+        return getPeriodRange("monthly", await getBoxTimezone(boxId)).startDate.slice(0, 7);
     }
 
     /**
      * Helper method to get week identifier for deduplication
      */
-    private getWeekIdentifier(): string {
-        const now = new Date();
-        const startOfWeek = new Date(now);
-        startOfWeek.setDate(now.getDate() - now.getDay()); // Sunday
-        return startOfWeek.toISOString().split('T')[0];
+    private async getWeekIdentifier(boxId: string): Promise<string> {
+        return getPeriodRange("weekly", await getBoxTimezone(boxId)).startDate; // Sunday, box-local
     }
 }
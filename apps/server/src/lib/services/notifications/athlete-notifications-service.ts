@@ -14,6 +14,7 @@ import {
     benchmarkWods
 } from "@/db/schema";
 import { eq, and, desc, gte, count, sql } from "drizzle-orm";
+import { getBoxTimezone, getPeriodRange } from "@/lib/dates";
 
 export interface AthleteNotificationContext {
     athlete: {
@@ -320,7 +321,7 @@ export class AthleteNotificationService {
                 improvements: progressData.improvements,
                 nextGoals: progressData.nextGoals,
             },
-            deduplicationKey: `weekly_report_${athleteId}_${this.getWeekIdentifier()}`,
+            deduplicationKey: `weekly_report_${athleteId}_${await this.getWeekIdentifier(boxId)}`,
         });
     }
 
@@ -589,11 +590,8 @@ export class AthleteNotificationService {
     /**
      * Helper method to get week identifier for deduplication
      */
-    private getWeekIdentifier(): string {
-        const now = new Date();
-        const startOfWeek = new Date(now);
-        startOfWeek.setDate(now.getDate() - now.getDay()); // Sunday
-        return startOfWeek.toISOString().split('T')[0];
+    private async getWeekIdentifier(boxId: string): Promise<string> {
+        return getPeriodRange("weekly", await getBoxTimezone(boxId)).startDate; // Sunday, box-local
     }
 
     /**
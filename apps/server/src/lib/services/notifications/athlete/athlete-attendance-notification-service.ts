@@ -1,6 +1,6 @@
 ﻿// lib/services/notifications/athlete/athlete-attendance-notification-service.ts
 import { db } from "@/db";
-import { wodAttendance, boxMemberships } from "@/db/schema";
+import { wodAttendance, boxMemberships, classReservations } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { NotificationService } from "@/lib/services/notifications";
 
@@ -167,6 +167,51 @@ export class AthleteAttendanceNotificationService {
         return notifications;
     }
 
+    /**
+     * Notify an athlete that they were promoted from a class waitlist
+     */
+    async sendWaitlistPromotionNotification(reservationId: string) {
+        const reservation = await db.query.classReservations.findFirst({
+            where: eq(classReservations.id, reservationId),
+            with: {
+                classInstance: true,
+                membership: {
+                    with: {
+                        user: true
+                    }
+                }
+            }
+        });
+
+        if (!reservation) return null;
+
+        const { classInstance } = reservation;
+
+        const notification = await this.notificationService.createNotification({
+            boxId: reservation.boxId,
+            userId: reservation.membership.user.id,
+            membershipId: reservation.membershipId,
+            type: "class_waitlist_promoted",
+            category: "engagement",
+            priority: "high",
+            title: `🎟️ You're in: ${classInstance.name}`,
+            message: `A spot opened up and you've been moved from the waitlist into ${classInstance.name}. Cancel if you can no longer make it so the next athlete can take your spot.`,
+            actionUrl: `/athlete/schedule`,
+            actionLabel: "View Reservation",
+            channels: ["in_app", "email"],
+            data: {
+                reservationId,
+                classInstanceId: classInstance.id,
+                className: classInstance.name,
+                startsAt: classInstance.startsAt,
+                promotedAt: reservation.promotedAt
+            },
+            deduplicationKey: `waitlist_promoted_${reservationId}`,
+        });
+
+        return notification;
+    }
+
     /**
      * Helper to get attendance with details
      */
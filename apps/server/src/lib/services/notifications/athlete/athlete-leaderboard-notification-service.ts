@@ -3,6 +3,7 @@ import { db } from "@/db";
 import { leaderboardEntries, leaderboards, boxMemberships } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { NotificationService } from "@/lib/services/notifications";
+import { ALL_DIVISION, formatDivisionLabel } from "@/lib/services/athlete/leaderboard-divisions";
 
 export class AthleteLeaderboardNotificationService {
     private notificationService: NotificationService;
@@ -18,6 +19,8 @@ export class AthleteLeaderboardNotificationService {
         const entry = await this.getEntryWithDetails(entryId);
         if (!entry) return null;
 
+        const boardName = this.getBoardName(entry);
+
         const notification = await this.notificationService.createNotification({
             boxId: entry.leaderboard.boxId,
             userId: entry.membership.user.id,
@@ -25,14 +28,15 @@ export class AthleteLeaderboardNotificationService {
             type: "leaderboard_addition",
             category: "engagement",
             priority: "normal",
-            title: `🏆 Added to Leaderboard: ${entry.leaderboard.name}`,
-            message: `You've been added to the ${entry.leaderboard.name} leaderboard in position #${entry.rank}`,
+            title: `🏆 Added to Leaderboard: ${boardName}`,
+            message: `You've been added to the ${boardName} leaderboard in position #${entry.rank}`,
             actionUrl: `/leaderboards/${entry.leaderboard.id}`,
             actionLabel: "View Leaderboard",
             channels: ["in_app"],
             data: {
                 leaderboardId: entry.leaderboardId,
                 leaderboardName: entry.leaderboard.name,
+                division: entry.division,
                 position: entry.rank,
                 value: entry.value,
                 achievedAt: entry.achievedAt
@@ -51,6 +55,7 @@ export class AthleteLeaderboardNotificationService {
         if (!entry || entry.rank === previousRank) return null;
 
         const improved = entry.rank < previousRank;
+        const boardName = this.getBoardName(entry);
 
         const notification = await this.notificationService.createNotification({
             boxId: entry.leaderboard.boxId,
@@ -60,17 +65,18 @@ export class AthleteLeaderboardNotificationService {
             category: "engagement",
             priority: "normal",
             title: improved ?
-                `⬆️ Moved Up on ${entry.leaderboard.name}` :
-                `⬇️ Moved Down on ${entry.leaderboard.name}`,
+                `⬆️ Moved Up on ${boardName}` :
+                `⬇️ Moved Down on ${boardName}`,
             message: improved ?
-                `You moved from #${previousRank} to #${entry.rank} on the ${entry.leaderboard.name} leaderboard!` :
-                `You moved from #${previousRank} to #${entry.rank} on the ${entry.leaderboard.name} leaderboard.`,
+                `You moved from #${previousRank} to #${entry.rank} on the ${boardName} leaderboard!` :
+                `You moved from #${previousRank} to #${entry.rank} on the ${boardName} leaderboard.`,
             actionUrl: `/leaderboards/${entry.leaderboard.id}`,
             actionLabel: "View Leaderboard",
             channels: ["in_app"],
             data: {
                 leaderboardId: entry.leaderboardId,
                 leaderboardName: entry.leaderboard.name,
+                division: entry.division,
                 previousRank,
                 newRank: entry.rank,
                 improved,
@@ -187,6 +193,15 @@ export class AthleteLeaderboardNotificationService {
         });
     }
 
+    /**
+     * Helper to name the board, including the division for division entries
+     */
+    private getBoardName(entry: { division: string; leaderboard: { name: string } }) {
+        return entry.division === ALL_DIVISION
+            ? entry.leaderboard.name
+            : `${entry.leaderboard.name} (${formatDivisionLabel(entry.division)})`;
+    }
+
     /**
      * Helper to get position suffix
      */
@@ -47,6 +47,10 @@ export class AthleteNotificationsOrchestrator {
         return await this.attendanceService.sendAbsencePatternNotification(athleteId, pattern, missedSessions);
     }
 
+    async sendWaitlistPromotionNotification(reservationId: string) {
+        return await this.attendanceService.sendWaitlistPromotionNotification(reservationId);
+    }
+
     // Badge-related notifications
     async sendNewBadgeNotification(badgeId: string) {
         return await this.badgeService.sendNewBadgeNotification(badgeId);
@@ -6,6 +6,7 @@ import {
 } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { NotificationService } from "@/lib/services/notifications";
+import { formatLocalDate } from "@/lib/dates";
 
 export class AthleteWellnessNotificationService {
     private notificationService: NotificationService;
@@ -121,7 +122,7 @@ export class AthleteWellnessNotificationService {
                 remindedAt: new Date(),
                 boxName: athlete.box.name
             },
-            deduplicationKey: `wellness_reminder_${athleteId}_${new Date().toISOString().split('T')[0]}`,
+            deduplicationKey: `wellness_reminder_${athleteId}_${formatLocalDate(new Date(), athlete.box.timezone)}`,
         });
 
         return notification;
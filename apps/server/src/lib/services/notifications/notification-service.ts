@@ -9,6 +9,7 @@ import {
 import { eq, and, or, gte, lte, count, sql } from "drizzle-orm";
 import { BrevoService } from "./brevo-service";
 import { QueueService } from "./queue-service";
+import { getLocalDayRange, getLocalHour } from "@/lib/dates";
 import type {
     NotificationCreateParams,
     NotificationBatch,
@@ -431,10 +432,9 @@ export class NotificationService {
             return { allowed: false, reason: `${notification.category}_disabled` };
         }
 
-        // Check quiet hours
+        // Check quiet hours (in the user's timezone)
         if (preferences.quietHoursStart !== null && preferences.quietHoursEnd !== null) {
-            const now = new Date();
-            const currentHour = now.getHours();
+            const currentHour = getLocalHour(new Date(), preferences.timezone);
 
             if (this.isInQuietHours(currentHour, preferences.quietHoursStart, preferences.quietHoursEnd)) {
                 return { allowed: false, reason: "quiet_hours" };
@@ -443,8 +443,7 @@ export class NotificationService {
 
         // Check daily notification limit
         if (preferences.maxDailyNotifications) {
-            const todayStart = new Date();
-            todayStart.setHours(0, 0, 0, 0);
+            const { start: todayStart } = getLocalDayRange(new Date(), preferences.timezone);
 
             const [todayCount] = await db
                 .select({ count: count() })
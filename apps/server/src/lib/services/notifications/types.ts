@@ -102,6 +102,7 @@ export type NotificationType =
     | "community_recognition"
     | "progress_report_weekly"
     | "goal_approaching"
+    | "class_waitlist_promoted"
 
     // System & Admin
     | "system_alert"
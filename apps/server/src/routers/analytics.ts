@@ -14,6 +14,30 @@ import {eq, and, gte, lt, or, SQL, sql, desc} from "drizzle-orm";
 import { AnalyticsService } from "@/lib/services/analytics-service";
 import { BillingService } from "@/lib/services/billing-service";
 import {TRPCError} from "@trpc/server";
+import { addDays, formatLocalDate, getBoxTimezone, getLocalDayOfWeek } from "@/lib/dates";
+
+const riskComponentNumbers = z.object({
+    attendance: z.number().min(0).max(1),
+    wellness: z.number().min(0).max(1),
+    performance: z.number().min(0).max(1),
+    engagement: z.number().min(0).max(1),
+}).partial();
+
+const riskScoringConfigSchema = z.object({
+    weights: riskComponentNumbers.optional(),
+    enabled: z.object({
+        attendance: z.boolean(),
+        wellness: z.boolean(),
+        performance: z.boolean(),
+        engagement: z.boolean(),
+    }).partial().optional(),
+    thresholds: z.object({
+        medium: z.number().min(1).max(98),
+        high: z.number().min(2).max(99),
+        critical: z.number().min(3).max(100),
+    }).partial().optional(),
+    missingDataStrategy: z.enum(["neutral", "exclude", "penalize"]).optional(),
+});
 
 export const analyticsRouter = router({
     // Get at-risk athletes (coaches and above only)
@@ -285,26 +309,22 @@ export const analyticsRouter = router({
                 {} as Record<string, number>
             );
 
-            // Group by time period for trend analysis
+            // Group by time period (box-local days) for trend analysis
+            const timezone = await getBoxTimezone(input.boxId);
             const timeGrouped: Record<string, Record<string, number>> = usageData.reduce(
                 (acc, event) => {
                     let key: string;
-                    const date = new Date(event.createdAt);
+                    const day = formatLocalDate(new Date(event.createdAt), timezone);
 
                     switch (input.groupBy) {
-                        case "week": {
-                            const weekStart = new Date(date);
-                            weekStart.setDate(date.getDate() - date.getDay()); // Sunday start
-                            key = weekStart.toISOString().split("T")[0];
+                        case "week":
+                            key = addDays(day, -getLocalDayOfWeek(day)); // Sunday start
                             break;
-                        }
                         case "month":
-                            key = `${date.getFullYear()}-${String(
-                                date.getMonth() + 1
-                            ).padStart(2, "0")}`;
+                            key = day.slice(0, 7);
                             break;
                         default:
-                            key = date.toISOString().split("T")[0];
+                            key = day;
                     }
 
                     if (!acc[key]) acc[key] = {};
@@ -515,4 +535,174 @@ export const analyticsRouter = router({
                 throw new Error("Failed to refresh analytics views");
             }
         }),
+
+    // Registered churn models and which one scores the box (owners only)
+    getChurnModels: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            return AnalyticsService.listChurnModels(input.boxId);
+        }),
+
+    // Backtest precision/recall/AUC per model version (owners only)
+    getChurnModelPerformance: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+            modelName: z.string().optional(),
+            modelVersion: z.string().optional(),
+            limit: z.number().min(1).max(200).default(50),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            const { boxId, ...options } = input;
+            return AnalyticsService.getChurnModelPerformance(boxId, options);
+        }),
+
+    // Promote a churn model to active, run it in shadow or retire it (owners only)
+    setChurnModelStatus: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+            versionId: z.uuid(),
+            status: z.enum(["active", "shadow", "retired"]),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            return AnalyticsService.setChurnModelStatus(
+                input.boxId,
+                input.versionId,
+                input.status
+            );
+        }),
+
+    // Replay history against the box's churn models now rather than at month end (owners only)
+    runChurnModelBacktest: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+            horizonDays: z.number().int().min(14).max(180).default(60),
+            snapshots: z.number().int().min(2).max(12).default(6),
+            snapshotIntervalDays: z.number().int().min(7).max(90).default(30),
+            threshold: z.number().min(0.05).max(0.95).default(0.5),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            const { boxId, ...options } = input;
+            return AnalyticsService.runChurnModelBacktest(boxId, options);
+        }),
+
+    // Current risk scoring configuration (owners only)
+    getRiskScoringConfig: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            return AnalyticsService.getRiskScoringConfig(input.boxId);
+        }),
+
+    // Saved risk scoring configuration versions (owners only)
+    getRiskScoringConfigHistory: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            return AnalyticsService.getRiskScoringConfigHistory(input.boxId);
+        }),
+
+    // Save a new risk scoring configuration version (owners only)
+    updateRiskScoringConfig: protectedProcedure
+        .input(riskScoringConfigSchema.extend({
+            boxId: z.string(),
+            notes: z.string().max(500).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireBoxOwner(ctx, input.boxId);
+
+            const { boxId, ...config } = input;
+            return AnalyticsService.updateRiskScoringConfig(boxId, membership.id, config);
+        }),
+
+    // Re-score the roster under a proposed configuration without saving it (owners only)
+    previewRiskScoringConfig: protectedProcedure
+        .input(riskScoringConfigSchema.extend({
+            boxId: z.string(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            const { boxId, ...config } = input;
+            return AnalyticsService.previewRiskScoringConfig(boxId, config);
+        }),
+
+    // Kaplan-Meier retention curves by join cohort or onboarding segment (owners only)
+    getRetentionCurves: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+            groupBy: z.enum(["cohort", "onboarding_attendance", "onboarding_wellness"]).default("cohort"),
+            horizonMonths: z.number().int().min(1).max(36).default(12),
+            minGroupSize: z.number().int().min(1).max(100).default(5),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            const { boxId, ...options } = input;
+            return AnalyticsService.getRetentionCurves(boxId, options);
+        }),
+
+    // Expected remaining tenure per active athlete (coaches and above)
+    getMemberTenureForecasts: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+            horizonMonths: z.number().int().min(1).max(60).default(24),
+            limit: z.number().min(1).max(500).default(50),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, ...options } = input;
+            return AnalyticsService.getMemberTenureForecasts(boxId, options);
+        }),
+
+    // Projected active members in 3, 6 and 12 months (owners only)
+    getActiveMemberProjection: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            return AnalyticsService.getActiveMemberProjection(input.boxId);
+        }),
+
+    // Monthly revenue, churn losses, intervention savings and CLV (owners only)
+    getFinancialImpact: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+            months: z.number().int().min(1).max(36).default(12),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            return AnalyticsService.getFinancialImpact(input.boxId, input.months);
+        }),
+
+    // Recalculate financial impact for a month, the last complete one by default (owners only)
+    recalculateFinancialImpact: protectedProcedure
+        .input(z.object({
+            boxId: z.string(),
+            month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format").optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireBoxOwner(ctx, input.boxId);
+
+            return AnalyticsService.recalculateFinancialImpact(input.boxId, input.month);
+        }),
 });
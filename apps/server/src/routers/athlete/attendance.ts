@@ -10,15 +10,18 @@ import {
 } from "@/lib/permissions";
 import { TRPCError } from "@trpc/server";
 
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
 export const athleteAttendanceRouter = router({
     // Record WOD attendance
     recordAttendance: protectedProcedure
         .input(z.object({
             boxId: z.uuid(),
             athleteId: z.uuid().optional(),
-            wodName: z.string().min(1).max(100),
+            programmedWorkoutId: z.uuid().optional(), // Preferred over wodName when the workout was programmed
+            wodName: z.string().min(1).max(100).optional(),
             wodTime: z.date(),
-            attendanceDate: z.date(),
+            attendanceDate: localDateSchema, // The box's calendar day
             status: z.enum(["attended", "no_show", "late_cancel", "excused"]),
             checkedInAt: z.date().optional(),
             durationMinutes: z.number().positive().optional(),
@@ -41,6 +44,7 @@ export const athleteAttendanceRouter = router({
                 input.boxId,
                 targetAthleteId,
                 {
+                    programmedWorkoutId: input.programmedWorkoutId,
                     wodName: input.wodName,
                     wodTime: input.wodTime,
                     attendanceDate: input.attendanceDate,
@@ -80,18 +84,11 @@ export const athleteAttendanceRouter = router({
                 }
             }
 
-            // This would require implementing getAttendanceHistory in AthleteService
-            // For now, return placeholder
-            return {
-                attendance: [],
-                summary: {
-                    totalSessions: 0,
-                    attendedSessions: 0,
-                    attendanceRate: 0,
-                    noShows: 0,
-                    lateCancellations: 0,
-                }
-            };
+            return AthleteService.getAttendanceHistory(input.boxId, targetAthleteId, {
+                days: input.days,
+                status: input.status,
+                limit: input.limit,
+            });
         }),
 
     // Get attendance analytics
@@ -134,9 +131,10 @@ export const athleteAttendanceRouter = router({
     bulkRecordAttendance: protectedProcedure
         .input(z.object({
             boxId: z.uuid(),
-            wodName: z.string().min(1).max(100),
+            programmedWorkoutId: z.uuid().optional(), // Preferred over wodName when the workout was programmed
+            wodName: z.string().min(1).max(100).optional(),
             wodTime: z.date(),
-            attendanceDate: z.date(),
+            attendanceDate: localDateSchema, // The box's calendar day
             attendanceRecords: z.array(z.object({
                 athleteId: z.uuid(),
                 status: z.enum(["attended", "no_show", "late_cancel", "excused"]),
@@ -159,6 +157,7 @@ export const athleteAttendanceRouter = router({
                         input.boxId,
                         record.athleteId,
                         {
+                            programmedWorkoutId: input.programmedWorkoutId,
                             wodName: input.wodName,
                             wodTime: input.wodTime,
                             attendanceDate: input.attendanceDate,
@@ -4,14 +4,20 @@ import { athletePerformanceRouter } from "./performance";
 import { athleteWellnessRouter } from "./wellness";
 import { athleteProfileRouter } from "./profile";
 import { athleteAttendanceRouter } from "./attendance";
+import { athleteReservationsRouter } from "./reservations";
 import { athleteLeaderboardsRouter } from "./leaderboards";
 import { athleteVideosRouter } from "./videos";
+import { athleteInjuriesRouter } from "./injuries";
+import { athleteWearablesRouter } from "./wearables";
 
 export const athleteRouter = router({
     performance: athletePerformanceRouter,
     wellness: athleteWellnessRouter,
     profile: athleteProfileRouter,
     attendance: athleteAttendanceRouter,
+    reservations: athleteReservationsRouter,
     leaderboards: athleteLeaderboardsRouter,
     videos: athleteVideosRouter,
+    injuries: athleteInjuriesRouter,
+    wearables: athleteWearablesRouter,
 });
@@ -0,0 +1,298 @@
+﻿// routers/athlete/injuries.ts - Injury cases and return-to-training plans
+import { router, protectedProcedure } from "@/lib/trpc";
+import { z } from "zod";
+import { AthleteService } from "@/lib/services/athlete/athlete-service";
+import {
+    requireBoxMembership,
+    checkSubscriptionLimits,
+    canAccessAthleteData,
+    requireCoachOrAbove
+} from "@/lib/permissions";
+import { TRPCError } from "@trpc/server";
+
+const bodyPartSchema = z.enum([
+    "neck", "shoulders", "chest", "upper_back", "lower_back", "abs",
+    "biceps", "triceps", "forearms", "glutes", "quads", "hamstrings",
+    "calves", "ankles", "knees", "hips", "wrists"
+]);
+
+const injuryStatusSchema = z.enum(["active", "modified_training", "cleared"]);
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const restrictionSchema = z.object({
+    movementId: z.uuid(),
+    notes: z.string().max(200).optional(),
+});
+
+const checkpointSchema = z.object({
+    title: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    targetDate: localDateSchema.optional(),
+});
+
+const INJURY_ERROR_CODES: Record<string, TRPCError["code"]> = {
+    "Athlete not found": "NOT_FOUND",
+    "Coach not found": "BAD_REQUEST",
+    "Injury not found": "NOT_FOUND",
+    "Checkpoint not found": "NOT_FOUND",
+    "Movement not found": "BAD_REQUEST",
+    "An open injury already exists for this body part": "CONFLICT",
+};
+
+function toInjuryError(error: unknown): unknown {
+    if (error instanceof Error && INJURY_ERROR_CODES[error.message]) {
+        return new TRPCError({
+            code: INJURY_ERROR_CODES[error.message],
+            message: error.message
+        });
+    }
+    return error;
+}
+
+export const athleteInjuriesRouter = router({
+    // Open an injury case (athletes for themselves, coaches for any athlete)
+    openInjury: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            bodyPart: bodyPartSchema,
+            onsetDate: localDateSchema,
+            description: z.string().max(1000).optional(),
+            severity: z.number().int().min(1).max(10).optional(),
+            notes: z.string().max(1000).optional(),
+            restrictions: z.array(restrictionSchema).max(50).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+            const isStaff = ["owner", "head_coach", "coach"].includes(membership.role);
+
+            if (targetAthleteId !== membership.id && !isStaff) {
+                throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: "Only coaches can open injuries for other athletes"
+                });
+            }
+
+            // Restrictions are part of the coach-owned plan
+            if (input.restrictions?.length && !isStaff) {
+                throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: "Only coaches can restrict movements"
+                });
+            }
+
+            const data = {
+                bodyPart: input.bodyPart,
+                onsetDate: input.onsetDate,
+                description: input.description,
+                severity: input.severity,
+                notes: input.notes,
+            };
+            try {
+                return await AthleteService.openInjury(input.boxId, targetAthleteId, membership.id, data, input.restrictions);
+            } catch (error) {
+                throw toInjuryError(error);
+            }
+        }),
+
+    // Get an injury with restrictions and the return-to-training plan
+    getInjury: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            injuryId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+
+            const injury = await AthleteService.getInjury(input.boxId, input.injuryId)
+                .catch(error => { throw toInjuryError(error); });
+
+            // Permission check
+            if (injury.membershipId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, injury.membershipId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' injuries"
+                    });
+                }
+            }
+
+            return injury;
+        }),
+
+    // List injuries: your own, an athlete's, or the whole box for coaches
+    listInjuries: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            allAthletes: z.boolean().default(false),
+            statuses: z.array(injuryStatusSchema).optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            if (input.allAthletes) {
+                await requireCoachOrAbove(ctx, input.boxId);
+                return AthleteService.listInjuries(input.boxId, { statuses: input.statuses });
+            }
+
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' injuries"
+                    });
+                }
+            }
+
+            return AthleteService.listInjuries(input.boxId, {
+                athleteId: targetAthleteId,
+                statuses: input.statuses,
+            });
+        }),
+
+    // Update injury details (coaches and above)
+    updateInjury: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            injuryId: z.uuid(),
+            bodyPart: bodyPartSchema.optional(),
+            onsetDate: localDateSchema.optional(),
+            description: z.string().max(1000).optional(),
+            severity: z.number().int().min(1).max(10).optional(),
+            notes: z.string().max(1000).optional(),
+            coachMembershipId: z.uuid().nullable().optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, injuryId, ...updates } = input;
+            try {
+                return await AthleteService.updateInjury(boxId, injuryId, updates);
+            } catch (error) {
+                throw toInjuryError(error);
+            }
+        }),
+
+    // Move an injury to active, modified training or cleared (coaches and above)
+    updateStatus: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            injuryId: z.uuid(),
+            status: injuryStatusSchema,
+            notes: z.string().max(1000).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+
+            try {
+                return await AthleteService.updateInjuryStatus(
+                    input.boxId,
+                    input.injuryId,
+                    membership.id,
+                    input.status,
+                    input.notes
+                );
+            } catch (error) {
+                throw toInjuryError(error);
+            }
+        }),
+
+    // Replace the restricted movements (coaches and above)
+    setRestrictions: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            injuryId: z.uuid(),
+            restrictions: z.array(restrictionSchema).max(50),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            try {
+                return await AthleteService.setInjuryRestrictions(input.boxId, input.injuryId, input.restrictions);
+            } catch (error) {
+                throw toInjuryError(error);
+            }
+        }),
+
+    // Replace the return-to-training plan; the coach setting it owns the case
+    setReturnPlan: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            injuryId: z.uuid(),
+            checkpoints: z.array(checkpointSchema).max(20),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+
+            try {
+                return await AthleteService.setInjuryReturnPlan(
+                    input.boxId,
+                    input.injuryId,
+                    membership.id,
+                    input.checkpoints
+                );
+            } catch (error) {
+                throw toInjuryError(error);
+            }
+        }),
+
+    // Mark a check-point as reached (coaches and above)
+    completeCheckpoint: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            checkpointId: z.uuid(),
+            completed: z.boolean().default(true),
+            notes: z.string().max(500).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+
+            try {
+                return await AthleteService.completeInjuryCheckpoint(
+                    input.boxId,
+                    input.checkpointId,
+                    membership.id,
+                    { completed: input.completed, notes: input.notes }
+                );
+            } catch (error) {
+                throw toInjuryError(error);
+            }
+        }),
+
+    // Body parts with recurring pain and no open case: yours, an athlete's, or the whole box for coaches
+    getInjurySuggestions: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            allAthletes: z.boolean().default(false),
+        }))
+        .query(async ({ ctx, input }) => {
+            if (input.allAthletes) {
+                await requireCoachOrAbove(ctx, input.boxId);
+                return AthleteService.getInjurySuggestions(input.boxId);
+            }
+
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' injuries"
+                    });
+                }
+            }
+
+            return AthleteService.getInjurySuggestions(input.boxId, targetAthleteId);
+        }),
+});
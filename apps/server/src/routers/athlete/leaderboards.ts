@@ -7,6 +7,12 @@ import {
     checkSubscriptionLimits,
     requireCoachOrAbove
 } from "@/lib/permissions";
+import { AGE_GROUP_KEYS } from "@/lib/services/athlete/leaderboard-divisions";
+
+const divisionSchema = z.object({
+    sex: z.enum(["male", "female"]).optional(),
+    ageGroup: z.enum(AGE_GROUP_KEYS).optional(),
+});
 
 export const athleteLeaderboardsRouter = router({
     // Create a new leaderboard
@@ -21,6 +27,7 @@ export const athleteLeaderboardsRouter = router({
             periodStart: z.date().optional(),
             periodEnd: z.date().optional(),
             maxEntries: z.number().min(1).max(100).default(10),
+            relativeScoring: z.enum(["none", "bodyweight_ratio", "sinclair", "wilks"]).default("none"),
         }))
         .mutation(async ({ ctx, input }) => {
             await checkSubscriptionLimits(input.boxId);
@@ -38,6 +45,7 @@ export const athleteLeaderboardsRouter = router({
                     periodStart: input.periodStart,
                     periodEnd: input.periodEnd,
                     maxEntries: input.maxEntries,
+                    relativeScoring: input.relativeScoring,
                 }
             );
         }),
@@ -53,14 +61,15 @@ export const athleteLeaderboardsRouter = router({
             return AthleteService.getBoxLeaderboards(input.boxId);
         }),
 
-    // Get a specific leaderboard with entries
+    // Get a specific leaderboard with entries, optionally for one division
     getLeaderboard: protectedProcedure
         .input(z.object({
             leaderboardId: z.uuid(),
+            division: divisionSchema.optional(),
         }))
         .query(async ({ ctx, input }) => {
             // Basic auth check - specific box access will be validated by the service
-            const leaderboard = await AthleteService.getLeaderboard(input.leaderboardId);
+            const leaderboard = await AthleteService.getLeaderboard(input.leaderboardId, input.division);
 
             if (leaderboard.length === 0) {
                 throw new Error("Leaderboard not found");
@@ -69,7 +78,28 @@ export const athleteLeaderboardsRouter = router({
             // Check if user has access to this leaderboard's box
             await requireBoxMembership(ctx, leaderboard[0].leaderboards.boxId);
 
-            return leaderboard;
+            const unit = await AthleteService.getPreferredWeightUnit(
+                ctx.session.user.id,
+                leaderboard[0].leaderboards.boxId
+            );
+            return AthleteService.toLeaderboardDisplayUnit(leaderboard, unit);
+        }),
+
+    // Get the divisions that have entries on a leaderboard
+    getLeaderboardDivisions: protectedProcedure
+        .input(z.object({
+            leaderboardId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const leaderboard = await AthleteService.getLeaderboard(input.leaderboardId);
+
+            if (leaderboard.length === 0) {
+                throw new Error("Leaderboard not found");
+            }
+
+            await requireBoxMembership(ctx, leaderboard[0].leaderboards.boxId);
+
+            return AthleteService.getLeaderboardDivisions(input.leaderboardId);
         }),
 
     // Add entry to leaderboard
@@ -132,6 +162,24 @@ export const athleteLeaderboardsRouter = router({
             return AthleteService.removeLeaderboardEntry(input.entryId);
         }),
 
+    // Rebuild a pr, benchmark or streak leaderboard from current results
+    recomputeLeaderboard: protectedProcedure
+        .input(z.object({
+            leaderboardId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const leaderboard = await AthleteService.getLeaderboard(input.leaderboardId);
+
+            if (leaderboard.length === 0) {
+                throw new Error("Leaderboard not found");
+            }
+
+            // Check if user has coach permissions
+            await requireCoachOrAbove(ctx, leaderboard[0].leaderboards.boxId);
+
+            return AthleteService.recomputeLeaderboard(input.leaderboardId);
+        }),
+
     // Deactivate leaderboard
     deactivateLeaderboard: protectedProcedure
         .input(z.object({
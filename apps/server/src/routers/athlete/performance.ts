@@ -27,6 +27,23 @@ const bodyPartSchema = z.enum([
     "calves", "ankles", "knees", "hips", "wrists"
 ]);
 
+// AthletePercentageService errors
+const PERCENTAGE_ERROR_CODES: Record<string, TRPCError["code"]> = {
+    "Programmed workout not found": "NOT_FOUND",
+    "Athlete not found": "NOT_FOUND",
+    "Movement not found": "BAD_REQUEST", // A prescription names a movement that doesn't exist
+};
+
+function toPercentageError(error: unknown): unknown {
+    if (error instanceof Error && PERCENTAGE_ERROR_CODES[error.message]) {
+        return new TRPCError({
+            code: PERCENTAGE_ERROR_CODES[error.message],
+            message: error.message
+        });
+    }
+    return error;
+}
+
 export const athletePerformanceRouter = router({
     // Enhanced PR logging with video support and better validation
     logPr: protectedProcedure
@@ -108,27 +125,139 @@ export const athletePerformanceRouter = router({
                 ? Math.ceil((new Date().getTime() - input.dateFrom.getTime()) / (1000 * 60 * 60 * 24))
                 : 365;
 
+            const unit = await AthleteService.getPreferredWeightUnit(ctx.session.user.id, input.boxId);
+
             return AthleteService.getRecentPRs(
                 input.boxId,
                 targetAthleteId,
                 days,
-                input.limit
+                input.limit,
+                true,
+                unit
             );
         }),
 
+    // Rep-max table (1-10 reps) with best actual and estimated loads per movement
+    getRepMaxTable: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            movementId: z.uuid().optional(),
+            formula: z.enum(["epley", "brzycki", "average"]).default("average"),
+            unit: z.enum(["kg", "lbs"]).optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' PRs"
+                    });
+                }
+            }
+
+            return AthleteService.getRepMaxTable(input.boxId, targetAthleteId, {
+                movementId: input.movementId,
+                formula: input.formula,
+                unit: input.unit ?? await AthleteService.getPreferredWeightUnit(ctx.session.user.id, input.boxId),
+            });
+        }),
+
+    // Resolve percentage prescriptions ("5x3 @ 80%") into loads from the athlete's 1RMs
+    calculatePercentageLoads: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            prescriptions: z.array(z.object({
+                movementId: z.uuid(),
+                percentage: z.number().positive().max(150),
+                reps: z.number().int().min(1).max(100).optional(),
+                sets: z.number().int().min(1).max(100).optional(),
+            })).min(1).max(30),
+            unit: z.enum(["kg", "lbs"]).optional(),
+            preferEstimated: z.boolean().default(false),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' PRs"
+                    });
+                }
+            }
+
+            try {
+                return await AthleteService.calculatePercentageLoads(input.boxId, targetAthleteId, input.prescriptions, {
+                    unit: input.unit,
+                    preferEstimated: input.preferEstimated,
+                });
+            } catch (error) {
+                throw toPercentageError(error);
+            }
+        }),
+
+    // Percentage loads for a published programmed workout
+    getWorkoutLoads: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            programmedWorkoutId: z.uuid(),
+            unit: z.enum(["kg", "lbs"]).optional(),
+            preferEstimated: z.boolean().default(false),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' PRs"
+                    });
+                }
+            }
+
+            try {
+                return await AthleteService.getWorkoutLoads(input.boxId, targetAthleteId, input.programmedWorkoutId, {
+                    unit: input.unit,
+                    preferEstimated: input.preferEstimated,
+                });
+            } catch (error) {
+                throw toPercentageError(error);
+            }
+        }),
+
     // Log benchmark WOD result with enhanced validation
     logBenchmarkResult: protectedProcedure
         .input(z.object({
             boxId: z.uuid(),
             athleteId: z.uuid().optional(),
             benchmarkId: z.uuid(),
-            value: z.number().positive(),
-            valueType: z.enum(["time", "rounds_reps", "weight"]),
+            // Either the score as entered ("4:32", "12+7", "CAP+15") or a canonical value with its type
+            score: z.string().min(1).max(50).optional(),
+            timeCapSeconds: z.number().int().positive().optional(),
+            value: z.number().positive().optional(),
+            valueType: z.enum(["time", "rounds_reps", "weight"]).optional(),
             scaled: z.boolean().default(false),
             scalingNotes: z.string().max(500).optional(),
             notes: z.string().max(500).optional(),
             coachNotes: z.string().max(500).optional(),
             achievedAt: z.date().optional(),
+            programmedWorkoutId: z.uuid().optional(),
         }))
         .mutation(async ({ ctx, input }) => {
             await checkSubscriptionLimits(input.boxId);
@@ -146,20 +275,67 @@ export const athletePerformanceRouter = router({
                 }
             }
 
-            return AthleteService.logBenchmarkResult(
-                input.boxId,
-                targetAthleteId,
-                input.benchmarkId,
-                input.value,
-                input.valueType,
-                {
-                    scaled: input.scaled,
-                    scalingNotes: input.scalingNotes,
-                    notes: input.notes,
-                    coachNotes: input.coachNotes,
-                    achievedAt: input.achievedAt,
+            let result: Parameters<typeof AthleteService.logBenchmarkResult>[3];
+            if (input.score) {
+                result = { score: input.score, timeCapSeconds: input.timeCapSeconds };
+            } else if (input.value !== undefined && input.valueType) {
+                result = { value: input.value, valueType: input.valueType };
+            } else {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: "Either a score or a value with its type is required"
+                });
+            }
+
+            try {
+                return await AthleteService.logBenchmarkResult(
+                    input.boxId,
+                    targetAthleteId,
+                    input.benchmarkId,
+                    result,
+                    {
+                        scaled: input.scaled,
+                        scalingNotes: input.scalingNotes,
+                        notes: input.notes,
+                        coachNotes: input.coachNotes,
+                        achievedAt: input.achievedAt,
+                        programmedWorkoutId: input.programmedWorkoutId,
+                    }
+                );
+            } catch (error) {
+                if (error instanceof Error && error.message === "Benchmark not found") {
+                    throw new TRPCError({ code: "NOT_FOUND", message: error.message });
                 }
-            );
+                if (error instanceof Error && error.message === "Score doesn't match the benchmark scoring type") {
+                    throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+                }
+                throw error;
+            }
+        }),
+
+    // Get all attempts at a benchmark with best result and progression
+    getBenchmarkHistory: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            benchmarkId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' benchmarks"
+                    });
+                }
+            }
+
+            return AthleteService.getBenchmarkHistory(input.boxId, targetAthleteId, input.benchmarkId);
         }),
 
     // Get benchmark results
@@ -192,11 +368,14 @@ export const athletePerformanceRouter = router({
                 ? Math.ceil((new Date().getTime() - input.dateFrom.getTime()) / (1000 * 60 * 60 * 24))
                 : 365;
 
+            const unit = await AthleteService.getPreferredWeightUnit(ctx.session.user.id, input.boxId);
+
             return AthleteService.getRecentBenchmarks(
                 input.boxId,
                 targetAthleteId,
                 days,
-                input.limit
+                input.limit,
+                unit
             );
         }),
 
@@ -40,6 +40,8 @@ export const athleteProfileRouter = router({
                 }
             }
 
+            const unit = await AthleteService.getPreferredWeightUnit(ctx.session.user.id, input.boxId);
+
             // Get profile data in parallel for better performance
             const [
                 profile,
@@ -57,6 +59,7 @@ export const athleteProfileRouter = router({
                         includeStats: input.includeStats,
                         days: input.days,
                         limit: input.limit,
+                        unit,
                     }
                 ),
                 input.includeStats ?
@@ -197,6 +200,8 @@ export const athleteProfileRouter = router({
                 }
             }
 
+            const unit = await AthleteService.getPreferredWeightUnit(ctx.session.user.id, input.boxId);
+
             // Get various activity types in parallel
             const [
                 prs,
@@ -206,10 +211,10 @@ export const athleteProfileRouter = router({
                 interventions
             ] = await Promise.all([
                 input.activityTypes?.includes("pr") !== false
-                    ? AthleteService.getRecentPRs(input.boxId, targetAthleteId, input.days, 50)
+                    ? AthleteService.getRecentPRs(input.boxId, targetAthleteId, input.days, 50, true, unit)
                     : Promise.resolve([]),
                 input.activityTypes?.includes("benchmark") !== false
-                    ? AthleteService.getRecentBenchmarks(input.boxId, targetAthleteId, input.days, 50)
+                    ? AthleteService.getRecentBenchmarks(input.boxId, targetAthleteId, input.days, 50, unit)
                     : Promise.resolve([]),
                 input.activityTypes?.includes("checkin") !== false
                     ? AthleteService.getWellnessCheckins(input.boxId, targetAthleteId, input.days, 50)
@@ -250,12 +255,12 @@ export const athleteProfileRouter = router({
             });
 
             // Add benchmarks
-            benchmarks.forEach(({ benchmark, benchmarkWod }) => {
+            benchmarks.forEach(({ benchmark, benchmarkWod, display }) => {
                 activities.push({
                     type: "benchmark",
                     date: benchmark.achievedAt,
                     title: `Benchmark: ${benchmarkWod.name}`,
-                    description: `${benchmark.value} ${benchmark.valueType}${benchmark.scaled ? " (Scaled)" : ""}`,
+                    description: `${display}${benchmark.scaled ? " (Scaled)" : ""}`,
                     metadata: {
                         benchmark: benchmarkWod.name,
                         value: benchmark.value,
@@ -354,6 +359,7 @@ export const athleteProfileRouter = router({
                 "engagement_score",
                 "risk_score"
             ])).optional(),
+            movementIds: z.array(z.uuid()).max(10).optional(), // Compare 1RMs for these lifts
         }))
         .query(async ({ ctx, input }) => {
             const membership = await requireBoxMembership(ctx, input.boxId);
@@ -372,21 +378,25 @@ export const athleteProfileRouter = router({
                 quarter: 90
             }[input.period];
 
+            // Every athlete's lifts in the viewer's unit so they compare like with like
+            const unit = await AthleteService.getPreferredWeightUnit(ctx.session.user.id, input.boxId);
+
             // Get stats for all athletes
             const athleteStats = await Promise.all(
                 input.athleteIds.map(async (athleteId) => {
-                    const [stats, profile, engagement, riskData] = await Promise.all([
+                    const [stats, profile, engagement, riskData, lifts] = await Promise.all([
                         AthleteService.getAthleteStats(input.boxId, athleteId, days),
                         AthleteService.getAthleteProfile(
                             input.boxId,
                             athleteId,
-                            { includeStats: false, days, limit: 1 }
+                            { includeStats: false, days, limit: 1, unit }
                         ),
                         AnalyticsService.calculateAthleteEngagementScore(input.boxId, athleteId, days),
                         AnalyticsService.calculateRetentionRisk(input.boxId, athleteId, {
                             lookbackDays: days,
                             includeRecommendations: false
-                        })
+                        }),
+                        AthleteService.getOneRepMaxes(input.boxId, athleteId, input.movementIds ?? [], unit)
                     ]);
 
                     return {
@@ -394,7 +404,8 @@ export const athleteProfileRouter = router({
                         profile: profile?.profile,
                         stats,
                         engagement: engagement.score,
-                        riskScore: riskData.riskScore
+                        riskScore: riskData.riskScore,
+                        lifts: Object.fromEntries(lifts)
                     };
                 })
             );
@@ -402,6 +413,7 @@ export const athleteProfileRouter = router({
             return {
                 comparison: athleteStats,
                 period: input.period,
+                unit,
                 metrics: input.metrics || [
                     "checkin_rate",
                     "wellness_score",
@@ -455,6 +467,45 @@ export const athleteProfileRouter = router({
             );
         }),
 
+    // Update sex and date of birth (used for leaderboard divisions)
+    updateDivisionProfile: protectedProcedure
+        .input(z.object({
+            sex: z.enum(["male", "female"]).nullable().optional(),
+            dateOfBirth: z.date().refine(date => date <= new Date(), "Date of birth can't be in the future").nullable().optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            return AthleteService.updateDivisionProfile(ctx.session.user.id, input);
+        }),
+
+    // Set the unit loads are shown in
+    updateUnitPreference: protectedProcedure
+        .input(z.object({
+            preferredWeightUnit: z.enum(["kg", "lbs"]).nullable(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            return AthleteService.updateUnitPreference(ctx.session.user.id, input.preferredWeightUnit);
+        }),
+
+    // Log a bodyweight measurement
+    logBodyweight: protectedProcedure
+        .input(z.object({
+            weight: z.number().positive().max(1000),
+            unit: z.enum(["kg", "lbs"]).default("kg"),
+            recordedAt: z.date().optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            return AthleteService.logBodyweight(ctx.session.user.id, input);
+        }),
+
+    // Get own bodyweight history
+    getBodyweightHistory: protectedProcedure
+        .input(z.object({
+            limit: z.number().min(1).max(365).default(50),
+        }))
+        .query(async ({ ctx, input }) => {
+            return AthleteService.getBodyweightHistory(ctx.session.user.id, input.limit);
+        }),
+
     // Get athlete wellness trends
     getWellnessTrends: protectedProcedure
         .input(z.object({
@@ -0,0 +1,126 @@
+// routers/athlete/reservations.ts - Class reservations and check-in
+import { router, protectedProcedure } from "@/lib/trpc";
+import { z } from "zod";
+import { AthleteService } from "@/lib/services/athlete/athlete-service";
+import {
+    requireBoxMembership,
+    checkSubscriptionLimits,
+    canAccessAthleteData,
+    requireCoachOrAbove
+} from "@/lib/permissions";
+import { TRPCError } from "@trpc/server";
+
+const RESERVATION_ERROR_CODES: Record<string, TRPCError["code"]> = {
+    "Class not found": "NOT_FOUND",
+    "Reservation not found": "NOT_FOUND",
+    "Athlete not found": "NOT_FOUND",
+    "Class is full": "CONFLICT",
+    "You already have a reservation for this class": "CONFLICT",
+    "You are already on the waitlist for this class": "CONFLICT",
+    "You have already checked in to this class": "CONFLICT",
+    "This class can't be booked again": "CONFLICT",
+    "Class has already started": "BAD_REQUEST",
+    "Class is not open for reservations": "BAD_REQUEST",
+    "Check-in is only open from one hour before class until it ends": "BAD_REQUEST",
+    "Self check-in has closed for this class, ask your coach to check you in": "BAD_REQUEST",
+    "You are still on the waitlist for this class": "BAD_REQUEST",
+};
+
+function toReservationError(error: unknown): unknown {
+    if (error instanceof Error && RESERVATION_ERROR_CODES[error.message]) {
+        return new TRPCError({
+            code: RESERVATION_ERROR_CODES[error.message],
+            message: error.message
+        });
+    }
+    return error;
+}
+
+export const athleteReservationsRouter = router({
+    // Reserve a spot in a class (joins the waitlist when the class is full)
+    reserveClass: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            classInstanceId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireBoxMembership(ctx, input.boxId);
+
+            try {
+                return await AthleteService.reserveClass(input.boxId, membership.id, input.classInstanceId);
+            } catch (error) {
+                throw toReservationError(error);
+            }
+        }),
+
+    // Cancel a reservation or leave the waitlist (late cancels are recorded when inside the cancel window)
+    cancelReservation: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            classInstanceId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+
+            try {
+                return await AthleteService.cancelReservation(input.boxId, membership.id, input.classInstanceId);
+            } catch (error) {
+                throw toReservationError(error);
+            }
+        }),
+
+    // Check in to a class (coaches can check in other athletes)
+    checkIn: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            classInstanceId: z.uuid(),
+            athleteId: z.uuid().optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Only coaches can check in other athletes
+            if (input.athleteId && input.athleteId !== membership.id) {
+                await requireCoachOrAbove(ctx, input.boxId);
+            }
+
+            try {
+                return await AthleteService.checkInToClass(
+                    input.boxId,
+                    targetAthleteId,
+                    input.classInstanceId,
+                    membership.id
+                );
+            } catch (error) {
+                throw toReservationError(error);
+            }
+        }),
+
+    // Get upcoming reservations
+    getUpcomingReservations: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            limit: z.number().min(1).max(50).default(20),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' reservations"
+                    });
+                }
+            }
+
+            return AthleteService.getUpcomingReservations(input.boxId, targetAthleteId, input.limit);
+        }),
+});
@@ -0,0 +1,103 @@
+﻿// routers/athlete/wearables.ts - Sleep, resting HR and HRV imported from device exports
+import { router, protectedProcedure } from "@/lib/trpc";
+import { z } from "zod";
+import { AthleteService } from "@/lib/services/athlete/athlete-service";
+import { MAX_WEARABLE_FILE_BYTES } from "@/lib/services/athlete/wearable-import";
+import {
+    requireBoxMembership,
+    checkSubscriptionLimits,
+    canAccessAthleteData
+} from "@/lib/permissions";
+import { TRPCError } from "@trpc/server";
+
+const WEARABLE_ERROR_CODES: Record<string, TRPCError["code"]> = {
+    "Athlete not found": "NOT_FOUND",
+    "File is empty": "BAD_REQUEST",
+    "File is too large": "PAYLOAD_TOO_LARGE",
+    "Unsupported file type, expected a FIT, GPX or CSV export": "BAD_REQUEST",
+    "No sleep, resting heart rate or HRV data found in file": "BAD_REQUEST",
+};
+
+function toWearableError(error: unknown): unknown {
+    if (error instanceof Error) {
+        const code = WEARABLE_ERROR_CODES[error.message] ??
+            (error.message.startsWith("Could not read file") ? "BAD_REQUEST" : undefined);
+        if (code) {
+            return new TRPCError({ code, message: error.message });
+        }
+    }
+    return error;
+}
+
+export const athleteWearablesRouter = router({
+    // Import your own FIT/GPX file or sleep/HRV app CSV export
+    importFile: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            fileName: z.string().min(1).max(255),
+            format: z.enum(["fit", "gpx", "csv"]).optional(),
+            content: z.base64().max(Math.ceil(MAX_WEARABLE_FILE_BYTES / 3) * 4),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireBoxMembership(ctx, input.boxId);
+
+            try {
+                return await AthleteService.importWearableFile(input.boxId, membership.id, {
+                    fileName: input.fileName,
+                    format: input.format,
+                    content: input.content,
+                });
+            } catch (error) {
+                throw toWearableError(error);
+            }
+        }),
+
+    // Nightly sleep duration, resting HR and HRV
+    getMetrics: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            days: z.number().min(1).max(365).default(30),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' wearable data"
+                    });
+                }
+            }
+
+            return AthleteService.getWearableMetrics(input.boxId, targetAthleteId, input.days);
+        }),
+
+    // Recent imports, failed ones included
+    getImports: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            limit: z.number().min(1).max(100).default(20),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' wearable data"
+                    });
+                }
+            }
+
+            return AthleteService.getWearableImports(input.boxId, targetAthleteId, input.limit);
+        }),
+});
@@ -5,7 +5,8 @@ import { AthleteService } from "@/lib/services/athlete/athlete-service";
 import {
     requireBoxMembership,
     checkSubscriptionLimits,
-    canAccessAthleteData
+    canAccessAthleteData,
+    requireCoachOrAbove
 } from "@/lib/permissions";
 import { TRPCError } from "@trpc/server";
 
@@ -29,6 +30,14 @@ const painEntrySchema = z.object({
     notes: z.string().max(200).optional(),
 });
 
+// Custom questionnaire answers that don't match the box's active questions
+function isAnswerValidationError(message: string): boolean {
+    return message === "Question is not part of the current questionnaire" ||
+        message === "Each question can only be answered once" ||
+        message.startsWith("Answer to ") ||
+        message.startsWith("Please answer: ");
+}
+
 export const athleteWellnessRouter = router({
     // Enhanced wellness check-in with normalized soreness/pain tracking
     submitWellnessCheckin: protectedProcedure
@@ -51,17 +60,30 @@ export const athleteWellnessRouter = router({
             // Normalized tracking arrays
             sorenessEntries: z.array(sorenessEntrySchema).optional(),
             painEntries: z.array(painEntrySchema).optional(),
+
+            // Answers to the box's custom questionnaire
+            answers: z.array(z.object({
+                questionId: z.uuid(),
+                value: z.union([z.number(), z.boolean(), z.string().max(500)]),
+            })).max(50).optional(),
         }))
         .mutation(async ({ ctx, input }) => {
             await checkSubscriptionLimits(input.boxId);
             const membership = await requireBoxMembership(ctx, input.boxId);
 
             try {
-                return await AthleteService.submitWellnessCheckin(
+                const checkin = await AthleteService.submitWellnessCheckin(
                     input.boxId,
                     membership.id,
                     input
                 );
+
+                // Recurring pain at the same body part suggests opening an injury case
+                const injurySuggestions = input.painEntries?.length
+                    ? await AthleteService.getInjurySuggestions(input.boxId, membership.id)
+                    : [];
+
+                return { ...checkin, injurySuggestions };
             } catch (error) {
                 if (error instanceof Error && error.message === "You have already checked in today") {
                     throw new TRPCError({
@@ -69,6 +91,9 @@ export const athleteWellnessRouter = router({
                         message: "You have already checked in today"
                     });
                 }
+                if (error instanceof Error && isAnswerValidationError(error.message)) {
+                    throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+                }
                 throw error;
             }
         }),
@@ -158,8 +183,9 @@ export const athleteWellnessRouter = router({
             notes: z.string().max(500).optional(),
             coachNotes: z.string().max(500).optional(),
 
-            // WOD reference
-            wodName: z.string().min(1).max(100),
+            // WOD reference - the programmed workout is preferred, free text covers ad hoc workouts
+            programmedWorkoutId: z.uuid().optional(),
+            wodName: z.string().min(1).max(100).optional(),
 
             // Normalized pain tracking during workout
             painEntries: z.array(painEntrySchema).optional(),
@@ -168,11 +194,18 @@ export const athleteWellnessRouter = router({
             await checkSubscriptionLimits(input.boxId);
             const membership = await requireBoxMembership(ctx, input.boxId);
 
-            return AthleteService.submitWodFeedback(
+            const feedback = await AthleteService.submitWodFeedback(
                 input.boxId,
                 membership.id,
                 input
             );
+
+            // Recurring pain at the same body part suggests opening an injury case
+            const injurySuggestions = input.painEntries?.length
+                ? await AthleteService.getInjurySuggestions(input.boxId, membership.id)
+                : [];
+
+            return { ...feedback, injurySuggestions };
         }),
 
     // Get WOD feedback history
@@ -200,17 +233,98 @@ export const athleteWellnessRouter = router({
                 }
             }
 
-            // This would require implementing getWodFeedback in AthleteService
-            // For now, return placeholder
-            return {
-                feedback: [],
-                analytics: input.includeAnalytics ? {
-                    avgRpe: 0,
-                    avgDifficulty: 0,
-                    avgEnjoyment: 0,
-                    completionRate: 0,
-                } : undefined
-            };
+            return AthleteService.getWodFeedback(input.boxId, targetAthleteId, {
+                days: input.days,
+                limit: input.limit,
+                includePainData: input.includePainData,
+                includeAnalytics: input.includeAnalytics,
+            });
+        }),
+
+    // Composite readiness (0-100) against the athlete's own baseline, with a recommendation
+    getReadiness: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' readiness"
+                    });
+                }
+            }
+
+            return AthleteService.getReadiness(input.boxId, targetAthleteId, { date: input.date });
+        }),
+
+    // Daily readiness scores over a period
+    getReadinessTrend: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            days: z.number().min(7).max(90).default(30),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' readiness"
+                    });
+                }
+            }
+
+            return AthleteService.getReadinessTrend(input.boxId, targetAthleteId, input.days);
+        }),
+
+    // Session RPE training load: daily load, acute/chronic load, ACWR, monotony and strain
+    getTrainingLoad: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            days: z.number().min(7).max(90).default(28),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const targetAthleteId = input.athleteId || membership.id;
+
+            // Permission check
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' training load"
+                    });
+                }
+            }
+
+            return AthleteService.getTrainingLoad(input.boxId, targetAthleteId, { days: input.days });
+        }),
+
+    // Training load across the box, highest ACWR first (coaches and above)
+    getBoxTrainingLoads: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            zones: z.array(z.enum(["insufficient_data", "undertraining", "optimal", "caution", "danger"])).optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return AthleteService.getBoxTrainingLoads(input.boxId, { zones: input.zones });
         }),
 
     // Update check-in streak (primarily for manual corrections by coaches)
@@ -289,7 +403,7 @@ export const athleteWellnessRouter = router({
             };
         }),
 
-    // Get body part pain/soreness analytics
+    // Body part pain/soreness heatmap with daily severity series
     getBodyPartAnalytics: protectedProcedure
         .input(z.object({
             boxId: z.uuid(),
@@ -312,49 +426,62 @@ export const athleteWellnessRouter = router({
                 }
             }
 
-            const checkins = await AthleteService.getWellnessCheckins(
-                input.boxId,
-                targetAthleteId,
-                input.days,
-                1000 // High limit to get all data
-            );
-
-            // Analyze soreness and pain patterns
-            const bodyPartFrequency: Record<string, { count: number; avgSeverity: number; totalSeverity: number }> = {};
-
-            checkins.forEach(checkin => {
-                const entries = [
-                    ...(input.type !== "pain" ? (checkin as any).sorenessEntries || [] : []),
-                    ...(input.type !== "soreness" ? (checkin as any).painEntries || [] : []),
-                ];
-
-                entries.forEach((entry: any) => {
-                    if (!bodyPartFrequency[entry.bodyPart]) {
-                        bodyPartFrequency[entry.bodyPart] = { count: 0, avgSeverity: 0, totalSeverity: 0 };
-                    }
-                    bodyPartFrequency[entry.bodyPart].count++;
-                    bodyPartFrequency[entry.bodyPart].totalSeverity += entry.severity;
-                    bodyPartFrequency[entry.bodyPart].avgSeverity =
-                        bodyPartFrequency[entry.bodyPart].totalSeverity / bodyPartFrequency[entry.bodyPart].count;
-                });
+            const heatmap = await AthleteService.getBodyPartHeatmap(input.boxId, {
+                athleteId: targetAthleteId,
+                days: input.days,
+                type: input.type,
             });
 
-            // Convert to array and sort by frequency
-            const analytics = Object.entries(bodyPartFrequency)
-                .map(([bodyPart, data]) => ({
-                    bodyPart,
-                    frequency: data.count,
-                    avgSeverity: Math.round(data.avgSeverity * 10) / 10,
-                }))
-                .sort((a, b) => b.frequency - a.frequency);
-
             return {
-                analytics,
-                summary: {
-                    totalReports: Object.values(bodyPartFrequency).reduce((sum, data) => sum + data.count, 0),
-                    uniqueBodyParts: analytics.length,
-                    mostAffectedBodyPart: analytics[0]?.bodyPart || null,
-                },
+                ...heatmap,
+                analytics: heatmap.bodyParts.map(part => ({
+                    bodyPart: part.bodyPart,
+                    frequency: part.reports,
+                    avgSeverity: part.avgSeverity,
+                })),
             };
         }),
+
+    // Box-wide soreness/pain heatmap (coaches and above)
+    getBoxBodyPartHeatmap: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            days: z.number().min(7).max(90).default(30),
+            type: z.enum(["soreness", "pain", "both"]).default("both"),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return AthleteService.getBodyPartHeatmap(input.boxId, { days: input.days, type: input.type });
+        }),
+
+    // Recurring pain after heavy days for a movement category (scope "box" scans every
+    // athlete and is for coaches and above)
+    getPainPatterns: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteId: z.uuid().optional(),
+            scope: z.enum(["athlete", "box"]).default("athlete"),
+            days: z.number().min(14).max(180).default(60),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+
+            if (input.scope === "box") {
+                await requireCoachOrAbove(ctx, input.boxId);
+                return AthleteService.getPainPatterns(input.boxId, { days: input.days });
+            }
+
+            const targetAthleteId = input.athleteId || membership.id;
+            if (input.athleteId && input.athleteId !== membership.id) {
+                const canAccess = await canAccessAthleteData(ctx, input.boxId, input.athleteId);
+                if (!canAccess) {
+                    throw new TRPCError({
+                        code: "FORBIDDEN",
+                        message: "Cannot view other athletes' pain patterns"
+                    });
+                }
+            }
+
+            return AthleteService.getPainPatterns(input.boxId, { athleteId: targetAthleteId, days: input.days });
+        }),
 });
@@ -0,0 +1,141 @@
+﻿// routers/box/alerts.ts
+import { protectedProcedure, router } from "@/lib/trpc";
+import { z } from "zod";
+import {
+    requireBoxRole,
+    requireCoachOrAbove,
+    checkSubscriptionLimits,
+} from "@/lib/permissions";
+import { BoxAlertRoutingService } from "@/lib/services/box";
+
+const alertTypeSchema = z.enum([
+    "declining_performance",
+    "poor_attendance",
+    "negative_wellness",
+    "no_checkin",
+    "checkin_reminder",
+    "injury_risk",
+    "engagement_drop",
+    "churn_risk",
+    "risk_threshold",
+    "wellness_concern",
+    "pr_celebration",
+    "benchmark_improvement",
+    "intervention_needed",
+    "feedback_request",
+    "attendance_policy_violation",
+]);
+
+const routingRuleSchema = z.object({
+    name: z.string().min(1).max(100),
+    priority: z.number().int().min(0).max(10000).optional(),
+    alertType: alertTypeSchema.nullable().optional(),
+    minSeverity: z.enum(["low", "medium", "high", "critical"]).nullable().optional(),
+    strategy: z.enum(["assigned_coach", "role", "round_robin", "least_loaded"]),
+    targetRole: z.enum(["owner", "head_coach", "coach"]).nullable().optional(),
+    isActive: z.boolean().optional(),
+});
+
+export const boxAlertRouter = router({
+    // Routing rules in evaluation order (coaches and above)
+    listRoutingRules: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxAlertRoutingService.listRules(input.boxId);
+        }),
+
+    // Add a routing rule (owners and head coaches)
+    createRoutingRule: protectedProcedure
+        .input(routingRuleSchema.extend({
+            boxId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+
+            const { boxId, ...data } = input;
+            return BoxAlertRoutingService.createRule(boxId, membership.id, data);
+        }),
+
+    // Update a routing rule (owners and head coaches)
+    updateRoutingRule: protectedProcedure
+        .input(routingRuleSchema.partial().extend({
+            boxId: z.uuid(),
+            ruleId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+
+            const { boxId, ruleId, ...updates } = input;
+            return BoxAlertRoutingService.updateRule(boxId, ruleId, updates);
+        }),
+
+    // Delete a routing rule (owners and head coaches)
+    deleteRoutingRule: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            ruleId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+            return BoxAlertRoutingService.deleteRule(input.boxId, input.ruleId);
+        }),
+
+    // Acknowledge an alert (coaches and above)
+    acknowledgeAlert: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            alertId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+            return BoxAlertRoutingService.acknowledgeAlert(input.boxId, input.alertId, membership.id);
+        }),
+
+    // Hand an alert to another coach (coaches and above)
+    reassignAlert: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            alertId: z.uuid(),
+            coachMembershipId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+            return BoxAlertRoutingService.reassignAlert(
+                input.boxId,
+                input.alertId,
+                input.coachMembershipId,
+                membership.id
+            );
+        }),
+
+    // Routing decisions for an alert, or the box's latest (coaches and above)
+    getRoutingHistory: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            alertId: z.uuid().optional(),
+            limit: z.number().int().min(1).max(500).default(100),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, ...options } = input;
+            return BoxAlertRoutingService.getRoutingHistory(boxId, options);
+        }),
+
+    // Alerts routed to a coach and how quickly they responded (owners and head coaches)
+    getCoachMetrics: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            coachMembershipId: z.uuid(),
+            lookbackDays: z.number().int().min(7).max(365).default(30),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+            return BoxAlertRoutingService.getCoachMetrics(input.boxId, input.coachMembershipId, input.lookbackDays);
+        }),
+});
@@ -0,0 +1,163 @@
+﻿// routers/box/challenges.ts
+import { protectedProcedure, router } from "@/lib/trpc";
+import { z } from "zod";
+import {
+    requireBoxMembership,
+    requireCoachOrAbove,
+    checkSubscriptionLimits,
+} from "@/lib/permissions";
+import { BoxChallengeService } from "@/lib/services/box";
+
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const challengeHabitSchema = z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    points: z.number().int().min(1).max(100).default(1),
+});
+
+const challengeParams = z.object({
+    boxId: z.uuid(),
+    challengeId: z.uuid(),
+});
+
+export const boxChallengeRouter = router({
+    // List challenges (athletes don't see drafts)
+    listChallenges: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const isStaff = ["owner", "head_coach", "coach"].includes(membership.role);
+
+            return BoxChallengeService.listChallenges(input.boxId, isStaff);
+        }),
+
+    // Get a challenge with its habit checklist and teams
+    getChallenge: protectedProcedure
+        .input(challengeParams)
+        .query(async ({ ctx, input }) => {
+            await requireBoxMembership(ctx, input.boxId);
+            return BoxChallengeService.getChallenge(input.boxId, input.challengeId);
+        }),
+
+    // Points standings (team scores are average points per member)
+    getStandings: protectedProcedure
+        .input(challengeParams)
+        .query(async ({ ctx, input }) => {
+            await requireBoxMembership(ctx, input.boxId);
+
+            const { challenge, possiblePoints, standings } = await BoxChallengeService.getStandings(
+                input.boxId,
+                input.challengeId
+            );
+            return { challenge, possiblePoints, standings };
+        }),
+
+    // Create a challenge as a draft (coaches and above)
+    createChallenge: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            name: z.string().min(1).max(100),
+            description: z.string().max(2000).optional(),
+            category: z.enum(["nutrition", "hydration", "sleep", "mobility", "mindset", "other"]).default("nutrition"),
+            format: z.enum(["individual", "team"]).default("individual"),
+            teamSize: z.number().int().min(2).max(20).optional(),
+            startDate: localDateSchema,
+            endDate: localDateSchema,
+            completionThresholdPercent: z.number().int().min(1).max(100).optional(),
+            habits: z.array(challengeHabitSchema).min(1).max(20),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, ...data } = input;
+            return BoxChallengeService.createChallenge(boxId, membership.id, data);
+        }),
+
+    // Update a challenge, replacing its habits while it's a draft (coaches and above)
+    updateChallenge: protectedProcedure
+        .input(challengeParams.extend({
+            name: z.string().min(1).max(100).optional(),
+            description: z.string().max(2000).nullable().optional(),
+            startDate: localDateSchema.optional(),
+            endDate: localDateSchema.optional(),
+            completionThresholdPercent: z.number().int().min(1).max(100).optional(),
+            habits: z.array(challengeHabitSchema).min(1).max(20).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, challengeId, ...updates } = input;
+            return BoxChallengeService.updateChallenge(boxId, challengeId, updates);
+        }),
+
+    // Publish the challenge so athletes can join (coaches and above)
+    publishChallenge: protectedProcedure
+        .input(challengeParams)
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxChallengeService.publishChallenge(input.boxId, input.challengeId);
+        }),
+
+    // Cancel the challenge (coaches and above)
+    cancelChallenge: protectedProcedure
+        .input(challengeParams)
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxChallengeService.cancelChallenge(input.boxId, input.challengeId);
+        }),
+
+    // Complete the challenge: final standings, badges and milestones (coaches and above)
+    completeChallenge: protectedProcedure
+        .input(challengeParams)
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxChallengeService.completeChallenge(input.boxId, input.challengeId);
+        }),
+
+    // Join yourself, joining or creating a team for team challenges
+    join: protectedProcedure
+        .input(challengeParams.extend({
+            teamId: z.uuid().optional(),
+            teamName: z.string().min(1).max(50).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+
+            const { boxId, challengeId, ...options } = input;
+            return BoxChallengeService.join(boxId, challengeId, membership.id, options);
+        }),
+
+    // Leave a challenge
+    withdraw: protectedProcedure
+        .input(challengeParams)
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            return BoxChallengeService.withdraw(input.boxId, input.challengeId, membership.id);
+        }),
+
+    // Save your checklist for a day (today by default)
+    logHabits: protectedProcedure
+        .input(challengeParams.extend({
+            date: localDateSchema.optional(),
+            habitIds: z.array(z.uuid()).max(20),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+
+            const { boxId, challengeId, ...data } = input;
+            return BoxChallengeService.logHabits(boxId, challengeId, membership.id, data);
+        }),
+
+    // Your checklist history and points
+    getMyProgress: protectedProcedure
+        .input(challengeParams)
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            return BoxChallengeService.getProgress(input.boxId, input.challengeId, membership.id);
+        }),
+});
@@ -0,0 +1,184 @@
+﻿// routers/box/coaching.ts
+import { protectedProcedure, router } from "@/lib/trpc";
+import { z } from "zod";
+import {
+    requireBoxMembership,
+    requireBoxRole,
+    requireCoachOrAbove,
+    checkSubscriptionLimits,
+} from "@/lib/permissions";
+import { TRPCError } from "@trpc/server";
+import { BoxCoachAssignmentService } from "@/lib/services/box";
+
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const boxCoachingRouter = router({
+    // Assign a coach to an athlete (owners and head coaches)
+    assignCoach: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            coachMembershipId: z.uuid(),
+            athleteMembershipId: z.uuid(),
+            role: z.enum(["primary", "secondary"]).default("primary"),
+            effectiveFrom: localDateSchema.optional(),
+            notes: z.string().max(500).optional(),
+            overrideCaseloadLimit: z.boolean().default(false),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+
+            const { boxId, ...data } = input;
+            return BoxCoachAssignmentService.assignCoach(boxId, membership.id, data);
+        }),
+
+    // End an assignment, today by default (owners and head coaches)
+    endAssignment: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            assignmentId: z.uuid(),
+            effectiveTo: localDateSchema.optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+
+            return BoxCoachAssignmentService.endAssignment(
+                input.boxId,
+                input.assignmentId,
+                membership.id,
+                input.effectiveTo
+            );
+        }),
+
+    // Set or clear a coach's caseload limit (owners and head coaches)
+    setCaseloadLimit: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            coachMembershipId: z.uuid(),
+            caseloadLimit: z.number().int().min(1).max(500).nullable(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+
+            return BoxCoachAssignmentService.setCaseloadLimit(
+                input.boxId,
+                input.coachMembershipId,
+                input.caseloadLimit
+            );
+        }),
+
+    // Caseloads, unassigned athletes and rebalancing suggestions (owners and head coaches)
+    getCaseloadOverview: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+            return BoxCoachAssignmentService.getCaseloadOverview(input.boxId);
+        }),
+
+    // A coach's current athletes (your own, or any coach's for owners and head coaches)
+    getCaseload: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            coachMembershipId: z.uuid().optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+            const coachMembershipId = input.coachMembershipId || membership.id;
+
+            if (coachMembershipId !== membership.id && membership.role === "coach") {
+                throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: "You can only view your own caseload",
+                });
+            }
+
+            return BoxCoachAssignmentService.getCoachCaseload(input.boxId, coachMembershipId);
+        }),
+
+    // An athlete's current coaches (athletes can see their own)
+    getAthleteCoaches: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteMembershipId: z.uuid().optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const athleteMembershipId = input.athleteMembershipId || membership.id;
+
+            if (athleteMembershipId !== membership.id && membership.role === "athlete") {
+                throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: "You can only view your own coaches",
+                });
+            }
+
+            return BoxCoachAssignmentService.getAthleteCoaches(input.boxId, athleteMembershipId);
+        }),
+
+    // Assignment history for an athlete or coach (coaches and above)
+    getAssignmentHistory: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            athleteMembershipId: z.uuid().optional(),
+            coachMembershipId: z.uuid().optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, ...filters } = input;
+            return BoxCoachAssignmentService.getAssignmentHistory(boxId, filters);
+        }),
+
+    // Record leave. Coaches can book their own, owners and head coaches anyone's.
+    addLeave: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            coachMembershipId: z.uuid().optional(),
+            startDate: localDateSchema,
+            endDate: localDateSchema,
+            reason: z.string().max(500).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+            const coachMembershipId = input.coachMembershipId ?? membership.id;
+
+            if (coachMembershipId !== membership.id && membership.role === "coach") {
+                throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: "You can only record your own leave",
+                });
+            }
+
+            const { boxId, startDate, endDate, reason } = input;
+            return BoxCoachAssignmentService.addLeave(boxId, coachMembershipId, membership.id, {
+                startDate,
+                endDate,
+                reason,
+            });
+        }),
+
+    // Current and upcoming leave (coaches and above)
+    listLeave: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            coachMembershipId: z.uuid().optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxCoachAssignmentService.listLeave(input.boxId, input.coachMembershipId);
+        }),
+
+    // Remove a leave period (owners and head coaches)
+    deleteLeave: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            leaveId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+            return BoxCoachAssignmentService.deleteLeave(input.boxId, input.leaveId);
+        }),
+});
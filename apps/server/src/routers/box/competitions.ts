@@ -0,0 +1,180 @@
+﻿// routers/box/competitions.ts
+import { protectedProcedure, router } from "@/lib/trpc";
+import { z } from "zod";
+import {
+    requireBoxMembership,
+    requireCoachOrAbove,
+    checkSubscriptionLimits,
+} from "@/lib/permissions";
+import { BoxCompetitionService } from "@/lib/services/box";
+
+const competitionEventSchema = z.object({
+    benchmarkId: z.uuid(),
+    name: z.string().min(1).max(100).optional(),
+    timeCapSeconds: z.number().int().min(1).max(14400).optional(),
+    opensAt: z.coerce.date().optional(),
+    closesAt: z.coerce.date().optional(),
+});
+
+const competitionParams = z.object({
+    boxId: z.uuid(),
+    competitionId: z.uuid(),
+});
+
+export const boxCompetitionRouter = router({
+    // List competitions (athletes don't see drafts)
+    listCompetitions: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const isStaff = ["owner", "head_coach", "coach"].includes(membership.role);
+
+            return BoxCompetitionService.listCompetitions(input.boxId, isStaff);
+        }),
+
+    // Get a competition with its events and teams
+    getCompetition: protectedProcedure
+        .input(competitionParams)
+        .query(async ({ ctx, input }) => {
+            await requireBoxMembership(ctx, input.boxId);
+            return BoxCompetitionService.getCompetition(input.boxId, input.competitionId);
+        }),
+
+    // Points-per-place standings from validated scores
+    getStandings: protectedProcedure
+        .input(competitionParams)
+        .query(async ({ ctx, input }) => {
+            await requireBoxMembership(ctx, input.boxId);
+            return BoxCompetitionService.getStandings(input.boxId, input.competitionId);
+        }),
+
+    // Create a competition as a draft (coaches and above)
+    createCompetition: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            name: z.string().min(1).max(100),
+            description: z.string().max(2000).optional(),
+            format: z.enum(["individual", "team"]).default("individual"),
+            teamSize: z.number().int().min(2).max(10).optional(),
+            registrationClosesAt: z.coerce.date().optional(),
+            startsAt: z.coerce.date(),
+            endsAt: z.coerce.date(),
+            events: z.array(competitionEventSchema).min(1).max(10),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, ...data } = input;
+            return BoxCompetitionService.createCompetition(boxId, membership.id, data);
+        }),
+
+    // Update a competition, replacing its events when provided (coaches and above)
+    updateCompetition: protectedProcedure
+        .input(competitionParams.extend({
+            name: z.string().min(1).max(100).optional(),
+            description: z.string().max(2000).nullable().optional(),
+            registrationClosesAt: z.coerce.date().nullable().optional(),
+            startsAt: z.coerce.date().optional(),
+            endsAt: z.coerce.date().optional(),
+            events: z.array(competitionEventSchema).min(1).max(10).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, competitionId, ...updates } = input;
+            return BoxCompetitionService.updateCompetition(boxId, competitionId, updates);
+        }),
+
+    // Open registration (coaches and above)
+    openRegistration: protectedProcedure
+        .input(competitionParams)
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxCompetitionService.openRegistration(input.boxId, input.competitionId);
+        }),
+
+    // Start the competition so scores can be submitted (coaches and above)
+    startCompetition: protectedProcedure
+        .input(competitionParams)
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxCompetitionService.startCompetition(input.boxId, input.competitionId);
+        }),
+
+    // Cancel the competition (coaches and above)
+    cancelCompetition: protectedProcedure
+        .input(competitionParams)
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxCompetitionService.cancelCompetition(input.boxId, input.competitionId);
+        }),
+
+    // Complete the competition: final standings, badges and feed post (coaches and above)
+    completeCompetition: protectedProcedure
+        .input(competitionParams)
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxCompetitionService.completeCompetition(input.boxId, input.competitionId);
+        }),
+
+    // Register yourself, joining or creating a team for team competitions
+    register: protectedProcedure
+        .input(competitionParams.extend({
+            scaled: z.boolean().default(false),
+            teamId: z.uuid().optional(),
+            teamName: z.string().min(1).max(50).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+
+            const { boxId, competitionId, ...options } = input;
+            return BoxCompetitionService.register(boxId, competitionId, membership.id, options);
+        }),
+
+    // Withdraw your registration
+    withdraw: protectedProcedure
+        .input(competitionParams)
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            return BoxCompetitionService.withdraw(input.boxId, input.competitionId, membership.id);
+        }),
+
+    // Submit your (or your team's) score for an event
+    submitScore: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            eventId: z.uuid(),
+            score: z.string().min(1).max(50),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            return BoxCompetitionService.submitScore(input.boxId, input.eventId, membership.id, input.score);
+        }),
+
+    // Scores waiting for a judge (coaches and above)
+    getPendingScores: protectedProcedure
+        .input(competitionParams)
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxCompetitionService.getPendingScores(input.boxId, input.competitionId);
+        }),
+
+    // Validate or reject a score (coaches and above act as judges)
+    judgeScore: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            scoreId: z.uuid(),
+            status: z.enum(["validated", "rejected"]),
+            notes: z.string().max(500).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, scoreId, ...decision } = input;
+            return BoxCompetitionService.judgeScore(boxId, scoreId, membership.id, decision);
+        }),
+});
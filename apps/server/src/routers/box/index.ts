@@ -3,9 +3,23 @@ import { router } from "@/lib/trpc";
 import { boxManagementRouter } from "./management";
 import { boxMembersRouter } from "./members";
 import { boxStatisticsRouter } from "./statistics";
+import { boxScheduleRouter } from "./schedule";
+import { boxProgrammingRouter } from "./programming";
+import { boxCompetitionRouter } from "./competitions";
+import { boxChallengeRouter } from "./challenges";
+import { boxCoachingRouter } from "./coaching";
+import { boxAlertRouter } from "./alerts";
+import { boxWellnessRouter } from "./wellness";
 
 export const boxRouter = router({
     management: boxManagementRouter,
     members: boxMembersRouter,
     statistics: boxStatisticsRouter,
+    schedule: boxScheduleRouter,
+    programming: boxProgrammingRouter,
+    competitions: boxCompetitionRouter,
+    challenges: boxChallengeRouter,
+    coaching: boxCoachingRouter,
+    alerts: boxAlertRouter,
+    wellness: boxWellnessRouter,
 });
\ No newline at end of file
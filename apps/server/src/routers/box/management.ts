@@ -104,6 +104,12 @@ export const boxManagementRouter = router({
             logo: z.url().optional(),
             requireApproval: z.boolean().optional(),
             allowPublicSignup: z.boolean().optional(),
+            defaultWeightUnit: z.enum(["kg", "lbs"]).optional(),
+            loadIncrementKg: z.number().positive().max(25).optional(),
+            loadIncrementLbs: z.number().positive().max(55).optional(),
+            monthlyMembershipPrice: z.number().min(0).max(100000).nullable().optional(),
+            interventionCost: z.number().min(0).max(100000).nullable().optional(),
+            memberAcquisitionCost: z.number().min(0).max(100000).nullable().optional(),
         }))
         .mutation(async ({ ctx, input }) => {
             await requireBoxOwner(ctx, input.boxId);
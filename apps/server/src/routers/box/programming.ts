@@ -0,0 +1,147 @@
+﻿// routers/box/programming.ts
+import { protectedProcedure, router } from "@/lib/trpc";
+import { z } from "zod";
+import {
+    requireBoxMembership,
+    requireCoachOrAbove,
+    checkSubscriptionLimits,
+} from "@/lib/permissions";
+import { BoxProgrammingService } from "@/lib/services/box";
+import { AthleteService } from "@/lib/services/athlete/athlete-service";
+
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const programmedMovementSchema = z.object({
+    movementId: z.uuid(),
+    prescribedReps: z.number().int().min(1).max(1000).optional(),
+    prescribedSets: z.number().int().min(1).max(100).optional(),
+    prescribedLoad: z.number().positive().max(2000).optional(),
+    prescribedPercentage: z.number().positive().max(150).optional(),
+    prescribedCalories: z.number().int().min(1).max(1000).optional(),
+    prescribedDistance: z.number().positive().max(100000).optional(),
+    unit: z.string().max(20).optional(),
+    scaledLoad: z.number().positive().max(2000).optional(),
+    scaledNotes: z.string().max(500).optional(),
+    notes: z.string().max(500).optional(),
+});
+
+const workoutPartSchema = z.object({
+    partType: z.enum(["warmup", "strength", "skill", "metcon", "accessory", "cooldown"]),
+    title: z.string().min(1).max(100),
+    description: z.string().max(2000).optional(),
+    scoringType: z.enum(["time", "rounds_reps", "load", "reps", "calories", "distance", "none"]).default("none"),
+    timeCapSeconds: z.number().int().min(1).max(14400).optional(),
+    rounds: z.number().int().min(1).max(100).optional(),
+    benchmarkId: z.uuid().optional(),
+    movements: z.array(programmedMovementSchema).max(30).default([]),
+});
+
+export const boxProgrammingRouter = router({
+    // Get the programmed workouts for a day (athletes only see published workouts)
+    getWorkoutsForDate: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            workoutDate: localDateSchema,
+            athleteId: z.uuid().optional(), // Coaches: flag restrictions for this athlete
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+            const isStaff = ["owner", "head_coach", "coach"].includes(membership.role);
+
+            const workouts = await BoxProgrammingService.getWorkoutsForDate(input.boxId, input.workoutDate, isStaff);
+
+            // Flag movements restricted by the athlete's open injuries
+            const athleteId = isStaff ? input.athleteId : membership.id;
+            return athleteId
+                ? AthleteService.flagRestrictedMovements(input.boxId, athleteId, workouts)
+                : workouts;
+        }),
+
+    // Get a single programmed workout (coaches and above)
+    getWorkout: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            workoutId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxProgrammingService.getWorkout(input.boxId, input.workoutId);
+        }),
+
+    // List programming over a date range (coaches and above)
+    listWorkouts: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            startDate: localDateSchema,
+            endDate: localDateSchema,
+            track: z.string().max(50).optional(),
+            status: z.enum(["draft", "published", "archived"]).optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, ...options } = input;
+            return BoxProgrammingService.listWorkouts(boxId, options);
+        }),
+
+    // Create a programmed workout as a draft (coaches and above)
+    createWorkout: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            workoutDate: localDateSchema,
+            track: z.string().min(1).max(50).default("main"),
+            title: z.string().min(1).max(100),
+            description: z.string().max(2000).optional(),
+            coachNotes: z.string().max(2000).optional(),
+            parts: z.array(workoutPartSchema).min(1).max(10),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, ...data } = input;
+            return BoxProgrammingService.createWorkout(boxId, membership.id, data);
+        }),
+
+    // Update a programmed workout, replacing its parts when provided (coaches and above)
+    updateWorkout: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            workoutId: z.uuid(),
+            workoutDate: localDateSchema.optional(),
+            track: z.string().min(1).max(50).optional(),
+            title: z.string().min(1).max(100).optional(),
+            description: z.string().max(2000).nullable().optional(),
+            coachNotes: z.string().max(2000).nullable().optional(),
+            parts: z.array(workoutPartSchema).min(1).max(10).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, workoutId, ...updates } = input;
+            return BoxProgrammingService.updateWorkout(boxId, workoutId, updates);
+        }),
+
+    // Publish a workout to athletes (coaches and above)
+    publishWorkout: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            workoutId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxProgrammingService.publishWorkout(input.boxId, input.workoutId);
+        }),
+
+    // Archive a workout (coaches and above)
+    archiveWorkout: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            workoutId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxProgrammingService.archiveWorkout(input.boxId, input.workoutId);
+        }),
+});
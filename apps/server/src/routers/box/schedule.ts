@@ -0,0 +1,216 @@
+// routers/box/schedule.ts
+import { protectedProcedure, router } from "@/lib/trpc";
+import { z } from "zod";
+import {
+    requireBoxMembership,
+    requireBoxRole,
+    requireCoachOrAbove,
+    checkSubscriptionLimits,
+} from "@/lib/permissions";
+import { BoxScheduleService } from "@/lib/services/box";
+
+const classTypeSchema = z.enum([
+    "wod",
+    "strength",
+    "olympic_lifting",
+    "gymnastics",
+    "endurance",
+    "open_gym",
+    "foundations",
+    "specialty"
+]);
+
+const localTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format");
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const boxScheduleRouter = router({
+    // Get recurring class templates
+    getClassTemplates: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            includeInactive: z.boolean().default(false),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxScheduleService.getClassTemplates(input.boxId, input.includeInactive);
+        }),
+
+    // Create recurring class template (coaches and above)
+    createClassTemplate: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            name: z.string().min(1).max(100),
+            classType: classTypeSchema.default("wod"),
+            description: z.string().max(500).optional(),
+            dayOfWeek: z.number().int().min(0).max(6),
+            startTime: localTimeSchema,
+            durationMinutes: z.number().int().min(15).max(480).default(60),
+            capacity: z.number().int().min(1).max(200).default(16),
+            coachMembershipId: z.uuid().optional(),
+            cancelWindowMinutes: z.number().int().min(0).max(2880).optional(),
+            effectiveFrom: localDateSchema.optional(),
+            effectiveUntil: localDateSchema.optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, ...data } = input;
+            return BoxScheduleService.createClassTemplate(boxId, membership.id, data);
+        }),
+
+    // Update recurring class template (coaches and above)
+    updateClassTemplate: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            templateId: z.uuid(),
+            name: z.string().min(1).max(100).optional(),
+            classType: classTypeSchema.optional(),
+            description: z.string().max(500).optional(),
+            dayOfWeek: z.number().int().min(0).max(6).optional(),
+            startTime: localTimeSchema.optional(),
+            durationMinutes: z.number().int().min(15).max(480).optional(),
+            capacity: z.number().int().min(1).max(200).optional(),
+            coachMembershipId: z.uuid().nullable().optional(),
+            cancelWindowMinutes: z.number().int().min(0).max(2880).nullable().optional(),
+            effectiveFrom: localDateSchema.nullable().optional(),
+            effectiveUntil: localDateSchema.nullable().optional(),
+            isActive: z.boolean().optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, templateId, ...updates } = input;
+            return BoxScheduleService.updateClassTemplate(boxId, templateId, updates);
+        }),
+
+    // Generate upcoming class instances from templates
+    generateClassInstances: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            days: z.number().int().min(1).max(60).default(14),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            return BoxScheduleService.generateClassInstances(input.boxId, input.days);
+        }),
+
+    // Create a one-off class outside the recurring schedule
+    createClass: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            name: z.string().min(1).max(100),
+            classType: classTypeSchema.default("wod"),
+            startsAt: z.date(),
+            durationMinutes: z.number().int().min(15).max(480).default(60),
+            capacity: z.number().int().min(1).max(200).default(16),
+            coachMembershipId: z.uuid().optional(),
+            cancelWindowMinutes: z.number().int().min(0).max(2880).optional(),
+            notes: z.string().max(500).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            const { boxId, ...data } = input;
+            return BoxScheduleService.createClassInstance(boxId, data);
+        }),
+
+    // Get class schedule (all members)
+    getSchedule: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            startDate: z.date(),
+            endDate: z.date(),
+            includeCancelled: z.boolean().default(false),
+        }))
+        .query(async ({ ctx, input }) => {
+            const membership = await requireBoxMembership(ctx, input.boxId);
+
+            return BoxScheduleService.getSchedule(input.boxId, {
+                startDate: input.startDate,
+                endDate: input.endDate,
+                membershipId: membership.id,
+                includeCancelled: input.includeCancelled,
+            });
+        }),
+
+    // Get class roster (coaches and above)
+    getClassRoster: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            classInstanceId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxScheduleService.getClassRoster(input.boxId, input.classInstanceId);
+        }),
+
+    // Readiness roster from athletes' check-ins on the class date (coaches and above)
+    getClassReadiness: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            classInstanceId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxScheduleService.getClassReadinessRoster(input.boxId, input.classInstanceId);
+        }),
+
+    // Cancel a class (coaches and above)
+    cancelClass: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            classInstanceId: z.uuid(),
+            reason: z.string().max(500).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxScheduleService.cancelClassInstance(input.boxId, input.classInstanceId, input.reason);
+        }),
+
+    // Get reservation policy (late-cancel/no-show windows, waitlist, violation alerts)
+    getSchedulingPolicy: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxMembership(ctx, input.boxId);
+            return BoxScheduleService.getSchedulingPolicy(input.boxId);
+        }),
+
+    // Update reservation policy (owners and head coaches)
+    updateSchedulingPolicy: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            lateCancelWindowMinutes: z.number().int().min(0).max(2880).optional(),
+            noShowGraceMinutes: z.number().int().min(0).max(120).optional(),
+            waitlistEnabled: z.boolean().optional(),
+            maxWaitlistSize: z.number().int().min(0).max(100).optional(),
+            violationAlertThreshold: z.number().int().min(1).max(50).optional(),
+            violationLookbackDays: z.number().int().min(7).max(365).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+            await checkSubscriptionLimits(input.boxId);
+
+            const { boxId, ...updates } = input;
+            return BoxScheduleService.updateSchedulingPolicy(boxId, updates);
+        }),
+
+    // Convert reservations of a finished class into attendance records
+    finalizeClassAttendance: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            classInstanceId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            await requireCoachOrAbove(ctx, input.boxId);
+
+            return BoxScheduleService.finalizeClassAttendance(input.boxId, input.classInstanceId);
+        }),
+});
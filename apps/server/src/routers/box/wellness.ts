@@ -0,0 +1,118 @@
+﻿// routers/box/wellness.ts - Box-defined wellness questionnaire, answer analytics and exports
+import { protectedProcedure, router } from "@/lib/trpc";
+import { z } from "zod";
+import {
+    requireBoxMembership,
+    requireBoxRole,
+    requireCoachOrAbove,
+    checkSubscriptionLimits,
+} from "@/lib/permissions";
+import { BoxWellnessQuestionnaireService } from "@/lib/services/box";
+
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const questionSchema = z.object({
+    key: z.string().min(1).max(50),
+    prompt: z.string().min(1).max(200),
+    helpText: z.string().max(500).optional(),
+    type: z.enum(["scale", "choice", "boolean", "text"]),
+    isRequired: z.boolean().default(false),
+    scaleMin: z.number().int().min(-100).max(100).optional(),
+    scaleMax: z.number().int().min(-100).max(100).optional(),
+    scaleMinLabel: z.string().max(50).optional(),
+    scaleMaxLabel: z.string().max(50).optional(),
+    options: z.array(z.string().min(1).max(50)).max(20).optional(),
+});
+
+export const boxWellnessRouter = router({
+    // Questions asked at check-in: standard fields plus the active custom questionnaire
+    getActiveQuestionnaire: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireBoxMembership(ctx, input.boxId);
+            return BoxWellnessQuestionnaireService.getActiveQuestionnaire(input.boxId);
+        }),
+
+    // Every questionnaire version (coaches and above)
+    listQuestionnaires: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxWellnessQuestionnaireService.listQuestionnaires(input.boxId);
+        }),
+
+    // Ready-made questions (cycle phase, caffeine, alcohol...) to start from
+    getQuestionTemplates: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxWellnessQuestionnaireService.getQuestionTemplates();
+        }),
+
+    // Publish a new version and make it active (owners and head coaches)
+    publishQuestionnaire: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            name: z.string().min(1).max(100),
+            questions: z.array(questionSchema).max(20),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await checkSubscriptionLimits(input.boxId);
+            const membership = await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+
+            const { boxId, ...data } = input;
+            return BoxWellnessQuestionnaireService.publishQuestionnaire(boxId, membership.id, data);
+        }),
+
+    // Back to the standard check-in only (owners and head coaches)
+    retireQuestionnaire: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await requireBoxRole(ctx, input.boxId, ["owner", "head_coach"]);
+            return BoxWellnessQuestionnaireService.retireActiveQuestionnaire(input.boxId);
+        }),
+
+    // Answers to a custom question over time (coaches and above)
+    getQuestionAnalytics: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            questionKey: z.string().min(1).max(50),
+            days: z.number().min(7).max(365).default(30),
+        }))
+        .query(async ({ ctx, input }) => {
+            await requireCoachOrAbove(ctx, input.boxId);
+            return BoxWellnessQuestionnaireService.getQuestionAnalytics(input.boxId, input.questionKey, input.days);
+        }),
+
+    // Check-ins with standard and custom answers as rows or CSV (coaches and above,
+    // personal data for owners only)
+    exportResponses: protectedProcedure
+        .input(z.object({
+            boxId: z.uuid(),
+            from: localDateSchema,
+            to: localDateSchema,
+            format: z.enum(["json", "csv"]).default("json"),
+            includePersonalData: z.boolean().default(false),
+        }))
+        .query(async ({ ctx, input }) => {
+            if (input.includePersonalData) {
+                await requireBoxRole(ctx, input.boxId, ["owner"]);
+            } else {
+                await requireCoachOrAbove(ctx, input.boxId);
+            }
+
+            const options = { from: input.from, to: input.to, includePersonalData: input.includePersonalData };
+            if (input.format === "csv") {
+                return { csv: await BoxWellnessQuestionnaireService.exportWellnessResponsesCsv(input.boxId, options) };
+            }
+            return BoxWellnessQuestionnaireService.exportWellnessResponses(input.boxId, options);
+        }),
+});
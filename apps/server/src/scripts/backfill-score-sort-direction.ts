@@ -0,0 +1,59 @@
+﻿// scripts/backfill-score-sort-direction.ts - Set sort_direction on rows that predate it
+// Run once after `db:push` adds the sort_direction columns; safe to re-run (only time-scored rows change)
+import { db } from "@/db";
+import { leaderboards } from "@/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { logger } from "@/lib/logger";
+import { AthleteLeaderboardService } from "@/lib/services/athlete";
+
+async function backfillScoreSortDirection() {
+    try {
+        logger.info("Backfilling score sort direction...");
+
+        // The column defaulted to 'desc'; only timed results rank lower-is-better
+        const benchmarks = await db.execute(sql`
+            UPDATE athlete_benchmarks
+            SET sort_direction = 'asc'
+            WHERE value_type = 'time' AND sort_direction <> 'asc'
+        `);
+
+        const boards = await db.execute(sql`
+            UPDATE leaderboards l
+            SET sort_direction = 'asc', updated_at = NOW()
+            FROM benchmark_wods bw
+            WHERE l.benchmark_id = bw.id
+              AND bw.type = 'time'
+              AND l.sort_direction <> 'asc'
+        `);
+
+        logger.info("Backfilled score sort direction", {
+            benchmarks: benchmarks.rowCount,
+            leaderboards: boards.rowCount,
+        });
+
+        // Timed benchmark boards were ranked slowest first
+        const benchmarkBoards = await db
+            .select({ id: leaderboards.id })
+            .from(leaderboards)
+            .where(and(
+                eq(leaderboards.isActive, true),
+                eq(leaderboards.type, "benchmark"),
+                eq(leaderboards.sortDirection, "asc")
+            ));
+
+        for (const board of benchmarkBoards) {
+            await AthleteLeaderboardService.recomputeLeaderboard(board.id, { notify: false });
+        }
+
+        logger.info("Score sort direction backfill complete", { leaderboardsRecomputed: benchmarkBoards.length });
+    } catch (error) {
+        logger.error("Score sort direction backfill failed", error as Error);
+        throw error;
+    }
+}
+
+if (require.main === module) {
+    backfillScoreSortDirection().then(() => process.exit(0)).catch(() => process.exit(1));
+}
+
+export { backfillScoreSortDirection };
@@ -0,0 +1,87 @@
+﻿// scripts/normalize-weight-units.ts - Convert stored loads to kilograms
+// Run once after `db:push` adds athlete_benchmarks.unit; safe to re-run (converted rows are skipped)
+import { db } from "@/db";
+import { leaderboards } from "@/db/schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { logger } from "@/lib/logger";
+import { AthleteLeaderboardService } from "@/lib/services/athlete";
+
+const KG_PER_LB = 0.45359237;
+
+async function normalizeWeightUnits() {
+    try {
+        logger.info("Normalizing stored loads to kg...");
+
+        // PRs entered in pounds, plus any non-canonical kg spelling
+        const prs = await db.execute(sql`
+            UPDATE athlete_prs
+            SET value = ROUND(value * ${KG_PER_LB}, 3), unit = 'kg', updated_at = NOW()
+            WHERE LOWER(TRIM(unit)) IN ('lb', 'lbs', '#')
+        `);
+        await db.execute(sql`
+            UPDATE athlete_prs SET unit = 'kg'
+            WHERE LOWER(TRIM(unit)) IN ('kg', 'kgs') AND unit <> 'kg'
+        `);
+
+        await db.execute(sql`
+            UPDATE movements SET unit = 'kg'
+            WHERE LOWER(TRIM(unit)) IN ('lb', 'lbs', '#', 'kgs')
+        `);
+
+        // Weight-scored benchmarks had no unit column: pounds when the raw score says so
+        // (anywhere after a number, e.g. "225 lbs x 3"), or when no unit was written
+        // and the box works in pounds
+        const benchmarks = await db.execute(sql`
+            UPDATE athlete_benchmarks ab
+            SET value = ROUND(ab.value * ${KG_PER_LB}, 3), unit = 'kg', updated_at = NOW()
+            FROM boxes b
+            WHERE ab.box_id = b.id
+              AND ab.value_type = 'weight'
+              AND ab.unit IS NULL
+              AND (
+                  ab.raw_score ~* '\\d\\s*(lbs?|#)([^a-z]|x|$)'
+                  OR (ab.raw_score !~* '\\d\\s*kgs?([^a-z]|x|$)' AND b.default_weight_unit = 'lbs')
+              )
+        `);
+        await db.execute(sql`
+            UPDATE athlete_benchmarks SET unit = 'kg'
+            WHERE value_type = 'weight' AND unit IS NULL
+        `);
+
+        const bodyweights = await db.execute(sql`
+            UPDATE user_bodyweight_logs
+            SET weight = ROUND(weight * ${KG_PER_LB}, 2), unit = 'kg'
+            WHERE LOWER(TRIM(unit)) IN ('lb', 'lbs', '#')
+        `);
+
+        logger.info("Converted stored loads to kg", {
+            prs: prs.rowCount,
+            benchmarks: benchmarks.rowCount,
+            bodyweights: bodyweights.rowCount,
+        });
+
+        // Rankings were computed from mixed units
+        const boards = await db
+            .select({ id: leaderboards.id })
+            .from(leaderboards)
+            .where(and(
+                eq(leaderboards.isActive, true),
+                inArray(leaderboards.type, ["pr", "benchmark"])
+            ));
+
+        for (const board of boards) {
+            await AthleteLeaderboardService.recomputeLeaderboard(board.id, { notify: false });
+        }
+
+        logger.info("Weight unit normalization complete", { leaderboardsRecomputed: boards.length });
+    } catch (error) {
+        logger.error("Weight unit normalization failed", error as Error);
+        throw error;
+    }
+}
+
+if (require.main === module) {
+    normalizeWeightUnits().then(() => process.exit(0)).catch(() => process.exit(1));
+}
+
+export { normalizeWeightUnits };
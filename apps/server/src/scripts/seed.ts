@@ -65,24 +65,24 @@ async function seedDatabase() {
         // Seed standard CrossFit movements
         const standardMovements = [
             // Squats
-            { name: "Back Squat", category: "squat", unit: "lbs", isStandard: true, isLift: true },
-            { name: "Front Squat", category: "squat", unit: "lbs", isStandard: true, isLift: true },
-            { name: "Overhead Squat", category: "squat", unit: "lbs", isStandard: true, isLift: true },
+            { name: "Back Squat", category: "squat", unit: "kg", isStandard: true, isLift: true },
+            { name: "Front Squat", category: "squat", unit: "kg", isStandard: true, isLift: true },
+            { name: "Overhead Squat", category: "squat", unit: "kg", isStandard: true, isLift: true },
 
             // Deadlifts
-            { name: "Deadlift", category: "deadlift", unit: "lbs", isStandard: true, isLift: true },
-            { name: "Sumo Deadlift", category: "deadlift", unit: "lbs", isStandard: true, isLift: true },
+            { name: "Deadlift", category: "deadlift", unit: "kg", isStandard: true, isLift: true },
+            { name: "Sumo Deadlift", category: "deadlift", unit: "kg", isStandard: true, isLift: true },
 
             // Presses
-            { name: "Strict Press", category: "press", unit: "lbs", isStandard: true, isLift: true },
-            { name: "Push Press", category: "press", unit: "lbs", isStandard: true, isLift: true },
-            { name: "Jerk", category: "press", unit: "lbs", isStandard: true, isLift: true },
-            { name: "Bench Press", category: "press", unit: "lbs", isStandard: true, isLift: true },
+            { name: "Strict Press", category: "press", unit: "kg", isStandard: true, isLift: true },
+            { name: "Push Press", category: "press", unit: "kg", isStandard: true, isLift: true },
+            { name: "Jerk", category: "press", unit: "kg", isStandard: true, isLift: true },
+            { name: "Bench Press", category: "press", unit: "kg", isStandard: true, isLift: true },
 
             // Olympic Lifts
-            { name: "Clean", category: "olympic", unit: "lbs", isStandard: true, isLift: true },
-            { name: "Snatch", category: "olympic", unit: "lbs", isStandard: true, isLift: true },
-            { name: "Clean & Jerk", category: "olympic", unit: "lbs", isStandard: true, isLift: true },
+            { name: "Clean", category: "olympic", unit: "kg", isStandard: true, isLift: true },
+            { name: "Snatch", category: "olympic", unit: "kg", isStandard: true, isLift: true },
+            { name: "Clean & Jerk", category: "olympic", unit: "kg", isStandard: true, isLift: true },
 
             // Gymnastics
             { name: "Pull-ups", category: "gymnastics", unit: "reps", isStandard: true, isSkill: true },